@@ -161,7 +161,8 @@ class DeploymentManager {
       'DEFAULT_FROM_EMAIL',
       'NODE_ENV',
       'EMAIL_BATCH_SIZE',
-      'CAMPAIGN_BATCH_SIZE'
+      'CAMPAIGN_BATCH_SIZE',
+      'DEFAULT_CONTACT_TIMEZONE'
     ];
 
     essentialVars.forEach(varName => {
@@ -2,13 +2,16 @@ import "dotenv/config";
 import * as fs from 'fs';
 import * as path from 'path';
 import { supabase } from "./src/config/supabase";
+import { ContactImportService, detectImportFormat } from "./src/services/contact-import.service";
 import { EmailCampaignService } from "./src/services/email-campaign.service";
+import { UUID } from "./src/types/email-provider";
+import { ContactImportJob, ContactImportMode } from "./src/types/email-system";
 
 /**
  * Contact Import Script Template
  *
  * This script helps you import contacts from various sources:
- * - CSV files
+ * - CSV, TSV, JSONL and XLSX files (streamed, resumable, see ContactImportService)
  * - JSON files
  * - Database exports
  * - API responses
@@ -22,6 +25,12 @@ interface ImportContact {
   metadata?: Record<string, any>;
 }
 
+interface FileImportOptions {
+  mode?: ContactImportMode;
+  listId?: UUID;
+  profileId?: UUID;
+}
+
 interface ImportStats {
   total: number;
   imported: number;
@@ -32,6 +41,7 @@ interface ImportStats {
 
 class ContactImporter {
   private emailService: EmailCampaignService;
+  private importService: ContactImportService;
   private stats: ImportStats = {
     total: 0,
     imported: 0,
@@ -42,115 +52,68 @@ class ContactImporter {
 
   constructor() {
     this.emailService = new EmailCampaignService();
+    this.importService = new ContactImportService();
   }
 
   /**
-   * Import from CSV file
-   * Expected CSV format: email,first_name,last_name,status
+   * Import a CSV, TSV, JSONL or XLSX file as an import job
+   * Columns are mapped by name (email, first_name, ...) or by the profile;
+   * custom field columns are converted to the field's type
    */
-  async importFromCSV(filePath: string): Promise<ImportStats> {
-    console.log(`📁 Importing contacts from CSV: ${filePath}`);
+  async importFile(filePath: string, options: FileImportOptions = {}): Promise<ContactImportJob> {
+    console.log(`📁 Importing contacts from: ${filePath}`);
 
     if (!fs.existsSync(filePath)) {
       throw new Error(`File not found: ${filePath}`);
     }
-
-    const csvContent = fs.readFileSync(filePath, 'utf-8');
-    const rows = this.parseCSV(csvContent);
-
-    if (rows.length === 0) {
-      throw new Error('CSV file is empty');
+    if (!detectImportFormat(filePath)) {
+      throw new Error('Unsupported file type; use .csv, .tsv, .jsonl or .xlsx');
     }
 
-    // Parse header row
-    const headers = rows[0];
-    console.log(`📋 CSV headers found: ${headers.join(', ')}`);
-
-    // Process data rows
-    const contacts: ImportContact[] = [];
-    for (let i = 1; i < rows.length; i++) {
-      const values = rows[i];
+    const job = await this.importService.createJob({
+      file_name: path.basename(filePath),
+      mode: options.mode,
+      list_id: options.listId,
+      mapping_profile_id: options.profileId,
+    });
+    console.log(`🆔 Import job: ${job.id}`);
 
-      if (values.length !== headers.length) {
-        console.log(`⚠️  Skipping malformed row ${i + 1}: ${values.join(',').substring(0, 100)}...`);
-        continue;
-      }
+    return await this.runImportJob(job.id, filePath);
+  }
 
-      const contact = this.mapCSVRowToContact(headers, values);
-      if (contact) {
-        contacts.push(contact);
-      }
+  /**
+   * Continue a paused or failed import job with the same file
+   */
+  async resumeImport(jobId: UUID, filePath: string): Promise<ContactImportJob> {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`File not found: ${filePath}`);
     }
-
-    return await this.importContacts(contacts);
+    return await this.runImportJob(jobId, filePath);
   }
 
   /**
-   * Parse CSV content handling quoted fields with commas and newlines
+   * Write the rejected rows of an import job to a CSV file
    */
-  private parseCSV(csvContent: string): string[][] {
-    const rows: string[][] = [];
-    const lines = csvContent.split('\n');
-    let currentRow: string[] = [];
-    let currentField = '';
-    let inQuotes = false;
-    let i = 0;
-
-    while (i < lines.length) {
-      const line = lines[i];
-      let j = 0;
-
-      while (j < line.length) {
-        const char = line[j];
-
-        if (char === '"') {
-          if (inQuotes && j + 1 < line.length && line[j + 1] === '"') {
-            // Escaped quote
-            currentField += '"';
-            j += 2;
-          } else {
-            // Toggle quote state
-            inQuotes = !inQuotes;
-            j++;
-          }
-        } else if (char === ',' && !inQuotes) {
-          // Field separator
-          currentRow.push(currentField.trim());
-          currentField = '';
-          j++;
-        } else {
-          currentField += char;
-          j++;
-        }
-      }
+  async writeErrorReport(jobId: UUID, outputPath: string): Promise<void> {
+    const report = await this.importService.getErrorReport(jobId);
+    fs.writeFileSync(outputPath, report);
+    console.log(`📝 Error report written to ${outputPath}`);
+  }
 
-      if (inQuotes) {
-        // Multi-line field, add newline and continue to next line
-        currentField += '\n';
-        i++;
-      } else {
-        // End of row
-        if (currentField || currentRow.length > 0) {
-          currentRow.push(currentField.trim());
-        }
-        if (currentRow.length > 0) {
-          rows.push(currentRow);
+  private async runImportJob(jobId: UUID, filePath: string): Promise<ContactImportJob> {
+    try {
+      const job = await this.importService.runJob(jobId, fs.createReadStream(filePath), {
+        onProgress: progress => {
+          console.log(`   ${progress.rows_processed} rows processed...`);
         }
-        currentRow = [];
-        currentField = '';
-        i++;
-      }
+      });
+      this.printJobSummary(job);
+      return job;
+    } catch (error) {
+      console.log(`❌ Import stopped: ${error.message}`);
+      console.log(`   Resume with: tsx import-contacts.ts resume ${jobId} ${filePath}`);
+      throw error;
     }
-
-    // Handle last field if needed
-    if (currentField || currentRow.length > 0) {
-      currentRow.push(currentField.trim());
-      if (currentRow.length > 0) {
-        rows.push(currentRow);
-      }
-    }
-
-    return rows;
   }
 
   /**
@@ -234,42 +197,6 @@ class ContactImporter {
     return this.stats;
   }
 
-  /**
-   * Map CSV row to contact object
-   * Customize this function based on your CSV format
-   */
-  private mapCSVRowToContact(headers: string[], values: string[]): ImportContact | null {
-    const emailIndex = headers.findIndex(h => h.toLowerCase().includes('email'));
-    const firstNameIndex = headers.findIndex(h => h.toLowerCase().includes('first') && h.toLowerCase().includes('name'));
-    const lastNameIndex = headers.findIndex(h => h.toLowerCase().includes('last') && h.toLowerCase().includes('name'));
-    const statusIndex = headers.findIndex(h => h.toLowerCase().includes('status'));
-
-    if (emailIndex === -1 || !values[emailIndex]) {
-      return null;
-    }
-
-    // Map status values to database enum
-    let status: 'active' | 'unsubscribed' | 'bounced' = 'active';
-    if (statusIndex !== -1 && values[statusIndex]) {
-      const csvStatus = values[statusIndex].toLowerCase();
-      if (csvStatus === 'subscribed' || csvStatus === 'active') {
-        status = 'active';
-      } else if (csvStatus === 'unsubscribed') {
-        status = 'unsubscribed';
-      } else if (csvStatus === 'bounced') {
-        status = 'bounced';
-      }
-    }
-
-    return {
-      email: values[emailIndex],
-      first_name: firstNameIndex !== -1 ? values[firstNameIndex] : undefined,
-      last_name: lastNameIndex !== -1 ? values[lastNameIndex] : undefined,
-      status: status,
-      metadata: this.extractCSVMetadata(headers, values, [emailIndex, firstNameIndex, lastNameIndex, statusIndex])
-    };
-  }
-
   /**
    * Map JSON object to contact
    * Customize this function based on your JSON structure
@@ -312,21 +239,6 @@ class ContactImporter {
     };
   }
 
-  /**
-   * Extract additional metadata from CSV (non-standard fields)
-   */
-  private extractCSVMetadata(headers: string[], values: string[], usedIndexes: number[]): Record<string, any> {
-    const metadata: Record<string, any> = {};
-
-    headers.forEach((header, index) => {
-      if (!usedIndexes.includes(index) && values[index]) {
-        metadata[header] = values[index];
-      }
-    });
-
-    return Object.keys(metadata).length > 0 ? metadata : {};
-  }
-
   /**
    * Extract additional metadata from JSON (non-standard fields)
    */
@@ -438,6 +350,22 @@ class ContactImporter {
     console.log(`❌ Errors: ${this.stats.errors}`);
     console.log(`📊 Success rate: ${((this.stats.imported / this.stats.total) * 100).toFixed(1)}%`);
   }
+
+  /**
+   * Print import job summary
+   */
+  private printJobSummary(job: ContactImportJob): void {
+    console.log('\n📊 Import Summary');
+    console.log('================');
+    console.log(`📈 Rows processed: ${job.rows_processed}`);
+    console.log(`✅ Created: ${job.created_count}`);
+    console.log(`🔄 Updated: ${job.updated_count}`);
+    console.log(`⏩ Skipped existing: ${job.skipped_count}`);
+    console.log(`❌ Errors: ${job.error_count}`);
+    if (job.error_count > 0) {
+      console.log(`   Error report: tsx import-contacts.ts errors ${job.id} errors.csv`);
+    }
+  }
 }
 
 // =================================================================
@@ -455,8 +383,8 @@ async function importFromCSVExample() {
   // john@example.com,John,Doe,ACME Corp,555-1234
 
   try {
-    const stats = await importer.importFromCSV('./data/contacts.csv');
-    console.log('CSV import completed:', stats);
+    const job = await importer.importFile('./data/contacts.csv', { mode: 'upsert' });
+    console.log('CSV import completed:', job.status);
   } catch (error) {
     console.error('CSV import failed:', error.message);
   }
@@ -568,6 +496,30 @@ test3@example.com,Bob,Johnson,Startup LLC,555-9012`;
 // MAIN EXECUTION
 // =================================================================
 
+/**
+ * Parse --mode, --list and --profile flags of the file command
+ */
+function parseFileImportOptions(args: string[]): FileImportOptions {
+  const options: FileImportOptions = {};
+  for (let i = 0; i < args.length; i += 2) {
+    const value = args[i + 1];
+    switch (args[i]) {
+      case '--mode':
+        options.mode = value as ContactImportMode;
+        break;
+      case '--list':
+        options.listId = UUID.from(value);
+        break;
+      case '--profile':
+        options.profileId = UUID.from(value);
+        break;
+      default:
+        throw new Error(`Unknown option: ${args[i]}`);
+    }
+  }
+  return options;
+}
+
 async function main() {
   const args = process.argv.slice(2);
   const command = args[0];
@@ -575,14 +527,33 @@ async function main() {
 
   try {
     switch (command) {
-             case 'csv':
-         if (!filePath) {
-           console.error('Usage: tsx import-contacts.ts csv <file-path>');
-           process.exit(1);
-         }
-         const csvImporter = new ContactImporter();
-         await csvImporter.importFromCSV(filePath);
-         break;
+      case 'csv':
+      case 'file':
+        if (!filePath) {
+          console.error('Usage: tsx import-contacts.ts file <file-path> [--mode skip|upsert|overwrite] [--list <list-id>] [--profile <profile-id>]');
+          process.exit(1);
+        }
+        const fileImporter = new ContactImporter();
+        await fileImporter.importFile(filePath, parseFileImportOptions(args.slice(2)));
+        break;
+
+      case 'resume':
+        if (!args[1] || !args[2]) {
+          console.error('Usage: tsx import-contacts.ts resume <job-id> <file-path>');
+          process.exit(1);
+        }
+        const resumeImporter = new ContactImporter();
+        await resumeImporter.resumeImport(UUID.from(args[1]), args[2]);
+        break;
+
+      case 'errors':
+        if (!args[1]) {
+          console.error('Usage: tsx import-contacts.ts errors <job-id> [output.csv]');
+          process.exit(1);
+        }
+        const reportImporter = new ContactImporter();
+        await reportImporter.writeErrorReport(UUID.from(args[1]), args[2] || `import-${args[1]}-errors.csv`);
+        break;
 
        case 'json':
          if (!filePath) {
@@ -606,14 +577,17 @@ async function main() {
         console.log('=======================');
         console.log('');
         console.log('Available commands:');
-        console.log('  tsx import-contacts.ts csv <file-path>    # Import from CSV file');
+        console.log('  tsx import-contacts.ts file <file-path>   # Import a CSV, TSV, JSONL or XLSX file');
+        console.log('      [--mode skip|upsert|overwrite] [--list <list-id>] [--profile <profile-id>]');
+        console.log('  tsx import-contacts.ts resume <job-id> <file-path>  # Continue a stopped import');
+        console.log('  tsx import-contacts.ts errors <job-id> [output.csv] # Download rejected rows');
         console.log('  tsx import-contacts.ts json <file-path>   # Import from JSON file');
         console.log('  tsx import-contacts.ts data               # Import from sample data');
         console.log('  tsx import-contacts.ts samples            # Create sample files');
         console.log('');
         console.log('Example usage:');
         console.log('  tsx import-contacts.ts samples            # Create sample files first');
-        console.log('  tsx import-contacts.ts csv ./data/contacts.csv');
+        console.log('  tsx import-contacts.ts file ./data/contacts.csv --mode upsert');
         console.log('  tsx import-contacts.ts json ./data/contacts.json');
         break;
     }
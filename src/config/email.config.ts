@@ -1,9 +1,37 @@
+import {
+  dkimEnvPrefix,
+  parseDkimKeys,
+} from "../../supabase/functions/_shared/dkim-keys";
 import { MailtrapProvider } from "../providers/mailtrap.provider";
+import { SmtpProvider } from "../providers/smtp.provider";
 import { EmailService } from "../services/email.service";
-import { EmailServiceOptions, MailtrapConfig } from "../types/email-provider";
+import { ProviderRouter } from "../services/provider-router.service";
+import { SuppressionService } from "../services/suppression.service";
+import {
+  createTrackingUrlService,
+  parseTrackingSigningKeys,
+} from "../services/tracking-url.service";
+import {
+  DkimAlgorithm,
+  DkimConfig,
+  EmailProvider,
+  EmailServiceOptions,
+  MailtrapConfig,
+  SmtpConfig,
+} from "../types/email-provider";
+
+export type EmailProviderType = "mailtrap" | "smtp";
+
+export interface EmailProviderRouteConfig {
+  type: EmailProviderType;
+  weight: number;
+}
 
 export interface EmailConfig {
-  mailtrap: MailtrapConfig;
+  provider: EmailProviderType;
+  routes?: EmailProviderRouteConfig[];
+  mailtrap?: MailtrapConfig;
+  smtp?: SmtpConfig;
   service: EmailServiceOptions;
 }
 
@@ -20,26 +48,64 @@ export function createEmailConfig(): EmailConfig {
     "info";
   const enableRateLimit = process.env.ENABLE_RATE_LIMIT !== "false";
   const enableRetries = process.env.ENABLE_RETRIES !== "false";
+  const enableSuppressionCheck =
+    process.env.ENABLE_SUPPRESSION_CHECK !== "false";
+  const routes = parseProviderRoutes(process.env.EMAIL_PROVIDERS);
+  const providerType = routes ? routes[0].type : getEmailProviderType();
+  const rateLimit = {
+    maxRequests: parseInt(process.env.EMAIL_RATE_LIMIT_MAX || "200"),
+    windowMs: parseInt(process.env.EMAIL_RATE_LIMIT_WINDOW || "3600000"), // 1 hour
+  };
 
-  if (!mailtrapApiKey) {
-    throw new Error("MAILTRAP_API_KEY environment variable is required");
-  }
-
-  const mailtrapConfig: MailtrapConfig = {
-    apiKey: mailtrapApiKey,
-    inboxId: mailtrapInboxId,
-    testMode: mailtrapTestMode,
-    timeout: parseInt(process.env.EMAIL_TIMEOUT || "30000"),
-    retries: parseInt(process.env.EMAIL_RETRIES || "3"),
-    retryDelay: parseInt(process.env.EMAIL_RETRY_DELAY || "1000"),
-    rateLimit: {
-      maxRequests: parseInt(process.env.EMAIL_RATE_LIMIT_MAX || "200"),
-      windowMs: parseInt(process.env.EMAIL_RATE_LIMIT_WINDOW || "3600000"), // 1 hour
-    },
+  let mailtrapConfig: MailtrapConfig | undefined;
+  let smtpConfig: SmtpConfig | undefined;
+
+  const buildProvider = (type: EmailProviderType): EmailProvider => {
+    if (type === "smtp") {
+      smtpConfig = createSmtpConfig(rateLimit);
+      return new SmtpProvider(smtpConfig);
+    }
+
+    if (!mailtrapApiKey) {
+      throw new Error("MAILTRAP_API_KEY environment variable is required");
+    }
+
+    mailtrapConfig = {
+      apiKey: mailtrapApiKey,
+      inboxId: mailtrapInboxId,
+      testMode: mailtrapTestMode,
+      timeout: parseInt(process.env.EMAIL_TIMEOUT || "30000"),
+      retries: parseInt(process.env.EMAIL_RETRIES || "3"),
+      retryDelay: parseInt(process.env.EMAIL_RETRY_DELAY || "1000"),
+      rateLimit,
+    };
+    return new MailtrapProvider(mailtrapConfig, webhookSecret);
   };
 
+  const provider: EmailProvider = routes
+    ? new ProviderRouter(
+        routes.map((route) => ({
+          provider: buildProvider(route.type),
+          weight: route.weight,
+        })),
+        {
+          circuitBreaker: {
+            failureThreshold: parseInt(
+              process.env.EMAIL_CIRCUIT_FAILURE_THRESHOLD || "5"
+            ),
+            resetTimeoutMs: parseInt(
+              process.env.EMAIL_CIRCUIT_RESET_TIMEOUT || "60000"
+            ),
+          },
+          healthCheckIntervalMs: parseInt(
+            process.env.EMAIL_HEALTH_CHECK_INTERVAL || "60000"
+          ),
+        }
+      )
+    : buildProvider(providerType);
+
   const serviceOptions: EmailServiceOptions = {
-    provider: new MailtrapProvider(mailtrapConfig, webhookSecret),
+    provider,
     defaultFrom: defaultFromEmail
       ? {
           email: defaultFromEmail,
@@ -50,14 +116,134 @@ export function createEmailConfig(): EmailConfig {
     enableRetries,
     webhookSecret,
     logLevel,
+    listUnsubscribe:
+      process.env.TRACKING_SIGNING_KEYS || process.env.TRACKING_SIGNING_SECRET
+        ? createTrackingUrlService(
+            process.env.TEMPLATE_TRACKING_BASE_URL ||
+              "https://track.example.com",
+            {
+              signing_keys: parseTrackingSigningKeys(
+                process.env.TRACKING_SIGNING_KEYS
+              ),
+              signing_secret: process.env.TRACKING_SIGNING_SECRET,
+              token_ttl_seconds: process.env.TRACKING_TOKEN_TTL_SECONDS
+                ? parseInt(process.env.TRACKING_TOKEN_TTL_SECONDS)
+                : undefined,
+              unsubscribe_mailto: process.env.UNSUBSCRIBE_MAILTO,
+            }
+          )
+        : undefined,
+    suppressionList: enableSuppressionCheck
+      ? new SuppressionService()
+      : undefined,
   };
 
   return {
+    provider: providerType,
+    routes,
     mailtrap: mailtrapConfig,
+    smtp: smtpConfig,
     service: serviceOptions,
   };
 }
 
+/**
+ * Parse EMAIL_PROVIDERS, e.g. "mailtrap:3,smtp:1" or "mailtrap,smtp:0".
+ * A weight of 0 marks a standby provider used only for failover.
+ */
+function parseProviderRoutes(
+  value?: string
+): EmailProviderRouteConfig[] | undefined {
+  if (!value || !value.trim()) {
+    return undefined;
+  }
+
+  return value.split(",").map((entry) => {
+    const [name, weight] = entry.trim().split(":");
+    const type = name.toLowerCase();
+    if (type !== "mailtrap" && type !== "smtp") {
+      throw new Error(
+        `Unsupported provider "${name}" in EMAIL_PROVIDERS (expected "mailtrap" or "smtp")`
+      );
+    }
+
+    const parsedWeight = weight === undefined ? 1 : parseInt(weight);
+    if (isNaN(parsedWeight) || parsedWeight < 0) {
+      throw new Error(`Invalid weight for provider "${name}" in EMAIL_PROVIDERS`);
+    }
+
+    return { type, weight: parsedWeight };
+  });
+}
+
+function getEmailProviderType(): EmailProviderType {
+  const provider = (process.env.EMAIL_PROVIDER || "mailtrap").toLowerCase();
+  if (provider !== "mailtrap" && provider !== "smtp") {
+    throw new Error(
+      `Unsupported EMAIL_PROVIDER "${provider}" (expected "mailtrap" or "smtp")`
+    );
+  }
+  return provider;
+}
+
+function createSmtpConfig(rateLimit: SmtpConfig["rateLimit"]): SmtpConfig {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST environment variable is required");
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || "587");
+  const user = process.env.SMTP_USER;
+  const authMethod = process.env.SMTP_AUTH_METHOD?.toUpperCase();
+
+  return {
+    host,
+    port,
+    secure: process.env.SMTP_SECURE
+      ? process.env.SMTP_SECURE === "true"
+      : port === 465,
+    requireTLS: process.env.SMTP_REQUIRE_TLS === "true",
+    rejectUnauthorized: process.env.SMTP_TLS_REJECT_UNAUTHORIZED !== "false",
+    auth: user
+      ? {
+          user,
+          pass: process.env.SMTP_PASSWORD || "",
+          method:
+            authMethod === "PLAIN" || authMethod === "LOGIN"
+              ? authMethod
+              : undefined,
+        }
+      : undefined,
+    name: process.env.SMTP_CLIENT_NAME,
+    pool: process.env.SMTP_POOL !== "false",
+    maxConnections: parseInt(process.env.SMTP_MAX_CONNECTIONS || "5"),
+    maxMessages: parseInt(process.env.SMTP_MAX_MESSAGES || "100"),
+    connectionTimeout: parseInt(process.env.EMAIL_TIMEOUT || "30000"),
+    rateLimit,
+    dkim: createDkimConfig(),
+  };
+}
+
+/**
+ * Load DKIM keys for each domain in DKIM_DOMAINS. Per-domain settings use the
+ * domain upper-cased with non-alphanumerics replaced by "_", e.g.
+ * DKIM_MOMENTUMBUSINESS_CAPITAL_SELECTOR for momentumbusiness.capital.
+ */
+export function createDkimConfig(): DkimConfig | undefined {
+  const keys = parseDkimKeys((name) => process.env[name]);
+
+  if (keys.length === 0) {
+    return undefined;
+  }
+
+  return {
+    keys: keys.map((key) => ({
+      ...key,
+      algorithm: key.algorithm as DkimAlgorithm | undefined,
+    })),
+  };
+}
+
 export function createEmailService(): EmailService {
   const config = createEmailConfig();
   return new EmailService(config.service);
@@ -66,15 +252,81 @@ export function createEmailService(): EmailService {
 // Environment variable validation
 export function validateEmailConfig(): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
+  const provider = (process.env.EMAIL_PROVIDER || "mailtrap").toLowerCase();
+  let providerTypes: string[] = [provider];
 
-  if (!process.env.MAILTRAP_API_KEY) {
+  if (process.env.EMAIL_PROVIDERS) {
+    try {
+      providerTypes =
+        parseProviderRoutes(process.env.EMAIL_PROVIDERS)?.map((r) => r.type) ||
+        providerTypes;
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  } else if (provider !== "mailtrap" && provider !== "smtp") {
+    errors.push('EMAIL_PROVIDER must be "mailtrap" or "smtp"');
+  }
+
+  if (providerTypes.includes("mailtrap") && !process.env.MAILTRAP_API_KEY) {
     errors.push("MAILTRAP_API_KEY is required");
   }
 
+  if (providerTypes.includes("smtp")) {
+    if (!process.env.SMTP_HOST) {
+      errors.push("SMTP_HOST is required when the smtp provider is enabled");
+    }
+
+    if (process.env.SMTP_PORT && isNaN(parseInt(process.env.SMTP_PORT))) {
+      errors.push("SMTP_PORT must be a number");
+    }
+
+    if (
+      process.env.SMTP_AUTH_METHOD &&
+      !["PLAIN", "LOGIN"].includes(process.env.SMTP_AUTH_METHOD.toUpperCase())
+    ) {
+      errors.push("SMTP_AUTH_METHOD must be PLAIN or LOGIN");
+    }
+
+    if (process.env.SMTP_USER && !process.env.SMTP_PASSWORD) {
+      errors.push("SMTP_PASSWORD is required when SMTP_USER is set");
+    }
+  }
+
   if (!process.env.DEFAULT_FROM_EMAIL) {
     errors.push("DEFAULT_FROM_EMAIL is recommended");
   }
 
+  if (
+    !process.env.TRACKING_SIGNING_KEYS &&
+    !process.env.TRACKING_SIGNING_SECRET
+  ) {
+    errors.push(
+      "TRACKING_SIGNING_KEYS or TRACKING_SIGNING_SECRET is required for one-click List-Unsubscribe headers"
+    );
+  }
+
+  if (
+    process.env.TRACKING_SIGNING_KEYS &&
+    parseTrackingSigningKeys(process.env.TRACKING_SIGNING_KEYS).some(
+      (key) => !/^[A-Za-z0-9_-]+$/.test(key.id) || !key.secret
+    )
+  ) {
+    errors.push(
+      'TRACKING_SIGNING_KEYS must be a comma-separated list of "keyId:secret" pairs'
+    );
+  }
+
+  if (
+    process.env.TRACKING_TOKEN_TTL_SECONDS &&
+    isNaN(parseInt(process.env.TRACKING_TOKEN_TTL_SECONDS))
+  ) {
+    errors.push("TRACKING_TOKEN_TTL_SECONDS must be a number");
+  }
+
+  if (process.env.UNSUBSCRIBE_MAILTO && !isValidEmail(process.env.UNSUBSCRIBE_MAILTO)) {
+    errors.push("UNSUBSCRIBE_MAILTO must be a valid email address");
+  }
+
   if (
     process.env.DEFAULT_FROM_EMAIL &&
     !isValidEmail(process.env.DEFAULT_FROM_EMAIL)
@@ -111,6 +363,35 @@ export function validateEmailConfig(): { valid: boolean; errors: string[] } {
     errors.push("EMAIL_RATE_LIMIT_WINDOW must be a number");
   }
 
+  for (const domain of (process.env.DKIM_DOMAINS || "").split(",")) {
+    if (!domain.trim()) {
+      continue;
+    }
+
+    const prefix = dkimEnvPrefix(domain.trim());
+    if (!process.env[`${prefix}_SELECTOR`]) {
+      errors.push(`${prefix}_SELECTOR is required`);
+    }
+    if (!process.env[`${prefix}_PRIVATE_KEY`]) {
+      errors.push(`${prefix}_PRIVATE_KEY is required`);
+    }
+
+    const algorithm = process.env[`${prefix}_ALGORITHM`];
+    if (algorithm && !["rsa-sha256", "ed25519-sha256"].includes(algorithm)) {
+      errors.push(`${prefix}_ALGORITHM must be rsa-sha256 or ed25519-sha256`);
+    }
+  }
+
+  for (const name of [
+    "EMAIL_CIRCUIT_FAILURE_THRESHOLD",
+    "EMAIL_CIRCUIT_RESET_TIMEOUT",
+    "EMAIL_HEALTH_CHECK_INTERVAL",
+  ]) {
+    if (process.env[name] && isNaN(parseInt(process.env[name] as string))) {
+      errors.push(`${name} must be a number`);
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors,
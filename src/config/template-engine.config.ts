@@ -1,7 +1,17 @@
+import { CustomFieldService } from "../services/custom-field.service";
+import { resolveContactLocale } from "../services/locale.service";
 import { HandlebarsTemplateEngine } from "../services/template-engine.service";
 import { SupabaseTemplateStorage } from "../services/template-storage.service";
-import { createTrackingUrlService } from "../services/tracking-url.service";
-import { TemplateEngineConfig, TrackingConfig } from "../types/template-engine";
+import {
+  createTrackingUrlService,
+  parseTrackingSigningKeys,
+  TrackingUrlService,
+} from "../services/tracking-url.service";
+import {
+  TemplateEngineConfig,
+  TrackingConfig,
+  TrackingSigningKey,
+} from "../types/template-engine";
 
 export interface TemplateEngineFactoryConfig {
   // Tracking configuration
@@ -10,6 +20,11 @@ export interface TemplateEngineFactoryConfig {
     enablePixelTracking?: boolean;
     enableClickTracking?: boolean;
     enableOpenTracking?: boolean;
+    signingSecret?: string;
+    // Active key first; older keys still verify during rotation
+    signingKeys?: TrackingSigningKey[];
+    tokenTtlSeconds?: number;
+    unsubscribeMailto?: string;
     utmParams?: {
       source?: string;
       medium?: string;
@@ -47,6 +62,12 @@ export function createTemplateEngineConfig(): TemplateEngineFactoryConfig {
       enablePixelTracking: process.env.ENABLE_PIXEL_TRACKING !== "false",
       enableClickTracking: process.env.ENABLE_CLICK_TRACKING !== "false",
       enableOpenTracking: process.env.ENABLE_OPEN_TRACKING !== "false",
+      signingSecret: process.env.TRACKING_SIGNING_SECRET,
+      signingKeys: parseTrackingSigningKeys(process.env.TRACKING_SIGNING_KEYS),
+      tokenTtlSeconds: process.env.TRACKING_TOKEN_TTL_SECONDS
+        ? parseInt(process.env.TRACKING_TOKEN_TTL_SECONDS)
+        : undefined,
+      unsubscribeMailto: process.env.UNSUBSCRIBE_MAILTO,
       utmParams: {
         source: process.env.UTM_SOURCE || "email",
         medium: process.env.UTM_MEDIUM || "email",
@@ -77,7 +98,10 @@ export function createTemplateEngineConfig(): TemplateEngineFactoryConfig {
           "or",
           "not",
           "lookup",
+          "layout",
           "formatDate",
+          "formatNumber",
+          "formatCurrency",
           "capitalize",
           "upper",
           "lower",
@@ -100,6 +124,16 @@ export function createTemplateEngineConfig(): TemplateEngineFactoryConfig {
         uppercaseHeadings: false,
         linkHrefToText: true,
       },
+      postprocessing: {
+        inlineCss: process.env.DISABLE_CSS_INLINING !== "true",
+        preserveMediaQueries: true,
+        clientFamilies: ["gmail", "outlook", "apple_mail", "yahoo"],
+      },
+      partials: {
+        refreshIntervalMs: parseInt(
+          process.env.TEMPLATE_PARTIALS_REFRESH_MS || "60000"
+        ),
+      },
     },
     environment,
   };
@@ -115,24 +149,39 @@ export function createTemplateEngine(
   const storage = new SupabaseTemplateStorage();
 
   // Create tracking service
-  const trackingConfig: TrackingConfig = {
-    pixel_enabled: mergedConfig.tracking.enablePixelTracking ?? true,
-    click_tracking_enabled: mergedConfig.tracking.enableClickTracking ?? true,
-    open_tracking_enabled: mergedConfig.tracking.enableOpenTracking ?? true,
-    utm_params: mergedConfig.tracking.utmParams,
-  };
-
-  const trackingService = createTrackingUrlService(
-    mergedConfig.tracking.baseUrl,
-    trackingConfig
-  );
+  const trackingService = createTemplateTrackingService(mergedConfig);
 
   // Create template engine
-  return new HandlebarsTemplateEngine(
+  const engine = new HandlebarsTemplateEngine(
     storage,
     trackingService,
     mergedConfig.engine
   );
+  engine.setCustomFieldSource(new CustomFieldService());
+  return engine;
+}
+
+/**
+ * Tracking URL service with the engine's keys, e.g. to verify the URLs the
+ * engine generated
+ */
+export function createTemplateTrackingService(
+  config?: Partial<TemplateEngineFactoryConfig>
+): TrackingUrlService {
+  const { tracking } = { ...createTemplateEngineConfig(), ...config };
+
+  const trackingConfig: TrackingConfig = {
+    pixel_enabled: tracking.enablePixelTracking ?? true,
+    click_tracking_enabled: tracking.enableClickTracking ?? true,
+    open_tracking_enabled: tracking.enableOpenTracking ?? true,
+    utm_params: tracking.utmParams,
+    signing_secret: tracking.signingSecret,
+    signing_keys: tracking.signingKeys,
+    token_ttl_seconds: tracking.tokenTtlSeconds,
+    unsubscribe_mailto: tracking.unsubscribeMailto,
+  };
+
+  return createTrackingUrlService(tracking.baseUrl, trackingConfig);
 }
 
 // Environment variable validation
@@ -178,6 +227,13 @@ export function validateTemplateEngineConfig(): {
     errors.push("TEXT_WORDWRAP must be a number");
   }
 
+  if (
+    process.env.TEMPLATE_PARTIALS_REFRESH_MS &&
+    isNaN(parseInt(process.env.TEMPLATE_PARTIALS_REFRESH_MS))
+  ) {
+    errors.push("TEMPLATE_PARTIALS_REFRESH_MS must be a number");
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -212,7 +268,10 @@ export const defaultTemplateEngineConfig: TemplateEngineConfig = {
       "or",
       "not",
       "lookup",
+      "layout",
       "formatDate",
+      "formatNumber",
+      "formatCurrency",
       "capitalize",
       "upper",
       "lower",
@@ -242,6 +301,11 @@ export const defaultTemplateEngineConfig: TemplateEngineConfig = {
     allowStyleTags: true,
     sanitizeHtml: true,
   },
+  postprocessing: {
+    inlineCss: true,
+    preserveMediaQueries: true,
+    clientFamilies: ["gmail", "outlook", "apple_mail", "yahoo"],
+  },
 };
 
 // Helper function to create a template context
@@ -251,6 +315,7 @@ export function createTemplateContext(
     email: string;
     first_name?: string;
     last_name?: string;
+    locale?: string;
     metadata?: any;
   },
   variables: Record<string, any> = {},
@@ -265,6 +330,7 @@ export function createTemplateContext(
         contact.first_name && contact.last_name
           ? `${contact.first_name} ${contact.last_name}`
           : contact.first_name || contact.last_name || "",
+      locale: resolveContactLocale(contact),
     },
     campaign,
     system: {
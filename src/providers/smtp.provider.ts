@@ -0,0 +1,392 @@
+import nodemailer, { Transporter } from "nodemailer";
+import Mail from "nodemailer/lib/mailer";
+import SMTPTransport from "nodemailer/lib/smtp-transport";
+import { DkimSigner } from "../services/dkim.service";
+import { MimeBuilder } from "../services/mime-builder.service";
+import {
+  EmailMessage,
+  EmailProvider,
+  EmailProviderError,
+  EmailSendResult,
+  EmailStatus,
+  EmailTemplate,
+  JsonValue,
+  ProviderApiResponse,
+  RateLimitInfo,
+  SmtpConfig,
+  SmtpSendInfo,
+  WebhookEvent,
+} from "../types/email-provider";
+
+// Errors raised by nodemailer's SMTP connection carry these extra fields
+interface SmtpTransportError extends Error {
+  code?: string;
+  responseCode?: number;
+  response?: string;
+  command?: string;
+}
+
+interface RateLimitState {
+  count: number;
+  windowStart: Date;
+  windowMs: number;
+  limit: number;
+}
+
+// Connection-level failures that are worth retrying on another attempt
+const RETRYABLE_CONNECTION_CODES = [
+  "ECONNECTION",
+  "ETIMEDOUT",
+  "ESOCKET",
+  "EDNS",
+  "ETLS",
+  "ECONNRESET",
+  "ECONNREFUSED",
+];
+
+export class SmtpProvider implements EmailProvider {
+  name = "SMTP";
+  private config: SmtpConfig;
+  private transporter: Transporter<SMTPTransport.SentMessageInfo>;
+  private rateLimitState: RateLimitState;
+  private dkimSigner?: DkimSigner;
+
+  constructor(config: SmtpConfig) {
+    this.config = {
+      secure: config.port === 465,
+      pool: true,
+      maxConnections: 5,
+      maxMessages: 100,
+      connectionTimeout: 30000,
+      greetingTimeout: 30000,
+      socketTimeout: 60000,
+      rateLimit: {
+        maxRequests: 200,
+        windowMs: 60 * 60 * 1000, // 1 hour
+      },
+      ...config,
+    };
+
+    this.rateLimitState = {
+      count: 0,
+      windowStart: new Date(),
+      windowMs: this.config.rateLimit?.windowMs || 60 * 60 * 1000,
+      limit: this.config.rateLimit?.maxRequests || 200,
+    };
+
+    if (this.config.dkim && this.config.dkim.keys.length > 0) {
+      this.dkimSigner = new DkimSigner(this.config.dkim);
+    }
+
+    this.transporter = nodemailer.createTransport(
+      this.buildTransportOptions() as SMTPTransport.Options
+    );
+  }
+
+  async sendEmail(message: EmailMessage): Promise<EmailSendResult> {
+    if (!this.tryConsumeRateLimit()) {
+      const info = await this.checkRateLimit();
+      throw this.createError(
+        `Rate limit exceeded. ${info.remaining} requests remaining. Reset at: ${info.resetTime.toISOString()}`,
+        "RATE_LIMIT_EXCEEDED",
+        429,
+        true
+      );
+    }
+
+    try {
+      if (message.template && !message.html && !message.text) {
+        throw this.createError(
+          "SMTP provider cannot send provider-side templates; render the template first",
+          "TEMPLATES_NOT_SUPPORTED",
+          400,
+          false
+        );
+      }
+
+      const prepared = this.prepareMailOptions(message);
+      const info = await this.transporter.sendMail(prepared.options);
+      const sendInfo = this.toSendInfo(info, prepared.messageId);
+
+      if (sendInfo.accepted.length === 0) {
+        throw this.createError(
+          `All recipients were rejected: ${sendInfo.rejected.join(", ")}`,
+          "RECIPIENTS_REJECTED",
+          550,
+          false
+        );
+      }
+
+      return {
+        messageId: sendInfo.messageId,
+        status: "sent",
+        message:
+          sendInfo.rejected.length > 0
+            ? `Email sent; rejected recipients: ${sendInfo.rejected.join(", ")}`
+            : "Email sent successfully",
+        providerResponse: {
+          status: this.parseReplyCode(sendInfo.response) || 250,
+          statusText: sendInfo.response,
+          headers: {},
+          data: { ...sendInfo },
+        },
+      };
+    } catch (error) {
+      this.releaseRateLimit();
+      throw this.mapSmtpError(error);
+    }
+  }
+
+  async getEmailStatus(messageId: string): Promise<EmailStatus> {
+    // SMTP only tells us the message was accepted for relay; anything after
+    // that arrives asynchronously as DSNs or via the tracking pipeline.
+    return {
+      messageId,
+      status: "sent",
+      timestamp: new Date(),
+      events: [
+        {
+          type: "sent",
+          timestamp: new Date(),
+          data: { provider: this.name },
+        },
+      ],
+    };
+  }
+
+  async processWebhook(
+    _payload: JsonValue,
+    _signature?: string
+  ): Promise<WebhookEvent> {
+    throw this.createError(
+      "SMTP provider does not receive webhooks",
+      "WEBHOOKS_NOT_SUPPORTED",
+      400,
+      false
+    );
+  }
+
+  verifyWebhookSignature(_payload: JsonValue, _signature: string): boolean {
+    return false;
+  }
+
+  async checkRateLimit(): Promise<RateLimitInfo> {
+    this.resetRateLimitWindowIfExpired();
+
+    return {
+      remaining: Math.max(
+        0,
+        this.rateLimitState.limit - this.rateLimitState.count
+      ),
+      resetTime: new Date(
+        this.rateLimitState.windowStart.getTime() + this.rateLimitState.windowMs
+      ),
+      limit: this.rateLimitState.limit,
+    };
+  }
+
+  async validateTemplate(_template: EmailTemplate): Promise<boolean> {
+    // Plain SMTP has no server-side template store
+    return false;
+  }
+
+  async renderTemplate(
+    template: EmailTemplate
+  ): Promise<{ subject: string; html: string; text: string }> {
+    throw this.createError(
+      `SMTP provider cannot render template ${template.id}; use the template engine instead`,
+      "TEMPLATES_NOT_SUPPORTED",
+      400,
+      false
+    );
+  }
+
+  async getProviderStats(): Promise<ProviderApiResponse> {
+    const rateLimit = await this.checkRateLimit();
+
+    return {
+      status: 200,
+      statusText: "OK",
+      headers: {},
+      data: {
+        provider: this.name,
+        host: this.config.host,
+        port: this.config.port,
+        secure: Boolean(this.config.secure),
+        pooled: Boolean(this.config.pool),
+        totalSent: this.rateLimitState.count,
+        rateLimit: {
+          remaining: rateLimit.remaining,
+          limit: rateLimit.limit,
+          resetTime: rateLimit.resetTime.toISOString(),
+        },
+        lastActivity: new Date().toISOString(),
+      },
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      // Opens a connection, negotiates TLS and authenticates without sending
+      return await this.transporter.verify();
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Close pooled connections. Call on shutdown so the process can exit.
+   */
+  close(): void {
+    this.transporter.close();
+  }
+
+  private buildTransportOptions(): SMTPTransport.Options & {
+    pool?: boolean;
+    maxConnections?: number;
+    maxMessages?: number;
+  } {
+    return {
+      host: this.config.host,
+      port: this.config.port,
+      secure: this.config.secure,
+      requireTLS: this.config.requireTLS,
+      ignoreTLS: this.config.ignoreTLS,
+      name: this.config.name,
+      auth: this.config.auth
+        ? { user: this.config.auth.user, pass: this.config.auth.pass }
+        : undefined,
+      authMethod: this.config.auth?.method,
+      tls:
+        this.config.rejectUnauthorized === undefined
+          ? undefined
+          : { rejectUnauthorized: this.config.rejectUnauthorized },
+      pool: this.config.pool,
+      maxConnections: this.config.maxConnections,
+      maxMessages: this.config.maxMessages,
+      connectionTimeout: this.config.connectionTimeout,
+      greetingTimeout: this.config.greetingTimeout,
+      socketTimeout: this.config.socketTimeout,
+    };
+  }
+
+  /**
+   * Compose the wire message ourselves so the bytes sent match what the MIME
+   * builder produces, DKIM-signed when a key matches the From domain.
+   */
+  private prepareMailOptions(message: EmailMessage): {
+    options: Mail.Options;
+    messageId: string;
+  } {
+    const mime = new MimeBuilder({ hostname: this.config.name }).build(message);
+
+    return {
+      options: {
+        envelope: mime.envelope,
+        raw: this.dkimSigner ? this.dkimSigner.sign(mime.raw) : mime.raw,
+      },
+      messageId: mime.messageId,
+    };
+  }
+
+  private toSendInfo(
+    info: SMTPTransport.SentMessageInfo,
+    messageId: string
+  ): SmtpSendInfo {
+    const toEmail = (addr: string | Mail.Address): string =>
+      typeof addr === "string" ? addr : addr.address;
+
+    return {
+      messageId,
+      accepted: (info.accepted || []).map(toEmail),
+      rejected: (info.rejected || []).map(toEmail),
+      response: info.response || "",
+    };
+  }
+
+  /**
+   * Translate nodemailer/SMTP failures into EmailProviderError. 4xx replies are
+   * transient per RFC 5321 and retryable; 5xx replies are permanent.
+   */
+  private mapSmtpError(error: unknown): EmailProviderError {
+    const providerError = error as EmailProviderError;
+    if (providerError && providerError.retryable !== undefined) {
+      return providerError;
+    }
+
+    const smtpError = error as SmtpTransportError;
+    const responseCode =
+      smtpError?.responseCode || this.parseReplyCode(smtpError?.response);
+
+    if (responseCode) {
+      return this.createError(
+        `SMTP ${smtpError.command || "command"} failed: ${smtpError.response || smtpError.message}`,
+        `SMTP_${responseCode}`,
+        responseCode,
+        responseCode >= 400 && responseCode < 500,
+        smtpError.response
+      );
+    }
+
+    const code = smtpError?.code || "SMTP_ERROR";
+    return this.createError(
+      `SMTP delivery failed: ${smtpError?.message || String(error)}`,
+      code,
+      code === "EAUTH" ? 401 : 500,
+      RETRYABLE_CONNECTION_CODES.includes(code)
+    );
+  }
+
+  private parseReplyCode(response?: string): number | null {
+    const match = response?.match(/^(\d{3})/);
+    return match ? parseInt(match[1], 10) : null;
+  }
+
+  private resetRateLimitWindowIfExpired(): void {
+    const now = new Date();
+    if (
+      now.getTime() - this.rateLimitState.windowStart.getTime() >=
+      this.rateLimitState.windowMs
+    ) {
+      this.rateLimitState.count = 0;
+      this.rateLimitState.windowStart = now;
+    }
+  }
+
+  private tryConsumeRateLimit(): boolean {
+    this.resetRateLimitWindowIfExpired();
+    if (this.rateLimitState.count >= this.rateLimitState.limit) {
+      return false;
+    }
+    this.rateLimitState.count++;
+    return true;
+  }
+
+  private releaseRateLimit(): void {
+    if (this.rateLimitState.count > 0) {
+      this.rateLimitState.count--;
+    }
+  }
+
+  private createError(
+    message: string,
+    code: string,
+    statusCode: number,
+    retryable: boolean,
+    response?: string
+  ): EmailProviderError {
+    const error = new Error(message) as EmailProviderError;
+    error.code = code;
+    error.statusCode = statusCode;
+    error.retryable = retryable;
+    if (response) {
+      error.providerResponse = {
+        status: statusCode,
+        statusText: response,
+        headers: {},
+        data: response,
+      };
+    }
+    return error;
+  }
+}
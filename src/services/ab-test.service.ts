@@ -0,0 +1,320 @@
+import { supabase } from "../config/supabase";
+import {
+  ABTestResults,
+  ABTestVariantResult,
+  ABTestWinnerMetric,
+  CampaignABTest,
+  CreateCampaignABTest,
+  DispatchWinnerResult,
+  StartCampaignResult,
+  UUID,
+} from "../types/email-system";
+
+const WINNER_METRICS: ABTestWinnerMetric[] = ["opens", "human_clicks", "conversions"];
+
+interface VariantStatsRow {
+  variant_id: UUID;
+  variant_name: string;
+  recipients: number | string;
+  sent: number | string;
+  opens: number | string;
+  human_clicks: number | string;
+  conversions: number | string;
+}
+
+/**
+ * A/B and multivariate tests: a cohort of the campaign's recipients is split
+ * across variants, and after the wait window the best variant is sent to the
+ * rest. The complete_due_ab_tests cron job picks winners automatically.
+ */
+export class ABTestService {
+  /**
+   * Attach a test and its variants to a campaign that has not started yet
+   */
+  async createABTest(
+    campaignId: UUID,
+    config: CreateCampaignABTest
+  ): Promise<CampaignABTest> {
+    const errors = validateABTestConfig(config);
+    if (errors.length > 0) {
+      throw new Error(`A/B test validation failed: ${errors.join(", ")}`);
+    }
+
+    const { data: campaign, error: campaignError } = await supabase
+      .from("email_campaigns")
+      .select("id, status")
+      .eq("id", campaignId)
+      .single();
+
+    if (campaignError || !campaign) {
+      throw new Error(`Campaign not found: ${campaignId}`);
+    }
+    if (!["draft", "scheduled"].includes(campaign.status)) {
+      throw new Error(
+        `A/B test cannot be added. Campaign status: ${campaign.status}`
+      );
+    }
+
+    const { data: test, error: testError } = await supabase
+      .from("campaign_ab_tests")
+      .insert({
+        campaign_id: campaignId,
+        test_percentage: config.test_percentage,
+        winner_metric: config.winner_metric,
+        wait_hours: config.wait_hours,
+      })
+      .select()
+      .single();
+
+    if (testError) {
+      throw new Error(`Failed to create A/B test: ${testError.message}`);
+    }
+
+    const { data: variants, error: variantsError } = await supabase
+      .from("campaign_variants")
+      .insert(
+        config.variants.map((variant) => ({
+          campaign_id: campaignId,
+          ...variant,
+        }))
+      )
+      .select();
+
+    if (variantsError) {
+      // Variants failed, so the test would never be startable
+      await supabase.from("campaign_ab_tests").delete().eq("id", test.id);
+      throw new Error(`Failed to create campaign variants: ${variantsError.message}`);
+    }
+
+    return { ...test, variants };
+  }
+
+  async getABTest(campaignId: UUID): Promise<CampaignABTest | null> {
+    const { data, error } = await supabase
+      .from("campaign_ab_tests")
+      .select("*, variants:campaign_variants(*)")
+      .eq("campaign_id", campaignId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to get A/B test: ${error.message}`);
+    }
+
+    return data as CampaignABTest;
+  }
+
+  /**
+   * Queue the test cohort. Use this instead of start_campaign for campaigns
+   * with a test.
+   */
+  async startABTest(campaignId: UUID): Promise<StartCampaignResult> {
+    const { data, error } = await supabase.rpc("start_ab_test", {
+      p_campaign_id: campaignId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to start A/B test: ${error.message}`);
+    }
+
+    return data[0];
+  }
+
+  async getResults(
+    campaignId: UUID,
+    confidenceLevel = 0.95
+  ): Promise<ABTestResults> {
+    const test = await this.getABTest(campaignId);
+    if (!test) {
+      throw new Error(`Campaign has no A/B test: ${campaignId}`);
+    }
+
+    const { data, error } = await supabase.rpc("get_ab_test_variant_stats", {
+      p_campaign_id: campaignId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to get A/B test stats: ${error.message}`);
+    }
+
+    const results = compareVariants(
+      (data || []) as VariantStatsRow[],
+      test.winner_metric,
+      confidenceLevel
+    );
+
+    return {
+      campaign_id: campaignId,
+      status: test.status,
+      winner_metric: test.winner_metric,
+      confidence_level: confidenceLevel,
+      winner_variant_id: test.winner_variant_id,
+      ...results,
+    };
+  }
+
+  /**
+   * Send a variant to the recipients outside the cohort before the wait
+   * window ends. Without a variant id the best performer is picked, as the
+   * cron job would.
+   */
+  async selectWinner(
+    campaignId: UUID,
+    variantId?: UUID
+  ): Promise<DispatchWinnerResult> {
+    const { data, error } = await supabase.rpc("dispatch_ab_test_winner", {
+      p_campaign_id: campaignId,
+      p_variant_id: variantId || null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to dispatch A/B test winner: ${error.message}`);
+    }
+
+    return data[0];
+  }
+
+  async cancelABTest(campaignId: UUID): Promise<void> {
+    const { error } = await supabase
+      .from("campaign_ab_tests")
+      .update({ status: "cancelled" })
+      .eq("campaign_id", campaignId)
+      .in("status", ["draft", "testing"]);
+
+    if (error) {
+      throw new Error(`Failed to cancel A/B test: ${error.message}`);
+    }
+  }
+}
+
+export function validateABTestConfig(config: CreateCampaignABTest): string[] {
+  const errors: string[] = [];
+
+  if (
+    !Number.isInteger(config.test_percentage) ||
+    config.test_percentage < 1 ||
+    config.test_percentage > 100
+  ) {
+    errors.push("test_percentage must be an integer between 1 and 100");
+  }
+  if (!WINNER_METRICS.includes(config.winner_metric)) {
+    errors.push(`winner_metric must be one of ${WINNER_METRICS.join(", ")}`);
+  }
+  if (!Number.isInteger(config.wait_hours) || config.wait_hours < 1) {
+    errors.push("wait_hours must be a positive integer");
+  }
+  if (config.variants.length < 2) {
+    errors.push("at least two variants are required");
+  }
+
+  const names = config.variants.map((variant) => variant.name.trim());
+  if (names.some((name) => !name)) {
+    errors.push("every variant needs a name");
+  }
+  if (new Set(names).size !== names.length) {
+    errors.push("variant names must be unique");
+  }
+
+  return errors;
+}
+
+/**
+ * Rank variants by winner metric rate and test the leader against each
+ * other variant
+ */
+export function compareVariants(
+  rows: VariantStatsRow[],
+  metric: ABTestWinnerMetric,
+  confidenceLevel = 0.95
+): Pick<ABTestResults, "leader_variant_id" | "significant" | "variants"> {
+  const variants: ABTestVariantResult[] = rows.map((row) => {
+    const sent = Number(row.sent) || 0;
+    const successes = Number(row[metric]) || 0;
+    return {
+      variant_id: row.variant_id,
+      name: row.variant_name,
+      recipients: Number(row.recipients) || 0,
+      sent,
+      opens: Number(row.opens) || 0,
+      human_clicks: Number(row.human_clicks) || 0,
+      conversions: Number(row.conversions) || 0,
+      rate: sent > 0 ? Math.round((successes / sent) * 10000) / 100 : 0,
+      significant: false,
+    };
+  });
+
+  // Same tie-break as dispatch_ab_test_winner: the earlier variant wins
+  const leader = variants
+    .filter((variant) => variant.sent > 0)
+    .reduce<ABTestVariantResult | undefined>(
+      (best, variant) =>
+        !best || variant[metric] / variant.sent > best[metric] / best.sent
+          ? variant
+          : best,
+      undefined
+    );
+  if (!leader) {
+    return { significant: false, variants };
+  }
+
+  const alpha = 1 - confidenceLevel;
+  for (const variant of variants) {
+    if (variant === leader) {
+      continue;
+    }
+    variant.p_value = twoProportionZTest(
+      leader[metric],
+      leader.sent,
+      variant[metric],
+      variant.sent
+    ).pValue;
+    variant.significant = variant.p_value < alpha;
+  }
+
+  return {
+    leader_variant_id: leader.variant_id,
+    significant: variants.every(
+      (variant) => variant === leader || variant.significant
+    ),
+    variants,
+  };
+}
+
+/**
+ * Pooled two-proportion z-test with a two-sided p-value
+ */
+export function twoProportionZTest(
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number
+): { z: number; pValue: number } {
+  if (totalA === 0 || totalB === 0) {
+    return { z: 0, pValue: 1 };
+  }
+
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(
+    pooled * (1 - pooled) * (1 / totalA + 1 / totalB)
+  );
+  if (standardError === 0) {
+    return { z: 0, pValue: 1 };
+  }
+
+  const z = (successesA / totalA - successesB / totalB) / standardError;
+  return { z, pValue: 2 * (1 - normalCdf(Math.abs(z))) };
+}
+
+// Abramowitz and Stegun 26.2.17, accurate to 7.5e-8
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const density = Math.exp((-x * x) / 2) / Math.sqrt(2 * Math.PI);
+  const tail =
+    density *
+    t *
+    (0.31938153 +
+      t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return x >= 0 ? 1 - tail : tail;
+}
@@ -15,16 +15,25 @@ import {
     CreateSegment,
     DuplicateCampaignResult,
     EmailCampaign,
+    EmailTemplate,
     PaginationOptions,
     PauseCampaignResult,
     RealTimeStats,
     ResumeCampaignResult,
     Segment,
     SegmentFilter,
+    SegmentFilterCriteria,
+    SegmentMembership,
+    SegmentMembershipFilter,
+    SegmentPreview,
     UUID
 } from "../types/email-system";
+import { CustomFieldService } from "./custom-field.service";
+import { DEFAULT_TEMPLATE_LOCALE, isLocaleCovered, normalizeLocale } from "./locale.service";
+import { usesCustomFields, validateSegmentFilterCriteria } from "./segment-rules.service";
 
 export class CampaignManagementService {
+  private customFields = new CustomFieldService();
 
   // ==================== CAMPAIGN MANAGEMENT ====================
 
@@ -267,6 +276,12 @@ export class CampaignManagementService {
       queue_pending: baseStats.queue_pending || 0,
       queue_failed: baseStats.queue_failed || 0,
       last_activity: baseStats.last_activity,
+      human_opened: baseStats.human_opened || 0,
+      human_clicked: baseStats.human_clicked || 0,
+      human_open_rate: baseStats.human_open_rate || 0,
+      human_click_rate: baseStats.human_click_rate || 0,
+      machine_opens: baseStats.machine_opens || 0,
+      machine_clicks: baseStats.machine_clicks || 0,
       // Real-time stats
       progress_percentage: progressPercentage,
       estimated_completion: estimatedCompletion,
@@ -471,6 +486,10 @@ export class CampaignManagementService {
    * Create a new segment
    */
   async createSegment(segmentData: CreateSegment): Promise<Segment> {
+    if (segmentData.filter_criteria) {
+      await this.validateFilterCriteria(segmentData.filter_criteria);
+    }
+
     const { data, error } = await supabase
       .from('segments')
       .insert(segmentData)
@@ -536,6 +555,43 @@ export class CampaignManagementService {
     return data as Segment[];
   }
 
+  /**
+   * Dry run of filter criteria: how many contacts match and a sample of the
+   * newest matches, without saving a segment
+   */
+  async previewSegment(
+    filterCriteria: SegmentFilterCriteria,
+    sampleSize: number = 10
+  ): Promise<SegmentPreview> {
+    await this.validateFilterCriteria(filterCriteria);
+
+    const { data, error } = await supabase
+      .rpc('preview_segment', {
+        p_filter_criteria: filterCriteria,
+        p_sample_size: sampleSize
+      });
+
+    if (error) {
+      throw error;
+    }
+
+    const preview = data?.[0];
+    return {
+      total_count: preview?.total_count || 0,
+      sample: (preview?.sample || []) as Contact[]
+    };
+  }
+
+  private async validateFilterCriteria(filterCriteria: SegmentFilterCriteria): Promise<void> {
+    const customFields = usesCustomFields(filterCriteria)
+      ? await this.customFields.listFields()
+      : [];
+    const errors = validateSegmentFilterCriteria(filterCriteria, customFields);
+    if (errors.length > 0) {
+      throw new Error(`Segment validation failed: ${errors.join(", ")}`);
+    }
+  }
+
   /**
    * Calculate dynamic segment membership
    */
@@ -598,6 +654,62 @@ export class CampaignManagementService {
     return (data?.map(item => item.contacts).filter(Boolean) as unknown) as Contact[];
   }
 
+  /**
+   * Get when contacts entered and exited a segment, newest first
+   */
+  async getSegmentMembershipHistory(
+    segmentId: UUID,
+    filter?: SegmentMembershipFilter,
+    pagination?: PaginationOptions
+  ): Promise<SegmentMembership[]> {
+    let query = supabase
+      .from('segment_membership_history')
+      .select(`
+        *,
+        contact:contacts(*)
+      `)
+      .eq('segment_id', segmentId);
+
+    if (filter?.contact_id) {
+      query = query.eq('contact_id', filter.contact_id);
+    }
+
+    if (filter?.changed_since) {
+      // Normalized so the value can't add terms to the or() filter
+      if (Number.isNaN(Date.parse(filter.changed_since))) {
+        throw new Error(`Invalid changed_since date: ${filter.changed_since}`);
+      }
+      const since = new Date(filter.changed_since).toISOString();
+      query = query.or(`entered_at.gte.${since},exited_at.gte.${since}`);
+    }
+
+    const { limit = 50, offset = 0, order_by = 'entered_at', order_direction = 'desc' } = pagination || {};
+    query = query
+      .order(order_by, { ascending: order_direction === 'asc' })
+      .range(offset, offset + limit - 1);
+
+    const { data, error } = await query;
+    if (error) {
+      throw error;
+    }
+    return data as SegmentMembership[];
+  }
+
+  /**
+   * Re-evaluate one contact against every dynamic segment, e.g. after
+   * changes made with segment refresh deferred. Returns how many
+   * memberships changed.
+   */
+  async refreshContactSegments(contactId: UUID): Promise<number> {
+    const { data, error } = await supabase
+      .rpc('refresh_contact_segments', { p_contact_id: contactId });
+
+    if (error) {
+      throw error;
+    }
+    return data || 0;
+  }
+
   // ==================== CAMPAIGN VALIDATION ====================
 
   /**
@@ -608,10 +720,11 @@ export class CampaignManagementService {
     const warnings: string[] = [];
 
     // Template validation
+    let template: EmailTemplate | null = null;
     if (!campaignData.template_id) {
       errors.push('Template ID is required');
     } else {
-      const template = await this.getTemplateById(campaignData.template_id);
+      template = await this.getTemplateById(campaignData.template_id);
       if (!template) {
         errors.push('Specified template does not exist');
       }
@@ -641,6 +754,17 @@ export class CampaignManagementService {
       }
     }
 
+    // Locale coverage: contacts whose language the template lacks get the default content
+    if (template && hasSegment) {
+      const missing = await this.getUncoveredSegmentLocales(template, campaignData.segment_id!);
+      if (missing.length > 0) {
+        const summary = missing
+          .map(({ locale, contact_count }) => `${locale} (${contact_count})`)
+          .join(', ');
+        warnings.push(`Template has no variant for segment locales: ${summary}. These contacts will receive the ${template.default_locale || DEFAULT_TEMPLATE_LOCALE} content.`);
+      }
+    }
+
     // Scheduled date validation
     if (campaignData.scheduled_at) {
       const scheduledDate = new Date(campaignData.scheduled_at);
@@ -789,6 +913,30 @@ export class CampaignManagementService {
     return data;
   }
 
+  private async getUncoveredSegmentLocales(
+    template: EmailTemplate,
+    segmentId: UUID
+  ): Promise<Array<{ locale: string; contact_count: number }>> {
+    const { data, error } = await supabase.rpc('get_segment_locales', {
+      p_segment_id: segmentId
+    });
+
+    if (error) {
+      console.error('Error getting segment locales:', error);
+      return [];
+    }
+
+    const counts = new Map<string, number>();
+    for (const row of (data || []) as Array<{ locale: string | null; contact_count: number }>) {
+      const locale = normalizeLocale(row.locale);
+      if (locale && !isLocaleCovered(template, locale)) {
+        counts.set(locale, (counts.get(locale) || 0) + Number(row.contact_count));
+      }
+    }
+
+    return [...counts].map(([locale, contact_count]) => ({ locale, contact_count }));
+  }
+
   private async isSegmentId(id: UUID): Promise<boolean> {
     const { data } = await supabase
       .from('segments')
@@ -852,6 +1000,12 @@ export class CampaignManagementService {
       queue_pending: 0,
       queue_failed: 0,
       last_activity: campaign.created_at,
+      human_opened: 0,
+      human_clicked: 0,
+      human_open_rate: 0,
+      human_click_rate: 0,
+      machine_opens: 0,
+      machine_clicks: 0,
       progress_percentage: 0,
       estimated_completion: undefined,
       current_send_rate: 0,
@@ -0,0 +1,535 @@
+import { FileHandle, open } from "fs/promises";
+import { supabase } from "../config/supabase";
+import { JsonObject, JsonValue, UUID } from "../types/email-provider";
+import {
+  Contact,
+  ContactExportFormat,
+  ContactExportJob,
+  ContactFilter,
+  ContactStatus,
+  CreateContactExportJob,
+  CustomField,
+} from "../types/email-system";
+import { formatCsv } from "./csv.service";
+import { CustomFieldService, MULTI_SELECT_SEPARATOR } from "./custom-field.service";
+
+export const CONTACT_EXPORT_FORMATS: ContactExportFormat[] = ["csv", "jsonl"];
+export const CONTACT_EXPORT_FIELDS = [
+  "id",
+  "email",
+  "first_name",
+  "last_name",
+  "status",
+  "timezone",
+  "created_at",
+  "updated_at",
+] as const;
+// Aggregates of the contact's email_logs
+export const ENGAGEMENT_EXPORT_FIELDS = [
+  "sent",
+  "opened",
+  "clicked",
+  "bounced",
+  "last_sent_at",
+  "last_opened_at",
+  "last_clicked_at",
+] as const;
+export const DEFAULT_EXPORT_PAGE_SIZE = 1000;
+export const MAX_EXPORT_PAGE_SIZE = 10000;
+// A running job without a heartbeat for this long is taken to have
+// crashed, and another run may take it over
+export const STALE_EXPORT_JOB_MS = 10 * 60 * 1000;
+
+const METADATA_FIELD_PREFIX = "metadata.";
+const ENGAGEMENT_FIELD_PREFIX = "engagement.";
+const CONTACT_STATUSES: ContactStatus[] = ["active", "unsubscribed", "bounced"];
+// Spreadsheets run cells starting with these as formulas, and some skip
+// leading whitespace before the formula
+const CSV_FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"];
+
+const FILE_EXTENSIONS: Record<string, ContactExportFormat> = {
+  csv: "csv",
+  jsonl: "jsonl",
+  ndjson: "jsonl",
+};
+
+/**
+ * A contact as read for an export; engagement is only loaded when an
+ * engagement field is selected
+ */
+export interface ContactExportRow extends Contact {
+  engagement?: JsonObject | null;
+}
+
+export interface RunContactExportOptions {
+  // Stop after this many pages and leave the job paused
+  maxPages?: number;
+  // Called after each page with the job's progress
+  onProgress?: (job: ContactExportJob) => void;
+  // Take over a running job whose heartbeat is older than this; defaults
+  // to STALE_EXPORT_JOB_MS
+  staleAfterMs?: number;
+}
+
+/**
+ * Exports the contacts matching a ContactFilter to CSV or JSONL files.
+ * Contacts are read in pages in id order and appended to the file; after
+ * each page the job records the last contact and the file's size, so a
+ * job that stops (a crash, a timeout, maxPages) continues where it left
+ * off when it is run again with the same file. Each run holds the job
+ * under its own run_id and renews heartbeat_at with every page.
+ */
+export class ContactExportService {
+  private customFields = new CustomFieldService();
+
+  /**
+   * Create a pending job. Without fields, the export has the contact
+   * fields and every custom field.
+   */
+  async createJob(input: CreateContactExportJob = {}): Promise<ContactExportJob> {
+    const format = input.format || (input.file_name ? detectExportFormat(input.file_name) : "csv");
+    const filter = input.filter || {};
+    const pageSize = input.page_size ?? DEFAULT_EXPORT_PAGE_SIZE;
+    const fields = input.fields || defaultExportFields(await this.customFields.listFields());
+
+    const errors = [...validateContactFilter(filter), ...validateExportFields(fields)];
+    if (!format || !CONTACT_EXPORT_FORMATS.includes(format)) {
+      errors.unshift(`format must be one of ${CONTACT_EXPORT_FORMATS.join(", ")}`);
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_EXPORT_PAGE_SIZE) {
+      errors.push(`page_size must be between 1 and ${MAX_EXPORT_PAGE_SIZE}`);
+    }
+    if (errors.length > 0) {
+      throw new Error(`Export job validation failed: ${errors.join(", ")}`);
+    }
+
+    const { data, error } = await supabase
+      .from("contact_export_jobs")
+      .insert({
+        file_name: input.file_name,
+        format,
+        filter,
+        fields,
+        page_size: pageSize,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create export job: ${error.message}`);
+    }
+
+    return data as ContactExportJob;
+  }
+
+  async getJob(id: UUID): Promise<ContactExportJob | null> {
+    const { data, error } = await supabase
+      .from("contact_export_jobs")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to get export job: ${error.message}`);
+    }
+
+    return data as ContactExportJob;
+  }
+
+  async listJobs(limit: number = 50): Promise<ContactExportJob[]> {
+    const { data, error } = await supabase
+      .from("contact_export_jobs")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list export jobs: ${error.message}`);
+    }
+
+    return (data || []) as ContactExportJob[];
+  }
+
+  /**
+   * Stop a job. A run in progress stops after its current page.
+   */
+  async cancelJob(id: UUID): Promise<ContactExportJob> {
+    const { data, error } = await supabase
+      .from("contact_export_jobs")
+      .update({ status: "cancelled" })
+      .eq("id", id)
+      .in("status", ["pending", "running", "paused", "failed"])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to cancel export job: ${error.message}`);
+    }
+
+    return data as ContactExportJob;
+  }
+
+  /**
+   * Number of contacts matching a filter
+   */
+  async countContacts(filter: ContactFilter = {}): Promise<number> {
+    const errors = validateContactFilter(filter);
+    if (errors.length > 0) {
+      throw new Error(`Contact filter validation failed: ${errors.join(", ")}`);
+    }
+
+    const { data, error } = await supabase.rpc("count_filtered_contacts", { p_filter: filter });
+
+    if (error) {
+      throw new Error(`Failed to count contacts: ${error.message}`);
+    }
+
+    return (data as number) || 0;
+  }
+
+  /**
+   * Write the export of a pending, paused or failed job to filePath, or of
+   * a running job whose run stopped sending heartbeats. A job that has
+   * written part of the file continues it: the file is cut back to the
+   * size recorded after the last page, which drops a page that was
+   * written but not recorded, and the export resumes after the last
+   * contact recorded. Throws, and leaves the job failed, when the file or
+   * the contacts cannot be read or written.
+   */
+  async runJob(
+    id: UUID,
+    filePath: string,
+    options: RunContactExportOptions = {}
+  ): Promise<ContactExportJob> {
+    let job = await this.getJob(id);
+    if (!job) {
+      throw new Error(`Export job not found: ${id}`);
+    }
+    const staleBefore = Date.now() - (options.staleAfterMs ?? STALE_EXPORT_JOB_MS);
+    const isStale =
+      job.status === "running" && (!job.heartbeat_at || Date.parse(job.heartbeat_at) < staleBefore);
+    if (!["pending", "paused", "failed"].includes(job.status) && !isStale) {
+      throw new Error(`Export job ${id} is ${job.status}`);
+    }
+
+    const runId = UUID.generate();
+    job = await this.claimJob(job, {
+      status: "running",
+      run_id: runId,
+      heartbeat_at: new Date().toISOString(),
+      error: null,
+      started_at: job.started_at || new Date().toISOString(),
+    });
+
+    let file: FileHandle | undefined;
+    try {
+      if (job.total_count === undefined || job.total_count === null) {
+        job = await this.updateRunningJob(job, { total_count: await this.countContacts(job.filter) });
+      }
+
+      file = await open(filePath, job.bytes_written > 0 ? "r+" : "w");
+      if (job.bytes_written > 0) {
+        const { size } = await file.stat();
+        if (size < job.bytes_written) {
+          throw new Error(
+            `${filePath} has ${size} bytes but the job has written ${job.bytes_written}; resume with the same file`
+          );
+        }
+        await file.truncate(job.bytes_written);
+      }
+
+      const includeEngagement = job.fields.some((field) => field.startsWith(ENGAGEMENT_FIELD_PREFIX));
+
+      for (let pages = 0; ; pages++) {
+        if (options.maxPages !== undefined && pages >= options.maxPages) {
+          return await this.updateRunningJob(job, { status: "paused" });
+        }
+
+        const rows = await this.readPage(job, includeEngagement);
+        // The CSV header goes in with the first page, even an empty one
+        const header = job.bytes_written === 0 && job.format === "csv" ? formatCsv([job.fields]) : "";
+        if (rows.length > 0 || header) {
+          job = await this.appendPage(file, job, rows, header + formatExportRows(rows, job.fields, job.format));
+          options.onProgress?.(job);
+        }
+
+        if (rows.length < job.page_size) {
+          break;
+        }
+      }
+
+      return await this.updateRunningJob(job, {
+        status: "completed",
+        error: null,
+        completed_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      // A cancelled job stays cancelled, and a job taken over by another
+      // run stays with it
+      await supabase
+        .from("contact_export_jobs")
+        .update({ status: "failed", error: error instanceof Error ? error.message : String(error) })
+        .eq("id", id)
+        .eq("status", "running")
+        .eq("run_id", runId);
+      throw error;
+    } finally {
+      await file?.close();
+    }
+  }
+
+  private async readPage(job: ContactExportJob, includeEngagement: boolean): Promise<ContactExportRow[]> {
+    const { data, error } = await supabase.rpc("export_contacts_page", {
+      p_filter: job.filter,
+      p_after_id: job.last_contact_id || null,
+      p_limit: job.page_size,
+      p_include_engagement: includeEngagement,
+    });
+
+    if (error) {
+      throw new Error(`Failed to read contacts: ${error.message}`);
+    }
+
+    return (data || []) as ContactExportRow[];
+  }
+
+  /**
+   * Write a page at the recorded end of the file, flush it, then record
+   * it. A run that stops in between leaves bytes past bytes_written,
+   * which the next run cuts off.
+   */
+  private async appendPage(
+    file: FileHandle,
+    job: ContactExportJob,
+    rows: ContactExportRow[],
+    text: string
+  ): Promise<ContactExportJob> {
+    const bytes = Buffer.from(text, "utf8");
+    await file.write(bytes, 0, bytes.length, job.bytes_written);
+    await file.datasync();
+
+    return this.updateRunningJob(job, {
+      rows_exported: job.rows_exported + rows.length,
+      last_contact_id: rows.length > 0 ? rows[rows.length - 1].id : job.last_contact_id || null,
+      bytes_written: job.bytes_written + bytes.length,
+    });
+  }
+
+  /**
+   * Start a run of the job as read, unless another run has changed it
+   * since
+   */
+  private async claimJob(
+    job: ContactExportJob,
+    updates: Partial<Record<keyof ContactExportJob, JsonValue>>
+  ): Promise<ContactExportJob> {
+    const { data, error } = await supabase
+      .from("contact_export_jobs")
+      .update(updates)
+      .eq("id", job.id)
+      .eq("status", job.status)
+      .eq("updated_at", job.updated_at)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        throw new Error(`Export job ${job.id} was started by another run`);
+      }
+      throw new Error(`Failed to update export job: ${error.message}`);
+    }
+
+    return data as ContactExportJob;
+  }
+
+  /**
+   * Update a job, and renew its heartbeat, only while this run holds it,
+   * so a cancelled or taken-over job is not advanced by a run that is
+   * still going
+   */
+  private async updateRunningJob(
+    job: ContactExportJob,
+    updates: Partial<Record<keyof ContactExportJob, JsonValue>>
+  ): Promise<ContactExportJob> {
+    const { data, error } = await supabase
+      .from("contact_export_jobs")
+      .update({ ...updates, heartbeat_at: new Date().toISOString() })
+      .eq("id", job.id)
+      .eq("status", "running")
+      .eq("run_id", job.run_id!)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        throw new Error(`Export job ${job.id} is no longer running`);
+      }
+      throw new Error(`Failed to update export job: ${error.message}`);
+    }
+
+    return data as ContactExportJob;
+  }
+}
+
+export function detectExportFormat(fileName: string): ContactExportFormat | undefined {
+  const extension = fileName.toLowerCase().split(".").pop() || "";
+  return FILE_EXTENSIONS[extension];
+}
+
+/**
+ * The contact fields followed by every custom field
+ */
+export function defaultExportFields(fields: CustomField[] = []): string[] {
+  return [...CONTACT_EXPORT_FIELDS, ...fields.map((field) => `${METADATA_FIELD_PREFIX}${field.key}`)];
+}
+
+export function validateContactFilter(filter: ContactFilter): string[] {
+  const errors: string[] = [];
+  if (!filter || typeof filter !== "object" || Array.isArray(filter)) {
+    return ["filter must be an object"];
+  }
+
+  const checkList = (key: keyof ContactFilter, isValid: (value: unknown) => boolean): void => {
+    const values: unknown = filter[key];
+    if (values === undefined) {
+      return;
+    }
+    if (!Array.isArray(values) || values.length === 0) {
+      errors.push(`${key} must be a non-empty array`);
+    } else {
+      const invalid = values.filter((value) => !isValid(value));
+      if (invalid.length > 0) {
+        errors.push(`${key} has invalid values: ${invalid.join(", ")}`);
+      }
+    }
+  };
+
+  checkList("status", (value) => CONTACT_STATUSES.includes(value as ContactStatus));
+  checkList("has_metadata", (value) => typeof value === "string" && value.length > 0);
+  checkList("in_lists", (value) => typeof value === "string" && UUID.isValid(value));
+  checkList("in_segments", (value) => typeof value === "string" && UUID.isValid(value));
+
+  for (const key of ["created_after", "created_before"] as const) {
+    const value = filter[key];
+    if (value !== undefined && (typeof value !== "string" || Number.isNaN(Date.parse(value)))) {
+      errors.push(`${key} must be a date`);
+    }
+  }
+
+  for (const key of ["email_contains", "name_contains"] as const) {
+    const value = filter[key];
+    if (value !== undefined && (typeof value !== "string" || !value)) {
+      errors.push(`${key} must be a non-empty string`);
+    }
+  }
+
+  const metadataFilters = filter.metadata_filters;
+  if (
+    metadataFilters !== undefined &&
+    (!metadataFilters || typeof metadataFilters !== "object" || Array.isArray(metadataFilters))
+  ) {
+    errors.push("metadata_filters must be an object");
+  }
+
+  return errors;
+}
+
+export function validateExportFields(fields: string[]): string[] {
+  if (!Array.isArray(fields) || fields.length === 0) {
+    return ["fields must be a non-empty array"];
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  for (const field of fields) {
+    const isContactField = (CONTACT_EXPORT_FIELDS as readonly string[]).includes(field);
+    const isMetadataField =
+      typeof field === "string" &&
+      field.startsWith(METADATA_FIELD_PREFIX) &&
+      field
+        .slice(METADATA_FIELD_PREFIX.length)
+        .split(".")
+        .every((part) => part.length > 0);
+    const isEngagementField =
+      typeof field === "string" &&
+      field.startsWith(ENGAGEMENT_FIELD_PREFIX) &&
+      (ENGAGEMENT_EXPORT_FIELDS as readonly string[]).includes(field.slice(ENGAGEMENT_FIELD_PREFIX.length));
+
+    if (!isContactField && !isMetadataField && !isEngagementField) {
+      errors.push(`unknown field ${field}`);
+    } else if (seen.has(field)) {
+      errors.push(`${field} is selected twice`);
+    }
+    seen.add(field);
+  }
+
+  return errors;
+}
+
+/**
+ * Value of a field for a contact: a contact field, a value in metadata at
+ * a dotted path, or an engagement aggregate. Missing values are undefined.
+ */
+export function exportFieldValue(row: ContactExportRow, field: string): JsonValue | undefined {
+  if (field.startsWith(METADATA_FIELD_PREFIX)) {
+    let value: JsonValue | undefined = row.metadata;
+    for (const part of field.slice(METADATA_FIELD_PREFIX.length).split(".")) {
+      value =
+        value && typeof value === "object" && !Array.isArray(value) ? (value as JsonObject)[part] : undefined;
+    }
+    return value;
+  }
+  if (field.startsWith(ENGAGEMENT_FIELD_PREFIX)) {
+    return row.engagement?.[field.slice(ENGAGEMENT_FIELD_PREFIX.length)];
+  }
+  return (row as unknown as JsonObject)[field];
+}
+
+/**
+ * Rows in the export's format. CSV cells hold lists of plain values
+ * separated as the importer reads them and other objects as JSON, and
+ * text that a spreadsheet would run as a formula gets a leading '; JSONL
+ * lines have one key per field, null when the contact has no value.
+ */
+export function formatExportRows(
+  rows: ContactExportRow[],
+  fields: string[],
+  format: ContactExportFormat
+): string {
+  if (rows.length === 0) {
+    return "";
+  }
+
+  if (format === "jsonl") {
+    return rows
+      .map(
+        (row) =>
+          JSON.stringify(Object.fromEntries(fields.map((field) => [field, exportFieldValue(row, field) ?? null]))) +
+          "\n"
+      )
+      .join("");
+  }
+
+  return formatCsv(rows.map((row) => fields.map((field) => formatCsvValue(exportFieldValue(row, field)))));
+}
+
+function formatCsvValue(value: JsonValue | undefined): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+
+  let text: string;
+  if (Array.isArray(value) && value.every((item) => item === null || typeof item !== "object")) {
+    text = value.map((item) => (item === null ? "" : String(item))).join(MULTI_SELECT_SEPARATOR);
+  } else {
+    text = typeof value === "object" ? JSON.stringify(value) : value;
+  }
+  return CSV_FORMULA_PREFIXES.includes(text.charAt(0)) ? `'${text}` : text;
+}
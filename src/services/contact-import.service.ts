@@ -0,0 +1,843 @@
+import { StringDecoder } from "string_decoder";
+import { supabase } from "../config/supabase";
+import { JsonObject, JsonValue, UUID } from "../types/email-provider";
+import {
+  ContactImportColumnMapping,
+  ContactImportFormat,
+  ContactImportJob,
+  ContactImportMappingProfile,
+  ContactImportMode,
+  ContactImportRowError,
+  ContactStatus,
+  CreateContactImportJob,
+  CreateContactImportMappingProfile,
+  CustomField,
+} from "../types/email-system";
+import { formatCsv, parseCsvStream } from "./csv.service";
+import {
+  applyCustomFieldDefaults,
+  CustomFieldService,
+  parseCustomFieldValue,
+  validateCustomFieldValue,
+  validateCustomFieldValues,
+} from "./custom-field.service";
+import { MAX_XLSX_FILE_BYTES, readXlsxRows } from "./xlsx.service";
+
+export const CONTACT_IMPORT_FORMATS: ContactImportFormat[] = ["csv", "tsv", "jsonl", "xlsx"];
+export const CONTACT_IMPORT_MODES: ContactImportMode[] = ["skip", "upsert", "overwrite"];
+export const DEFAULT_IMPORT_CHUNK_SIZE = 500;
+export const MAX_IMPORT_CHUNK_SIZE = 5000;
+
+const CONTACT_TARGETS = ["email", "first_name", "last_name", "status"] as const;
+const METADATA_TARGET_PREFIX = "metadata.";
+const IGNORE_TARGET = "ignore";
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const READ_PAGE_SIZE = 1000;
+
+const FILE_EXTENSIONS: Record<string, ContactImportFormat> = {
+  csv: "csv",
+  tsv: "tsv",
+  tab: "tsv",
+  jsonl: "jsonl",
+  ndjson: "jsonl",
+  xlsx: "xlsx",
+};
+
+// Column names recognized without a mapping, after normalizeColumnName
+const COLUMN_ALIASES: Record<string, (typeof CONTACT_TARGETS)[number]> = {
+  email: "email",
+  e_mail: "email",
+  email_address: "email",
+  emailaddress: "email",
+  first_name: "first_name",
+  firstname: "first_name",
+  fname: "first_name",
+  given_name: "first_name",
+  last_name: "last_name",
+  lastname: "last_name",
+  lname: "last_name",
+  surname: "last_name",
+  family_name: "last_name",
+  status: "status",
+};
+
+// Status values accepted in files; subscribed is the common export name
+const STATUS_VALUES: Record<string, ContactStatus> = {
+  active: "active",
+  subscribed: "active",
+  unsubscribed: "unsubscribed",
+  bounced: "bounced",
+};
+
+/**
+ * File contents as one string or buffer, or as chunks, e.g. a stream from
+ * fs.createReadStream
+ */
+export type ContactImportSource = string | Uint8Array | AsyncIterable<string | Uint8Array>;
+
+export interface ContactImportRecord {
+  row_number: number;
+  // Column -> value as read from the file
+  values: JsonObject;
+  // Set when the row could not be read at all
+  error?: string;
+}
+
+export interface ReadImportRecordsOptions {
+  // Called with the header of tabular files before the first record
+  onHeader?: (columns: string[]) => void;
+}
+
+export interface MappedImportContact {
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  status?: ContactStatus;
+  metadata: JsonObject;
+}
+
+export interface RunContactImportOptions {
+  // Stop after this many chunks and leave the job paused
+  maxChunks?: number;
+  // Called after each chunk with the job's progress
+  onProgress?: (job: ContactImportJob) => void;
+}
+
+interface ImportChunkRow {
+  row_number: number;
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  status?: ContactStatus;
+  metadata: JsonObject;
+  record: JsonObject;
+}
+
+interface ImportChunkError {
+  row_number: number;
+  email?: string;
+  error: string;
+  record: JsonObject;
+}
+
+/**
+ * Imports contacts from CSV, TSV, JSONL and XLSX files. Files are read as
+ * they stream in and written in chunks of chunk_size rows; each chunk is
+ * committed together with the job's progress, so a job that stops (a
+ * crash, a timeout, maxChunks) continues where it left off when it is
+ * run again with the same file. Rejected rows are kept for the error
+ * report instead of stopping the import.
+ */
+export class ContactImportService {
+  private customFields = new CustomFieldService();
+
+  // ==================== MAPPING PROFILES ====================
+
+  async createMappingProfile(
+    input: CreateContactImportMappingProfile
+  ): Promise<ContactImportMappingProfile> {
+    const errors = validateColumnMapping(input.column_mapping);
+    if (!input.name?.trim()) {
+      errors.unshift("name is required");
+    }
+    if (errors.length > 0) {
+      throw new Error(`Mapping profile validation failed: ${errors.join(", ")}`);
+    }
+
+    const { data, error } = await supabase
+      .from("contact_import_mapping_profiles")
+      .insert({
+        name: input.name.trim(),
+        description: input.description,
+        column_mapping: input.column_mapping,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create mapping profile: ${error.message}`);
+    }
+
+    return data as ContactImportMappingProfile;
+  }
+
+  async listMappingProfiles(): Promise<ContactImportMappingProfile[]> {
+    const { data, error } = await supabase
+      .from("contact_import_mapping_profiles")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list mapping profiles: ${error.message}`);
+    }
+
+    return (data || []) as ContactImportMappingProfile[];
+  }
+
+  async getMappingProfile(id: UUID): Promise<ContactImportMappingProfile | null> {
+    const { data, error } = await supabase
+      .from("contact_import_mapping_profiles")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to get mapping profile: ${error.message}`);
+    }
+
+    return data as ContactImportMappingProfile;
+  }
+
+  async deleteMappingProfile(id: UUID): Promise<boolean> {
+    const { data, error } = await supabase
+      .from("contact_import_mapping_profiles")
+      .delete()
+      .eq("id", id)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to delete mapping profile: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  // ==================== JOBS ====================
+
+  /**
+   * Create a pending job. The mapping profile's columns are copied into
+   * the job, with column_mapping overriding them, so later edits to the
+   * profile do not change a job that is under way.
+   */
+  async createJob(input: CreateContactImportJob): Promise<ContactImportJob> {
+    const format = input.format || (input.file_name ? detectImportFormat(input.file_name) : undefined);
+    const chunkSize = input.chunk_size ?? DEFAULT_IMPORT_CHUNK_SIZE;
+
+    let columnMapping: ContactImportColumnMapping = {};
+    if (input.mapping_profile_id) {
+      const profile = await this.getMappingProfile(input.mapping_profile_id);
+      if (!profile) {
+        throw new Error(`Mapping profile not found: ${input.mapping_profile_id}`);
+      }
+      columnMapping = { ...profile.column_mapping };
+    }
+    columnMapping = { ...columnMapping, ...input.column_mapping };
+
+    const errors = validateColumnMapping(columnMapping);
+    if (!format || !CONTACT_IMPORT_FORMATS.includes(format)) {
+      errors.unshift(`format must be one of ${CONTACT_IMPORT_FORMATS.join(", ")}`);
+    }
+    if (input.mode && !CONTACT_IMPORT_MODES.includes(input.mode)) {
+      errors.push(`mode must be one of ${CONTACT_IMPORT_MODES.join(", ")}`);
+    }
+    if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_IMPORT_CHUNK_SIZE) {
+      errors.push(`chunk_size must be between 1 and ${MAX_IMPORT_CHUNK_SIZE}`);
+    }
+    if (errors.length > 0) {
+      throw new Error(`Import job validation failed: ${errors.join(", ")}`);
+    }
+
+    const { data, error } = await supabase
+      .from("contact_import_jobs")
+      .insert({
+        file_name: input.file_name,
+        format,
+        mode: input.mode || "skip",
+        list_id: input.list_id,
+        mapping_profile_id: input.mapping_profile_id,
+        column_mapping: columnMapping,
+        chunk_size: chunkSize,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create import job: ${error.message}`);
+    }
+
+    return data as ContactImportJob;
+  }
+
+  async getJob(id: UUID): Promise<ContactImportJob | null> {
+    const { data, error } = await supabase
+      .from("contact_import_jobs")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to get import job: ${error.message}`);
+    }
+
+    return data as ContactImportJob;
+  }
+
+  async listJobs(limit: number = 50): Promise<ContactImportJob[]> {
+    const { data, error } = await supabase
+      .from("contact_import_jobs")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list import jobs: ${error.message}`);
+    }
+
+    return (data || []) as ContactImportJob[];
+  }
+
+  /**
+   * Stop a job. A run in progress stops before its next chunk; rows
+   * already imported stay.
+   */
+  async cancelJob(id: UUID): Promise<ContactImportJob> {
+    const { data, error } = await supabase
+      .from("contact_import_jobs")
+      .update({ status: "cancelled" })
+      .eq("id", id)
+      .in("status", ["pending", "running", "paused", "failed"])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to cancel import job: ${error.message}`);
+    }
+
+    return data as ContactImportJob;
+  }
+
+  /**
+   * Import the file for a pending, paused or failed job, skipping the rows
+   * earlier runs already imported. The source must be the same file;
+   * tabular files are checked against the header recorded by the first
+   * run. Throws, and leaves the job failed, when the file cannot be read
+   * or a chunk cannot be written.
+   */
+  async runJob(
+    id: UUID,
+    source: ContactImportSource,
+    options: RunContactImportOptions = {}
+  ): Promise<ContactImportJob> {
+    let job = await this.getJob(id);
+    if (!job) {
+      throw new Error(`Import job not found: ${id}`);
+    }
+    if (!["pending", "paused", "failed"].includes(job.status)) {
+      throw new Error(`Import job ${id} is ${job.status}`);
+    }
+
+    job = await this.updateJob(id, {
+      status: "running",
+      error: null,
+      started_at: job.started_at || new Date().toISOString(),
+    });
+
+    try {
+      const fields = await this.customFields.listFields();
+      const startRow = job.rows_processed;
+      let chunk: ContactImportRecord[] = [];
+      let chunks = 0;
+      const started = job;
+      let header: string[] | undefined;
+
+      const records = readImportRecords(source, job.format, {
+        onHeader: (columns) => {
+          checkImportHeader(columns, started);
+          header = columns;
+        },
+      });
+
+      for await (const record of records) {
+        if (header && !job.columns) {
+          job = await this.updateJob(id, { columns: header });
+        }
+        if (record.row_number <= startRow) {
+          continue;
+        }
+
+        chunk.push(record);
+        if (chunk.length < job.chunk_size) {
+          continue;
+        }
+
+        job = await this.importChunk(job, chunk, fields);
+        options.onProgress?.(job);
+        chunk = [];
+        chunks++;
+
+        if (options.maxChunks !== undefined && chunks >= options.maxChunks) {
+          return await this.updateJob(id, { status: "paused" });
+        }
+      }
+
+      if (header && !job.columns) {
+        job = await this.updateJob(id, { columns: header });
+      }
+      if (chunk.length > 0) {
+        job = await this.importChunk(job, chunk, fields);
+        options.onProgress?.(job);
+      }
+
+      const { data, error } = await supabase.rpc("complete_contact_import", { p_job_id: id });
+      if (error) {
+        throw new Error(`Failed to complete import job: ${error.message}`);
+      }
+      return data as ContactImportJob;
+    } catch (error) {
+      // A cancelled job stays cancelled
+      await supabase
+        .from("contact_import_jobs")
+        .update({ status: "failed", error: error instanceof Error ? error.message : String(error) })
+        .eq("id", id)
+        .eq("status", "running");
+      throw error;
+    }
+  }
+
+  async getJobErrors(
+    id: UUID,
+    pagination: { limit?: number; offset?: number } = {}
+  ): Promise<ContactImportRowError[]> {
+    const limit = pagination.limit || 100;
+    const offset = pagination.offset || 0;
+
+    const { data, error } = await supabase
+      .from("contact_import_errors")
+      .select("*")
+      .eq("job_id", id)
+      .order("row_number", { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to get import errors: ${error.message}`);
+    }
+
+    return (data || []) as ContactImportRowError[];
+  }
+
+  /**
+   * CSV of the rejected rows: row, error, then the row's original columns,
+   * so it can be corrected and imported again
+   */
+  async getErrorReport(id: UUID): Promise<string> {
+    const job = await this.getJob(id);
+    if (!job) {
+      throw new Error(`Import job not found: ${id}`);
+    }
+
+    const errors: ContactImportRowError[] = [];
+    for (let offset = 0; ; offset += READ_PAGE_SIZE) {
+      const page = await this.getJobErrors(id, { limit: READ_PAGE_SIZE, offset });
+      errors.push(...page);
+      if (page.length < READ_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return formatImportErrorReport(errors, job.columns);
+  }
+
+  private async importChunk(
+    job: ContactImportJob,
+    records: ContactImportRecord[],
+    fields: CustomField[]
+  ): Promise<ContactImportJob> {
+    const rows: ImportChunkRow[] = [];
+    const errors: ImportChunkError[] = [];
+    const mapped: { record: ContactImportRecord; contact: MappedImportContact }[] = [];
+
+    for (const record of records) {
+      const result = record.error
+        ? { errors: [record.error] }
+        : mapImportRecord(record.values, job.column_mapping, fields);
+      if (result.contact) {
+        mapped.push({ record, contact: result.contact });
+      } else {
+        errors.push({
+          row_number: record.row_number,
+          email: findImportEmail(record.values, job.column_mapping),
+          error: result.errors.join(", "),
+          record: record.values,
+        });
+      }
+    }
+
+    // New and overwritten contacts get defaults and the required check;
+    // merged rows only change the fields they set, and skipped rows none
+    const existing =
+      job.mode === "overwrite"
+        ? new Set<string>()
+        : await this.findExistingEmails(mapped.map(({ contact }) => contact.email));
+    for (const { record, contact } of mapped) {
+      let metadata = contact.metadata;
+      if (!existing.has(contact.email.toLowerCase())) {
+        metadata = applyCustomFieldDefaults(fields, metadata);
+        const fieldErrors = validateCustomFieldValues(fields, metadata);
+        if (fieldErrors.length > 0) {
+          errors.push({
+            row_number: record.row_number,
+            email: contact.email,
+            error: fieldErrors.join(", "),
+            record: record.values,
+          });
+          continue;
+        }
+      }
+      rows.push({ ...contact, metadata, row_number: record.row_number, record: record.values });
+    }
+
+    const { data, error } = await supabase.rpc("import_contact_rows", {
+      p_job_id: job.id,
+      p_first_row: job.rows_processed,
+      p_row_count: records[records.length - 1].row_number - job.rows_processed,
+      p_rows: rows,
+      p_errors: errors,
+    });
+
+    if (error) {
+      throw new Error(`Failed to import rows: ${error.message}`);
+    }
+
+    return data as ContactImportJob;
+  }
+
+  /**
+   * Lowercased emails of existing contacts, matched case-insensitively in
+   * one call for the whole chunk
+   */
+  private async findExistingEmails(emails: string[]): Promise<Set<string>> {
+    if (emails.length === 0) {
+      return new Set();
+    }
+
+    const { data, error } = await supabase.rpc("find_existing_contact_emails", {
+      p_emails: [...new Set(emails.map((email) => email.toLowerCase()))],
+    });
+
+    if (error) {
+      throw new Error(`Failed to look up contacts: ${error.message}`);
+    }
+
+    return new Set(((data || []) as string[]).map((email) => email.toLowerCase()));
+  }
+
+  private async updateJob(
+    id: UUID,
+    updates: Partial<Record<keyof ContactImportJob, JsonValue>>
+  ): Promise<ContactImportJob> {
+    const { data, error } = await supabase
+      .from("contact_import_jobs")
+      .update(updates)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update import job: ${error.message}`);
+    }
+
+    return data as ContactImportJob;
+  }
+}
+
+export function detectImportFormat(fileName: string): ContactImportFormat | undefined {
+  const extension = fileName.toLowerCase().split(".").pop() || "";
+  return FILE_EXTENSIONS[extension];
+}
+
+/**
+ * Read a file one record at a time. CSV, TSV and XLSX need a header row
+ * and give one value per column; JSONL gives each line's object. Row
+ * numbers count records from 1. Lines that are not valid JSON and rows
+ * with more cells than the header are returned with an error.
+ */
+export async function* readImportRecords(
+  source: ContactImportSource,
+  format: ContactImportFormat,
+  options: ReadImportRecordsOptions = {}
+): AsyncGenerator<ContactImportRecord> {
+  if (format === "jsonl") {
+    yield* readJsonLines(toChunks(source));
+    return;
+  }
+
+  const rows =
+    format === "xlsx"
+      ? fromIterable(readXlsxRows(await readAll(source)))
+      : parseCsvStream(toChunks(source), format === "tsv" ? "\t" : ",");
+
+  let header: string[] | undefined;
+  let rowNumber = 0;
+  for await (const row of rows) {
+    if (!header) {
+      header = row.map((column) => column.trim());
+      options.onHeader?.(header);
+      continue;
+    }
+
+    rowNumber++;
+    const values: JsonObject = {};
+    header.forEach((column, index) => {
+      if (column) {
+        values[column] = (row[index] ?? "").trim();
+      }
+    });
+    yield row.length > header.length
+      ? {
+          row_number: rowNumber,
+          values,
+          error: `row has ${row.length} columns; the header has ${header.length}`,
+        }
+      : { row_number: rowNumber, values };
+  }
+}
+
+/**
+ * Where a column goes when the mapping does not say: standard contact
+ * fields by common names, custom fields by key or label, and anything
+ * else into metadata under the column name
+ */
+export function suggestColumnTarget(column: string, fields: CustomField[] = []): string {
+  const normalized = normalizeColumnName(column);
+  const alias = COLUMN_ALIASES[normalized] || COLUMN_ALIASES[normalized.replace(/_/g, "")];
+  if (alias) {
+    return alias;
+  }
+
+  const label = column.trim().toLowerCase();
+  const field = fields.find(
+    (candidate) => candidate.key === normalized || candidate.label.toLowerCase() === label
+  );
+  return `${METADATA_TARGET_PREFIX}${field ? field.key : column.trim()}`;
+}
+
+/**
+ * Mapping for every column: the given target, or the suggested one
+ */
+export function suggestColumnMapping(
+  columns: string[],
+  mapping: ContactImportColumnMapping = {},
+  fields: CustomField[] = []
+): ContactImportColumnMapping {
+  return Object.fromEntries(
+    columns.map((column) => [column, mapping[column] || suggestColumnTarget(column, fields)])
+  );
+}
+
+export function validateColumnMapping(mapping: ContactImportColumnMapping): string[] {
+  const errors: string[] = [];
+  const used = new Map<string, string>();
+
+  for (const [column, target] of Object.entries(mapping || {})) {
+    const isContactTarget = (CONTACT_TARGETS as readonly string[]).includes(target);
+    const isMetadataTarget =
+      typeof target === "string" &&
+      target.startsWith(METADATA_TARGET_PREFIX) &&
+      target.length > METADATA_TARGET_PREFIX.length;
+
+    if (!isContactTarget && !isMetadataTarget && target !== IGNORE_TARGET) {
+      errors.push(`${column}: unknown target ${target}`);
+    } else if (isContactTarget && used.has(target)) {
+      errors.push(`${column}: ${target} is already mapped from ${used.get(target)}`);
+    } else if (isContactTarget) {
+      used.set(target, column);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Turn a record into a contact. Custom field columns are converted to the
+ * field's type (text such as CSV cells is parsed; JSON values must already
+ * have the type). Empty values are left out.
+ */
+export function mapImportRecord(
+  values: JsonObject,
+  mapping: ContactImportColumnMapping,
+  fields: CustomField[] = []
+): { contact?: MappedImportContact; errors: string[] } {
+  const errors: string[] = [];
+  const contact: Partial<MappedImportContact> & { metadata: JsonObject } = { metadata: {} };
+
+  for (const [column, value] of Object.entries(values)) {
+    if (value === null || value === undefined || value === "") {
+      continue;
+    }
+    const target = mapping[column] || suggestColumnTarget(column, fields);
+
+    if (target === IGNORE_TARGET) {
+      continue;
+    } else if (target === "email") {
+      contact.email = String(value).trim();
+    } else if (target === "first_name" || target === "last_name") {
+      contact[target] = String(value).trim();
+    } else if (target === "status") {
+      const status = STATUS_VALUES[String(value).trim().toLowerCase()];
+      if (status) {
+        contact.status = status;
+      } else {
+        errors.push(`unknown status ${value}`);
+      }
+    } else {
+      const key = target.slice(METADATA_TARGET_PREFIX.length);
+      const field = fields.find((candidate) => candidate.key === key);
+      if (!field) {
+        contact.metadata[key] = value;
+      } else if (typeof value === "string") {
+        const parsed = parseCustomFieldValue(field, value);
+        if (parsed.error) {
+          errors.push(parsed.error);
+        } else if (parsed.value !== undefined) {
+          contact.metadata[key] = parsed.value;
+        }
+      } else {
+        const error = validateCustomFieldValue(field, value);
+        if (error) {
+          errors.push(`${key} ${error}`);
+        } else {
+          contact.metadata[key] = value;
+        }
+      }
+    }
+  }
+
+  if (!contact.email) {
+    errors.unshift("email is required");
+  } else if (!EMAIL_PATTERN.test(contact.email)) {
+    errors.unshift(`invalid email: ${contact.email}`);
+  }
+
+  return errors.length > 0 ? { errors } : { contact: contact as MappedImportContact, errors };
+}
+
+/**
+ * CSV of rejected rows. Tabular imports repeat the file's columns; JSONL
+ * imports, whose lines may differ, use every key that appears.
+ */
+export function formatImportErrorReport(errors: ContactImportRowError[], columns?: string[]): string {
+  const recordColumns =
+    columns || [...new Set(errors.flatMap((error) => Object.keys(error.record || {})))];
+
+  return formatCsv([
+    ["row", "error", ...recordColumns],
+    ...errors.map((error) => [
+      error.row_number,
+      error.error,
+      ...recordColumns.map((column) => formatRecordValue(error.record?.[column])),
+    ]),
+  ]);
+}
+
+function checkImportHeader(columns: string[], job: ContactImportJob): void {
+  if (job.columns && job.columns.join("\u0000") !== columns.join("\u0000")) {
+    throw new Error(
+      `The file's columns (${columns.join(", ")}) differ from the job's (${job.columns.join(", ")}); resume with the same file`
+    );
+  }
+
+  const mapping = suggestColumnMapping(columns, job.column_mapping);
+  if (!Object.values(mapping).includes("email")) {
+    throw new Error(`No column maps to email; columns: ${columns.join(", ")}`);
+  }
+}
+
+function findImportEmail(values: JsonObject, mapping: ContactImportColumnMapping): string | undefined {
+  const column = Object.keys(values).find(
+    (candidate) => (mapping[candidate] || suggestColumnTarget(candidate)) === "email"
+  );
+  const value = column ? values[column] : undefined;
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function formatRecordValue(value: JsonValue | undefined): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function normalizeColumnName(column: string): string {
+  return column
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+async function* readJsonLines(
+  chunks: AsyncIterable<string | Uint8Array>
+): AsyncGenerator<ContactImportRecord> {
+  const decoder = new StringDecoder("utf8");
+  let buffered = "";
+  let rowNumber = 0;
+
+  const parseLine = (line: string): ContactImportRecord | undefined => {
+    if (!line.trim()) {
+      return undefined;
+    }
+    rowNumber++;
+    try {
+      const value = JSON.parse(line);
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        return { row_number: rowNumber, values: value as JsonObject };
+      }
+      return { row_number: rowNumber, values: { line }, error: "line is not a JSON object" };
+    } catch {
+      return { row_number: rowNumber, values: { line }, error: "line is not valid JSON" };
+    }
+  };
+
+  for await (const chunk of chunks) {
+    buffered += typeof chunk === "string" ? chunk : decoder.write(chunk);
+    const lines = buffered.split("\n");
+    buffered = lines.pop() || "";
+    for (const line of lines) {
+      const record = parseLine(line);
+      if (record) {
+        yield record;
+      }
+    }
+  }
+
+  const record = parseLine(buffered + decoder.end());
+  if (record) {
+    yield record;
+  }
+}
+
+async function* toChunks(
+  source: ContactImportSource
+): AsyncGenerator<string | Uint8Array, void, undefined> {
+  if (typeof source === "string" || source instanceof Uint8Array) {
+    yield source;
+  } else {
+    yield* source;
+  }
+}
+
+async function* fromIterable<T>(items: Iterable<T>): AsyncGenerator<T, void, undefined> {
+  yield* items;
+}
+
+async function readAll(source: ContactImportSource): Promise<Buffer> {
+  const buffers: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of toChunks(source)) {
+    const buffer = typeof chunk === "string" ? Buffer.from(chunk, "utf8") : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > MAX_XLSX_FILE_BYTES) {
+      throw new Error(
+        `Workbooks larger than ${MAX_XLSX_FILE_BYTES} bytes are not supported; import them as CSV`
+      );
+    }
+    buffers.push(buffer);
+  }
+  return Buffer.concat(buffers, size);
+}
@@ -0,0 +1,220 @@
+import juice from "juice";
+import {
+  EmailClientFamily,
+  RenderResult,
+  TemplateContext,
+  TemplatePostprocessor,
+  TemplateValidationWarning,
+} from "../types/template-engine";
+
+export const ALL_CLIENT_FAMILIES: EmailClientFamily[] = [
+  "gmail",
+  "outlook",
+  "apple_mail",
+  "yahoo",
+];
+
+interface CssCompatibilityRule {
+  property: string;
+  // Only declarations whose value matches are affected
+  value?: RegExp;
+  unsupportedIn: EmailClientFamily[];
+  // Layout degradations are "performance"; losses that can hide content or
+  // break contrast are "accessibility"
+  type: "performance" | "accessibility";
+}
+
+const CSS_COMPATIBILITY_RULES: CssCompatibilityRule[] = [
+  {
+    property: "display",
+    value: /^(inline-)?flex\b/,
+    unsupportedIn: ["outlook"],
+    type: "performance",
+  },
+  {
+    property: "display",
+    value: /^(inline-)?grid\b/,
+    unsupportedIn: ["gmail", "outlook", "yahoo"],
+    type: "performance",
+  },
+  {
+    property: "position",
+    unsupportedIn: ["gmail", "outlook", "yahoo"],
+    type: "performance",
+  },
+  { property: "float", unsupportedIn: ["outlook"], type: "performance" },
+  { property: "max-width", unsupportedIn: ["outlook"], type: "performance" },
+  { property: "border-radius", unsupportedIn: ["outlook"], type: "performance" },
+  { property: "box-shadow", unsupportedIn: ["outlook"], type: "performance" },
+  {
+    property: "transform",
+    unsupportedIn: ["gmail", "outlook", "yahoo"],
+    type: "performance",
+  },
+  {
+    property: "animation",
+    unsupportedIn: ["gmail", "outlook", "yahoo"],
+    type: "performance",
+  },
+  {
+    property: "transition",
+    unsupportedIn: ["gmail", "outlook", "yahoo"],
+    type: "performance",
+  },
+  {
+    property: "background-image",
+    unsupportedIn: ["outlook"],
+    type: "accessibility",
+  },
+  {
+    property: "background",
+    value: /url\(/,
+    unsupportedIn: ["outlook"],
+    type: "accessibility",
+  },
+  { property: "opacity", unsupportedIn: ["outlook"], type: "accessibility" },
+  {
+    property: "*",
+    value: /var\(/,
+    unsupportedIn: ["gmail", "outlook", "yahoo"],
+    type: "accessibility",
+  },
+];
+
+export interface CssInliningOptions {
+  preserveMediaQueries: boolean;
+  clientFamilies: EmailClientFamily[];
+}
+
+/**
+ * Inlines <style> rules into style attributes after rendering, since most
+ * clients drop <style> blocks. Media queries stay in a <style> block for the
+ * clients that honour them.
+ */
+export class CssInliningPostprocessor implements TemplatePostprocessor {
+  private options: CssInliningOptions;
+
+  constructor(options: Partial<CssInliningOptions> = {}) {
+    this.options = {
+      preserveMediaQueries: true,
+      clientFamilies: ALL_CLIENT_FAMILIES,
+      ...options,
+    };
+  }
+
+  async process(
+    rendered: RenderResult,
+    _context: TemplateContext
+  ): Promise<RenderResult> {
+    if (!rendered.html) {
+      return rendered;
+    }
+
+    const html = inlineCss(rendered.html, this.options.preserveMediaQueries);
+
+    return {
+      ...rendered,
+      html,
+      warnings: [
+        ...(rendered.warnings || []),
+        ...checkCssCompatibility(html, this.options.clientFamilies),
+      ],
+    };
+  }
+}
+
+export function inlineCss(html: string, preserveMediaQueries = true): string {
+  return juice(html, {
+    removeStyleTags: true,
+    preserveMediaQueries,
+    preserveFontFaces: true,
+    applyWidthAttributes: true,
+    applyAttributesTableElements: true,
+  });
+}
+
+/**
+ * Report CSS declarations in style attributes and <style> blocks that the
+ * given client families ignore. One warning per rule, at its first use.
+ */
+export function checkCssCompatibility(
+  html: string,
+  clientFamilies: EmailClientFamily[] = ALL_CLIENT_FAMILIES
+): TemplateValidationWarning[] {
+  const warnings: TemplateValidationWarning[] = [];
+  const reported = new Set<CssCompatibilityRule>();
+
+  for (const declaration of extractDeclarations(html)) {
+    for (const rule of CSS_COMPATIBILITY_RULES) {
+      if (
+        reported.has(rule) ||
+        (rule.property !== "*" && rule.property !== declaration.property) ||
+        (rule.value && !rule.value.test(declaration.value))
+      ) {
+        continue;
+      }
+
+      const clients = rule.unsupportedIn.filter((client) =>
+        clientFamilies.includes(client)
+      );
+      if (clients.length === 0) {
+        continue;
+      }
+
+      reported.add(rule);
+      warnings.push({
+        type: rule.type,
+        message: `CSS "${declaration.property}: ${declaration.value}" is not supported in ${clients.join(", ")}`,
+        line: lineAt(html, declaration.index),
+        context: declaration.property,
+      });
+    }
+  }
+
+  return warnings;
+}
+
+interface CssDeclaration {
+  property: string;
+  value: string;
+  index: number;
+}
+
+function extractDeclarations(html: string): CssDeclaration[] {
+  const declarations: CssDeclaration[] = [];
+  const collect = (css: string, offset: number): void => {
+    // Declarations end at ; or }, so selectors such as a:hover never match
+    const pattern = /([a-z-]+)\s*:\s*([^;{}]+?)\s*(?=;|}|$)/gi;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(css)) !== null) {
+      declarations.push({
+        property: match[1].toLowerCase(),
+        value: match[2].replace(/\s*!important$/i, "").toLowerCase(),
+        index: offset + match.index,
+      });
+    }
+  };
+
+  const stylePattern = /\sstyle\s*=\s*(["'])([\s\S]*?)\1/gi;
+  let match: RegExpExecArray | null;
+  while ((match = stylePattern.exec(html)) !== null) {
+    collect(match[2], match.index + match[0].indexOf(match[2]));
+  }
+
+  const blockPattern = /<style[^>]*>([\s\S]*?)<\/style>/gi;
+  while ((match = blockPattern.exec(html)) !== null) {
+    const offset = match.index + match[0].indexOf(match[1]);
+    // Only the bodies of rule blocks hold declarations
+    const bodies = /\{([^{}]*)\}/g;
+    let body: RegExpExecArray | null;
+    while ((body = bodies.exec(match[1])) !== null) {
+      collect(body[1], offset + body.index + 1);
+    }
+  }
+
+  return declarations.sort((a, b) => a.index - b.index);
+}
+
+function lineAt(content: string, index: number): number {
+  return content.slice(0, index).split("\n").length;
+}
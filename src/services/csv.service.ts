@@ -0,0 +1,142 @@
+import { StringDecoder } from "string_decoder";
+
+/**
+ * Incremental RFC 4180 parser: text can be written in pieces of any size,
+ * and complete rows are returned as soon as their line ends. Quoted fields
+ * may contain delimiters, doubled quotes and line breaks. Blank lines are
+ * skipped.
+ */
+class CsvTokenizer {
+  private row: string[] = [];
+  private field = "";
+  private quoted = false;
+  // A closing quote may be the first half of an escaped one
+  private quoteClosing = false;
+  private pendingCarriageReturn = false;
+  private started = false;
+
+  constructor(private delimiter: string) {}
+
+  write(text: string): string[][] {
+    const rows: string[][] = [];
+    let input = text;
+
+    // Strip a byte order mark left by spreadsheet exports
+    if (!this.started && input.length > 0) {
+      this.started = true;
+      if (input.charCodeAt(0) === 0xfeff) {
+        input = input.slice(1);
+      }
+    }
+
+    for (const char of input) {
+      if (this.pendingCarriageReturn) {
+        this.pendingCarriageReturn = false;
+        if (char === "\n") {
+          continue;
+        }
+      }
+
+      if (this.quoteClosing) {
+        this.quoteClosing = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.quoted = false;
+      }
+
+      if (this.quoted) {
+        if (char === '"') {
+          this.quoteClosing = true;
+        } else {
+          this.field += char;
+        }
+      } else if (char === '"') {
+        this.quoted = true;
+      } else if (char === this.delimiter) {
+        this.row.push(this.field);
+        this.field = "";
+      } else if (char === "\n" || char === "\r") {
+        this.pendingCarriageReturn = char === "\r";
+        this.endRow(rows);
+      } else {
+        this.field += char;
+      }
+    }
+
+    return rows;
+  }
+
+  end(): string[][] {
+    const rows: string[][] = [];
+    if (this.field !== "" || this.row.length > 0) {
+      this.endRow(rows);
+    }
+    return rows;
+  }
+
+  private endRow(rows: string[][]): void {
+    this.row.push(this.field);
+    if (this.row.length > 1 || this.row[0] !== "") {
+      rows.push(this.row);
+    }
+    this.row = [];
+    this.field = "";
+  }
+}
+
+/**
+ * Parse RFC 4180 CSV: quoted fields may contain commas, doubled quotes and
+ * line breaks. Blank lines are skipped. Pass "\t" as delimiter for TSV.
+ */
+export function parseCsv(text: string, delimiter: string = ","): string[][] {
+  const tokenizer = new CsvTokenizer(delimiter);
+  return [...tokenizer.write(text), ...tokenizer.end()];
+}
+
+/**
+ * Parse CSV as it arrives, e.g. from fs.createReadStream, yielding one
+ * row at a time. Multi-byte characters split across chunks are decoded
+ * correctly.
+ */
+export async function* parseCsvStream(
+  chunks: AsyncIterable<string | Uint8Array>,
+  delimiter: string = ","
+): AsyncGenerator<string[], void, undefined> {
+  const tokenizer = new CsvTokenizer(delimiter);
+  const decoder = new StringDecoder("utf8");
+
+  for await (const chunk of chunks) {
+    const text = typeof chunk === "string" ? chunk : decoder.write(chunk);
+    yield* tokenizer.write(text);
+  }
+
+  yield* tokenizer.write(decoder.end());
+  yield* tokenizer.end();
+}
+
+/**
+ * Parse CSV with a header row into one record per row, keyed by the
+ * lowercased header names
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  return rows.map((row) =>
+    Object.fromEntries(columns.map((column, i) => [column, (row[i] ?? "").trim()]))
+  );
+}
+
+export function formatCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map((row) => row.map(formatCsvField).join(",")).join("\r\n") + "\r\n";
+}
+
+function formatCsvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,379 @@
+import { supabase } from "../config/supabase";
+import { JsonObject, JsonValue } from "../types/email-provider";
+import {
+  CreateCustomField,
+  CustomField,
+  CustomFieldType,
+  UpdateCustomField,
+} from "../types/email-system";
+import { TemplateVariable } from "../types/template-engine";
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = [
+  "string",
+  "number",
+  "boolean",
+  "date",
+  "enum",
+  "multi_select",
+];
+export const DEFAULT_CUSTOM_FIELD_CACHE_TTL_MS = 60000;
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TRUE_VALUES = ["true", "yes", "y", "1"];
+const FALSE_VALUES = ["false", "no", "n", "0"];
+// Separator of multi_select values in CSV cells
+export const MULTI_SELECT_SEPARATOR = ";";
+
+export interface ParsedCustomFieldValue {
+  value?: JsonValue;
+  error?: string;
+}
+
+/**
+ * Workspace-defined contact fields. Definitions are cached for
+ * cacheTtlMs, since every contact write validates against them.
+ */
+export class CustomFieldService {
+  private cache: { fields: CustomField[]; loadedAt: number } | null = null;
+  private cacheTtlMs: number;
+
+  constructor(cacheTtlMs: number = DEFAULT_CUSTOM_FIELD_CACHE_TTL_MS) {
+    this.cacheTtlMs = cacheTtlMs;
+  }
+
+  async listFields(): Promise<CustomField[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < this.cacheTtlMs) {
+      return this.cache.fields;
+    }
+
+    const { data, error } = await supabase
+      .from("custom_fields")
+      .select("*")
+      .order("key", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list custom fields: ${error.message}`);
+    }
+
+    this.cache = { fields: data as CustomField[], loadedAt: Date.now() };
+    return this.cache.fields;
+  }
+
+  async getField(key: string): Promise<CustomField | null> {
+    const fields = await this.listFields();
+    return fields.find((field) => field.key === key) || null;
+  }
+
+  async createField(input: CreateCustomField): Promise<CustomField> {
+    const errors = validateCustomFieldDefinition(input);
+    if (errors.length > 0) {
+      throw new Error(`Custom field validation failed: ${errors.join(", ")}`);
+    }
+
+    const { data, error } = await supabase
+      .from("custom_fields")
+      .insert({
+        key: input.key,
+        label: input.label,
+        type: input.type,
+        options: input.options ?? null,
+        required: input.required ?? false,
+        default_value: input.default_value ?? null,
+        indexed: input.indexed ?? false,
+        description: input.description,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create custom field: ${error.message}`);
+    }
+
+    this.cache = null;
+    return data as CustomField;
+  }
+
+  async updateField(key: string, updates: UpdateCustomField): Promise<CustomField> {
+    const field = await this.getField(key);
+    if (!field) {
+      throw new Error(`Custom field not found: ${key}`);
+    }
+
+    const errors = validateCustomFieldDefinition({
+      ...withoutNulls(field),
+      ...updates,
+      key: field.key,
+      type: field.type,
+    });
+    if (errors.length > 0) {
+      throw new Error(`Custom field validation failed: ${errors.join(", ")}`);
+    }
+
+    const { data, error } = await supabase
+      .from("custom_fields")
+      .update(updates)
+      .eq("key", key)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update custom field: ${error.message}`);
+    }
+
+    this.cache = null;
+    return data as CustomField;
+  }
+
+  /**
+   * Remove the definition; values already stored in contact metadata are
+   * kept as untyped metadata
+   */
+  async deleteField(key: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from("custom_fields")
+      .delete()
+      .eq("key", key)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to delete custom field: ${error.message}`);
+    }
+
+    this.cache = null;
+    return (data?.length || 0) > 0;
+  }
+
+  /**
+   * Apply defaults to contact metadata and validate it against the field
+   * definitions. Keys without a definition pass through unchanged.
+   */
+  async prepareMetadata(metadata: JsonObject = {}): Promise<JsonObject> {
+    const fields = await this.listFields();
+    const prepared = applyCustomFieldDefaults(fields, metadata);
+    const errors = validateCustomFieldValues(fields, prepared);
+    if (errors.length > 0) {
+      throw new Error(`Contact validation failed: ${errors.join(", ")}`);
+    }
+    return prepared;
+  }
+}
+
+export function validateCustomFieldDefinition(input: CreateCustomField): string[] {
+  const errors: string[] = [];
+
+  if (!KEY_PATTERN.test(input.key || "")) {
+    errors.push(
+      "key must start with a lowercase letter and have at most 40 lowercase letters, digits and underscores"
+    );
+  }
+  if (!input.label?.trim()) {
+    errors.push("label is required");
+  }
+  if (!CUSTOM_FIELD_TYPES.includes(input.type)) {
+    errors.push(`type must be one of ${CUSTOM_FIELD_TYPES.join(", ")}`);
+    return errors;
+  }
+
+  if (hasOptions(input.type)) {
+    if (!input.options?.length) {
+      errors.push(`${input.type} fields need options`);
+    } else if (new Set(input.options).size !== input.options.length) {
+      errors.push("options must be unique");
+    } else if (input.options.some((option) => typeof option !== "string" || !option.trim())) {
+      errors.push("options must be non-empty strings");
+    }
+  } else if (input.options !== undefined) {
+    errors.push(`${input.type} fields cannot have options`);
+  }
+
+  if (input.default_value !== undefined && input.default_value !== null) {
+    const error = validateCustomFieldValue(
+      { key: input.key, type: input.type, options: input.options },
+      input.default_value
+    );
+    if (error) {
+      errors.push(`default_value: ${error}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Why the value does not fit the field, or null when it does
+ */
+export function validateCustomFieldValue(
+  field: Pick<CustomField, "key" | "type" | "options">,
+  value: JsonValue
+): string | null {
+  switch (field.type) {
+    case "string":
+      return typeof value === "string" ? null : "must be a string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? null : "must be a number";
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be true or false";
+    case "date":
+      return typeof value === "string" && isValidDate(value)
+        ? null
+        : "must be a date (YYYY-MM-DD)";
+    case "enum":
+      return typeof value === "string" && (field.options || []).includes(value)
+        ? null
+        : `must be one of ${(field.options || []).join(", ")}`;
+    case "multi_select":
+      return Array.isArray(value) &&
+        new Set(value).size === value.length &&
+        value.every((item) => typeof item === "string" && (field.options || []).includes(item))
+        ? null
+        : `must be a list of distinct values from ${(field.options || []).join(", ")}`;
+    default:
+      return `has unknown type ${field.type}`;
+  }
+}
+
+/**
+ * Errors for required fields that are missing and values of the wrong
+ * type; null counts as missing
+ */
+export function validateCustomFieldValues(
+  fields: CustomField[],
+  metadata: JsonObject
+): string[] {
+  const errors: string[] = [];
+
+  for (const field of fields) {
+    const value = metadata[field.key];
+    if (value === undefined || value === null) {
+      if (field.required) {
+        errors.push(`${field.key} is required`);
+      }
+      continue;
+    }
+    const error = validateCustomFieldValue(field, value);
+    if (error) {
+      errors.push(`${field.key} ${error}`);
+    }
+  }
+
+  return errors;
+}
+
+export function applyCustomFieldDefaults(
+  fields: CustomField[],
+  metadata: JsonObject
+): JsonObject {
+  const result: JsonObject = { ...metadata };
+
+  for (const field of fields) {
+    const hasDefault = field.default_value !== undefined && field.default_value !== null;
+    if (hasDefault && (result[field.key] === undefined || result[field.key] === null)) {
+      result[field.key] = field.default_value as JsonValue;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert a text value, e.g. a CSV cell, to the field's type. Empty text
+ * is no value. Booleans accept yes/no and 1/0; enum values match options
+ * case-insensitively; multi_select values are separated by semicolons.
+ */
+export function parseCustomFieldValue(
+  field: Pick<CustomField, "key" | "type" | "options">,
+  raw: string
+): ParsedCustomFieldValue {
+  const text = raw.trim();
+  if (!text) {
+    return {};
+  }
+
+  let value: JsonValue;
+  switch (field.type) {
+    case "number":
+      value = Number(text);
+      break;
+    case "boolean": {
+      const lower = text.toLowerCase();
+      value = TRUE_VALUES.includes(lower) ? true : FALSE_VALUES.includes(lower) ? false : text;
+      break;
+    }
+    case "date":
+      // Keep the date part of ISO timestamps as written, without shifting
+      // it to another timezone
+      value = /^\d{4}-\d{2}-\d{2}T/.test(text) ? text.slice(0, 10) : text;
+      break;
+    case "enum":
+      value = matchOption(field.options, text);
+      break;
+    case "multi_select":
+      value = text
+        .split(MULTI_SELECT_SEPARATOR)
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .map((item) => matchOption(field.options, item));
+      break;
+    default:
+      value = text;
+  }
+
+  const error = validateCustomFieldValue(field, value);
+  return error ? { error: `${field.key} ${error}` } : { value };
+}
+
+/**
+ * Template variable for {{contact.metadata.<key>}}, typed by the field
+ */
+export function customFieldTemplateVariable(field: CustomField): TemplateVariable {
+  const variable: TemplateVariable = {
+    name: `contact.metadata.${field.key}`,
+    type:
+      field.type === "multi_select"
+        ? "array"
+        : field.type === "enum"
+          ? "string"
+          : field.type,
+    required: field.required,
+    description: field.description || field.label,
+  };
+  if (field.default_value !== undefined && field.default_value !== null) {
+    variable.defaultValue = field.default_value;
+  }
+  if (field.options) {
+    variable.validation = { options: field.options };
+  }
+  return variable;
+}
+
+function hasOptions(type: CustomFieldType): boolean {
+  return type === "enum" || type === "multi_select";
+}
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function matchOption(options: string[] | undefined, value: string): string {
+  const lower = value.toLowerCase();
+  return (options || []).find((option) => option.toLowerCase() === lower) || value;
+}
+
+// Stored definitions hold null for unset columns
+function withoutNulls(field: CustomField): CreateCustomField {
+  return {
+    key: field.key,
+    label: field.label,
+    type: field.type,
+    options: field.options ?? undefined,
+    required: field.required,
+    default_value: field.default_value ?? undefined,
+    indexed: field.indexed,
+    description: field.description ?? undefined,
+  };
+}
@@ -0,0 +1,432 @@
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  KeyObject,
+  sign,
+  verify,
+} from "crypto";
+import { promises as dns } from "dns";
+import {
+  DkimAlgorithm,
+  DkimConfig,
+  DkimKeyConfig,
+  DkimVerificationResult,
+} from "../types/email-provider";
+
+const CRLF = "\r\n";
+
+const DEFAULT_SIGNED_HEADERS = [
+  "from",
+  "sender",
+  "reply-to",
+  "to",
+  "cc",
+  "subject",
+  "date",
+  "message-id",
+  "mime-version",
+  "content-type",
+  "content-transfer-encoding",
+  "list-unsubscribe",
+  "list-unsubscribe-post",
+];
+
+interface ParsedHeader {
+  name: string;
+  raw: string;
+}
+
+interface SigningKey {
+  domain: string;
+  selector: string;
+  algorithm: DkimAlgorithm;
+  key: KeyObject;
+}
+
+/**
+ * Resolves the DKIM TXT record for a selector, e.g. "v=DKIM1; k=rsa; p=...".
+ */
+export type DkimKeyResolver = (
+  domain: string,
+  selector: string
+) => Promise<string | null>;
+
+/**
+ * Signs raw RFC 5322 messages with DKIM (RFC 6376) using relaxed/relaxed
+ * canonicalization. Supports rsa-sha256 and ed25519-sha256 (RFC 8463).
+ */
+export class DkimSigner {
+  private keys: SigningKey[];
+  private headerFields: string[];
+
+  constructor(config: DkimConfig) {
+    this.headerFields = (config.headerFields || DEFAULT_SIGNED_HEADERS).map(
+      (name) => name.toLowerCase()
+    );
+    if (!this.headerFields.includes("from")) {
+      this.headerFields.unshift("from");
+    }
+
+    this.keys = config.keys.map((keyConfig) => this.loadKey(keyConfig));
+  }
+
+  canSign(domain: string): boolean {
+    return this.findKey(domain) !== undefined;
+  }
+
+  /**
+   * Sign a raw message. Returns the message unchanged when no key matches
+   * the From domain.
+   */
+  sign(raw: string, timestamp: Date = new Date()): string {
+    const { headers, body } = splitMessage(raw);
+    const fromHeader = headers.find((header) => header.name === "from");
+    const fromDomain = fromHeader
+      ? extractDomain(fromHeader.raw)
+      : undefined;
+    const key = fromDomain ? this.findKey(fromDomain) : undefined;
+
+    if (!key) {
+      return raw;
+    }
+
+    const signedHeaders = selectHeaders(headers, this.headerFields);
+    const bodyHash = createHash("sha256")
+      .update(canonicalizeBodyRelaxed(body))
+      .digest("base64");
+
+    const tags = [
+      "v=1",
+      `a=${key.algorithm}`,
+      "c=relaxed/relaxed",
+      `d=${key.domain}`,
+      `s=${key.selector}`,
+      `t=${Math.floor(timestamp.getTime() / 1000)}`,
+      `h=${signedHeaders.map((header) => header.name).join(":")}`,
+      `bh=${bodyHash}`,
+    ];
+
+    const unsignedHeader = `DKIM-Signature: ${tags.join(`;${CRLF} `)};${CRLF} b=`;
+    const signingInput =
+      signedHeaders.map((header) => canonicalizeHeaderRelaxed(header.raw) + CRLF).join("") +
+      canonicalizeHeaderRelaxed(unsignedHeader);
+
+    const signature = createSignature(key.algorithm, key.key, signingInput);
+    const dkimHeader =
+      unsignedHeader + (signature.match(/.{1,72}/g) || []).join(`${CRLF} `);
+
+    return dkimHeader + CRLF + raw;
+  }
+
+  /**
+   * TXT record to publish at <selector>._domainkey.<domain>
+   */
+  getDnsRecord(domain: string): { name: string; value: string } | undefined {
+    const key = this.keys.find((k) => k.domain === domain.toLowerCase());
+    if (!key) {
+      return undefined;
+    }
+
+    return {
+      name: `${key.selector}._domainkey.${key.domain}`,
+      value: createDkimDnsRecord(createPublicKey(key.key)),
+    };
+  }
+
+  /**
+   * Find the key for a From domain, falling back to the closest parent domain.
+   */
+  private findKey(domain: string): SigningKey | undefined {
+    const target = domain.toLowerCase();
+    return this.keys
+      .filter(
+        (key) => target === key.domain || target.endsWith(`.${key.domain}`)
+      )
+      .sort((a, b) => b.domain.length - a.domain.length)[0];
+  }
+
+  private loadKey(config: DkimKeyConfig): SigningKey {
+    const key = createPrivateKey(config.privateKey);
+    const keyType = key.asymmetricKeyType;
+    const algorithm =
+      config.algorithm || (keyType === "ed25519" ? "ed25519-sha256" : "rsa-sha256");
+
+    if (
+      (algorithm === "rsa-sha256" && keyType !== "rsa") ||
+      (algorithm === "ed25519-sha256" && keyType !== "ed25519")
+    ) {
+      throw new Error(
+        `DKIM key for ${config.domain} is ${keyType}, which cannot be used for ${algorithm}`
+      );
+    }
+
+    return {
+      domain: config.domain.toLowerCase(),
+      selector: config.selector,
+      algorithm,
+      key,
+    };
+  }
+}
+
+/**
+ * Build the DKIM TXT record value for a public key.
+ */
+export function createDkimDnsRecord(publicKey: KeyObject): string {
+  if (publicKey.asymmetricKeyType === "ed25519") {
+    // RFC 8463: the raw 32-byte key, i.e. the tail of the SPKI encoding
+    const spki = publicKey.export({ format: "der", type: "spki" });
+    return `v=DKIM1; k=ed25519; p=${spki.subarray(spki.length - 32).toString("base64")}`;
+  }
+
+  const spki = publicKey.export({ format: "der", type: "spki" });
+  return `v=DKIM1; k=rsa; p=${spki.toString("base64")}`;
+}
+
+/**
+ * Verify the first DKIM-Signature header of a raw message.
+ */
+export async function verifyDkimSignature(
+  raw: string,
+  resolveKey: DkimKeyResolver = resolveDkimKeyFromDns
+): Promise<DkimVerificationResult> {
+  const { headers, body } = splitMessage(raw);
+  const signatureHeader = headers.find((h) => h.name === "dkim-signature");
+
+  if (!signatureHeader) {
+    return { status: "none", reason: "No DKIM-Signature header" };
+  }
+
+  const tags = parseTags(signatureHeader.raw.slice(signatureHeader.raw.indexOf(":") + 1));
+  const result: DkimVerificationResult = {
+    status: "fail",
+    domain: tags.d,
+    selector: tags.s,
+    algorithm: tags.a,
+  };
+
+  if (tags.v !== "1" || !tags.d || !tags.s || !tags.h || !tags.bh || !tags.b) {
+    return { ...result, reason: "Malformed DKIM-Signature header" };
+  }
+
+  if (tags.a !== "rsa-sha256" && tags.a !== "ed25519-sha256") {
+    return { ...result, reason: `Unsupported algorithm ${tags.a}` };
+  }
+
+  if (tags.x && parseInt(tags.x) * 1000 < Date.now()) {
+    return { ...result, reason: "Signature expired" };
+  }
+
+  const [headerCanon, bodyCanon = "simple"] = (tags.c || "simple/simple").split("/");
+  const canonicalBody =
+    bodyCanon === "relaxed" ? canonicalizeBodyRelaxed(body) : canonicalizeBodySimple(body);
+  const bodyHash = createHash("sha256").update(canonicalBody).digest("base64");
+
+  if (bodyHash !== tags.bh) {
+    return { ...result, reason: "Body hash mismatch" };
+  }
+
+  const canonicalizeHeader =
+    headerCanon === "relaxed"
+      ? canonicalizeHeaderRelaxed
+      : (value: string) => value;
+
+  // The signature header itself must be excluded from selection
+  const otherHeaders = headers.filter((h) => h !== signatureHeader);
+  const signedNames = tags.h.split(":").map((name) => name.trim().toLowerCase());
+  const signedHeaders = selectHeaders(otherHeaders, signedNames);
+  // Only a tag named b= is emptied; "b=" may also occur inside other tag
+  // values such as a quoted-printable i= or z=
+  const unsignedSignature = signatureHeader.raw.replace(
+    /((?:^[^:]*:|;)\s*b=)[^;]*/,
+    "$1"
+  );
+
+  const signingInput =
+    signedHeaders.map((h) => canonicalizeHeader(h.raw) + CRLF).join("") +
+    canonicalizeHeader(unsignedSignature);
+
+  const record = await resolveKey(tags.d, tags.s);
+  if (!record) {
+    return { ...result, reason: "No DKIM key record found" };
+  }
+
+  const recordTags = parseTags(record);
+  if (!recordTags.p) {
+    return { ...result, reason: "DKIM key has been revoked" };
+  }
+
+  try {
+    const publicKey = loadPublicKey(tags.a as DkimAlgorithm, recordTags.p);
+    const valid = verifySignature(
+      tags.a as DkimAlgorithm,
+      publicKey,
+      signingInput,
+      tags.b
+    );
+
+    return valid
+      ? { ...result, status: "pass" }
+      : { ...result, reason: "Signature mismatch" };
+  } catch (error) {
+    return { ...result, reason: `Invalid DKIM key: ${(error as Error).message}` };
+  }
+}
+
+async function resolveDkimKeyFromDns(
+  domain: string,
+  selector: string
+): Promise<string | null> {
+  try {
+    const records = await dns.resolveTxt(`${selector}._domainkey.${domain}`);
+    return records.length > 0 ? records[0].join("") : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Helper functions
+
+function splitMessage(raw: string): { headers: ParsedHeader[]; body: string } {
+  const normalized = raw.replace(/\r?\n/g, CRLF);
+  const separator = normalized.indexOf(CRLF + CRLF);
+  const headerBlock = separator === -1 ? normalized : normalized.slice(0, separator);
+  const body = separator === -1 ? "" : normalized.slice(separator + 4);
+
+  const headers: ParsedHeader[] = [];
+  for (const line of headerBlock.split(CRLF)) {
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1].raw += CRLF + line;
+    } else if (line.length > 0) {
+      headers.push({
+        name: line.slice(0, line.indexOf(":")).trim().toLowerCase(),
+        raw: line,
+      });
+    }
+  }
+
+  return { headers, body };
+}
+
+/**
+ * Pick headers in h= order; repeated names consume instances bottom-up
+ * (RFC 6376 section 5.4.2).
+ */
+function selectHeaders(
+  headers: ParsedHeader[],
+  names: string[]
+): ParsedHeader[] {
+  const used = new Set<ParsedHeader>();
+  const selected: ParsedHeader[] = [];
+
+  for (const name of names) {
+    const match = [...headers]
+      .reverse()
+      .find((header) => header.name === name && !used.has(header));
+
+    // A listed but absent header contributes nothing to the hash
+    if (match) {
+      used.add(match);
+      selected.push(match);
+    }
+  }
+
+  return selected;
+}
+
+function canonicalizeHeaderRelaxed(header: string): string {
+  const colon = header.indexOf(":");
+  const name = header.slice(0, colon).trim().toLowerCase();
+  const value = header
+    .slice(colon + 1)
+    .replace(/\r\n(?=[ \t])/g, "")
+    .replace(/[ \t]+/g, " ")
+    .trim();
+
+  return `${name}:${value}`;
+}
+
+function canonicalizeBodyRelaxed(body: string): string {
+  const lines = body
+    .split(CRLF)
+    .map((line) => line.replace(/[ \t]+/g, " ").replace(/ $/, ""));
+
+  while (lines.length > 0 && lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+
+  return lines.length === 0 ? "" : lines.join(CRLF) + CRLF;
+}
+
+function canonicalizeBodySimple(body: string): string {
+  const trimmed = body.replace(/(\r\n)*$/, "");
+  return trimmed + CRLF;
+}
+
+function parseTags(value: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+
+  for (const part of value.split(";")) {
+    const separator = part.indexOf("=");
+    if (separator === -1) {
+      continue;
+    }
+    const name = part.slice(0, separator).trim();
+    tags[name] = part.slice(separator + 1).replace(/\s+/g, "");
+  }
+
+  return tags;
+}
+
+function extractDomain(fromHeader: string): string | undefined {
+  const value = fromHeader.slice(fromHeader.indexOf(":") + 1);
+  const match = value.match(/<[^@<>]+@([^>]+)>/) || value.match(/@([^\s>,;]+)/);
+  return match ? match[1].trim() : undefined;
+}
+
+function createSignature(
+  algorithm: DkimAlgorithm,
+  key: KeyObject,
+  input: string
+): string {
+  if (algorithm === "ed25519-sha256") {
+    // RFC 8463 signs the SHA-256 digest with pure Ed25519
+    const digest = createHash("sha256").update(input).digest();
+    return sign(null, digest, key).toString("base64");
+  }
+
+  return sign("sha256", Buffer.from(input), key).toString("base64");
+}
+
+function verifySignature(
+  algorithm: DkimAlgorithm,
+  key: KeyObject,
+  input: string,
+  signature: string
+): boolean {
+  const signatureBytes = Buffer.from(signature, "base64");
+
+  if (algorithm === "ed25519-sha256") {
+    const digest = createHash("sha256").update(input).digest();
+    return verify(null, digest, key, signatureBytes);
+  }
+
+  return verify("sha256", Buffer.from(input), key, signatureBytes);
+}
+
+function loadPublicKey(algorithm: DkimAlgorithm, encoded: string): KeyObject {
+  const bytes = Buffer.from(encoded, "base64");
+
+  if (algorithm === "ed25519-sha256") {
+    // Wrap the raw key in an SPKI structure (OID 1.3.101.112)
+    const prefix = Buffer.from("302a300506032b6570032100", "hex");
+    return createPublicKey({
+      key: Buffer.concat([prefix, bytes]),
+      format: "der",
+      type: "spki",
+    });
+  }
+
+  return createPublicKey({ key: bytes, format: "der", type: "spki" });
+}
@@ -13,8 +13,19 @@ import {
     EmailLogStatus,
     EmailTemplate,
 } from "../types/email-system";
+import {
+  applyCustomFieldDefaults,
+  CustomFieldService,
+  validateCustomFieldValues,
+} from "./custom-field.service";
+import { SupabaseTemplateStorage } from "./template-storage.service";
 
 export class EmailCampaignService {
+  // Template writes go through storage so every content change is versioned
+  private templateStorage = new SupabaseTemplateStorage();
+  // Contact metadata is validated against the custom field definitions
+  private customFields = new CustomFieldService();
+
   // ==================== CONTACTS ====================
 
   async getContacts(limit = 100, offset = 0) {
@@ -51,9 +62,11 @@ export class EmailCampaignService {
   }
 
   async createContact(contact: CreateContact) {
+    const metadata = await this.customFields.prepareMetadata(contact.metadata);
+
     const { data, error } = await supabase
       .from("contacts")
-      .insert(contact)
+      .insert({ ...contact, metadata })
       .select()
       .single();
 
@@ -62,6 +75,14 @@ export class EmailCampaignService {
   }
 
   async updateContact(id: string, updates: Partial<CreateContact>) {
+    // metadata is replaced as a whole, so it is checked like a new contact's
+    if (updates.metadata) {
+      updates = {
+        ...updates,
+        metadata: await this.customFields.prepareMetadata(updates.metadata),
+      };
+    }
+
     const { data, error } = await supabase
       .from("contacts")
       .update(updates)
@@ -118,26 +139,11 @@ export class EmailCampaignService {
   }
 
   async createEmailTemplate(template: CreateEmailTemplate) {
-    const { data, error } = await supabase
-      .from("email_templates")
-      .insert(template)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data as EmailTemplate;
+    return this.templateStorage.saveTemplate(template);
   }
 
   async updateEmailTemplate(id: string, updates: Partial<CreateEmailTemplate>) {
-    const { data, error } = await supabase
-      .from("email_templates")
-      .update(updates)
-      .eq("id", id)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data as EmailTemplate;
+    return this.templateStorage.updateTemplate(id, updates);
   }
 
   async deleteEmailTemplate(id: string) {
@@ -439,9 +445,24 @@ export class EmailCampaignService {
   }
 
   async bulkCreateContacts(contacts: CreateContact[]) {
+    const fields = await this.customFields.listFields();
+    const errors: string[] = [];
+    const prepared = contacts.map((contact, index) => {
+      const metadata = applyCustomFieldDefaults(fields, contact.metadata || {});
+      errors.push(
+        ...validateCustomFieldValues(fields, metadata).map(
+          (error) => `contact ${index + 1}: ${error}`
+        )
+      );
+      return { ...contact, metadata };
+    });
+    if (errors.length > 0) {
+      throw new Error(`Contact validation failed: ${errors.join(", ")}`);
+    }
+
     const { data, error } = await supabase
       .from("contacts")
-      .insert(contacts)
+      .insert(prepared)
       .select();
 
     if (error) throw error;
@@ -93,12 +93,11 @@ export class EmailQueueService {
     return data as EmailQueue[];
   }
 
+  // enqueue_email is also how workflow steps queue their sends
   async addToQueue(queueItem: CreateEmailQueue) {
-    const { data, error } = await supabase
-      .from("email_queue")
-      .insert(queueItem)
-      .select()
-      .single();
+    const { data, error } = await supabase.rpc("enqueue_email", {
+      p_email: queueItem,
+    });
 
     if (error) throw error;
     return data as EmailQueue;
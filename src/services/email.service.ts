@@ -1,5 +1,6 @@
 import {
     EmailAddress,
+    EmailAttachment,
     EmailMessage,
     EmailProvider,
     EmailProviderError,
@@ -8,10 +9,15 @@ import {
     EmailServiceStats,
     EmailStatus,
     EmailTemplate,
+    MimeBuildOptions,
+    MimeMessage,
     RateLimitInfo,
     SendEmailOptions,
+    SuppressionChecker,
+    TemplatedEmailRecipient,
     WebhookEvent,
 } from "../types/email-provider";
+import { MimeBuilder } from "./mime-builder.service";
 
 export class EmailService {
   private provider: EmailProvider;
@@ -51,6 +57,32 @@ export class EmailService {
     // Validate message
     this.validateMessage(message);
 
+    // Drop suppressed recipients; nothing is sent once no To address is left
+    if (this.options.suppressionList) {
+      try {
+        const { allowed, suppressed } = await this.removeSuppressedRecipients(
+          message,
+          this.options.suppressionList
+        );
+        if (allowed.to.length === 0) {
+          return {
+            messageId: "",
+            status: "suppressed",
+            message: `All recipients are suppressed: ${suppressed.join(", ")}`,
+          };
+        }
+        message = allowed;
+      } catch (error) {
+        this.stats.totalFailed++;
+        this.stats.lastActivity = new Date();
+        return {
+          messageId: "",
+          status: "failed",
+          message: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+
     // Add metadata if provided
     if (options.metadata) {
       message.metadata = { ...message.metadata, ...options.metadata };
@@ -370,7 +402,7 @@ export class EmailService {
    */
   async sendTemplatedEmail(
     template: EmailTemplate,
-    recipients: EmailAddress[],
+    recipients: TemplatedEmailRecipient[],
     from: EmailAddress,
     options: SendEmailOptions = {}
   ): Promise<EmailSendResult[]> {
@@ -384,15 +416,22 @@ export class EmailService {
     const renderedTemplate = await this.renderTemplate(template);
 
     // Send to each recipient
-    const messages: EmailMessage[] = recipients.map((recipient) => ({
-      from,
-      to: [recipient],
-      subject: renderedTemplate.subject,
-      html: renderedTemplate.html,
-      text: renderedTemplate.text,
-      template,
-      metadata: options.metadata,
-    }));
+    const messages: EmailMessage[] = recipients.map(
+      ({ contactId, ...recipient }) => ({
+        from,
+        to: [recipient],
+        subject: renderedTemplate.subject,
+        html: renderedTemplate.html,
+        text: renderedTemplate.text,
+        template,
+        // Bulk-sender rules require one-click unsubscribe on campaign mail
+        headers: this.options.listUnsubscribe?.generateListUnsubscribeHeaders(
+          { contactId, email: recipient.email },
+          options.campaignId
+        ),
+        metadata: options.metadata,
+      })
+    );
 
     return await this.sendBulkEmails(messages, options);
   }
@@ -453,6 +492,39 @@ export class EmailService {
     }
   }
 
+  /**
+   * Copy of the message without suppressed addresses in to, cc and bcc,
+   * looked up in one call. Lists each suppressed address once, with its
+   * reason.
+   */
+  private async removeSuppressedRecipients(
+    message: EmailMessage,
+    suppressionList: SuppressionChecker
+  ): Promise<{ allowed: EmailMessage; suppressed: string[] }> {
+    const recipients = [...message.to, ...(message.cc || []), ...(message.bcc || [])];
+    const reasons = await suppressionList.getSuppressionReasons([
+      ...new Set(recipients.map((address) => address.email.toLowerCase())),
+    ]);
+
+    const filter = (addresses: EmailAddress[]): EmailAddress[] =>
+      addresses.filter((address) => !reasons.has(address.email.toLowerCase()));
+
+    const allowed: EmailMessage = { ...message, to: filter(message.to) };
+    if (message.cc) {
+      allowed.cc = filter(message.cc);
+    }
+    if (message.bcc) {
+      allowed.bcc = filter(message.bcc);
+    }
+
+    const suppressed = [...reasons].map(([email, reason]) => `${email} (${reason})`);
+    if (suppressed.length > 0 && this.options.logLevel === "debug") {
+      console.log("Suppressed recipients removed:", suppressed);
+    }
+
+    return { allowed, suppressed };
+  }
+
   private updateStats(result: EmailSendResult): void {
     this.stats.lastActivity = new Date();
 
@@ -559,6 +631,21 @@ export class EmailMessageBuilder {
     return this;
   }
 
+  attachment(attachment: EmailAttachment): this {
+    this.message.attachments = [...(this.message.attachments || []), attachment];
+    return this;
+  }
+
+  /**
+   * Attach an inline part that the HTML body can reference as cid:contentId
+   */
+  inline(
+    contentId: string,
+    attachment: Omit<EmailAttachment, "disposition" | "contentId">
+  ): this {
+    return this.attachment({ ...attachment, disposition: "inline", contentId });
+  }
+
   build(): EmailMessage {
     if (!this.message.from || !this.message.to || !this.message.subject) {
       throw new Error("From, to, and subject are required");
@@ -566,4 +653,11 @@ export class EmailMessageBuilder {
 
     return this.message as EmailMessage;
   }
+
+  /**
+   * Build the message and compose it into a raw RFC 5322 MIME message
+   */
+  buildMime(options: MimeBuildOptions = {}): MimeMessage {
+    return new MimeBuilder(options).build(this.build());
+  }
 }
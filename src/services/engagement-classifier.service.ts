@@ -0,0 +1,122 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "../config/supabase";
+
+import {
+  classifyEngagement,
+  DEFAULT_ENGAGEMENT_CLASSIFIER_OPTIONS,
+  EngagementClassification,
+  EngagementClassifierOptions,
+  EngagementEvent,
+  EngagementHistory,
+  MachineEngagementReason,
+} from "../../supabase/functions/_shared/engagement-classifier";
+
+export type {
+  EngagementClassification,
+  EngagementClassifierOptions,
+  EngagementEvent,
+  EngagementHistory,
+  MachineEngagementReason,
+};
+
+/**
+ * Tags tracking events as machine or human so stats can exclude MPP
+ * prefetches and link scanners. Raw counts keep every event.
+ */
+export class EngagementClassifier {
+  private client: SupabaseClient;
+  private options: EngagementClassifierOptions;
+
+  constructor(
+    client: SupabaseClient = supabase,
+    options: Partial<EngagementClassifierOptions> = {}
+  ) {
+    this.client = client;
+    this.options = { ...DEFAULT_ENGAGEMENT_CLASSIFIER_OPTIONS, ...options };
+  }
+
+  classify(
+    event: EngagementEvent,
+    history: EngagementHistory = {}
+  ): EngagementClassification {
+    return classifyEngagement(event, history, this.options);
+  }
+
+  /**
+   * Classify an event about to be stored for an email log, loading the
+   * earlier clicks the burst check needs
+   */
+  async classifyForEmailLog(
+    emailLog: {
+      id: string;
+      delivered_at?: string | null;
+      sent_at?: string | null;
+    },
+    event: EngagementEvent
+  ): Promise<EngagementClassification> {
+    const history: EngagementHistory = {
+      deliveredAt: emailLog.delivered_at ? new Date(emailLog.delivered_at) : null,
+      sentAt: emailLog.sent_at ? new Date(emailLog.sent_at) : null,
+    };
+
+    if (event.event === "click") {
+      history.clicks = await this.loadRecentClicks(emailLog.id, event.timestamp);
+    }
+
+    return this.classify(event, history);
+  }
+
+  /**
+   * Mark earlier clicks as machine once a burst reveals the scanner
+   */
+  async markMachineClicks(
+    trackingDetailIds: string[],
+    reason: MachineEngagementReason = "link_scanner_burst"
+  ): Promise<void> {
+    if (trackingDetailIds.length === 0) {
+      return;
+    }
+
+    const { error } = await this.client
+      .from("email_tracking_details")
+      .update({ is_machine: true, machine_reason: reason })
+      .in("id", trackingDetailIds);
+
+    if (error) {
+      throw new Error(`Failed to reclassify clicks: ${error.message}`);
+    }
+  }
+
+  // Without history only the burst check is skipped; the event is still stored
+  private async loadRecentClicks(
+    emailLogId: string,
+    before: Date
+  ): Promise<NonNullable<EngagementHistory["clicks"]>> {
+    const windowStart = new Date(
+      before.getTime() - this.options.burstWindowSeconds * 1000
+    );
+
+    try {
+      const { data, error } = await this.client
+        .from("email_tracking_details")
+        .select("id, url, event_timestamp, is_machine")
+        .eq("email_log_id", emailLogId)
+        .eq("event_type", "click")
+        .gte("event_timestamp", windowStart.toISOString());
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return (data || []).map((click) => ({
+        id: click.id,
+        url: click.url,
+        timestamp: new Date(click.event_timestamp),
+        isMachine: click.is_machine,
+      }));
+    } catch (error) {
+      console.warn("Failed to load recent clicks for classification:", error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { supabase } from "../config/supabase";
+import { CampaignLinkStats, EmailTemplate } from "../types/email-system";
+import { HandlebarsTemplateEngine } from "./template-engine.service";
+import { SupabaseTemplateStorage } from "./template-storage.service";
+import { mapLinkIds } from "./tracking-url.service";
+
+export type LinkClickMetric = Exclude<keyof CampaignLinkStats, "link_id" | "url">;
+
+export interface ClickOverlay {
+  html: string;
+  links: CampaignLinkStats[];
+}
+
+/**
+ * Per-link click reports for campaigns, keyed by the link ids
+ * processHtmlTracking puts in click tracking URLs
+ */
+export class LinkAnalyticsService {
+  private templateEngine: HandlebarsTemplateEngine;
+  private templateStorage: SupabaseTemplateStorage;
+
+  constructor(
+    templateEngine: HandlebarsTemplateEngine,
+    templateStorage: SupabaseTemplateStorage = new SupabaseTemplateStorage()
+  ) {
+    this.templateEngine = templateEngine;
+    this.templateStorage = templateStorage;
+  }
+
+  async getCampaignLinkStats(campaignId: string): Promise<CampaignLinkStats[]> {
+    const { data, error } = await supabase.rpc("get_campaign_link_stats", {
+      p_campaign_id: campaignId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to get campaign link stats: ${error.message}`);
+    }
+
+    return (data || []).map((row: CampaignLinkStats) => ({
+      link_id: row.link_id,
+      url: row.url,
+      total_clicks: Number(row.total_clicks) || 0,
+      unique_clicks: Number(row.unique_clicks) || 0,
+      human_clicks: Number(row.human_clicks) || 0,
+      human_unique_clicks: Number(row.human_unique_clicks) || 0,
+    }));
+  }
+
+  /**
+   * The campaign's email rendered with sample data and a click badge on
+   * every link, for heatmap style reports
+   */
+  async getCampaignClickOverlay(
+    campaignId: string,
+    metric: LinkClickMetric = "human_unique_clicks"
+  ): Promise<ClickOverlay> {
+    const { data: campaign, error } = await supabase
+      .from("email_campaigns")
+      .select("template_id")
+      .eq("id", campaignId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to get campaign: ${error.message}`);
+    }
+
+    const template = await this.getSentTemplate(campaignId, campaign.template_id);
+    const [rendered, links] = await Promise.all([
+      this.templateEngine.renderPreview(template),
+      this.getCampaignLinkStats(campaignId),
+    ]);
+
+    return { html: renderClickOverlay(rendered.html, links, metric), links };
+  }
+
+  // Link positions must match what recipients got, so prefer the pinned version
+  private async getSentTemplate(
+    campaignId: string,
+    templateId: string
+  ): Promise<EmailTemplate> {
+    const template = await this.templateStorage.getTemplate(templateId);
+    if (!template) {
+      throw new Error(`Template not found: ${templateId}`);
+    }
+
+    const version = await this.templateStorage.getCampaignTemplateVersion(campaignId);
+    if (!version) {
+      return template;
+    }
+
+    return {
+      ...template,
+      subject: version.subject,
+      html_content: version.html_content,
+      text_content: version.text_content,
+      source_type: version.source_type,
+      variables: version.variables,
+      locales: version.locales,
+    };
+  }
+}
+
+/**
+ * Annotate each link in rendered HTML with its click count and share of all
+ * clicks. Badge background scales with clicks relative to the top link.
+ */
+export function renderClickOverlay(
+  html: string,
+  links: CampaignLinkStats[],
+  metric: LinkClickMetric = "human_unique_clicks"
+): string {
+  const clicksByLink = new Map(links.map((link) => [link.link_id, link[metric]]));
+  const total = links.reduce((sum, link) => sum + link[metric], 0);
+  const max = Math.max(0, ...links.map((link) => link[metric]));
+
+  return mapLinkIds(html, (tag, linkId) => {
+    const clicks = clicksByLink.get(linkId) || 0;
+    const share = total > 0 ? Math.round((clicks / total) * 1000) / 10 : 0;
+    const heat = max > 0 ? Math.round((clicks / max) * 100) / 100 : 0;
+    const label = `${clicks} ${clicks === 1 ? "click" : "clicks"} (${share}%)`;
+
+    const annotated = tag.replace(
+      /^<a\s/i,
+      `<a data-link-id="${linkId}" data-clicks="${clicks}" title="${label}" `
+    );
+    const badge =
+      `<span class="click-overlay-badge" style="display:inline-block;padding:1px 4px;` +
+      `margin-right:4px;border-radius:3px;font:bold 11px sans-serif;color:#000;` +
+      `background:rgba(255,${Math.round(200 * (1 - heat))},0,${0.3 + 0.7 * heat});">` +
+      `${label}</span>`;
+
+    return `${badge}${annotated}`;
+  });
+}
@@ -0,0 +1,118 @@
+import { JsonObject } from "../types/email-provider";
+
+// Anything with locale variants: templates, versions and compiled templates
+interface Localized {
+  default_locale?: string;
+  locales?: Record<string, unknown>;
+}
+
+export const DEFAULT_TEMPLATE_LOCALE = "en";
+
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+/**
+ * Canonical BCP 47 form: "pt_br" and "PT-br" both become "pt-BR"
+ */
+export function normalizeLocale(locale: unknown): string | undefined {
+  if (typeof locale !== "string") {
+    return undefined;
+  }
+
+  const value = locale.trim().replace(/_/g, "-");
+  if (!LOCALE_PATTERN.test(value)) {
+    return undefined;
+  }
+
+  return value
+    .split("-")
+    .map((part, index) => {
+      if (index === 0) {
+        return part.toLowerCase();
+      }
+      if (part.length === 2) {
+        return part.toUpperCase(); // Region
+      }
+      if (part.length === 4) {
+        return part.charAt(0).toUpperCase() + part.slice(1).toLowerCase(); // Script
+      }
+      return part.toLowerCase();
+    })
+    .join("-");
+}
+
+/**
+ * Most to least specific: "zh-Hant-TW" -> ["zh-Hant-TW", "zh-Hant", "zh"]
+ */
+export function getLocaleFallbackChain(locale: string): string[] {
+  const normalized = normalizeLocale(locale);
+  if (!normalized) {
+    return [];
+  }
+
+  const parts = normalized.split("-");
+  return parts.map((_, index) => parts.slice(0, parts.length - index).join("-"));
+}
+
+/**
+ * Contact locale from contact metadata (`locale`, falling back to `language`)
+ */
+export function resolveContactLocale(contact: {
+  locale?: string;
+  metadata?: JsonObject;
+}): string | undefined {
+  return (
+    normalizeLocale(contact.locale) ??
+    normalizeLocale(contact.metadata?.locale) ??
+    normalizeLocale(contact.metadata?.language)
+  );
+}
+
+/**
+ * Pick the template locale variant for a contact locale. Returns undefined
+ * when the default content should be used.
+ */
+export function selectTemplateLocale(
+  template: Localized,
+  locale?: string
+): string | undefined {
+  if (!locale) {
+    return undefined;
+  }
+
+  const available = Object.keys(template.locales || {});
+  const defaultLocale =
+    normalizeLocale(template.default_locale) || DEFAULT_TEMPLATE_LOCALE;
+
+  for (const candidate of getLocaleFallbackChain(locale)) {
+    if (candidate === defaultLocale) {
+      return undefined;
+    }
+    const match = available.find(
+      (key) => normalizeLocale(key) === candidate
+    );
+    if (match) {
+      return match;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether a contact locale gets content in its own language, either from a
+ * variant or because the default content shares the language
+ */
+export function isLocaleCovered(
+  template: Localized,
+  locale: string
+): boolean {
+  const language = getLocaleFallbackChain(locale).pop();
+  const defaultLanguage = getLocaleFallbackChain(
+    template.default_locale || DEFAULT_TEMPLATE_LOCALE
+  ).pop();
+
+  return (
+    language === defaultLanguage ||
+    selectTemplateLocale(template, locale) !== undefined
+  );
+}
@@ -0,0 +1,413 @@
+import { randomBytes, randomUUID } from "crypto";
+import {
+  EmailAddress,
+  EmailAttachment,
+  EmailMessage,
+  MimeBuildOptions,
+  MimeMessage,
+} from "../types/email-provider";
+
+const CRLF = "\r\n";
+const MAX_ENCODED_LINE = 76;
+const MAX_HEADER_LINE = 78;
+// 45 bytes encode to 60 base64 chars, keeping "=?UTF-8?B?...?=" within 75 chars
+const MAX_ENCODED_WORD_BYTES = 45;
+
+// Headers composed by the builder itself; custom headers may not override them
+const RESERVED_HEADERS = [
+  "from",
+  "to",
+  "cc",
+  "bcc",
+  "subject",
+  "date",
+  "message-id",
+  "mime-version",
+  "content-type",
+  "content-transfer-encoding",
+];
+
+// Printable ASCII except ":" (RFC 5322 section 2.2)
+const HEADER_NAME = /^[\x21-\x39\x3b-\x7e]+$/;
+
+interface MimePart {
+  headers: Array<[string, string]>;
+  body?: string;
+  boundary?: string;
+  children?: MimePart[];
+}
+
+/**
+ * Composes RFC 5322 / MIME messages from EmailMessage objects.
+ *
+ * Body layout:
+ *   multipart/mixed            (only when there are regular attachments)
+ *     multipart/alternative    (only when both text and html are present)
+ *       text/plain
+ *       multipart/related      (only when html references inline cid: parts)
+ *         text/html
+ *         inline attachments
+ *     attachments
+ */
+export class MimeBuilder {
+  private options: MimeBuildOptions;
+  private boundaryIndex = 0;
+
+  constructor(options: MimeBuildOptions = {}) {
+    this.options = options;
+  }
+
+  build(message: EmailMessage): MimeMessage {
+    this.boundaryIndex = 0;
+
+    const messageId =
+      this.options.messageId || this.generateMessageId(message.from.email);
+
+    const headers: Array<[string, string]> = [
+      ["From", this.formatAddress(message.from)],
+      ["To", message.to.map((addr) => this.formatAddress(addr)).join(", ")],
+    ];
+
+    if (message.cc && message.cc.length > 0) {
+      headers.push([
+        "Cc",
+        message.cc.map((addr) => this.formatAddress(addr)).join(", "),
+      ]);
+    }
+
+    headers.push(
+      ["Subject", this.encodeHeaderValue(message.subject)],
+      ["Date", this.formatDate(this.options.date || new Date())],
+      ["Message-ID", `<${messageId}>`]
+    );
+
+    for (const [name, value] of Object.entries(message.headers || {})) {
+      if (
+        HEADER_NAME.test(name) &&
+        !RESERVED_HEADERS.includes(name.toLowerCase())
+      ) {
+        headers.push([name, this.encodeHeaderValue(value)]);
+      }
+    }
+
+    headers.push(["MIME-Version", "1.0"]);
+
+    const body = this.buildBodyPart(message);
+    const raw =
+      this.serializeHeaders([...headers, ...body.headers]) +
+      CRLF +
+      CRLF +
+      this.serializeBody(body) +
+      CRLF;
+
+    return {
+      messageId,
+      envelope: {
+        from: message.from.email,
+        to: [...message.to, ...(message.cc || []), ...(message.bcc || [])].map(
+          (addr) => addr.email
+        ),
+      },
+      raw,
+    };
+  }
+
+  /**
+   * Encode a header value as RFC 2047 encoded-words when it is not plain ASCII.
+   */
+  encodeHeaderValue(value: string): string {
+    const clean = value.replace(/[\r\n]+/g, " ");
+    if (/^[\x20-\x7e\t]*$/.test(clean)) {
+      return clean;
+    }
+
+    const words: string[] = [];
+    let chunk: Buffer[] = [];
+    let chunkLength = 0;
+
+    for (const char of clean) {
+      const bytes = Buffer.from(char, "utf8");
+      if (chunkLength + bytes.length > MAX_ENCODED_WORD_BYTES) {
+        words.push(this.toEncodedWord(Buffer.concat(chunk)));
+        chunk = [];
+        chunkLength = 0;
+      }
+      chunk.push(bytes);
+      chunkLength += bytes.length;
+    }
+
+    if (chunkLength > 0) {
+      words.push(this.toEncodedWord(Buffer.concat(chunk)));
+    }
+
+    return words.join(" ");
+  }
+
+  formatAddress(address: EmailAddress): string {
+    if (!address.name) {
+      return address.email;
+    }
+
+    const displayName = address.name.replace(/[\r\n]+/g, " ");
+    let name: string;
+    if (!/^[\x20-\x7e]*$/.test(displayName)) {
+      name = this.encodeHeaderValue(displayName);
+    } else if (/[()<>[\]:;@\\,."]/.test(displayName)) {
+      name = `"${displayName.replace(/(["\\])/g, "\\$1")}"`;
+    } else {
+      name = displayName;
+    }
+
+    return `${name} <${address.email}>`;
+  }
+
+  encodeQuotedPrintable(text: string): string {
+    return text
+      .split(/\r\n|\r|\n/)
+      .map((line) => this.encodeQuotedPrintableLine(line))
+      .join(CRLF);
+  }
+
+  // Private methods
+
+  private buildBodyPart(message: EmailMessage): MimePart {
+    const attachments = message.attachments || [];
+    const html = message.html;
+    const inline = html
+      ? attachments.filter(
+          (att) =>
+            att.disposition === "inline" &&
+            Boolean(att.contentId) &&
+            html.includes(`cid:${att.contentId!.replace(/^<|>$/g, "")}`)
+        )
+      : [];
+    const regular = attachments.filter((att) => !inline.includes(att));
+
+    const textPart =
+      message.text !== undefined
+        ? this.createTextPart(message.text, "text/plain")
+        : undefined;
+
+    let htmlPart =
+      message.html !== undefined
+        ? this.createTextPart(message.html, "text/html")
+        : undefined;
+
+    if (htmlPart && inline.length > 0) {
+      htmlPart = this.createMultipart(
+        "related",
+        [htmlPart, ...inline.map((att) => this.createAttachmentPart(att))],
+        'type="text/html"'
+      );
+    }
+
+    let content: MimePart;
+    if (textPart && htmlPart) {
+      content = this.createMultipart("alternative", [textPart, htmlPart]);
+    } else {
+      content = htmlPart || textPart || this.createTextPart("", "text/plain");
+    }
+
+    if (regular.length > 0) {
+      content = this.createMultipart("mixed", [
+        content,
+        ...regular.map((att) => this.createAttachmentPart(att)),
+      ]);
+    }
+
+    return content;
+  }
+
+  private createTextPart(content: string, contentType: string): MimePart {
+    const normalized = content.replace(/\r\n|\r|\n/g, CRLF);
+    const isSevenBit =
+      /^[\x00-\x7f]*$/.test(normalized) &&
+      normalized.split(CRLF).every((line) => line.length <= 998);
+
+    return {
+      headers: [
+        ["Content-Type", `${contentType}; charset=utf-8`],
+        [
+          "Content-Transfer-Encoding",
+          isSevenBit ? "7bit" : "quoted-printable",
+        ],
+      ],
+      body: isSevenBit ? normalized : this.encodeQuotedPrintable(normalized),
+    };
+  }
+
+  private createAttachmentPart(attachment: EmailAttachment): MimePart {
+    const content = Buffer.isBuffer(attachment.content)
+      ? attachment.content
+      : Buffer.from(attachment.content, "base64");
+    const disposition = attachment.disposition || "attachment";
+
+    const headers: Array<[string, string]> = [
+      [
+        "Content-Type",
+        `${attachment.contentType}; ${this.formatParameter("name", attachment.filename)}`,
+      ],
+      ["Content-Transfer-Encoding", "base64"],
+      [
+        "Content-Disposition",
+        `${disposition}; ${this.formatParameter("filename", attachment.filename)}`,
+      ],
+    ];
+
+    if (attachment.contentId) {
+      headers.push([
+        "Content-ID",
+        `<${attachment.contentId.replace(/^<|>$/g, "")}>`,
+      ]);
+    }
+
+    return {
+      headers,
+      body: this.wrap(content.toString("base64")),
+    };
+  }
+
+  private createMultipart(
+    subtype: "mixed" | "alternative" | "related",
+    children: MimePart[],
+    extraParams?: string
+  ): MimePart {
+    const boundary = this.nextBoundary();
+    const params = extraParams ? `; ${extraParams}` : "";
+
+    return {
+      headers: [
+        ["Content-Type", `multipart/${subtype}${params}; boundary="${boundary}"`],
+      ],
+      boundary,
+      children,
+    };
+  }
+
+  private serializePart(part: MimePart): string {
+    return (
+      this.serializeHeaders(part.headers) + CRLF + CRLF + this.serializeBody(part)
+    );
+  }
+
+  private serializeBody(part: MimePart): string {
+    if (!part.children || !part.boundary) {
+      return part.body || "";
+    }
+
+    const boundary = part.boundary;
+    return (
+      part.children
+        .map((child) => `--${boundary}${CRLF}${this.serializePart(child)}${CRLF}`)
+        .join("") + `--${boundary}--`
+    );
+  }
+
+  private serializeHeaders(headers: Array<[string, string]>): string {
+    // Addresses, filenames and content IDs come from callers too; a CR or LF
+    // in any of them would start a new header line
+    return headers
+      .map(([name, value]) =>
+        this.foldHeader(name, value.replace(/[\r\n]+/g, " "))
+      )
+      .join(CRLF);
+  }
+
+  /**
+   * Fold long header lines at whitespace (RFC 5322 section 2.2.3).
+   */
+  private foldHeader(name: string, value: string): string {
+    let line = `${name}: ${value}`;
+    const lines: string[] = [];
+
+    while (line.length > MAX_HEADER_LINE) {
+      const minIndex = lines.length === 0 ? name.length + 1 : 0;
+      let index = line.lastIndexOf(" ", MAX_HEADER_LINE);
+      if (index <= minIndex) {
+        index = line.indexOf(" ", MAX_HEADER_LINE);
+        if (index === -1) {
+          break;
+        }
+      }
+
+      lines.push(line.slice(0, index));
+      line = line.slice(index);
+    }
+
+    lines.push(line);
+    return lines.join(CRLF);
+  }
+
+  private formatParameter(name: string, value: string): string {
+    if (/^[\x20-\x7e]*$/.test(value)) {
+      return `${name}="${value.replace(/(["\\])/g, "\\$1")}"`;
+    }
+
+    // RFC 2231 extended parameter for non-ASCII values
+    const encoded = encodeURIComponent(value).replace(
+      /['()*]/g,
+      (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+    return `${name}*=UTF-8''${encoded}`;
+  }
+
+  private encodeQuotedPrintableLine(line: string): string {
+    const bytes = Buffer.from(line, "utf8");
+    const tokens: string[] = [];
+
+    for (let i = 0; i < bytes.length; i++) {
+      const byte = bytes[i];
+      const isLast = i === bytes.length - 1;
+      const isPrintable = byte >= 33 && byte <= 126 && byte !== 61;
+      const isInnerWhitespace = (byte === 32 || byte === 9) && !isLast;
+
+      tokens.push(
+        isPrintable || isInnerWhitespace
+          ? String.fromCharCode(byte)
+          : `=${byte.toString(16).toUpperCase().padStart(2, "0")}`
+      );
+    }
+
+    // Soft line breaks keep every encoded line within 76 chars including "="
+    const lines: string[] = [];
+    let current = "";
+    for (const token of tokens) {
+      if (current.length + token.length > MAX_ENCODED_LINE - 1) {
+        lines.push(`${current}=`);
+        current = "";
+      }
+      current += token;
+    }
+    lines.push(current);
+
+    return lines.join(CRLF);
+  }
+
+  private toEncodedWord(bytes: Buffer): string {
+    return `=?UTF-8?B?${bytes.toString("base64")}?=`;
+  }
+
+  private wrap(value: string): string {
+    return (value.match(new RegExp(`.{1,${MAX_ENCODED_LINE}}`, "g")) || []).join(
+      CRLF
+    );
+  }
+
+  private formatDate(date: Date): string {
+    return date.toUTCString().replace(/GMT$/, "+0000");
+  }
+
+  private generateMessageId(fromEmail: string): string {
+    const domain =
+      this.options.hostname || fromEmail.split("@")[1] || "localhost";
+    return `${randomUUID()}@${domain}`;
+  }
+
+  private nextBoundary(): string {
+    const index = this.boundaryIndex++;
+    if (this.options.generateBoundary) {
+      return this.options.generateBoundary(index);
+    }
+    return `----=_Part_${index}_${randomBytes(12).toString("hex")}`;
+  }
+}
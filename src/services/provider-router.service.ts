@@ -0,0 +1,384 @@
+import {
+  CircuitBreakerConfig,
+  EmailMessage,
+  EmailProvider,
+  EmailProviderError,
+  EmailSendResult,
+  EmailStatus,
+  EmailTemplate,
+  FailoverReason,
+  JsonValue,
+  ProviderApiResponse,
+  ProviderRoute,
+  ProviderRouteState,
+  ProviderRouterOptions,
+  ProviderSkip,
+  RateLimitInfo,
+  WebhookEvent,
+} from "../types/email-provider";
+
+interface RouteEntry {
+  provider: EmailProvider;
+  circuitBreaker: CircuitBreakerConfig;
+  state: ProviderRouteState;
+}
+
+const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  resetTimeoutMs: 60000,
+};
+
+/**
+ * Routes sends across several providers by weight, skipping providers that
+ * are unhealthy, rate limited or whose circuit breaker is open, and failing
+ * over to the next provider when a send fails for provider-side reasons.
+ *
+ * Routes with weight 0 are standby providers: they only receive traffic when
+ * every weighted provider is unavailable.
+ */
+export class ProviderRouter implements EmailProvider {
+  name = "Router";
+  private routes: RouteEntry[];
+  private healthCheckIntervalMs: number;
+
+  constructor(routes: ProviderRoute[], options: ProviderRouterOptions = {}) {
+    if (routes.length === 0) {
+      throw new Error("At least one provider route is required");
+    }
+
+    this.healthCheckIntervalMs = options.healthCheckIntervalMs ?? 60000;
+    this.routes = routes.map((route) => {
+      const weight = route.weight ?? 1;
+      if (weight < 0) {
+        throw new Error(
+          `Provider weight must not be negative: ${route.provider.name}`
+        );
+      }
+
+      return {
+        provider: route.provider,
+        circuitBreaker: {
+          ...DEFAULT_CIRCUIT_BREAKER,
+          ...options.circuitBreaker,
+          ...route.circuitBreaker,
+        },
+        state: {
+          provider: route.provider.name,
+          weight,
+          healthy: true,
+          circuit: "closed",
+          consecutiveFailures: 0,
+          totalSent: 0,
+          totalFailed: 0,
+        },
+      };
+    });
+  }
+
+  async sendEmail(message: EmailMessage): Promise<EmailSendResult> {
+    const skipped: ProviderSkip[] = [];
+    const attempted: string[] = [];
+    let lastError: EmailProviderError | undefined;
+
+    for (const route of this.orderRoutes()) {
+      const unavailableReason = await this.checkAvailability(route);
+      if (unavailableReason) {
+        skipped.push({ provider: route.state.provider, reason: unavailableReason });
+        continue;
+      }
+
+      attempted.push(route.state.provider);
+
+      try {
+        const result = await route.provider.sendEmail(message);
+        this.recordSuccess(route);
+
+        return {
+          ...result,
+          provider: route.state.provider,
+          routing: {
+            provider: route.state.provider,
+            attempted,
+            failedOver: skipped.length > 0,
+            failoverReason: skipped[0]?.reason,
+            skipped,
+          },
+        };
+      } catch (error) {
+        lastError = error as EmailProviderError;
+        route.state.totalFailed++;
+
+        if (!this.shouldFailover(lastError)) {
+          // Message-level failures would fail on any provider, and they show
+          // the provider itself is reachable
+          this.closeCircuit(route);
+          throw lastError;
+        }
+
+        const reason: FailoverReason =
+          lastError.code === "RATE_LIMIT_EXCEEDED"
+            ? "rate_limited"
+            : "provider_error";
+        if (reason === "provider_error") {
+          this.recordFailure(route);
+        } else {
+          this.releaseHalfOpen(route);
+        }
+
+        skipped.push({
+          provider: route.state.provider,
+          reason,
+          error: lastError.message,
+        });
+      }
+    }
+
+    throw this.createExhaustedError(skipped, lastError);
+  }
+
+  /**
+   * Message IDs are provider specific; status lookups go to the primary provider.
+   */
+  async getEmailStatus(messageId: string): Promise<EmailStatus> {
+    return await this.routes[0].provider.getEmailStatus(messageId);
+  }
+
+  async processWebhook(
+    payload: JsonValue,
+    signature?: string
+  ): Promise<WebhookEvent> {
+    const route =
+      (signature &&
+        this.routes.find((r) =>
+          r.provider.verifyWebhookSignature(payload, signature)
+        )) ||
+      this.routes[0];
+
+    return await route.provider.processWebhook(payload, signature);
+  }
+
+  verifyWebhookSignature(payload: JsonValue, signature: string): boolean {
+    return this.routes.some((route) =>
+      route.provider.verifyWebhookSignature(payload, signature)
+    );
+  }
+
+  async checkRateLimit(): Promise<RateLimitInfo> {
+    const limits = await Promise.all(
+      this.routes.map((route) => route.provider.checkRateLimit())
+    );
+
+    return {
+      remaining: limits.reduce((sum, info) => sum + info.remaining, 0),
+      limit: limits.reduce((sum, info) => sum + info.limit, 0),
+      resetTime: new Date(
+        Math.min(...limits.map((info) => info.resetTime.getTime()))
+      ),
+    };
+  }
+
+  async validateTemplate(template: EmailTemplate): Promise<boolean> {
+    return await this.routes[0].provider.validateTemplate(template);
+  }
+
+  async renderTemplate(
+    template: EmailTemplate
+  ): Promise<{ subject: string; html: string; text: string }> {
+    return await this.routes[0].provider.renderTemplate(template);
+  }
+
+  async getProviderStats(): Promise<ProviderApiResponse> {
+    return {
+      status: 200,
+      statusText: "OK",
+      headers: {},
+      data: {
+        provider: this.name,
+        routes: this.getRouteStates().map((state) => ({
+          provider: state.provider,
+          weight: state.weight,
+          healthy: state.healthy,
+          circuit: state.circuit,
+          consecutiveFailures: state.consecutiveFailures,
+          openedAt: state.openedAt?.toISOString() || null,
+          lastHealthCheck: state.lastHealthCheck?.toISOString() || null,
+          totalSent: state.totalSent,
+          totalFailed: state.totalFailed,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Refresh health of every provider; healthy if at least one can send.
+   */
+  async healthCheck(): Promise<boolean> {
+    await Promise.all(this.routes.map((route) => this.refreshHealth(route)));
+    return this.routes.some(
+      (route) => route.state.healthy && route.state.circuit !== "open"
+    );
+  }
+
+  getRouteStates(): ProviderRouteState[] {
+    return this.routes.map((route) => ({ ...route.state }));
+  }
+
+  // Private methods
+
+  /**
+   * Weighted random order for active routes, followed by standby routes in
+   * the order they were configured.
+   */
+  private orderRoutes(): RouteEntry[] {
+    const pool = this.routes.filter((route) => route.state.weight > 0);
+    const standby = this.routes.filter((route) => route.state.weight === 0);
+    const ordered: RouteEntry[] = [];
+
+    while (pool.length > 0) {
+      const totalWeight = pool.reduce((sum, r) => sum + r.state.weight, 0);
+      let pick = Math.random() * totalWeight;
+      let index = 0;
+
+      while (index < pool.length - 1 && pick >= pool[index].state.weight) {
+        pick -= pool[index].state.weight;
+        index++;
+      }
+
+      ordered.push(pool.splice(index, 1)[0]);
+    }
+
+    return [...ordered, ...standby];
+  }
+
+  private async checkAvailability(
+    route: RouteEntry
+  ): Promise<FailoverReason | null> {
+    await this.refreshHealthIfStale(route);
+    if (!route.state.healthy) {
+      return "unhealthy";
+    }
+
+    if (route.state.circuit === "open") {
+      const openFor = Date.now() - (route.state.openedAt?.getTime() || 0);
+      if (openFor < route.circuitBreaker.resetTimeoutMs) {
+        return "circuit_open";
+      }
+      // Let a single trial request through
+      route.state.circuit = "half_open";
+    } else if (route.state.circuit === "half_open") {
+      // A trial request is already in flight
+      return "circuit_open";
+    }
+
+    const rateLimit = await route.provider.checkRateLimit();
+    if (rateLimit.remaining <= 0) {
+      this.releaseHalfOpen(route);
+      return "rate_limited";
+    }
+
+    return null;
+  }
+
+  private async refreshHealthIfStale(route: RouteEntry): Promise<void> {
+    if (this.healthCheckIntervalMs <= 0 || !route.provider.healthCheck) {
+      return;
+    }
+
+    const lastCheck = route.state.lastHealthCheck?.getTime() || 0;
+    if (Date.now() - lastCheck >= this.healthCheckIntervalMs) {
+      await this.refreshHealth(route);
+    }
+  }
+
+  private async refreshHealth(route: RouteEntry): Promise<void> {
+    if (!route.provider.healthCheck) {
+      return;
+    }
+
+    try {
+      route.state.healthy = await route.provider.healthCheck();
+    } catch (error) {
+      route.state.healthy = false;
+    }
+    route.state.lastHealthCheck = new Date();
+  }
+
+  /**
+   * Fail over on transient, connectivity and credential problems. Errors
+   * about the message itself are returned to the caller unchanged.
+   */
+  private shouldFailover(error: EmailProviderError): boolean {
+    if (error.retryable) {
+      return true;
+    }
+
+    if (error.statusCode === undefined) {
+      return true;
+    }
+
+    return error.statusCode === 401 || error.statusCode === 403;
+  }
+
+  private recordSuccess(route: RouteEntry): void {
+    route.state.totalSent++;
+    this.closeCircuit(route);
+  }
+
+  private closeCircuit(route: RouteEntry): void {
+    route.state.consecutiveFailures = 0;
+    route.state.circuit = "closed";
+    route.state.openedAt = undefined;
+  }
+
+  private recordFailure(route: RouteEntry): void {
+    route.state.consecutiveFailures++;
+
+    if (
+      route.state.circuit === "half_open" ||
+      route.state.consecutiveFailures >= route.circuitBreaker.failureThreshold
+    ) {
+      route.state.circuit = "open";
+      route.state.openedAt = new Date();
+    }
+  }
+
+  private releaseHalfOpen(route: RouteEntry): void {
+    // The trial said nothing about provider health; allow another one later
+    if (route.state.circuit === "half_open") {
+      route.state.circuit = "open";
+    }
+  }
+
+  private createExhaustedError(
+    skipped: ProviderSkip[],
+    lastError?: EmailProviderError
+  ): EmailProviderError {
+    const summary = skipped
+      .map((skip) =>
+        skip.error
+          ? `${skip.provider} (${skip.reason}: ${skip.error})`
+          : `${skip.provider} (${skip.reason})`
+      )
+      .join(", ");
+
+    const allRateLimited = skipped.every((skip) => skip.reason === "rate_limited");
+    const error = new Error(
+      `All email providers failed: ${summary}`
+    ) as EmailProviderError;
+
+    if (allRateLimited) {
+      error.code = "RATE_LIMIT_EXCEEDED";
+      error.statusCode = 429;
+      error.retryable = true;
+    } else {
+      error.code = "ALL_PROVIDERS_FAILED";
+      error.statusCode = 503;
+      error.retryable =
+        skipped.some((skip) => skip.reason !== "provider_error") ||
+        Boolean(lastError?.retryable);
+    }
+    error.providerResponse = lastError?.providerResponse;
+
+    return error;
+  }
+}
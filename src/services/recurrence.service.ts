@@ -0,0 +1,13 @@
+// Shared with the campaign-scheduler edge function
+export {
+  getNextOccurrence,
+  getNextRunAt,
+  parseCronExpression,
+  parseRRule,
+  parseSchedule,
+} from "../../supabase/functions/_shared/scheduling";
+export type {
+  LocalDay,
+  RecurrenceDefinition,
+  RecurrenceRule,
+} from "../../supabase/functions/_shared/scheduling";
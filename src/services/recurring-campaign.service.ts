@@ -0,0 +1,181 @@
+import { supabase } from "../config/supabase";
+import {
+  CreateRecurringCampaign,
+  RecurringCampaign,
+  RecurringCampaignRun,
+  UUID,
+} from "../types/email-system";
+import { getNextRunAt, parseSchedule } from "./recurrence.service";
+import { isValidTimeZone, parseLocalTime } from "./send-time.service";
+
+/**
+ * Recurring campaigns are definitions that the campaign-scheduler edge
+ * function turns into a child email_campaigns row on each occurrence of their
+ * cron or RRULE schedule, refreshing dynamic segments first. Runs keep their
+ * own stats and link back through recurring_campaign_id.
+ */
+export class RecurringCampaignService {
+  async createRecurringCampaign(
+    input: CreateRecurringCampaign,
+    now: Date = new Date()
+  ): Promise<RecurringCampaign> {
+    const definition = {
+      ...input,
+      timezone: input.timezone || "UTC",
+      starts_at: input.starts_at || now.toISOString(),
+    };
+
+    const errors = validateRecurringCampaign(definition);
+    if (errors.length > 0) {
+      throw new Error(`Recurring campaign validation failed: ${errors.join(", ")}`);
+    }
+
+    const nextRunAt = getNextRunAt(definition, now);
+    if (!nextRunAt) {
+      throw new Error("Recurring campaign schedule has no upcoming runs");
+    }
+
+    const { data, error } = await supabase
+      .from("recurring_campaigns")
+      .insert({ ...definition, next_run_at: nextRunAt.toISOString() })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create recurring campaign: ${error.message}`);
+    }
+
+    return data as RecurringCampaign;
+  }
+
+  async getRecurringCampaign(id: UUID): Promise<RecurringCampaign | null> {
+    const { data, error } = await supabase
+      .from("recurring_campaigns")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to get recurring campaign: ${error.message}`);
+    }
+
+    return data as RecurringCampaign;
+  }
+
+  /**
+   * Stop spawning runs. Runs already spawned are not affected.
+   */
+  async pauseRecurringCampaign(id: UUID): Promise<void> {
+    const { error } = await supabase
+      .from("recurring_campaigns")
+      .update({ status: "paused", updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("status", "active");
+
+    if (error) {
+      throw new Error(`Failed to pause recurring campaign: ${error.message}`);
+    }
+  }
+
+  /**
+   * Resume from the next occurrence after now; occurrences missed while
+   * paused are skipped
+   */
+  async resumeRecurringCampaign(
+    id: UUID,
+    now: Date = new Date()
+  ): Promise<RecurringCampaign> {
+    const recurring = await this.getRecurringCampaign(id);
+    if (!recurring) {
+      throw new Error(`Recurring campaign not found: ${id}`);
+    }
+    if (recurring.status !== "paused") {
+      throw new Error(
+        `Recurring campaign cannot be resumed. Status: ${recurring.status}`
+      );
+    }
+
+    const nextRunAt = getNextRunAt(recurring, now, recurring.run_count);
+    const { data, error } = await supabase
+      .from("recurring_campaigns")
+      .update({
+        status: nextRunAt ? "active" : "ended",
+        next_run_at: nextRunAt?.toISOString() ?? null,
+        updated_at: now.toISOString(),
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to resume recurring campaign: ${error.message}`);
+    }
+
+    return data as RecurringCampaign;
+  }
+
+  /**
+   * Spawned runs with their stats, latest first
+   */
+  async getRuns(id: UUID): Promise<RecurringCampaignRun[]> {
+    const { data, error } = await supabase.rpc("get_recurring_campaign_runs", {
+      p_recurring_campaign_id: id,
+    });
+
+    if (error) {
+      throw new Error(`Failed to get recurring campaign runs: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
+
+export function validateRecurringCampaign(
+  input: CreateRecurringCampaign
+): string[] {
+  const errors: string[] = [];
+
+  if (!input.name?.trim()) {
+    errors.push("name is required");
+  }
+  if (input.schedule_type !== "cron" && input.schedule_type !== "rrule") {
+    errors.push("schedule_type must be cron or rrule");
+  }
+  if (input.timezone && !isValidTimeZone(input.timezone)) {
+    errors.push(`unknown timezone ${input.timezone}`);
+  }
+  if (input.starts_at && Number.isNaN(Date.parse(input.starts_at))) {
+    errors.push("starts_at must be a date");
+  }
+  if (
+    input.ends_at &&
+    (Number.isNaN(Date.parse(input.ends_at)) ||
+      (input.starts_at && Date.parse(input.ends_at) <= Date.parse(input.starts_at)))
+  ) {
+    errors.push("ends_at must be a date after starts_at");
+  }
+  if (input.local_send_time) {
+    try {
+      parseLocalTime(input.local_send_time);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+  if (errors.length === 0) {
+    try {
+      parseSchedule({
+        schedule_type: input.schedule_type,
+        schedule_expression: input.schedule_expression,
+        timezone: input.timezone || "UTC",
+        starts_at: input.starts_at || new Date().toISOString(),
+      });
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+
+  return errors;
+}
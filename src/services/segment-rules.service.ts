@@ -0,0 +1,310 @@
+import { JsonValue } from "../types/email-provider";
+import {
+  CustomField,
+  CustomFieldType,
+  SegmentContactField,
+  SegmentEngagementEvent,
+  SegmentFilterCriteria,
+  SegmentRule,
+  SegmentRuleOperator,
+} from "../types/email-system";
+import { validateCustomFieldValue } from "./custom-field.service";
+
+// Limits keep compiled filters to a size Postgres plans quickly
+export const MAX_SEGMENT_RULE_DEPTH = 8;
+export const MAX_SEGMENT_RULE_CONDITIONS = 50;
+
+const TEXT_OPERATORS: SegmentRuleOperator[] = [
+  "equals",
+  "not_equals",
+  "contains",
+  "starts_with",
+  "ends_with",
+  "in",
+  "exists",
+];
+const COMPARISON_OPERATORS: SegmentRuleOperator[] = [
+  "greater_than",
+  "greater_or_equal",
+  "less_than",
+  "less_or_equal",
+];
+
+// Mirrors the whitelist in compile_segment_rule
+export const SEGMENT_FIELD_OPERATORS: Record<SegmentContactField, SegmentRuleOperator[]> = {
+  email: TEXT_OPERATORS,
+  first_name: TEXT_OPERATORS,
+  last_name: TEXT_OPERATORS,
+  status: TEXT_OPERATORS,
+  timezone: TEXT_OPERATORS,
+  created_at: [...COMPARISON_OPERATORS, "within_days", "exists"],
+  updated_at: [...COMPARISON_OPERATORS, "within_days", "exists"],
+};
+export const SEGMENT_METADATA_OPERATORS: SegmentRuleOperator[] = [
+  ...TEXT_OPERATORS,
+  ...COMPARISON_OPERATORS,
+];
+export const SEGMENT_CUSTOM_FIELD_OPERATORS: Record<CustomFieldType, SegmentRuleOperator[]> = {
+  string: TEXT_OPERATORS,
+  number: ["equals", "not_equals", ...COMPARISON_OPERATORS, "exists"],
+  boolean: ["equals", "exists"],
+  date: ["equals", "not_equals", ...COMPARISON_OPERATORS, "exists"],
+  enum: ["equals", "not_equals", "in", "exists"],
+  multi_select: ["contains", "in", "exists"],
+};
+export const SEGMENT_ENGAGEMENT_EVENTS: SegmentEngagementEvent[] = ["sent", "opened", "clicked"];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const METADATA_PATH_PATTERN = /^[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*$/;
+
+/**
+ * Validate a segment's filter criteria. Rules are compiled to SQL inside
+ * Postgres, which rejects anything outside its whitelist as well; checking
+ * here reports every problem at once, with the position of each rule.
+ * custom_field conditions are checked against customFields.
+ */
+export function validateSegmentFilterCriteria(
+  criteria: SegmentFilterCriteria,
+  customFields: CustomField[] = []
+): string[] {
+  const errors: string[] = [];
+
+  if (criteria.created_after !== undefined && Number.isNaN(Date.parse(criteria.created_after))) {
+    errors.push(`created_after is not a valid date: ${criteria.created_after}`);
+  }
+  if (criteria.rule !== undefined) {
+    errors.push(...validateSegmentRule(criteria.rule, customFields));
+  }
+
+  return errors;
+}
+
+export function validateSegmentRule(rule: SegmentRule, customFields: CustomField[] = []): string[] {
+  const errors: string[] = [];
+  const conditions = visitRule(rule, "rule", 1, errors, customFields);
+
+  if (conditions > MAX_SEGMENT_RULE_CONDITIONS) {
+    errors.push(`rule has ${conditions} conditions; the limit is ${MAX_SEGMENT_RULE_CONDITIONS}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Whether the rule has custom_field conditions, which need the field
+ * definitions to validate
+ */
+export function usesCustomFields(criteria: SegmentFilterCriteria): boolean {
+  const visit = (rule: SegmentRule | undefined): boolean => {
+    if (!rule || typeof rule !== "object") {
+      return false;
+    }
+    switch (rule.type) {
+      case "and":
+      case "or":
+        return Array.isArray(rule.rules) && rule.rules.some(visit);
+      case "not":
+        return visit(rule.rule);
+      default:
+        return rule.type === "custom_field";
+    }
+  };
+  return visit(criteria.rule);
+}
+
+/**
+ * Collect errors for the rule at path and return how many conditions it
+ * contains
+ */
+function visitRule(
+  rule: SegmentRule,
+  path: string,
+  depth: number,
+  errors: string[],
+  customFields: CustomField[]
+): number {
+  if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+    errors.push(`${path}: must be an object`);
+    return 0;
+  }
+  if (depth > MAX_SEGMENT_RULE_DEPTH) {
+    errors.push(`${path}: rules nest deeper than ${MAX_SEGMENT_RULE_DEPTH} levels`);
+    return 0;
+  }
+
+  switch (rule.type) {
+    case "and":
+    case "or": {
+      if (!Array.isArray(rule.rules)) {
+        errors.push(`${path}: ${rule.type} needs a rules array`);
+        return 0;
+      }
+      return rule.rules.reduce(
+        (count, child, index) => count + visitRule(child, `${path}.rules.${index}`, depth + 1, errors, customFields),
+        0
+      );
+    }
+    case "not":
+      return visitRule(rule.rule, `${path}.rule`, depth + 1, errors, customFields);
+    case "field": {
+      const operators = SEGMENT_FIELD_OPERATORS[rule.field];
+      if (!operators) {
+        errors.push(`${path}: unknown field ${rule.field}`);
+      } else if (!operators.includes(rule.operator)) {
+        errors.push(`${path}: operator ${rule.operator} is not supported for ${rule.field}`);
+      } else if (operators === TEXT_OPERATORS) {
+        checkTextValue(rule.operator, rule.value, path, errors);
+      } else {
+        checkDateValue(rule.operator, rule.value, path, errors);
+      }
+      return 1;
+    }
+    case "metadata":
+      if (typeof rule.path !== "string" || !METADATA_PATH_PATTERN.test(rule.path)) {
+        errors.push(`${path}: invalid metadata path: ${rule.path}`);
+      }
+      if (!SEGMENT_METADATA_OPERATORS.includes(rule.operator)) {
+        errors.push(`${path}: operator ${rule.operator} is not supported for metadata`);
+      } else {
+        checkMetadataValue(rule.operator, rule.value, path, errors);
+      }
+      return 1;
+    case "custom_field": {
+      const field = customFields.find((candidate) => candidate.key === rule.field);
+      if (!field) {
+        errors.push(`${path}: unknown custom field ${rule.field}`);
+      } else if (!SEGMENT_CUSTOM_FIELD_OPERATORS[field.type].includes(rule.operator)) {
+        errors.push(`${path}: operator ${rule.operator} is not supported for ${field.type} fields`);
+      } else {
+        checkCustomFieldValue(field, rule.operator, rule.value, path, errors);
+      }
+      return 1;
+    }
+    case "in_list":
+      checkUuid(rule.list_id, `${path}.list_id`, errors);
+      return 1;
+    case "in_segment":
+      checkUuid(rule.segment_id, `${path}.segment_id`, errors);
+      return 1;
+    case "engagement":
+      if (!SEGMENT_ENGAGEMENT_EVENTS.includes(rule.event)) {
+        errors.push(`${path}: event must be one of ${SEGMENT_ENGAGEMENT_EVENTS.join(", ")}`);
+      }
+      if (rule.within_days !== undefined) {
+        checkPositiveInteger(rule.within_days, `${path}.within_days`, errors);
+      }
+      if (rule.min_count !== undefined) {
+        checkPositiveInteger(rule.min_count, `${path}.min_count`, errors);
+      }
+      if (rule.campaign_id !== undefined) {
+        checkUuid(rule.campaign_id, `${path}.campaign_id`, errors);
+      }
+      return 1;
+    default:
+      errors.push(`${path}: unknown rule type ${(rule as { type?: unknown }).type}`);
+      return 0;
+  }
+}
+
+function checkTextValue(
+  operator: SegmentRuleOperator,
+  value: JsonValue | undefined,
+  path: string,
+  errors: string[]
+): void {
+  if (operator === "exists") {
+    return;
+  }
+  if (operator === "in") {
+    if (!Array.isArray(value) || value.length === 0 || !value.every((item) => typeof item === "string")) {
+      errors.push(`${path}: in needs a non-empty array of strings`);
+    }
+    return;
+  }
+  if (typeof value !== "string") {
+    errors.push(`${path}: ${operator} needs a string value`);
+  }
+}
+
+function checkDateValue(
+  operator: SegmentRuleOperator,
+  value: JsonValue | undefined,
+  path: string,
+  errors: string[]
+): void {
+  if (operator === "exists") {
+    return;
+  }
+  if (operator === "within_days") {
+    checkPositiveInteger(value, `${path}.value`, errors);
+    return;
+  }
+  if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+    errors.push(`${path}: ${operator} needs an ISO date value`);
+  }
+}
+
+function checkMetadataValue(
+  operator: SegmentRuleOperator,
+  value: JsonValue | undefined,
+  path: string,
+  errors: string[]
+): void {
+  if (operator === "exists") {
+    return;
+  }
+  if (value === undefined) {
+    errors.push(`${path}: ${operator} needs a value`);
+  } else if (operator === "in" && (!Array.isArray(value) || value.length === 0)) {
+    errors.push(`${path}: in needs a non-empty array`);
+  } else if (
+    COMPARISON_OPERATORS.includes(operator) &&
+    typeof value !== "number" &&
+    typeof value !== "string"
+  ) {
+    errors.push(`${path}: ${operator} needs a number or string value`);
+  } else if (
+    (operator === "starts_with" || operator === "ends_with") &&
+    typeof value !== "string"
+  ) {
+    errors.push(`${path}: ${operator} needs a string value`);
+  }
+}
+
+function checkCustomFieldValue(
+  field: CustomField,
+  operator: SegmentRuleOperator,
+  value: JsonValue | undefined,
+  path: string,
+  errors: string[]
+): void {
+  if (operator === "exists") {
+    return;
+  }
+  // Multi-select conditions compare single options
+  const item = field.type === "multi_select" ? { ...field, type: "enum" as const } : field;
+  const values = operator === "in" ? value : [value];
+  if (!Array.isArray(values) || values.length === 0) {
+    errors.push(`${path}: in needs a non-empty array`);
+    return;
+  }
+  for (const candidate of values) {
+    const error = candidate === undefined ? "is required" : validateCustomFieldValue(item, candidate);
+    if (error) {
+      errors.push(`${path}: value ${error}`);
+      return;
+    }
+  }
+}
+
+function checkUuid(value: unknown, path: string, errors: string[]): void {
+  if (typeof value !== "string" || !UUID_PATTERN.test(value)) {
+    errors.push(`${path}: must be a UUID`);
+  }
+}
+
+function checkPositiveInteger(value: unknown, path: string, errors: string[]): void {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    errors.push(`${path}: must be a positive integer`);
+  }
+}
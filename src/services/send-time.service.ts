@@ -0,0 +1,110 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "../config/supabase";
+import {
+  getTimeZoneOffset,
+  isValidTimeZone,
+  nextLocalTime,
+  parseLocalTime,
+  planSendTimes,
+  resolveTimeZone,
+  SendTimeRecipient,
+  zonedTimeToUtc,
+} from "../../supabase/functions/_shared/scheduling";
+import { DeliveryMode, EmailCampaign } from "../types/email-system";
+
+export type { SendTimeRecipient };
+export {
+  getTimeZoneOffset,
+  isValidTimeZone,
+  nextLocalTime,
+  parseLocalTime,
+  resolveTimeZone,
+  zonedTimeToUtc,
+};
+
+export interface SendTimeOptions {
+  // Timezone for contacts without a valid one
+  defaultTimeZone: string;
+  // Engagements a contact needs before their best hour is trusted
+  minEngagements: number;
+}
+
+export type SendTimeCampaign = Pick<EmailCampaign, "scheduled_at"> & {
+  delivery_mode?: DeliveryMode;
+  local_send_time?: string;
+};
+
+/**
+ * Works out each recipient's email_queue.scheduled_at for a campaign:
+ * immediately, at local_send_time in the contact's timezone, or at the local
+ * hour the contact has engaged most. The campaign-scheduler edge function
+ * shares planSendTimes with it.
+ */
+export class SendTimeService {
+  private client: SupabaseClient;
+  private options: SendTimeOptions;
+
+  constructor(
+    client: SupabaseClient = supabase,
+    options: Partial<SendTimeOptions> = {}
+  ) {
+    this.client = client;
+    this.options = {
+      defaultTimeZone: resolveTimeZone(
+        options.defaultTimeZone || process.env.DEFAULT_CONTACT_TIMEZONE,
+        "UTC"
+      ),
+      minEngagements: options.minEngagements ?? 3,
+    };
+  }
+
+  /**
+   * Scheduled send time per contact id. Delivery starts at the campaign's
+   * scheduled_at (or now), and every contact is sent within the next day.
+   */
+  async scheduleRecipients(
+    campaign: SendTimeCampaign,
+    recipients: SendTimeRecipient[],
+    now: Date = new Date()
+  ): Promise<Map<string, Date>> {
+    const bestHours =
+      campaign.delivery_mode === "optimized"
+        ? await this.getBestSendHours(recipients.map((r) => r.contactId))
+        : new Map<string, number>();
+
+    return planSendTimes(
+      campaign,
+      recipients,
+      bestHours,
+      this.options.defaultTimeZone,
+      now
+    );
+  }
+
+  /**
+   * Local hour each contact opens or clicks most; contacts without enough
+   * history are left out
+   */
+  async getBestSendHours(contactIds: string[]): Promise<Map<string, number>> {
+    if (contactIds.length === 0) {
+      return new Map();
+    }
+
+    const { data, error } = await this.client.rpc("get_contact_send_hours", {
+      p_contact_ids: contactIds,
+      p_default_timezone: this.options.defaultTimeZone,
+      p_min_events: this.options.minEngagements,
+    });
+
+    if (error) {
+      throw new Error(`Failed to get contact send hours: ${error.message}`);
+    }
+
+    return new Map(
+      (data || []).map((row: { contact_id: string; best_hour: number }) => [
+        row.contact_id,
+        row.best_hour,
+      ])
+    );
+  }
+}
@@ -0,0 +1,318 @@
+import { supabase } from "../config/supabase";
+import { SuppressionChecker } from "../types/email-provider";
+import {
+  CreateSuppression,
+  SuppressionEntry,
+  SuppressionImportResult,
+  SuppressionReason,
+} from "../types/email-system";
+import { formatCsv, parseCsvRecords } from "./csv.service";
+
+export const SUPPRESSION_REASONS: SuppressionReason[] = [
+  "hard_bounce",
+  "soft_bounce",
+  "complaint",
+  "manual",
+  "legal",
+];
+
+// Reasons that can be given an expiry; the others suppress permanently
+const EXPIRING_REASONS: SuppressionReason[] = ["soft_bounce", "manual"];
+
+// Column order of exports; imports accept the columns in any order
+export const SUPPRESSION_CSV_COLUMNS = [
+  "email",
+  "domain",
+  "reason",
+  "source",
+  "notes",
+  "expires_at",
+  "created_at",
+] as const;
+
+const WRITE_BATCH_SIZE = 500;
+const READ_PAGE_SIZE = 1000;
+
+export interface SuppressionListOptions {
+  reason?: SuppressionReason;
+  includeExpired?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * The global suppression list. process_email_queue, email-processor,
+ * EmailService and transactional sends all refuse suppressed addresses,
+ * so an entry here outranks contact status and transactional bypass
+ * categories.
+ */
+export class SuppressionService implements SuppressionChecker {
+  /**
+   * Suppress an address or domain, replacing any entry for it
+   */
+  async addSuppression(input: CreateSuppression): Promise<SuppressionEntry> {
+    const entry = normalizeSuppression(input);
+
+    const errors = validateSuppression(entry);
+    if (errors.length > 0) {
+      throw new Error(`Suppression validation failed: ${errors.join(", ")}`);
+    }
+
+    const { data, error } = await supabase
+      .from("suppression_list")
+      .upsert(toRow(entry), { onConflict: entry.email ? "email" : "domain" })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to add suppression: ${error.message}`);
+    }
+
+    return data as SuppressionEntry;
+  }
+
+  /**
+   * Lift the suppression of an address, or of a domain when target has no @.
+   * Returns false when there was none.
+   */
+  async removeSuppression(target: string): Promise<boolean> {
+    const { email, domain } = normalizeSuppression(
+      target.includes("@")
+        ? { email: target, reason: "manual" }
+        : { domain: target, reason: "manual" }
+    );
+
+    const { data, error } = await supabase
+      .from("suppression_list")
+      .delete()
+      .eq(email ? "email" : "domain", email || domain)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to remove suppression: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Reason of the active entry for the address or its domain, or null
+   */
+  async getSuppressionReason(email: string): Promise<string | null> {
+    const { data, error } = await supabase.rpc("get_suppression_reason", {
+      p_email: email,
+    });
+
+    if (error) {
+      throw new Error(`Failed to check suppression: ${error.message}`);
+    }
+
+    return (data as string | null) || null;
+  }
+
+  /**
+   * Reasons of the suppressed addresses among emails, by lowercased address
+   */
+  async getSuppressionReasons(emails: string[]): Promise<Map<string, string>> {
+    if (emails.length === 0) {
+      return new Map();
+    }
+
+    const { data, error } = await supabase.rpc("get_suppression_reasons", {
+      p_emails: emails,
+    });
+
+    if (error) {
+      throw new Error(`Failed to check suppression: ${error.message}`);
+    }
+
+    return new Map(
+      ((data || []) as { email: string; reason: string }[]).map((row) => [
+        row.email,
+        row.reason,
+      ])
+    );
+  }
+
+  async isSuppressed(email: string): Promise<boolean> {
+    return (await this.getSuppressionReason(email)) !== null;
+  }
+
+  async listSuppressions(
+    options: SuppressionListOptions = {}
+  ): Promise<SuppressionEntry[]> {
+    const limit = options.limit || 100;
+    const offset = options.offset || 0;
+
+    let query = supabase
+      .from("suppression_list")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (options.reason) {
+      query = query.eq("reason", options.reason);
+    }
+    if (!options.includeExpired) {
+      query = query.or(
+        `expires_at.is.null,expires_at.gt.${new Date().toISOString()}`
+      );
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list suppressions: ${error.message}`);
+    }
+
+    return (data || []) as SuppressionEntry[];
+  }
+
+  /**
+   * Import an email/domain CSV. Rows without a reason column use
+   * defaults.reason (manual when unset). Invalid rows are skipped and
+   * reported; valid rows replace existing entries for the same target.
+   */
+  async importCsv(
+    csv: string,
+    defaults: { reason?: SuppressionReason; source?: string } = {}
+  ): Promise<SuppressionImportResult> {
+    const { entries, errors } = parseSuppressionCsv(csv, {
+      reason: defaults.reason,
+      source: defaults.source || "csv_import",
+    });
+
+    let imported = 0;
+    for (const column of ["email", "domain"] as const) {
+      const rows = entries.filter((entry) => entry[column]).map(toRow);
+
+      for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+        const { data, error } = await supabase
+          .from("suppression_list")
+          .upsert(rows.slice(i, i + WRITE_BATCH_SIZE), { onConflict: column })
+          .select("id");
+
+        if (error) {
+          throw new Error(`Failed to import suppressions: ${error.message}`);
+        }
+
+        imported += (data || []).length;
+      }
+    }
+
+    return { imported, errors };
+  }
+
+  async exportCsv(options: { includeExpired?: boolean } = {}): Promise<string> {
+    const entries: SuppressionEntry[] = [];
+
+    for (let offset = 0; ; offset += READ_PAGE_SIZE) {
+      const page = await this.listSuppressions({
+        includeExpired: options.includeExpired,
+        limit: READ_PAGE_SIZE,
+        offset,
+      });
+      entries.push(...page);
+      if (page.length < READ_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return formatSuppressionCsv(entries);
+  }
+}
+
+/**
+ * Lowercase and trim the target; domains may be given as "@example.com"
+ */
+export function normalizeSuppression(input: CreateSuppression): CreateSuppression {
+  const email = input.email?.trim().toLowerCase() || undefined;
+  const domain = input.domain?.trim().toLowerCase().replace(/^@/, "") || undefined;
+  const notes = input.notes?.trim() || undefined;
+  const expires_at = input.expires_at?.trim() || undefined;
+
+  return { ...input, email, domain, notes, expires_at };
+}
+
+export function validateSuppression(input: CreateSuppression): string[] {
+  const errors: string[] = [];
+
+  if (!input.email === !input.domain) {
+    errors.push("set either email or domain");
+  }
+  if (input.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.email)) {
+    errors.push(`invalid email: ${input.email}`);
+  }
+  if (input.domain && !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(input.domain)) {
+    errors.push(`invalid domain: ${input.domain}`);
+  }
+  if (!SUPPRESSION_REASONS.includes(input.reason)) {
+    errors.push(`reason must be one of ${SUPPRESSION_REASONS.join(", ")}`);
+  }
+  if (input.expires_at) {
+    if (Number.isNaN(new Date(input.expires_at).getTime())) {
+      errors.push(`invalid expires_at: ${input.expires_at}`);
+    } else if (!EXPIRING_REASONS.includes(input.reason)) {
+      errors.push(`${input.reason} suppressions cannot expire`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate a suppression CSV with a header row. Later rows for
+ * the same target replace earlier ones.
+ */
+export function parseSuppressionCsv(
+  csv: string,
+  defaults: { reason?: SuppressionReason; source?: string } = {}
+): { entries: CreateSuppression[]; errors: string[] } {
+  const records = parseCsvRecords(csv);
+  if (records.length > 0 && !("email" in records[0]) && !("domain" in records[0])) {
+    return { entries: [], errors: ["CSV needs an email or domain column"] };
+  }
+
+  const entries = new Map<string, CreateSuppression>();
+  const errors: string[] = [];
+
+  records.forEach((record, index) => {
+    const entry = normalizeSuppression({
+      email: record.email,
+      domain: record.domain,
+      reason: (record.reason || defaults.reason || "manual") as SuppressionReason,
+      source: record.source || defaults.source,
+      notes: record.notes,
+      expires_at: record.expires_at,
+    });
+
+    const rowErrors = validateSuppression(entry);
+    if (rowErrors.length > 0) {
+      errors.push(`row ${index + 1}: ${rowErrors.join(", ")}`);
+      return;
+    }
+
+    entries.set(entry.email ? `email:${entry.email}` : `domain:${entry.domain}`, entry);
+  });
+
+  return { entries: [...entries.values()], errors };
+}
+
+export function formatSuppressionCsv(entries: SuppressionEntry[]): string {
+  return formatCsv([
+    [...SUPPRESSION_CSV_COLUMNS],
+    ...entries.map((entry) => SUPPRESSION_CSV_COLUMNS.map((column) => entry[column])),
+  ]);
+}
+
+function toRow(entry: CreateSuppression): Record<string, unknown> {
+  return {
+    email: entry.email ?? null,
+    domain: entry.domain ?? null,
+    reason: entry.reason,
+    source: entry.source || "manual",
+    notes: entry.notes ?? null,
+    expires_at: entry.expires_at ?? null,
+    updated_at: new Date().toISOString(),
+  };
+}
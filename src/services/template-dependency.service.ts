@@ -0,0 +1,96 @@
+import Handlebars from "handlebars";
+import { TemplatePartial } from "../types/email-system";
+
+/**
+ * Key of a partial or layout in dependency lists, e.g. "partial:footer"
+ */
+export function templateDependencyKey(
+  type: TemplatePartial["type"],
+  name: string
+): string {
+  return `${type}:${name}`;
+}
+
+/**
+ * Partials and layouts referenced by the given contents, following
+ * references inside the partials and layouts that getSource knows as well.
+ */
+export function resolveTemplateDependencies(
+  contents: Array<string | undefined>,
+  getSource: (key: string) => string | undefined
+): string[] {
+  const resolved = new Set<string>();
+  const pending = contents.flatMap((content) =>
+    content ? findDirectDependencies(content) : []
+  );
+
+  while (pending.length > 0) {
+    const key = pending.pop()!;
+    if (resolved.has(key)) {
+      continue;
+    }
+    resolved.add(key);
+
+    const source = getSource(key);
+    if (source) {
+      pending.push(...findDirectDependencies(source));
+    }
+  }
+
+  return [...resolved];
+}
+
+function findDirectDependencies(content: string): string[] {
+  let program: hbs.AST.Program;
+  try {
+    program = Handlebars.parse(content);
+  } catch {
+    // Syntax errors are reported by template validation
+    return [];
+  }
+
+  const found = new Set<string>();
+  const visit = (node: hbs.AST.Node | undefined): void => {
+    if (!node) {
+      return;
+    }
+
+    switch (node.type) {
+      case "Program":
+        (node as hbs.AST.Program).body.forEach(visit);
+        break;
+      case "PartialStatement":
+      case "PartialBlockStatement": {
+        const partial = node as hbs.AST.PartialBlockStatement;
+        const name = (partial.name as hbs.AST.PathExpression).original;
+        // Dynamic partials and @partial-block cannot be resolved statically
+        if (partial.name.type === "PathExpression" && !name.startsWith("@")) {
+          found.add(templateDependencyKey("partial", name));
+        }
+        visit(partial.program);
+        break;
+      }
+      case "BlockStatement": {
+        const block = node as hbs.AST.BlockStatement;
+        const [layoutName] = block.params;
+        if (
+          block.path.original === "layout" &&
+          layoutName?.type === "StringLiteral"
+        ) {
+          found.add(
+            templateDependencyKey(
+              "layout",
+              (layoutName as hbs.AST.StringLiteral).value
+            )
+          );
+        }
+        visit(block.program);
+        visit(block.inverse);
+        break;
+      }
+    }
+  };
+
+  visit(program);
+  return [...found];
+}
@@ -0,0 +1,161 @@
+import { JsonValue } from "../types/email-provider";
+import {
+  EmailTemplateVersion,
+  TemplateDiffLine,
+  TemplateFieldDiff,
+  TemplateVersionDiff,
+  TemplateVersionField,
+} from "../types/email-system";
+
+const DIFF_FIELDS: TemplateVersionField[] = [
+  "source_type",
+  "subject",
+  "html_content",
+  "text_content",
+  "variables",
+  "locales",
+];
+
+// Above this many LCS cells the changed middle section is reported as a
+// plain remove/add block instead of a line-level diff
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line-level diff of the content fields of two versions of the same template
+ */
+export function diffTemplateVersions(
+  from: EmailTemplateVersion,
+  to: EmailTemplateVersion
+): TemplateVersionDiff {
+  if (from.template_id !== to.template_id) {
+    throw new Error("Cannot diff versions of different templates");
+  }
+
+  const fields = DIFF_FIELDS.map((field): TemplateFieldDiff => {
+    const lines = diffLines(fieldLines(from, field), fieldLines(to, field));
+    return {
+      field,
+      changed: lines.some((line) => line.op !== "equal"),
+      lines,
+    };
+  });
+
+  return {
+    template_id: from.template_id,
+    from_version: from.version_number,
+    to_version: to.version_number,
+    changed: fields.some((field) => field.changed),
+    fields,
+  };
+}
+
+export function diffLines(before: string[], after: string[]): TemplateDiffLine[] {
+  // Common prefix and suffix are cheap to strip and usually cover most lines
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    before[start] === after[start]
+  ) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const equal = (value: string): TemplateDiffLine => ({ op: "equal", value });
+  const middle = diffMiddle(
+    before.slice(start, before.length - end),
+    after.slice(start, after.length - end)
+  );
+
+  return [
+    ...before.slice(0, start).map(equal),
+    ...middle,
+    ...before.slice(before.length - end).map(equal),
+  ];
+}
+
+function diffMiddle(before: string[], after: string[]): TemplateDiffLine[] {
+  const removeAll = before.map((value): TemplateDiffLine => ({ op: "remove", value }));
+  const addAll = after.map((value): TemplateDiffLine => ({ op: "add", value }));
+
+  if (
+    before.length === 0 ||
+    after.length === 0 ||
+    before.length * after.length > MAX_LCS_CELLS
+  ) {
+    return [...removeAll, ...addAll];
+  }
+
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths: Uint32Array[] = Array.from(
+    { length: before.length + 1 },
+    () => new Uint32Array(after.length + 1)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: TemplateDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      result.push({ op: "equal", value: before[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ op: "remove", value: before[i++] });
+    } else {
+      result.push({ op: "add", value: after[j++] });
+    }
+  }
+
+  return [...result, ...removeAll.slice(i), ...addAll.slice(j)];
+}
+
+function fieldLines(
+  version: EmailTemplateVersion,
+  field: TemplateVersionField
+): string[] {
+  if (field === "variables") {
+    return stableStringify(version.variables || {}).split("\n");
+  }
+  if (field === "locales") {
+    return stableStringify((version.locales || {}) as JsonValue).split("\n");
+  }
+
+  const value = version[field];
+  return value ? value.split(/\r\n|\r|\n/) : [];
+}
+
+// Sorted keys so reordering variables does not show up as a change
+function stableStringify(value: JsonValue): string {
+  const sort = (input: JsonValue): JsonValue => {
+    if (Array.isArray(input)) {
+      return input.map(sort);
+    }
+    if (input && typeof input === "object") {
+      return Object.fromEntries(
+        Object.keys(input)
+          .sort()
+          .map((key) => [key, sort(input[key])])
+      );
+    }
+    return input;
+  };
+
+  return JSON.stringify(sort(value), null, 2);
+}
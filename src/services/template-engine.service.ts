@@ -1,30 +1,59 @@
 import crypto from "crypto";
 import Handlebars from "handlebars";
 import { convert } from "html-to-text";
+import mjml2html from "mjml";
 import { v4 as uuidv4 } from "uuid";
 
 import DOMPurify from "dompurify";
-import { EmailTemplate } from "../types/email-system";
+import {
+  EmailTemplate,
+  TemplateLocaleVariant,
+  TemplatePartial,
+} from "../types/email-system";
 import {
     CompiledTemplate,
+    CustomFieldSource,
     RenderResult,
     TemplateCache,
     TemplateContext,
     TemplateEngine,
     TemplateEngineConfig,
     TemplateEngineStats,
+    TemplatePostprocessor,
     TemplateValidationError,
     TemplateValidationResult,
     TemplateValidationWarning,
     TemplateVariable,
 } from "../types/template-engine";
+import {
+  checkCssCompatibility,
+  CssInliningPostprocessor,
+} from "./css-inliner.service";
+import { customFieldTemplateVariable } from "./custom-field.service";
+import {
+  getLocaleFallbackChain,
+  normalizeLocale,
+  resolveContactLocale,
+  selectTemplateLocale,
+} from "./locale.service";
+import {
+  resolveTemplateDependencies,
+  templateDependencyKey,
+} from "./template-dependency.service";
 import { SupabaseTemplateStorage } from "./template-storage.service";
-import { TrackingUrlService } from "./tracking-url.service";
+import {
+  rewriteTrackableLinks,
+  TrackingUrlService,
+} from "./tracking-url.service";
+
+// How long partials loaded from storage are trusted before re-reading them
+const DEFAULT_PARTIALS_REFRESH_INTERVAL_MS = 60 * 1000;
 
 // In-memory cache implementation with proper LRU eviction
 class MemoryTemplateCache implements TemplateCache {
   private cache = new Map<string, CompiledTemplate>();
   private accessOrder = new Map<string, number>(); // Track access order for LRU
+  private dependents = new Map<string, Set<string>>(); // Partial/layout key -> template ids
   private maxSize: number;
   private maxMemoryBytes: number;
   private currentMemoryBytes: number = 0;
@@ -85,6 +114,13 @@ class MemoryTemplateCache implements TemplateCache {
     this.accessOrder.set(templateId, ++this.accessCounter);
     this.currentMemoryBytes += templateSize;
 
+    for (const dependency of template.dependencies || []) {
+      if (!this.dependents.has(dependency)) {
+        this.dependents.set(dependency, new Set());
+      }
+      this.dependents.get(dependency)!.add(templateId);
+    }
+
     // Log memory usage if approaching limits
     if (this.currentMemoryBytes > this.maxMemoryBytes * 0.8) {
       console.warn(`Template cache memory usage high: ${Math.round(this.currentMemoryBytes / 1024 / 1024)}MB / ${Math.round(this.maxMemoryBytes / 1024 / 1024)}MB`);
@@ -97,12 +133,27 @@ class MemoryTemplateCache implements TemplateCache {
       this.currentMemoryBytes -= this.calculateTemplateSize(template);
       this.cache.delete(templateId);
       this.accessOrder.delete(templateId);
+
+      for (const dependency of template.dependencies || []) {
+        const ids = this.dependents.get(dependency);
+        ids?.delete(templateId);
+        if (ids?.size === 0) {
+          this.dependents.delete(dependency);
+        }
+      }
     }
   }
 
+  invalidateDependents(dependency: string): string[] {
+    const templateIds = [...(this.dependents.get(dependency) || [])];
+    templateIds.forEach((templateId) => this.invalidate(templateId));
+    return templateIds;
+  }
+
   clear(): void {
     this.cache.clear();
     this.accessOrder.clear();
+    this.dependents.clear();
     this.currentMemoryBytes = 0;
     this.accessCounter = 0;
   }
@@ -162,6 +213,15 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
   private cache: TemplateCache;
   private config: TemplateEngineConfig;
   private stats: TemplateEngineStats;
+  // Registered partial and layout sources, keyed by templateDependencyKey()
+  private partialSources = new Map<string, string>();
+  private layouts = new Map<string, HandlebarsTemplateDelegate>();
+  // Keys registered by loadPartials(), and when storage was last read
+  private storedPartials = new Set<string>();
+  private partialsLoadedAt?: number;
+  private partialsRefresh?: Promise<void>;
+  private postprocessors: TemplatePostprocessor[] = [];
+  private customFieldSource?: CustomFieldSource;
 
   constructor(
     storage: SupabaseTemplateStorage,
@@ -198,6 +258,7 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
           "or",
           "not",
           "lookup",
+          "layout",
         ],
         blockedHelpers: ["eval", "exec", "require"],
       },
@@ -222,6 +283,11 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
         allowStyleTags: true,
         sanitizeHtml: true,
       },
+      postprocessing: {
+        inlineCss: true,
+        preserveMediaQueries: true,
+        clientFamilies: ["gmail", "outlook", "apple_mail", "yahoo"],
+      },
       ...config,
     };
 
@@ -237,6 +303,26 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
     };
 
     this.setupHandlebarsHelpers();
+
+    if (this.config.postprocessing.inlineCss) {
+      this.postprocessors.push(
+        new CssInliningPostprocessor(this.config.postprocessing)
+      );
+    }
+  }
+
+  /**
+   * Register a step that runs on every render result, after tracking
+   */
+  addPostprocessor(postprocessor: TemplatePostprocessor): void {
+    this.postprocessors.push(postprocessor);
+  }
+
+  /**
+   * Type-check custom field variables on render against these definitions
+   */
+  setCustomFieldSource(source: CustomFieldSource): void {
+    this.customFieldSource = source;
   }
 
   /**
@@ -361,6 +447,8 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
   }
 
   async loadTemplate(templateId: string): Promise<CompiledTemplate> {
+    await this.refreshStalePartials();
+
     // Check cache first
     const cached = this.cache.get(templateId);
     if (cached) {
@@ -380,15 +468,81 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
     return compiled;
   }
 
+  /**
+   * Load an immutable template version. Cached under its own key so the
+   * published template and older versions can coexist in the cache.
+   */
+  async loadTemplateVersion(versionId: string): Promise<CompiledTemplate> {
+    await this.refreshStalePartials();
+
+    const cacheKey = `version:${versionId}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const version = await this.storage.getVersion(versionId);
+    if (!version) {
+      throw new Error(`Template version not found: ${versionId}`);
+    }
+
+    const template = await this.storage.getTemplate(version.template_id);
+    const compiled = await this.compileTemplate({
+      id: version.template_id,
+      name: template?.name || `Version ${version.version_number}`,
+      subject: version.subject,
+      source_type: version.source_type,
+      html_content: version.html_content,
+      text_content: version.text_content,
+      variables: version.variables,
+      default_locale: template?.default_locale,
+      locales: version.locales,
+      created_at: version.created_at,
+      updated_at: version.created_at,
+    });
+    this.cache.set(cacheKey, compiled);
+
+    return compiled;
+  }
+
   async renderTemplate(
     templateId: string,
     context: TemplateContext
+  ): Promise<RenderResult> {
+    return this.renderCompiled(() => this.loadTemplate(templateId), context);
+  }
+
+  /**
+   * Render the exact version a campaign was sent with, e.g. to re-render
+   * historical email_logs
+   */
+  async renderTemplateVersion(
+    versionId: string,
+    context: TemplateContext
+  ): Promise<RenderResult> {
+    return this.renderCompiled(
+      () => this.loadTemplateVersion(versionId),
+      context
+    );
+  }
+
+  private async renderCompiled(
+    load: () => Promise<CompiledTemplate>,
+    context: TemplateContext
   ): Promise<RenderResult> {
     const startTime = Date.now();
     this.stats.rendering.total_renders++;
 
     try {
-      const compiledTemplate = await this.loadTemplate(templateId);
+      const compiledTemplate = await load();
+      const templateId = compiledTemplate.id;
+
+      // Locale variant for the contact: pt-BR -> pt -> default content
+      const contactLocale = resolveContactLocale(context.contact);
+      const variantLocale = selectTemplateLocale(compiledTemplate, contactLocale);
+      const content = variantLocale
+        ? compiledTemplate.locales![variantLocale]
+        : compiledTemplate;
 
       // Validate context has required variables
       await this.validateContextVariables(compiledTemplate, context);
@@ -397,16 +551,20 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
       const sanitizedContext = this.sanitizeContext(context);
 
       // Enhance context with system variables
-      const enhancedContext = this.enhanceContext(sanitizedContext, templateId);
+      const enhancedContext = this.enhanceContext(
+        sanitizedContext,
+        templateId,
+        contactLocale ?? compiledTemplate.default_locale
+      );
 
       // Render subject
-      const subjectTemplate = this.handlebars.compile(compiledTemplate.subject);
+      const subjectTemplate = this.handlebars.compile(content.subject);
       const renderedSubject = subjectTemplate(enhancedContext);
 
       // Render HTML
       let renderedHtml = "";
-      if (compiledTemplate.html) {
-        const htmlTemplate = this.handlebars.compile(compiledTemplate.html);
+      if (content.html) {
+        const htmlTemplate = this.handlebars.compile(content.html);
         renderedHtml = htmlTemplate(enhancedContext);
         
         // Apply additional HTML sanitization to the final output
@@ -421,17 +579,14 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
 
       // Render or generate text
       let renderedText = "";
-      if (compiledTemplate.text) {
-        const textTemplate = this.handlebars.compile(compiledTemplate.text);
+      if (content.text) {
+        const textTemplate = this.handlebars.compile(content.text);
         renderedText = textTemplate(enhancedContext);
       } else if (renderedHtml) {
         renderedText = this.generateTextFromHtml(renderedHtml);
       }
 
-      const renderTime = Date.now() - startTime;
-      this.updateRenderingStats(renderTime, true);
-
-      return {
+      let result: RenderResult = {
         subject: renderedSubject,
         html: renderedHtml,
         text: renderedText,
@@ -444,6 +599,7 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
           template_id: templateId,
           contact_id: context.contact.id,
           campaign_id: context.campaign?.id,
+          locale: variantLocale ?? compiledTemplate.default_locale,
           rendered_at: new Date(),
           variables_used: this.extractUsedVariables(
             compiledTemplate,
@@ -451,6 +607,15 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
           ),
         },
       };
+
+      for (const postprocessor of this.postprocessors) {
+        result = await postprocessor.process(result, context);
+      }
+
+      const renderTime = Date.now() - startTime;
+      this.updateRenderingStats(renderTime, true);
+
+      return result;
     } catch (error) {
       const renderTime = Date.now() - startTime;
       this.updateRenderingStats(renderTime, false);
@@ -514,6 +679,41 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
         variables.push(...syntaxValidation.variables);
       }
 
+      // MJML validation
+      if (template.source_type === "mjml" && template.html_content) {
+        errors.push(...this.compileMjml(template.html_content).errors);
+      }
+
+      // Locale variants
+      if (
+        template.default_locale !== undefined &&
+        normalizeLocale(template.default_locale) !== template.default_locale
+      ) {
+        errors.push({
+          type: "compilation",
+          message: `Invalid default locale "${template.default_locale}"`,
+        });
+      }
+      for (const [locale, variant] of Object.entries(template.locales || {})) {
+        const localeValidation = this.validateLocaleVariant(
+          template,
+          locale,
+          variant
+        );
+        errors.push(...localeValidation.errors);
+        variables.push(...localeValidation.variables);
+      }
+
+      // Email client CSS support
+      if (template.html_content) {
+        warnings.push(
+          ...checkCssCompatibility(
+            template.html_content,
+            this.config.postprocessing.clientFamilies
+          )
+        );
+      }
+
       // Security validation
       if (this.config.validation.enableSecurityCheck) {
         const securityValidation = this.validateSecurity(template);
@@ -527,6 +727,7 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
         errors.forEach((error) => {
           switch (error.type) {
             case "syntax":
+            case "mjml":
               this.stats.validation.syntax_errors++;
               break;
             case "missing_variable":
@@ -570,11 +771,22 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
       throw new Error(`Template compilation failed: ${errorMessages}`);
     }
 
+    const localized = Object.keys(template.locales || {}).map(
+      (locale) => [locale, this.localizeTemplate(template, locale)] as const
+    );
+    const dependencies = this.resolveDependencies(
+      [template, ...localized.map(([, variant]) => variant)].flatMap(
+        (source) => [source.subject, source.html_content, source.text_content]
+      )
+    );
+
     // Generate template hash for cache invalidation
     const content = [
       template.subject,
       template.html_content,
       template.text_content,
+      ...(localized.length > 0 ? [JSON.stringify(template.locales)] : []),
+      ...dependencies.map((key) => this.partialSources.get(key)),
     ].join("|");
     const templateHash = crypto.createHash("md5").update(content).digest("hex");
 
@@ -582,11 +794,24 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
       id: template.id,
       name: template.name,
       subject: template.subject,
-      html: template.html_content || "",
+      html: this.resolveHtmlSource(template),
       text: template.text_content || "",
+      source_type: template.source_type || "html",
       variables: validation.variables,
       compiled_at: new Date(),
       template_hash: templateHash,
+      dependencies,
+      default_locale: template.default_locale,
+      locales: Object.fromEntries(
+        localized.map(([locale, variant]) => [
+          locale,
+          {
+            subject: variant.subject,
+            html: this.resolveHtmlSource(variant),
+            text: variant.text_content || "",
+          },
+        ])
+      ),
     };
   }
 
@@ -624,8 +849,9 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
       id: `preview-${uuidv4()}`,
       name: template.name,
       subject: template.subject,
-      html: template.html_content || "",
+      html: this.resolveHtmlSource(template),
       text: template.text_content || "",
+      source_type: template.source_type || "html",
       variables,
       compiled_at: new Date(),
       template_hash: "preview",
@@ -737,6 +963,96 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
     this.cache.clear();
   }
 
+  /**
+   * Register every partial and layout from storage on the engine and drop
+   * those deleted from storage since the last load. Once loaded, storage is
+   * read again after partials.refreshIntervalMs so edits saved by other
+   * processes reach this engine's cache.
+   */
+  async loadPartials(): Promise<void> {
+    const partials = await this.storage.listPartials();
+    const keys = new Set(
+      partials.map((partial) => templateDependencyKey(partial.type, partial.name))
+    );
+
+    for (const key of this.storedPartials) {
+      if (!keys.has(key)) {
+        const [type, name] = key.split(":");
+        this.unregisterPartial(name, type as TemplatePartial["type"]);
+      }
+    }
+
+    partials.forEach((partial) => this.registerPartial(partial));
+    this.storedPartials = keys;
+    this.partialsLoadedAt = Date.now();
+  }
+
+  /**
+   * Register a partial ({{> name}}) or layout ({{#layout "name"}}).
+   * Changing the content of an existing entry invalidates every cached
+   * template that depends on it; the ids of those templates are returned.
+   */
+  registerPartial(
+    partial: Pick<TemplatePartial, "name" | "type" | "content">
+  ): string[] {
+    this.assertValidPartial(partial);
+
+    const key = templateDependencyKey(partial.type, partial.name);
+    const previous = this.partialSources.get(key);
+    this.partialSources.set(key, partial.content);
+
+    if (partial.type === "layout") {
+      this.layouts.set(partial.name, this.handlebars.compile(partial.content));
+    } else {
+      this.handlebars.registerPartial(partial.name, partial.content);
+    }
+
+    return previous === partial.content
+      ? []
+      : this.cache.invalidateDependents(key);
+  }
+
+  unregisterPartial(
+    name: string,
+    type: TemplatePartial["type"] = "partial"
+  ): string[] {
+    const key = templateDependencyKey(type, name);
+    if (!this.partialSources.delete(key)) {
+      return [];
+    }
+
+    if (type === "layout") {
+      this.layouts.delete(name);
+    } else {
+      this.handlebars.unregisterPartial(name);
+    }
+
+    return this.cache.invalidateDependents(key);
+  }
+
+  /**
+   * Persist a partial or layout and register the new content
+   */
+  async savePartial(
+    partial: Pick<TemplatePartial, "name" | "type" | "content"> &
+      Partial<TemplatePartial>
+  ): Promise<TemplatePartial> {
+    // Reject broken content before it reaches the database
+    this.assertValidPartial(partial);
+
+    const saved = await this.storage.savePartial(partial);
+    this.registerPartial(saved);
+    return saved;
+  }
+
+  async deletePartial(
+    name: string,
+    type: TemplatePartial["type"] = "partial"
+  ): Promise<void> {
+    await this.storage.deletePartial(name, type);
+    this.unregisterPartial(name, type);
+  }
+
   // Private helper methods
 
   private setupHandlebarsHelpers(): void {
@@ -749,12 +1065,20 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
     this.handlebars.registerHelper("or", (a, b) => a || b);
     this.handlebars.registerHelper("not", (a) => !a);
 
-    // Date formatting helper
-    this.handlebars.registerHelper("formatDate", (date, format) => {
+    // Locale-aware formatting helpers. Handlebars passes its options last,
+    // and system.locale on the root context selects the locale.
+    const helperLocale = (
+      options: Handlebars.HelperOptions
+    ): string | undefined => options?.data?.root?.system?.locale;
+
+    this.handlebars.registerHelper("formatDate", (date, ...args) => {
+      const options = args.pop() as Handlebars.HelperOptions;
+      const [format] = args;
+      const locale = helperLocale(options);
       const d = new Date(date);
-      if (format === "short") return d.toLocaleDateString();
+      if (format === "short") return d.toLocaleDateString(locale);
       if (format === "long")
-        return d.toLocaleDateString("en-US", {
+        return d.toLocaleDateString(locale || "en-US", {
           year: "numeric",
           month: "long",
           day: "numeric",
@@ -762,6 +1086,34 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
       return d.toISOString();
     });
 
+    this.handlebars.registerHelper("formatNumber", (value, ...args) => {
+      const options = args.pop() as Handlebars.HelperOptions;
+      const [decimals] = args;
+      const number = Number(value);
+      if (value === null || value === undefined || !Number.isFinite(number)) {
+        return "";
+      }
+      return new Intl.NumberFormat(
+        helperLocale(options),
+        typeof decimals === "number"
+          ? { minimumFractionDigits: decimals, maximumFractionDigits: decimals }
+          : undefined
+      ).format(number);
+    });
+
+    this.handlebars.registerHelper("formatCurrency", (value, ...args) => {
+      const options = args.pop() as Handlebars.HelperOptions;
+      const [currency] = args;
+      const number = Number(value);
+      if (value === null || value === undefined || !Number.isFinite(number)) {
+        return "";
+      }
+      return new Intl.NumberFormat(helperLocale(options), {
+        style: "currency",
+        currency: typeof currency === "string" ? currency : "USD",
+      }).format(number);
+    });
+
     // Capitalization helpers
     this.handlebars.registerHelper("capitalize", (str) => {
       if (!str) return "";
@@ -781,6 +1133,29 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
       "default",
       (value, defaultValue) => value || defaultValue
     );
+
+    // Layout helper: {{#layout "brand"}}...{{/layout}} renders the block
+    // inside the named layout, which places it with {{{body}}}
+    const layouts = this.layouts;
+    const handlebars = this.handlebars;
+    this.handlebars.registerHelper(
+      "layout",
+      function (
+        this: object,
+        name: string,
+        options: Handlebars.HelperOptions
+      ): Handlebars.SafeString {
+        const layout = layouts.get(name);
+        if (!layout) {
+          throw new Error(`Layout not found: ${name}`);
+        }
+
+        const body = new handlebars.SafeString(options.fn(this));
+        return new handlebars.SafeString(
+          layout({ ...this, body }, { data: options.data })
+        );
+      }
+    );
   }
 
   private validateHandlebarsSyntax(template: EmailTemplate): {
@@ -817,9 +1192,209 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
       }
     });
 
+    const dependencies = this.resolveDependencies(
+      contents.map(({ content }) => content)
+    );
+    dependencies
+      .filter((key) => !this.partialSources.has(key))
+      .forEach((key) => {
+        const [kind, name] = key.split(":");
+        errors.push({
+          type: "missing_partial",
+          message: `${kind === "layout" ? "Layout" : "Partial"} "${name}" is not registered`,
+          context: name,
+        });
+      });
+
     return { errors, warnings, variables };
   }
 
+  /**
+   * The template as seen by a locale: each field comes from the most
+   * specific variant in the fallback chain that sets it (pt-BR, then pt),
+   * otherwise from the default content
+   */
+  private localizeTemplate(template: EmailTemplate, locale: string): EmailTemplate {
+    const variants = getLocaleFallbackChain(locale)
+      .map((candidate) => template.locales?.[candidate])
+      .filter((variant): variant is TemplateLocaleVariant => !!variant);
+    const pick = <K extends keyof TemplateLocaleVariant>(
+      field: K
+    ): TemplateLocaleVariant[K] | undefined =>
+      variants.find((variant) => variant[field] !== undefined)?.[field];
+
+    return {
+      ...template,
+      subject: pick("subject") ?? template.subject,
+      html_content: pick("html_content") ?? template.html_content,
+      // Localized HTML without localized text: generate text from the HTML
+      // rather than sending the default-language text
+      text_content:
+        pick("text_content") ??
+        (pick("html_content") !== undefined ? undefined : template.text_content),
+    };
+  }
+
+  private validateLocaleVariant(
+    template: EmailTemplate,
+    locale: string,
+    variant: TemplateLocaleVariant
+  ): { errors: TemplateValidationError[]; variables: TemplateVariable[] } {
+    const errors: TemplateValidationError[] = [];
+
+    if (normalizeLocale(locale) !== locale) {
+      errors.push({
+        type: "compilation",
+        message: `Invalid locale "${locale}"; use a BCP 47 tag such as "pt-BR"`,
+        context: locale,
+      });
+    }
+
+    const htmlSize = variant.html_content?.length || 0;
+    if (htmlSize > this.config.security.maxTemplateSize) {
+      errors.push({
+        type: "security",
+        message: `HTML content for locale ${locale} exceeds maximum size limit (${this.config.security.maxTemplateSize} bytes)`,
+        context: locale,
+      });
+    }
+
+    // Only the overridden fields need checking; the rest is the default content
+    const overrides: EmailTemplate = {
+      ...template,
+      subject: variant.subject ?? "",
+      html_content: variant.html_content,
+      text_content: variant.text_content,
+    };
+    const syntaxValidation = this.config.validation.enableSyntaxCheck
+      ? this.validateHandlebarsSyntax(overrides)
+      : { errors: [], variables: [] };
+    const mjmlErrors =
+      template.source_type === "mjml" && variant.html_content
+        ? this.compileMjml(variant.html_content).errors
+        : [];
+
+    errors.push(
+      ...[...syntaxValidation.errors, ...mjmlErrors].map((error) => ({
+        ...error,
+        message: `Locale ${locale}: ${error.message}`,
+      }))
+    );
+
+    return { errors, variables: syntaxValidation.variables };
+  }
+
+  /**
+   * HTML that Handlebars compiles for a template: the MJML output for MJML
+   * sources, otherwise html_content as-is
+   */
+  private resolveHtmlSource(template: EmailTemplate): string {
+    if (template.source_type !== "mjml" || !template.html_content) {
+      return template.html_content || "";
+    }
+
+    const { html, errors } = this.compileMjml(template.html_content);
+    if (errors.length > 0) {
+      throw new Error(
+        `MJML compilation failed: ${errors.map((e) => e.message).join(", ")}`
+      );
+    }
+    return html;
+  }
+
+  /**
+   * Compile MJML to HTML. Handlebars expressions pass through as text, so
+   * blocks that wrap whole sections or columns must sit inside <mj-raw>.
+   */
+  private compileMjml(source: string): {
+    html: string;
+    errors: TemplateValidationError[];
+  } {
+    try {
+      const result = mjml2html(source, {
+        validationLevel: "soft",
+        // mj-include reads from the local filesystem
+        ignoreIncludes: true,
+        keepComments: false,
+      });
+      const lines = source.split(/\r\n|\r|\n/);
+
+      return {
+        html: result.html,
+        errors: result.errors.map((error) => {
+          // MJML only reports lines; point at the offending tag when possible
+          const column = lines[error.line - 1]?.indexOf(`<${error.tagName}`);
+          return {
+            type: "mjml",
+            message: `MJML error in html: ${error.message}`,
+            line: error.line,
+            column: column !== undefined && column >= 0 ? column + 1 : undefined,
+            context: error.tagName,
+          };
+        }),
+      };
+    } catch (error) {
+      return {
+        html: "",
+        errors: [
+          {
+            type: "mjml",
+            message: `MJML error in html: ${error instanceof Error ? error.message : error}`,
+          },
+        ],
+      };
+    }
+  }
+
+  private async refreshStalePartials(): Promise<void> {
+    const interval =
+      this.config.partials?.refreshIntervalMs ??
+      DEFAULT_PARTIALS_REFRESH_INTERVAL_MS;
+    if (
+      this.partialsLoadedAt === undefined ||
+      Date.now() - this.partialsLoadedAt < interval
+    ) {
+      return;
+    }
+
+    // Concurrent renders share one storage read
+    if (!this.partialsRefresh) {
+      this.partialsRefresh = this.loadPartials()
+        .catch((error) => {
+          // Keep serving the loaded partials and retry after another interval
+          console.warn(`Failed to refresh template partials: ${error}`);
+          this.partialsLoadedAt = Date.now();
+        })
+        .finally(() => {
+          this.partialsRefresh = undefined;
+        });
+    }
+    await this.partialsRefresh;
+  }
+
+  private assertValidPartial(
+    partial: Pick<TemplatePartial, "name" | "type" | "content">
+  ): void {
+    if (!/^[A-Za-z0-9_-]+$/.test(partial.name)) {
+      throw new Error(`Invalid ${partial.type} name: ${partial.name}`);
+    }
+
+    try {
+      this.handlebars.parse(partial.content);
+    } catch (error) {
+      throw new Error(
+        `Handlebars syntax error in ${partial.type} ${partial.name}: ${error}`
+      );
+    }
+  }
+
+  // Partials and layouts used by the contents, directly or transitively
+  private resolveDependencies(contents: Array<string | undefined>): string[] {
+    return resolveTemplateDependencies(contents, (key) =>
+      this.partialSources.get(key)
+    );
+  }
+
   private validateSecurity(template: EmailTemplate): {
     errors: TemplateValidationError[];
     warnings: TemplateValidationWarning[];
@@ -898,15 +1473,25 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
     return { errors, warnings };
   }
 
-  private enhanceContext(context: TemplateContext, templateId: string): any {
+  private enhanceContext(
+    context: TemplateContext,
+    templateId: string,
+    locale?: string
+  ): any {
     return {
       ...context,
+      contact: {
+        ...context.contact,
+        locale: resolveContactLocale(context.contact),
+      },
       system: {
         ...context.system,
+        locale,
         tracking_pixel_url: this.trackingService.generatePixelUrl(
           templateId,
           context.contact.id,
-          context.campaign?.id
+          context.campaign?.id,
+          context.queue_id
         ),
         unsubscribe_url: this.trackingService.generateUnsubscribeUrl(
           context.contact.id,
@@ -915,7 +1500,8 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
         view_in_browser_url: this.trackingService.generateViewInBrowserUrl(
           templateId,
           context.contact.id,
-          context.campaign?.id
+          context.campaign?.id,
+          context.queue_id
         ),
       },
     };
@@ -933,32 +1519,24 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
       const pixelHtml = this.trackingService.generateTrackingPixelHtml(
         templateId,
         context.contact.id,
-        context.campaign?.id
+        context.campaign?.id,
+        context.queue_id
       );
       processedHtml = processedHtml.replace("</body>", `${pixelHtml}</body>`);
     }
 
-    // Process click tracking
+    // Process click tracking; link ids let clicks be reported per link
     if (this.config.tracking.enableClickTracking) {
-      const linkPattern =
-        /<a\s+([^>]*href\s*=\s*["']?)([^"'\s>]+)(["']?[^>]*)>/gi;
-      processedHtml = processedHtml.replace(
-        linkPattern,
-        (match, prefix, url, suffix) => {
-          // Skip if already a tracking URL or anchor link
-          if (
-            url.startsWith("#") ||
-            url.includes("track.") ||
-            url.includes("unsubscribe")
-          ) {
-            return match;
-          }
-
+      processedHtml = rewriteTrackableLinks(
+        processedHtml,
+        (link, { prefix, suffix }) => {
           const trackingUrl = this.trackingService.generateClickTrackingUrl(
-            url,
+            link.href,
             templateId,
             context.contact.id,
-            context.campaign?.id
+            context.campaign?.id,
+            link.id,
+            context.queue_id
           );
 
           return `<a ${prefix}${trackingUrl}${suffix}>`;
@@ -1002,11 +1580,36 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
       }
     });
 
+    // Custom field variables take their type from the field definition
+    const invalidVariables: string[] = [];
+    const fields = this.customFieldSource
+      ? await this.customFieldSource.listFields()
+      : [];
+    for (const field of fields) {
+      const variable = customFieldTemplateVariable(field);
+      if (!template.variables.some((used) => used.name === variable.name)) {
+        continue;
+      }
+      const value = context.contact.metadata?.[field.key];
+      if (value === undefined || value === null || value === "") {
+        if (variable.required) {
+          missingVariables.push(variable.name);
+        }
+      } else if (!matchesTemplateVariableType(variable, value)) {
+        invalidVariables.push(`${variable.name} (expected ${variable.type})`);
+      }
+    }
+
     if (missingVariables.length > 0) {
       throw new Error(
         `Missing required variables: ${missingVariables.join(", ")}`
       );
     }
+    if (invalidVariables.length > 0) {
+      throw new Error(
+        `Invalid variable types: ${invalidVariables.join(", ")}`
+      );
+    }
   }
 
   private getVariableValue(
@@ -1072,10 +1675,12 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
       "#unless",
       "#each",
       "#with",
+      "#layout",
       "/if",
       "/unless",
       "/each",
       "/with",
+      "/layout",
     ];
     
     // Check for custom helpers
@@ -1084,6 +1689,8 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
       "upper",
       "lower",
       "formatDate",
+      "formatNumber",
+      "formatCurrency",
       "default",
       "eq",
       "ne",
@@ -1135,6 +1742,8 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
         return 42;
       case "boolean":
         return true;
+      case "array":
+        return variable.validation?.options?.slice(0, 1) || [`Sample ${variable.name}`];
       default:
         return `Sample ${variable.name}`;
     }
@@ -1157,3 +1766,35 @@ export class HandlebarsTemplateEngine implements TemplateEngine {
       totalRenders;
   }
 }
+
+/**
+ * Whether the value has the variable's type and, when set, one of its
+ * allowed options
+ */
+export function matchesTemplateVariableType(
+  variable: Pick<TemplateVariable, "type" | "validation">,
+  value: unknown
+): boolean {
+  const options = variable.validation?.options;
+  const isOption = (item: unknown): boolean =>
+    typeof item === "string" && (!options || options.includes(item));
+
+  switch (variable.type) {
+    case "string":
+      return isOption(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "date":
+      return typeof value === "string" && !Number.isNaN(Date.parse(value));
+    case "email":
+      return typeof value === "string" && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+    case "url":
+      return typeof value === "string" && /^https?:\/\/\S+$/.test(value);
+    case "array":
+      return Array.isArray(value) && value.every(isOption);
+    default:
+      return true;
+  }
+}
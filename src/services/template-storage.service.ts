@@ -1,9 +1,34 @@
+import crypto from "crypto";
 import { supabase } from "../config/supabase";
-import { EmailTemplate } from "../types/email-system";
+import {
+    EmailTemplate,
+    EmailTemplateVersion,
+    TemplatePartial,
+    TemplatePartialVersion,
+    TemplateVersionDiff,
+} from "../types/email-system";
 import {
     TemplateStorage,
     TemplateValidationResult,
 } from "../types/template-engine";
+import { DEFAULT_TEMPLATE_LOCALE } from "./locale.service";
+import {
+  resolveTemplateDependencies,
+  templateDependencyKey,
+} from "./template-dependency.service";
+import { diffTemplateVersions } from "./template-diff.service";
+
+// Fields captured by template versions; changing any of them creates a new version
+const VERSIONED_FIELDS = [
+  "source_type",
+  "subject",
+  "html_content",
+  "text_content",
+  "variables",
+  "locales",
+] as const;
+
+type TemplateContent = Pick<EmailTemplate, (typeof VERSIONED_FIELDS)[number]>;
 
 export class SupabaseTemplateStorage implements TemplateStorage {
   async getTemplate(templateId: string): Promise<EmailTemplate | null> {
@@ -57,9 +82,12 @@ export class SupabaseTemplateStorage implements TemplateStorage {
       const templateData = {
         name: template.name,
         subject: template.subject,
+        source_type: template.source_type || "html",
         html_content: template.html_content,
         text_content: template.text_content,
         variables: template.variables || {},
+        default_locale: template.default_locale || DEFAULT_TEMPLATE_LOCALE,
+        locales: template.locales || {},
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       };
@@ -74,20 +102,62 @@ export class SupabaseTemplateStorage implements TemplateStorage {
         throw new Error(`Failed to save template: ${error.message}`);
       }
 
-      return data as EmailTemplate;
+      // Every template starts with a published version 1
+      const published = await this.insertVersion(
+        data.id,
+        data as EmailTemplate,
+        "Initial version",
+        true
+      );
+
+      return { ...data, published_version_id: published.id } as EmailTemplate;
     } catch (error) {
       console.error("Error saving template:", error);
       throw error;
     }
   }
 
+  /**
+   * Update a template. Content changes are recorded as a new published
+   * version (publish_template_version mirrors it onto the row); other
+   * fields are updated in place.
+   */
   async updateTemplate(
     templateId: string,
     updates: Partial<EmailTemplate>
   ): Promise<EmailTemplate> {
     try {
+      const {
+        source_type,
+        subject,
+        html_content,
+        text_content,
+        variables,
+        locales,
+        ...metadata
+      } = updates;
+      const content: Partial<TemplateContent> = {
+        source_type,
+        subject,
+        html_content,
+        text_content,
+        variables,
+        locales,
+      };
+      // Only publish_template_version may move the published pointer
+      delete metadata.published_version_id;
+
+      if (VERSIONED_FIELDS.some((field) => content[field] !== undefined)) {
+        await this.insertVersion(
+          templateId,
+          await this.applyContentChanges(templateId, content),
+          undefined,
+          true
+        );
+      }
+
       const updateData = {
-        ...updates,
+        ...metadata,
         updated_at: new Date().toISOString(),
       };
 
@@ -151,6 +221,294 @@ export class SupabaseTemplateStorage implements TemplateStorage {
     }
   }
 
+  // Template versions
+
+  /**
+   * Create a draft version from the current template content with the
+   * given changes applied. Drafts do not affect sends until published.
+   */
+  async createDraftVersion(
+    templateId: string,
+    changes: Partial<TemplateContent>,
+    changeNote?: string
+  ): Promise<EmailTemplateVersion> {
+    return this.insertVersion(
+      templateId,
+      await this.applyContentChanges(templateId, changes),
+      changeNote
+    );
+  }
+
+  async publishVersion(versionId: string): Promise<EmailTemplateVersion> {
+    try {
+      const { data, error } = await supabase.rpc("publish_template_version", {
+        p_version_id: versionId,
+      });
+
+      if (error) {
+        throw new Error(`Failed to publish template version: ${error.message}`);
+      }
+
+      return data as EmailTemplateVersion;
+    } catch (error) {
+      console.error("Error publishing template version:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Publish a copy of an earlier version as a new version. History is
+   * never rewritten, so the rollback itself shows up in listVersions.
+   */
+  async rollbackToVersion(
+    templateId: string,
+    versionNumber: number,
+    changeNote?: string
+  ): Promise<EmailTemplateVersion> {
+    try {
+      const target = await this.getVersionByNumber(templateId, versionNumber);
+      if (!target) {
+        throw new Error(
+          `Template version ${versionNumber} not found for template ${templateId}`
+        );
+      }
+
+      // The restored content is snapshotted against the current partials
+      const partialVersions = await this.snapshotPartialVersions(target);
+      const { data, error } = await supabase.rpc("rollback_template_version", {
+        p_template_id: templateId,
+        p_version_number: versionNumber,
+        p_change_note: changeNote ?? null,
+        p_template_hash: this.computeTemplateHash(target, partialVersions),
+        p_partial_versions: partialVersions,
+      });
+
+      if (error) {
+        throw new Error(`Failed to roll back template: ${error.message}`);
+      }
+
+      return data as EmailTemplateVersion;
+    } catch (error) {
+      console.error("Error rolling back template:", error);
+      throw error;
+    }
+  }
+
+  async listVersions(templateId: string): Promise<EmailTemplateVersion[]> {
+    try {
+      const { data, error } = await supabase
+        .from("email_template_versions")
+        .select("*")
+        .eq("template_id", templateId)
+        .order("version_number", { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to list template versions: ${error.message}`);
+      }
+
+      return (data || []) as EmailTemplateVersion[];
+    } catch (error) {
+      console.error("Error listing template versions:", error);
+      throw error;
+    }
+  }
+
+  async getVersion(versionId: string): Promise<EmailTemplateVersion | null> {
+    try {
+      const { data, error } = await supabase
+        .from("email_template_versions")
+        .select("*")
+        .eq("id", versionId)
+        .single();
+
+      if (error) {
+        if (error.code === "PGRST116") {
+          // No rows returned
+          return null;
+        }
+        throw new Error(`Failed to get template version: ${error.message}`);
+      }
+
+      return data as EmailTemplateVersion;
+    } catch (error) {
+      console.error("Error getting template version:", error);
+      throw error;
+    }
+  }
+
+  async getVersionByNumber(
+    templateId: string,
+    versionNumber: number
+  ): Promise<EmailTemplateVersion | null> {
+    try {
+      const { data, error } = await supabase
+        .from("email_template_versions")
+        .select("*")
+        .eq("template_id", templateId)
+        .eq("version_number", versionNumber)
+        .single();
+
+      if (error) {
+        if (error.code === "PGRST116") {
+          // No rows returned
+          return null;
+        }
+        throw new Error(`Failed to get template version: ${error.message}`);
+      }
+
+      return data as EmailTemplateVersion;
+    } catch (error) {
+      console.error("Error getting template version:", error);
+      throw error;
+    }
+  }
+
+  async diffVersions(
+    templateId: string,
+    fromVersion: number,
+    toVersion: number
+  ): Promise<TemplateVersionDiff> {
+    const [from, to] = await Promise.all([
+      this.getVersionByNumber(templateId, fromVersion),
+      this.getVersionByNumber(templateId, toVersion),
+    ]);
+
+    if (!from || !to) {
+      throw new Error(
+        `Template version ${!from ? fromVersion : toVersion} not found for template ${templateId}`
+      );
+    }
+
+    return diffTemplateVersions(from, to);
+  }
+
+  /**
+   * Version a campaign was sent with, for re-rendering its email_logs
+   */
+  async getCampaignTemplateVersion(
+    campaignId: string
+  ): Promise<EmailTemplateVersion | null> {
+    try {
+      const { data, error } = await supabase
+        .from("email_campaigns")
+        .select("template_version_id")
+        .eq("id", campaignId)
+        .single();
+
+      if (error) {
+        if (error.code === "PGRST116") {
+          // No rows returned
+          return null;
+        }
+        throw new Error(`Failed to get campaign template version: ${error.message}`);
+      }
+
+      return data?.template_version_id
+        ? this.getVersion(data.template_version_id)
+        : null;
+    } catch (error) {
+      console.error("Error getting campaign template version:", error);
+      throw error;
+    }
+  }
+
+  async listPartials(): Promise<TemplatePartial[]> {
+    try {
+      const { data, error } = await supabase
+        .from("email_template_partials")
+        .select("*")
+        .order("name", { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to list template partials: ${error.message}`);
+      }
+
+      return (data || []) as TemplatePartial[];
+    } catch (error) {
+      console.error("Error listing template partials:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Content history of a partial or layout, newest first
+   */
+  async listPartialVersions(
+    name: string,
+    type: TemplatePartial["type"]
+  ): Promise<TemplatePartialVersion[]> {
+    try {
+      const { data, error } = await supabase
+        .from("email_template_partial_versions")
+        .select("*")
+        .eq("name", name)
+        .eq("type", type)
+        .order("version", { ascending: false });
+
+      if (error) {
+        throw new Error(
+          `Failed to list template partial versions: ${error.message}`
+        );
+      }
+
+      return (data || []) as TemplatePartialVersion[];
+    } catch (error) {
+      console.error("Error listing template partial versions:", error);
+      throw error;
+    }
+  }
+
+  async savePartial(
+    partial: Pick<TemplatePartial, "name" | "type" | "content"> &
+      Partial<TemplatePartial>
+  ): Promise<TemplatePartial> {
+    try {
+      const partialData = {
+        name: partial.name,
+        type: partial.type,
+        content: partial.content,
+        description: partial.description,
+        updated_at: new Date().toISOString(),
+      };
+
+      // Partials are addressed by (name, type), so saving an existing name edits it
+      const { data, error } = await supabase
+        .from("email_template_partials")
+        .upsert(partialData, { onConflict: "name,type" })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save template partial: ${error.message}`);
+      }
+
+      return data as TemplatePartial;
+    } catch (error) {
+      console.error("Error saving template partial:", error);
+      throw error;
+    }
+  }
+
+  async deletePartial(
+    name: string,
+    type: TemplatePartial["type"]
+  ): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from("email_template_partials")
+        .delete()
+        .eq("name", name)
+        .eq("type", type);
+
+      if (error) {
+        throw new Error(`Failed to delete template partial: ${error.message}`);
+      }
+    } catch (error) {
+      console.error("Error deleting template partial:", error);
+      throw error;
+    }
+  }
+
   async validateTemplate(
     templateId: string
   ): Promise<TemplateValidationResult> {
@@ -230,6 +588,105 @@ export class SupabaseTemplateStorage implements TemplateStorage {
     }
   }
 
+  private async applyContentChanges(
+    templateId: string,
+    changes: Partial<TemplateContent>
+  ): Promise<TemplateContent> {
+    const template = await this.getTemplate(templateId);
+    if (!template) {
+      throw new Error(`Template not found: ${templateId}`);
+    }
+
+    const content: TemplateContent = { ...template };
+    for (const field of VERSIONED_FIELDS) {
+      if (changes[field] !== undefined) {
+        Object.assign(content, { [field]: changes[field] });
+      }
+    }
+    return content;
+  }
+
+  /**
+   * Create a version; with publish, create_template_version also publishes
+   * it and mirrors it onto email_templates in the same transaction.
+   */
+  private async insertVersion(
+    templateId: string,
+    content: TemplateContent,
+    changeNote?: string,
+    publish = false
+  ): Promise<EmailTemplateVersion> {
+    try {
+      const partialVersions = await this.snapshotPartialVersions(content);
+      const { data, error } = await supabase.rpc("create_template_version", {
+        p_template_id: templateId,
+        p_subject: content.subject,
+        p_html_content: content.html_content ?? null,
+        p_text_content: content.text_content ?? null,
+        p_variables: content.variables || {},
+        p_template_hash: this.computeTemplateHash(content, partialVersions),
+        p_change_note: changeNote ?? null,
+        p_source_type: content.source_type || "html",
+        p_locales: content.locales || {},
+        p_partial_versions: partialVersions,
+        p_publish: publish,
+      });
+
+      if (error) {
+        throw new Error(`Failed to create template version: ${error.message}`);
+      }
+
+      return data as EmailTemplateVersion;
+    } catch (error) {
+      console.error("Error creating template version:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Current version of every stored partial and layout the content uses.
+   * create_template_version rejects the snapshot if any of them changes
+   * before the version is saved.
+   */
+  private async snapshotPartialVersions(
+    content: TemplateContent
+  ): Promise<Record<string, number>> {
+    const partials = new Map(
+      (await this.listPartials()).map((partial) => [
+        templateDependencyKey(partial.type, partial.name),
+        partial,
+      ])
+    );
+    const sources = [content, ...Object.values(content.locales || {})].flatMap(
+      (source) => [source.subject, source.html_content, source.text_content]
+    );
+
+    return Object.fromEntries(
+      resolveTemplateDependencies(sources, (key) => partials.get(key)?.content)
+        .filter((key) => partials.has(key))
+        .sort()
+        .map((key) => [key, partials.get(key)!.version])
+    );
+  }
+
+  // Content fields plus the partial versions, so a version's hash changes
+  // when a partial it uses is edited even if its own content is unchanged
+  private computeTemplateHash(
+    content: TemplateContent,
+    partialVersions: Record<string, number>
+  ): string {
+    const parts = [content.subject, content.html_content, content.text_content];
+    if (content.locales && Object.keys(content.locales).length > 0) {
+      parts.push(JSON.stringify(content.locales));
+    }
+    parts.push(
+      ...Object.entries(partialVersions).map(
+        ([key, version]) => `${key}@${version}`
+      )
+    );
+    return crypto.createHash("md5").update(parts.join("|")).digest("hex");
+  }
+
   private extractBasicVariables(template: EmailTemplate): any[] {
     const variables: any[] = [];
 
@@ -0,0 +1,268 @@
+import { supabase } from "../config/supabase";
+import { JsonObject } from "../types/email-provider";
+import {
+  EngagementClassification,
+  EngagementClassifier,
+} from "./engagement-classifier.service";
+
+// Conversions come from recordConversion rather than tracking URLs
+export type FirstPartyTrackingEvent =
+  | "open"
+  | "click"
+  | "unsubscribe"
+  | "conversion";
+
+export interface TrackedEvent {
+  event: FirstPartyTrackingEvent;
+  contactId?: string;
+  email?: string;
+  campaignId?: string;
+  // email_queue row the tracked email was sent from
+  queueId?: string;
+  url?: string;
+  // Link within the template for click events
+  linkId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  timestamp: Date;
+}
+
+export interface ConversionEvent {
+  contactId?: string;
+  email?: string;
+  campaignId: string;
+  timestamp?: Date;
+}
+
+export interface TrackingRecipient {
+  id: string;
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  metadata?: JsonObject;
+}
+
+interface EmailLogRow {
+  id: string;
+  status: string;
+  sent_at: string | null;
+  delivered_at: string | null;
+  opened_at: string | null;
+  clicked_at: string | null;
+  tracking_data: JsonObject | null;
+}
+
+/**
+ * Records events from first-party tracking URLs into email_logs and
+ * email_tracking_details, the same tables the Mailtrap webhook writes
+ */
+export class TrackingEventService {
+  private classifier: EngagementClassifier;
+
+  constructor(classifier: EngagementClassifier = new EngagementClassifier()) {
+    this.classifier = classifier;
+  }
+
+  /**
+   * Returns the email log the event was attached to, or null when the
+   * recipient has no matching send. Unsubscribes are processed either way.
+   */
+  async recordEvent(event: TrackedEvent): Promise<string | null> {
+    const emailLog = await this.findEmailLog(event);
+
+    if (emailLog) {
+      const classification = await this.classifier.classifyForEmailLog(
+        emailLog,
+        event
+      );
+      await this.updateEmailLog(emailLog, event);
+      await this.createTrackingDetail(emailLog.id, event, classification);
+      await this.classifier.markMachineClicks(classification.reclassifyIds);
+    } else {
+      console.warn("Email log not found for tracking event:", {
+        event: event.event,
+        contactId: event.contactId,
+        campaignId: event.campaignId,
+      });
+    }
+
+    if (event.event === "unsubscribe") {
+      await this.processUnsubscribe(event);
+    }
+
+    return emailLog?.id || null;
+  }
+
+  /**
+   * Record a conversion reported by the application, e.g. after a purchase.
+   * It is attached to the recipient's latest send of the campaign and
+   * counts towards A/B test conversion metrics.
+   */
+  async recordConversion(conversion: ConversionEvent): Promise<string | null> {
+    if (!conversion.contactId && !conversion.email) {
+      throw new Error("Conversion needs a contact id or email");
+    }
+
+    return this.recordEvent({
+      event: "conversion",
+      contactId: conversion.contactId,
+      email: conversion.email,
+      campaignId: conversion.campaignId,
+      timestamp: conversion.timestamp || new Date(),
+    });
+  }
+
+  async getRecipient(contactId: string): Promise<TrackingRecipient | null> {
+    const { data, error } = await supabase
+      .from("contacts")
+      .select("id, email, first_name, last_name, metadata")
+      .eq("id", contactId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to get tracking recipient: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getCampaign(
+    campaignId: string
+  ): Promise<{ id: string; name: string } | null> {
+    const { data, error } = await supabase
+      .from("email_campaigns")
+      .select("id, name")
+      .eq("id", campaignId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to get tracking campaign: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // The send from the event's queue item; events without one match the
+  // latest send to the recipient for the campaign (or non-campaign sends)
+  private async findEmailLog(event: TrackedEvent): Promise<EmailLogRow | null> {
+    let query = supabase
+      .from("email_logs")
+      .select(
+        "id, status, sent_at, delivered_at, opened_at, clicked_at, tracking_data"
+      );
+
+    if (event.queueId) {
+      query = query.eq("queue_id", event.queueId);
+    } else {
+      query = event.contactId
+        ? query.eq("contact_id", event.contactId)
+        : query.eq("email", event.email || "");
+      query = event.campaignId
+        ? query.eq("campaign_id", event.campaignId)
+        : query.is("campaign_id", null);
+    }
+
+    const { data, error } = await query
+      .order("sent_at", { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to find email log: ${error.message}`);
+    }
+
+    return data?.[0] || null;
+  }
+
+  private async updateEmailLog(
+    emailLog: EmailLogRow,
+    event: TrackedEvent
+  ): Promise<void> {
+    const eventTime = event.timestamp.toISOString();
+    const updateData: Record<string, unknown> = {
+      tracking_data: {
+        ...(emailLog.tracking_data || {}),
+        event: event.event,
+        source: "first_party",
+        url: event.url,
+        ip: event.ipAddress,
+        user_agent: event.userAgent,
+        timestamp: Math.floor(event.timestamp.getTime() / 1000),
+        processed_at: new Date().toISOString(),
+      },
+    };
+
+    // Keep the first open and click: later opens must not move opened_at past
+    // clicked_at, and an open after a click must not downgrade the status
+    if (event.event === "open") {
+      if (!emailLog.opened_at) {
+        updateData.opened_at = eventTime;
+      }
+      if (emailLog.status !== "clicked") {
+        updateData.status = "opened";
+      }
+    } else if (event.event === "click") {
+      if (!emailLog.clicked_at) {
+        updateData.clicked_at = eventTime;
+      }
+      updateData.status = "clicked";
+    }
+
+    const { error } = await supabase
+      .from("email_logs")
+      .update(updateData)
+      .eq("id", emailLog.id);
+
+    if (error) {
+      throw new Error(`Failed to update email log: ${error.message}`);
+    }
+  }
+
+  private async createTrackingDetail(
+    emailLogId: string,
+    event: TrackedEvent,
+    classification: EngagementClassification
+  ): Promise<void> {
+    const { error } = await supabase.from("email_tracking_details").insert({
+      email_log_id: emailLogId,
+      event_type: event.event,
+      user_agent: event.userAgent,
+      ip_address: event.ipAddress,
+      location_data: {},
+      url: event.url,
+      link_id: event.linkId || null,
+      event_timestamp: event.timestamp.toISOString(),
+      webhook_event_id: null,
+      is_machine: classification.isMachine,
+      machine_reason: classification.reason || null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to create tracking detail: ${error.message}`);
+    }
+  }
+
+  private async processUnsubscribe(event: TrackedEvent): Promise<void> {
+    const email =
+      event.email ||
+      (event.contactId && (await this.getRecipient(event.contactId))?.email);
+    if (!email) {
+      throw new Error("Recipient not found for unsubscribe");
+    }
+
+    const { error } = await supabase.rpc("process_unsubscribe_event", {
+      p_email: email,
+      p_unsubscribe_type: "list_unsubscribe_one_click",
+      p_webhook_event_id: null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to process unsubscribe: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,378 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { createTemplateContext } from "../config/template-engine.config";
+import { TrackingUrlVerification } from "../types/template-engine";
+import { HandlebarsTemplateEngine } from "./template-engine.service";
+import { SupabaseTemplateStorage } from "./template-storage.service";
+import {
+  FirstPartyTrackingEvent,
+  TrackingEventService,
+} from "./tracking-event.service";
+import { TrackingUrlService, TrackingUtils } from "./tracking-url.service";
+
+// RFC 8058 one-click body
+const ONE_CLICK_VALUE = "One-Click";
+
+const MAX_BODY_BYTES = 10 * 1024;
+
+// 1x1 transparent GIF
+const TRACKING_PIXEL = Buffer.from(
+  "R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7",
+  "base64"
+);
+
+const NO_CACHE_HEADERS = {
+  "Cache-Control": "no-store, no-cache, must-revalidate, private",
+  Pragma: "no-cache",
+  Expires: "0",
+};
+
+export interface TrackingServerOptions {
+  trackingUrls: TrackingUrlService;
+  templateEngine: HandlebarsTemplateEngine;
+  templateStorage?: SupabaseTemplateStorage;
+  events?: TrackingEventService;
+  // Click redirects outside these domains are refused; empty allows any
+  allowedRedirectDomains?: string[];
+}
+
+/**
+ * Serves the URLs TrackingUrlService generates: /pixel.gif, /click, /view,
+ * /preferences and /unsubscribe. Only correctly signed URLs are recorded.
+ */
+export class TrackingServer {
+  private trackingUrls: TrackingUrlService;
+  private templateEngine: HandlebarsTemplateEngine;
+  private templateStorage: SupabaseTemplateStorage;
+  private events: TrackingEventService;
+  private allowedRedirectDomains: string[];
+
+  constructor(options: TrackingServerOptions) {
+    this.trackingUrls = options.trackingUrls;
+    this.templateEngine = options.templateEngine;
+    this.templateStorage =
+      options.templateStorage || new SupabaseTemplateStorage();
+    this.events = options.events || new TrackingEventService();
+    this.allowedRedirectDomains = options.allowedRedirectDomains || [];
+  }
+
+  listen(port: number, callback?: () => void): Server {
+    const server = createServer((req, res) => {
+      void this.handleRequest(req, res);
+    });
+    return server.listen(port, callback);
+  }
+
+  async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const url = new URL(req.url || "/", "http://localhost");
+      const route = url.pathname.split("/").pop();
+
+      if (route === "health") {
+        return this.sendJson(res, 200, {
+          status: "healthy",
+          service: "Momentum Email Tracking Server",
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (req.method !== "GET" && !(req.method === "POST" && route === "unsubscribe")) {
+        return this.sendJson(res, 405, { error: "Method not allowed" });
+      }
+
+      // Verification only needs the path's last segment and the query
+      const verification = this.trackingUrls.verifyTrackingUrl(
+        `http://localhost${req.url || "/"}`
+      );
+
+      switch (route) {
+        case "pixel.gif":
+          return await this.handleOpen(req, res, verification);
+        case "click":
+          return await this.handleClick(req, res, verification);
+        case "view":
+          return await this.handleView(res, verification);
+        case "preferences":
+          return this.handlePreferences(res, verification);
+        case "unsubscribe":
+          return await this.handleUnsubscribe(req, res, verification);
+        default:
+          return this.sendJson(res, 404, { error: "Not found" });
+      }
+    } catch (error) {
+      console.error("❌ Tracking request failed:", error);
+      if (!res.headersSent) {
+        this.sendJson(res, 500, { error: "Internal server error" });
+      }
+    }
+  }
+
+  // The pixel is always served so broken links never show a missing image
+  private async handleOpen(
+    req: IncomingMessage,
+    res: ServerResponse,
+    verification: TrackingUrlVerification
+  ): Promise<void> {
+    res.writeHead(200, {
+      "Content-Type": "image/gif",
+      "Content-Length": TRACKING_PIXEL.length,
+      ...NO_CACHE_HEADERS,
+    });
+    res.end(TRACKING_PIXEL);
+
+    if (verification.valid) {
+      await this.record("open", req, verification);
+    }
+  }
+
+  /**
+   * Expired links still redirect, since the signature proves the target came
+   * from us, but only live links are counted
+   */
+  private async handleClick(
+    req: IncomingMessage,
+    res: ServerResponse,
+    verification: TrackingUrlVerification
+  ): Promise<void> {
+    if (!verification.valid && verification.status !== "expired") {
+      return this.sendHtml(res, 400, renderMessagePage("Invalid link", "This link is not valid."));
+    }
+
+    const target = verification.url
+      ? TrackingUtils.sanitizeRedirectUrl(
+          verification.url,
+          this.allowedRedirectDomains
+        )
+      : null;
+    if (!target) {
+      return this.sendHtml(res, 400, renderMessagePage("Invalid link", "This link is not valid."));
+    }
+
+    res.writeHead(302, { Location: target, ...NO_CACHE_HEADERS });
+    res.end();
+
+    if (verification.valid) {
+      await this.record("click", req, verification);
+    }
+  }
+
+  private async handleView(
+    res: ServerResponse,
+    verification: TrackingUrlVerification
+  ): Promise<void> {
+    if (!this.checkLink(res, verification)) {
+      return;
+    }
+
+    const recipient = verification.contactId
+      ? await this.events.getRecipient(verification.contactId)
+      : null;
+    if (!recipient || !verification.templateId) {
+      return this.sendHtml(res, 404, renderMessagePage("Not found", "This email is no longer available."));
+    }
+
+    const campaign = verification.campaignId
+      ? await this.events.getCampaign(verification.campaignId)
+      : null;
+    const context = createTemplateContext(recipient, {}, campaign || undefined);
+
+    // Show the version the campaign was sent with, not the latest edit
+    const pinnedVersion = campaign
+      ? await this.templateStorage.getCampaignTemplateVersion(campaign.id)
+      : null;
+    const rendered = pinnedVersion
+      ? await this.templateEngine.renderTemplateVersion(pinnedVersion.id, context)
+      : await this.templateEngine.renderTemplate(verification.templateId, context);
+
+    this.sendHtml(res, 200, rendered.html);
+  }
+
+  private handlePreferences(
+    res: ServerResponse,
+    verification: TrackingUrlVerification
+  ): void {
+    if (!this.checkLink(res, verification)) {
+      return;
+    }
+
+    const unsubscribeUrl = this.trackingUrls.generateUnsubscribeUrl(
+      verification.contactId!,
+      verification.campaignId
+    );
+    this.sendHtml(
+      res,
+      200,
+      renderUnsubscribeForm(
+        "Email preferences",
+        "You can stop receiving these emails at any time.",
+        unsubscribeUrl
+      )
+    );
+  }
+
+  /**
+   * GET only renders a confirmation page: link scanners prefetch URLs and
+   * must not unsubscribe anyone. The change always happens on POST.
+   */
+  private async handleUnsubscribe(
+    req: IncomingMessage,
+    res: ServerResponse,
+    verification: TrackingUrlVerification
+  ): Promise<void> {
+    if (!this.checkLink(res, verification)) {
+      return;
+    }
+
+    if (req.method === "GET") {
+      return this.sendHtml(
+        res,
+        200,
+        renderUnsubscribeForm(
+          "Unsubscribe",
+          "Click below to stop receiving these emails.",
+          req.url || "/unsubscribe"
+        )
+      );
+    }
+
+    const form = new URLSearchParams(await readBody(req));
+    if (form.get("List-Unsubscribe") !== ONE_CLICK_VALUE) {
+      return this.sendJson(res, 400, { error: "Expected List-Unsubscribe=One-Click" });
+    }
+
+    await this.record("unsubscribe", req, verification);
+
+    if ((req.headers.accept || "").includes("text/html")) {
+      return this.sendHtml(
+        res,
+        200,
+        renderMessagePage("You have been unsubscribed", "You will no longer receive these emails.")
+      );
+    }
+    this.sendJson(res, 200, { success: true });
+  }
+
+  private checkLink(
+    res: ServerResponse,
+    verification: TrackingUrlVerification
+  ): boolean {
+    if (verification.valid && (verification.contactId || verification.email)) {
+      return true;
+    }
+
+    console.warn("⚠️ Rejected tracking link:", verification.status);
+    if (verification.status === "expired") {
+      this.sendHtml(res, 410, renderMessagePage("Link expired", "This link has expired."));
+    } else {
+      this.sendHtml(res, 400, renderMessagePage("Invalid link", "This link is not valid."));
+    }
+    return false;
+  }
+
+  // Pixel and click responses are already sent; failures are only logged
+  private async record(
+    event: FirstPartyTrackingEvent,
+    req: IncomingMessage,
+    verification: TrackingUrlVerification
+  ): Promise<void> {
+    const recording = this.events.recordEvent({
+      event,
+      contactId: verification.contactId,
+      email: verification.email,
+      campaignId: verification.campaignId,
+      queueId: verification.queueId,
+      url: verification.url,
+      linkId: verification.linkId,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers["user-agent"],
+      timestamp: new Date(),
+    });
+
+    if (event === "unsubscribe") {
+      await recording;
+      return;
+    }
+
+    await recording.catch((error) => {
+      console.error(`❌ Failed to record ${event} event:`, error);
+    });
+  }
+
+  private sendJson(
+    res: ServerResponse,
+    status: number,
+    body: Record<string, unknown>
+  ): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendHtml(res: ServerResponse, status: number, body: string): void {
+    res.writeHead(status, {
+      "Content-Type": "text/html; charset=utf-8",
+      ...NO_CACHE_HEADERS,
+    });
+    res.end(body);
+  }
+}
+
+function getClientIp(req: IncomingMessage): string | undefined {
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)
+    ?.split(",")[0]
+    .trim();
+  return first || req.socket.remoteAddress || undefined;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderMessagePage(title: string, message: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+  <body style="font-family: sans-serif; text-align: center; padding: 40px;">
+    <h1>${escapeHtml(title)}</h1>
+    <p>${escapeHtml(message)}</p>
+  </body>
+</html>`;
+}
+
+function renderUnsubscribeForm(
+  title: string,
+  message: string,
+  actionUrl: string
+): string {
+  return `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+  <body style="font-family: sans-serif; text-align: center; padding: 40px;">
+    <h1>${escapeHtml(title)}</h1>
+    <p>${escapeHtml(message)}</p>
+    <form method="POST" action="${escapeHtml(actionUrl)}">
+      <input type="hidden" name="List-Unsubscribe" value="${ONE_CLICK_VALUE}">
+      <button type="submit">Unsubscribe</button>
+    </form>
+  </body>
+</html>`;
+}
@@ -1,18 +1,71 @@
-import { TrackingConfig, TrackingUrlGenerator } from "../types/template-engine";
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import {
+  parseTrackingSigningKeys,
+  resolveTrackingSigningKeys,
+  trackingSigningInput,
+} from "../../supabase/functions/_shared/tracking-signature";
+import {
+  ListUnsubscribeHeaderGenerator,
+  ListUnsubscribeRecipient,
+} from "../types/email-provider";
+import {
+  TrackingConfig,
+  TrackingEvent,
+  TrackingSigningKey,
+  TrackingUrlGenerator,
+  TrackingUrlStatus,
+  TrackingUrlVerification,
+} from "../types/template-engine";
+
+export interface UnsubscribeRequest {
+  valid: boolean;
+  status?: TrackingUrlStatus;
+  contactId?: string;
+  email?: string;
+  campaignId?: string;
+}
+
+// URL path per event, relative to the tracking base URL
+const TRACKING_PATHS: Record<TrackingEvent, string> = {
+  open: "pixel.gif",
+  click: "click",
+  unsubscribe: "unsubscribe",
+  view: "view",
+  preferences: "preferences",
+};
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
 
-export class TrackingUrlService implements TrackingUrlGenerator {
+const LINK_PATTERN = /<a\s+([^>]*href\s*=\s*["']?)([^"'\s>]+)(["']?[^>]*)>/gi;
+const LINK_NAME_PATTERN = /\sdata-link-name\s*=\s*(["'])(.*?)\1/i;
+
+export class TrackingUrlService
+  implements TrackingUrlGenerator, ListUnsubscribeHeaderGenerator
+{
   private baseUrl: string;
   private config: TrackingConfig;
+  private signingKeys: TrackingSigningKey[];
 
   constructor(baseUrl: string, config: TrackingConfig) {
     this.baseUrl = baseUrl.endsWith("/") ? baseUrl.slice(0, -1) : baseUrl;
     this.config = config;
+    this.signingKeys = resolveTrackingSigningKeys(
+      config.signing_keys || [],
+      config.signing_secret
+    );
+
+    for (const key of this.signingKeys) {
+      if (!KEY_ID_PATTERN.test(key.id) || !key.secret) {
+        throw new Error(`Invalid tracking signing key: ${key.id}`);
+      }
+    }
   }
 
   generatePixelUrl(
     templateId: string,
     contactId: string,
-    campaignId?: string
+    campaignId?: string,
+    queueId?: string
   ): string {
     if (!this.config.pixel_enabled) {
       return "";
@@ -29,38 +82,111 @@ export class TrackingUrlService implements TrackingUrlGenerator {
       params.set("campaign", campaignId);
     }
 
-    // Add tracking signature to prevent tampering
-    const signature = this.generateSignature(
-      `open:${templateId}:${contactId}:${campaignId || ""}`
-    );
-    params.set("s", signature);
+    if (queueId) {
+      params.set("q", queueId);
+    }
 
-    return `${this.baseUrl}/pixel.gif?${params.toString()}`;
+    return this.buildSignedUrl("open", params);
   }
 
   generateUnsubscribeUrl(contactId: string, campaignId?: string): string {
-    const params = new URLSearchParams({
-      c: contactId,
-      action: "unsubscribe",
-      ts: Date.now().toString(),
-    });
+    return this.buildUnsubscribeUrl({ contactId }, campaignId);
+  }
 
-    if (campaignId) {
-      params.set("campaign", campaignId);
+  /**
+   * RFC 8058 one-click unsubscribe headers. The HTTPS URL accepts a POST with
+   * body "List-Unsubscribe=One-Click"; the mailto: address is the fallback
+   * for clients without one-click support.
+   */
+  generateListUnsubscribeHeaders(
+    recipient: ListUnsubscribeRecipient,
+    campaignId?: string
+  ): Record<string, string> {
+    const url = this.buildUnsubscribeUrl(recipient, campaignId);
+    const targets = [`<${url}>`];
+
+    if (this.config.unsubscribe_mailto) {
+      const subject = `unsubscribe ${new URL(url).searchParams.toString()}`;
+      targets.push(
+        `<mailto:${this.config.unsubscribe_mailto}?subject=${encodeURIComponent(subject)}>`
+      );
     }
 
-    // Add security token
-    const token = this.generateUnsubscribeToken(contactId);
-    params.set("token", token);
+    return {
+      "List-Unsubscribe": targets.join(", "),
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    };
+  }
+
+  /**
+   * Check the signature on unsubscribe URL parameters
+   */
+  verifyUnsubscribeRequest(
+    params: URLSearchParams | Record<string, string>
+  ): UnsubscribeRequest {
+    const search =
+      params instanceof URLSearchParams ? params : new URLSearchParams(params);
+    const contactId = search.get("c") || undefined;
+    const email = search.get("email") || undefined;
+    const campaignId = search.get("campaign") || undefined;
+
+    if (!contactId && !email) {
+      return { valid: false, status: "malformed" };
+    }
 
-    return `${this.baseUrl}/unsubscribe?${params.toString()}`;
+    const { status } = this.verifySignedParams("unsubscribe", search);
+    return status === "valid"
+      ? { valid: true, status, contactId, email, campaignId }
+      : { valid: false, status };
+  }
+
+  /**
+   * Verify a signed tracking URL. Signature problems are reported before
+   * expiry, so an expired result always means a genuine link.
+   */
+  verifyTrackingUrl(url: string): TrackingUrlVerification {
+    let urlObj: URL;
+    try {
+      urlObj = new URL(url);
+    } catch {
+      return { status: "malformed", valid: false };
+    }
+
+    const path = urlObj.pathname.split("/").pop();
+    const event = (Object.keys(TRACKING_PATHS) as TrackingEvent[]).find(
+      (candidate) => TRACKING_PATHS[candidate] === path
+    );
+    if (!event) {
+      return { status: "malformed", valid: false };
+    }
+
+    const params = urlObj.searchParams;
+    const { status, keyId, expiresAt } = this.verifySignedParams(event, params);
+    const target = params.get("url");
+
+    return {
+      status,
+      valid: status === "valid",
+      event,
+      templateId: params.get("t") || undefined,
+      contactId: params.get("c") || undefined,
+      email: params.get("email") || undefined,
+      campaignId: params.get("campaign") || undefined,
+      queueId: params.get("q") || undefined,
+      url: target ? decodeURIComponent(target) : undefined,
+      linkId: params.get("l") || undefined,
+      keyId,
+      expiresAt,
+    };
   }
 
   generateClickTrackingUrl(
     originalUrl: string,
     templateId: string,
     contactId: string,
-    campaignId?: string
+    campaignId?: string,
+    linkId?: string,
+    queueId?: string
   ): string {
     if (!this.config.click_tracking_enabled) {
       return originalUrl;
@@ -78,19 +204,22 @@ export class TrackingUrlService implements TrackingUrlGenerator {
       params.set("campaign", campaignId);
     }
 
-    // Add tracking signature
-    const signature = this.generateSignature(
-      `click:${templateId}:${contactId}:${originalUrl}`
-    );
-    params.set("s", signature);
+    if (linkId) {
+      params.set("l", linkId);
+    }
+
+    if (queueId) {
+      params.set("q", queueId);
+    }
 
-    return `${this.baseUrl}/click?${params.toString()}`;
+    return this.buildSignedUrl("click", params);
   }
 
   generateViewInBrowserUrl(
     templateId: string,
     contactId: string,
-    campaignId?: string
+    campaignId?: string,
+    queueId?: string
   ): string {
     const params = new URLSearchParams({
       t: templateId,
@@ -103,11 +232,11 @@ export class TrackingUrlService implements TrackingUrlGenerator {
       params.set("campaign", campaignId);
     }
 
-    // Add security token
-    const token = this.generateViewToken(templateId, contactId);
-    params.set("token", token);
+    if (queueId) {
+      params.set("q", queueId);
+    }
 
-    return `${this.baseUrl}/view?${params.toString()}`;
+    return this.buildSignedUrl("view", params);
   }
 
   generateManagePreferencesUrl(contactId: string): string {
@@ -117,10 +246,7 @@ export class TrackingUrlService implements TrackingUrlGenerator {
       ts: Date.now().toString(),
     });
 
-    const token = this.generateUnsubscribeToken(contactId);
-    params.set("token", token);
-
-    return `${this.baseUrl}/preferences?${params.toString()}`;
+    return this.buildSignedUrl("preferences", params);
   }
 
   // Add UTM parameters to URLs
@@ -178,9 +304,10 @@ export class TrackingUrlService implements TrackingUrlGenerator {
   generateTrackingPixelHtml(
     templateId: string,
     contactId: string,
-    campaignId?: string
+    campaignId?: string,
+    queueId?: string
   ): string {
-    const pixelUrl = this.generatePixelUrl(templateId, contactId, campaignId);
+    const pixelUrl = this.generatePixelUrl(templateId, contactId, campaignId, queueId);
 
     if (!pixelUrl) {
       return "";
@@ -245,6 +372,8 @@ export class TrackingUrlService implements TrackingUrlGenerator {
     event?: string;
     timestamp?: number;
     signature?: string;
+    keyId?: string;
+    expiresAt?: number;
   } {
     try {
       const urlObj = new URL(url);
@@ -256,7 +385,9 @@ export class TrackingUrlService implements TrackingUrlGenerator {
         campaignId: params.get("campaign") || undefined,
         event: params.get("e") || undefined,
         timestamp: params.get("ts") ? parseInt(params.get("ts")!) : undefined,
-        signature: params.get("s") || undefined,
+        signature: params.get("sig") || undefined,
+        keyId: params.get("kid") || undefined,
+        expiresAt: params.get("exp") ? parseInt(params.get("exp")!) : undefined,
       };
     } catch (error) {
       return {};
@@ -264,33 +395,210 @@ export class TrackingUrlService implements TrackingUrlGenerator {
   }
 
   // Private helper methods
-  private generateSignature(data: string): string {
-    // In production, use a proper HMAC with a secret key
-    // This is a simple hash for demonstration
-    let hash = 0;
-    for (let i = 0; i < data.length; i++) {
-      const char = data.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32-bit integer
+
+  /**
+   * Sign with the active key. Without any key configured URLs stay
+   * unsigned and never verify.
+   */
+  private buildSignedUrl(event: TrackingEvent, params: URLSearchParams): string {
+    const key = this.signingKeys[0];
+
+    if (key) {
+      if (this.config.token_ttl_seconds) {
+        params.set(
+          "exp",
+          (Date.now() + this.config.token_ttl_seconds * 1000).toString()
+        );
+      }
+      params.set("kid", key.id);
+      params.set("sig", signTrackingParams(event, params, key.secret));
     }
-    return Math.abs(hash).toString(36);
+
+    return `${this.baseUrl}/${TRACKING_PATHS[event]}?${params.toString()}`;
   }
 
-  private generateUnsubscribeToken(contactId: string): string {
-    // Generate a secure token for unsubscribe links
-    const timestamp = Date.now();
-    const data = `unsubscribe:${contactId}:${timestamp}`;
-    return this.generateSignature(data);
+  private verifySignedParams(
+    event: TrackingEvent,
+    params: URLSearchParams
+  ): { status: TrackingUrlStatus; keyId?: string; expiresAt?: number } {
+    const keyId = params.get("kid");
+    const signature = params.get("sig");
+    if (!keyId || !signature) {
+      return { status: "malformed" };
+    }
+
+    const key = this.signingKeys.find((candidate) => candidate.id === keyId);
+    if (!key) {
+      return { status: "unknown_key", keyId };
+    }
+
+    const expected = Buffer.from(signTrackingParams(event, params, key.secret));
+    const received = Buffer.from(signature);
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      return { status: "bad_signature", keyId };
+    }
+
+    const exp = params.get("exp");
+    if (exp === null) {
+      return { status: "valid", keyId };
+    }
+
+    const expiresAt = Number(exp);
+    if (!Number.isFinite(expiresAt)) {
+      return { status: "malformed", keyId };
+    }
+
+    return {
+      status: expiresAt <= Date.now() ? "expired" : "valid",
+      keyId,
+      expiresAt,
+    };
   }
 
-  private generateViewToken(templateId: string, contactId: string): string {
-    // Generate a secure token for view-in-browser links
-    const timestamp = Date.now();
-    const data = `view:${templateId}:${contactId}:${timestamp}`;
-    return this.generateSignature(data);
+  private buildUnsubscribeUrl(
+    recipient: ListUnsubscribeRecipient,
+    campaignId?: string
+  ): string {
+    const params = new URLSearchParams();
+
+    // Prefer the contact id so the address itself stays out of the URL
+    if (recipient.contactId) {
+      params.set("c", recipient.contactId);
+    } else if (recipient.email) {
+      params.set("email", recipient.email);
+    }
+    params.set("action", "unsubscribe");
+    params.set("ts", Date.now().toString());
+
+    if (campaignId) {
+      params.set("campaign", campaignId);
+    }
+
+    return this.buildSignedUrl("unsubscribe", params);
   }
 }
 
+export interface TrackableLink {
+  id: string;
+  href: string;
+  name?: string;
+  // 1-based, counting only trackable links
+  position: number;
+}
+
+/**
+ * Whether click tracking should wrap a link: anchors, unsubscribe links,
+ * existing tracking URLs and non-web schemes are left alone
+ */
+export function isTrackableHref(href: string): boolean {
+  return !(
+    href.startsWith("#") ||
+    href.includes("track.") ||
+    href.includes("unsubscribe") ||
+    /^(mailto|tel|sms):/i.test(href)
+  );
+}
+
+/**
+ * Stable id for a link within a template. data-link-name wins; otherwise
+ * position plus a hash of the href without its query string, so
+ * per-recipient parameters do not split a link's clicks.
+ */
+export function computeLinkId(
+  position: number,
+  href: string,
+  name?: string
+): string {
+  const slug = name
+    ?.toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64);
+  if (slug) {
+    return slug;
+  }
+
+  const base = href.replace(/&amp;/g, "&").split(/[?#]/)[0];
+  const hash = createHash("sha256").update(base).digest("hex").slice(0, 8);
+  return `${position}-${hash}`;
+}
+
+/**
+ * Replace each trackable <a> opening tag with the result of `rewrite`
+ */
+export function rewriteTrackableLinks(
+  html: string,
+  rewrite: (link: TrackableLink, tag: { prefix: string; suffix: string }) => string
+): string {
+  let position = 0;
+
+  return html.replace(LINK_PATTERN, (match, prefix, href, suffix) => {
+    if (!isTrackableHref(href)) {
+      return match;
+    }
+
+    position++;
+    const name = LINK_NAME_PATTERN.exec(match)?.[2];
+    return rewrite(
+      { id: computeLinkId(position, href, name), href, name, position },
+      { prefix, suffix }
+    );
+  });
+}
+
+/**
+ * Replace each <a> opening tag that has a link id with the result of
+ * `replace`. Click tracking URLs carry their id in `l`; untracked links get
+ * the id rewriteTrackableLinks would assign them.
+ */
+export function mapLinkIds(
+  html: string,
+  replace: (tag: string, linkId: string) => string
+): string {
+  let position = 0;
+
+  return html.replace(LINK_PATTERN, (match, _prefix, href) => {
+    const trackedId = getTrackedLinkId(href);
+    if (!trackedId && !isTrackableHref(href)) {
+      return match;
+    }
+
+    position++;
+    const name = LINK_NAME_PATTERN.exec(match)?.[2];
+    return replace(match, trackedId || computeLinkId(position, href, name));
+  });
+}
+
+function getTrackedLinkId(href: string): string | undefined {
+  try {
+    const url = new URL(href.replace(/&amp;/g, "&"));
+    return url.pathname.endsWith(`/${TRACKING_PATHS.click}`)
+      ? url.searchParams.get("l") || undefined
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * HMAC-SHA256 of trackingSigningInput, the construction the email-processor
+ * and unsubscribe edge functions share through supabase/functions/_shared
+ */
+export function signTrackingParams(
+  event: TrackingEvent,
+  params: URLSearchParams,
+  secret: string
+): string {
+  return createHmac("sha256", secret)
+    .update(trackingSigningInput(event, params))
+    .digest("base64url");
+}
+
+export { parseTrackingSigningKeys };
+
 // Factory function to create tracking service with default config
 export function createTrackingUrlService(
   baseUrl: string,
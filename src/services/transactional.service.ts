@@ -0,0 +1,327 @@
+import { supabase } from "../config/supabase";
+import { createTemplateContext } from "../config/template-engine.config";
+import {
+  EmailAddress,
+  JsonObject,
+  SuppressionChecker,
+} from "../types/email-provider";
+import {
+  Contact,
+  TransactionalEmail,
+  TransactionalSendOptions,
+  TransactionalSendResult,
+  UUID,
+} from "../types/email-system";
+import { EmailService } from "./email.service";
+import { SuppressionService } from "./suppression.service";
+import { HandlebarsTemplateEngine } from "./template-engine.service";
+import { SupabaseTemplateStorage } from "./template-storage.service";
+
+// Categories sent even to contacts who unsubscribed from marketing email
+export const DEFAULT_BYPASS_CATEGORIES = ["account", "security", "billing", "order"];
+export const DEFAULT_IDEMPOTENCY_WINDOW_HOURS = 24;
+
+const DEFAULT_CATEGORY = "general";
+// Postgres unique_violation, raised when a concurrent send claimed the key
+const UNIQUE_VIOLATION = "23505";
+
+export interface TransactionalEmailServiceOptions {
+  emailService: EmailService;
+  templateEngine: HandlebarsTemplateEngine;
+  templateStorage?: SupabaseTemplateStorage;
+  suppressionList?: SuppressionChecker;
+  bypassCategories?: string[];
+  idempotencyWindowHours?: number;
+}
+
+type TransactionalEmailUpdate = Partial<
+  Pick<
+    TransactionalEmail,
+    "status" | "subject" | "message_id" | "provider" | "error_message" | "sent_at"
+  >
+>;
+
+/**
+ * One-off sends of a named template to a single recipient, logged to
+ * transactional_emails rather than the campaign queue. Sends with an
+ * idempotency key return the logged result when the key is replayed within
+ * the retention window, including failed and suppressed results; retry with
+ * a new key to send again.
+ */
+export class TransactionalEmailService {
+  private emailService: EmailService;
+  private templateEngine: HandlebarsTemplateEngine;
+  private templateStorage: SupabaseTemplateStorage;
+  private suppressionList: SuppressionChecker;
+  private bypassCategories: string[];
+  private idempotencyWindowHours: number;
+
+  constructor(options: TransactionalEmailServiceOptions) {
+    this.emailService = options.emailService;
+    this.templateEngine = options.templateEngine;
+    this.templateStorage =
+      options.templateStorage || new SupabaseTemplateStorage();
+    this.suppressionList = options.suppressionList || new SuppressionService();
+    this.bypassCategories = options.bypassCategories || DEFAULT_BYPASS_CATEGORIES;
+    this.idempotencyWindowHours =
+      options.idempotencyWindowHours ?? DEFAULT_IDEMPOTENCY_WINDOW_HOURS;
+  }
+
+  async sendTransactional(
+    templateName: string,
+    to: string | EmailAddress,
+    variables: JsonObject = {},
+    options: TransactionalSendOptions = {}
+  ): Promise<TransactionalSendResult> {
+    const now = options.now || new Date();
+    const recipient = typeof to === "string" ? { email: to } : to;
+    const category = options.category || DEFAULT_CATEGORY;
+    const idempotencyKey = options.idempotencyKey;
+
+    if (idempotencyKey) {
+      const previous = await this.getByIdempotencyKey(idempotencyKey);
+      if (previous) {
+        if (
+          isWithinIdempotencyWindow(previous.created_at, now, this.idempotencyWindowHours)
+        ) {
+          return toSendResult(previous, true);
+        }
+        await this.releaseIdempotencyKey(previous.id);
+      }
+    }
+
+    const template = await this.templateStorage.getTemplateByName(templateName);
+    if (!template) {
+      throw new Error(`Template not found: ${templateName}`);
+    }
+
+    const contact = await this.getContactByEmail(recipient.email);
+
+    const { data, error } = await supabase
+      .from("transactional_emails")
+      .insert({
+        idempotency_key: idempotencyKey,
+        template_id: template.id,
+        template_name: templateName,
+        category,
+        to_email: recipient.email,
+        to_name: recipient.name,
+        contact_id: contact?.id,
+        variables,
+        status: "pending",
+        created_at: now.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (idempotencyKey && error.code === UNIQUE_VIOLATION) {
+        const claimed = await this.getByIdempotencyKey(idempotencyKey);
+        if (claimed) {
+          return toSendResult(claimed, true);
+        }
+      }
+      throw new Error(`Failed to log transactional email: ${error.message}`);
+    }
+
+    const record = data as TransactionalEmail;
+
+    // Bypass categories skip unsubscribes, never the suppression list
+    const listedReason = await this.suppressionList.getSuppressionReason(
+      recipient.email
+    );
+    const suppressionReason = listedReason
+      ? `Recipient is suppressed: ${listedReason}`
+      : getSuppressionReason(contact, category, this.bypassCategories);
+    if (suppressionReason) {
+      return this.complete(record, {
+        status: "suppressed",
+        error_message: suppressionReason,
+      });
+    }
+
+    try {
+      // Recipients without a contact are tracked under the log entry's id
+      const context = createTemplateContext(
+        {
+          id: contact?.id || record.id,
+          email: recipient.email,
+          first_name: contact?.first_name,
+          last_name: contact?.last_name,
+          metadata: contact?.metadata,
+        },
+        variables
+      );
+      const rendered = await this.templateEngine.renderTemplate(
+        template.id,
+        context
+      );
+
+      const builder = this.emailService
+        .createMessage()
+        .to(recipient)
+        .subject(rendered.subject)
+        .html(rendered.html)
+        .text(rendered.text)
+        .tag("transactional")
+        .tag(category)
+        .metadata("transactional_email_id", record.id);
+      if (options.from) {
+        builder.from(options.from);
+      }
+
+      const result = await this.emailService.sendEmail(builder.build());
+      if (result.status === "suppressed") {
+        return this.complete(record, {
+          status: "suppressed",
+          subject: rendered.subject,
+          error_message: result.message || "Recipient is suppressed",
+        });
+      }
+      if (result.status === "failed") {
+        return this.complete(record, {
+          status: "failed",
+          subject: rendered.subject,
+          provider: result.provider,
+          error_message: result.message || "Send failed",
+        });
+      }
+
+      return this.complete(record, {
+        status: "sent",
+        subject: rendered.subject,
+        message_id: result.messageId,
+        provider: result.provider,
+        sent_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      return this.complete(record, {
+        status: "failed",
+        error_message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  async getTransactionalEmail(id: UUID): Promise<TransactionalEmail | null> {
+    const { data, error } = await supabase
+      .from("transactional_emails")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to get transactional email: ${error.message}`);
+    }
+
+    return data as TransactionalEmail;
+  }
+
+  private async getByIdempotencyKey(
+    idempotencyKey: string
+  ): Promise<TransactionalEmail | null> {
+    const { data, error } = await supabase
+      .from("transactional_emails")
+      .select("*")
+      .eq("idempotency_key", idempotencyKey)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to get transactional email: ${error.message}`);
+    }
+
+    return data as TransactionalEmail;
+  }
+
+  /**
+   * Free an expired key for reuse; the log entry itself is kept
+   */
+  private async releaseIdempotencyKey(id: UUID): Promise<void> {
+    const { error } = await supabase
+      .from("transactional_emails")
+      .update({ idempotency_key: null })
+      .eq("id", id);
+
+    if (error) {
+      throw new Error(`Failed to release idempotency key: ${error.message}`);
+    }
+  }
+
+  private async getContactByEmail(email: string): Promise<Contact | null> {
+    const { data, error } = await supabase
+      .from("contacts")
+      .select("*")
+      .eq("email", email)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to get contact: ${error.message}`);
+    }
+
+    return data as Contact;
+  }
+
+  private async complete(
+    record: TransactionalEmail,
+    update: TransactionalEmailUpdate
+  ): Promise<TransactionalSendResult> {
+    const { error } = await supabase
+      .from("transactional_emails")
+      .update(update)
+      .eq("id", record.id);
+
+    if (error) {
+      throw new Error(`Failed to update transactional email: ${error.message}`);
+    }
+
+    return toSendResult({ ...record, ...update }, false);
+  }
+}
+
+/**
+ * Why a send to the contact must not go out, or null. Bounced addresses are
+ * always suppressed; unsubscribes only suppress categories outside the
+ * bypass list.
+ */
+export function getSuppressionReason(
+  contact: Pick<Contact, "status"> | null,
+  category: string,
+  bypassCategories: string[] = DEFAULT_BYPASS_CATEGORIES
+): string | null {
+  if (contact?.status === "bounced") {
+    return "Recipient address has bounced";
+  }
+  if (contact?.status === "unsubscribed" && !bypassCategories.includes(category)) {
+    return `Recipient unsubscribed; category ${category} does not bypass suppression`;
+  }
+  return null;
+}
+
+export function isWithinIdempotencyWindow(
+  createdAt: string,
+  now: Date,
+  windowHours: number = DEFAULT_IDEMPOTENCY_WINDOW_HOURS
+): boolean {
+  return now.getTime() - new Date(createdAt).getTime() < windowHours * 3600000;
+}
+
+function toSendResult(
+  record: TransactionalEmail,
+  replayed: boolean
+): TransactionalSendResult {
+  return {
+    id: record.id,
+    status: record.status,
+    message_id: record.message_id,
+    error: record.error_message,
+    replayed,
+  };
+}
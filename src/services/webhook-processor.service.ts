@@ -3,12 +3,15 @@ import {
     MailtrapWebhookPayload,
     WebhookProcessingResult
 } from '../types/email-system';
+import { EngagementClassifier } from './engagement-classifier.service';
 
 export class WebhookProcessorService {
   private supabase: SupabaseClient;
+  private classifier: EngagementClassifier;
 
   constructor(supabaseUrl: string, supabaseKey: string, mockClient?: any) {
     this.supabase = mockClient || createClient(supabaseUrl, supabaseKey);
+    this.classifier = new EngagementClassifier(this.supabase);
   }
 
   /**
@@ -593,7 +596,7 @@ export class WebhookProcessorService {
     // Find email log first
     const { data: emailLog, error: findError } = await this.supabase
       .from('email_logs')
-      .select('id')
+      .select('id, sent_at, delivered_at')
       .eq('mailtrap_message_id', payload.message_id)
       .single();
 
@@ -601,6 +604,15 @@ export class WebhookProcessorService {
       throw new Error('Email log not found for tracking detail');
     }
 
+    const eventTimestamp = new Date(payload.timestamp * 1000);
+    const classification = await this.classifier.classifyForEmailLog(emailLog, {
+      event: payload.event.toLowerCase(),
+      userAgent: payload.user_agent,
+      ipAddress: payload.ip,
+      url: payload.url,
+      timestamp: eventTimestamp
+    });
+
     // Parse location data
     let locationData = {};
     if (payload.location) {
@@ -622,13 +634,17 @@ export class WebhookProcessorService {
         ip_address: payload.ip,
         location_data: locationData,
         url: payload.url,
-        event_timestamp: new Date(payload.timestamp * 1000).toISOString(),
-        webhook_event_id: eventId
+        event_timestamp: eventTimestamp.toISOString(),
+        webhook_event_id: eventId,
+        is_machine: classification.isMachine,
+        machine_reason: classification.reason || null
       });
 
     if (error) {
       throw new Error(`Failed to create tracking detail: ${error.message}`);
     }
+
+    await this.classifier.markMachineClicks(classification.reclassifyIds);
   }
 
   private async updateWebhookEventStatus(
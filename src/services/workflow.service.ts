@@ -0,0 +1,678 @@
+import { supabase } from "../config/supabase";
+import { JsonObject, JsonValue } from "../types/email-provider";
+import {
+  Contact,
+  CreateEmailQueue,
+  CreateWorkflow,
+  UUID,
+  Workflow,
+  WorkflowCondition,
+  WorkflowConditionOperator,
+  WorkflowEnrollment,
+  WorkflowEnrollmentStatus,
+  WorkflowStep,
+  WorkflowTickResult,
+  WorkflowTriggerType,
+} from "../types/email-system";
+import { nextLocalTime, parseLocalTime, resolveTimeZone } from "./send-time.service";
+
+const TRIGGER_TYPES: WorkflowTriggerType[] = [
+  "list_added",
+  "segment_entered",
+  "segment_exited",
+  "email_opened",
+  "email_clicked",
+  "custom_event",
+  "date_anniversary",
+];
+
+// Trigger config key each trigger type cannot do without
+const REQUIRED_TRIGGER_CONFIG: Partial<Record<WorkflowTriggerType, string>> = {
+  list_added: "list_id",
+  segment_entered: "segment_id",
+  segment_exited: "segment_id",
+  custom_event: "event_name",
+  date_anniversary: "date_field",
+};
+
+// Steps one enrollment may run in a tick, so a branch loop without a wait
+// fails the enrollment instead of spinning
+const MAX_STEPS_PER_TICK = 50;
+
+// Seconds a claimed enrollment stays with its worker before another may
+// take it over
+const CLAIM_LEASE_SECONDS = 300;
+
+interface EnrollmentUpdate {
+  status?: WorkflowEnrollmentStatus;
+  current_step_id?: string | null;
+  next_run_at?: string;
+  sent_emails?: Record<string, UUID>;
+  last_error?: string;
+  completed_at?: string;
+}
+
+// Queued in the same transaction as the enrollment's new state, through
+// enqueue_email like EmailQueueService.addToQueue
+type WorkflowEmail = CreateEmailQueue & { id: UUID };
+
+interface StepOutcome {
+  // Step to run next; null ends the workflow
+  nextStepId: string | null;
+  // Run the next step at this time instead of straight away
+  waitUntil?: Date;
+}
+
+/**
+ * Event-triggered workflows (drip sequences). Contacts are enrolled by
+ * database triggers when the workflow's trigger fires; tick() claims due
+ * enrollments and advances each through its steps until it waits or
+ * finishes. Sends are queued under the workflow's campaign together with
+ * the enrollment's new state.
+ */
+export class WorkflowService {
+  private defaultTimeZone: string;
+
+  constructor() {
+    this.defaultTimeZone = resolveTimeZone(process.env.DEFAULT_CONTACT_TIMEZONE, "UTC");
+  }
+
+  async createWorkflow(input: CreateWorkflow): Promise<Workflow> {
+    const errors = validateWorkflow(input);
+    if (errors.length > 0) {
+      throw new Error(`Workflow validation failed: ${errors.join(", ")}`);
+    }
+
+    const { data, error } = await supabase
+      .from("workflows")
+      .insert({
+        name: input.name,
+        description: input.description,
+        trigger_type: input.trigger_type,
+        trigger_config: input.trigger_config || {},
+        steps: input.steps,
+        allow_reentry: input.allow_reentry ?? false,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create workflow: ${error.message}`);
+    }
+
+    return data as Workflow;
+  }
+
+  async getWorkflow(id: UUID): Promise<Workflow | null> {
+    const { data, error } = await supabase
+      .from("workflows")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to get workflow: ${error.message}`);
+    }
+
+    return data as Workflow;
+  }
+
+  /**
+   * Start enrolling contacts. The first activation creates the running
+   * campaign that the workflow's emails are queued and reported under.
+   */
+  async activateWorkflow(id: UUID): Promise<Workflow> {
+    const workflow = await this.getWorkflow(id);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${id}`);
+    }
+    if (workflow.status === "archived") {
+      throw new Error("Archived workflows cannot be activated");
+    }
+
+    let campaignId = workflow.campaign_id;
+    if (!campaignId) {
+      const { data: campaign, error: campaignError } = await supabase
+        .from("email_campaigns")
+        .insert({
+          name: `Workflow: ${workflow.name}`,
+          status: "running",
+          started_at: new Date().toISOString(),
+        })
+        .select("id")
+        .single();
+
+      if (campaignError) {
+        throw new Error(`Failed to create workflow campaign: ${campaignError.message}`);
+      }
+      campaignId = campaign.id as UUID;
+    }
+
+    return this.updateWorkflow(id, { status: "active", campaign_id: campaignId });
+  }
+
+  /**
+   * Stop enrolling and advancing contacts; enrollments resume where they
+   * were when the workflow is activated again
+   */
+  async pauseWorkflow(id: UUID): Promise<Workflow> {
+    return this.updateWorkflow(id, { status: "paused" });
+  }
+
+  /**
+   * Record a custom event for a contact. custom_event workflows listening
+   * for the event name enroll the contact.
+   */
+  async trackEvent(
+    contactId: UUID,
+    eventName: string,
+    properties: JsonObject = {}
+  ): Promise<void> {
+    const { error } = await supabase.from("contact_events").insert({
+      contact_id: contactId,
+      event_name: eventName,
+      properties,
+    });
+
+    if (error) {
+      throw new Error(`Failed to track contact event: ${error.message}`);
+    }
+  }
+
+  /**
+   * Take a contact out of a workflow before it finishes
+   */
+  async exitEnrollment(workflowId: UUID, contactId: UUID): Promise<void> {
+    const { error } = await supabase
+      .from("workflow_enrollments")
+      .update({
+        status: "exited",
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("workflow_id", workflowId)
+      .eq("contact_id", contactId)
+      .eq("status", "active");
+
+    if (error) {
+      throw new Error(`Failed to exit workflow enrollment: ${error.message}`);
+    }
+  }
+
+  /**
+   * Enroll today's date anniversaries, then advance due enrollments of
+   * active workflows
+   */
+  async tick(now: Date = new Date(), batchSize = 100): Promise<WorkflowTickResult> {
+    const result: WorkflowTickResult = {
+      enrolled: 0,
+      advanced: 0,
+      completed: 0,
+      failed: 0,
+      emails_queued: 0,
+    };
+
+    const { data: enrolled, error: anniversaryError } = await supabase.rpc(
+      "enroll_date_anniversaries",
+      { p_now: now.toISOString() }
+    );
+    if (anniversaryError) {
+      throw new Error(`Failed to enroll date anniversaries: ${anniversaryError.message}`);
+    }
+    result.enrolled = enrolled || 0;
+
+    for (const enrollment of await this.claimDueEnrollments(now, batchSize)) {
+      const emails: WorkflowEmail[] = [];
+      const update = await this.advanceEnrollment(enrollment, now, emails);
+      const { data: advanced, error: advanceError } = await supabase.rpc(
+        "advance_workflow_enrollment",
+        {
+          p_enrollment_id: enrollment.id,
+          p_claim_token: enrollment.claim_token,
+          p_update: update,
+          p_emails: emails,
+        }
+      );
+
+      if (advanceError) {
+        throw new Error(`Failed to advance workflow enrollment: ${advanceError.message}`);
+      }
+      if (!advanced) {
+        console.warn(`⚠️ Lost the claim on workflow enrollment ${enrollment.id}; skipped`);
+        continue;
+      }
+
+      for (const email of emails) {
+        await this.logTriggeredCampaign(enrollment.workflow!, enrollment.contact!, email);
+      }
+      result.emails_queued += emails.length;
+      result.advanced++;
+      if (update.status === "completed") {
+        result.completed++;
+      } else if (update.status === "failed") {
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Lock due enrollments of active workflows to this worker; concurrent
+   * ticks skip them until the claim is released or its lease runs out
+   */
+  private async claimDueEnrollments(
+    now: Date,
+    batchSize: number
+  ): Promise<WorkflowEnrollment[]> {
+    const { data: claimed, error: claimError } = await supabase.rpc(
+      "claim_due_workflow_enrollments",
+      {
+        p_now: now.toISOString(),
+        p_limit: batchSize,
+        p_lease_seconds: CLAIM_LEASE_SECONDS,
+      }
+    );
+    if (claimError) {
+      throw new Error(`Failed to claim due workflow enrollments: ${claimError.message}`);
+    }
+    if (!claimed || claimed.length === 0) {
+      return [];
+    }
+
+    const ids = (claimed as WorkflowEnrollment[]).map((enrollment) => enrollment.id);
+    const { data, error } = await supabase
+      .from("workflow_enrollments")
+      .select("*, workflow:workflows!inner(*), contact:contacts(*)")
+      .in("id", ids);
+
+    if (error) {
+      throw new Error(`Failed to get due workflow enrollments: ${error.message}`);
+    }
+
+    const byId = new Map(
+      ((data || []) as WorkflowEnrollment[]).map((enrollment) => [enrollment.id, enrollment])
+    );
+    return ids.flatMap((id) => byId.get(id) || []);
+  }
+
+  /**
+   * Run steps from the enrollment's current step until one waits or the
+   * workflow ends, and return the enrollment's new state
+   */
+  private async advanceEnrollment(
+    enrollment: WorkflowEnrollment,
+    now: Date,
+    emails: WorkflowEmail[]
+  ): Promise<EnrollmentUpdate> {
+    const workflow = enrollment.workflow!;
+    const contact = enrollment.contact;
+    const sentEmails = { ...(enrollment.sent_emails || {}) };
+    let stepId: string | null = enrollment.current_step_id ?? workflow.steps[0]?.id ?? null;
+
+    try {
+      if (!contact || contact.status !== "active") {
+        return { status: "exited", completed_at: now.toISOString() };
+      }
+
+      for (let count = 0; stepId !== null; count++) {
+        if (count === MAX_STEPS_PER_TICK) {
+          throw new Error(`Step limit of ${MAX_STEPS_PER_TICK} reached without a wait`);
+        }
+
+        const index = workflow.steps.findIndex((step) => step.id === stepId);
+        if (index < 0) {
+          throw new Error(`Unknown workflow step: ${stepId}`);
+        }
+
+        const outcome = await this.runStep(workflow, index, contact, sentEmails, now, emails);
+        if (outcome.waitUntil && outcome.nextStepId !== null) {
+          return {
+            current_step_id: outcome.nextStepId,
+            next_run_at: outcome.waitUntil.toISOString(),
+            sent_emails: sentEmails,
+          };
+        }
+        stepId = outcome.nextStepId;
+      }
+
+      return {
+        status: "completed",
+        current_step_id: null,
+        completed_at: now.toISOString(),
+        sent_emails: sentEmails,
+      };
+    } catch (error) {
+      console.error(`❌ Workflow ${workflow.id} failed for contact ${enrollment.contact_id}:`, error);
+      return {
+        status: "failed",
+        current_step_id: stepId,
+        last_error: (error as Error).message,
+        sent_emails: sentEmails,
+      };
+    }
+  }
+
+  private async runStep(
+    workflow: Workflow,
+    index: number,
+    contact: Contact,
+    sentEmails: Record<string, UUID>,
+    now: Date,
+    emails: WorkflowEmail[]
+  ): Promise<StepOutcome> {
+    const step = workflow.steps[index];
+    const following =
+      step.next !== undefined ? step.next : workflow.steps[index + 1]?.id ?? null;
+
+    switch (step.type) {
+      case "send_email": {
+        const queueId = UUID.generate();
+        emails.push({
+          id: queueId,
+          campaign_id: workflow.campaign_id!,
+          contact_id: contact.id,
+          email_address: contact.email,
+          scheduled_at: now.toISOString(),
+          // Unset subject and sender fall back to the campaign's
+          template_id: step.template_id,
+          subject: step.subject,
+          from_name: step.from_name,
+          // Same shape as start_campaign
+          template_data: {
+            first_name: contact.first_name || "",
+            last_name: contact.last_name || "",
+            email: contact.email,
+            metadata: contact.metadata,
+            workflow_id: workflow.id,
+            workflow_step_id: step.id,
+          },
+        });
+        sentEmails[step.id] = queueId;
+        return { nextStepId: following };
+      }
+
+      case "wait": {
+        if (step.hours !== undefined) {
+          return {
+            nextStepId: following,
+            waitUntil: new Date(now.getTime() + step.hours * 60 * 60 * 1000),
+          };
+        }
+        const { hour, minute } = parseLocalTime(step.until!);
+        return {
+          nextStepId: following,
+          waitUntil: nextLocalTime(
+            now,
+            hour,
+            minute,
+            resolveTimeZone(contact.timezone, this.defaultTimeZone)
+          ),
+        };
+      }
+
+      case "branch": {
+        const matched = await this.evaluateCondition(step.condition, contact, sentEmails);
+        const target = matched ? step.if_true : step.if_false;
+        return { nextStepId: target !== undefined ? target : following };
+      }
+
+      case "update_contact": {
+        const metadata = { ...(contact.metadata || {}), ...step.metadata };
+        const { error } = await supabase
+          .from("contacts")
+          .update({ metadata, updated_at: now.toISOString() })
+          .eq("id", contact.id);
+
+        if (error) {
+          throw new Error(`Failed to update contact: ${error.message}`);
+        }
+        contact.metadata = metadata;
+        return { nextStepId: following };
+      }
+
+      case "add_to_list": {
+        const { error } = await supabase
+          .from("contact_list_memberships")
+          .upsert(
+            { contact_id: contact.id, list_id: step.list_id },
+            { onConflict: "contact_id,list_id", ignoreDuplicates: true }
+          );
+
+        if (error) {
+          throw new Error(`Failed to add contact to list: ${error.message}`);
+        }
+        return { nextStepId: following };
+      }
+
+      case "remove_from_list": {
+        const { error } = await supabase
+          .from("contact_list_memberships")
+          .delete()
+          .eq("contact_id", contact.id)
+          .eq("list_id", step.list_id);
+
+        if (error) {
+          throw new Error(`Failed to remove contact from list: ${error.message}`);
+        }
+        return { nextStepId: following };
+      }
+    }
+  }
+
+  private async evaluateCondition(
+    condition: WorkflowCondition,
+    contact: Contact,
+    sentEmails: Record<string, UUID>
+  ): Promise<boolean> {
+    if (condition.type === "field") {
+      return compareField(
+        getContactField(contact, condition.field),
+        condition.operator,
+        condition.value
+      );
+    }
+
+    const queueId = sentEmails[condition.step_id];
+    if (!queueId) {
+      return false;
+    }
+
+    const { data, error } = await supabase
+      .from("email_logs")
+      .select("id, email_tracking_details(event_type, is_machine)")
+      .eq("queue_id", queueId);
+
+    if (error) {
+      throw new Error(`Failed to get email engagement: ${error.message}`);
+    }
+
+    const eventType = condition.type === "opened" ? "open" : "click";
+    return (data || []).some((log: { email_tracking_details?: { event_type: string; is_machine: boolean }[] }) =>
+      (log.email_tracking_details || []).some(
+        (detail) => detail.event_type === eventType && !detail.is_machine
+      )
+    );
+  }
+
+  // Workflow sends show up with the other automated actions
+  private async logTriggeredCampaign(
+    workflow: Workflow,
+    contact: Contact,
+    email: WorkflowEmail
+  ): Promise<void> {
+    const { error } = await supabase.from("automated_actions").insert({
+      action_type: "trigger_campaign",
+      target_id: contact.id,
+      metadata: {
+        workflow_id: workflow.id,
+        workflow_step_id: email.template_data?.workflow_step_id,
+        campaign_id: workflow.campaign_id,
+        queue_id: email.id,
+      },
+      triggered_by: `workflow:${workflow.id}`,
+    });
+
+    if (error) {
+      console.warn(`⚠️ Failed to log workflow send for contact ${contact.id}:`, error.message);
+    }
+  }
+
+  private async updateWorkflow(id: UUID, fields: Partial<Workflow>): Promise<Workflow> {
+    const { data, error } = await supabase
+      .from("workflows")
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update workflow: ${error.message}`);
+    }
+
+    return data as Workflow;
+  }
+}
+
+export function validateWorkflow(input: CreateWorkflow): string[] {
+  const errors: string[] = [];
+
+  if (!input.name?.trim()) {
+    errors.push("name is required");
+  }
+  if (!TRIGGER_TYPES.includes(input.trigger_type)) {
+    errors.push(`trigger_type must be one of ${TRIGGER_TYPES.join(", ")}`);
+  } else {
+    const required = REQUIRED_TRIGGER_CONFIG[input.trigger_type];
+    if (required && !(input.trigger_config as Record<string, unknown> | undefined)?.[required]) {
+      errors.push(`${input.trigger_type} triggers need trigger_config.${required}`);
+    }
+  }
+  if (!input.steps?.length) {
+    errors.push("at least one step is required");
+    return errors;
+  }
+
+  const ids = new Set(input.steps.map((step) => step.id));
+  if (ids.size !== input.steps.length) {
+    errors.push("step ids must be unique");
+  }
+  const checkTarget = (step: WorkflowStep, key: string, target: string | null | undefined): void => {
+    if (target !== undefined && target !== null && !ids.has(target)) {
+      errors.push(`step ${step.id}: ${key} refers to unknown step ${target}`);
+    }
+  };
+
+  for (const step of input.steps) {
+    checkTarget(step, "next", step.next);
+
+    switch (step.type) {
+      case "send_email":
+        if (!step.template_id) {
+          errors.push(`step ${step.id}: template_id is required`);
+        }
+        break;
+      case "wait":
+        if ((step.hours === undefined) === (step.until === undefined)) {
+          errors.push(`step ${step.id}: set either hours or until`);
+        } else if (step.hours !== undefined && !(step.hours > 0)) {
+          errors.push(`step ${step.id}: hours must be positive`);
+        } else if (step.until !== undefined) {
+          try {
+            parseLocalTime(step.until);
+          } catch (error) {
+            errors.push(`step ${step.id}: ${(error as Error).message}`);
+          }
+        }
+        break;
+      case "branch": {
+        checkTarget(step, "if_true", step.if_true);
+        checkTarget(step, "if_false", step.if_false);
+        const condition = step.condition;
+        if (!condition) {
+          errors.push(`step ${step.id}: condition is required`);
+        } else if (condition.type === "field") {
+          if (!condition.field) {
+            errors.push(`step ${step.id}: condition field is required`);
+          }
+        } else if (
+          input.steps.find((other) => other.id === condition.step_id)?.type !== "send_email"
+        ) {
+          errors.push(`step ${step.id}: condition must refer to a send_email step`);
+        }
+        break;
+      }
+      case "update_contact":
+        if (!step.metadata || typeof step.metadata !== "object") {
+          errors.push(`step ${step.id}: metadata must be an object`);
+        }
+        break;
+      case "add_to_list":
+      case "remove_from_list":
+        if (!step.list_id) {
+          errors.push(`step ${step.id}: list_id is required`);
+        }
+        break;
+      default:
+        errors.push(`step ${(step as WorkflowStep).id}: unknown type ${(step as { type: string }).type}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Contact column, or a dotted path into metadata such as metadata.plan
+ */
+export function getContactField(contact: Contact, field: string): JsonValue | undefined {
+  const [head, ...path] = field.split(".");
+  let value: unknown = (contact as unknown as Record<string, unknown>)[head];
+  for (const key of path) {
+    value =
+      value !== null && typeof value === "object"
+        ? (value as Record<string, unknown>)[key]
+        : undefined;
+  }
+  return value as JsonValue | undefined;
+}
+
+export function compareField(
+  actual: JsonValue | undefined,
+  operator: WorkflowConditionOperator,
+  expected?: JsonValue
+): boolean {
+  switch (operator) {
+    case "exists":
+      return actual !== undefined && actual !== null && actual !== "";
+    case "not_exists":
+      return actual === undefined || actual === null || actual === "";
+    case "equals":
+      return JSON.stringify(actual) === JSON.stringify(expected);
+    case "not_equals":
+      return JSON.stringify(actual) !== JSON.stringify(expected);
+    case "contains":
+      if (Array.isArray(actual)) {
+        return actual.some((item) => JSON.stringify(item) === JSON.stringify(expected));
+      }
+      return (
+        typeof actual === "string" &&
+        typeof expected === "string" &&
+        actual.toLowerCase().includes(expected.toLowerCase())
+      );
+    case "greater_than":
+    case "less_than": {
+      if (actual === undefined || actual === null || expected === undefined || expected === null) {
+        return false;
+      }
+      // Numbers compare numerically, anything else (e.g. ISO dates) as text
+      const bothNumeric = !Number.isNaN(Number(actual)) && !Number.isNaN(Number(expected));
+      const difference = bothNumeric
+        ? Number(actual) - Number(expected)
+        : String(actual).localeCompare(String(expected));
+      return operator === "greater_than" ? difference > 0 : difference < 0;
+    }
+  }
+}
@@ -0,0 +1,288 @@
+import { inflateRawSync } from "zlib";
+
+// Zip record signatures
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP64_MARKER = 0xffffffff;
+
+// Limit on the inflated size of each part read from a workbook. Entry
+// sizes in the zip directory are not trusted, so it is enforced while
+// inflating.
+export const MAX_XLSX_PART_BYTES = 256 * 1024 * 1024;
+// The zip directory is at the end, so a workbook is read whole first
+export const MAX_XLSX_FILE_BYTES = 100 * 1024 * 1024;
+
+// Built-in number formats that display dates
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+// Days between the spreadsheet epoch (1899-12-30) and 1970-01-01
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const MS_PER_DAY = 86400000;
+
+export interface ReadXlsxRowsOptions {
+  // Inflated size limit per part; defaults to MAX_XLSX_PART_BYTES
+  maxPartBytes?: number;
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  headerOffset: number;
+}
+
+/**
+ * Read the rows of the first worksheet of an .xlsx workbook as text, one
+ * at a time. Shared and inline strings are resolved, booleans become
+ * "true"/"false" and cells formatted as dates become YYYY-MM-DD (or an ISO
+ * timestamp when they have a time). Empty rows are skipped and gaps
+ * between cells are filled with "". The zip directory sits at the end of
+ * the file, so the whole workbook has to be in memory; only the parts
+ * read below are inflated.
+ */
+export function* readXlsxRows(
+  workbook: Uint8Array,
+  options: ReadXlsxRowsOptions = {}
+): Generator<string[], void, undefined> {
+  const zip = Buffer.from(workbook.buffer, workbook.byteOffset, workbook.byteLength);
+  const entries = readZipDirectory(zip);
+  const maxBytes = options.maxPartBytes ?? MAX_XLSX_PART_BYTES;
+  const read = (name: string): string | undefined => {
+    const entry = entries.get(name);
+    return entry && inflateZipEntry(zip, entry, maxBytes).toString("utf8");
+  };
+
+  const sheetPath = findFirstSheetPath(read("xl/workbook.xml"), read("xl/_rels/workbook.xml.rels"));
+  const sheet = read(sheetPath);
+  if (!sheet) {
+    throw new Error(`Workbook has no worksheet at ${sheetPath}`);
+  }
+
+  const sharedStrings = readSharedStrings(read("xl/sharedStrings.xml"));
+  const dateStyles = readDateStyles(read("xl/styles.xml"));
+
+  for (const [, rowXml = ""] of sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+
+    for (const [, attributes, content = ""] of rowXml.matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+    )) {
+      const reference = attribute(attributes, "r");
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) {
+        row.push("");
+      }
+      row[index] = cellText(attributes, content, sharedStrings, dateStyles);
+    }
+
+    if (row.some((value) => value !== "")) {
+      yield row;
+    }
+  }
+}
+
+function readZipDirectory(zip: Buffer): Map<string, ZipEntry> {
+  const entries = new Map<string, ZipEntry>();
+
+  // The end record is followed by a comment of at most 64 KiB
+  let end = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error("Not an xlsx file: zip directory not found");
+  }
+
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  if (offset === ZIP64_MARKER) {
+    throw new Error("Workbooks larger than 4 GiB are not supported");
+  }
+
+  for (let i = 0; i < count; i++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("Not an xlsx file: corrupt zip directory");
+    }
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const name = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+    entries.set(name, {
+      name,
+      method: zip.readUInt16LE(offset + 10),
+      compressedSize: zip.readUInt32LE(offset + 20),
+      size: zip.readUInt32LE(offset + 24),
+      headerOffset: zip.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function inflateZipEntry(zip: Buffer, entry: ZipEntry, maxBytes: number): Buffer {
+  const { name, method, compressedSize, headerOffset } = entry;
+  if (entry.size > maxBytes || (method === 0 && compressedSize > maxBytes)) {
+    throw new Error(`Workbook part ${name} is larger than ${maxBytes} bytes`);
+  }
+
+  if (zip.readUInt32LE(headerOffset) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Not an xlsx file: corrupt zip entry ${name}`);
+  }
+  const dataStart =
+    headerOffset + 30 + zip.readUInt16LE(headerOffset + 26) + zip.readUInt16LE(headerOffset + 28);
+  const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+  if (method === 0) {
+    return data;
+  }
+  if (method !== 8) {
+    throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+  }
+
+  try {
+    return inflateRawSync(data, { maxOutputLength: maxBytes });
+  } catch (error) {
+    // The directory understated the size
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new Error(`Workbook part ${name} is larger than ${maxBytes} bytes`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Path of the first sheet in workbook order, which need not be sheet1.xml
+ */
+function findFirstSheetPath(workbook?: string, relationships?: string): string {
+  const relationshipId = workbook && /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+  if (!relationshipId || !relationships) {
+    return "xl/worksheets/sheet1.xml";
+  }
+
+  for (const [element] of relationships.matchAll(/<Relationship\b[^>]*>/g)) {
+    if (attribute(element, "Id") === relationshipId) {
+      const target = attribute(element, "Target") || "";
+      return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return "xl/worksheets/sheet1.xml";
+}
+
+function readSharedStrings(xml?: string): string[] {
+  if (!xml) {
+    return [];
+  }
+  return [...xml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map(([, item]) => richText(item));
+}
+
+/**
+ * Indexes of the cell styles whose number format displays a date
+ */
+function readDateStyles(xml?: string): Set<number> {
+  const styles = new Set<number>();
+  if (!xml) {
+    return styles;
+  }
+
+  const customDateFormats = new Set<number>();
+  for (const [element] of xml.matchAll(/<numFmt\b[^>]*>/g)) {
+    // Ignore quoted literals and [color]/[locale] sections
+    const code = decodeXml(attribute(element, "formatCode") || "")
+      .replace(/"[^"]*"/g, "")
+      .replace(/\[[^\]]*\]/g, "");
+    if (/[dmy]/i.test(code)) {
+      customDateFormats.add(Number(attribute(element, "numFmtId")));
+    }
+  }
+
+  const cellFormats = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(xml)?.[1] || "";
+  [...cellFormats.matchAll(/<xf\b[^>]*>/g)].forEach(([element], index) => {
+    const formatId = Number(attribute(element, "numFmtId") || 0);
+    if (DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) {
+      styles.add(index);
+    }
+  });
+
+  return styles;
+}
+
+function cellText(
+  attributes: string,
+  content: string,
+  sharedStrings: string[],
+  dateStyles: Set<number>
+): string {
+  const type = attribute(attributes, "t");
+  const value = /<v>([\s\S]*?)<\/v>/.exec(content)?.[1];
+
+  switch (type) {
+    case "s":
+      return sharedStrings[Number(value)] ?? "";
+    case "inlineStr":
+      return richText(/<is>([\s\S]*?)<\/is>/.exec(content)?.[1] || "");
+    case "b":
+      return value === "1" ? "true" : "false";
+    case "str":
+    case "e":
+      return decodeXml(value || "");
+  }
+
+  if (value === undefined) {
+    return "";
+  }
+  const style = Number(attribute(attributes, "s") || 0);
+  return dateStyles.has(style) ? serialDateText(Number(value)) : value;
+}
+
+function serialDateText(serial: number): string {
+  if (!Number.isFinite(serial)) {
+    return "";
+  }
+  const iso = new Date(Math.round((serial - EXCEL_EPOCH_OFFSET_DAYS) * MS_PER_DAY)).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.replace(".000Z", "Z");
+}
+
+/**
+ * Text of all runs in a string item, without phonetic hints
+ */
+function richText(xml: string): string {
+  return [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "").matchAll(/<t\b[^>]*?(?:\/>|>([\s\S]*?)<\/t>)/g)]
+    .map(([, text = ""]) => decodeXml(text))
+    .join("");
+}
+
+function attribute(element: string, name: string): string | undefined {
+  return new RegExp(`\\b${name}="([^"]*)"`).exec(element)?.[1];
+}
+
+// "AB12" -> 27
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] || "A";
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "amp":
+        return "&";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      default:
+        return String.fromCodePoint(
+          code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : Number(code.slice(1))
+        );
+    }
+  });
+}
@@ -60,6 +60,7 @@ export interface EmailAddress {
 
 export interface EmailAttachment {
   filename: string;
+  /** Raw bytes, or a base64-encoded string */
   content: string | Buffer;
   contentType: string;
   disposition?: "attachment" | "inline";
@@ -88,9 +89,12 @@ export interface EmailMessage {
 
 export interface EmailSendResult {
   messageId: string;
-  status: "sent" | "queued" | "failed";
+  // suppressed: every To address is on the suppression list, nothing was sent
+  status: "sent" | "queued" | "failed" | "suppressed";
   message?: string;
   providerResponse?: ProviderApiResponse;
+  provider?: string;
+  routing?: ProviderRoutingInfo;
 }
 
 export interface EmailStatus {
@@ -180,6 +184,105 @@ export interface EmailProvider {
   healthCheck?(): Promise<boolean>;
 }
 
+// MIME composition types
+export interface MimeBuildOptions {
+  /** Domain used for generated Message-IDs; defaults to the From domain */
+  hostname?: string;
+  /** Fixed Date header; defaults to the current time */
+  date?: Date;
+  /** Fixed Message-ID (without angle brackets) */
+  messageId?: string;
+  /** Boundary generator; override for reproducible output */
+  generateBoundary?: (index: number) => string;
+}
+
+export interface MimeMessage {
+  messageId: string;
+  envelope: {
+    from: string;
+    to: string[];
+  };
+  raw: string;
+}
+
+// DKIM types
+export type DkimAlgorithm = "rsa-sha256" | "ed25519-sha256";
+
+export interface DkimKeyConfig {
+  /** Signing domain (d=); also used for any subdomain without its own key */
+  domain: string;
+  selector: string;
+  /** PEM-encoded PKCS#8 (or PKCS#1 for RSA) private key */
+  privateKey: string;
+  /** Inferred from the key type when omitted */
+  algorithm?: DkimAlgorithm;
+}
+
+export interface DkimConfig {
+  keys: DkimKeyConfig[];
+  /** Header fields to sign when present; From is always signed */
+  headerFields?: string[];
+}
+
+export interface DkimVerificationResult {
+  status: "pass" | "fail" | "none";
+  domain?: string;
+  selector?: string;
+  algorithm?: string;
+  reason?: string;
+}
+
+// Multi-provider routing types
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type FailoverReason =
+  | "circuit_open"
+  | "unhealthy"
+  | "rate_limited"
+  | "provider_error";
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+export interface ProviderRoute {
+  provider: EmailProvider;
+  weight?: number;
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+}
+
+export interface ProviderRouterOptions {
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  healthCheckIntervalMs?: number;
+}
+
+export interface ProviderSkip {
+  provider: string;
+  reason: FailoverReason;
+  error?: string;
+}
+
+export interface ProviderRoutingInfo {
+  provider: string;
+  attempted: string[];
+  failedOver: boolean;
+  failoverReason?: FailoverReason;
+  skipped: ProviderSkip[];
+}
+
+export interface ProviderRouteState {
+  provider: string;
+  weight: number;
+  healthy: boolean;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: Date;
+  lastHealthCheck?: Date;
+  totalSent: number;
+  totalFailed: number;
+}
+
 export interface EmailServiceOptions {
   provider: EmailProvider;
   defaultFrom?: EmailAddress;
@@ -187,6 +290,33 @@ export interface EmailServiceOptions {
   enableRetries?: boolean;
   webhookSecret?: string;
   logLevel?: "debug" | "info" | "warn" | "error";
+  /** Adds RFC 8058 List-Unsubscribe headers to templated (campaign) sends */
+  listUnsubscribe?: ListUnsubscribeHeaderGenerator;
+  /** Suppressed recipients are dropped before a message reaches the provider */
+  suppressionList?: SuppressionChecker;
+}
+
+export interface SuppressionChecker {
+  /** Reason the address must not be sent to, or null */
+  getSuppressionReason(email: string): Promise<string | null>;
+  /** Reasons by lowercased address, for the suppressed ones among emails */
+  getSuppressionReasons(emails: string[]): Promise<Map<string, string>>;
+}
+
+export interface ListUnsubscribeRecipient {
+  contactId?: string;
+  email?: string;
+}
+
+export interface ListUnsubscribeHeaderGenerator {
+  generateListUnsubscribeHeaders(
+    recipient: ListUnsubscribeRecipient,
+    campaignId?: string
+  ): Record<string, string>;
+}
+
+export interface TemplatedEmailRecipient extends EmailAddress {
+  contactId?: string;
 }
 
 export interface SendEmailOptions {
@@ -195,6 +325,7 @@ export interface SendEmailOptions {
   trackOpens?: boolean;
   trackClicks?: boolean;
   allowRetries?: boolean;
+  campaignId?: string;
   metadata?: JsonObject;
 }
 
@@ -236,6 +367,43 @@ export interface MailtrapErrorResponse {
   status: number;
 }
 
+// SMTP-specific types
+export interface SmtpAuthConfig {
+  user: string;
+  pass: string;
+  method?: "PLAIN" | "LOGIN";
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (usually port 465). When false, STARTTLS is negotiated if offered. */
+  secure?: boolean;
+  requireTLS?: boolean;
+  ignoreTLS?: boolean;
+  rejectUnauthorized?: boolean;
+  auth?: SmtpAuthConfig;
+  name?: string;
+  pool?: boolean;
+  maxConnections?: number;
+  maxMessages?: number;
+  connectionTimeout?: number;
+  greetingTimeout?: number;
+  socketTimeout?: number;
+  rateLimit?: {
+    maxRequests: number;
+    windowMs: number;
+  };
+  dkim?: DkimConfig;
+}
+
+export interface SmtpSendInfo {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+  response: string;
+}
+
 export interface MailtrapProviderStats {
   totalSent: number;
   totalDelivered: number;
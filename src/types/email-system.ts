@@ -1,4 +1,4 @@
-import { JsonObject, UUID } from './email-provider';
+import { EmailAddress, JsonObject, JsonValue, UUID } from './email-provider';
 
 // Re-export UUID for use in other modules
 export { UUID } from './email-provider';
@@ -31,6 +31,8 @@ export type EmailQueueStatus =
   | "failed"
   | "cancelled";
 export type LogLevel = "debug" | "info" | "warning" | "error";
+// How campaign sends are spread over email_queue.scheduled_at
+export type DeliveryMode = "immediate" | "local_time" | "optimized";
 
 // New types for contact lists and segments
 export type SegmentType = "static" | "dynamic";
@@ -43,25 +45,148 @@ export interface Contact {
   last_name?: string;
   status: ContactStatus;
   metadata: JsonObject;
+  // IANA timezone for local-time delivery, e.g. America/New_York
+  timezone?: string;
   created_at: string;
   updated_at: string;
 }
 
+// Typed contact fields; values are stored in Contact.metadata under the key
+export type CustomFieldType =
+  | "string"
+  | "number"
+  | "boolean"
+  // YYYY-MM-DD
+  | "date"
+  | "enum"
+  | "multi_select";
+
+export interface CustomField {
+  id: UUID;
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  // Allowed values of enum and multi_select fields
+  options?: string[];
+  required: boolean;
+  default_value?: JsonValue;
+  indexed: boolean;
+  description?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Format of html_content; MJML is compiled to HTML before Handlebars
+export type TemplateSourceType = "html" | "mjml";
+
+// Per-locale override of the default template content; unset fields fall
+// back to the default content
+export interface TemplateLocaleVariant {
+  subject?: string;
+  html_content?: string;
+  text_content?: string;
+}
+
 export interface EmailTemplate {
   id: UUID;
   name: string;
   subject: string;
+  source_type?: TemplateSourceType;
   html_content?: string;
   text_content?: string;
   variables: JsonObject;
+  /** Locale of the default content */
+  default_locale?: string;
+  /** Locale variants keyed by BCP 47 tag, e.g. "pt-BR" */
+  locales?: Record<string, TemplateLocaleVariant>;
+  published_version_id?: UUID;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TemplateVersionStatus = "draft" | "published" | "archived";
+
+// Immutable snapshot of template content; email_templates mirrors the
+// published version
+export interface EmailTemplateVersion {
+  id: UUID;
+  template_id: UUID;
+  version_number: number;
+  status: TemplateVersionStatus;
+  source_type?: TemplateSourceType;
+  subject: string;
+  html_content?: string;
+  text_content?: string;
+  variables: JsonObject;
+  locales?: Record<string, TemplateLocaleVariant>;
+  /** Version of each partial and layout used, keyed like "partial:footer" */
+  partial_versions?: Record<string, number>;
+  template_hash: string;
+  change_note?: string;
+  based_on_version_id?: UUID;
+  created_at: string;
+  published_at?: string;
+}
+
+export type TemplateVersionField =
+  | "source_type"
+  | "subject"
+  | "html_content"
+  | "text_content"
+  | "variables"
+  | "locales";
+
+export interface TemplateDiffLine {
+  op: "equal" | "add" | "remove";
+  value: string;
+}
+
+export interface TemplateFieldDiff {
+  field: TemplateVersionField;
+  changed: boolean;
+  lines: TemplateDiffLine[];
+}
+
+export interface TemplateVersionDiff {
+  template_id: UUID;
+  from_version: number;
+  to_version: number;
+  changed: boolean;
+  fields: TemplateFieldDiff[];
+}
+
+export type TemplatePartialType = "partial" | "layout";
+
+// Shared template block: partials are included with {{> name}}, layouts wrap
+// template content with {{#layout "name"}} and render it through {{{body}}}
+export interface TemplatePartial {
+  id: UUID;
+  name: string;
+  type: TemplatePartialType;
+  content: string;
+  description?: string;
+  /** Incremented on every content change */
+  version: number;
   created_at: string;
   updated_at: string;
 }
 
+// Immutable content of a partial or layout at one version
+export interface TemplatePartialVersion {
+  id: UUID;
+  name: string;
+  type: TemplatePartialType;
+  version: number;
+  content: string;
+  created_at: string;
+}
+
 // Enhanced Email Campaign interface
 export interface EmailCampaign {
   id: UUID;
   template_id?: UUID;
+  // Template version the campaign was sent with (pinned when it starts running)
+  template_version_id?: UUID;
   name: string;
   status: CampaignStatus;
   scheduled_at?: string;
@@ -79,6 +204,13 @@ export interface EmailCampaign {
   completed_at?: string;
   paused_at?: string;
   paused_reason?: string;
+  delivery_mode?: DeliveryMode;
+  // HH:MM in each contact's timezone; also the fallback for optimized
+  // delivery when a contact has too little engagement history
+  local_send_time?: string;
+  // Set on runs spawned by a recurring campaign
+  recurring_campaign_id?: UUID;
+  run_number?: number;
   // Foreign key relations
   email_template?: EmailTemplate;
   segment?: Segment;
@@ -110,13 +242,85 @@ export interface ContactListMembership {
   contact_list?: ContactList;
 }
 
+// Segment rules, stored in filter_criteria.rule and compiled to SQL by
+// compile_segment_rule
+export type SegmentRuleOperator =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "starts_with"
+  | "ends_with"
+  | "in"
+  | "greater_than"
+  | "greater_or_equal"
+  | "less_than"
+  | "less_or_equal"
+  | "within_days"
+  | "exists";
+export type SegmentContactField =
+  | "email"
+  | "first_name"
+  | "last_name"
+  | "status"
+  | "timezone"
+  | "created_at"
+  | "updated_at";
+export type SegmentEngagementEvent = "sent" | "opened" | "clicked";
+
+export type SegmentRule =
+  | { type: "and" | "or"; rules: SegmentRule[] }
+  | { type: "not"; rule: SegmentRule }
+  | {
+      type: "field";
+      field: SegmentContactField;
+      operator: SegmentRuleOperator;
+      value?: JsonValue;
+    }
+  // path is dotted, e.g. "company.size"
+  | {
+      type: "metadata";
+      path: string;
+      operator: SegmentRuleOperator;
+      value?: JsonValue;
+    }
+  | {
+      type: "custom_field";
+      field: string;
+      operator: SegmentRuleOperator;
+      value?: JsonValue;
+    }
+  | { type: "in_list"; list_id: UUID }
+  | { type: "in_segment"; segment_id: UUID }
+  // At least min_count (default 1) email_logs with the event, e.g. opened
+  // any campaign in the last 30 days
+  | {
+      type: "engagement";
+      event: SegmentEngagementEvent;
+      within_days?: number;
+      campaign_id?: UUID;
+      min_count?: number;
+    };
+
+export interface SegmentFilterCriteria {
+  rule?: SegmentRule;
+  // Legacy filters, combined with the rule
+  metadata_filter?: JsonObject;
+  created_after?: string;
+}
+
+export interface SegmentPreview {
+  total_count: number;
+  // Newest matching contacts
+  sample: Contact[];
+}
+
 // Segment interfaces
 export interface Segment {
   id: UUID;
   name: string;
   description?: string;
   type: SegmentType;
-  filter_criteria: JsonObject;
+  filter_criteria: SegmentFilterCriteria;
   contact_list_id?: UUID;
   total_contacts: number;
   active_contacts: number;
@@ -140,6 +344,24 @@ export interface ContactSegment {
   segment?: Segment;
 }
 
+// One period a contact spent in a segment; exited_at is unset while it is
+// still a member
+export interface SegmentMembership {
+  id: UUID;
+  segment_id: UUID;
+  contact_id: UUID;
+  entered_at: string;
+  exited_at?: string;
+  // Foreign key relations
+  contact?: Contact;
+}
+
+export interface SegmentMembershipFilter {
+  contact_id?: UUID;
+  // Only periods that started or ended at or after this time
+  changed_since?: string;
+}
+
 export interface EmailLog {
   id: UUID;
   campaign_id: UUID;
@@ -152,6 +374,9 @@ export interface EmailLog {
   opened_at?: string;
   clicked_at?: string;
   bounce_reason?: string;
+  // Queue item and A/B test variant the email was sent from
+  queue_id?: UUID;
+  variant_id?: UUID;
   tracking_data: JsonObject;
   // Foreign key relations
   email_campaign?: EmailCampaign;
@@ -171,6 +396,13 @@ export interface EmailQueue {
   attempts: number;
   max_attempts: number;
   error_message?: string;
+  // A/B test variant; test_cohort is false for the winner's remainder send
+  variant_id?: UUID;
+  test_cohort?: boolean;
+  // Content to send with; unset values fall back to the campaign's
+  subject?: string;
+  from_name?: string;
+  template_id?: UUID;
   created_at: string;
 }
 
@@ -211,12 +443,418 @@ export interface CampaignStats {
   queue_pending: number;
   queue_failed: number;
   last_activity?: string;
+  // Human-only engagement, excluding MPP prefetches and link scanners
+  human_opened: number;
+  human_clicked: number;
+  human_open_rate: number;
+  human_click_rate: number;
+  machine_opens: number;
+  machine_clicks: number;
   // Real-time stats
   progress_percentage: number;
   estimated_completion?: string;
   current_send_rate?: number;
 }
 
+// Clicks per template link, keyed by the link id in click tracking URLs
+export interface CampaignLinkStats {
+  link_id: string;
+  // Most common destination; can vary per recipient
+  url: string;
+  total_clicks: number;
+  unique_clicks: number;
+  human_clicks: number;
+  human_unique_clicks: number;
+}
+
+// A/B testing. Conversions are reported with
+// TrackingEventService.recordConversion.
+export type ABTestWinnerMetric = "opens" | "human_clicks" | "conversions";
+export type ABTestStatus = "draft" | "testing" | "winner_selected" | "cancelled";
+
+export interface CampaignABTest {
+  id: UUID;
+  campaign_id: UUID;
+  // Share of recipients in the test cohort, split evenly across variants
+  test_percentage: number;
+  winner_metric: ABTestWinnerMetric;
+  // Wait after the last variant is sent before the winner is picked
+  wait_hours: number;
+  status: ABTestStatus;
+  winner_variant_id?: UUID;
+  test_started_at?: string;
+  test_ends_at?: string;
+  winner_selected_at?: string;
+  created_at: string;
+  variants?: CampaignVariant[];
+}
+
+// Unset fields fall back to the campaign's own subject, sender and template
+export interface CampaignVariant {
+  id: UUID;
+  campaign_id: UUID;
+  name: string;
+  subject?: string;
+  from_name?: string;
+  template_id?: UUID;
+  send_at?: string;
+  is_winner: boolean;
+  created_at: string;
+}
+
+export interface ABTestVariantResult {
+  variant_id: UUID;
+  name: string;
+  recipients: number;
+  sent: number;
+  opens: number;
+  human_clicks: number;
+  conversions: number;
+  // winner_metric per sent email, as a percentage
+  rate: number;
+  // Two-sided p-value against the leading variant; unset for the leader
+  p_value?: number;
+  significant: boolean;
+}
+
+export interface ABTestResults {
+  campaign_id: UUID;
+  status: ABTestStatus;
+  winner_metric: ABTestWinnerMetric;
+  confidence_level: number;
+  leader_variant_id?: UUID;
+  winner_variant_id?: UUID;
+  // The leader beats every other variant at confidence_level
+  significant: boolean;
+  variants: ABTestVariantResult[];
+}
+
+// Recurring campaigns
+export type RecurrenceScheduleType = "cron" | "rrule";
+export type RecurringCampaignStatus = "active" | "paused" | "ended";
+
+// Template for the campaign run spawned on each occurrence of the schedule
+export interface RecurringCampaign {
+  id: UUID;
+  name: string;
+  template_id?: UUID;
+  segment_id?: UUID;
+  contact_list_id?: UUID;
+  from_email: string;
+  from_name: string;
+  subject?: string;
+  priority: number;
+  delivery_mode: DeliveryMode;
+  local_send_time: string;
+  schedule_type: RecurrenceScheduleType;
+  // Five-field cron expression or RFC 5545 RRULE, in timezone
+  schedule_expression: string;
+  timezone: string;
+  starts_at: string;
+  ends_at?: string;
+  status: RecurringCampaignStatus;
+  next_run_at?: string;
+  last_run_at?: string;
+  run_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecurringCampaignRun {
+  campaign_id: UUID;
+  run_number: number;
+  campaign_status: CampaignStatus;
+  scheduled_at: string;
+  total_recipients: number;
+  total_sent: number;
+  total_delivered: number;
+  total_bounced: number;
+  human_opened: number;
+  human_clicked: number;
+  human_open_rate: number;
+  human_click_rate: number;
+}
+
+// Automation workflows
+export type WorkflowStatus = "draft" | "active" | "paused" | "archived";
+export type WorkflowTriggerType =
+  | "list_added"
+  | "segment_entered"
+  | "segment_exited"
+  | "email_opened"
+  | "email_clicked"
+  | "custom_event"
+  | "date_anniversary";
+
+// Every key set here must match the trigger event for a contact to enroll
+export interface WorkflowTriggerConfig {
+  list_id?: UUID;
+  segment_id?: UUID;
+  // Opens and clicks of this campaign only; any campaign when unset
+  campaign_id?: UUID;
+  event_name?: string;
+  // Contact metadata key holding a YYYY-MM-DD date, for date_anniversary
+  date_field?: string;
+  // Timezone the anniversary date is evaluated in (default UTC)
+  timezone?: string;
+}
+
+export type WorkflowConditionOperator =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "exists"
+  | "not_exists"
+  | "greater_than"
+  | "less_than";
+
+export type WorkflowCondition =
+  // field is a contact column or a metadata path such as metadata.plan
+  | { type: "field"; field: string; operator: WorkflowConditionOperator; value?: JsonValue }
+  // Human engagement with the email sent by an earlier send_email step
+  | { type: "opened" | "clicked"; step_id: string };
+
+// next is the step id to go to afterwards: the following step when unset,
+// the end of the workflow when null
+interface WorkflowStepBase {
+  id: string;
+  next?: string | null;
+}
+
+export type WorkflowStep =
+  | (WorkflowStepBase & {
+      type: "send_email";
+      template_id: UUID;
+      subject?: string;
+      from_name?: string;
+    })
+  // Wait a number of hours, or until the next HH:MM in the contact's timezone
+  | (WorkflowStepBase & { type: "wait"; hours?: number; until?: string })
+  | (WorkflowStepBase & {
+      type: "branch";
+      condition: WorkflowCondition;
+      if_true?: string | null;
+      if_false?: string | null;
+    })
+  | (WorkflowStepBase & { type: "update_contact"; metadata: JsonObject })
+  | (WorkflowStepBase & { type: "add_to_list" | "remove_from_list"; list_id: UUID });
+
+export type WorkflowStepType = WorkflowStep["type"];
+
+export interface Workflow {
+  id: UUID;
+  name: string;
+  description?: string;
+  status: WorkflowStatus;
+  trigger_type: WorkflowTriggerType;
+  trigger_config: WorkflowTriggerConfig;
+  steps: WorkflowStep[];
+  // Enroll contacts again after they finished the workflow
+  allow_reentry: boolean;
+  // Campaign the workflow's sends are queued and reported under
+  campaign_id?: UUID;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WorkflowEnrollmentStatus = "active" | "completed" | "exited" | "failed";
+
+// Per-contact workflow state
+export interface WorkflowEnrollment {
+  id: UUID;
+  workflow_id: UUID;
+  contact_id: UUID;
+  status: WorkflowEnrollmentStatus;
+  // Step to run when next_run_at comes; unset before the first step
+  current_step_id?: string;
+  next_run_at?: string;
+  trigger_data: JsonObject;
+  // Queue ids of the emails sent per step, for engagement conditions
+  sent_emails: Record<string, UUID>;
+  last_error?: string;
+  // Set while a tick holds the enrollment; the claim expires at claimed_until
+  claim_token?: UUID;
+  claimed_until?: string;
+  entered_at: string;
+  completed_at?: string;
+  updated_at: string;
+  workflow?: Workflow;
+  contact?: Contact;
+}
+
+export interface WorkflowTickResult {
+  enrolled: number;
+  advanced: number;
+  completed: number;
+  failed: number;
+  emails_queued: number;
+}
+
+// Transactional email
+export type TransactionalEmailStatus = "pending" | "sent" | "failed" | "suppressed";
+
+// Log entry of a transactional send, kept apart from campaign email_logs
+export interface TransactionalEmail {
+  id: UUID;
+  // Replays of the key within the retention window return this entry
+  idempotency_key?: string;
+  template_id?: UUID;
+  template_name: string;
+  category: string;
+  to_email: string;
+  to_name?: string;
+  contact_id?: UUID;
+  variables: JsonObject;
+  status: TransactionalEmailStatus;
+  subject?: string;
+  message_id?: string;
+  provider?: string;
+  error_message?: string;
+  created_at: string;
+  sent_at?: string;
+}
+
+export interface TransactionalSendOptions {
+  idempotencyKey?: string;
+  // Categories in the service's bypass list are sent to unsubscribed contacts
+  category?: string;
+  from?: EmailAddress;
+  now?: Date;
+}
+
+export interface TransactionalSendResult {
+  id: UUID;
+  status: TransactionalEmailStatus;
+  message_id?: string;
+  error?: string;
+  // True when the result of an earlier send with the same key is returned
+  replayed: boolean;
+}
+
+// Global suppression list
+export type SuppressionReason =
+  | "hard_bounce"
+  | "soft_bounce"
+  | "complaint"
+  | "manual"
+  | "legal";
+
+// Blocks sends to one address, or to every address at a domain
+export interface SuppressionEntry {
+  id: UUID;
+  email?: string;
+  domain?: string;
+  reason: SuppressionReason;
+  source: string;
+  notes?: string;
+  // Soft suppressions stop applying at expires_at
+  expires_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SuppressionImportResult {
+  imported: number;
+  // Rows that were skipped, with their line numbers
+  errors: string[];
+}
+
+// Contact imports
+export type ContactImportFormat = "csv" | "tsv" | "jsonl" | "xlsx";
+// What happens to rows whose email already belongs to a contact
+export type ContactImportMode = "skip" | "upsert" | "overwrite";
+export type ContactImportJobStatus =
+  | "pending"
+  | "running"
+  | "paused"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+// Source column -> "email", "first_name", "last_name", "status",
+// "metadata.<key>" or "ignore"
+export type ContactImportColumnMapping = Record<string, string>;
+
+export interface ContactImportMappingProfile {
+  id: UUID;
+  name: string;
+  description?: string;
+  column_mapping: ContactImportColumnMapping;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ContactImportJob {
+  id: UUID;
+  file_name?: string;
+  format: ContactImportFormat;
+  mode: ContactImportMode;
+  status: ContactImportJobStatus;
+  // Contacts of every valid row are added to this list
+  list_id?: UUID;
+  mapping_profile_id?: UUID;
+  // Profile mapping merged with the job's own overrides
+  column_mapping: ContactImportColumnMapping;
+  // Header of tabular files, recorded by the first run
+  columns?: string[];
+  chunk_size: number;
+  // Source rows already imported; a resumed run continues after them
+  rows_processed: number;
+  created_count: number;
+  updated_count: number;
+  skipped_count: number;
+  error_count: number;
+  // Why the last run stopped, for failed jobs
+  error?: string;
+  started_at?: string;
+  completed_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ContactImportRowError {
+  id: UUID;
+  job_id: UUID;
+  // Data rows count from 1, not counting the header
+  row_number: number;
+  email?: string;
+  error: string;
+  // The row as read from the file
+  record: JsonObject;
+  created_at: string;
+}
+
+// Contact exports
+export type ContactExportFormat = "csv" | "jsonl";
+export type ContactExportJobStatus = ContactImportJobStatus;
+
+export interface ContactExportJob {
+  id: UUID;
+  file_name?: string;
+  format: ContactExportFormat;
+  status: ContactExportJobStatus;
+  filter: ContactFilter;
+  // Columns in order: contact fields, "metadata.<path>" or
+  // "engagement.<aggregate>"
+  fields: string[];
+  page_size: number;
+  // Matching contacts when the first run started
+  total_count?: number;
+  rows_exported: number;
+  // Resume point: the last contact written and the file size after it
+  last_contact_id?: UUID;
+  bytes_written: number;
+  // Why the last run stopped, for failed jobs
+  error?: string;
+  // The run holding a running job, and when it last made progress
+  run_id?: UUID;
+  heartbeat_at?: string;
+  started_at?: string;
+  completed_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 // Enhanced Result interfaces
 export interface ProcessQueueResult {
   processed_count: number;
@@ -230,6 +868,10 @@ export interface StartCampaignResult {
   queued_emails: number;
 }
 
+export interface DispatchWinnerResult extends StartCampaignResult {
+  winner_variant_id?: UUID;
+}
+
 export interface UpdateEmailStatusResult {
   success: boolean;
   message: string;
@@ -294,19 +936,24 @@ export interface CreateContact {
   last_name?: string;
   status?: ContactStatus;
   metadata?: JsonObject;
+  timezone?: string;
 }
 
 export interface CreateEmailTemplate {
   name: string;
   subject: string;
+  source_type?: TemplateSourceType;
   html_content?: string;
   text_content?: string;
   variables?: JsonObject;
+  default_locale?: string;
+  locales?: Record<string, TemplateLocaleVariant>;
 }
 
 // Enhanced Create Campaign interface
 export interface CreateEmailCampaign {
   template_id?: UUID;
+  template_version_id?: UUID;
   name: string;
   status?: CampaignStatus;
   scheduled_at?: string;
@@ -319,6 +966,8 @@ export interface CreateEmailCampaign {
   from_name?: string;
   subject?: string;
   priority?: number;
+  delivery_mode?: DeliveryMode;
+  local_send_time?: string;
 }
 
 export interface CreateEmailLog {
@@ -339,9 +988,108 @@ export interface CreateEmailQueue {
   priority?: number;
   scheduled_at?: string;
   max_attempts?: number;
+  variant_id?: UUID;
+  test_cohort?: boolean;
+  subject?: string;
+  from_name?: string;
+  template_id?: UUID;
+}
+
+export interface CreateRecurringCampaign {
+  name: string;
+  template_id?: UUID;
+  segment_id?: UUID;
+  contact_list_id?: UUID;
+  from_email?: string;
+  from_name?: string;
+  subject?: string;
+  priority?: number;
+  delivery_mode?: DeliveryMode;
+  local_send_time?: string;
+  schedule_type: RecurrenceScheduleType;
+  schedule_expression: string;
+  timezone?: string;
+  starts_at?: string;
+  ends_at?: string;
+}
+
+export interface CreateWorkflow {
+  name: string;
+  description?: string;
+  trigger_type: WorkflowTriggerType;
+  trigger_config?: WorkflowTriggerConfig;
+  steps: WorkflowStep[];
+  allow_reentry?: boolean;
+}
+
+export interface CreateSuppression {
+  email?: string;
+  domain?: string;
+  reason: SuppressionReason;
+  source?: string;
+  notes?: string;
+  expires_at?: string;
+}
+
+export interface CreateContactImportMappingProfile {
+  name: string;
+  description?: string;
+  column_mapping: ContactImportColumnMapping;
+}
+
+export interface CreateContactImportJob {
+  // Taken from the file name's extension when not given
+  format?: ContactImportFormat;
+  file_name?: string;
+  mode?: ContactImportMode;
+  list_id?: UUID;
+  mapping_profile_id?: UUID;
+  column_mapping?: ContactImportColumnMapping;
+  chunk_size?: number;
+}
+
+export interface CreateContactExportJob {
+  // Taken from the file name's extension when not given
+  format?: ContactExportFormat;
+  file_name?: string;
+  filter?: ContactFilter;
+  // Defaults to the contact fields and every custom field
+  fields?: string[];
+  page_size?: number;
+}
+
+export interface CreateCampaignVariant {
+  name: string;
+  subject?: string;
+  from_name?: string;
+  template_id?: UUID;
+  send_at?: string;
+}
+
+export interface CreateCampaignABTest {
+  test_percentage: number;
+  winner_metric: ABTestWinnerMetric;
+  wait_hours: number;
+  variants: CreateCampaignVariant[];
 }
 
 // Contact List Management types
+export interface CreateCustomField {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options?: string[];
+  required?: boolean;
+  default_value?: JsonValue;
+  indexed?: boolean;
+  description?: string;
+}
+
+// The key and type are fixed once contacts may hold values for the field
+export type UpdateCustomField = Partial<
+  Omit<CreateCustomField, "key" | "type">
+>;
+
 export interface CreateContactList {
   name: string;
   description?: string;
@@ -354,7 +1102,7 @@ export interface CreateSegment {
   name: string;
   description?: string;
   type?: SegmentType;
-  filter_criteria?: JsonObject;
+  filter_criteria?: SegmentFilterCriteria;
   contact_list_id?: UUID;
   created_by?: UUID;
   metadata?: JsonObject;
@@ -1,9 +1,17 @@
 import { JsonObject, JsonValue } from "./email-provider";
-import { EmailTemplate } from "./email-system";
+import {
+  CustomField,
+  EmailTemplate,
+  EmailTemplateVersion,
+  TemplatePartial,
+  TemplatePartialVersion,
+  TemplateSourceType,
+  TemplateVersionDiff,
+} from "./email-system";
 
 export interface TemplateVariable {
   name: string;
-  type: "string" | "number" | "boolean" | "date" | "url" | "email";
+  type: "string" | "number" | "boolean" | "date" | "url" | "email" | "array";
   required: boolean;
   defaultValue?: JsonValue;
   description?: string;
@@ -13,6 +21,8 @@ export interface TemplateVariable {
     maxLength?: number;
     min?: number;
     max?: number;
+    // Allowed values; for arrays, of each element
+    options?: string[];
   };
 }
 
@@ -24,6 +34,8 @@ export interface TemplateContext {
     first_name?: string;
     last_name?: string;
     full_name?: string;
+    /** BCP 47 locale, resolved from contact metadata */
+    locale?: string;
     metadata?: JsonObject;
   };
 
@@ -34,6 +46,10 @@ export interface TemplateContext {
     metadata?: JsonObject;
   };
 
+  // email_queue row being sent; tracking URLs carry it so events are
+  // recorded against this send
+  queue_id?: string;
+
   // System variables
   system: {
     unsubscribe_url: string;
@@ -43,6 +59,8 @@ export interface TemplateContext {
     company_address?: string;
     current_date: string;
     current_year: number;
+    /** Locale used by the formatting helpers */
+    locale?: string;
   };
 
   // Custom variables
@@ -62,7 +80,9 @@ export interface TemplateValidationError {
     | "missing_variable"
     | "invalid_helper"
     | "compilation"
-    | "security";
+    | "security"
+    | "missing_partial"
+    | "mjml";
   message: string;
   line?: number;
   column?: number;
@@ -86,11 +106,24 @@ export interface CompiledTemplate {
   id: string;
   name: string;
   subject: string;
+  /** Rendered-ready HTML; for MJML sources this is the compiled output */
   html: string;
   text: string;
+  source_type?: TemplateSourceType;
   variables: TemplateVariable[];
   compiled_at: Date;
   template_hash: string;
+  /** Partials and layouts this template uses, directly or transitively */
+  dependencies?: string[];
+  default_locale?: string;
+  /** Compiled locale variants, merged over the default content */
+  locales?: Record<string, CompiledLocaleVariant>;
+}
+
+export interface CompiledLocaleVariant {
+  subject: string;
+  html: string;
+  text: string;
 }
 
 export interface RenderResult {
@@ -106,11 +139,18 @@ export interface RenderResult {
     template_id: string;
     contact_id: string;
     campaign_id?: string;
+    /** Locale of the rendered content */
+    locale?: string;
     rendered_at: Date;
     variables_used: string[];
   };
+  /** Client compatibility findings from postprocessors */
+  warnings?: TemplateValidationWarning[];
 }
 
+// Email client families with distinct CSS support
+export type EmailClientFamily = "gmail" | "outlook" | "apple_mail" | "yahoo";
+
 export interface TemplateEngineConfig {
   // Handlebars configuration
   handlebars: {
@@ -155,6 +195,19 @@ export interface TemplateEngineConfig {
     allowStyleTags: boolean;
     sanitizeHtml: boolean;
   };
+
+  // Post-render processing
+  postprocessing: {
+    inlineCss: boolean;
+    preserveMediaQueries: boolean;
+    clientFamilies: EmailClientFamily[];
+  };
+
+  // Partials and layouts loaded from storage
+  partials?: {
+    /** Re-read storage when the loaded partials are older than this */
+    refreshIntervalMs: number;
+  };
 }
 
 export interface TemplateEngineStats {
@@ -181,6 +234,8 @@ export interface TemplateCache {
   get(templateId: string): CompiledTemplate | null;
   set(templateId: string, template: CompiledTemplate): void;
   invalidate(templateId: string): void;
+  /** Invalidate every cached template that depends on the given partial or layout */
+  invalidateDependents(dependency: string): string[];
   clear(): void;
   size(): number;
 }
@@ -189,19 +244,23 @@ export interface TrackingUrlGenerator {
   generatePixelUrl(
     templateId: string,
     contactId: string,
-    campaignId?: string
+    campaignId?: string,
+    queueId?: string
   ): string;
   generateUnsubscribeUrl(contactId: string, campaignId?: string): string;
   generateClickTrackingUrl(
     originalUrl: string,
     templateId: string,
     contactId: string,
-    campaignId?: string
+    campaignId?: string,
+    linkId?: string,
+    queueId?: string
   ): string;
   generateViewInBrowserUrl(
     templateId: string,
     contactId: string,
-    campaignId?: string
+    campaignId?: string,
+    queueId?: string
   ): string;
 }
 
@@ -216,6 +275,51 @@ export interface TemplateStorage {
   deleteTemplate(templateId: string): Promise<void>;
   listTemplates(limit?: number, offset?: number): Promise<EmailTemplate[]>;
   validateTemplate(templateId: string): Promise<TemplateValidationResult>;
+
+  // Version history
+  createDraftVersion(
+    templateId: string,
+    changes: Partial<
+      Pick<
+        EmailTemplate,
+        | "source_type"
+        | "subject"
+        | "html_content"
+        | "text_content"
+        | "variables"
+        | "locales"
+      >
+    >,
+    changeNote?: string
+  ): Promise<EmailTemplateVersion>;
+  publishVersion(versionId: string): Promise<EmailTemplateVersion>;
+  rollbackToVersion(
+    templateId: string,
+    versionNumber: number,
+    changeNote?: string
+  ): Promise<EmailTemplateVersion>;
+  listVersions(templateId: string): Promise<EmailTemplateVersion[]>;
+  getVersion(versionId: string): Promise<EmailTemplateVersion | null>;
+  diffVersions(
+    templateId: string,
+    fromVersion: number,
+    toVersion: number
+  ): Promise<TemplateVersionDiff>;
+  getCampaignTemplateVersion(
+    campaignId: string
+  ): Promise<EmailTemplateVersion | null>;
+
+  // Partials and layouts
+  listPartials(): Promise<TemplatePartial[]>;
+  listPartialVersions(
+    name: string,
+    type: TemplatePartial["type"]
+  ): Promise<TemplatePartialVersion[]>;
+  savePartial(
+    partial: Pick<TemplatePartial, "name" | "type" | "content"> &
+      Partial<TemplatePartial>
+  ): Promise<TemplatePartial>;
+  deletePartial(name: string, type: TemplatePartial["type"]): Promise<void>;
 }
 
 export interface TemplateRenderer {
@@ -276,10 +380,32 @@ export interface UnsubscribeConfig {
   footer_text: string;
 }
 
+export type TrackingEvent = "open" | "click" | "unsubscribe" | "view" | "preferences";
+
+export interface TrackingSigningKey {
+  /** Embedded in signed URLs as `kid` */
+  id: string;
+  secret: string;
+}
+
 export interface TrackingConfig {
   pixel_enabled: boolean;
   click_tracking_enabled: boolean;
   open_tracking_enabled: boolean;
+  /**
+   * HMAC keys for tracking URLs. The first key signs new URLs; every key is
+   * accepted when verifying, so old keys stay listed during rotation.
+   */
+  signing_keys?: TrackingSigningKey[];
+  /** Single signing secret, used as key id "default" when signing_keys is unset */
+  signing_secret?: string;
+  /**
+   * Lifetime of signed URLs; omit for links that never expire. Unsubscribe
+   * links must keep working for at least 30 days.
+   */
+  token_ttl_seconds?: number;
+  /** Mailbox for the List-Unsubscribe mailto: fallback */
+  unsubscribe_mailto?: string;
   utm_params?: {
     source?: string;
     medium?: string;
@@ -289,10 +415,41 @@ export interface TrackingConfig {
   };
 }
 
+export type TrackingUrlStatus =
+  | "valid"
+  | "expired"
+  | "bad_signature"
+  | "unknown_key"
+  | "malformed";
+
+export interface TrackingUrlVerification {
+  status: TrackingUrlStatus;
+  valid: boolean;
+  event?: TrackingEvent;
+  templateId?: string;
+  contactId?: string;
+  email?: string;
+  campaignId?: string;
+  /** email_queue row the email was sent from */
+  queueId?: string;
+  /** Click destination */
+  url?: string;
+  /** Link within the template, for per-link click analytics */
+  linkId?: string;
+  keyId?: string;
+  expiresAt?: number;
+}
+
 export interface TemplatePreprocessor {
   process(content: string, context: TemplateContext): Promise<string>;
 }
 
+// Custom contact field definitions, used to type-check the
+// {{contact.metadata.<key>}} variables templates use
+export interface CustomFieldSource {
+  listFields(): Promise<CustomField[]>;
+}
+
 export interface TemplatePostprocessor {
   process(
     rendered: RenderResult,
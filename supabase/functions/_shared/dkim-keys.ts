@@ -0,0 +1,80 @@
+// DKIM keys from the environment, shared by createDkimConfig in src and the
+// email-processor edge function's SMTP sends. Deno and Node both load this
+// file, so it must not import anything.
+
+export interface DkimKeyEnv {
+  domain: string;
+  selector: string;
+  // PEM
+  privateKey: string;
+  algorithm?: string;
+}
+
+// nodemailer's dkim option
+export interface NodemailerDkimOptions {
+  domainName: string;
+  keySelector: string;
+  privateKey: string;
+}
+
+/**
+ * Keys for each domain in DKIM_DOMAINS. Per-domain settings use the domain
+ * upper-cased with non-alphanumerics replaced by "_", e.g.
+ * DKIM_MOMENTUMBUSINESS_CAPITAL_SELECTOR for momentumbusiness.capital.
+ */
+export function parseDkimKeys(getEnv: (name: string) => string | undefined): DkimKeyEnv[] {
+  return (getEnv("DKIM_DOMAINS") || "")
+    .split(",")
+    .map((domain) => domain.trim())
+    .filter(Boolean)
+    .map((domain) => {
+      const prefix = dkimEnvPrefix(domain);
+      const selector = getEnv(`${prefix}_SELECTOR`);
+      const privateKey = getEnv(`${prefix}_PRIVATE_KEY`);
+
+      if (!selector || !privateKey) {
+        throw new Error(`${prefix}_SELECTOR and ${prefix}_PRIVATE_KEY are required for DKIM domain ${domain}`);
+      }
+
+      return {
+        domain: domain.toLowerCase(),
+        selector,
+        privateKey: decodePrivateKey(privateKey),
+        algorithm: getEnv(`${prefix}_ALGORITHM`) || undefined,
+      };
+    });
+}
+
+export function dkimEnvPrefix(domain: string): string {
+  return `DKIM_${domain.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+}
+
+/**
+ * nodemailer options signing with the key for the From domain, picked like
+ * DkimSigner does: the most specific domain that is the From domain or a
+ * parent of it. Undefined when no key matches, so the mail goes unsigned.
+ */
+export function nodemailerDkimOptions(keys: DkimKeyEnv[], fromEmail: string): NodemailerDkimOptions | undefined {
+  const fromDomain = fromEmail.slice(fromEmail.lastIndexOf("@") + 1).toLowerCase();
+  const key = keys
+    .filter((candidate) => fromDomain === candidate.domain || fromDomain.endsWith(`.${candidate.domain}`))
+    .sort((a, b) => b.domain.length - a.domain.length)[0];
+
+  if (!key) {
+    return undefined;
+  }
+  // nodemailer only signs rsa-sha256
+  if (key.algorithm && key.algorithm !== "rsa-sha256") {
+    throw new Error(`DKIM key for ${key.domain} uses ${key.algorithm}, but SMTP sends can only sign with rsa-sha256`);
+  }
+
+  return { domainName: key.domain, keySelector: key.selector, privateKey: key.privateKey };
+}
+
+// Keys may be PEM with escaped newlines or base64-encoded PEM
+function decodePrivateKey(value: string): string {
+  if (value.includes("-----BEGIN")) {
+    return value.replace(/\\n/g, "\n");
+  }
+  return atob(value);
+}
@@ -0,0 +1,125 @@
+// Machine engagement rules, shared by EngagementClassifier in src and the
+// webhook-mailtrap edge function. Deno and Node both load this file, so it
+// must not import anything.
+
+export type MachineEngagementReason =
+  | "missing_user_agent"
+  | "bot_user_agent"
+  | "apple_mpp"
+  | "instant_click"
+  | "link_scanner_burst";
+
+export interface EngagementEvent {
+  event: string;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  url?: string | null;
+  timestamp: Date;
+}
+
+export interface EngagementHistory {
+  deliveredAt?: Date | null;
+  sentAt?: Date | null;
+  // Earlier clicks on the same email
+  clicks?: Array<{
+    id: string;
+    url?: string | null;
+    timestamp: Date;
+    isMachine?: boolean;
+  }>;
+}
+
+export interface EngagementClassification {
+  isMachine: boolean;
+  reason?: MachineEngagementReason;
+  // Earlier clicks this event reveals as part of a scanner burst
+  reclassifyIds: string[];
+}
+
+export interface EngagementClassifierOptions {
+  // Clicks sooner than this after delivery come from link scanners
+  instantClickSeconds: number;
+  // This many distinct links clicked within the burst window is a scanner
+  burstMinLinks: number;
+  burstWindowSeconds: number;
+}
+
+export const DEFAULT_ENGAGEMENT_CLASSIFIER_OPTIONS: EngagementClassifierOptions = {
+  instantClickSeconds: 10,
+  burstMinLinks: 3,
+  burstWindowSeconds: 5,
+};
+
+// Security gateways, link previewers and HTTP libraries. Gmail and Yahoo
+// image proxies fetch on a real open and are deliberately not listed.
+const BOT_USER_AGENT_PATTERN =
+  /bot\b|crawler|spider|scanner|headless|phantomjs|python-requests|python-urllib|curl\/|wget\/|go-http-client|java\/|okhttp|libwww|httpclient|barracuda|mimecast|proofpoint|symantec|messagelabs|trendmicro|safelinks|slackbot|linkexpanding|facebookexternalhit|skypeuripreview/i;
+
+// Apple Mail Privacy Protection prefetches with a bare user agent from
+// Apple's network
+const APPLE_MPP_USER_AGENT = "Mozilla/5.0";
+const APPLE_IP_PREFIXES = ["17.", "2620:149:", "2a01:b740:"];
+
+/**
+ * Whether a tracking event came from a machine rather than the recipient.
+ * history.clicks only needs the clicks within burstWindowSeconds before
+ * the event.
+ */
+export function classifyEngagement(
+  event: EngagementEvent,
+  history: EngagementHistory = {},
+  options: EngagementClassifierOptions = DEFAULT_ENGAGEMENT_CLASSIFIER_OPTIONS
+): EngagementClassification {
+  // Unsubscribes always need a deliberate POST
+  if (event.event !== "open" && event.event !== "click") {
+    return { isMachine: false, reclassifyIds: [] };
+  }
+
+  const userAgent = event.userAgent?.trim();
+  if (!userAgent) {
+    return machine("missing_user_agent");
+  }
+  if (BOT_USER_AGENT_PATTERN.test(userAgent)) {
+    return machine("bot_user_agent");
+  }
+
+  if (event.event === "open") {
+    const ip = (event.ipAddress || "").toLowerCase();
+    return userAgent === APPLE_MPP_USER_AGENT ||
+      APPLE_IP_PREFIXES.some((prefix) => ip.startsWith(prefix))
+      ? machine("apple_mpp")
+      : { isMachine: false, reclassifyIds: [] };
+  }
+
+  const deliveredAt = history.deliveredAt || history.sentAt;
+  if (
+    deliveredAt &&
+    event.timestamp.getTime() - deliveredAt.getTime() <
+      options.instantClickSeconds * 1000
+  ) {
+    return machine("instant_click");
+  }
+
+  const windowStart =
+    event.timestamp.getTime() - options.burstWindowSeconds * 1000;
+  const burst = (history.clicks || []).filter(
+    (click) =>
+      click.timestamp.getTime() >= windowStart &&
+      click.timestamp.getTime() <= event.timestamp.getTime()
+  );
+  const links = new Set([...burst.map((click) => click.url), event.url]);
+  if (links.size >= options.burstMinLinks) {
+    return {
+      ...machine("link_scanner_burst"),
+      reclassifyIds: burst
+        .filter((click) => !click.isMachine)
+        .map((click) => click.id),
+    };
+  }
+
+  return { isMachine: false, reclassifyIds: [] };
+}
+
+function machine(reason: MachineEngagementReason): EngagementClassification {
+  return { isMachine: true, reason, reclassifyIds: [] };
+}
@@ -0,0 +1,31 @@
+// Routing details of a send as email_logs.tracking_data records them, for
+// ProviderRouter results in src and the email-processor edge function. Deno
+// and Node both load this file, so it must not import anything.
+
+export interface RoutingSkip {
+  provider: string;
+  // Why the provider was passed over, e.g. "circuit_open" or "rate_limited"
+  reason: string;
+  error?: string | null;
+}
+
+/**
+ * provider is null when every provider was skipped or failed
+ */
+export function buildRoutingTrackingData(
+  provider: string | null,
+  attempted: string[],
+  skipped: RoutingSkip[]
+): Record<string, unknown> {
+  return {
+    provider,
+    failed_over: provider !== null && skipped.length > 0,
+    failover_reason: provider !== null ? skipped[0]?.reason || null : null,
+    attempted_providers: attempted,
+    skipped_providers: skipped.map((skip) => ({
+      provider: skip.provider,
+      reason: skip.reason,
+      error: skip.error || null,
+    })),
+  };
+}
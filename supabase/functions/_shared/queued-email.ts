@@ -0,0 +1,281 @@
+// How the email-processor edge function sends an email_queue row. Deno and
+// Node both load this file, so it must not import anything.
+
+// The email_queue columns the processor reads
+export interface QueuedEmail {
+  id: string;
+  email_address: string;
+  // Set per row, e.g. from an A/B test variant
+  subject?: string | null;
+  from_name?: string | null;
+  template_id?: string | null;
+  template_data?: Record<string, unknown> | null;
+  campaign_id?: string | null;
+  contact_id?: string | null;
+  variant_id?: string | null;
+  attempts: number;
+  max_attempts: number;
+}
+
+export interface QueuedEmailCampaign {
+  subject?: string | null;
+  from_name?: string | null;
+  from_email?: string | null;
+  template_id?: string | null;
+}
+
+export interface QueuedEmailTemplate {
+  id: string;
+  subject: string;
+  html_content?: string | null;
+  text_content?: string | null;
+  source_type?: string | null;
+}
+
+// Compiles and runs a Handlebars template
+export type QueuedEmailRenderer = (source: string, data: Record<string, unknown>) => string;
+
+export interface QueuedEmailDefaults {
+  fromEmail: string;
+  fromName: string;
+}
+
+export interface QueuedMessage {
+  from: { email: string; name: string };
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+  customVariables: Record<string, string>;
+}
+
+export interface QueuedSend {
+  messageId: string;
+  // Merged into the email_logs row's tracking_data
+  trackingData: Record<string, unknown>;
+}
+
+export interface QueuedEmailContext {
+  // supabase-js client with the service role key
+  supabase: any;
+  defaults: QueuedEmailDefaults;
+  render: QueuedEmailRenderer;
+  headers(item: QueuedEmail): Promise<Record<string, string> | undefined>;
+  send(message: QueuedMessage): Promise<QueuedSend>;
+  // tracking_data recorded for a send that threw
+  failureTrackingData(error: unknown): Record<string, unknown>;
+}
+
+export interface QueuedEmailResult {
+  success: boolean;
+  suppressed?: boolean;
+  error?: string;
+}
+
+/**
+ * Renders the row's template with its template_data. The row's own subject
+ * and sender come first, then the campaign's, then the template's subject
+ * and the processor defaults.
+ */
+export function buildQueuedMessage(
+  item: QueuedEmail,
+  campaign: QueuedEmailCampaign | null,
+  template: QueuedEmailTemplate,
+  defaults: QueuedEmailDefaults,
+  render: QueuedEmailRenderer
+): QueuedMessage {
+  // MJML needs the API's template engine to compile
+  if (template.source_type === "mjml") {
+    throw new Error(`Template ${template.id} is MJML, which the email processor cannot render`);
+  }
+  if (!template.html_content) {
+    throw new Error(`Template ${template.id} has no HTML content`);
+  }
+
+  const subject = item.subject || campaign?.subject || template.subject;
+  if (!subject) {
+    throw new Error(`Queued email ${item.id} has no subject`);
+  }
+
+  // Templates address the recipient as contact.*, like TemplateContext;
+  // template_data carries the contact's fields at the top level
+  const fields = item.template_data || {};
+  const data = {
+    ...fields,
+    contact: {
+      id: item.contact_id,
+      email: item.email_address,
+      first_name: fields.first_name,
+      last_name: fields.last_name,
+      metadata: fields.metadata,
+    },
+  };
+
+  const customVariables: Record<string, string> = { queue_id: item.id };
+  if (item.campaign_id) {
+    customVariables.campaign_id = item.campaign_id;
+  }
+  if (item.variant_id) {
+    customVariables.variant_id = item.variant_id;
+  }
+
+  return {
+    from: {
+      email: campaign?.from_email || defaults.fromEmail,
+      name: item.from_name || campaign?.from_name || defaults.fromName,
+    },
+    to: item.email_address,
+    subject: render(subject, data),
+    html: render(template.html_content, data),
+    text: template.text_content ? render(template.text_content, data) : undefined,
+    customVariables,
+  };
+}
+
+/**
+ * Sends one pending row and records the outcome on it. Suppressed addresses
+ * are cancelled without a send; failed sends go back to pending with
+ * exponential backoff until max_attempts.
+ */
+export async function processQueuedEmail(
+  item: QueuedEmail,
+  context: QueuedEmailContext
+): Promise<QueuedEmailResult> {
+  const { supabase } = context;
+  const attempts = item.attempts + 1;
+  let message: QueuedMessage;
+  let sent: QueuedSend;
+
+  try {
+    console.log(`📤 Processing email ${item.id} to ${item.email_address}`);
+
+    // Never hand suppressed addresses to the provider
+    const { data: suppressionReason, error: suppressionError } = await supabase.rpc(
+      "get_suppression_reason",
+      { p_email: item.email_address }
+    );
+
+    if (suppressionError) {
+      throw new Error(`Suppression check failed: ${suppressionError.message}`);
+    }
+
+    if (suppressionReason) {
+      await updateQueuedEmail(supabase, item.id, {
+        status: "cancelled",
+        error_message: `Address is suppressed: ${suppressionReason}`,
+        processed_at: new Date().toISOString(),
+      });
+
+      console.log(`🚫 Email ${item.id} to ${item.email_address} skipped (suppressed: ${suppressionReason})`);
+      return { success: true, suppressed: true };
+    }
+
+    await updateQueuedEmail(supabase, item.id, { status: "processing", attempts });
+
+    const campaign = item.campaign_id ? await loadCampaign(item.campaign_id, supabase) : null;
+    const templateId = item.template_id || campaign?.template_id;
+    const template = templateId ? await loadTemplate(templateId, supabase) : null;
+    if (!template) {
+      throw new Error(`Queued email ${item.id} has no template`);
+    }
+
+    message = buildQueuedMessage(item, campaign, template, context.defaults, context.render);
+    sent = await context.send({ ...message, headers: await context.headers(item) });
+  } catch (error) {
+    console.error(`❌ Failed to process email ${item.id}:`, error);
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const failed = attempts >= item.max_attempts;
+
+    await updateQueuedEmail(supabase, item.id, {
+      status: failed ? "failed" : "pending",
+      attempts,
+      error_message: errorMessage,
+      // Exponential backoff before the next attempt
+      scheduled_at: failed ? undefined : new Date(Date.now() + Math.pow(2, attempts) * 60000).toISOString(),
+      processed_at: failed ? new Date().toISOString() : null,
+    });
+
+    await insertEmailLog(supabase, item, {
+      status: "failed",
+      tracking_data: {
+        error: errorMessage,
+        attempts,
+        failed_at: new Date().toISOString(),
+        ...context.failureTrackingData(error),
+      },
+    });
+
+    return { success: false, error: errorMessage };
+  }
+
+  // The email is out, so a failure from here on must not queue it again:
+  // the row stays processing and the error reaches the caller
+  await insertEmailLog(supabase, item, {
+    status: "sent",
+    mailtrap_message_id: sent.messageId,
+    sent_at: new Date().toISOString(),
+    tracking_data: {
+      queue_processed_at: new Date().toISOString(),
+      subject: message.subject,
+      from_email: message.from.email,
+      ...sent.trackingData,
+    },
+  });
+
+  await updateQueuedEmail(supabase, item.id, {
+    status: "sent",
+    processed_at: new Date().toISOString(),
+  });
+
+  console.log(`✅ Email ${item.id} sent (Message ID: ${sent.messageId})`);
+  return { success: true };
+}
+
+async function updateQueuedEmail(supabase: any, id: string, updates: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase.from("email_queue").update(updates).eq("id", id);
+  if (error) {
+    throw new Error(`Failed to update queued email ${id}: ${error.message}`);
+  }
+}
+
+async function insertEmailLog(supabase: any, item: QueuedEmail, fields: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase.from("email_logs").insert({
+    email: item.email_address,
+    contact_id: item.contact_id,
+    campaign_id: item.campaign_id,
+    queue_id: item.id,
+    variant_id: item.variant_id,
+    ...fields,
+  });
+  if (error) {
+    throw new Error(`Failed to log queued email ${item.id}: ${error.message}`);
+  }
+}
+
+async function loadCampaign(campaignId: string, supabase: any): Promise<QueuedEmailCampaign | null> {
+  const { data, error } = await supabase
+    .from("email_campaigns")
+    .select("subject, from_name, from_email, template_id")
+    .eq("id", campaignId)
+    .single();
+
+  if (error && error.code !== "PGRST116") {
+    throw new Error(`Failed to load campaign ${campaignId}: ${error.message}`);
+  }
+  return data;
+}
+
+async function loadTemplate(templateId: string, supabase: any): Promise<QueuedEmailTemplate | null> {
+  const { data, error } = await supabase
+    .from("email_templates")
+    .select("id, subject, html_content, text_content, source_type")
+    .eq("id", templateId)
+    .single();
+
+  if (error && error.code !== "PGRST116") {
+    throw new Error(`Failed to load template ${templateId}: ${error.message}`);
+  }
+  return data;
+}
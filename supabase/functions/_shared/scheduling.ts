@@ -0,0 +1,512 @@
+// Delivery and recurring campaign scheduling, shared by the services in src
+// and the campaign-scheduler edge function. Deno and Node both load this file, so it
+// must not import anything.
+
+export interface SendTimePlan {
+  scheduled_at?: string | null;
+  // immediate, local_time or optimized
+  delivery_mode?: string | null;
+  local_send_time?: string | null;
+}
+
+export interface SendTimeRecipient {
+  contactId: string;
+  timezone?: string | null;
+}
+
+export const DEFAULT_LOCAL_SEND_TIME = "09:00";
+const LOCAL_TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)(?::[0-5]\d)?$/;
+
+/**
+ * Scheduled send time per contact id: immediately, at local_send_time in
+ * the contact's timezone, or at the contact's best local hour from
+ * bestHours. Delivery starts at the campaign's scheduled_at (or now), and
+ * every contact is sent within the next day.
+ */
+export function planSendTimes(
+  campaign: SendTimePlan,
+  recipients: SendTimeRecipient[],
+  bestHours: Map<string, number>,
+  defaultTimeZone: string,
+  now: Date = new Date()
+): Map<string, Date> {
+  const start = campaign.scheduled_at
+    ? new Date(Math.max(now.getTime(), new Date(campaign.scheduled_at).getTime()))
+    : now;
+  const schedule = new Map<string, Date>();
+
+  if ((campaign.delivery_mode || "immediate") === "immediate") {
+    recipients.forEach((recipient) => schedule.set(recipient.contactId, start));
+    return schedule;
+  }
+
+  const localTime = parseLocalTime(
+    campaign.local_send_time || DEFAULT_LOCAL_SEND_TIME
+  );
+  for (const recipient of recipients) {
+    const timeZone = resolveTimeZone(recipient.timezone, defaultTimeZone);
+    const bestHour = bestHours.get(recipient.contactId);
+    schedule.set(
+      recipient.contactId,
+      bestHour === undefined
+        ? nextLocalTime(start, localTime.hour, localTime.minute, timeZone)
+        : nextLocalTime(start, bestHour, 0, timeZone)
+    );
+  }
+
+  return schedule;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function resolveTimeZone(
+  timeZone: string | null | undefined,
+  fallback: string
+): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : fallback;
+}
+
+export function parseLocalTime(value: string): { hour: number; minute: number } {
+  const match = LOCAL_TIME_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid local send time: ${value}`);
+  }
+  return { hour: parseInt(match[1], 10), minute: parseInt(match[2], 10) };
+}
+
+/**
+ * Milliseconds the timezone is ahead of UTC at the given instant
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const part = (type: string): number =>
+    parseInt(parts.find((p) => p.type === type)?.value || "0", 10);
+
+  const asUtc = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * First instant at or after `after` when the local clock in the timezone
+ * reads hour:minute. Times skipped by a DST jump resolve an hour earlier and
+ * repeated times to their first occurrence.
+ */
+export function nextLocalTime(
+  after: Date,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const local = new Date(after.getTime() + getTimeZoneOffset(after, timeZone));
+  const atDay = (dayOffset: number): Date =>
+    zonedTimeToUtc(
+      local.getUTCFullYear(),
+      local.getUTCMonth(),
+      local.getUTCDate() + dayOffset,
+      hour,
+      minute,
+      timeZone
+    );
+
+  const today = atDay(0);
+  return today.getTime() >= after.getTime() ? today : atDay(1);
+}
+
+/**
+ * Instant at which the local clock in the timezone reads the given wall-clock
+ * time; month is zero-based and out-of-range days roll over as in Date.UTC
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month, day, hour, minute);
+  // The offset at the wall-clock time can differ from the offset at the
+  // result across a DST change, so correct once with the result's offset
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * A schedule compiled to the local times of day it fires at and a test for
+ * the local calendar days it fires on
+ */
+export interface RecurrenceRule {
+  hours: number[];
+  minutes: number[];
+  matchesDay: (day: LocalDay) => boolean;
+  // RRULE COUNT and UNTIL
+  count?: number;
+  until?: Date;
+}
+
+export interface LocalDay {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+  // 0 is Sunday
+  weekday: number;
+}
+
+export interface RecurrenceDefinition {
+  schedule_type: "cron" | "rrule";
+  schedule_expression: string;
+  timezone: string;
+  starts_at: string;
+  ends_at?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Far enough ahead for 29 February and yearly-sized intervals
+const MAX_LOOKAHEAD_DAYS = 366 * 8;
+
+const CRON_MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const CRON_DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+const RRULE_DAY_NAMES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+/**
+ * Five-field cron expression (minute hour day-of-month month day-of-week)
+ * with lists, ranges, steps, month and weekday names, and the @daily style
+ * macros. As in Vixie cron, a day matches either day field when both are
+ * restricted.
+ */
+export function parseCronExpression(expression: string): RecurrenceRule {
+  const source = CRON_MACROS[expression.trim().toLowerCase()] || expression;
+  const fields = source.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minuteField, hourField, dayField, monthField, weekdayField] = fields;
+  const minutes = parseCronField(expression, minuteField, 0, 59);
+  const hours = parseCronField(expression, hourField, 0, 23);
+  const days = new Set(parseCronField(expression, dayField, 1, 31));
+  const months = new Set(parseCronField(expression, monthField, 1, 12, MONTH_NAMES, 1));
+  // 7 is also Sunday
+  const weekdays = new Set(
+    parseCronField(expression, weekdayField, 0, 7, CRON_DAY_NAMES, 0).map((d) => d % 7)
+  );
+  const dayRestricted = !dayField.startsWith("*");
+  const weekdayRestricted = !weekdayField.startsWith("*");
+
+  return {
+    hours,
+    minutes,
+    matchesDay: (date): boolean => {
+      if (!months.has(date.month)) {
+        return false;
+      }
+      if (dayRestricted && weekdayRestricted) {
+        return days.has(date.day) || weekdays.has(date.weekday);
+      }
+      return days.has(date.day) && weekdays.has(date.weekday);
+    },
+  };
+}
+
+function parseCronField(
+  expression: string,
+  field: string,
+  min: number,
+  max: number,
+  names: string[] = [],
+  nameOffset = 0
+): number[] {
+  const fail = (): never => {
+    throw new Error(`Invalid cron expression "${expression}": bad field "${field}"`);
+  };
+  const toNumber = (value: string): number => {
+    const named = names.indexOf(value.toUpperCase());
+    const number = named >= 0 ? named + nameOffset : /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+    return Number.isNaN(number) || number < min || number > max ? fail() : number;
+  };
+
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : /^\d+$/.test(stepText) ? parseInt(stepText, 10) : 0;
+    if (step < 1) {
+      fail();
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      [start, end] = [min, max];
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      [start, end] = [toNumber(from), toNumber(to)];
+    } else {
+      start = toNumber(range);
+      // 5/15 runs from 5 to the end of the range
+      end = stepText === undefined ? start : max;
+    }
+    if (start > end) {
+      fail();
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * RFC 5545 recurrence rule with FREQ DAILY, WEEKLY or MONTHLY, INTERVAL,
+ * BYDAY (with ordinals such as -1FR for MONTHLY), BYMONTHDAY, BYMONTH,
+ * BYHOUR, BYMINUTE, COUNT and UNTIL. The anchor plays the part of DTSTART:
+ * intervals count from it and it supplies the time and day left unset.
+ */
+export function parseRRule(rule: string, anchor: Date, timeZone: string): RecurrenceRule {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid RRULE "${rule}": ${reason}`);
+  };
+  const parts = new Map<string, string>();
+  for (const part of rule.trim().replace(/^RRULE:/i, "").split(";")) {
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) {
+      fail(`bad part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  // Only BYMONTHDAY counts back from the end with negative values
+  const numbers = (key: string, min: number, max: number, signed = false): number[] | undefined => {
+    const value = parts.get(key);
+    if (value === undefined) {
+      return undefined;
+    }
+    return value.split(",").map((item) => {
+      const number = /^[+-]?\d+$/.test(item) ? parseInt(item, 10) : NaN;
+      return Number.isNaN(number) ||
+        (number < 0 && !signed) ||
+        Math.abs(number) < min ||
+        Math.abs(number) > max
+        ? fail(`bad ${key} "${item}"`)
+        : number;
+    });
+  };
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    return fail("FREQ must be DAILY, WEEKLY or MONTHLY");
+  }
+  const interval = numbers("INTERVAL", 1, 1000)?.[0] ?? 1;
+
+  const start = toLocalDay(anchor, timeZone);
+  const startLocal = new Date(anchor.getTime() + getTimeZoneOffset(anchor, timeZone));
+  const hours = numbers("BYHOUR", 0, 23) ?? [startLocal.getUTCHours()];
+  const minutes = numbers("BYMINUTE", 0, 59) ?? [startLocal.getUTCMinutes()];
+  const months = numbers("BYMONTH", 1, 12);
+  let monthDays = numbers("BYMONTHDAY", 1, 31, true);
+
+  const byDay = parts.get("BYDAY")?.split(",").map((item) => {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+    if (!match || (match[1] && (freq !== "MONTHLY" || parseInt(match[1], 10) === 0))) {
+      return fail(`bad BYDAY "${item}"`);
+    }
+    return {
+      ordinal: match[1] ? parseInt(match[1], 10) : undefined,
+      weekday: RRULE_DAY_NAMES.indexOf(match[2]),
+    };
+  });
+  const weekdays =
+    byDay ?? (freq === "WEEKLY" ? [{ ordinal: undefined, weekday: start.weekday }] : undefined);
+  if (freq === "MONTHLY" && !weekdays && !monthDays) {
+    monthDays = [start.day];
+  }
+
+  const until = parts.get("UNTIL");
+  const untilMatch = until && /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(until);
+  if (until && !untilMatch) {
+    fail("UNTIL must be YYYYMMDD or YYYYMMDDTHHMMSSZ");
+  }
+  const count = numbers("COUNT", 1, 100000)?.[0];
+
+  const startDay = dayNumber(start);
+  return {
+    hours: [...new Set(hours)].sort((a, b) => a - b),
+    minutes: [...new Set(minutes)].sort((a, b) => a - b),
+    count,
+    until: untilMatch
+      ? untilMatch[4]
+        ? new Date(
+            Date.UTC(+untilMatch[1], +untilMatch[2] - 1, +untilMatch[3], +untilMatch[4], +untilMatch[5], +untilMatch[6])
+          )
+        : zonedTimeToUtc(+untilMatch[1], +untilMatch[2] - 1, +untilMatch[3], 23, 59, timeZone)
+      : undefined,
+    matchesDay: (date): boolean => {
+      const day = dayNumber(date);
+      if (day < startDay || (months && !months.includes(date.month))) {
+        return false;
+      }
+
+      if (freq === "DAILY" && (day - startDay) % interval !== 0) {
+        return false;
+      }
+      // Weeks start on Monday, as with the default WKST
+      if (
+        freq === "WEEKLY" &&
+        (Math.floor((day - mondayOffset(date)) / 7) -
+          Math.floor((startDay - mondayOffset(start)) / 7)) %
+          interval !==
+          0
+      ) {
+        return false;
+      }
+      if (
+        freq === "MONTHLY" &&
+        (date.year * 12 + date.month - (start.year * 12 + start.month)) % interval !== 0
+      ) {
+        return false;
+      }
+
+      const daysInMonth = new Date(Date.UTC(date.year, date.month, 0)).getUTCDate();
+      if (
+        monthDays &&
+        !monthDays.some((d) => (d > 0 ? d : daysInMonth + d + 1) === date.day)
+      ) {
+        return false;
+      }
+      return (
+        !weekdays ||
+        weekdays.some(
+          ({ ordinal, weekday }) =>
+            weekday === date.weekday &&
+            (ordinal === undefined ||
+              (ordinal > 0
+                ? Math.ceil(date.day / 7) === ordinal
+                : Math.ceil((daysInMonth - date.day + 1) / 7) === -ordinal))
+        )
+      );
+    },
+  };
+}
+
+export function parseSchedule(definition: RecurrenceDefinition): RecurrenceRule {
+  return definition.schedule_type === "cron"
+    ? parseCronExpression(definition.schedule_expression)
+    : parseRRule(
+        definition.schedule_expression,
+        new Date(definition.starts_at),
+        definition.timezone
+      );
+}
+
+/**
+ * First time strictly after `after` the rule fires in the timezone, or null
+ * when it never fires again
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  after: Date,
+  timeZone: string
+): Date | null {
+  const local = toLocalDay(after, timeZone);
+
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const date = toLocalDay(
+      new Date(Date.UTC(local.year, local.month - 1, local.day + offset)),
+      "UTC"
+    );
+    if (!rule.matchesDay(date)) {
+      continue;
+    }
+
+    for (const hour of rule.hours) {
+      for (const minute of rule.minutes) {
+        const candidate = zonedTimeToUtc(date.year, date.month - 1, date.day, hour, minute, timeZone);
+        if (candidate.getTime() <= after.getTime()) {
+          continue;
+        }
+        return rule.until && candidate > rule.until ? null : candidate;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Next run of a recurring campaign after `after`, or null once it has ended.
+ * runCount is the number of runs spawned so far; RRULE COUNT limits it.
+ */
+export function getNextRunAt(
+  definition: RecurrenceDefinition,
+  after: Date,
+  runCount = 0
+): Date | null {
+  const rule = parseSchedule(definition);
+  if (rule.count !== undefined && runCount >= rule.count) {
+    return null;
+  }
+
+  // The first run may fall exactly on starts_at
+  const startsAt = new Date(definition.starts_at).getTime() - 1;
+  const next = getNextOccurrence(
+    rule,
+    new Date(Math.max(after.getTime(), startsAt)),
+    definition.timezone
+  );
+  if (!next || (definition.ends_at && next > new Date(definition.ends_at))) {
+    return null;
+  }
+  return next;
+}
+
+function toLocalDay(date: Date, timeZone: string): LocalDay {
+  const local = new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+  return {
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth() + 1,
+    day: local.getUTCDate(),
+    weekday: local.getUTCDay(),
+  };
+}
+
+function dayNumber(date: LocalDay): number {
+  return Date.UTC(date.year, date.month - 1, date.day) / DAY_MS;
+}
+
+// Days since the Monday of the date's week
+function mondayOffset(date: LocalDay): number {
+  return (date.weekday + 6) % 7;
+}
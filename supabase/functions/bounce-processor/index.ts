@@ -6,6 +6,9 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// How long excessive soft bounces suppress an address
+const SOFT_BOUNCE_SUPPRESSION_DAYS = 30;
+
 interface BounceNotification {
   email: string;
   bounce_type: 'hard' | 'soft' | 'spam' | 'complaint';
@@ -395,6 +398,21 @@ async function checkAndSuppressContact(notification: any, supabase: any) {
         })
         .eq('email', notification.email);
 
+      // Soft suppression; the address is tried again once it expires
+      await supabase
+        .from('suppression_list')
+        .upsert({
+          email: notification.email.trim().toLowerCase(),
+          reason: 'soft_bounce',
+          source: 'bounce-processor',
+          notes: 'Too many soft bounces',
+          expires_at: new Date(Date.now() + SOFT_BOUNCE_SUPPRESSION_DAYS * 86400000).toISOString(),
+          updated_at: new Date().toISOString()
+        }, {
+          onConflict: 'email',
+          ignoreDuplicates: true
+        });
+
       console.log(`🚫 Contact ${notification.email} suppressed due to excessive soft bounces`);
     }
 
@@ -403,10 +421,13 @@ async function checkAndSuppressContact(notification: any, supabase: any) {
       await supabase
         .from('suppression_list')
         .upsert({
-          email: notification.email,
-          reason: notification.bounce_type,
-          suppressed_at: new Date().toISOString(),
-          created_at: new Date().toISOString()
+          email: notification.email.trim().toLowerCase(),
+          reason: notification.bounce_type === 'hard' ? 'hard_bounce' : 'complaint',
+          source: 'bounce-processor',
+          notes: notification.bounce_reason,
+          // Replaces any soft suppression with a permanent one
+          expires_at: null,
+          updated_at: new Date().toISOString()
         }, {
           onConflict: 'email',
           ignoreDuplicates: false
@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  getNextRunAt,
+  planSendTimes,
+  resolveTimeZone
+} from "../_shared/scheduling.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,17 +23,34 @@ interface EmailCampaign {
   scheduled_at: string;
   total_recipients?: number;
   priority: number;
+  delivery_mode?: 'immediate' | 'local_time' | 'optimized';
+  local_send_time?: string;
   created_at: string;
   updated_at: string;
 }
 
 interface CampaignRecipient {
+  id: string;
   email: string;
   name?: string;
+  timezone?: string | null;
   variables?: Record<string, any>;
 }
 
+interface RecurringCampaign {
+  id: string;
+  name: string;
+  schedule_type: 'cron' | 'rrule';
+  schedule_expression: string;
+  timezone: string;
+  starts_at: string;
+  ends_at?: string;
+  next_run_at: string;
+  run_count: number;
+}
+
 interface SchedulingResult {
+  recurringRunsSpawned: number;
   processed: number;
   successful: number;
   failed: number;
@@ -57,6 +79,7 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
     const batchSize = parseInt(Deno.env.get('CAMPAIGN_BATCH_SIZE') || '100');
+    const defaultTimeZone = resolveTimeZone(Deno.env.get('DEFAULT_CONTACT_TIMEZONE'), 'UTC');
 
     if (!supabaseUrl || !supabaseKey) {
       console.error('❌ Missing Supabase configuration');
@@ -77,6 +100,9 @@ serve(async (req) => {
     // Initialize Supabase client with service role key for full access
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    // Spawn due runs of recurring campaigns first, so they start below
+    const recurringRunsSpawned = await spawnRecurringRuns(supabase, batchSize);
+
     // Get scheduled campaigns that are ready to start
     const currentTime = new Date().toISOString();
     const { data: scheduledCampaigns, error: fetchError } = await supabase
@@ -104,6 +130,7 @@ serve(async (req) => {
         JSON.stringify({
           success: true,
           message: 'No scheduled campaigns ready to start',
+          recurringRunsSpawned,
           processed: 0
         }),
         {
@@ -116,6 +143,7 @@ serve(async (req) => {
     console.log(`📨 Processing ${scheduledCampaigns.length} scheduled campaigns...`);
 
     const result: SchedulingResult = {
+      recurringRunsSpawned,
       processed: 0,
       successful: 0,
       failed: 0,
@@ -125,7 +153,7 @@ serve(async (req) => {
 
     // Process each campaign
     for (const campaign of scheduledCampaigns) {
-      const campaignResult = await processCampaign(campaign, supabase);
+      const campaignResult = await processCampaign(campaign, supabase, defaultTimeZone);
       result.processed++;
 
       if (campaignResult.success) {
@@ -138,6 +166,7 @@ serve(async (req) => {
     }
 
     console.log('📊 Campaign scheduling completed:', {
+      recurringRunsSpawned: result.recurringRunsSpawned,
       processed: result.processed,
       successful: result.successful,
       failed: result.failed,
@@ -150,6 +179,7 @@ serve(async (req) => {
         success: true,
         message: 'Campaign scheduling completed',
         result: {
+          recurringRunsSpawned: result.recurringRunsSpawned,
           processed: result.processed,
           successful: result.successful,
           failed: result.failed,
@@ -180,9 +210,54 @@ serve(async (req) => {
   }
 });
 
+async function spawnRecurringRuns(supabase: any, batchSize: number): Promise<number> {
+  const now = new Date();
+  const { data: dueRecurring, error: fetchError } = await supabase
+    .from('recurring_campaigns')
+    .select('*')
+    .eq('status', 'active')
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(batchSize);
+
+  if (fetchError) {
+    console.error('❌ Failed to fetch due recurring campaigns:', fetchError);
+    return 0;
+  }
+
+  let spawned = 0;
+  for (const recurring of (dueRecurring || []) as RecurringCampaign[]) {
+    try {
+      // Occurrences missed while the scheduler was not running are skipped
+      const nextRunAt = getNextRunAt(recurring, now, recurring.run_count + 1);
+      const { data: campaignId, error: spawnError } = await supabase.rpc('spawn_recurring_campaign_run', {
+        p_recurring_campaign_id: recurring.id,
+        p_next_run_at: nextRunAt ? nextRunAt.toISOString() : null
+      });
+
+      if (spawnError) {
+        throw new Error(spawnError.message);
+      }
+
+      if (campaignId) {
+        spawned++;
+        console.log(`🔁 Spawned run ${recurring.run_count + 1} of recurring campaign ${recurring.name}`, {
+          campaignId,
+          nextRunAt: nextRunAt?.toISOString() ?? null
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Failed to spawn run of recurring campaign ${recurring.id}:`, error);
+    }
+  }
+
+  return spawned;
+}
+
 async function processCampaign(
   campaign: EmailCampaign,
-  supabase: any
+  supabase: any,
+  defaultTimeZone: string
 ): Promise<{ success: boolean; error?: string; emailsQueued?: number }> {
   try {
     console.log(`📧 Processing campaign: ${campaign.name} (${campaign.id})`);
@@ -217,8 +292,10 @@ async function processCampaign(
         .from('contact_segments')
         .select(`
           contacts (
+            id,
             email,
             name,
+            timezone,
             variables
           )
         `)
@@ -232,8 +309,10 @@ async function processCampaign(
       }
 
       recipients = segmentContacts?.map(sc => ({
+        id: sc.contacts.id,
         email: sc.contacts.email,
         name: sc.contacts.name,
+        timezone: sc.contacts.timezone,
         variables: sc.contacts.variables
       })) || [];
 
@@ -241,7 +320,7 @@ async function processCampaign(
       // Get all active contacts
       const { data: allContacts, error: contactsError } = await supabase
         .from('contacts')
-        .select('email, name, variables')
+        .select('id, email, name, timezone, variables')
         .eq('is_subscribed', true)
         .not('email_status', 'in', '(bounced,spam)')
         .not('email', 'is', null);
@@ -257,7 +336,12 @@ async function processCampaign(
       throw new Error('No valid recipients found for campaign');
     }
 
-    console.log(`📮 Queueing ${recipients.length} emails for campaign ${campaign.name}`);
+    console.log(`📮 Queueing ${recipients.length} emails for campaign ${campaign.name}`, {
+      deliveryMode: campaign.delivery_mode || 'immediate'
+    });
+
+    const sendTimes = await scheduleRecipients(campaign, recipients, supabase, defaultTimeZone);
+    const isImmediate = (campaign.delivery_mode || 'immediate') === 'immediate';
 
     // Create email queue entries for all recipients
     const queueEntries = recipients.map((recipient, index) => ({
@@ -274,7 +358,10 @@ async function processCampaign(
         campaign_name: campaign.name
       },
       priority: campaign.priority,
-      scheduled_at: new Date(Date.now() + (index * 1000)).toISOString(), // Stagger sends by 1 second
+      // Immediate sends are staggered by 1 second; timed sends are already spread out
+      scheduled_at: new Date(
+        sendTimes.get(recipient.id)!.getTime() + (isImmediate ? index * 1000 : 0)
+      ).toISOString(),
       retry_count: 0,
       max_retries: 3,
       status: 'pending'
@@ -363,3 +450,35 @@ async function validateCampaign(campaign: EmailCampaign, supabase: any): Promise
     return false;
   }
 }
+
+// Delivery times per contact, as SendTimeService schedules them
+async function scheduleRecipients(
+  campaign: EmailCampaign,
+  recipients: CampaignRecipient[],
+  supabase: any,
+  defaultTimeZone: string
+): Promise<Map<string, Date>> {
+  const bestHours = new Map<string, number>();
+  if (campaign.delivery_mode === 'optimized') {
+    const { data, error } = await supabase.rpc('get_contact_send_hours', {
+      p_contact_ids: recipients.map(recipient => recipient.id),
+      p_default_timezone: defaultTimeZone,
+      p_min_events: 3
+    });
+
+    if (error) {
+      throw new Error(`Failed to get contact send hours: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      bestHours.set(row.contact_id, row.best_hour);
+    }
+  }
+
+  return planSendTimes(
+    campaign,
+    recipients.map(recipient => ({ contactId: recipient.id, timezone: recipient.timezone })),
+    bestHours,
+    defaultTimeZone
+  );
+}
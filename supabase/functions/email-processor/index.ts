@@ -1,32 +1,92 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import Handlebars from "npm:handlebars@4.7.8";
+import nodemailer from "npm:nodemailer@6.9.7";
+import {
+  processQueuedEmail,
+  type QueuedEmail,
+  type QueuedEmailContext,
+  type QueuedMessage
+} from "../_shared/queued-email.ts";
+import { buildRoutingTrackingData } from "../_shared/provider-routing.ts";
+import { nodemailerDkimOptions, parseDkimKeys, type DkimKeyEnv } from "../_shared/dkim-keys.ts";
+import {
+  parseTrackingSigningKeys,
+  resolveTrackingSigningKeys,
+  signTrackingInput,
+  trackingSigningInput
+} from "../_shared/tracking-signature.ts";
+
+const DEFAULT_FROM = {
+  fromEmail: "funding@momentumbusiness.capital",
+  fromName: "Momentum Business Capital"
+};
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface EmailQueueItem {
-  id: string;
-  to_email: string;
-  subject: string;
-  body_html: string;
-  body_text?: string;
-  from_email?: string;
-  campaign_id?: string;
-  scheduled_at: string;
-  priority: number;
-  retry_count: number;
-  max_retries: number;
-  status: string;
-  created_at: string;
-  updated_at: string;
+interface UnsubscribeConfig {
+  url: string;
+  // Active signing key; the unsubscribe function also accepts older keys
+  signingKey?: { id: string; secret: string };
+  tokenTtlSeconds?: number;
+  mailto?: string;
+}
+
+type ProviderName = 'mailtrap' | 'smtp';
+
+// EMAIL_PROVIDERS entry; weight 0 is a standby used only for failover
+interface ProviderRoute {
+  provider: ProviderName;
+  weight: number;
+}
+
+interface ProviderConfig {
+  routes: ProviderRoute[];
+  mailtrapToken?: string;
+  smtpTransport?: ReturnType<typeof nodemailer.createTransport>;
+  // SMTP sends are signed with the key for their From domain
+  dkimKeys: DkimKeyEnv[];
+}
+
+interface ProviderSkip {
+  provider: string;
+  reason: 'not_configured' | 'rate_limited' | 'provider_error';
+  error?: string;
+}
+
+// Same shape as EmailSendResult.routing from ProviderRouter
+interface RoutedSend {
+  provider: ProviderName;
+  messageId: string;
+  response: unknown;
+  attempted: string[];
+  skipped: ProviderSkip[];
+}
+
+class ProviderSendError extends Error {
+  constructor(message: string, public rateLimited: boolean) {
+    super(message);
+  }
+}
+
+class RoutingExhaustedError extends Error {
+  constructor(public attempted: string[], public skipped: ProviderSkip[]) {
+    super(
+      `All email providers failed: ${skipped
+        .map((skip) => `${skip.provider} (${skip.error || skip.reason})`)
+        .join(', ')}`
+    );
+  }
 }
 
 interface ProcessingResult {
   processed: number;
   successful: number;
   failed: number;
+  suppressed: number;
   errors: string[];
 }
 
@@ -51,7 +111,7 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
     const batchSize = parseInt(Deno.env.get('EMAIL_BATCH_SIZE') || '50');
-    const mailtrapToken = Deno.env.get('MAILTRAP_API_TOKEN');
+    const signingKey = loadActiveSigningKey();
 
     if (!supabaseUrl || !supabaseKey) {
       console.error('❌ Missing Supabase configuration');
@@ -64,8 +124,11 @@ serve(async (req) => {
       );
     }
 
-    if (!mailtrapToken) {
-      console.error('❌ Missing Mailtrap configuration');
+    let providerConfig: ProviderConfig;
+    try {
+      providerConfig = loadProviderConfig();
+    } catch (error) {
+      console.error('❌ Invalid email provider configuration:', error.message);
       return new Response(
         JSON.stringify({ error: 'Email provider configuration error' }),
         {
@@ -75,6 +138,18 @@ serve(async (req) => {
       );
     }
 
+    if (!signingKey) {
+      console.warn('⚠️ No tracking signing key set, List-Unsubscribe headers will be omitted');
+    }
+
+    const tokenTtlSeconds = parseInt(Deno.env.get('TRACKING_TOKEN_TTL_SECONDS') || '');
+    const unsubscribeConfig: UnsubscribeConfig = {
+      url: Deno.env.get('UNSUBSCRIBE_URL') || `${supabaseUrl}/functions/v1/unsubscribe`,
+      signingKey,
+      tokenTtlSeconds: Number.isNaN(tokenTtlSeconds) ? undefined : tokenTtlSeconds,
+      mailto: Deno.env.get('UNSUBSCRIBE_MAILTO')
+    };
+
     console.log('📧 Starting email queue processing...', {
       batchSize,
       timestamp: new Date().toISOString()
@@ -121,10 +196,32 @@ serve(async (req) => {
 
     console.log(`📮 Processing ${queueItems.length} emails...`);
 
+    const context: QueuedEmailContext = {
+      supabase,
+      defaults: DEFAULT_FROM,
+      render: (source, data) => Handlebars.compile(source)(data),
+      headers: (item) => buildListUnsubscribeHeaders(item, unsubscribeConfig),
+      send: async (message) => {
+        const sent = await sendWithFailover(providerConfig, message);
+        console.log(`📨 Email ${message.customVariables.queue_id} accepted by ${sent.provider}`);
+        return {
+          messageId: sent.messageId,
+          trackingData: {
+            ...buildRoutingTrackingData(sent.provider, sent.attempted, sent.skipped),
+            provider_response: sent.response
+          }
+        };
+      },
+      failureTrackingData: (error) => error instanceof RoutingExhaustedError
+        ? buildRoutingTrackingData(null, error.attempted, error.skipped)
+        : {}
+    };
+
     const result: ProcessingResult = {
       processed: 0,
       successful: 0,
       failed: 0,
+      suppressed: 0,
       errors: []
     };
 
@@ -136,12 +233,14 @@ serve(async (req) => {
     }
 
     for (const chunk of chunks) {
-      const promises = chunk.map(item => processEmailItem(item, supabase, mailtrapToken));
+      const promises = chunk.map(item => processQueuedEmail(item, context));
       const chunkResults = await Promise.allSettled(promises);
 
       chunkResults.forEach((chunkResult, index) => {
         result.processed++;
-        if (chunkResult.status === 'fulfilled' && chunkResult.value.success) {
+        if (chunkResult.status === 'fulfilled' && chunkResult.value.suppressed) {
+          result.suppressed++;
+        } else if (chunkResult.status === 'fulfilled' && chunkResult.value.success) {
           result.successful++;
         } else {
           result.failed++;
@@ -157,6 +256,7 @@ serve(async (req) => {
       processed: result.processed,
       successful: result.successful,
       failed: result.failed,
+      suppressed: result.suppressed,
       errorCount: result.errors.length
     });
 
@@ -168,6 +268,7 @@ serve(async (req) => {
           processed: result.processed,
           successful: result.successful,
           failed: result.failed,
+          suppressed: result.suppressed,
           hasErrors: result.errors.length > 0
         }
       }),
@@ -194,125 +295,186 @@ serve(async (req) => {
   }
 });
 
-async function processEmailItem(
-  item: EmailQueueItem,
-  supabase: any,
-  mailtrapToken: string
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    console.log(`📤 Processing email ${item.id} to ${item.to_email}`);
-
-    // Mark as processing
-    await supabase
-      .from('email_queue')
-      .update({
-        status: 'processing',
-        updated_at: new Date().toISOString()
+// EMAIL_PROVIDERS (e.g. "mailtrap:3,smtp:1"), else EMAIL_PROVIDER alone.
+// Parsed like parseProviderRoutes in src/config/email.config.ts.
+function loadProviderConfig(): ProviderConfig {
+  const value = Deno.env.get('EMAIL_PROVIDERS') || Deno.env.get('EMAIL_PROVIDER') || 'mailtrap';
+  const routes = value.split(',').filter((entry) => entry.trim()).map((entry) => {
+    const [name, weight] = entry.trim().split(':');
+    const provider = name.toLowerCase();
+    if (provider !== 'mailtrap' && provider !== 'smtp') {
+      throw new Error(`Unsupported provider "${name}" (expected "mailtrap" or "smtp")`);
+    }
+    const parsedWeight = weight === undefined ? 1 : parseInt(weight);
+    if (isNaN(parsedWeight) || parsedWeight < 0) {
+      throw new Error(`Invalid weight for provider "${name}"`);
+    }
+    return { provider: provider as ProviderName, weight: parsedWeight };
+  });
+
+  const smtpHost = Deno.env.get('SMTP_HOST');
+  const smtpPort = parseInt(Deno.env.get('SMTP_PORT') || '587');
+  const smtpUser = Deno.env.get('SMTP_USER');
+
+  return {
+    routes,
+    mailtrapToken: Deno.env.get('MAILTRAP_API_TOKEN'),
+    smtpTransport: smtpHost
+      ? nodemailer.createTransport({
+        host: smtpHost,
+        port: smtpPort,
+        secure: Deno.env.get('SMTP_SECURE') ? Deno.env.get('SMTP_SECURE') === 'true' : smtpPort === 465,
+        auth: smtpUser ? { user: smtpUser, pass: Deno.env.get('SMTP_PASSWORD') || '' } : undefined
       })
-      .eq('id', item.id);
+      : undefined,
+    dkimKeys: parseDkimKeys((name) => Deno.env.get(name))
+  };
+}
 
-    // Send email via Mailtrap API
-    const emailPayload = {
-      from: {
-        email: item.from_email || "funding@momentumbusiness.capital",
-        name: "Momentum Business Capital"
-      },
-      to: [{ email: item.to_email }],
-      subject: item.subject,
-      html: item.body_html,
-      text: item.body_text,
-      custom_variables: {
-        queue_id: item.id,
-        campaign_id: item.campaign_id
-      }
-    };
+// Weighted random order of the weighted routes, then the standby routes.
+// The function keeps no state between runs, so unlike ProviderRouter there
+// are no circuit breakers: every run tries the providers afresh.
+function orderRoutes(routes: ProviderRoute[]): ProviderRoute[] {
+  const remaining = routes.filter((route) => route.weight > 0);
+  const ordered: ProviderRoute[] = [];
+
+  while (remaining.length > 0) {
+    const total = remaining.reduce((sum, route) => sum + route.weight, 0);
+    let pick = Math.random() * total;
+    const index = remaining.findIndex((route) => (pick -= route.weight) < 0);
+    ordered.push(...remaining.splice(index === -1 ? remaining.length - 1 : index, 1));
+  }
 
-    const response = await fetch('https://send.api.mailtrap.io/api/send', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${mailtrapToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(emailPayload),
-    });
+  return [...ordered, ...routes.filter((route) => route.weight === 0)];
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Mailtrap API error: ${response.status} - ${errorText}`);
-    }
+// Try each provider in route order until one accepts the email
+async function sendWithFailover(config: ProviderConfig, email: QueuedMessage): Promise<RoutedSend> {
+  const attempted: string[] = [];
+  const skipped: ProviderSkip[] = [];
 
-    const mailtrapResponse = await response.json();
-    const messageId = mailtrapResponse.message_id;
+  for (const route of orderRoutes(config.routes)) {
+    if (route.provider === 'mailtrap' ? !config.mailtrapToken : !config.smtpTransport) {
+      skipped.push({ provider: route.provider, reason: 'not_configured' });
+      continue;
+    }
 
-    // Update queue item as sent
-    await supabase
-      .from('email_queue')
-      .update({
-        status: 'sent',
-        sent_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', item.id);
-
-    // Create email log entry
-    await supabase
-      .from('email_logs')
-      .insert({
-        queue_id: item.id,
-        campaign_id: item.campaign_id,
-        to_email: item.to_email,
-        from_email: item.from_email || "funding@momentumbusiness.capital",
-        subject: item.subject,
-        status: 'sent',
-        mailtrap_message_id: messageId,
-        sent_at: new Date().toISOString(),
-        tracking_data: {
-          queue_processed_at: new Date().toISOString(),
-          mailtrap_response: mailtrapResponse
-        }
+    attempted.push(route.provider);
+    try {
+      const { messageId, response } = route.provider === 'mailtrap'
+        ? await sendViaMailtrap(config.mailtrapToken!, email)
+        : await sendViaSmtp(config.smtpTransport!, email, config.dkimKeys);
+      return { provider: route.provider, messageId, response, attempted, skipped };
+    } catch (error) {
+      skipped.push({
+        provider: route.provider,
+        reason: error instanceof ProviderSendError && error.rateLimited ? 'rate_limited' : 'provider_error',
+        error: error.message
       });
+    }
+  }
+
+  throw new RoutingExhaustedError(attempted, skipped);
+}
+
+async function sendViaMailtrap(
+  token: string,
+  email: QueuedMessage
+): Promise<{ messageId: string; response: unknown }> {
+  const response = await fetch('https://send.api.mailtrap.io/api/send', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: email.from,
+      to: [{ email: email.to }],
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      headers: email.headers,
+      custom_variables: email.customVariables
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ProviderSendError(`Mailtrap API error: ${response.status} - ${errorText}`, response.status === 429);
+  }
 
-    console.log(`✅ Email ${item.id} sent successfully (Message ID: ${messageId})`);
-    return { success: true };
+  const body = await response.json();
+  return { messageId: body.message_id, response: body };
+}
 
+async function sendViaSmtp(
+  transport: ReturnType<typeof nodemailer.createTransport>,
+  email: QueuedMessage,
+  dkimKeys: DkimKeyEnv[]
+): Promise<{ messageId: string; response: unknown }> {
+  try {
+    const info = await transport.sendMail({
+      from: { address: email.from.email, name: email.from.name },
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      headers: email.headers,
+      dkim: nodemailerDkimOptions(dkimKeys, email.from.email)
+    });
+    return { messageId: info.messageId, response: { response: info.response, accepted: info.accepted } };
   } catch (error) {
-    console.error(`❌ Failed to process email ${item.id}:`, error);
+    // 421 and 45x replies are the server asking us to slow down
+    throw new ProviderSendError(`SMTP error: ${error.message}`, /^4(21|5\d)$/.test(String(error.responseCode)));
+  }
+}
 
-    // Update retry count and status
-    const newRetryCount = item.retry_count + 1;
-    const newStatus = newRetryCount >= item.max_retries ? 'failed' : 'pending';
-    const nextRetryAt = newStatus === 'pending'
-      ? new Date(Date.now() + Math.pow(2, newRetryCount) * 60000).toISOString() // Exponential backoff
-      : null;
+// The key TrackingUrlService signs with: first of TRACKING_SIGNING_KEYS, else
+// TRACKING_SIGNING_SECRET as "default"
+function loadActiveSigningKey(): { id: string; secret: string } | undefined {
+  const [active] = resolveTrackingSigningKeys(
+    parseTrackingSigningKeys(Deno.env.get('TRACKING_SIGNING_KEYS')),
+    Deno.env.get('TRACKING_SIGNING_SECRET')
+  );
+  return active;
+}
 
-    await supabase
-      .from('email_queue')
-      .update({
-        status: newStatus,
-        retry_count: newRetryCount,
-        scheduled_at: nextRetryAt,
-        updated_at: new Date().toISOString(),
-        error_message: error.message
-      })
-      .eq('id', item.id);
-
-    // Log the failure
-    await supabase
-      .from('email_logs')
-      .insert({
-        queue_id: item.id,
-        campaign_id: item.campaign_id,
-        to_email: item.to_email,
-        from_email: item.from_email || "funding@momentumbusiness.capital",
-        subject: item.subject,
-        status: 'failed',
-        error_message: error.message,
-        tracking_data: {
-          retry_count: newRetryCount,
-          failed_at: new Date().toISOString()
-        }
-      });
+// RFC 8058 one-click unsubscribe headers, signed like TrackingUrlService
+// signs tracking URLs so the unsubscribe function can verify them.
+async function buildListUnsubscribeHeaders(
+  item: QueuedEmail,
+  config: UnsubscribeConfig
+): Promise<Record<string, string> | undefined> {
+  if (!config.signingKey) {
+    return undefined;
+  }
+
+  const params = new URLSearchParams();
+  if (item.contact_id) {
+    params.set('c', item.contact_id);
+  } else {
+    params.set('email', item.email_address);
+  }
+  params.set('action', 'unsubscribe');
+  params.set('ts', Date.now().toString());
+  if (item.campaign_id) {
+    params.set('campaign', item.campaign_id);
+  }
+  if (config.tokenTtlSeconds) {
+    params.set('exp', (Date.now() + config.tokenTtlSeconds * 1000).toString());
+  }
+  params.set('kid', config.signingKey.id);
 
-    return { success: false, error: error.message };
+  params.set('sig', await signTrackingInput(trackingSigningInput('unsubscribe', params), config.signingKey.secret));
+
+  const query = params.toString();
+  const entries = [`<${config.url}?${query}>`];
+  if (config.mailto) {
+    entries.push(`<mailto:${config.mailto}?subject=${encodeURIComponent(`unsubscribe ${query}`)}>`);
   }
+
+  return {
+    'List-Unsubscribe': entries.join(', '),
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+  };
 }
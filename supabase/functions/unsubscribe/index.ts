@@ -0,0 +1,217 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  constantTimeEqual,
+  parseTrackingSigningKeys,
+  resolveTrackingSigningKeys,
+  signTrackingInput,
+  trackingSigningInput,
+  type TrackingSigningKey
+} from "../_shared/tracking-signature.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// RFC 8058 one-click body
+const ONE_CLICK_VALUE = 'One-Click';
+
+interface UnsubscribeParams {
+  contactId?: string;
+  email?: string;
+  campaignId?: string;
+  keyId: string;
+  signature: string;
+  expiresAt?: number;
+  search: URLSearchParams;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const signingKeys = loadSigningKeys();
+
+    if (!supabaseUrl || !supabaseKey || signingKeys.length === 0) {
+      console.error('❌ Missing unsubscribe configuration');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    const url = new URL(req.url);
+    const params = parseParams(url.searchParams);
+
+    if (!params || !(await verifySignature(params, signingKeys))) {
+      console.warn('⚠️ Invalid unsubscribe signature');
+      return jsonResponse({ error: 'Invalid or expired unsubscribe link' }, 400);
+    }
+
+    if (params.expiresAt !== undefined && params.expiresAt <= Date.now()) {
+      console.warn('⚠️ Expired unsubscribe link:', { keyId: params.keyId });
+      return jsonResponse({ error: 'Invalid or expired unsubscribe link' }, 400);
+    }
+
+    // GET only renders a confirmation page: link scanners prefetch URLs and
+    // must not unsubscribe anyone. The actual change always happens on POST.
+    if (req.method === 'GET') {
+      return htmlResponse(renderConfirmationPage(url.toString()));
+    }
+
+    const form = await req.formData().catch(() => null);
+    if (form?.get('List-Unsubscribe') !== ONE_CLICK_VALUE) {
+      return jsonResponse({ error: 'Expected List-Unsubscribe=One-Click' }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const email = await resolveEmail(params, supabase);
+
+    if (!email) {
+      return jsonResponse({ error: 'Recipient not found' }, 404);
+    }
+
+    const { data, error } = await supabase.rpc('process_unsubscribe_event', {
+      p_email: email,
+      p_unsubscribe_type: 'list_unsubscribe_one_click',
+      p_webhook_event_id: null
+    });
+
+    if (error) {
+      console.error('❌ Failed to process unsubscribe:', error);
+      return jsonResponse({ error: 'Failed to process unsubscribe' }, 500);
+    }
+
+    const result = Array.isArray(data) ? data[0] : data;
+    console.log('✅ One-click unsubscribe processed:', {
+      contactId: params.contactId,
+      campaignId: params.campaignId,
+      success: result?.success
+    });
+
+    if ((req.headers.get('accept') || '').includes('text/html')) {
+      return htmlResponse(renderDonePage());
+    }
+
+    return jsonResponse({
+      success: result?.success ?? false,
+      message: result?.message
+    }, 200);
+
+  } catch (error) {
+    console.error('❌ Unsubscribe error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
+
+function loadSigningKeys(): TrackingSigningKey[] {
+  return resolveTrackingSigningKeys(
+    parseTrackingSigningKeys(Deno.env.get('TRACKING_SIGNING_KEYS')).filter((key) => key.id && key.secret),
+    Deno.env.get('TRACKING_SIGNING_SECRET')
+  );
+}
+
+function parseParams(search: URLSearchParams): UnsubscribeParams | null {
+  const signature = search.get('sig');
+  const keyId = search.get('kid');
+  const exp = search.get('exp');
+  const contactId = search.get('c') || undefined;
+  const email = search.get('email') || undefined;
+
+  if (!signature || !keyId || (!contactId && !email)) {
+    return null;
+  }
+
+  const expiresAt = exp === null ? undefined : Number(exp);
+  if (expiresAt !== undefined && !Number.isFinite(expiresAt)) {
+    return null;
+  }
+
+  return {
+    contactId,
+    email,
+    campaignId: search.get('campaign') || undefined,
+    keyId,
+    signature,
+    expiresAt,
+    search
+  };
+}
+
+async function verifySignature(params: UnsubscribeParams, keys: TrackingSigningKey[]): Promise<boolean> {
+  const key = keys.find((candidate) => candidate.id === params.keyId);
+  if (!key) {
+    console.warn('⚠️ Unknown signing key:', params.keyId);
+    return false;
+  }
+
+  const expected = await signTrackingInput(trackingSigningInput('unsubscribe', params.search), key.secret);
+  return constantTimeEqual(expected, params.signature);
+}
+
+async function resolveEmail(params: UnsubscribeParams, supabase: any): Promise<string | null> {
+  if (!params.contactId) {
+    return params.email || null;
+  }
+
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('email')
+    .eq('id', params.contactId)
+    .single();
+
+  if (error || !data) {
+    console.warn('⚠️ Contact not found for unsubscribe:', params.contactId);
+    return null;
+  }
+
+  return data.email;
+}
+
+function renderConfirmationPage(actionUrl: string): string {
+  const escapedUrl = actionUrl.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+  return `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><title>Unsubscribe</title></head>
+  <body style="font-family: sans-serif; text-align: center; padding: 40px;">
+    <h1>Unsubscribe</h1>
+    <p>Click below to stop receiving these emails.</p>
+    <form method="POST" action="${escapedUrl}">
+      <input type="hidden" name="List-Unsubscribe" value="${ONE_CLICK_VALUE}">
+      <button type="submit">Unsubscribe</button>
+    </form>
+  </body>
+</html>`;
+}
+
+function renderDonePage(): string {
+  return `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><title>Unsubscribed</title></head>
+  <body style="font-family: sans-serif; text-align: center; padding: 40px;">
+    <h1>You have been unsubscribed</h1>
+    <p>You will no longer receive these emails.</p>
+  </body>
+</html>`;
+}
+
+function jsonResponse(body: Record<string, unknown>, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+function htmlResponse(body: string): Response {
+  return new Response(body, {
+    status: 200,
+    headers: { ...corsHeaders, 'Content-Type': 'text/html; charset=utf-8' }
+  });
+}
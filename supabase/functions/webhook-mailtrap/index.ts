@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  classifyEngagement,
+  DEFAULT_ENGAGEMENT_CLASSIFIER_OPTIONS,
+  type EngagementClassification
+} from "../_shared/engagement-classifier.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -504,7 +509,7 @@ async function createTrackingDetail(
     // First, find the email_log_id
     const { data: emailLog, error: findError } = await supabase
       .from('email_logs')
-      .select('id')
+      .select('id, sent_at, delivered_at')
       .eq('mailtrap_message_id', payload.message_id)
       .single();
 
@@ -512,6 +517,8 @@ async function createTrackingDetail(
       return { success: false, error: 'Email log not found for tracking detail' };
     }
 
+    const classification = await classifyTrackingEvent(payload, emailLog, supabase);
+
     // Parse location data if available
     let locationData = {};
     if (payload.location) {
@@ -535,13 +542,22 @@ async function createTrackingDetail(
         location_data: locationData,
         url: payload.url,
         event_timestamp: new Date(payload.timestamp * 1000).toISOString(),
-        webhook_event_id: eventId
+        webhook_event_id: eventId,
+        is_machine: classification.isMachine,
+        machine_reason: classification.reason ?? null
       });
 
     if (error) {
       return { success: false, error: error.message };
     }
 
+    if (classification.reclassifyIds.length > 0) {
+      await supabase
+        .from('email_tracking_details')
+        .update({ is_machine: true, machine_reason: 'link_scanner_burst' })
+        .in('id', classification.reclassifyIds);
+    }
+
     return { success: true };
 
   } catch (error) {
@@ -549,6 +565,45 @@ async function createTrackingDetail(
   }
 }
 
+// Tag MPP prefetches and link scanners so stats can report human-only engagement
+async function classifyTrackingEvent(
+  payload: MailtrapWebhookPayload,
+  emailLog: { id: string; sent_at?: string; delivered_at?: string },
+  supabase: any
+): Promise<EngagementClassification> {
+  const event = {
+    event: payload.event.toLowerCase(),
+    userAgent: payload.user_agent,
+    ipAddress: payload.ip,
+    url: payload.url,
+    timestamp: new Date(payload.timestamp * 1000)
+  };
+  const history = {
+    deliveredAt: emailLog.delivered_at ? new Date(emailLog.delivered_at) : null,
+    sentAt: emailLog.sent_at ? new Date(emailLog.sent_at) : null,
+    clicks: [] as Array<{ id: string; url: string | null; timestamp: Date; isMachine: boolean }>
+  };
+
+  if (event.event === 'click') {
+    const windowStart = event.timestamp.getTime() - DEFAULT_ENGAGEMENT_CLASSIFIER_OPTIONS.burstWindowSeconds * 1000;
+    const { data: recentClicks } = await supabase
+      .from('email_tracking_details')
+      .select('id, url, event_timestamp, is_machine')
+      .eq('email_log_id', emailLog.id)
+      .eq('event_type', 'click')
+      .gte('event_timestamp', new Date(windowStart).toISOString());
+
+    history.clicks = (recentClicks || []).map((click: any) => ({
+      id: click.id,
+      url: click.url,
+      timestamp: new Date(click.event_timestamp),
+      isMachine: click.is_machine
+    }));
+  }
+
+  return classifyEngagement(event, history);
+}
+
 // Process bounce events with automated actions
 async function processBounceEvent(
   payload: MailtrapWebhookPayload,
@@ -0,0 +1,29 @@
+-- =============================================
+-- TEMPLATE PARTIALS AND LAYOUTS
+-- Shared header/footer/legal blocks ({{> name}}) and wrapping
+-- layouts ({{#layout "name"}}) used by email_templates
+-- =============================================
+CREATE TABLE IF NOT EXISTS email_template_partials (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL,
+  type VARCHAR(20) NOT NULL DEFAULT 'partial',
+  content TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_partial_type CHECK (type IN ('partial', 'layout')),
+  CONSTRAINT valid_partial_name CHECK (name ~ '^[A-Za-z0-9_-]+$'),
+  CONSTRAINT unique_partial_name_type UNIQUE (name, type)
+);
+CREATE INDEX IF NOT EXISTS idx_email_template_partials_type ON email_template_partials(type);
+-- =============================================
+-- ENABLE RLS AND CREATE POLICIES
+-- =============================================
+ALTER TABLE email_template_partials ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role can manage template partials" ON email_template_partials FOR ALL TO service_role USING (true);
+CREATE POLICY "Authenticated users can manage template partials" ON email_template_partials FOR ALL TO authenticated USING (true);
+-- =============================================
+-- TRIGGERS FOR UPDATED_AT
+-- =============================================
+CREATE TRIGGER update_email_template_partials_updated_at BEFORE
+UPDATE ON email_template_partials FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,257 @@
+-- =============================================
+-- TEMPLATE VERSION HISTORY
+-- Immutable snapshots of email_templates content. email_templates keeps
+-- mirroring the published version so existing readers are unaffected.
+-- =============================================
+CREATE TABLE IF NOT EXISTS email_template_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  template_id UUID NOT NULL REFERENCES email_templates(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft',
+  subject VARCHAR(255) NOT NULL,
+  html_content TEXT,
+  text_content TEXT,
+  variables JSONB DEFAULT '{}',
+  template_hash VARCHAR(64) NOT NULL,
+  change_note TEXT,
+  based_on_version_id UUID REFERENCES email_template_versions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  published_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT unique_template_version UNIQUE (template_id, version_number),
+  CONSTRAINT valid_template_version_status CHECK (status IN ('draft', 'published', 'archived'))
+);
+CREATE INDEX IF NOT EXISTS idx_email_template_versions_template_id ON email_template_versions(template_id);
+-- At most one published version per template
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_template_versions_published ON email_template_versions(template_id)
+WHERE status = 'published';
+ALTER TABLE email_templates
+ADD COLUMN IF NOT EXISTS published_version_id UUID REFERENCES email_template_versions(id) ON DELETE
+SET NULL;
+-- Campaigns are pinned to the version they were sent with
+ALTER TABLE email_campaigns
+ADD COLUMN IF NOT EXISTS template_version_id UUID REFERENCES email_template_versions(id) ON DELETE
+SET NULL;
+CREATE INDEX IF NOT EXISTS idx_email_campaigns_template_version_id ON email_campaigns(template_version_id);
+-- =============================================
+-- ENABLE RLS AND CREATE POLICIES
+-- =============================================
+ALTER TABLE email_template_versions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role can manage template versions" ON email_template_versions FOR ALL TO service_role USING (true);
+CREATE POLICY "Authenticated users can view template versions" ON email_template_versions FOR
+SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated users can create template versions" ON email_template_versions FOR
+INSERT TO authenticated WITH CHECK (true);
+-- =============================================
+-- IMMUTABILITY
+-- Only the lifecycle columns (status, published_at) may change
+-- =============================================
+CREATE OR REPLACE FUNCTION prevent_template_version_changes() RETURNS TRIGGER AS $$ BEGIN IF NEW.template_id IS DISTINCT FROM OLD.template_id
+  OR NEW.version_number IS DISTINCT FROM OLD.version_number
+  OR NEW.subject IS DISTINCT FROM OLD.subject
+  OR NEW.html_content IS DISTINCT FROM OLD.html_content
+  OR NEW.text_content IS DISTINCT FROM OLD.text_content
+  OR NEW.variables IS DISTINCT FROM OLD.variables
+  OR NEW.template_hash IS DISTINCT FROM OLD.template_hash THEN RAISE EXCEPTION 'Template versions are immutable; create a new version instead';
+END IF;
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+CREATE TRIGGER prevent_template_version_changes_trigger BEFORE
+UPDATE ON email_template_versions FOR EACH ROW EXECUTE FUNCTION prevent_template_version_changes();
+-- =============================================
+-- VERSION FUNCTIONS
+-- =============================================
+-- Create a draft version with the next version number
+CREATE OR REPLACE FUNCTION create_template_version(
+    p_template_id UUID,
+    p_subject TEXT,
+    p_html_content TEXT,
+    p_text_content TEXT,
+    p_variables JSONB,
+    p_template_hash TEXT,
+    p_change_note TEXT DEFAULT NULL,
+    p_based_on_version_id UUID DEFAULT NULL
+  ) RETURNS email_template_versions AS $$
+DECLARE v_next_number INTEGER;
+v_version email_template_versions;
+BEGIN -- Lock the template row so concurrent drafts get distinct numbers
+PERFORM 1
+FROM email_templates
+WHERE id = p_template_id FOR
+UPDATE;
+IF NOT FOUND THEN RAISE EXCEPTION 'Template not found: %',
+p_template_id;
+END IF;
+SELECT COALESCE(MAX(version_number), 0) + 1 INTO v_next_number
+FROM email_template_versions
+WHERE template_id = p_template_id;
+INSERT INTO email_template_versions (
+    template_id,
+    version_number,
+    status,
+    subject,
+    html_content,
+    text_content,
+    variables,
+    template_hash,
+    change_note,
+    based_on_version_id
+  )
+VALUES (
+    p_template_id,
+    v_next_number,
+    'draft',
+    p_subject,
+    p_html_content,
+    p_text_content,
+    COALESCE(p_variables, '{}'),
+    p_template_hash,
+    p_change_note,
+    p_based_on_version_id
+  )
+RETURNING * INTO v_version;
+RETURN v_version;
+END;
+$$ LANGUAGE plpgsql;
+-- Publish a draft: archive the previous published version and mirror the
+-- content onto email_templates
+CREATE OR REPLACE FUNCTION publish_template_version(p_version_id UUID) RETURNS email_template_versions AS $$
+DECLARE v_version email_template_versions;
+BEGIN
+SELECT * INTO v_version
+FROM email_template_versions
+WHERE id = p_version_id FOR
+UPDATE;
+IF v_version IS NULL THEN RAISE EXCEPTION 'Template version not found: %',
+p_version_id;
+END IF;
+IF v_version.status = 'published' THEN RETURN v_version;
+END IF;
+IF v_version.status <> 'draft' THEN RAISE EXCEPTION 'Only draft versions can be published (version % is %)',
+v_version.version_number,
+v_version.status;
+END IF;
+UPDATE email_template_versions
+SET status = 'archived'
+WHERE template_id = v_version.template_id
+  AND status = 'published';
+UPDATE email_template_versions
+SET status = 'published',
+  published_at = NOW()
+WHERE id = p_version_id
+RETURNING * INTO v_version;
+UPDATE email_templates
+SET subject = v_version.subject,
+  html_content = v_version.html_content,
+  text_content = v_version.text_content,
+  variables = v_version.variables,
+  published_version_id = v_version.id,
+  updated_at = NOW()
+WHERE id = v_version.template_id;
+RETURN v_version;
+END;
+$$ LANGUAGE plpgsql;
+-- Roll back by publishing a new version copied from an earlier one, so the
+-- history itself is never rewritten
+CREATE OR REPLACE FUNCTION rollback_template_version(
+    p_template_id UUID,
+    p_version_number INTEGER,
+    p_change_note TEXT DEFAULT NULL
+  ) RETURNS email_template_versions AS $$
+DECLARE v_target email_template_versions;
+v_version email_template_versions;
+BEGIN
+SELECT * INTO v_target
+FROM email_template_versions
+WHERE template_id = p_template_id
+  AND version_number = p_version_number;
+IF v_target IS NULL THEN RAISE EXCEPTION 'Template version % not found for template %',
+p_version_number,
+p_template_id;
+END IF;
+v_version := create_template_version(
+  p_template_id,
+  v_target.subject,
+  v_target.html_content,
+  v_target.text_content,
+  v_target.variables,
+  v_target.template_hash,
+  COALESCE(
+    p_change_note,
+    'Rollback to version ' || p_version_number
+  ),
+  v_target.id
+);
+RETURN publish_template_version(v_version.id);
+END;
+$$ LANGUAGE plpgsql;
+-- =============================================
+-- CAMPAIGN PINNING
+-- A campaign that starts running without an explicit version is pinned to
+-- the template's published version at that moment
+-- =============================================
+CREATE OR REPLACE FUNCTION pin_campaign_template_version() RETURNS TRIGGER AS $$ BEGIN IF NEW.status = 'running'
+  AND NEW.template_version_id IS NULL
+  AND NEW.template_id IS NOT NULL THEN
+SELECT published_version_id INTO NEW.template_version_id
+FROM email_templates
+WHERE id = NEW.template_id;
+END IF;
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+CREATE TRIGGER pin_campaign_template_version_trigger BEFORE
+INSERT
+  OR
+UPDATE OF status ON email_campaigns FOR EACH ROW EXECUTE FUNCTION pin_campaign_template_version();
+-- =============================================
+-- BACKFILL
+-- Existing templates become version 1 (published). Campaigns that already
+-- ran are pinned to it on a best-effort basis, since earlier edits were
+-- not recorded.
+-- =============================================
+INSERT INTO email_template_versions (
+    template_id,
+    version_number,
+    status,
+    subject,
+    html_content,
+    text_content,
+    variables,
+    template_hash,
+    change_note,
+    published_at
+  )
+SELECT t.id,
+  1,
+  'published',
+  t.subject,
+  t.html_content,
+  t.text_content,
+  COALESCE(t.variables, '{}'),
+  md5(
+    t.subject || '|' || COALESCE(t.html_content, '') || '|' || COALESCE(t.text_content, '')
+  ),
+  'Initial version',
+  NOW()
+FROM email_templates t
+WHERE NOT EXISTS (
+    SELECT 1
+    FROM email_template_versions v
+    WHERE v.template_id = t.id
+  );
+UPDATE email_templates t
+SET published_version_id = v.id
+FROM email_template_versions v
+WHERE v.template_id = t.id
+  AND v.status = 'published'
+  AND t.published_version_id IS NULL;
+UPDATE email_campaigns c
+SET template_version_id = t.published_version_id
+FROM email_templates t
+WHERE c.template_id = t.id
+  AND c.template_version_id IS NULL
+  AND c.status IN ('running', 'paused', 'completed');
+COMMENT ON TABLE email_template_versions IS 'Immutable template content history; email_templates mirrors the published version';
+COMMENT ON FUNCTION publish_template_version IS 'Publishes a draft template version and mirrors it onto email_templates';
+COMMENT ON FUNCTION rollback_template_version IS 'Publishes a copy of an earlier template version as a new version';
@@ -0,0 +1,157 @@
+-- =============================================
+-- TEMPLATE SOURCE TYPE
+-- html_content holds either raw HTML or MJML source; MJML is compiled to
+-- HTML by the template engine before Handlebars compilation
+-- =============================================
+ALTER TABLE email_templates
+ADD COLUMN IF NOT EXISTS source_type VARCHAR(10) NOT NULL DEFAULT 'html';
+ALTER TABLE email_templates DROP CONSTRAINT IF EXISTS valid_template_source_type;
+ALTER TABLE email_templates
+ADD CONSTRAINT valid_template_source_type CHECK (source_type IN ('html', 'mjml'));
+ALTER TABLE email_template_versions
+ADD COLUMN IF NOT EXISTS source_type VARCHAR(10) NOT NULL DEFAULT 'html';
+ALTER TABLE email_template_versions DROP CONSTRAINT IF EXISTS valid_template_version_source_type;
+ALTER TABLE email_template_versions
+ADD CONSTRAINT valid_template_version_source_type CHECK (source_type IN ('html', 'mjml'));
+-- =============================================
+-- VERSION FUNCTIONS
+-- Versions capture the source type alongside the content
+-- =============================================
+CREATE OR REPLACE FUNCTION prevent_template_version_changes() RETURNS TRIGGER AS $$ BEGIN IF NEW.template_id IS DISTINCT FROM OLD.template_id
+  OR NEW.version_number IS DISTINCT FROM OLD.version_number
+  OR NEW.source_type IS DISTINCT FROM OLD.source_type
+  OR NEW.subject IS DISTINCT FROM OLD.subject
+  OR NEW.html_content IS DISTINCT FROM OLD.html_content
+  OR NEW.text_content IS DISTINCT FROM OLD.text_content
+  OR NEW.variables IS DISTINCT FROM OLD.variables
+  OR NEW.template_hash IS DISTINCT FROM OLD.template_hash THEN RAISE EXCEPTION 'Template versions are immutable; create a new version instead';
+END IF;
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+DROP FUNCTION IF EXISTS create_template_version(UUID, TEXT, TEXT, TEXT, JSONB, TEXT, TEXT, UUID);
+CREATE OR REPLACE FUNCTION create_template_version(
+    p_template_id UUID,
+    p_subject TEXT,
+    p_html_content TEXT,
+    p_text_content TEXT,
+    p_variables JSONB,
+    p_template_hash TEXT,
+    p_change_note TEXT DEFAULT NULL,
+    p_based_on_version_id UUID DEFAULT NULL,
+    p_source_type TEXT DEFAULT 'html'
+  ) RETURNS email_template_versions AS $$
+DECLARE v_next_number INTEGER;
+v_version email_template_versions;
+BEGIN -- Lock the template row so concurrent drafts get distinct numbers
+PERFORM 1
+FROM email_templates
+WHERE id = p_template_id FOR
+UPDATE;
+IF NOT FOUND THEN RAISE EXCEPTION 'Template not found: %',
+p_template_id;
+END IF;
+SELECT COALESCE(MAX(version_number), 0) + 1 INTO v_next_number
+FROM email_template_versions
+WHERE template_id = p_template_id;
+INSERT INTO email_template_versions (
+    template_id,
+    version_number,
+    status,
+    source_type,
+    subject,
+    html_content,
+    text_content,
+    variables,
+    template_hash,
+    change_note,
+    based_on_version_id
+  )
+VALUES (
+    p_template_id,
+    v_next_number,
+    'draft',
+    COALESCE(p_source_type, 'html'),
+    p_subject,
+    p_html_content,
+    p_text_content,
+    COALESCE(p_variables, '{}'),
+    p_template_hash,
+    p_change_note,
+    p_based_on_version_id
+  )
+RETURNING * INTO v_version;
+RETURN v_version;
+END;
+$$ LANGUAGE plpgsql;
+CREATE OR REPLACE FUNCTION publish_template_version(p_version_id UUID) RETURNS email_template_versions AS $$
+DECLARE v_version email_template_versions;
+BEGIN
+SELECT * INTO v_version
+FROM email_template_versions
+WHERE id = p_version_id FOR
+UPDATE;
+IF v_version IS NULL THEN RAISE EXCEPTION 'Template version not found: %',
+p_version_id;
+END IF;
+IF v_version.status = 'published' THEN RETURN v_version;
+END IF;
+IF v_version.status <> 'draft' THEN RAISE EXCEPTION 'Only draft versions can be published (version % is %)',
+v_version.version_number,
+v_version.status;
+END IF;
+UPDATE email_template_versions
+SET status = 'archived'
+WHERE template_id = v_version.template_id
+  AND status = 'published';
+UPDATE email_template_versions
+SET status = 'published',
+  published_at = NOW()
+WHERE id = p_version_id
+RETURNING * INTO v_version;
+UPDATE email_templates
+SET source_type = v_version.source_type,
+  subject = v_version.subject,
+  html_content = v_version.html_content,
+  text_content = v_version.text_content,
+  variables = v_version.variables,
+  published_version_id = v_version.id,
+  updated_at = NOW()
+WHERE id = v_version.template_id;
+RETURN v_version;
+END;
+$$ LANGUAGE plpgsql;
+CREATE OR REPLACE FUNCTION rollback_template_version(
+    p_template_id UUID,
+    p_version_number INTEGER,
+    p_change_note TEXT DEFAULT NULL
+  ) RETURNS email_template_versions AS $$
+DECLARE v_target email_template_versions;
+v_version email_template_versions;
+BEGIN
+SELECT * INTO v_target
+FROM email_template_versions
+WHERE template_id = p_template_id
+  AND version_number = p_version_number;
+IF v_target IS NULL THEN RAISE EXCEPTION 'Template version % not found for template %',
+p_version_number,
+p_template_id;
+END IF;
+v_version := create_template_version(
+  p_template_id,
+  v_target.subject,
+  v_target.html_content,
+  v_target.text_content,
+  v_target.variables,
+  v_target.template_hash,
+  COALESCE(
+    p_change_note,
+    'Rollback to version ' || p_version_number
+  ),
+  v_target.id,
+  v_target.source_type
+);
+RETURN publish_template_version(v_version.id);
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON COLUMN email_templates.source_type IS 'Format of html_content: html or mjml';
@@ -0,0 +1,187 @@
+-- =============================================
+-- MACHINE ENGAGEMENT FILTERING
+-- Opens and clicks from Apple Mail Privacy Protection prefetches, security
+-- gateways and link scanners are kept but tagged, so campaign stats can
+-- report human-only engagement next to the raw numbers
+-- =============================================
+ALTER TABLE email_tracking_details
+ADD COLUMN IF NOT EXISTS is_machine BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE email_tracking_details
+ADD COLUMN IF NOT EXISTS machine_reason VARCHAR(50);
+CREATE INDEX IF NOT EXISTS idx_email_tracking_details_human ON email_tracking_details(email_log_id, event_type)
+WHERE is_machine = FALSE;
+-- =============================================
+-- CAMPAIGN STATS
+-- Raw columns are unchanged. human_opened and human_clicked count emails
+-- with at least one human event; rates use the same denominator as the raw
+-- rates so the two stay comparable.
+-- =============================================
+DROP FUNCTION IF EXISTS get_enhanced_campaign_stats(UUID);
+CREATE OR REPLACE FUNCTION get_enhanced_campaign_stats(p_campaign_id UUID) RETURNS TABLE (
+        campaign_name TEXT,
+        campaign_status campaign_status,
+        total_sent BIGINT,
+        total_delivered BIGINT,
+        total_opened BIGINT,
+        total_clicked BIGINT,
+        total_bounced BIGINT,
+        total_failed BIGINT,
+        delivery_rate DECIMAL(5, 2),
+        open_rate DECIMAL(5, 2),
+        click_rate DECIMAL(5, 2),
+        bounce_rate DECIMAL(5, 2),
+        queue_pending BIGINT,
+        queue_failed BIGINT,
+        last_activity TIMESTAMP WITH TIME ZONE,
+        human_opened BIGINT,
+        human_clicked BIGINT,
+        human_open_rate DECIMAL(5, 2),
+        human_click_rate DECIMAL(5, 2),
+        machine_opens BIGINT,
+        machine_clicks BIGINT
+    ) AS $$ BEGIN RETURN QUERY WITH engagement AS (
+        SELECT etd.email_log_id,
+            BOOL_OR(
+                etd.event_type = 'open'
+                AND NOT etd.is_machine
+            ) AS human_open,
+            BOOL_OR(
+                etd.event_type = 'click'
+                AND NOT etd.is_machine
+            ) AS human_click,
+            COUNT(*) FILTER (
+                WHERE etd.event_type = 'open'
+                    AND etd.is_machine
+            ) AS machine_opens,
+            COUNT(*) FILTER (
+                WHERE etd.event_type = 'click'
+                    AND etd.is_machine
+            ) AS machine_clicks
+        FROM email_tracking_details etd
+            JOIN email_logs l ON l.id = etd.email_log_id
+        WHERE l.campaign_id = p_campaign_id
+        GROUP BY etd.email_log_id
+    )
+SELECT ec.name as campaign_name,
+    ec.status as campaign_status,
+    COUNT(el.*) as total_sent,
+    COUNT(el.*) FILTER (
+        WHERE el.status = 'delivered'
+    ) as total_delivered,
+    COUNT(el.*) FILTER (
+        WHERE el.status = 'opened'
+    ) as total_opened,
+    COUNT(el.*) FILTER (
+        WHERE el.status = 'clicked'
+    ) as total_clicked,
+    COUNT(el.*) FILTER (
+        WHERE el.status = 'bounced'
+    ) as total_bounced,
+    COUNT(el.*) FILTER (
+        WHERE el.status = 'failed'
+    ) as total_failed,
+    ROUND(
+        (
+            COUNT(el.*) FILTER (
+                WHERE el.status = 'delivered'
+            )
+        )::DECIMAL / NULLIF(COUNT(el.*), 0) * 100,
+        2
+    ) as delivery_rate,
+    ROUND(
+        (
+            COUNT(el.*) FILTER (
+                WHERE el.status = 'opened'
+            )
+        )::DECIMAL / NULLIF(
+            COUNT(el.*) FILTER (
+                WHERE el.status = 'delivered'
+            ),
+            0
+        ) * 100,
+        2
+    ) as open_rate,
+    ROUND(
+        (
+            COUNT(el.*) FILTER (
+                WHERE el.status = 'clicked'
+            )
+        )::DECIMAL / NULLIF(
+            COUNT(el.*) FILTER (
+                WHERE el.status = 'delivered'
+            ),
+            0
+        ) * 100,
+        2
+    ) as click_rate,
+    ROUND(
+        (
+            COUNT(el.*) FILTER (
+                WHERE el.status = 'bounced'
+            )
+        )::DECIMAL / NULLIF(COUNT(el.*), 0) * 100,
+        2
+    ) as bounce_rate,
+    (
+        SELECT COUNT(*)
+        FROM email_queue eq
+        WHERE eq.campaign_id = p_campaign_id
+            AND eq.status = 'pending'
+    ) as queue_pending,
+    (
+        SELECT COUNT(*)
+        FROM email_queue eq
+        WHERE eq.campaign_id = p_campaign_id
+            AND eq.status = 'failed'
+    ) as queue_failed,
+    GREATEST(
+        MAX(el.sent_at),
+        MAX(el.delivered_at),
+        MAX(el.opened_at),
+        MAX(el.clicked_at)
+    ) as last_activity,
+    COUNT(el.*) FILTER (
+        WHERE e.human_open
+    ) as human_opened,
+    COUNT(el.*) FILTER (
+        WHERE e.human_click
+    ) as human_clicked,
+    ROUND(
+        (
+            COUNT(el.*) FILTER (
+                WHERE e.human_open
+            )
+        )::DECIMAL / NULLIF(
+            COUNT(el.*) FILTER (
+                WHERE el.status = 'delivered'
+            ),
+            0
+        ) * 100,
+        2
+    ) as human_open_rate,
+    ROUND(
+        (
+            COUNT(el.*) FILTER (
+                WHERE e.human_click
+            )
+        )::DECIMAL / NULLIF(
+            COUNT(el.*) FILTER (
+                WHERE el.status = 'delivered'
+            ),
+            0
+        ) * 100,
+        2
+    ) as human_click_rate,
+    COALESCE(SUM(e.machine_opens), 0)::BIGINT as machine_opens,
+    COALESCE(SUM(e.machine_clicks), 0)::BIGINT as machine_clicks
+FROM email_campaigns ec
+    LEFT JOIN email_logs el ON ec.id = el.campaign_id
+    LEFT JOIN engagement e ON e.email_log_id = el.id
+WHERE ec.id = p_campaign_id
+GROUP BY ec.id,
+    ec.name,
+    ec.status;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON COLUMN email_tracking_details.is_machine IS 'Open or click from a prefetcher, gateway or link scanner rather than a person';
+COMMENT ON COLUMN email_tracking_details.machine_reason IS 'Classifier rule that tagged the event, e.g. apple_mpp or link_scanner_burst';
@@ -0,0 +1,46 @@
+-- =============================================
+-- PER-LINK CLICK ANALYTICS
+-- Click tracking URLs carry a link id that is stable across recipients, so
+-- clicks can be aggregated per link of a campaign's template
+-- =============================================
+ALTER TABLE email_tracking_details
+ADD COLUMN IF NOT EXISTS link_id VARCHAR(100);
+CREATE INDEX IF NOT EXISTS idx_email_tracking_details_link ON email_tracking_details(link_id)
+WHERE event_type = 'click'
+    AND link_id IS NOT NULL;
+-- =============================================
+-- LINK STATS
+-- url is the most common destination, since per-recipient parameters can
+-- make it differ between clicks on the same link. Unique clicks count
+-- emails, not events.
+-- =============================================
+CREATE OR REPLACE FUNCTION get_campaign_link_stats(p_campaign_id UUID) RETURNS TABLE (
+        link_id VARCHAR(100),
+        url TEXT,
+        total_clicks BIGINT,
+        unique_clicks BIGINT,
+        human_clicks BIGINT,
+        human_unique_clicks BIGINT
+    ) AS $$ BEGIN RETURN QUERY
+SELECT etd.link_id,
+    MODE() WITHIN GROUP (
+        ORDER BY etd.url
+    )::TEXT as url,
+    COUNT(*) as total_clicks,
+    COUNT(DISTINCT etd.email_log_id) as unique_clicks,
+    COUNT(*) FILTER (
+        WHERE NOT etd.is_machine
+    ) as human_clicks,
+    COUNT(DISTINCT etd.email_log_id) FILTER (
+        WHERE NOT etd.is_machine
+    ) as human_unique_clicks
+FROM email_tracking_details etd
+    JOIN email_logs l ON l.id = etd.email_log_id
+WHERE l.campaign_id = p_campaign_id
+    AND etd.event_type = 'click'
+    AND etd.link_id IS NOT NULL
+GROUP BY etd.link_id
+ORDER BY COUNT(*) DESC;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON COLUMN email_tracking_details.link_id IS 'Stable id of the clicked template link, from the l parameter of the click URL';
@@ -0,0 +1,478 @@
+-- =============================================
+-- CAMPAIGN A/B TESTS
+-- A test sends each variant to a share of the campaign's recipients, waits,
+-- then sends the best variant to everyone else through email_queue
+-- =============================================
+CREATE TABLE IF NOT EXISTS campaign_ab_tests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  campaign_id UUID NOT NULL UNIQUE REFERENCES email_campaigns(id) ON DELETE CASCADE,
+  -- Share of recipients in the test cohort, split evenly across variants
+  test_percentage INTEGER NOT NULL DEFAULT 20,
+  winner_metric VARCHAR(20) NOT NULL DEFAULT 'opens',
+  wait_hours INTEGER NOT NULL DEFAULT 4,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft',
+  winner_variant_id UUID,
+  test_started_at TIMESTAMP WITH TIME ZONE,
+  test_ends_at TIMESTAMP WITH TIME ZONE,
+  winner_selected_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_test_percentage CHECK (
+    test_percentage BETWEEN 1 AND 100
+  ),
+  CONSTRAINT valid_winner_metric CHECK (
+    winner_metric IN ('opens', 'human_clicks', 'conversions')
+  ),
+  CONSTRAINT valid_wait_hours CHECK (wait_hours > 0),
+  CONSTRAINT valid_ab_test_status CHECK (
+    status IN ('draft', 'testing', 'winner_selected', 'cancelled')
+  )
+);
+-- Unset fields fall back to the campaign's own subject, sender and template
+CREATE TABLE IF NOT EXISTS campaign_variants (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  campaign_id UUID NOT NULL REFERENCES email_campaigns(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  subject VARCHAR(255),
+  from_name VARCHAR(255),
+  template_id UUID REFERENCES email_templates(id) ON DELETE
+  SET NULL,
+    send_at TIMESTAMP WITH TIME ZONE,
+    is_winner BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT unique_campaign_variant_name UNIQUE (campaign_id, name)
+);
+ALTER TABLE campaign_ab_tests
+ADD CONSTRAINT campaign_ab_tests_winner_variant_id_fkey FOREIGN KEY (winner_variant_id) REFERENCES campaign_variants(id) ON DELETE
+SET NULL;
+CREATE INDEX IF NOT EXISTS idx_campaign_variants_campaign_id ON campaign_variants(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_campaign_ab_tests_due ON campaign_ab_tests(test_ends_at)
+WHERE status = 'testing';
+-- Remainder sends carry the winner's variant_id but are not in the cohort
+ALTER TABLE email_queue
+ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES campaign_variants(id) ON DELETE
+SET NULL;
+ALTER TABLE email_queue
+ADD COLUMN IF NOT EXISTS test_cohort BOOLEAN NOT NULL DEFAULT FALSE;
+CREATE INDEX IF NOT EXISTS idx_email_queue_variant_id ON email_queue(variant_id)
+WHERE variant_id IS NOT NULL;
+-- =============================================
+-- ENABLE RLS AND CREATE POLICIES
+-- =============================================
+ALTER TABLE campaign_ab_tests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaign_variants ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view A/B tests" ON campaign_ab_tests FOR
+SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage A/B tests" ON campaign_ab_tests FOR ALL TO authenticated USING (true);
+CREATE POLICY "Users can view campaign variants" ON campaign_variants FOR
+SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage campaign variants" ON campaign_variants FOR ALL TO authenticated USING (true);
+-- =============================================
+-- RECIPIENTS
+-- Active contacts of the campaign's segment or list, or every active
+-- contact when it has neither
+-- =============================================
+CREATE OR REPLACE FUNCTION get_campaign_recipients(p_campaign_id UUID) RETURNS SETOF contacts AS $$
+DECLARE v_campaign RECORD;
+BEGIN
+SELECT * INTO v_campaign
+FROM email_campaigns
+WHERE id = p_campaign_id;
+IF v_campaign IS NULL THEN RETURN;
+END IF;
+IF v_campaign.segment_id IS NOT NULL THEN RETURN QUERY
+SELECT c.*
+FROM contacts c
+  JOIN contact_segments cs ON cs.contact_id = c.id
+WHERE cs.segment_id = v_campaign.segment_id
+  AND c.status = 'active';
+ELSIF v_campaign.contact_list_id IS NOT NULL THEN RETURN QUERY
+SELECT c.*
+FROM contacts c
+  JOIN contact_list_memberships clm ON clm.contact_id = c.id
+WHERE clm.list_id = v_campaign.contact_list_id
+  AND c.status = 'active';
+ELSE RETURN QUERY
+SELECT c.*
+FROM contacts c
+WHERE c.status = 'active';
+END IF;
+END;
+$$ LANGUAGE plpgsql;
+-- Queue template_data for a variant; matches what start_campaign stores
+-- plus the variant's overrides
+CREATE OR REPLACE FUNCTION build_variant_template_data(p_contact contacts, p_variant campaign_variants) RETURNS JSONB AS $$ BEGIN RETURN jsonb_build_object(
+    'first_name',
+    COALESCE(p_contact.first_name, ''),
+    'last_name',
+    COALESCE(p_contact.last_name, ''),
+    'email',
+    p_contact.email,
+    'metadata',
+    p_contact.metadata,
+    'variant_id',
+    p_variant.id,
+    'variant_name',
+    p_variant.name
+  ) || jsonb_strip_nulls(
+    jsonb_build_object(
+      'subject',
+      p_variant.subject,
+      'from_name',
+      p_variant.from_name,
+      'template_id',
+      p_variant.template_id
+    )
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+-- =============================================
+-- START TEST
+-- Queues a random test cohort split round-robin across the variants
+-- =============================================
+CREATE OR REPLACE FUNCTION start_ab_test(p_campaign_id UUID) RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT,
+    queued_emails INTEGER
+  ) AS $$
+DECLARE v_campaign RECORD;
+v_test campaign_ab_tests;
+v_variant_count INTEGER;
+v_recipient_count INTEGER;
+v_cohort_size INTEGER;
+v_queued_count INTEGER := 0;
+v_error_message TEXT;
+BEGIN
+SELECT * INTO v_campaign
+FROM email_campaigns
+WHERE id = p_campaign_id;
+IF v_campaign IS NULL THEN RETURN QUERY
+SELECT FALSE,
+  'Campaign not found',
+  0;
+RETURN;
+END IF;
+SELECT * INTO v_test
+FROM campaign_ab_tests
+WHERE campaign_id = p_campaign_id FOR
+UPDATE;
+IF v_test IS NULL THEN v_error_message := 'Campaign has no A/B test';
+ELSIF v_test.status <> 'draft' THEN v_error_message := 'A/B test cannot be started. Current status: ' || v_test.status;
+ELSIF v_campaign.status NOT IN ('draft', 'scheduled') THEN v_error_message := 'Campaign cannot be started. Current status: ' || v_campaign.status;
+END IF;
+SELECT COUNT(*) INTO v_variant_count
+FROM campaign_variants
+WHERE campaign_id = p_campaign_id;
+IF v_error_message IS NULL
+AND v_variant_count < 2 THEN v_error_message := 'A/B test needs at least two variants';
+END IF;
+IF v_error_message IS NOT NULL THEN PERFORM log_campaign_event(p_campaign_id, 'error', v_error_message);
+RETURN QUERY
+SELECT FALSE,
+  v_error_message,
+  0;
+RETURN;
+END IF;
+SELECT COUNT(*) INTO v_recipient_count
+FROM get_campaign_recipients(p_campaign_id);
+-- Every variant gets at least one recipient when there are enough
+v_cohort_size := LEAST(
+  v_recipient_count,
+  GREATEST(
+    v_variant_count,
+    CEIL(v_recipient_count * v_test.test_percentage / 100.0)::INTEGER
+  )
+);
+INSERT INTO email_queue (
+    campaign_id,
+    contact_id,
+    email_address,
+    template_data,
+    priority,
+    scheduled_at,
+    variant_id,
+    test_cohort
+  )
+SELECT p_campaign_id,
+  (r.contact).id,
+  (r.contact).email,
+  build_variant_template_data(r.contact, v.variant),
+  COALESCE(v_campaign.priority, 0),
+  COALESCE((v.variant).send_at, NOW()),
+  (v.variant).id,
+  TRUE
+FROM (
+    SELECT c AS contact,
+      ROW_NUMBER() OVER (
+        ORDER BY random()
+      ) AS rn
+    FROM get_campaign_recipients(p_campaign_id) c
+  ) r
+  JOIN (
+    SELECT cv AS variant,
+      ROW_NUMBER() OVER (
+        ORDER BY cv.created_at,
+          cv.name
+      ) - 1 AS idx
+    FROM campaign_variants cv
+    WHERE cv.campaign_id = p_campaign_id
+  ) v ON v.idx = (r.rn - 1) % v_variant_count
+WHERE r.rn <= v_cohort_size;
+GET DIAGNOSTICS v_queued_count = ROW_COUNT;
+UPDATE email_campaigns
+SET status = 'running',
+  started_at = NOW(),
+  total_recipients = v_recipient_count
+WHERE id = p_campaign_id;
+-- The wait window starts once the last variant has been sent
+UPDATE campaign_ab_tests
+SET status = 'testing',
+  test_started_at = NOW(),
+  test_ends_at = GREATEST(
+    NOW(),
+    (
+      SELECT MAX(send_at)
+      FROM campaign_variants
+      WHERE campaign_id = p_campaign_id
+    )
+  ) + (v_test.wait_hours || ' hours')::INTERVAL
+WHERE id = v_test.id;
+PERFORM log_campaign_event(
+  p_campaign_id,
+  'info',
+  'A/B test started',
+  jsonb_build_object(
+    'queued_emails',
+    v_queued_count,
+    'recipients',
+    v_recipient_count,
+    'variants',
+    v_variant_count,
+    'winner_metric',
+    v_test.winner_metric
+  )
+);
+RETURN QUERY
+SELECT TRUE,
+  'A/B test started successfully',
+  v_queued_count;
+END;
+$$ LANGUAGE plpgsql;
+-- =============================================
+-- VARIANT STATS
+-- Test cohort only, so the winner's remainder send does not skew results.
+-- Each column counts emails, not events.
+-- =============================================
+CREATE OR REPLACE FUNCTION get_ab_test_variant_stats(p_campaign_id UUID) RETURNS TABLE (
+    variant_id UUID,
+    variant_name TEXT,
+    recipients BIGINT,
+    sent BIGINT,
+    opens BIGINT,
+    human_clicks BIGINT,
+    conversions BIGINT
+  ) AS $$ BEGIN RETURN QUERY WITH cohort AS (
+    SELECT eq.variant_id,
+      el.id AS email_log_id,
+      el.opened_at
+    FROM email_queue eq
+      LEFT JOIN email_logs el ON el.tracking_data->>'queue_id' = eq.id::TEXT
+    WHERE eq.campaign_id = p_campaign_id
+      AND eq.test_cohort
+  ),
+  engagement AS (
+    SELECT etd.email_log_id,
+      BOOL_OR(
+        etd.event_type = 'click'
+        AND NOT etd.is_machine
+      ) AS human_click,
+      BOOL_OR(etd.event_type = 'conversion') AS converted
+    FROM email_tracking_details etd
+      JOIN cohort ON cohort.email_log_id = etd.email_log_id
+    GROUP BY etd.email_log_id
+  )
+SELECT cv.id as variant_id,
+  cv.name::TEXT as variant_name,
+  COUNT(cohort.variant_id) as recipients,
+  COUNT(cohort.email_log_id) as sent,
+  COUNT(cohort.email_log_id) FILTER (
+    WHERE cohort.opened_at IS NOT NULL
+  ) as opens,
+  COUNT(cohort.email_log_id) FILTER (
+    WHERE e.human_click
+  ) as human_clicks,
+  COUNT(cohort.email_log_id) FILTER (
+    WHERE e.converted
+  ) as conversions
+FROM campaign_variants cv
+  LEFT JOIN cohort ON cohort.variant_id = cv.id
+  LEFT JOIN engagement e ON e.email_log_id = cohort.email_log_id
+WHERE cv.campaign_id = p_campaign_id
+GROUP BY cv.id,
+  cv.name,
+  cv.created_at
+ORDER BY cv.created_at,
+  cv.name;
+END;
+$$ LANGUAGE plpgsql;
+-- =============================================
+-- DISPATCH WINNER
+-- Without p_variant_id the variant with the best winner_metric rate wins.
+-- The campaign takes over the winner's subject, sender and template, and
+-- every recipient not in the cohort is queued with it.
+-- =============================================
+CREATE OR REPLACE FUNCTION dispatch_ab_test_winner(
+    p_campaign_id UUID,
+    p_variant_id UUID DEFAULT NULL
+  ) RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT,
+    winner_variant_id UUID,
+    queued_emails INTEGER
+  ) AS $$
+DECLARE v_test campaign_ab_tests;
+v_winner campaign_variants;
+v_queued_count INTEGER := 0;
+v_error_message TEXT;
+BEGIN -- Lock the test so the cron job and a manual pick cannot both dispatch
+SELECT * INTO v_test
+FROM campaign_ab_tests
+WHERE campaign_id = p_campaign_id FOR
+UPDATE;
+IF v_test IS NULL THEN v_error_message := 'Campaign has no A/B test';
+ELSIF v_test.status <> 'testing' THEN v_error_message := 'A/B test is not running. Current status: ' || v_test.status;
+END IF;
+IF v_error_message IS NULL THEN IF p_variant_id IS NOT NULL THEN
+SELECT * INTO v_winner
+FROM campaign_variants
+WHERE id = p_variant_id
+  AND campaign_id = p_campaign_id;
+ELSE
+SELECT cv.* INTO v_winner
+FROM get_ab_test_variant_stats(p_campaign_id) s
+  JOIN campaign_variants cv ON cv.id = s.variant_id
+ORDER BY (
+    CASE
+      v_test.winner_metric
+      WHEN 'opens' THEN s.opens
+      WHEN 'human_clicks' THEN s.human_clicks
+      ELSE s.conversions
+    END
+  )::DECIMAL / NULLIF(s.sent, 0) DESC NULLS LAST,
+  cv.created_at,
+  cv.name
+LIMIT 1;
+END IF;
+IF v_winner IS NULL THEN v_error_message := 'Variant not found for campaign';
+END IF;
+END IF;
+IF v_error_message IS NOT NULL THEN PERFORM log_campaign_event(p_campaign_id, 'error', v_error_message);
+RETURN QUERY
+SELECT FALSE,
+  v_error_message,
+  NULL::UUID,
+  0;
+RETURN;
+END IF;
+UPDATE campaign_variants
+SET is_winner = (id = v_winner.id)
+WHERE campaign_id = p_campaign_id;
+UPDATE campaign_ab_tests
+SET status = 'winner_selected',
+  winner_variant_id = v_winner.id,
+  winner_selected_at = NOW()
+WHERE id = v_test.id;
+UPDATE email_campaigns
+SET subject = COALESCE(v_winner.subject, subject),
+  from_name = COALESCE(v_winner.from_name, from_name),
+  template_id = COALESCE(v_winner.template_id, template_id)
+WHERE id = p_campaign_id;
+INSERT INTO email_queue (
+    campaign_id,
+    contact_id,
+    email_address,
+    template_data,
+    priority,
+    scheduled_at,
+    variant_id
+  )
+SELECT p_campaign_id,
+  c.id,
+  c.email,
+  build_variant_template_data(c, v_winner),
+  COALESCE(ec.priority, 0),
+  GREATEST(NOW(), COALESCE(v_winner.send_at, NOW())),
+  v_winner.id
+FROM get_campaign_recipients(p_campaign_id) c
+  CROSS JOIN email_campaigns ec
+WHERE ec.id = p_campaign_id
+  AND NOT EXISTS (
+    SELECT 1
+    FROM email_queue eq
+    WHERE eq.campaign_id = p_campaign_id
+      AND eq.contact_id = c.id
+  );
+GET DIAGNOSTICS v_queued_count = ROW_COUNT;
+UPDATE email_campaigns
+SET total_recipients = GREATEST(
+    total_recipients,
+    (
+      SELECT COUNT(*)
+      FROM email_queue
+      WHERE campaign_id = p_campaign_id
+    )
+  )
+WHERE id = p_campaign_id;
+PERFORM log_campaign_event(
+  p_campaign_id,
+  'info',
+  'A/B test winner dispatched',
+  jsonb_build_object(
+    'winner_variant_id',
+    v_winner.id,
+    'winner_name',
+    v_winner.name,
+    'selected_by',
+    CASE
+      WHEN p_variant_id IS NULL THEN v_test.winner_metric
+      ELSE 'manual'
+    END,
+    'queued_emails',
+    v_queued_count
+  )
+);
+RETURN QUERY
+SELECT TRUE,
+  'Winner dispatched successfully',
+  v_winner.id,
+  v_queued_count;
+END;
+$$ LANGUAGE plpgsql;
+-- Dispatch the winner of every test whose wait window has passed
+CREATE OR REPLACE FUNCTION complete_due_ab_tests() RETURNS INTEGER AS $$
+DECLARE v_test RECORD;
+v_completed INTEGER := 0;
+v_result RECORD;
+BEGIN FOR v_test IN
+SELECT campaign_id
+FROM campaign_ab_tests
+WHERE status = 'testing'
+  AND test_ends_at <= NOW() LOOP
+SELECT * INTO v_result
+FROM dispatch_ab_test_winner(v_test.campaign_id);
+IF v_result.success THEN v_completed := v_completed + 1;
+END IF;
+END LOOP;
+RETURN v_completed;
+END;
+$$ LANGUAGE plpgsql;
+SELECT cron.schedule(
+    'ab-test-winner-job',
+    -- job name
+    '*/5 * * * *',
+    -- every 5 minutes
+    $$SELECT public.complete_due_ab_tests();
+$$
+);
+COMMENT ON TABLE campaign_ab_tests IS 'A/B test settings and lifecycle for a campaign';
+COMMENT ON TABLE campaign_variants IS 'Campaign variant overriding subject, sender, template or send time';
+COMMENT ON COLUMN email_queue.test_cohort IS 'Queued as part of an A/B test cohort rather than the winner send';
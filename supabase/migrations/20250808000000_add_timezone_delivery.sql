@@ -0,0 +1,102 @@
+-- =============================================
+-- TIMEZONE-AWARE DELIVERY
+-- Campaigns can deliver at a local time of day per contact, or at the hour
+-- each contact has historically engaged most
+-- =============================================
+-- IANA name, e.g. America/New_York; unset falls back to the scheduler default
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
+ALTER TABLE email_campaigns
+ADD COLUMN IF NOT EXISTS delivery_mode VARCHAR(20) NOT NULL DEFAULT 'immediate';
+ALTER TABLE email_campaigns
+ADD COLUMN IF NOT EXISTS local_send_time TIME NOT NULL DEFAULT '09:00';
+ALTER TABLE email_campaigns
+ADD CONSTRAINT valid_delivery_mode CHECK (
+    delivery_mode IN ('immediate', 'local_time', 'optimized')
+  );
+-- =============================================
+-- BEST SEND HOURS
+-- Local hour of day with the most opens and clicks per contact, ignoring
+-- machine opens. Contacts with fewer than p_min_events have no row.
+-- =============================================
+CREATE OR REPLACE FUNCTION get_contact_send_hours(
+    p_contact_ids UUID [],
+    p_default_timezone TEXT DEFAULT 'UTC',
+    p_min_events INTEGER DEFAULT 3
+  ) RETURNS TABLE (
+    contact_id UUID,
+    best_hour INTEGER,
+    engagement_count BIGINT
+  ) AS $$ BEGIN RETURN QUERY WITH recipients AS (
+    -- Unknown timezone names would make AT TIME ZONE raise
+    SELECT c.id AS contact_id,
+      CASE
+        WHEN EXISTS (
+          SELECT 1
+          FROM pg_timezone_names tz
+          WHERE tz.name = c.timezone
+        ) THEN c.timezone
+        ELSE p_default_timezone
+      END AS timezone
+    FROM contacts c
+    WHERE c.id = ANY(p_contact_ids)
+  ),
+  engagement AS (
+    SELECT r.contact_id,
+      etd.event_timestamp AT TIME ZONE r.timezone AS local_time
+    FROM recipients r
+      JOIN email_logs el ON el.contact_id = r.contact_id
+      JOIN email_tracking_details etd ON etd.email_log_id = el.id
+    WHERE etd.event_type IN ('open', 'click')
+      AND NOT etd.is_machine
+    UNION ALL
+    -- Sends tracked before email_tracking_details only have the first
+    -- open and click on the log
+    SELECT r.contact_id,
+      t.ts AT TIME ZONE r.timezone
+    FROM recipients r
+      JOIN email_logs el ON el.contact_id = r.contact_id
+      CROSS JOIN LATERAL (
+        VALUES (el.opened_at),
+          (el.clicked_at)
+      ) AS t(ts)
+    WHERE t.ts IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1
+        FROM email_tracking_details etd
+        WHERE etd.email_log_id = el.id
+      )
+  ),
+  hours AS (
+    SELECT e.contact_id,
+      EXTRACT(
+        HOUR
+        FROM e.local_time
+      )::INTEGER AS hour,
+      COUNT(*) AS events
+    FROM engagement e
+    GROUP BY e.contact_id,
+      hour
+  ),
+  ranked AS (
+    SELECT h.contact_id,
+      h.hour,
+      SUM(h.events) OVER (PARTITION BY h.contact_id) AS total_events,
+      ROW_NUMBER() OVER (
+        PARTITION BY h.contact_id
+        ORDER BY h.events DESC,
+          h.hour
+      ) AS rn
+    FROM hours h
+  )
+SELECT r.contact_id,
+  r.hour,
+  r.total_events::BIGINT
+FROM ranked r
+WHERE r.rn = 1
+  AND r.total_events >= p_min_events;
+END;
+$$ LANGUAGE plpgsql STABLE;
+COMMENT ON COLUMN contacts.timezone IS 'IANA timezone used for local-time delivery';
+COMMENT ON COLUMN email_campaigns.delivery_mode IS 'immediate, local_time (local_send_time per contact) or optimized (best engagement hour per contact)';
+COMMENT ON COLUMN email_campaigns.local_send_time IS 'Local time of day for local_time delivery and the optimized fallback';
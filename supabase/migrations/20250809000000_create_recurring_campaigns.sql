@@ -0,0 +1,241 @@
+-- =============================================
+-- RECURRING CAMPAIGNS
+-- A recurring campaign is a template for campaign runs. On each occurrence
+-- of its cron or RRULE schedule, campaign-scheduler spawns a child
+-- email_campaigns row that is then started like any scheduled campaign.
+-- =============================================
+CREATE TABLE IF NOT EXISTS recurring_campaigns (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(255) NOT NULL,
+  template_id UUID REFERENCES email_templates(id) ON DELETE
+  SET NULL,
+    segment_id UUID REFERENCES segments(id) ON DELETE
+  SET NULL,
+    contact_list_id UUID REFERENCES contact_lists(id) ON DELETE
+  SET NULL,
+    from_email VARCHAR(255) NOT NULL DEFAULT 'funding@momentumbusiness.capital',
+    from_name VARCHAR(255) NOT NULL DEFAULT 'Momentum Business Capital',
+    subject VARCHAR(255),
+    priority INTEGER NOT NULL DEFAULT 0,
+    delivery_mode VARCHAR(20) NOT NULL DEFAULT 'immediate',
+    local_send_time TIME NOT NULL DEFAULT '09:00',
+    schedule_type VARCHAR(10) NOT NULL,
+    schedule_expression TEXT NOT NULL,
+    timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    ends_at TIMESTAMP WITH TIME ZONE,
+    status VARCHAR(20) NOT NULL DEFAULT 'active',
+    -- Computed by the application, since cron and RRULE are parsed there
+    next_run_at TIMESTAMP WITH TIME ZONE,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    run_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_schedule_type CHECK (schedule_type IN ('cron', 'rrule')),
+    CONSTRAINT valid_recurring_delivery_mode CHECK (
+      delivery_mode IN ('immediate', 'local_time', 'optimized')
+    ),
+    CONSTRAINT valid_recurring_status CHECK (status IN ('active', 'paused', 'ended')),
+    CONSTRAINT valid_recurring_window CHECK (
+      ends_at IS NULL
+      OR ends_at > starts_at
+    )
+);
+CREATE INDEX IF NOT EXISTS idx_recurring_campaigns_due ON recurring_campaigns(next_run_at)
+WHERE status = 'active';
+ALTER TABLE email_campaigns
+ADD COLUMN IF NOT EXISTS recurring_campaign_id UUID REFERENCES recurring_campaigns(id) ON DELETE
+SET NULL;
+ALTER TABLE email_campaigns
+ADD COLUMN IF NOT EXISTS run_number INTEGER;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_campaigns_recurring_run ON email_campaigns(recurring_campaign_id, run_number)
+WHERE recurring_campaign_id IS NOT NULL;
+-- =============================================
+-- ENABLE RLS AND CREATE POLICIES
+-- =============================================
+ALTER TABLE recurring_campaigns ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view recurring campaigns" ON recurring_campaigns FOR
+SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage recurring campaigns" ON recurring_campaigns FOR ALL TO authenticated USING (true);
+-- =============================================
+-- SPAWN RUN
+-- Creates the run due at next_run_at and moves the definition on to
+-- p_next_run_at, ending it when that is NULL. Returns NULL when the
+-- definition is not due, so concurrent schedulers spawn each run once.
+-- =============================================
+CREATE OR REPLACE FUNCTION spawn_recurring_campaign_run(
+    p_recurring_campaign_id UUID,
+    p_next_run_at TIMESTAMP WITH TIME ZONE
+  ) RETURNS UUID AS $$
+DECLARE v_recurring RECORD;
+v_campaign_id UUID;
+BEGIN
+SELECT * INTO v_recurring
+FROM recurring_campaigns
+WHERE id = p_recurring_campaign_id
+  AND status = 'active'
+  AND next_run_at <= NOW() FOR
+UPDATE SKIP LOCKED;
+IF NOT FOUND THEN RETURN NULL;
+END IF;
+-- Each run goes to the segment as it is now, not as it was last run
+IF EXISTS (
+  SELECT 1
+  FROM segments s
+  WHERE s.id = v_recurring.segment_id
+    AND s.type = 'dynamic'
+) THEN PERFORM calculate_dynamic_segment(v_recurring.segment_id);
+END IF;
+INSERT INTO email_campaigns (
+    name,
+    template_id,
+    segment_id,
+    contact_list_id,
+    from_email,
+    from_name,
+    subject,
+    priority,
+    delivery_mode,
+    local_send_time,
+    status,
+    scheduled_at,
+    recurring_campaign_id,
+    run_number
+  )
+VALUES (
+    v_recurring.name || ' #' || (v_recurring.run_count + 1),
+    v_recurring.template_id,
+    v_recurring.segment_id,
+    v_recurring.contact_list_id,
+    v_recurring.from_email,
+    v_recurring.from_name,
+    v_recurring.subject,
+    v_recurring.priority,
+    v_recurring.delivery_mode,
+    v_recurring.local_send_time,
+    'scheduled',
+    v_recurring.next_run_at,
+    v_recurring.id,
+    v_recurring.run_count + 1
+  )
+RETURNING id INTO v_campaign_id;
+UPDATE recurring_campaigns
+SET run_count = run_count + 1,
+  last_run_at = next_run_at,
+  next_run_at = p_next_run_at,
+  status = CASE
+    WHEN p_next_run_at IS NULL THEN 'ended'
+    ELSE status
+  END,
+  updated_at = NOW()
+WHERE id = p_recurring_campaign_id;
+PERFORM log_campaign_event(
+  v_campaign_id,
+  'info',
+  'Recurring campaign run spawned',
+  jsonb_build_object(
+    'recurring_campaign_id',
+    p_recurring_campaign_id,
+    'run_number',
+    v_recurring.run_count + 1,
+    'next_run_at',
+    p_next_run_at
+  )
+);
+RETURN v_campaign_id;
+END;
+$$ LANGUAGE plpgsql;
+-- =============================================
+-- RUN STATS
+-- One row per spawned run, latest first. Engagement is human-only, with
+-- rates over delivered emails as in get_enhanced_campaign_stats.
+-- =============================================
+CREATE OR REPLACE FUNCTION get_recurring_campaign_runs(p_recurring_campaign_id UUID) RETURNS TABLE (
+    campaign_id UUID,
+    run_number INTEGER,
+    campaign_status campaign_status,
+    scheduled_at TIMESTAMP WITH TIME ZONE,
+    total_recipients INTEGER,
+    total_sent BIGINT,
+    total_delivered BIGINT,
+    total_bounced BIGINT,
+    human_opened BIGINT,
+    human_clicked BIGINT,
+    human_open_rate DECIMAL(5, 2),
+    human_click_rate DECIMAL(5, 2)
+  ) AS $$ BEGIN RETURN QUERY WITH logs AS (
+    SELECT el.campaign_id,
+      el.delivered_at IS NOT NULL AS delivered,
+      el.status = 'bounced' AS bounced,
+      EXISTS (
+        SELECT 1
+        FROM email_tracking_details etd
+        WHERE etd.email_log_id = el.id
+          AND etd.event_type = 'open'
+          AND NOT etd.is_machine
+      ) AS human_open,
+      EXISTS (
+        SELECT 1
+        FROM email_tracking_details etd
+        WHERE etd.email_log_id = el.id
+          AND etd.event_type = 'click'
+          AND NOT etd.is_machine
+      ) AS human_click
+    FROM email_logs el
+      JOIN email_campaigns c ON c.id = el.campaign_id
+    WHERE c.recurring_campaign_id = p_recurring_campaign_id
+  )
+SELECT ec.id,
+  ec.run_number,
+  ec.status,
+  ec.scheduled_at,
+  ec.total_recipients,
+  COUNT(l.campaign_id),
+  COUNT(l.campaign_id) FILTER (
+    WHERE l.delivered
+  ),
+  COUNT(l.campaign_id) FILTER (
+    WHERE l.bounced
+  ),
+  COUNT(l.campaign_id) FILTER (
+    WHERE l.human_open
+  ),
+  COUNT(l.campaign_id) FILTER (
+    WHERE l.human_click
+  ),
+  ROUND(
+    (
+      COUNT(l.campaign_id) FILTER (
+        WHERE l.human_open
+      )
+    )::DECIMAL / NULLIF(
+      COUNT(l.campaign_id) FILTER (
+        WHERE l.delivered
+      ),
+      0
+    ) * 100,
+    2
+  ),
+  ROUND(
+    (
+      COUNT(l.campaign_id) FILTER (
+        WHERE l.human_click
+      )
+    )::DECIMAL / NULLIF(
+      COUNT(l.campaign_id) FILTER (
+        WHERE l.delivered
+      ),
+      0
+    ) * 100,
+    2
+  )
+FROM email_campaigns ec
+  LEFT JOIN logs l ON l.campaign_id = ec.id
+WHERE ec.recurring_campaign_id = p_recurring_campaign_id
+GROUP BY ec.id
+ORDER BY ec.run_number DESC;
+END;
+$$ LANGUAGE plpgsql STABLE;
+COMMENT ON TABLE recurring_campaigns IS 'Campaign definitions spawning a child campaign run on each occurrence of a cron or RRULE schedule';
+COMMENT ON COLUMN recurring_campaigns.schedule_expression IS 'Five-field cron expression or RFC 5545 RRULE, evaluated in timezone';
+COMMENT ON COLUMN email_campaigns.recurring_campaign_id IS 'Recurring campaign that spawned this run';
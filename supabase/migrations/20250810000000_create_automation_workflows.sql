@@ -0,0 +1,273 @@
+-- =============================================
+-- AUTOMATION WORKFLOWS
+-- A workflow enrolls contacts when its trigger fires and walks each of them
+-- through its steps. Enrollment happens here, in triggers; the workflow
+-- worker advances due enrollments and queues their sends.
+-- =============================================
+CREATE TABLE IF NOT EXISTS workflows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft',
+  trigger_type VARCHAR(30) NOT NULL,
+  -- Every key must match the trigger event, e.g. {"list_id": "..."}
+  trigger_config JSONB NOT NULL DEFAULT '{}',
+  steps JSONB NOT NULL DEFAULT '[]',
+  allow_reentry BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Sends are queued under this campaign, created when the workflow is activated
+  campaign_id UUID REFERENCES email_campaigns(id) ON DELETE
+  SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_workflow_status CHECK (
+      status IN ('draft', 'active', 'paused', 'archived')
+    ),
+    CONSTRAINT valid_workflow_trigger_type CHECK (
+      trigger_type IN (
+        'list_added',
+        'segment_entered',
+        'email_opened',
+        'email_clicked',
+        'custom_event',
+        'date_anniversary'
+      )
+    )
+);
+CREATE TABLE IF NOT EXISTS workflow_enrollments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workflow_id UUID NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'active',
+  -- Step to run at next_run_at; NULL before the first step
+  current_step_id VARCHAR(100),
+  next_run_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  trigger_data JSONB NOT NULL DEFAULT '{}',
+  -- Step id to email_queue id of each email sent
+  sent_emails JSONB NOT NULL DEFAULT '{}',
+  last_error TEXT,
+  entered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_enrollment_status CHECK (
+    status IN ('active', 'completed', 'exited', 'failed')
+  )
+);
+-- A contact is in a workflow at most once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workflow_enrollments_active ON workflow_enrollments(workflow_id, contact_id)
+WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_workflow_enrollments_due ON workflow_enrollments(next_run_at)
+WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_workflow_enrollments_contact_id ON workflow_enrollments(contact_id);
+CREATE INDEX IF NOT EXISTS idx_workflows_trigger ON workflows(trigger_type)
+WHERE status = 'active';
+-- Custom events posted through the API; inserting one enrolls the contact
+CREATE TABLE IF NOT EXISTS contact_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  event_name VARCHAR(100) NOT NULL,
+  properties JSONB NOT NULL DEFAULT '{}',
+  occurred_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_contact_events_contact ON contact_events(contact_id, event_name);
+-- =============================================
+-- ENABLE RLS AND CREATE POLICIES
+-- =============================================
+ALTER TABLE workflows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workflow_enrollments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contact_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view workflows" ON workflows FOR
+SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage workflows" ON workflows FOR ALL TO authenticated USING (true);
+CREATE POLICY "Users can view workflow enrollments" ON workflow_enrollments FOR
+SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage workflow enrollments" ON workflow_enrollments FOR ALL TO authenticated USING (true);
+CREATE POLICY "Users can view contact events" ON contact_events FOR
+SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage contact events" ON contact_events FOR ALL TO authenticated USING (true);
+-- =============================================
+-- ENROLLMENT
+-- Enrolls an active contact in every active workflow with the trigger whose
+-- config is contained in p_match. Contacts already in the workflow are
+-- skipped, as are contacts who finished it unless it allows reentry.
+-- =============================================
+CREATE OR REPLACE FUNCTION enroll_contact_in_workflows(
+    p_trigger_type TEXT,
+    p_contact_id UUID,
+    p_match JSONB DEFAULT '{}',
+    p_trigger_data JSONB DEFAULT '{}'
+  ) RETURNS INTEGER AS $$
+DECLARE v_enrolled INTEGER;
+BEGIN
+INSERT INTO workflow_enrollments (workflow_id, contact_id, trigger_data)
+SELECT w.id,
+  p_contact_id,
+  p_trigger_data || jsonb_build_object('trigger_type', p_trigger_type)
+FROM workflows w
+  JOIN contacts c ON c.id = p_contact_id
+WHERE w.status = 'active'
+  AND w.trigger_type = p_trigger_type
+  AND w.trigger_config <@ p_match
+  AND c.status = 'active'
+  AND NOT EXISTS (
+    SELECT 1
+    FROM workflow_enrollments we
+    WHERE we.workflow_id = w.id
+      AND we.contact_id = p_contact_id
+      AND (
+        we.status = 'active'
+        OR NOT w.allow_reentry
+      )
+  ) ON CONFLICT DO NOTHING;
+GET DIAGNOSTICS v_enrolled = ROW_COUNT;
+RETURN v_enrolled;
+END;
+$$ LANGUAGE plpgsql;
+CREATE OR REPLACE FUNCTION trigger_workflow_list_added() RETURNS TRIGGER AS $$ BEGIN PERFORM enroll_contact_in_workflows(
+    'list_added',
+    NEW.contact_id,
+    jsonb_build_object('list_id', NEW.list_id),
+    jsonb_build_object('list_id', NEW.list_id)
+  );
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+CREATE TRIGGER trigger_workflow_list_added
+AFTER
+INSERT ON contact_list_memberships FOR EACH ROW EXECUTE FUNCTION trigger_workflow_list_added();
+-- calculate_dynamic_segment re-inserts every member, so workflows without
+-- reentry are the ones that fire only on a contact's first entry
+CREATE OR REPLACE FUNCTION trigger_workflow_segment_entered() RETURNS TRIGGER AS $$ BEGIN PERFORM enroll_contact_in_workflows(
+    'segment_entered',
+    NEW.contact_id,
+    jsonb_build_object('segment_id', NEW.segment_id),
+    jsonb_build_object('segment_id', NEW.segment_id)
+  );
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+CREATE TRIGGER trigger_workflow_segment_entered
+AFTER
+INSERT ON contact_segments FOR EACH ROW EXECUTE FUNCTION trigger_workflow_segment_entered();
+-- Human opens and clicks only
+CREATE OR REPLACE FUNCTION trigger_workflow_email_engagement() RETURNS TRIGGER AS $$
+DECLARE v_log RECORD;
+BEGIN
+SELECT el.contact_id,
+  el.campaign_id INTO v_log
+FROM email_logs el
+WHERE el.id = NEW.email_log_id;
+IF FOUND
+AND v_log.contact_id IS NOT NULL THEN PERFORM enroll_contact_in_workflows(
+  CASE
+    WHEN NEW.event_type = 'open' THEN 'email_opened'
+    ELSE 'email_clicked'
+  END,
+  v_log.contact_id,
+  jsonb_build_object('campaign_id', v_log.campaign_id),
+  jsonb_strip_nulls(
+    jsonb_build_object(
+      'campaign_id',
+      v_log.campaign_id,
+      'email_log_id',
+      NEW.email_log_id,
+      'url',
+      NEW.url
+    )
+  )
+);
+END IF;
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+CREATE TRIGGER trigger_workflow_email_engagement
+AFTER
+INSERT ON email_tracking_details FOR EACH ROW
+  WHEN (
+    NEW.event_type IN ('open', 'click')
+    AND NOT NEW.is_machine
+  ) EXECUTE FUNCTION trigger_workflow_email_engagement();
+CREATE OR REPLACE FUNCTION trigger_workflow_custom_event() RETURNS TRIGGER AS $$ BEGIN PERFORM enroll_contact_in_workflows(
+    'custom_event',
+    NEW.contact_id,
+    jsonb_build_object('event_name', NEW.event_name),
+    jsonb_build_object(
+      'event_id',
+      NEW.id,
+      'event_name',
+      NEW.event_name,
+      'properties',
+      NEW.properties
+    )
+  );
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+CREATE TRIGGER trigger_workflow_custom_event
+AFTER
+INSERT ON contact_events FOR EACH ROW EXECUTE FUNCTION trigger_workflow_custom_event();
+-- =============================================
+-- DATE ANNIVERSARIES
+-- Enrolls contacts whose metadata date_field (YYYY-MM-DD) has today's month
+-- and day in the workflow's timezone, once per day. 29 February dates fall
+-- on 28 February in other years. Run on every worker tick.
+-- =============================================
+CREATE OR REPLACE FUNCTION enroll_date_anniversaries(p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW()) RETURNS INTEGER AS $$
+DECLARE v_workflow RECORD;
+v_today DATE;
+v_enrolled INTEGER := 0;
+v_count INTEGER;
+BEGIN FOR v_workflow IN
+SELECT w.id,
+  w.trigger_config->>'date_field' AS date_field,
+  COALESCE(w.trigger_config->>'timezone', 'UTC') AS timezone
+FROM workflows w
+WHERE w.status = 'active'
+  AND w.trigger_type = 'date_anniversary'
+  AND w.trigger_config ? 'date_field' LOOP v_today := (p_now AT TIME ZONE v_workflow.timezone)::DATE;
+INSERT INTO workflow_enrollments (workflow_id, contact_id, trigger_data)
+SELECT v_workflow.id,
+  c.id,
+  jsonb_build_object(
+    'trigger_type',
+    'date_anniversary',
+    'date_field',
+    v_workflow.date_field,
+    'date',
+    c.metadata->>v_workflow.date_field
+  )
+FROM contacts c
+WHERE c.status = 'active'
+  AND c.metadata->>v_workflow.date_field ~ '^\d{4}-\d{2}-\d{2}'
+  AND (
+    substring(
+      c.metadata->>v_workflow.date_field
+      FROM 6 FOR 5
+    ) = to_char(v_today, 'MM-DD')
+    OR (
+      substring(
+        c.metadata->>v_workflow.date_field
+        FROM 6 FOR 5
+      ) = '02-29'
+      AND to_char(v_today, 'MM-DD') = '02-28'
+      AND to_char(v_today + 1, 'MM-DD') = '03-01'
+    )
+  )
+  AND NOT EXISTS (
+    SELECT 1
+    FROM workflow_enrollments we
+    WHERE we.workflow_id = v_workflow.id
+      AND we.contact_id = c.id
+      AND (
+        we.status = 'active'
+        OR (we.entered_at AT TIME ZONE v_workflow.timezone)::DATE = v_today
+      )
+  ) ON CONFLICT DO NOTHING;
+GET DIAGNOSTICS v_count = ROW_COUNT;
+v_enrolled := v_enrolled + v_count;
+END LOOP;
+RETURN v_enrolled;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON TABLE workflows IS 'Event-triggered automation workflows (drip sequences)';
+COMMENT ON TABLE workflow_enrollments IS 'Per-contact workflow state, advanced by the workflow worker';
+COMMENT ON TABLE contact_events IS 'Custom contact events; custom_event workflows enroll on insert';
@@ -0,0 +1,45 @@
+-- =============================================
+-- TRANSACTIONAL EMAILS
+-- Log of one-off sends (receipts, password resets, ...) made through the
+-- transactional API, kept apart from campaign email_logs. A send with an
+-- idempotency key claims the key by inserting its row, so concurrent
+-- retries of the same request send once.
+-- =============================================
+CREATE TABLE IF NOT EXISTS transactional_emails (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  idempotency_key VARCHAR(255),
+  template_id UUID REFERENCES email_templates(id) ON DELETE
+  SET NULL,
+    template_name VARCHAR(255) NOT NULL,
+    category VARCHAR(50) NOT NULL DEFAULT 'general',
+    to_email VARCHAR(255) NOT NULL,
+    to_name VARCHAR(255),
+    contact_id UUID REFERENCES contacts(id) ON DELETE
+  SET NULL,
+    variables JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    subject TEXT,
+    message_id VARCHAR(255),
+    provider VARCHAR(50),
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    sent_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT valid_transactional_status CHECK (
+      status IN ('pending', 'sent', 'failed', 'suppressed')
+    )
+);
+-- Keys are released (set to NULL) once their retention window has passed
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactional_emails_idempotency_key ON transactional_emails(idempotency_key)
+WHERE idempotency_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_transactional_emails_to_email ON transactional_emails(to_email);
+CREATE INDEX IF NOT EXISTS idx_transactional_emails_created_at ON transactional_emails(created_at);
+-- =============================================
+-- ENABLE RLS AND CREATE POLICIES
+-- =============================================
+ALTER TABLE transactional_emails ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view transactional emails" ON transactional_emails FOR
+SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage transactional emails" ON transactional_emails FOR ALL TO authenticated USING (true);
+COMMENT ON TABLE transactional_emails IS 'Transactional API sends, separate from campaign email_logs';
+COMMENT ON COLUMN transactional_emails.idempotency_key IS 'Caller-supplied key; replays within the retention window return the logged result';
+COMMENT ON COLUMN transactional_emails.category IS 'Message category; bypass categories are sent to unsubscribed contacts';
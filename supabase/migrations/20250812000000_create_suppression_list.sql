@@ -0,0 +1,314 @@
+-- =============================================
+-- GLOBAL SUPPRESSION LIST
+-- Addresses and whole domains that no send path may deliver to, whatever
+-- the contact's status. Entries with expires_at (soft suppressions) stop
+-- applying once it passes. Emails and domains are stored lowercase.
+-- =============================================
+CREATE TABLE IF NOT EXISTS suppression_list (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  email VARCHAR(255) UNIQUE,
+  domain VARCHAR(255) UNIQUE,
+  reason VARCHAR(20) NOT NULL,
+  -- Where the entry came from, e.g. bounce-processor, csv_import, api
+  source VARCHAR(50) NOT NULL DEFAULT 'manual',
+  notes TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_suppression_reason CHECK (
+    reason IN (
+      'hard_bounce',
+      'soft_bounce',
+      'complaint',
+      'manual',
+      'legal'
+    )
+  ),
+  CONSTRAINT valid_suppression_target CHECK (
+    (email IS NULL) <> (domain IS NULL)
+  ),
+  CONSTRAINT lowercase_suppression_target CHECK (
+    COALESCE(email, domain) = LOWER(COALESCE(email, domain))
+  )
+);
+CREATE INDEX IF NOT EXISTS idx_suppression_list_reason ON suppression_list(reason);
+CREATE INDEX IF NOT EXISTS idx_suppression_list_expires_at ON suppression_list(expires_at)
+WHERE expires_at IS NOT NULL;
+-- =============================================
+-- ENABLE RLS AND CREATE POLICIES
+-- =============================================
+ALTER TABLE suppression_list ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view suppression list" ON suppression_list FOR
+SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage suppression list" ON suppression_list FOR ALL TO authenticated USING (true);
+-- =============================================
+-- LOOKUP
+-- Reason of the active entry for the address or its domain, or NULL.
+-- Permanent entries win over ones that expire.
+-- =============================================
+CREATE OR REPLACE FUNCTION get_suppression_reason(p_email TEXT) RETURNS TEXT AS $$
+SELECT s.reason
+FROM suppression_list s
+WHERE (
+    s.email = LOWER(TRIM(p_email))
+    OR s.domain = LOWER(SPLIT_PART(TRIM(p_email), '@', 2))
+  )
+  AND (
+    s.expires_at IS NULL
+    OR s.expires_at > NOW()
+  )
+ORDER BY s.expires_at DESC NULLS FIRST
+LIMIT 1;
+$$ LANGUAGE sql STABLE;
+-- Contacts marked bounced (handle_bounce, webhooks) are suppressed
+-- everywhere, including for transactional sends
+CREATE OR REPLACE FUNCTION trigger_suppress_bounced_contact() RETURNS TRIGGER AS $$ BEGIN
+INSERT INTO suppression_list (email, reason, source, notes)
+VALUES (
+    LOWER(TRIM(NEW.email)),
+    'hard_bounce',
+    'contact_status',
+    NEW.metadata->>'bounce_reason'
+  ) ON CONFLICT (email) DO NOTHING;
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+CREATE TRIGGER trigger_suppress_bounced_contact
+AFTER
+UPDATE OF status ON contacts FOR EACH ROW
+  WHEN (
+    NEW.status = 'bounced'
+    AND OLD.status IS DISTINCT FROM 'bounced'
+  ) EXECUTE FUNCTION trigger_suppress_bounced_contact();
+-- =============================================
+-- RECIPIENTS
+-- As before, minus suppressed addresses
+-- =============================================
+CREATE OR REPLACE FUNCTION get_campaign_recipients(p_campaign_id UUID) RETURNS SETOF contacts AS $$
+DECLARE v_campaign RECORD;
+BEGIN
+SELECT * INTO v_campaign
+FROM email_campaigns
+WHERE id = p_campaign_id;
+IF v_campaign IS NULL THEN RETURN;
+END IF;
+IF v_campaign.segment_id IS NOT NULL THEN RETURN QUERY
+SELECT c.*
+FROM contacts c
+  JOIN contact_segments cs ON cs.contact_id = c.id
+WHERE cs.segment_id = v_campaign.segment_id
+  AND c.status = 'active'
+  AND get_suppression_reason(c.email) IS NULL;
+ELSIF v_campaign.contact_list_id IS NOT NULL THEN RETURN QUERY
+SELECT c.*
+FROM contacts c
+  JOIN contact_list_memberships clm ON clm.contact_id = c.id
+WHERE clm.list_id = v_campaign.contact_list_id
+  AND c.status = 'active'
+  AND get_suppression_reason(c.email) IS NULL;
+ELSE RETURN QUERY
+SELECT c.*
+FROM contacts c
+WHERE c.status = 'active'
+  AND get_suppression_reason(c.email) IS NULL;
+END IF;
+END;
+$$ LANGUAGE plpgsql;
+-- =============================================
+-- PROCESS EMAIL QUEUE
+-- As before, but items for suppressed addresses are cancelled instead of
+-- sent, also when they were queued before the address was suppressed
+-- =============================================
+CREATE OR REPLACE FUNCTION process_email_queue(p_batch_size INTEGER DEFAULT 50) RETURNS TABLE (
+        processed_count INTEGER,
+        failed_count INTEGER,
+        remaining_count INTEGER
+    ) AS $$
+DECLARE v_processed_count INTEGER := 0;
+v_failed_count INTEGER := 0;
+v_remaining_count INTEGER;
+v_queue_record RECORD;
+v_campaign_record RECORD;
+v_contact_record RECORD;
+v_template_record RECORD;
+v_can_send BOOLEAN;
+v_suppression_reason TEXT;
+BEGIN -- Log start of processing
+PERFORM log_campaign_event(
+    NULL,
+    'info',
+    'Starting email queue processing',
+    jsonb_build_object('batch_size', p_batch_size)
+);
+-- Process emails in batch
+FOR v_queue_record IN
+SELECT eq.*,
+    ec.name as campaign_name,
+    ec.status as campaign_status
+FROM email_queue eq
+    JOIN email_campaigns ec ON eq.campaign_id = ec.id
+WHERE eq.status = 'pending'
+    AND eq.scheduled_at <= NOW()
+    AND eq.attempts < eq.max_attempts
+    AND ec.status = 'running'
+ORDER BY eq.priority DESC,
+    eq.scheduled_at ASC
+LIMIT p_batch_size LOOP BEGIN -- Check rate limit (200 emails per hour)
+SELECT check_rate_limit('email_sending', 200, 60) INTO v_can_send;
+IF NOT v_can_send THEN PERFORM log_campaign_event(
+    v_queue_record.campaign_id,
+    'warning',
+    'Rate limit reached, stopping queue processing'
+);
+EXIT;
+-- Exit the loop if rate limit is reached
+END IF;
+-- Update queue record to processing
+UPDATE email_queue
+SET status = 'processing',
+    attempts = attempts + 1
+WHERE id = v_queue_record.id;
+-- Get campaign details
+SELECT * INTO v_campaign_record
+FROM email_campaigns
+WHERE id = v_queue_record.campaign_id;
+-- Get contact details
+SELECT * INTO v_contact_record
+FROM contacts
+WHERE id = v_queue_record.contact_id;
+-- Get template details
+SELECT * INTO v_template_record
+FROM email_templates
+WHERE id = v_campaign_record.template_id;
+-- Validate all required data exists
+IF v_campaign_record IS NULL
+OR v_contact_record IS NULL
+OR v_template_record IS NULL THEN
+UPDATE email_queue
+SET status = 'failed',
+    error_message = 'Missing campaign, contact, or template data',
+    processed_at = NOW()
+WHERE id = v_queue_record.id;
+v_failed_count := v_failed_count + 1;
+CONTINUE;
+END IF;
+-- Check if contact is still active
+IF v_contact_record.status != 'active' THEN
+UPDATE email_queue
+SET status = 'cancelled',
+    error_message = 'Contact is not active: ' || v_contact_record.status,
+    processed_at = NOW()
+WHERE id = v_queue_record.id;
+v_failed_count := v_failed_count + 1;
+CONTINUE;
+END IF;
+-- Check the global suppression list
+v_suppression_reason := get_suppression_reason(v_queue_record.email_address);
+IF v_suppression_reason IS NOT NULL THEN
+UPDATE email_queue
+SET status = 'cancelled',
+    error_message = 'Address is suppressed: ' || v_suppression_reason,
+    processed_at = NOW()
+WHERE id = v_queue_record.id;
+v_failed_count := v_failed_count + 1;
+CONTINUE;
+END IF;
+-- Create email log entry
+INSERT INTO email_logs (
+        campaign_id,
+        contact_id,
+        email,
+        status,
+        sent_at,
+        tracking_data
+    )
+VALUES (
+        v_queue_record.campaign_id,
+        v_queue_record.contact_id,
+        v_queue_record.email_address,
+        'sent',
+        NOW(),
+        jsonb_build_object(
+            'queue_id',
+            v_queue_record.id,
+            'template_data',
+            v_queue_record.template_data
+        )
+    );
+-- Mark queue item as sent
+UPDATE email_queue
+SET status = 'sent',
+    processed_at = NOW()
+WHERE id = v_queue_record.id;
+-- Update campaign sent count
+UPDATE email_campaigns
+SET sent_count = sent_count + 1
+WHERE id = v_queue_record.campaign_id;
+v_processed_count := v_processed_count + 1;
+-- Log successful processing
+PERFORM log_campaign_event(
+    v_queue_record.campaign_id,
+    'info',
+    'Email queued for sending',
+    jsonb_build_object(
+        'email',
+        v_queue_record.email_address,
+        'queue_id',
+        v_queue_record.id
+    )
+);
+EXCEPTION
+WHEN OTHERS THEN -- Handle any errors
+UPDATE email_queue
+SET status = CASE
+        WHEN attempts >= max_attempts THEN 'failed'
+        ELSE 'pending'
+    END,
+    error_message = SQLERRM,
+    processed_at = CASE
+        WHEN attempts >= max_attempts THEN NOW()
+        ELSE NULL
+    END
+WHERE id = v_queue_record.id;
+v_failed_count := v_failed_count + 1;
+PERFORM log_campaign_event(
+    v_queue_record.campaign_id,
+    'error',
+    'Failed to process email: ' || SQLERRM,
+    jsonb_build_object(
+        'email',
+        v_queue_record.email_address,
+        'queue_id',
+        v_queue_record.id,
+        'attempt',
+        v_queue_record.attempts + 1
+    )
+);
+END;
+END LOOP;
+-- Get remaining count
+SELECT COUNT(*) INTO v_remaining_count
+FROM email_queue
+WHERE status = 'pending';
+-- Log completion
+PERFORM log_campaign_event(
+    NULL,
+    'info',
+    'Email queue processing completed',
+    jsonb_build_object(
+        'processed',
+        v_processed_count,
+        'failed',
+        v_failed_count,
+        'remaining',
+        v_remaining_count
+    )
+);
+RETURN QUERY
+SELECT v_processed_count,
+    v_failed_count,
+    v_remaining_count;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON TABLE suppression_list IS 'Global suppression list; enforced by every send path';
+COMMENT ON COLUMN suppression_list.expires_at IS 'End of a soft suppression; NULL suppresses permanently';
@@ -0,0 +1,250 @@
+-- =============================================
+-- SEGMENT RULES
+-- filter_criteria.rule holds a rule tree (SegmentRule in
+-- src/types/email-system.ts, validated by validateSegmentRule).
+-- compile_segment_rule turns it into a WHERE clause over contacts c.
+-- Only whitelisted columns, operators and fixed SQL reach the query text:
+-- every value the user supplied is read at run time from the filter
+-- criteria, passed to EXECUTE as $1, by its path in the tree.
+-- =============================================
+-- Reference to the node's key inside $1, as text or as jsonb
+CREATE OR REPLACE FUNCTION segment_rule_param(
+    p_path TEXT [],
+    p_key TEXT,
+    p_as_text BOOLEAN DEFAULT TRUE
+  ) RETURNS TEXT AS $$
+SELECT format(
+    CASE
+      WHEN p_as_text THEN '($1 #>> %L)'
+      ELSE '($1 #> %L)'
+    END,
+    (p_path || p_key)::TEXT
+  );
+$$ LANGUAGE sql IMMUTABLE;
+-- Comparisons of a text expression; NULL for operators text does not support
+CREATE OR REPLACE FUNCTION segment_text_condition(
+    p_target TEXT,
+    p_operator TEXT,
+    p_value TEXT,
+    p_value_json TEXT
+  ) RETURNS TEXT AS $$
+SELECT CASE
+    p_operator
+    WHEN 'equals' THEN p_target || ' = ' || p_value
+    WHEN 'not_equals' THEN p_target || ' IS DISTINCT FROM ' || p_value
+    WHEN 'contains' THEN format('strpos(lower(%s), lower(%s)) > 0', p_target, p_value)
+    WHEN 'starts_with' THEN format(
+      'left(lower(%1$s), length(%2$s)) = lower(%2$s)',
+      p_target,
+      p_value
+    )
+    WHEN 'ends_with' THEN format(
+      'right(lower(%1$s), length(%2$s)) = lower(%2$s)',
+      p_target,
+      p_value
+    )
+    WHEN 'in' THEN format(
+      '%s IN (SELECT jsonb_array_elements_text(%s))',
+      p_target,
+      p_value_json
+    )
+    WHEN 'exists' THEN format('%1$s IS NOT NULL AND %1$s <> ''''', p_target)
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+-- Compile the rule at p_path in the filter criteria. Conditions never
+-- evaluate to NULL, so NOT behaves as expected.
+CREATE OR REPLACE FUNCTION compile_segment_rule(p_rule JSONB, p_path TEXT []) RETURNS TEXT AS $$
+DECLARE v_type TEXT := p_rule->>'type';
+v_operator TEXT := p_rule->>'operator';
+v_comparison TEXT;
+v_value TEXT := segment_rule_param(p_path, 'value');
+v_value_json TEXT := segment_rule_param(p_path, 'value', FALSE);
+v_target TEXT;
+v_target_json TEXT;
+v_column TEXT;
+v_parts TEXT [] := '{}';
+v_sql TEXT;
+BEGIN
+IF v_type IN ('and', 'or') THEN IF jsonb_typeof(p_rule->'rules') IS DISTINCT FROM 'array' THEN RAISE EXCEPTION 'Segment rule % group at % needs a rules array',
+v_type,
+array_to_string(p_path, '.');
+END IF;
+FOR i IN 0..jsonb_array_length(p_rule->'rules') - 1 LOOP v_parts := v_parts || compile_segment_rule(
+  p_rule->'rules'->i,
+  p_path || ARRAY ['rules', i::TEXT]
+);
+END LOOP;
+IF array_length(v_parts, 1) IS NULL THEN RETURN CASE
+  WHEN v_type = 'and' THEN 'TRUE'
+  ELSE 'FALSE'
+END;
+END IF;
+RETURN '(' || array_to_string(
+  v_parts,
+  CASE
+    WHEN v_type = 'and' THEN ' AND '
+    ELSE ' OR '
+  END
+) || ')';
+ELSIF v_type = 'not' THEN RETURN 'NOT ' || compile_segment_rule(p_rule->'rule', p_path || 'rule'::TEXT);
+END IF;
+v_comparison := CASE
+  v_operator
+  WHEN 'greater_than' THEN ' > '
+  WHEN 'greater_or_equal' THEN ' >= '
+  WHEN 'less_than' THEN ' < '
+  WHEN 'less_or_equal' THEN ' <= '
+END;
+IF v_type = 'field' THEN IF p_rule->>'field' IN ('created_at', 'updated_at') THEN v_target := format('c.%I', p_rule->>'field');
+v_sql := CASE
+  WHEN v_comparison IS NOT NULL THEN v_target || v_comparison || v_value || '::timestamptz'
+  WHEN v_operator = 'within_days' THEN v_target || ' >= NOW() - make_interval(days => ' || v_value || '::int)'
+  WHEN v_operator = 'exists' THEN v_target || ' IS NOT NULL'
+END;
+ELSIF p_rule->>'field' IN (
+  'email',
+  'first_name',
+  'last_name',
+  'status',
+  'timezone'
+) THEN v_sql := segment_text_condition(
+  format('c.%I', p_rule->>'field'),
+  v_operator,
+  v_value,
+  v_value_json
+);
+ELSE RAISE EXCEPTION 'Unknown segment field: %',
+p_rule->>'field';
+END IF;
+ELSIF v_type = 'metadata' THEN v_target_json := 'c.metadata #> string_to_array(' || segment_rule_param(p_path, 'path') || ', ''.'')';
+v_target := 'c.metadata #>> string_to_array(' || segment_rule_param(p_path, 'path') || ', ''.'')';
+v_sql := CASE
+  WHEN v_operator = 'equals' THEN v_target_json || ' = ' || v_value_json
+  WHEN v_operator = 'not_equals' THEN v_target_json || ' IS DISTINCT FROM ' || v_value_json
+  -- Arrays contain an element; strings contain a substring
+  WHEN v_operator = 'contains' THEN format(
+    'CASE jsonb_typeof(%1$s) WHEN ''array'' THEN %1$s @> jsonb_build_array(%2$s) ELSE strpos(lower(%3$s), lower(%4$s)) > 0 END',
+    v_target_json,
+    v_value_json,
+    v_target,
+    v_value
+  )
+  WHEN v_operator = 'in' THEN v_target_json || ' IN (SELECT jsonb_array_elements(' || v_value_json || '))'
+  WHEN v_operator = 'exists' THEN v_target_json || ' IS NOT NULL AND ' || v_target_json || ' <> ''null''::jsonb'
+  -- Numbers compare numerically, anything else (e.g. ISO dates) as text
+  WHEN v_comparison IS NOT NULL
+  AND jsonb_typeof(p_rule->'value') = 'number' THEN format(
+    'CASE WHEN jsonb_typeof(%s) = ''number'' THEN (%s)::numeric%s%s::numeric END',
+    v_target_json,
+    v_target,
+    v_comparison,
+    v_value
+  )
+  WHEN v_comparison IS NOT NULL THEN v_target || v_comparison || v_value
+  ELSE segment_text_condition(v_target, v_operator, v_value, v_value_json)
+END;
+ELSIF v_type = 'in_list' THEN v_sql := 'EXISTS (SELECT 1 FROM contact_list_memberships clm WHERE clm.contact_id = c.id AND clm.list_id = ' || segment_rule_param(p_path, 'list_id') || '::uuid)';
+-- Uses the other segment's last calculated membership
+ELSIF v_type = 'in_segment' THEN v_sql := 'EXISTS (SELECT 1 FROM contact_segments cs WHERE cs.contact_id = c.id AND cs.segment_id = ' || segment_rule_param(p_path, 'segment_id') || '::uuid)';
+ELSIF v_type = 'engagement' THEN v_column := CASE
+  p_rule->>'event'
+  WHEN 'sent' THEN 'sent_at'
+  WHEN 'opened' THEN 'opened_at'
+  WHEN 'clicked' THEN 'clicked_at'
+END;
+IF v_column IS NULL THEN RAISE EXCEPTION 'Unknown segment engagement event: %',
+p_rule->>'event';
+END IF;
+v_sql := format(
+  '(SELECT COUNT(*) FROM email_logs el WHERE el.contact_id = c.id AND el.%I IS NOT NULL',
+  v_column
+);
+IF p_rule ? 'within_days' THEN v_sql := v_sql || format(
+  ' AND el.%I >= NOW() - make_interval(days => %s::int)',
+  v_column,
+  segment_rule_param(p_path, 'within_days')
+);
+END IF;
+IF p_rule ? 'campaign_id' THEN v_sql := v_sql || ' AND el.campaign_id = ' || segment_rule_param(p_path, 'campaign_id') || '::uuid';
+END IF;
+v_sql := v_sql || ') >= ' || CASE
+  WHEN p_rule ? 'min_count' THEN segment_rule_param(p_path, 'min_count') || '::int'
+  ELSE '1'
+END;
+ELSE RAISE EXCEPTION 'Unknown segment rule type: %',
+v_type;
+END IF;
+IF v_sql IS NULL THEN RAISE EXCEPTION 'Operator % is not supported for % rules',
+v_operator,
+v_type;
+END IF;
+RETURN 'COALESCE((' || v_sql || '), FALSE)';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+-- WHERE clause over contacts c for a segment's filter criteria, to be run
+-- with the criteria as $1. The legacy metadata_filter and created_after
+-- keys are still honored.
+CREATE OR REPLACE FUNCTION segment_filter_sql(p_filter_criteria JSONB) RETURNS TEXT AS $$
+DECLARE v_sql TEXT := 'c.status = ''active''';
+BEGIN
+IF p_filter_criteria ? 'metadata_filter' THEN v_sql := v_sql || ' AND c.metadata @> ($1->>''metadata_filter'')::jsonb';
+END IF;
+IF p_filter_criteria ? 'created_after' THEN v_sql := v_sql || ' AND c.created_at >= ($1->>''created_after'')::timestamp';
+END IF;
+IF p_filter_criteria ? 'rule' THEN v_sql := v_sql || ' AND ' || compile_segment_rule(p_filter_criteria->'rule', ARRAY ['rule']);
+END IF;
+RETURN v_sql;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+-- =============================================
+-- CALCULATE DYNAMIC SEGMENT
+-- As before, with the filter compiled by segment_filter_sql
+-- =============================================
+CREATE OR REPLACE FUNCTION calculate_dynamic_segment(p_segment_id UUID) RETURNS INTEGER AS $$
+DECLARE v_segment RECORD;
+v_contact_count INTEGER := 0;
+v_contact_ids UUID [];
+BEGIN
+SELECT * INTO v_segment
+FROM segments
+WHERE id = p_segment_id
+  AND type = 'dynamic';
+IF v_segment IS NULL THEN RAISE EXCEPTION 'Segment not found or not dynamic: %',
+p_segment_id;
+END IF;
+EXECUTE 'SELECT ARRAY_AGG(c.id) FROM contacts c WHERE ' || segment_filter_sql(COALESCE(v_segment.filter_criteria, '{}')) INTO v_contact_ids USING COALESCE(v_segment.filter_criteria, '{}');
+-- Clear existing segment memberships
+DELETE FROM contact_segments
+WHERE segment_id = p_segment_id;
+-- Add new memberships
+IF v_contact_ids IS NOT NULL THEN
+INSERT INTO contact_segments (contact_id, segment_id, calculated_at)
+SELECT unnest(v_contact_ids),
+  p_segment_id,
+  NOW();
+v_contact_count := array_length(v_contact_ids, 1);
+END IF;
+-- Update segment counts
+PERFORM refresh_segment_counts(p_segment_id);
+RETURN v_contact_count;
+END;
+$$ LANGUAGE plpgsql;
+-- =============================================
+-- PREVIEW
+-- Dry run of filter criteria: matching contact count and the newest
+-- matches, without saving anything
+-- =============================================
+CREATE OR REPLACE FUNCTION preview_segment(
+    p_filter_criteria JSONB,
+    p_sample_size INTEGER DEFAULT 10
+  ) RETURNS TABLE (total_count INTEGER, sample JSONB) AS $$
+DECLARE v_where TEXT := segment_filter_sql(p_filter_criteria);
+BEGIN
+EXECUTE 'SELECT COUNT(*)::INTEGER FROM contacts c WHERE ' || v_where INTO total_count USING p_filter_criteria;
+EXECUTE 'SELECT COALESCE(jsonb_agg(to_jsonb(s)), ''[]''::jsonb) FROM (SELECT c.* FROM contacts c WHERE ' || v_where || ' ORDER BY c.created_at DESC LIMIT $2) s' INTO sample USING p_filter_criteria,
+p_sample_size;
+RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE;
+COMMENT ON FUNCTION compile_segment_rule(JSONB, TEXT []) IS 'Compiles a segment rule tree to a WHERE clause that reads its values from $1';
+COMMENT ON FUNCTION preview_segment(JSONB, INTEGER) IS 'Dry-run count and sample of contacts matching segment filter criteria';
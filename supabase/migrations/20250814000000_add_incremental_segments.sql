@@ -0,0 +1,371 @@
+-- =============================================
+-- INCREMENTAL SEGMENT MEMBERSHIP
+-- Dynamic segments are kept up to date as contacts, list memberships,
+-- email logs and other segments change, instead of only by a full
+-- recalculation. Every stint of a contact in a segment is recorded in
+-- segment_membership_history with when it entered and exited.
+-- =============================================
+CREATE TABLE IF NOT EXISTS segment_membership_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  segment_id UUID NOT NULL REFERENCES segments(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  entered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- NULL while the contact is still a member
+  exited_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT valid_membership_period CHECK (
+    exited_at IS NULL
+    OR exited_at >= entered_at
+  )
+);
+-- One open stint per contact and segment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_segment_membership_history_current ON segment_membership_history(segment_id, contact_id)
+WHERE exited_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_segment_membership_history_entered ON segment_membership_history(segment_id, entered_at);
+CREATE INDEX IF NOT EXISTS idx_segment_membership_history_exited ON segment_membership_history(segment_id, exited_at)
+WHERE exited_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_segment_membership_history_contact ON segment_membership_history(contact_id);
+-- Current members entered when they were added
+INSERT INTO segment_membership_history (segment_id, contact_id, entered_at)
+SELECT cs.segment_id,
+  cs.contact_id,
+  COALESCE(cs.added_at, NOW())
+FROM contact_segments cs ON CONFLICT DO NOTHING;
+-- =============================================
+-- ENABLE RLS AND CREATE POLICIES
+-- =============================================
+ALTER TABLE segment_membership_history ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view segment membership history" ON segment_membership_history FOR
+SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage segment membership history" ON segment_membership_history FOR ALL TO authenticated USING (true);
+-- =============================================
+-- MEMBERSHIP CHANGES
+-- Statement-level, so bulk changes refresh each segment's counts once
+-- instead of once per row
+-- =============================================
+DROP TRIGGER IF EXISTS trigger_contact_segment_changes ON contact_segments;
+CREATE OR REPLACE FUNCTION trigger_contact_segments_entered() RETURNS TRIGGER AS $$ BEGIN
+INSERT INTO segment_membership_history (segment_id, contact_id, entered_at)
+SELECT n.segment_id,
+  n.contact_id,
+  NOW()
+FROM new_memberships n ON CONFLICT DO NOTHING;
+PERFORM refresh_segment_counts(n.segment_id)
+FROM (
+    SELECT DISTINCT segment_id
+    FROM new_memberships
+  ) n;
+RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+CREATE OR REPLACE FUNCTION trigger_contact_segments_exited() RETURNS TRIGGER AS $$ BEGIN
+UPDATE segment_membership_history h
+SET exited_at = NOW()
+FROM old_memberships o
+WHERE h.segment_id = o.segment_id
+  AND h.contact_id = o.contact_id
+  AND h.exited_at IS NULL;
+PERFORM refresh_segment_counts(o.segment_id)
+FROM (
+    SELECT DISTINCT segment_id
+    FROM old_memberships
+  ) o;
+RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+CREATE TRIGGER trigger_contact_segments_entered
+AFTER
+INSERT ON contact_segments REFERENCING NEW TABLE AS new_memberships FOR EACH STATEMENT EXECUTE FUNCTION trigger_contact_segments_entered();
+CREATE TRIGGER trigger_contact_segments_exited
+AFTER DELETE ON contact_segments REFERENCING OLD TABLE AS old_memberships FOR EACH STATEMENT EXECUTE FUNCTION trigger_contact_segments_exited();
+-- =============================================
+-- MATCHING
+-- =============================================
+CREATE OR REPLACE FUNCTION contact_matches_segment(
+    p_contact_id UUID,
+    p_filter_criteria JSONB
+  ) RETURNS BOOLEAN AS $$
+DECLARE v_matches BOOLEAN;
+BEGIN EXECUTE 'SELECT EXISTS (SELECT 1 FROM contacts c WHERE c.id = $2 AND ' || segment_filter_sql(p_filter_criteria) || ')' INTO v_matches USING p_filter_criteria,
+p_contact_id;
+RETURN v_matches;
+END;
+$$ LANGUAGE plpgsql STABLE;
+-- Dynamic segments whose rule has a condition of the given type, optionally
+-- only those naming a list or segment
+CREATE OR REPLACE FUNCTION segments_with_rule(
+    p_type TEXT,
+    p_target_id UUID DEFAULT NULL
+  ) RETURNS UUID [] AS $$
+SELECT COALESCE(ARRAY_AGG(s.id), '{}')
+FROM segments s
+WHERE s.type = 'dynamic'
+  AND jsonb_path_exists(
+    s.filter_criteria,
+    '$.rule.** ? (@.type == $type && ($target == null || @.list_id == $target || @.segment_id == $target))',
+    jsonb_build_object('type', p_type, 'target', p_target_id)
+  );
+$$ LANGUAGE sql STABLE;
+-- Add the contact to or remove it from the given dynamic segments (all of
+-- them when NULL) so membership matches the filters. Returns how many
+-- memberships changed. A segment whose rule fails to compile is skipped
+-- with a warning rather than failing the change that triggered the refresh.
+CREATE OR REPLACE FUNCTION refresh_contact_segments(
+    p_contact_id UUID,
+    p_segment_ids UUID [] DEFAULT NULL
+  ) RETURNS INTEGER AS $$
+DECLARE v_segment RECORD;
+v_matches BOOLEAN;
+v_member BOOLEAN;
+v_changes INTEGER := 0;
+BEGIN FOR v_segment IN
+SELECT s.id,
+  COALESCE(s.filter_criteria, '{}') AS filter_criteria
+FROM segments s
+WHERE s.type = 'dynamic'
+  AND (
+    p_segment_ids IS NULL
+    OR s.id = ANY(p_segment_ids)
+  ) LOOP BEGIN v_matches := contact_matches_segment(p_contact_id, v_segment.filter_criteria);
+EXCEPTION
+WHEN OTHERS THEN RAISE WARNING 'Skipping segment % for contact %: %',
+v_segment.id,
+p_contact_id,
+SQLERRM;
+CONTINUE;
+END;
+v_member := EXISTS (
+  SELECT 1
+  FROM contact_segments cs
+  WHERE cs.segment_id = v_segment.id
+    AND cs.contact_id = p_contact_id
+);
+IF v_matches
+AND NOT v_member THEN
+INSERT INTO contact_segments (contact_id, segment_id, calculated_at)
+VALUES (p_contact_id, v_segment.id, NOW()) ON CONFLICT (contact_id, segment_id) DO NOTHING;
+v_changes := v_changes + 1;
+ELSIF v_member
+AND NOT v_matches THEN
+DELETE FROM contact_segments
+WHERE segment_id = v_segment.id
+  AND contact_id = p_contact_id;
+v_changes := v_changes + 1;
+END IF;
+END LOOP;
+RETURN v_changes;
+END;
+$$ LANGUAGE plpgsql;
+-- =============================================
+-- CALCULATE DYNAMIC SEGMENT
+-- Now a diff: members that no longer match exit, new matches enter and
+-- everyone else keeps their membership, so entered/exited transitions
+-- (and segment workflows) only fire on real changes. Returns the member
+-- count.
+-- =============================================
+CREATE OR REPLACE FUNCTION calculate_dynamic_segment(p_segment_id UUID) RETURNS INTEGER AS $$
+DECLARE v_segment RECORD;
+v_filter_criteria JSONB;
+v_where TEXT;
+v_contact_count INTEGER;
+BEGIN
+SELECT * INTO v_segment
+FROM segments
+WHERE id = p_segment_id
+  AND type = 'dynamic';
+IF v_segment IS NULL THEN RAISE EXCEPTION 'Segment not found or not dynamic: %',
+p_segment_id;
+END IF;
+v_filter_criteria := COALESCE(v_segment.filter_criteria, '{}');
+v_where := segment_filter_sql(v_filter_criteria);
+EXECUTE 'DELETE FROM contact_segments cs WHERE cs.segment_id = $2 AND NOT EXISTS (SELECT 1 FROM contacts c WHERE c.id = cs.contact_id AND ' || v_where || ')' USING v_filter_criteria,
+p_segment_id;
+EXECUTE 'INSERT INTO contact_segments (contact_id, segment_id, calculated_at) SELECT c.id, $2, NOW() FROM contacts c WHERE ' || v_where || ' ON CONFLICT (contact_id, segment_id) DO NOTHING' USING v_filter_criteria,
+p_segment_id;
+SELECT COUNT(*) INTO v_contact_count
+FROM contact_segments
+WHERE segment_id = p_segment_id;
+-- Update segment counts
+PERFORM refresh_segment_counts(p_segment_id);
+RETURN v_contact_count;
+END;
+$$ LANGUAGE plpgsql;
+-- =============================================
+-- REAL-TIME TRIGGERS
+-- Bulk jobs can set app.defer_segment_refresh to 'on' for their
+-- transaction and call calculate_dynamic_segment afterwards instead.
+-- =============================================
+CREATE OR REPLACE FUNCTION segment_refresh_deferred() RETURNS BOOLEAN AS $$
+SELECT COALESCE(
+    current_setting('app.defer_segment_refresh', true),
+    ''
+  ) = 'on';
+$$ LANGUAGE sql STABLE;
+CREATE OR REPLACE FUNCTION trigger_segments_contact_changed() RETURNS TRIGGER AS $$ BEGIN IF NOT segment_refresh_deferred() THEN PERFORM refresh_contact_segments(NEW.id);
+END IF;
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+CREATE TRIGGER trigger_segments_contact_inserted
+AFTER
+INSERT ON contacts FOR EACH ROW EXECUTE FUNCTION trigger_segments_contact_changed();
+CREATE TRIGGER trigger_segments_contact_updated
+AFTER
+UPDATE OF email,
+  first_name,
+  last_name,
+  status,
+  timezone,
+  metadata ON contacts FOR EACH ROW
+  WHEN (
+    (
+      OLD.email,
+      OLD.first_name,
+      OLD.last_name,
+      OLD.status,
+      OLD.timezone,
+      OLD.metadata
+    ) IS DISTINCT FROM (
+      NEW.email,
+      NEW.first_name,
+      NEW.last_name,
+      NEW.status,
+      NEW.timezone,
+      NEW.metadata
+    )
+  ) EXECUTE FUNCTION trigger_segments_contact_changed();
+CREATE OR REPLACE FUNCTION trigger_segments_list_membership_changed() RETURNS TRIGGER AS $$
+DECLARE v_membership contact_list_memberships%ROWTYPE;
+BEGIN IF TG_OP = 'DELETE' THEN v_membership := OLD;
+ELSE v_membership := NEW;
+END IF;
+IF NOT segment_refresh_deferred() THEN PERFORM refresh_contact_segments(
+  v_membership.contact_id,
+  segments_with_rule('in_list', v_membership.list_id)
+);
+END IF;
+RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+CREATE TRIGGER trigger_segments_list_membership_changed
+AFTER
+INSERT
+  OR DELETE ON contact_list_memberships FOR EACH ROW EXECUTE FUNCTION trigger_segments_list_membership_changed();
+CREATE OR REPLACE FUNCTION trigger_segments_email_log_changed() RETURNS TRIGGER AS $$ BEGIN IF NOT segment_refresh_deferred() THEN PERFORM refresh_contact_segments(NEW.contact_id, segments_with_rule('engagement'));
+END IF;
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+CREATE TRIGGER trigger_segments_email_log_changed
+AFTER
+INSERT
+  OR
+UPDATE OF sent_at,
+  opened_at,
+  clicked_at ON email_logs FOR EACH ROW
+  WHEN (NEW.contact_id IS NOT NULL) EXECUTE FUNCTION trigger_segments_email_log_changed();
+-- Segments built on other segments follow their changes. The depth limit
+-- stops segments that reference each other from cascading forever.
+CREATE OR REPLACE FUNCTION trigger_segments_segment_membership_changed() RETURNS TRIGGER AS $$
+DECLARE v_membership contact_segments%ROWTYPE;
+BEGIN IF TG_OP = 'DELETE' THEN v_membership := OLD;
+ELSE v_membership := NEW;
+END IF;
+IF NOT segment_refresh_deferred()
+AND pg_trigger_depth() <= 8 THEN PERFORM refresh_contact_segments(
+  v_membership.contact_id,
+  segments_with_rule('in_segment', v_membership.segment_id)
+);
+END IF;
+RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+CREATE TRIGGER trigger_segments_segment_membership_changed
+AFTER
+INSERT
+  OR DELETE ON contact_segments FOR EACH ROW EXECUTE FUNCTION trigger_segments_segment_membership_changed();
+-- =============================================
+-- PERIODIC RECALCULATION
+-- Rules relative to the current time (within_days) change without any
+-- event, so segments using them are recalculated every hour
+-- =============================================
+CREATE OR REPLACE FUNCTION recalculate_time_relative_segments() RETURNS INTEGER AS $$
+DECLARE v_segment RECORD;
+v_recalculated INTEGER := 0;
+BEGIN FOR v_segment IN
+SELECT s.id
+FROM segments s
+WHERE s.type = 'dynamic'
+  AND jsonb_path_exists(
+    s.filter_criteria,
+    '$.rule.** ? (exists(@.within_days) || @.operator == "within_days")'
+  ) LOOP BEGIN PERFORM calculate_dynamic_segment(v_segment.id);
+v_recalculated := v_recalculated + 1;
+EXCEPTION
+WHEN OTHERS THEN RAISE WARNING 'Failed to recalculate segment %: %',
+v_segment.id,
+SQLERRM;
+END;
+END LOOP;
+RETURN v_recalculated;
+END;
+$$ LANGUAGE plpgsql;
+SELECT cron.schedule(
+    'segment-recalculation-job',
+    -- job name
+    '0 * * * *',
+    -- every hour
+    $$SELECT public.recalculate_time_relative_segments();
+$$
+);
+-- =============================================
+-- WORKFLOW TRIGGERS
+-- segment_entered now fires on real entries only; segment_exited fires
+-- when a contact leaves a segment
+-- =============================================
+ALTER TABLE workflows DROP CONSTRAINT IF EXISTS valid_workflow_trigger_type;
+ALTER TABLE workflows
+ADD CONSTRAINT valid_workflow_trigger_type CHECK (
+    trigger_type IN (
+      'list_added',
+      'segment_entered',
+      'segment_exited',
+      'email_opened',
+      'email_clicked',
+      'custom_event',
+      'date_anniversary'
+    )
+  );
+CREATE OR REPLACE FUNCTION trigger_workflow_segment_entered() RETURNS TRIGGER AS $$ BEGIN PERFORM enroll_contact_in_workflows(
+    'segment_entered',
+    NEW.contact_id,
+    jsonb_build_object('segment_id', NEW.segment_id),
+    jsonb_build_object('segment_id', NEW.segment_id)
+  );
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+-- Skipped when the segment itself is being deleted
+CREATE OR REPLACE FUNCTION trigger_workflow_segment_exited() RETURNS TRIGGER AS $$ BEGIN IF EXISTS (
+    SELECT 1
+    FROM segments
+    WHERE id = OLD.segment_id
+  ) THEN PERFORM enroll_contact_in_workflows(
+    'segment_exited',
+    OLD.contact_id,
+    jsonb_build_object('segment_id', OLD.segment_id),
+    jsonb_build_object('segment_id', OLD.segment_id)
+  );
+END IF;
+RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+CREATE TRIGGER trigger_workflow_segment_exited
+AFTER DELETE ON contact_segments FOR EACH ROW EXECUTE FUNCTION trigger_workflow_segment_exited();
+-- =============================================
+-- ENABLE REALTIME
+-- =============================================
+ALTER PUBLICATION supabase_realtime
+ADD TABLE segment_membership_history;
+COMMENT ON TABLE segment_membership_history IS 'Each period a contact spent in a segment, with when it entered and exited';
+COMMENT ON FUNCTION refresh_contact_segments(UUID, UUID []) IS 'Brings one contact''s dynamic segment memberships in line with the segment filters';
+COMMENT ON FUNCTION recalculate_time_relative_segments() IS 'Recalculates dynamic segments whose rules depend on the current time';
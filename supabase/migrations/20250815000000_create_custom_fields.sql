@@ -0,0 +1,316 @@
+-- =============================================
+-- CUSTOM CONTACT FIELDS
+-- Typed fields defined for all contacts. Values live in contacts.metadata
+-- under the field key, so templates, workflows and segment rules keep
+-- reading them from there; the application validates them against these
+-- definitions on write.
+-- =============================================
+CREATE TABLE IF NOT EXISTS custom_fields (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  key VARCHAR(40) NOT NULL UNIQUE,
+  label VARCHAR(255) NOT NULL,
+  type VARCHAR(20) NOT NULL,
+  -- Allowed values of enum and multi_select fields
+  options JSONB,
+  required BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Stored on new contacts that do not set the field
+  default_value JSONB,
+  -- Maintains an expression index on contacts for the field
+  indexed BOOLEAN NOT NULL DEFAULT FALSE,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_custom_field_key CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  CONSTRAINT valid_custom_field_type CHECK (
+    type IN (
+      'string',
+      'number',
+      'boolean',
+      'date',
+      'enum',
+      'multi_select'
+    )
+  ),
+  CONSTRAINT valid_custom_field_options CHECK (
+    CASE
+      WHEN type IN ('enum', 'multi_select') THEN COALESCE(jsonb_typeof(options) = 'array', FALSE)
+      ELSE options IS NULL
+    END
+  )
+);
+-- =============================================
+-- ENABLE RLS AND CREATE POLICIES
+-- =============================================
+ALTER TABLE custom_fields ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view custom fields" ON custom_fields FOR
+SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage custom fields" ON custom_fields FOR ALL TO authenticated USING (true);
+-- =============================================
+-- INDEXES
+-- Each indexed field gets an index on the expression its segment rules
+-- compile to: numbers through custom_field_number, multi-selects with GIN
+-- for containment, everything else on the text value
+-- =============================================
+CREATE OR REPLACE FUNCTION custom_field_number(p_value JSONB) RETURNS NUMERIC AS $$
+SELECT CASE
+    WHEN jsonb_typeof(p_value) = 'number' THEN (p_value#>>'{}')::NUMERIC
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+CREATE OR REPLACE FUNCTION custom_field_index_name(p_key TEXT) RETURNS TEXT AS $$
+SELECT 'idx_contacts_field_' || p_key;
+$$ LANGUAGE sql IMMUTABLE;
+CREATE OR REPLACE FUNCTION trigger_sync_custom_field_index() RETURNS TRIGGER AS $$ BEGIN IF TG_OP IN ('UPDATE', 'DELETE') THEN EXECUTE format(
+    'DROP INDEX IF EXISTS %I',
+    custom_field_index_name(OLD.key)
+  );
+END IF;
+IF TG_OP IN ('INSERT', 'UPDATE')
+AND NEW.indexed THEN EXECUTE CASE
+  NEW.type
+  WHEN 'number' THEN format(
+    'CREATE INDEX IF NOT EXISTS %I ON contacts (custom_field_number(metadata->%L))',
+    custom_field_index_name(NEW.key),
+    NEW.key
+  )
+  WHEN 'multi_select' THEN format(
+    'CREATE INDEX IF NOT EXISTS %I ON contacts USING GIN ((metadata->%L))',
+    custom_field_index_name(NEW.key),
+    NEW.key
+  )
+  ELSE format(
+    'CREATE INDEX IF NOT EXISTS %I ON contacts ((metadata->>%L))',
+    custom_field_index_name(NEW.key),
+    NEW.key
+  )
+END;
+END IF;
+RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+CREATE TRIGGER trigger_custom_field_index_inserted
+AFTER
+INSERT
+  OR DELETE ON custom_fields FOR EACH ROW EXECUTE FUNCTION trigger_sync_custom_field_index();
+CREATE TRIGGER trigger_custom_field_index_updated
+AFTER
+UPDATE OF key,
+  type,
+  indexed ON custom_fields FOR EACH ROW
+  WHEN (
+    (OLD.key, OLD.type, OLD.indexed) IS DISTINCT FROM (NEW.key, NEW.type, NEW.indexed)
+  ) EXECUTE FUNCTION trigger_sync_custom_field_index();
+CREATE TRIGGER update_custom_fields_updated_at BEFORE
+UPDATE ON custom_fields FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+-- =============================================
+-- SEGMENT RULES
+-- { type: 'custom_field', field, operator, value } compares a field by its
+-- type. The key is only spliced into the query after it was found in
+-- custom_fields; values are read from $1 as for other rules.
+-- =============================================
+CREATE OR REPLACE FUNCTION compile_custom_field_condition(p_rule JSONB, p_path TEXT []) RETURNS TEXT AS $$
+DECLARE v_field RECORD;
+v_operator TEXT := p_rule->>'operator';
+v_value TEXT := segment_rule_param(p_path, 'value');
+v_value_json TEXT := segment_rule_param(p_path, 'value', FALSE);
+v_comparison TEXT;
+v_target TEXT;
+BEGIN
+SELECT key,
+  type INTO v_field
+FROM custom_fields
+WHERE key = p_rule->>'field';
+IF NOT FOUND THEN RAISE EXCEPTION 'Unknown custom field: %',
+p_rule->>'field';
+END IF;
+v_comparison := CASE
+  v_operator
+  WHEN 'equals' THEN ' = '
+  WHEN 'not_equals' THEN ' IS DISTINCT FROM '
+  WHEN 'greater_than' THEN ' > '
+  WHEN 'greater_or_equal' THEN ' >= '
+  WHEN 'less_than' THEN ' < '
+  WHEN 'less_or_equal' THEN ' <= '
+END;
+IF v_field.type = 'number' THEN v_target := format('custom_field_number(c.metadata->%L)', v_field.key);
+RETURN CASE
+  WHEN v_operator = 'exists' THEN v_target || ' IS NOT NULL'
+  WHEN v_comparison IS NOT NULL THEN v_target || v_comparison || v_value || '::numeric'
+END;
+ELSIF v_field.type = 'multi_select' THEN v_target := format('(c.metadata->%L)', v_field.key);
+RETURN CASE
+  v_operator
+  WHEN 'contains' THEN v_target || ' @> jsonb_build_array(' || v_value_json || ')'
+  WHEN 'in' THEN v_target || ' ?| ARRAY(SELECT jsonb_array_elements_text(' || v_value_json || '))'
+  WHEN 'exists' THEN format(
+    'jsonb_typeof(%1$s) = ''array'' AND %1$s <> ''[]''::jsonb',
+    v_target
+  )
+END;
+END IF;
+v_target := format('(c.metadata->>%L)', v_field.key);
+IF v_field.type = 'string' THEN RETURN segment_text_condition(v_target, v_operator, v_value, v_value_json);
+ELSIF v_field.type = 'enum' THEN RETURN CASE
+  WHEN v_operator IN ('equals', 'not_equals', 'in', 'exists') THEN segment_text_condition(v_target, v_operator, v_value, v_value_json)
+END;
+ELSIF v_field.type = 'boolean' THEN RETURN CASE
+  v_operator
+  WHEN 'equals' THEN v_target || ' = ' || v_value
+  WHEN 'exists' THEN v_target || ' IS NOT NULL'
+END;
+END IF;
+-- Dates are stored as YYYY-MM-DD, which compares correctly as text
+RETURN CASE
+  WHEN v_operator = 'exists' THEN v_target || ' IS NOT NULL'
+  WHEN v_comparison IS NOT NULL THEN v_target || v_comparison || v_value
+END;
+END;
+$$ LANGUAGE plpgsql STABLE;
+-- =============================================
+-- COMPILE SEGMENT RULE
+-- As before, with the custom_field rule type. Compiling now reads
+-- custom_fields, so this and segment_filter_sql are STABLE.
+-- =============================================
+CREATE OR REPLACE FUNCTION compile_segment_rule(p_rule JSONB, p_path TEXT []) RETURNS TEXT AS $$
+DECLARE v_type TEXT := p_rule->>'type';
+v_operator TEXT := p_rule->>'operator';
+v_comparison TEXT;
+v_value TEXT := segment_rule_param(p_path, 'value');
+v_value_json TEXT := segment_rule_param(p_path, 'value', FALSE);
+v_target TEXT;
+v_target_json TEXT;
+v_column TEXT;
+v_parts TEXT [] := '{}';
+v_sql TEXT;
+BEGIN
+IF v_type IN ('and', 'or') THEN IF jsonb_typeof(p_rule->'rules') IS DISTINCT FROM 'array' THEN RAISE EXCEPTION 'Segment rule % group at % needs a rules array',
+v_type,
+array_to_string(p_path, '.');
+END IF;
+FOR i IN 0..jsonb_array_length(p_rule->'rules') - 1 LOOP v_parts := v_parts || compile_segment_rule(
+  p_rule->'rules'->i,
+  p_path || ARRAY ['rules', i::TEXT]
+);
+END LOOP;
+IF array_length(v_parts, 1) IS NULL THEN RETURN CASE
+  WHEN v_type = 'and' THEN 'TRUE'
+  ELSE 'FALSE'
+END;
+END IF;
+RETURN '(' || array_to_string(
+  v_parts,
+  CASE
+    WHEN v_type = 'and' THEN ' AND '
+    ELSE ' OR '
+  END
+) || ')';
+ELSIF v_type = 'not' THEN RETURN 'NOT ' || compile_segment_rule(p_rule->'rule', p_path || 'rule'::TEXT);
+END IF;
+v_comparison := CASE
+  v_operator
+  WHEN 'greater_than' THEN ' > '
+  WHEN 'greater_or_equal' THEN ' >= '
+  WHEN 'less_than' THEN ' < '
+  WHEN 'less_or_equal' THEN ' <= '
+END;
+IF v_type = 'field' THEN IF p_rule->>'field' IN ('created_at', 'updated_at') THEN v_target := format('c.%I', p_rule->>'field');
+v_sql := CASE
+  WHEN v_comparison IS NOT NULL THEN v_target || v_comparison || v_value || '::timestamptz'
+  WHEN v_operator = 'within_days' THEN v_target || ' >= NOW() - make_interval(days => ' || v_value || '::int)'
+  WHEN v_operator = 'exists' THEN v_target || ' IS NOT NULL'
+END;
+ELSIF p_rule->>'field' IN (
+  'email',
+  'first_name',
+  'last_name',
+  'status',
+  'timezone'
+) THEN v_sql := segment_text_condition(
+  format('c.%I', p_rule->>'field'),
+  v_operator,
+  v_value,
+  v_value_json
+);
+ELSE RAISE EXCEPTION 'Unknown segment field: %',
+p_rule->>'field';
+END IF;
+ELSIF v_type = 'metadata' THEN v_target_json := 'c.metadata #> string_to_array(' || segment_rule_param(p_path, 'path') || ', ''.'')';
+v_target := 'c.metadata #>> string_to_array(' || segment_rule_param(p_path, 'path') || ', ''.'')';
+v_sql := CASE
+  WHEN v_operator = 'equals' THEN v_target_json || ' = ' || v_value_json
+  WHEN v_operator = 'not_equals' THEN v_target_json || ' IS DISTINCT FROM ' || v_value_json
+  -- Arrays contain an element; strings contain a substring
+  WHEN v_operator = 'contains' THEN format(
+    'CASE jsonb_typeof(%1$s) WHEN ''array'' THEN %1$s @> jsonb_build_array(%2$s) ELSE strpos(lower(%3$s), lower(%4$s)) > 0 END',
+    v_target_json,
+    v_value_json,
+    v_target,
+    v_value
+  )
+  WHEN v_operator = 'in' THEN v_target_json || ' IN (SELECT jsonb_array_elements(' || v_value_json || '))'
+  WHEN v_operator = 'exists' THEN v_target_json || ' IS NOT NULL AND ' || v_target_json || ' <> ''null''::jsonb'
+  -- Numbers compare numerically, anything else (e.g. ISO dates) as text
+  WHEN v_comparison IS NOT NULL
+  AND jsonb_typeof(p_rule->'value') = 'number' THEN format(
+    'CASE WHEN jsonb_typeof(%s) = ''number'' THEN (%s)::numeric%s%s::numeric END',
+    v_target_json,
+    v_target,
+    v_comparison,
+    v_value
+  )
+  WHEN v_comparison IS NOT NULL THEN v_target || v_comparison || v_value
+  ELSE segment_text_condition(v_target, v_operator, v_value, v_value_json)
+END;
+ELSIF v_type = 'in_list' THEN v_sql := 'EXISTS (SELECT 1 FROM contact_list_memberships clm WHERE clm.contact_id = c.id AND clm.list_id = ' || segment_rule_param(p_path, 'list_id') || '::uuid)';
+-- Uses the other segment's current membership
+ELSIF v_type = 'in_segment' THEN v_sql := 'EXISTS (SELECT 1 FROM contact_segments cs WHERE cs.contact_id = c.id AND cs.segment_id = ' || segment_rule_param(p_path, 'segment_id') || '::uuid)';
+ELSIF v_type = 'custom_field' THEN v_sql := compile_custom_field_condition(p_rule, p_path);
+ELSIF v_type = 'engagement' THEN v_column := CASE
+  p_rule->>'event'
+  WHEN 'sent' THEN 'sent_at'
+  WHEN 'opened' THEN 'opened_at'
+  WHEN 'clicked' THEN 'clicked_at'
+END;
+IF v_column IS NULL THEN RAISE EXCEPTION 'Unknown segment engagement event: %',
+p_rule->>'event';
+END IF;
+v_sql := format(
+  '(SELECT COUNT(*) FROM email_logs el WHERE el.contact_id = c.id AND el.%I IS NOT NULL',
+  v_column
+);
+IF p_rule ? 'within_days' THEN v_sql := v_sql || format(
+  ' AND el.%I >= NOW() - make_interval(days => %s::int)',
+  v_column,
+  segment_rule_param(p_path, 'within_days')
+);
+END IF;
+IF p_rule ? 'campaign_id' THEN v_sql := v_sql || ' AND el.campaign_id = ' || segment_rule_param(p_path, 'campaign_id') || '::uuid';
+END IF;
+v_sql := v_sql || ') >= ' || CASE
+  WHEN p_rule ? 'min_count' THEN segment_rule_param(p_path, 'min_count') || '::int'
+  ELSE '1'
+END;
+ELSE RAISE EXCEPTION 'Unknown segment rule type: %',
+v_type;
+END IF;
+IF v_sql IS NULL THEN RAISE EXCEPTION 'Operator % is not supported for % rules',
+v_operator,
+v_type;
+END IF;
+RETURN 'COALESCE((' || v_sql || '), FALSE)';
+END;
+$$ LANGUAGE plpgsql STABLE;
+-- Unchanged apart from its volatility
+CREATE OR REPLACE FUNCTION segment_filter_sql(p_filter_criteria JSONB) RETURNS TEXT AS $$
+DECLARE v_sql TEXT := 'c.status = ''active''';
+BEGIN
+IF p_filter_criteria ? 'metadata_filter' THEN v_sql := v_sql || ' AND c.metadata @> ($1->>''metadata_filter'')::jsonb';
+END IF;
+IF p_filter_criteria ? 'created_after' THEN v_sql := v_sql || ' AND c.created_at >= ($1->>''created_after'')::timestamp';
+END IF;
+IF p_filter_criteria ? 'rule' THEN v_sql := v_sql || ' AND ' || compile_segment_rule(p_filter_criteria->'rule', ARRAY ['rule']);
+END IF;
+RETURN v_sql;
+END;
+$$ LANGUAGE plpgsql STABLE;
+COMMENT ON TABLE custom_fields IS 'Typed contact fields, stored in contacts.metadata under their key';
+COMMENT ON COLUMN custom_fields.indexed IS 'Maintain an expression index on contacts for segment rules on this field';
@@ -0,0 +1,253 @@
+-- =============================================
+-- CONTACT IMPORTS
+-- Files are read by the application and sent here in chunks. Each chunk
+-- is written in one transaction together with the job's progress, so a
+-- run that stops for any reason resumes after the last chunk that was
+-- committed, without importing rows twice.
+-- =============================================
+CREATE TABLE IF NOT EXISTS contact_import_mapping_profiles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(255) NOT NULL UNIQUE,
+  description TEXT,
+  -- Source column -> email, first_name, last_name, status,
+  -- metadata.<key> or ignore
+  column_mapping JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_import_column_mapping CHECK (jsonb_typeof(column_mapping) = 'object')
+);
+CREATE TABLE IF NOT EXISTS contact_import_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  file_name VARCHAR(255),
+  format VARCHAR(10) NOT NULL,
+  mode VARCHAR(10) NOT NULL DEFAULT 'skip',
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  list_id UUID REFERENCES contact_lists(id) ON DELETE
+  SET NULL,
+    mapping_profile_id UUID REFERENCES contact_import_mapping_profiles(id) ON DELETE
+  SET NULL,
+    column_mapping JSONB NOT NULL DEFAULT '{}',
+    columns JSONB,
+    chunk_size INTEGER NOT NULL DEFAULT 500,
+    rows_processed INTEGER NOT NULL DEFAULT 0,
+    created_count INTEGER NOT NULL DEFAULT 0,
+    updated_count INTEGER NOT NULL DEFAULT 0,
+    skipped_count INTEGER NOT NULL DEFAULT 0,
+    error_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_import_format CHECK (format IN ('csv', 'tsv', 'jsonl', 'xlsx')),
+    CONSTRAINT valid_import_mode CHECK (mode IN ('skip', 'upsert', 'overwrite')),
+    CONSTRAINT valid_import_status CHECK (
+      status IN (
+        'pending',
+        'running',
+        'paused',
+        'completed',
+        'failed',
+        'cancelled'
+      )
+    ),
+    CONSTRAINT valid_import_chunk_size CHECK (
+      chunk_size BETWEEN 1 AND 5000
+    )
+);
+CREATE TABLE IF NOT EXISTS contact_import_errors (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES contact_import_jobs(id) ON DELETE CASCADE,
+  -- Data rows count from 1, not counting the header
+  row_number INTEGER NOT NULL,
+  email VARCHAR(255),
+  error TEXT NOT NULL,
+  -- The row as read from the file, for the error report
+  record JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(job_id, row_number)
+);
+CREATE INDEX IF NOT EXISTS idx_contact_import_jobs_status ON contact_import_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_contact_import_jobs_created_at ON contact_import_jobs(created_at DESC);
+-- Existing contacts are matched case-insensitively
+CREATE INDEX IF NOT EXISTS idx_contacts_email_lower ON contacts(LOWER(email));
+CREATE TRIGGER update_contact_import_mapping_profiles_updated_at BEFORE
+UPDATE ON contact_import_mapping_profiles FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_contact_import_jobs_updated_at BEFORE
+UPDATE ON contact_import_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+-- =============================================
+-- ENABLE RLS AND CREATE POLICIES
+-- =============================================
+ALTER TABLE contact_import_mapping_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contact_import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contact_import_errors ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view import mapping profiles" ON contact_import_mapping_profiles FOR
+SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage import mapping profiles" ON contact_import_mapping_profiles FOR ALL TO authenticated USING (true);
+CREATE POLICY "Users can view contact import jobs" ON contact_import_jobs FOR
+SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage contact import jobs" ON contact_import_jobs FOR ALL TO authenticated USING (true);
+CREATE POLICY "Users can view contact import errors" ON contact_import_errors FOR
+SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage contact import errors" ON contact_import_errors FOR ALL TO authenticated USING (true);
+-- =============================================
+-- IMPORT A CHUNK
+-- p_rows holds validated contacts ({ row_number, email, first_name?,
+-- last_name?, status?, metadata }) and p_errors the rows the application
+-- rejected ({ row_number, email?, error, record }). p_first_row must
+-- match the job's progress, so a chunk is never applied twice even when
+-- two runs race. Existing contacts are matched on email regardless of
+-- case and handled by the job's mode:
+--   skip      leave the contact unchanged
+--   upsert    set the given names and merge the metadata
+--   overwrite replace names and metadata with the row's
+-- An import never reactivates an unsubscribed or bounced contact. A row
+-- the database rejects is recorded as an error without failing the chunk.
+-- Segment triggers are deferred; complete_contact_import recalculates.
+-- =============================================
+CREATE OR REPLACE FUNCTION import_contact_rows(
+    p_job_id UUID,
+    p_first_row INTEGER,
+    p_row_count INTEGER,
+    p_rows JSONB,
+    p_errors JSONB DEFAULT '[]'
+  ) RETURNS contact_import_jobs AS $$
+DECLARE v_job contact_import_jobs;
+v_row JSONB;
+v_contact_id UUID;
+v_created INTEGER := 0;
+v_updated INTEGER := 0;
+v_skipped INTEGER := 0;
+v_failed INTEGER := 0;
+BEGIN
+SELECT * INTO v_job
+FROM contact_import_jobs
+WHERE id = p_job_id FOR
+UPDATE;
+IF v_job.id IS NULL THEN RAISE EXCEPTION 'Import job not found: %',
+p_job_id;
+END IF;
+IF v_job.status <> 'running' THEN RAISE EXCEPTION 'Import job % is %',
+p_job_id,
+v_job.status;
+END IF;
+IF v_job.rows_processed <> p_first_row THEN RAISE EXCEPTION 'Import job % is at row %, not %',
+p_job_id,
+v_job.rows_processed,
+p_first_row;
+END IF;
+PERFORM set_config('app.defer_segment_refresh', 'on', true);
+FOR v_row IN
+SELECT value
+FROM jsonb_array_elements(p_rows) LOOP BEGIN
+SELECT id INTO v_contact_id
+FROM contacts
+WHERE LOWER(email) = LOWER(v_row->>'email')
+LIMIT 1;
+IF v_contact_id IS NULL THEN
+INSERT INTO contacts (email, first_name, last_name, status, metadata)
+VALUES (
+    v_row->>'email',
+    v_row->>'first_name',
+    v_row->>'last_name',
+    COALESCE((v_row->>'status')::contact_status, 'active'),
+    COALESCE(v_row->'metadata', '{}')
+  )
+RETURNING id INTO v_contact_id;
+v_created := v_created + 1;
+ELSIF v_job.mode = 'skip' THEN v_skipped := v_skipped + 1;
+ELSE
+UPDATE contacts
+SET first_name = CASE
+    WHEN v_job.mode = 'overwrite' THEN v_row->>'first_name'
+    ELSE COALESCE(v_row->>'first_name', first_name)
+  END,
+  last_name = CASE
+    WHEN v_job.mode = 'overwrite' THEN v_row->>'last_name'
+    ELSE COALESCE(v_row->>'last_name', last_name)
+  END,
+  status = CASE
+    WHEN status = 'active'
+    AND v_row ? 'status' THEN (v_row->>'status')::contact_status
+    ELSE status
+  END,
+  metadata = CASE
+    WHEN v_job.mode = 'overwrite' THEN COALESCE(v_row->'metadata', '{}')
+    ELSE COALESCE(metadata, '{}') || COALESCE(v_row->'metadata', '{}')
+  END,
+  updated_at = NOW()
+WHERE id = v_contact_id;
+v_updated := v_updated + 1;
+END IF;
+IF v_job.list_id IS NOT NULL THEN
+INSERT INTO contact_list_memberships (contact_id, list_id)
+VALUES (v_contact_id, v_job.list_id) ON CONFLICT (contact_id, list_id) DO NOTHING;
+END IF;
+EXCEPTION
+WHEN OTHERS THEN
+INSERT INTO contact_import_errors (job_id, row_number, email, error, record)
+VALUES (
+    p_job_id,
+    (v_row->>'row_number')::INTEGER,
+    v_row->>'email',
+    SQLERRM,
+    COALESCE(v_row->'record', '{}')
+  ) ON CONFLICT (job_id, row_number) DO NOTHING;
+v_failed := v_failed + 1;
+END;
+END LOOP;
+INSERT INTO contact_import_errors (job_id, row_number, email, error, record)
+SELECT p_job_id,
+  (e->>'row_number')::INTEGER,
+  e->>'email',
+  e->>'error',
+  COALESCE(e->'record', '{}')
+FROM jsonb_array_elements(p_errors) e ON CONFLICT (job_id, row_number) DO NOTHING;
+UPDATE contact_import_jobs
+SET rows_processed = p_first_row + p_row_count,
+  created_count = created_count + v_created,
+  updated_count = updated_count + v_updated,
+  skipped_count = skipped_count + v_skipped,
+  error_count = error_count + v_failed + jsonb_array_length(p_errors)
+WHERE id = p_job_id
+RETURNING * INTO v_job;
+RETURN v_job;
+END;
+$$ LANGUAGE plpgsql;
+-- =============================================
+-- COMPLETE AN IMPORT
+-- Marks the job completed and brings dynamic segments up to date with
+-- the imported contacts. A segment that fails to recalculate is skipped
+-- with a warning; the hourly job or the next change catches it up.
+-- =============================================
+CREATE OR REPLACE FUNCTION complete_contact_import(p_job_id UUID) RETURNS contact_import_jobs AS $$
+DECLARE v_job contact_import_jobs;
+v_segment_id UUID;
+BEGIN
+UPDATE contact_import_jobs
+SET status = 'completed',
+  error = NULL,
+  completed_at = NOW()
+WHERE id = p_job_id
+  AND status = 'running'
+RETURNING * INTO v_job;
+IF v_job.id IS NULL THEN RAISE EXCEPTION 'Import job % is not running',
+p_job_id;
+END IF;
+FOR v_segment_id IN
+SELECT id
+FROM segments
+WHERE type = 'dynamic' LOOP BEGIN PERFORM calculate_dynamic_segment(v_segment_id);
+EXCEPTION
+WHEN OTHERS THEN RAISE WARNING 'Skipping segment % after import %: %',
+v_segment_id,
+p_job_id,
+SQLERRM;
+END;
+END LOOP;
+RETURN v_job;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON TABLE contact_import_mapping_profiles IS 'Reusable column mappings for contact imports';
+COMMENT ON TABLE contact_import_jobs IS 'Contact imports; rows_processed is the resume point';
+COMMENT ON TABLE contact_import_errors IS 'Rows of contact imports that were rejected, for the error report';
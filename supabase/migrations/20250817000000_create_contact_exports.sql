@@ -0,0 +1,203 @@
+-- =============================================
+-- CONTACT EXPORTS
+-- Contacts are read in pages ordered by id. The job keeps the last id
+-- written and the size of the file at that point, so an export that
+-- stops resumes by trimming the file back to the last committed page and
+-- continuing after that id.
+-- =============================================
+CREATE TABLE IF NOT EXISTS contact_export_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  file_name VARCHAR(255),
+  format VARCHAR(10) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  -- ContactFilter
+  filter JSONB NOT NULL DEFAULT '{}',
+  -- Columns in order: contact fields, metadata.<path>, engagement.<aggregate>
+  fields JSONB NOT NULL,
+  page_size INTEGER NOT NULL DEFAULT 1000,
+  -- Matching contacts when the first run started
+  total_count INTEGER,
+  rows_exported INTEGER NOT NULL DEFAULT 0,
+  last_contact_id UUID,
+  bytes_written BIGINT NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT valid_export_format CHECK (format IN ('csv', 'jsonl')),
+  CONSTRAINT valid_export_status CHECK (
+    status IN (
+      'pending',
+      'running',
+      'paused',
+      'completed',
+      'failed',
+      'cancelled'
+    )
+  ),
+  CONSTRAINT valid_export_fields CHECK (
+    jsonb_typeof(fields) = 'array'
+    AND jsonb_array_length(fields) > 0
+  ),
+  CONSTRAINT valid_export_page_size CHECK (
+    page_size BETWEEN 1 AND 10000
+  )
+);
+CREATE INDEX IF NOT EXISTS idx_contact_export_jobs_status ON contact_export_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_contact_export_jobs_created_at ON contact_export_jobs(created_at DESC);
+CREATE TRIGGER update_contact_export_jobs_updated_at BEFORE
+UPDATE ON contact_export_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+-- =============================================
+-- ENABLE RLS AND CREATE POLICIES
+-- =============================================
+ALTER TABLE contact_export_jobs ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view contact export jobs" ON contact_export_jobs FOR
+SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage contact export jobs" ON contact_export_jobs FOR ALL TO authenticated USING (true);
+-- =============================================
+-- CONTACT FILTER
+-- Whether a contact matches a ContactFilter. Every key is optional and
+-- all given keys must match: in_lists and in_segments match members of
+-- any of the lists or segments, has_metadata needs every key, and the
+-- contains filters ignore case.
+-- =============================================
+CREATE OR REPLACE FUNCTION contact_matches_filter(p_contact contacts, p_filter JSONB) RETURNS BOOLEAN AS $$
+SELECT (
+    NOT p_filter ? 'status'
+    OR p_contact.status::TEXT IN (
+      SELECT jsonb_array_elements_text(p_filter->'status')
+    )
+  )
+  AND (
+    NOT p_filter ? 'created_after'
+    OR p_contact.created_at >= (p_filter->>'created_after')::TIMESTAMPTZ
+  )
+  AND (
+    NOT p_filter ? 'created_before'
+    OR p_contact.created_at < (p_filter->>'created_before')::TIMESTAMPTZ
+  )
+  AND (
+    NOT p_filter ? 'has_metadata'
+    OR COALESCE(p_contact.metadata, '{}') ?& ARRAY(
+      SELECT jsonb_array_elements_text(p_filter->'has_metadata')
+    )
+  )
+  AND (
+    NOT p_filter ? 'metadata_filters'
+    OR COALESCE(p_contact.metadata, '{}') @> p_filter->'metadata_filters'
+  )
+  AND (
+    NOT p_filter ? 'in_lists'
+    OR EXISTS (
+      SELECT 1
+      FROM contact_list_memberships clm
+      WHERE clm.contact_id = p_contact.id
+        AND clm.list_id IN (
+          SELECT jsonb_array_elements_text(p_filter->'in_lists')::UUID
+        )
+    )
+  )
+  AND (
+    NOT p_filter ? 'in_segments'
+    OR EXISTS (
+      SELECT 1
+      FROM contact_segments cs
+      WHERE cs.contact_id = p_contact.id
+        AND cs.segment_id IN (
+          SELECT jsonb_array_elements_text(p_filter->'in_segments')::UUID
+        )
+    )
+  )
+  AND (
+    NOT p_filter ? 'email_contains'
+    OR strpos(lower(p_contact.email), lower(p_filter->>'email_contains')) > 0
+  )
+  AND (
+    NOT p_filter ? 'name_contains'
+    OR strpos(
+      lower(
+        concat_ws(' ', p_contact.first_name, p_contact.last_name)
+      ),
+      lower(p_filter->>'name_contains')
+    ) > 0
+  );
+$$ LANGUAGE sql STABLE;
+CREATE OR REPLACE FUNCTION count_filtered_contacts(p_filter JSONB DEFAULT '{}') RETURNS INTEGER AS $$
+SELECT COUNT(*)::INTEGER
+FROM contacts c
+WHERE contact_matches_filter(c, COALESCE(p_filter, '{}'));
+$$ LANGUAGE sql STABLE;
+-- =============================================
+-- EXPORT PAGE
+-- The next p_limit matching contacts after p_after_id, in id order. With
+-- p_include_engagement, engagement holds counts of sent, opened, clicked
+-- and bounced emails and the time of the latest send, open and click.
+-- =============================================
+CREATE OR REPLACE FUNCTION export_contacts_page(
+    p_filter JSONB DEFAULT '{}',
+    p_after_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 1000,
+    p_include_engagement BOOLEAN DEFAULT FALSE
+  ) RETURNS TABLE (
+    id UUID,
+    email VARCHAR,
+    first_name VARCHAR,
+    last_name VARCHAR,
+    status contact_status,
+    metadata JSONB,
+    timezone VARCHAR,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    engagement JSONB
+  ) AS $$
+SELECT c.id,
+  c.email,
+  c.first_name,
+  c.last_name,
+  c.status,
+  COALESCE(c.metadata, '{}'),
+  c.timezone,
+  c.created_at,
+  c.updated_at,
+  CASE
+    WHEN p_include_engagement THEN (
+      SELECT jsonb_build_object(
+          'sent',
+          COUNT(*) FILTER (
+            WHERE el.sent_at IS NOT NULL
+          ),
+          'opened',
+          COUNT(*) FILTER (
+            WHERE el.opened_at IS NOT NULL
+          ),
+          'clicked',
+          COUNT(*) FILTER (
+            WHERE el.clicked_at IS NOT NULL
+          ),
+          'bounced',
+          COUNT(*) FILTER (
+            WHERE el.status = 'bounced'
+          ),
+          'last_sent_at',
+          MAX(el.sent_at),
+          'last_opened_at',
+          MAX(el.opened_at),
+          'last_clicked_at',
+          MAX(el.clicked_at)
+        )
+      FROM email_logs el
+      WHERE el.contact_id = c.id
+    )
+  END
+FROM contacts c
+WHERE (
+    p_after_id IS NULL
+    OR c.id > p_after_id
+  )
+  AND contact_matches_filter(c, COALESCE(p_filter, '{}'))
+ORDER BY c.id
+LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+COMMENT ON TABLE contact_export_jobs IS 'Contact exports; last_contact_id and bytes_written are the resume point';
+COMMENT ON FUNCTION contact_matches_filter(contacts, JSONB) IS 'Whether a contact matches a ContactFilter';
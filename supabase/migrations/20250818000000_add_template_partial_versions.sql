@@ -0,0 +1,227 @@
+-- =============================================
+-- PARTIAL VERSION HISTORY
+-- Every content change of a partial or layout gets the next version
+-- number and an immutable copy in email_template_partial_versions.
+-- Numbers continue when a deleted name is created again, so a
+-- (type, name, version) reference always points at one content.
+-- =============================================
+ALTER TABLE email_template_partials
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+CREATE TABLE IF NOT EXISTS email_template_partial_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL,
+  type VARCHAR(20) NOT NULL,
+  version INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_partial_version UNIQUE (name, type, version)
+);
+-- =============================================
+-- ENABLE RLS AND CREATE POLICIES
+-- =============================================
+ALTER TABLE email_template_partial_versions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role can manage template partial versions" ON email_template_partial_versions FOR ALL TO service_role USING (true);
+CREATE POLICY "Authenticated users can view template partial versions" ON email_template_partial_versions FOR
+SELECT TO authenticated USING (true);
+-- =============================================
+-- TRIGGERS
+-- The number is assigned before the write; the history row is added after
+-- it, so the insert attempt of an upsert that ends up updating adds nothing
+-- =============================================
+CREATE OR REPLACE FUNCTION assign_template_partial_version() RETURNS TRIGGER AS $$ BEGIN IF TG_OP = 'UPDATE'
+  AND NEW.name = OLD.name
+  AND NEW.type = OLD.type
+  AND NEW.content IS NOT DISTINCT FROM OLD.content THEN NEW.version := OLD.version;
+RETURN NEW;
+END IF;
+SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+FROM email_template_partial_versions
+WHERE name = NEW.name
+  AND type = NEW.type;
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+CREATE OR REPLACE FUNCTION record_template_partial_version() RETURNS TRIGGER AS $$ BEGIN IF TG_OP = 'INSERT'
+  OR NEW.version IS DISTINCT FROM OLD.version
+  OR NEW.name IS DISTINCT FROM OLD.name
+  OR NEW.type IS DISTINCT FROM OLD.type THEN
+INSERT INTO email_template_partial_versions (name, type, version, content)
+VALUES (NEW.name, NEW.type, NEW.version, NEW.content);
+END IF;
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+CREATE TRIGGER assign_template_partial_version_trigger BEFORE
+INSERT
+  OR
+UPDATE ON email_template_partials FOR EACH ROW EXECUTE FUNCTION assign_template_partial_version();
+CREATE TRIGGER record_template_partial_version_trigger
+AFTER
+INSERT
+  OR
+UPDATE ON email_template_partials FOR EACH ROW EXECUTE FUNCTION record_template_partial_version();
+-- Existing partials become version 1
+INSERT INTO email_template_partial_versions (name, type, version, content)
+SELECT p.name,
+  p.type,
+  p.version,
+  p.content
+FROM email_template_partials p
+WHERE NOT EXISTS (
+    SELECT 1
+    FROM email_template_partial_versions v
+    WHERE v.name = p.name
+      AND v.type = p.type
+      AND v.version = p.version
+  );
+-- =============================================
+-- TEMPLATE VERSION SNAPSHOTS
+-- partial_versions maps "partial:<name>" and "layout:<name>" to the
+-- version used; template_hash covers it as well as the content
+-- =============================================
+ALTER TABLE email_template_versions
+ADD COLUMN IF NOT EXISTS partial_versions JSONB NOT NULL DEFAULT '{}';
+CREATE OR REPLACE FUNCTION prevent_template_version_changes() RETURNS TRIGGER AS $$ BEGIN IF NEW.template_id IS DISTINCT FROM OLD.template_id
+  OR NEW.version_number IS DISTINCT FROM OLD.version_number
+  OR NEW.source_type IS DISTINCT FROM OLD.source_type
+  OR NEW.subject IS DISTINCT FROM OLD.subject
+  OR NEW.html_content IS DISTINCT FROM OLD.html_content
+  OR NEW.text_content IS DISTINCT FROM OLD.text_content
+  OR NEW.variables IS DISTINCT FROM OLD.variables
+  OR NEW.locales IS DISTINCT FROM OLD.locales
+  OR NEW.partial_versions IS DISTINCT FROM OLD.partial_versions
+  OR NEW.template_hash IS DISTINCT FROM OLD.template_hash THEN RAISE EXCEPTION 'Template versions are immutable; create a new version instead';
+END IF;
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+-- The snapshot and hash are computed by the caller from the partials it
+-- read; lock those partials and reject the snapshot if any has changed since
+CREATE OR REPLACE FUNCTION assert_template_partial_versions(p_partial_versions JSONB) RETURNS VOID AS $$
+DECLARE v_entry RECORD;
+v_current INTEGER;
+BEGIN FOR v_entry IN
+SELECT key,
+  value::INTEGER AS version
+FROM jsonb_each_text(COALESCE(p_partial_versions, '{}')) LOOP
+SELECT version INTO v_current
+FROM email_template_partials
+WHERE type || ':' || name = v_entry.key FOR SHARE;
+IF v_current IS DISTINCT FROM v_entry.version THEN RAISE EXCEPTION 'Template % changed while the version was being saved; retry',
+v_entry.key;
+END IF;
+END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+-- =============================================
+-- VERSION FUNCTIONS
+-- With p_publish the new version is published and mirrored onto
+-- email_templates in the same transaction as the insert
+-- =============================================
+DROP FUNCTION IF EXISTS create_template_version(UUID, TEXT, TEXT, TEXT, JSONB, TEXT, TEXT, UUID, TEXT, JSONB);
+CREATE OR REPLACE FUNCTION create_template_version(
+    p_template_id UUID,
+    p_subject TEXT,
+    p_html_content TEXT,
+    p_text_content TEXT,
+    p_variables JSONB,
+    p_template_hash TEXT,
+    p_change_note TEXT DEFAULT NULL,
+    p_based_on_version_id UUID DEFAULT NULL,
+    p_source_type TEXT DEFAULT 'html',
+    p_locales JSONB DEFAULT '{}',
+    p_partial_versions JSONB DEFAULT '{}',
+    p_publish BOOLEAN DEFAULT FALSE
+  ) RETURNS email_template_versions AS $$
+DECLARE v_next_number INTEGER;
+v_version email_template_versions;
+BEGIN -- Lock the template row so concurrent drafts get distinct numbers
+PERFORM 1
+FROM email_templates
+WHERE id = p_template_id FOR
+UPDATE;
+IF NOT FOUND THEN RAISE EXCEPTION 'Template not found: %',
+p_template_id;
+END IF;
+PERFORM assert_template_partial_versions(p_partial_versions);
+SELECT COALESCE(MAX(version_number), 0) + 1 INTO v_next_number
+FROM email_template_versions
+WHERE template_id = p_template_id;
+INSERT INTO email_template_versions (
+    template_id,
+    version_number,
+    status,
+    source_type,
+    subject,
+    html_content,
+    text_content,
+    variables,
+    locales,
+    partial_versions,
+    template_hash,
+    change_note,
+    based_on_version_id
+  )
+VALUES (
+    p_template_id,
+    v_next_number,
+    'draft',
+    COALESCE(p_source_type, 'html'),
+    p_subject,
+    p_html_content,
+    p_text_content,
+    COALESCE(p_variables, '{}'),
+    COALESCE(p_locales, '{}'),
+    COALESCE(p_partial_versions, '{}'),
+    p_template_hash,
+    p_change_note,
+    p_based_on_version_id
+  )
+RETURNING * INTO v_version;
+IF p_publish THEN RETURN publish_template_version(v_version.id);
+END IF;
+RETURN v_version;
+END;
+$$ LANGUAGE plpgsql;
+-- The restored content is snapshotted against the current partials, so the
+-- caller passes the new snapshot and hash rather than copying the old ones
+DROP FUNCTION IF EXISTS rollback_template_version(UUID, INTEGER, TEXT);
+CREATE OR REPLACE FUNCTION rollback_template_version(
+    p_template_id UUID,
+    p_version_number INTEGER,
+    p_template_hash TEXT,
+    p_partial_versions JSONB,
+    p_change_note TEXT DEFAULT NULL
+  ) RETURNS email_template_versions AS $$
+DECLARE v_target email_template_versions;
+BEGIN
+SELECT * INTO v_target
+FROM email_template_versions
+WHERE template_id = p_template_id
+  AND version_number = p_version_number;
+IF v_target IS NULL THEN RAISE EXCEPTION 'Template version % not found for template %',
+p_version_number,
+p_template_id;
+END IF;
+RETURN create_template_version(
+  p_template_id,
+  v_target.subject,
+  v_target.html_content,
+  v_target.text_content,
+  v_target.variables,
+  p_template_hash,
+  COALESCE(
+    p_change_note,
+    'Rollback to version ' || p_version_number
+  ),
+  v_target.id,
+  v_target.source_type,
+  v_target.locales,
+  p_partial_versions,
+  TRUE
+);
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON TABLE email_template_partial_versions IS 'Immutable content history of template partials and layouts';
+COMMENT ON COLUMN email_template_versions.partial_versions IS 'Version of each partial and layout the template version was saved against';
+COMMENT ON FUNCTION create_template_version IS 'Creates a template version, publishing it in the same transaction when p_publish is set';
@@ -0,0 +1,601 @@
+-- =============================================
+-- QUEUED EMAIL CONTENT
+-- A queued email carries the subject, sender name and template it is sent
+-- with, so A/B test variants apply at send time. Rows queued without them
+-- fall back to the campaign's. email_logs records the queue item and
+-- variant each send came from.
+-- =============================================
+ALTER TABLE email_queue
+ADD COLUMN IF NOT EXISTS subject VARCHAR(255);
+ALTER TABLE email_queue
+ADD COLUMN IF NOT EXISTS from_name VARCHAR(255);
+ALTER TABLE email_queue
+ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES email_templates(id) ON DELETE
+SET NULL;
+ALTER TABLE email_logs
+ADD COLUMN IF NOT EXISTS queue_id UUID REFERENCES email_queue(id) ON DELETE
+SET NULL;
+ALTER TABLE email_logs
+ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES campaign_variants(id) ON DELETE
+SET NULL;
+CREATE INDEX IF NOT EXISTS idx_email_logs_queue_id ON email_logs(queue_id)
+WHERE queue_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_email_logs_variant_id ON email_logs(variant_id)
+WHERE variant_id IS NOT NULL;
+-- Pending variant sends take their variant's content, as start_ab_test
+-- now queues them
+UPDATE email_queue eq
+SET subject = COALESCE(cv.subject, ec.subject),
+  from_name = COALESCE(cv.from_name, ec.from_name),
+  template_id = COALESCE(cv.template_id, ec.template_id)
+FROM campaign_variants cv
+  JOIN email_campaigns ec ON ec.id = cv.campaign_id
+WHERE eq.variant_id = cv.id
+  AND eq.status = 'pending';
+-- Earlier sends kept the queue id only in tracking_data
+UPDATE email_logs el
+SET queue_id = eq.id,
+  variant_id = eq.variant_id
+FROM email_queue eq
+WHERE el.queue_id IS NULL
+  AND el.tracking_data->>'queue_id' = eq.id::TEXT;
+-- =============================================
+-- A/B TEST FUNCTIONS
+-- Variant content moves from template_data to the queue columns
+-- =============================================
+CREATE OR REPLACE FUNCTION build_variant_template_data(p_contact contacts, p_variant campaign_variants) RETURNS JSONB AS $$ BEGIN RETURN jsonb_build_object(
+    'first_name',
+    COALESCE(p_contact.first_name, ''),
+    'last_name',
+    COALESCE(p_contact.last_name, ''),
+    'email',
+    p_contact.email,
+    'metadata',
+    p_contact.metadata,
+    'variant_id',
+    p_variant.id,
+    'variant_name',
+    p_variant.name
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+CREATE OR REPLACE FUNCTION start_ab_test(p_campaign_id UUID) RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT,
+    queued_emails INTEGER
+  ) AS $$
+DECLARE v_campaign RECORD;
+v_test campaign_ab_tests;
+v_variant_count INTEGER;
+v_recipient_count INTEGER;
+v_cohort_size INTEGER;
+v_queued_count INTEGER := 0;
+v_error_message TEXT;
+BEGIN
+SELECT * INTO v_campaign
+FROM email_campaigns
+WHERE id = p_campaign_id;
+IF v_campaign IS NULL THEN RETURN QUERY
+SELECT FALSE,
+  'Campaign not found',
+  0;
+RETURN;
+END IF;
+SELECT * INTO v_test
+FROM campaign_ab_tests
+WHERE campaign_id = p_campaign_id FOR
+UPDATE;
+IF v_test IS NULL THEN v_error_message := 'Campaign has no A/B test';
+ELSIF v_test.status <> 'draft' THEN v_error_message := 'A/B test cannot be started. Current status: ' || v_test.status;
+ELSIF v_campaign.status NOT IN ('draft', 'scheduled') THEN v_error_message := 'Campaign cannot be started. Current status: ' || v_campaign.status;
+END IF;
+SELECT COUNT(*) INTO v_variant_count
+FROM campaign_variants
+WHERE campaign_id = p_campaign_id;
+IF v_error_message IS NULL
+AND v_variant_count < 2 THEN v_error_message := 'A/B test needs at least two variants';
+END IF;
+IF v_error_message IS NOT NULL THEN PERFORM log_campaign_event(p_campaign_id, 'error', v_error_message);
+RETURN QUERY
+SELECT FALSE,
+  v_error_message,
+  0;
+RETURN;
+END IF;
+SELECT COUNT(*) INTO v_recipient_count
+FROM get_campaign_recipients(p_campaign_id);
+-- Every variant gets at least one recipient when there are enough
+v_cohort_size := LEAST(
+  v_recipient_count,
+  GREATEST(
+    v_variant_count,
+    CEIL(v_recipient_count * v_test.test_percentage / 100.0)::INTEGER
+  )
+);
+INSERT INTO email_queue (
+    campaign_id,
+    contact_id,
+    email_address,
+    template_data,
+    priority,
+    scheduled_at,
+    variant_id,
+    test_cohort,
+    subject,
+    from_name,
+    template_id
+  )
+SELECT p_campaign_id,
+  (r.contact).id,
+  (r.contact).email,
+  build_variant_template_data(r.contact, v.variant),
+  COALESCE(v_campaign.priority, 0),
+  COALESCE((v.variant).send_at, NOW()),
+  (v.variant).id,
+  TRUE,
+  COALESCE((v.variant).subject, v_campaign.subject),
+  COALESCE((v.variant).from_name, v_campaign.from_name),
+  COALESCE((v.variant).template_id, v_campaign.template_id)
+FROM (
+    SELECT c AS contact,
+      ROW_NUMBER() OVER (
+        ORDER BY random()
+      ) AS rn
+    FROM get_campaign_recipients(p_campaign_id) c
+  ) r
+  JOIN (
+    SELECT cv AS variant,
+      ROW_NUMBER() OVER (
+        ORDER BY cv.created_at,
+          cv.name
+      ) - 1 AS idx
+    FROM campaign_variants cv
+    WHERE cv.campaign_id = p_campaign_id
+  ) v ON v.idx = (r.rn - 1) % v_variant_count
+WHERE r.rn <= v_cohort_size;
+GET DIAGNOSTICS v_queued_count = ROW_COUNT;
+UPDATE email_campaigns
+SET status = 'running',
+  started_at = NOW(),
+  total_recipients = v_recipient_count
+WHERE id = p_campaign_id;
+-- The wait window starts once the last variant has been sent
+UPDATE campaign_ab_tests
+SET status = 'testing',
+  test_started_at = NOW(),
+  test_ends_at = GREATEST(
+    NOW(),
+    (
+      SELECT MAX(send_at)
+      FROM campaign_variants
+      WHERE campaign_id = p_campaign_id
+    )
+  ) + (v_test.wait_hours || ' hours')::INTERVAL
+WHERE id = v_test.id;
+PERFORM log_campaign_event(
+  p_campaign_id,
+  'info',
+  'A/B test started',
+  jsonb_build_object(
+    'queued_emails',
+    v_queued_count,
+    'recipients',
+    v_recipient_count,
+    'variants',
+    v_variant_count,
+    'winner_metric',
+    v_test.winner_metric
+  )
+);
+RETURN QUERY
+SELECT TRUE,
+  'A/B test started successfully',
+  v_queued_count;
+END;
+$$ LANGUAGE plpgsql;
+CREATE OR REPLACE FUNCTION dispatch_ab_test_winner(
+    p_campaign_id UUID,
+    p_variant_id UUID DEFAULT NULL
+  ) RETURNS TABLE (
+    success BOOLEAN,
+    message TEXT,
+    winner_variant_id UUID,
+    queued_emails INTEGER
+  ) AS $$
+DECLARE v_test campaign_ab_tests;
+v_winner campaign_variants;
+v_queued_count INTEGER := 0;
+v_error_message TEXT;
+BEGIN -- Lock the test so the cron job and a manual pick cannot both dispatch
+SELECT * INTO v_test
+FROM campaign_ab_tests
+WHERE campaign_id = p_campaign_id FOR
+UPDATE;
+IF v_test IS NULL THEN v_error_message := 'Campaign has no A/B test';
+ELSIF v_test.status <> 'testing' THEN v_error_message := 'A/B test is not running. Current status: ' || v_test.status;
+END IF;
+IF v_error_message IS NULL THEN IF p_variant_id IS NOT NULL THEN
+SELECT * INTO v_winner
+FROM campaign_variants
+WHERE id = p_variant_id
+  AND campaign_id = p_campaign_id;
+ELSE
+SELECT cv.* INTO v_winner
+FROM get_ab_test_variant_stats(p_campaign_id) s
+  JOIN campaign_variants cv ON cv.id = s.variant_id
+ORDER BY (
+    CASE
+      v_test.winner_metric
+      WHEN 'opens' THEN s.opens
+      WHEN 'human_clicks' THEN s.human_clicks
+      ELSE s.conversions
+    END
+  )::DECIMAL / NULLIF(s.sent, 0) DESC NULLS LAST,
+  cv.created_at,
+  cv.name
+LIMIT 1;
+END IF;
+IF v_winner IS NULL THEN v_error_message := 'Variant not found for campaign';
+END IF;
+END IF;
+IF v_error_message IS NOT NULL THEN PERFORM log_campaign_event(p_campaign_id, 'error', v_error_message);
+RETURN QUERY
+SELECT FALSE,
+  v_error_message,
+  NULL::UUID,
+  0;
+RETURN;
+END IF;
+UPDATE campaign_variants
+SET is_winner = (id = v_winner.id)
+WHERE campaign_id = p_campaign_id;
+UPDATE campaign_ab_tests
+SET status = 'winner_selected',
+  winner_variant_id = v_winner.id,
+  winner_selected_at = NOW()
+WHERE id = v_test.id;
+UPDATE email_campaigns
+SET subject = COALESCE(v_winner.subject, subject),
+  from_name = COALESCE(v_winner.from_name, from_name),
+  template_id = COALESCE(v_winner.template_id, template_id)
+WHERE id = p_campaign_id;
+INSERT INTO email_queue (
+    campaign_id,
+    contact_id,
+    email_address,
+    template_data,
+    priority,
+    scheduled_at,
+    variant_id,
+    subject,
+    from_name,
+    template_id
+  )
+SELECT p_campaign_id,
+  c.id,
+  c.email,
+  build_variant_template_data(c, v_winner),
+  COALESCE(ec.priority, 0),
+  GREATEST(NOW(), COALESCE(v_winner.send_at, NOW())),
+  v_winner.id,
+  ec.subject,
+  ec.from_name,
+  ec.template_id
+FROM get_campaign_recipients(p_campaign_id) c
+  CROSS JOIN email_campaigns ec
+WHERE ec.id = p_campaign_id
+  AND NOT EXISTS (
+    SELECT 1
+    FROM email_queue eq
+    WHERE eq.campaign_id = p_campaign_id
+      AND eq.contact_id = c.id
+  );
+GET DIAGNOSTICS v_queued_count = ROW_COUNT;
+UPDATE email_campaigns
+SET total_recipients = GREATEST(
+    total_recipients,
+    (
+      SELECT COUNT(*)
+      FROM email_queue
+      WHERE campaign_id = p_campaign_id
+    )
+  )
+WHERE id = p_campaign_id;
+PERFORM log_campaign_event(
+  p_campaign_id,
+  'info',
+  'A/B test winner dispatched',
+  jsonb_build_object(
+    'winner_variant_id',
+    v_winner.id,
+    'winner_name',
+    v_winner.name,
+    'selected_by',
+    CASE
+      WHEN p_variant_id IS NULL THEN v_test.winner_metric
+      ELSE 'manual'
+    END,
+    'queued_emails',
+    v_queued_count
+  )
+);
+RETURN QUERY
+SELECT TRUE,
+  'Winner dispatched successfully',
+  v_winner.id,
+  v_queued_count;
+END;
+$$ LANGUAGE plpgsql;
+-- Sends are matched to the cohort by email_logs.queue_id
+CREATE OR REPLACE FUNCTION get_ab_test_variant_stats(p_campaign_id UUID) RETURNS TABLE (
+    variant_id UUID,
+    variant_name TEXT,
+    recipients BIGINT,
+    sent BIGINT,
+    opens BIGINT,
+    human_clicks BIGINT,
+    conversions BIGINT
+  ) AS $$ BEGIN RETURN QUERY WITH cohort AS (
+    SELECT eq.variant_id,
+      el.id AS email_log_id,
+      el.opened_at
+    FROM email_queue eq
+      LEFT JOIN email_logs el ON el.queue_id = eq.id
+    WHERE eq.campaign_id = p_campaign_id
+      AND eq.test_cohort
+  ),
+  engagement AS (
+    SELECT etd.email_log_id,
+      BOOL_OR(
+        etd.event_type = 'click'
+        AND NOT etd.is_machine
+      ) AS human_click,
+      BOOL_OR(etd.event_type = 'conversion') AS converted
+    FROM email_tracking_details etd
+      JOIN cohort ON cohort.email_log_id = etd.email_log_id
+    GROUP BY etd.email_log_id
+  )
+SELECT cv.id as variant_id,
+  cv.name::TEXT as variant_name,
+  COUNT(cohort.variant_id) as recipients,
+  COUNT(cohort.email_log_id) as sent,
+  COUNT(cohort.email_log_id) FILTER (
+    WHERE cohort.opened_at IS NOT NULL
+  ) as opens,
+  COUNT(cohort.email_log_id) FILTER (
+    WHERE e.human_click
+  ) as human_clicks,
+  COUNT(cohort.email_log_id) FILTER (
+    WHERE e.converted
+  ) as conversions
+FROM campaign_variants cv
+  LEFT JOIN cohort ON cohort.variant_id = cv.id
+  LEFT JOIN engagement e ON e.email_log_id = cohort.email_log_id
+WHERE cv.campaign_id = p_campaign_id
+GROUP BY cv.id,
+  cv.name,
+  cv.created_at
+ORDER BY cv.created_at,
+  cv.name;
+END;
+$$ LANGUAGE plpgsql;
+-- =============================================
+-- PROCESS EMAIL QUEUE
+-- As before, but sends use the queue item's template and record the
+-- queue item, variant, subject and sender name they went out with
+-- =============================================
+CREATE OR REPLACE FUNCTION process_email_queue(p_batch_size INTEGER DEFAULT 50) RETURNS TABLE (
+        processed_count INTEGER,
+        failed_count INTEGER,
+        remaining_count INTEGER
+    ) AS $$
+DECLARE v_processed_count INTEGER := 0;
+v_failed_count INTEGER := 0;
+v_remaining_count INTEGER;
+v_queue_record RECORD;
+v_campaign_record RECORD;
+v_contact_record RECORD;
+v_template_record RECORD;
+v_can_send BOOLEAN;
+v_suppression_reason TEXT;
+BEGIN -- Log start of processing
+PERFORM log_campaign_event(
+    NULL,
+    'info',
+    'Starting email queue processing',
+    jsonb_build_object('batch_size', p_batch_size)
+);
+-- Process emails in batch
+FOR v_queue_record IN
+SELECT eq.*,
+    ec.name as campaign_name,
+    ec.status as campaign_status
+FROM email_queue eq
+    JOIN email_campaigns ec ON eq.campaign_id = ec.id
+WHERE eq.status = 'pending'
+    AND eq.scheduled_at <= NOW()
+    AND eq.attempts < eq.max_attempts
+    AND ec.status = 'running'
+ORDER BY eq.priority DESC,
+    eq.scheduled_at ASC
+LIMIT p_batch_size LOOP BEGIN -- Check rate limit (200 emails per hour)
+SELECT check_rate_limit('email_sending', 200, 60) INTO v_can_send;
+IF NOT v_can_send THEN PERFORM log_campaign_event(
+    v_queue_record.campaign_id,
+    'warning',
+    'Rate limit reached, stopping queue processing'
+);
+EXIT;
+-- Exit the loop if rate limit is reached
+END IF;
+-- Update queue record to processing
+UPDATE email_queue
+SET status = 'processing',
+    attempts = attempts + 1
+WHERE id = v_queue_record.id;
+-- Get campaign details
+SELECT * INTO v_campaign_record
+FROM email_campaigns
+WHERE id = v_queue_record.campaign_id;
+-- Get contact details
+SELECT * INTO v_contact_record
+FROM contacts
+WHERE id = v_queue_record.contact_id;
+-- Get template details; the queue item's own template comes first
+SELECT * INTO v_template_record
+FROM email_templates
+WHERE id = COALESCE(
+        v_queue_record.template_id,
+        v_campaign_record.template_id
+    );
+-- Validate all required data exists
+IF v_campaign_record IS NULL
+OR v_contact_record IS NULL
+OR v_template_record IS NULL THEN
+UPDATE email_queue
+SET status = 'failed',
+    error_message = 'Missing campaign, contact, or template data',
+    processed_at = NOW()
+WHERE id = v_queue_record.id;
+v_failed_count := v_failed_count + 1;
+CONTINUE;
+END IF;
+-- Check if contact is still active
+IF v_contact_record.status != 'active' THEN
+UPDATE email_queue
+SET status = 'cancelled',
+    error_message = 'Contact is not active: ' || v_contact_record.status,
+    processed_at = NOW()
+WHERE id = v_queue_record.id;
+v_failed_count := v_failed_count + 1;
+CONTINUE;
+END IF;
+-- Check the global suppression list
+v_suppression_reason := get_suppression_reason(v_queue_record.email_address);
+IF v_suppression_reason IS NOT NULL THEN
+UPDATE email_queue
+SET status = 'cancelled',
+    error_message = 'Address is suppressed: ' || v_suppression_reason,
+    processed_at = NOW()
+WHERE id = v_queue_record.id;
+v_failed_count := v_failed_count + 1;
+CONTINUE;
+END IF;
+-- Create email log entry
+INSERT INTO email_logs (
+        campaign_id,
+        contact_id,
+        email,
+        status,
+        sent_at,
+        queue_id,
+        variant_id,
+        tracking_data
+    )
+VALUES (
+        v_queue_record.campaign_id,
+        v_queue_record.contact_id,
+        v_queue_record.email_address,
+        'sent',
+        NOW(),
+        v_queue_record.id,
+        v_queue_record.variant_id,
+        jsonb_build_object(
+            'queue_id',
+            v_queue_record.id,
+            'template_id',
+            v_template_record.id,
+            'subject',
+            COALESCE(
+                v_queue_record.subject,
+                v_campaign_record.subject
+            ),
+            'from_name',
+            COALESCE(
+                v_queue_record.from_name,
+                v_campaign_record.from_name
+            ),
+            'template_data',
+            v_queue_record.template_data
+        )
+    );
+-- Mark queue item as sent
+UPDATE email_queue
+SET status = 'sent',
+    processed_at = NOW()
+WHERE id = v_queue_record.id;
+-- Update campaign sent count
+UPDATE email_campaigns
+SET sent_count = sent_count + 1
+WHERE id = v_queue_record.campaign_id;
+v_processed_count := v_processed_count + 1;
+-- Log successful processing
+PERFORM log_campaign_event(
+    v_queue_record.campaign_id,
+    'info',
+    'Email queued for sending',
+    jsonb_build_object(
+        'email',
+        v_queue_record.email_address,
+        'queue_id',
+        v_queue_record.id
+    )
+);
+EXCEPTION
+WHEN OTHERS THEN -- Handle any errors
+UPDATE email_queue
+SET status = CASE
+        WHEN attempts >= max_attempts THEN 'failed'
+        ELSE 'pending'
+    END,
+    error_message = SQLERRM,
+    processed_at = CASE
+        WHEN attempts >= max_attempts THEN NOW()
+        ELSE NULL
+    END
+WHERE id = v_queue_record.id;
+v_failed_count := v_failed_count + 1;
+PERFORM log_campaign_event(
+    v_queue_record.campaign_id,
+    'error',
+    'Failed to process email: ' || SQLERRM,
+    jsonb_build_object(
+        'email',
+        v_queue_record.email_address,
+        'queue_id',
+        v_queue_record.id,
+        'attempt',
+        v_queue_record.attempts + 1
+    )
+);
+END;
+END LOOP;
+-- Get remaining count
+SELECT COUNT(*) INTO v_remaining_count
+FROM email_queue
+WHERE status = 'pending';
+-- Log completion
+PERFORM log_campaign_event(
+    NULL,
+    'info',
+    'Email queue processing completed',
+    jsonb_build_object(
+        'processed',
+        v_processed_count,
+        'failed',
+        v_failed_count,
+        'remaining',
+        v_remaining_count
+    )
+);
+RETURN QUERY
+SELECT v_processed_count,
+    v_failed_count,
+    v_remaining_count;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN email_queue.subject IS 'Subject to send with, e.g. from an A/B test variant; NULL uses the campaign subject';
+COMMENT ON COLUMN email_queue.template_id IS 'Template to send with; NULL uses the campaign template';
+COMMENT ON COLUMN email_logs.queue_id IS 'Queue item the email was sent from';
+COMMENT ON COLUMN email_logs.variant_id IS 'A/B test variant the email was sent with';
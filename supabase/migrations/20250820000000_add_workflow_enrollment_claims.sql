@@ -0,0 +1,108 @@
+-- =============================================
+-- WORKFLOW ENROLLMENT CLAIMS
+-- A worker claims due enrollments before running their steps, so
+-- concurrent workers never advance the same enrollment. A claim that is
+-- not completed within its lease (the worker died) can be taken again.
+-- =============================================
+ALTER TABLE workflow_enrollments
+ADD COLUMN IF NOT EXISTS claim_token UUID;
+ALTER TABLE workflow_enrollments
+ADD COLUMN IF NOT EXISTS claimed_until TIMESTAMP WITH TIME ZONE;
+CREATE OR REPLACE FUNCTION claim_due_workflow_enrollments(
+    p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    p_limit INTEGER DEFAULT 100,
+    p_lease_seconds INTEGER DEFAULT 300
+  ) RETURNS SETOF workflow_enrollments AS $$
+UPDATE workflow_enrollments we
+SET claim_token = uuid_generate_v4(),
+  claimed_until = NOW() + make_interval(secs => p_lease_seconds)
+WHERE we.id IN (
+    SELECT e.id
+    FROM workflow_enrollments e
+      JOIN workflows w ON w.id = e.workflow_id
+    WHERE e.status = 'active'
+      AND w.status = 'active'
+      AND e.next_run_at <= p_now
+      AND (
+        e.claimed_until IS NULL
+        OR e.claimed_until < NOW()
+      )
+    ORDER BY e.next_run_at
+    LIMIT p_limit FOR
+    UPDATE OF e SKIP LOCKED
+  )
+RETURNING we.*;
+$$ LANGUAGE sql;
+-- =============================================
+-- ADVANCE ENROLLMENT
+-- Stores the enrollment's new state and queues the emails its steps sent
+-- in one transaction, releasing the claim. Returns FALSE without changing
+-- anything when the claim was lost, so a late worker cannot send twice.
+-- Each email is an email_queue row; subject, from_name and template_id
+-- left NULL fall back to the campaign's.
+-- =============================================
+CREATE OR REPLACE FUNCTION advance_workflow_enrollment(
+    p_enrollment_id UUID,
+    p_claim_token UUID,
+    p_update JSONB,
+    p_emails JSONB DEFAULT '[]'
+  ) RETURNS BOOLEAN AS $$ BEGIN
+UPDATE workflow_enrollments
+SET status = COALESCE(p_update->>'status', status),
+  current_step_id = CASE
+    WHEN p_update ? 'current_step_id' THEN p_update->>'current_step_id'
+    ELSE current_step_id
+  END,
+  next_run_at = COALESCE(
+    (p_update->>'next_run_at')::TIMESTAMPTZ,
+    next_run_at
+  ),
+  sent_emails = COALESCE(p_update->'sent_emails', sent_emails),
+  last_error = COALESCE(p_update->>'last_error', last_error),
+  completed_at = COALESCE(
+    (p_update->>'completed_at')::TIMESTAMPTZ,
+    completed_at
+  ),
+  claim_token = NULL,
+  claimed_until = NULL,
+  updated_at = NOW()
+WHERE id = p_enrollment_id
+  AND claim_token = p_claim_token;
+IF NOT FOUND THEN RETURN FALSE;
+END IF;
+INSERT INTO email_queue (
+    id,
+    campaign_id,
+    contact_id,
+    email_address,
+    template_data,
+    scheduled_at,
+    subject,
+    from_name,
+    template_id
+  )
+SELECT e.id,
+  e.campaign_id,
+  e.contact_id,
+  e.email_address,
+  COALESCE(e.template_data, '{}'),
+  COALESCE(e.scheduled_at, NOW()),
+  e.subject,
+  e.from_name,
+  e.template_id
+FROM jsonb_to_recordset(COALESCE(p_emails, '[]')) AS e(
+    id UUID,
+    campaign_id UUID,
+    contact_id UUID,
+    email_address VARCHAR,
+    template_data JSONB,
+    scheduled_at TIMESTAMPTZ,
+    subject VARCHAR,
+    from_name VARCHAR,
+    template_id UUID
+  );
+RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON COLUMN workflow_enrollments.claimed_until IS 'End of the lease of the worker advancing the enrollment';
+COMMENT ON FUNCTION advance_workflow_enrollment IS 'Stores an enrollment''s new state and queues its emails in one transaction';
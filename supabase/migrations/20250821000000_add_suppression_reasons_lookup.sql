@@ -0,0 +1,20 @@
+-- =============================================
+-- BATCHED SUPPRESSION CHECK
+-- get_suppression_reason for many addresses at once, so a message's
+-- to, cc and bcc are checked in one round trip. Returns the suppressed
+-- addresses only, lowercased, with their reason.
+-- =============================================
+CREATE OR REPLACE FUNCTION get_suppression_reasons(p_emails TEXT []) RETURNS TABLE (email TEXT, reason TEXT) AS $$
+SELECT checked.email,
+  checked.reason
+FROM (
+    SELECT addresses.email,
+      get_suppression_reason(addresses.email) AS reason
+    FROM (
+        SELECT DISTINCT LOWER(TRIM(a.email)) AS email
+        FROM unnest(COALESCE(p_emails, '{}')) AS a(email)
+      ) addresses
+  ) checked
+WHERE checked.reason IS NOT NULL;
+$$ LANGUAGE sql STABLE;
+COMMENT ON FUNCTION get_suppression_reasons(TEXT []) IS 'Suppressed addresses among p_emails with their reason';
@@ -0,0 +1,17 @@
+-- =============================================
+-- EXISTING CONTACT EMAILS
+-- Which of the given addresses already belong to a contact, matched
+-- case-insensitively like import_contact_rows does. Imports check a whole
+-- chunk in one call; the addresses come back lowercased.
+-- =============================================
+CREATE OR REPLACE FUNCTION find_existing_contact_emails(p_emails TEXT []) RETURNS SETOF TEXT AS $$
+SELECT DISTINCT LOWER(c.email)
+FROM contacts c
+WHERE LOWER(c.email) = ANY(
+    ARRAY(
+      SELECT LOWER(e.email)
+      FROM unnest(COALESCE(p_emails, '{}')) AS e(email)
+    )
+  );
+$$ LANGUAGE sql STABLE;
+COMMENT ON FUNCTION find_existing_contact_emails(TEXT []) IS 'Lowercased addresses among p_emails that belong to a contact';
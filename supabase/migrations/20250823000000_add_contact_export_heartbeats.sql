@@ -0,0 +1,15 @@
+-- =============================================
+-- CONTACT EXPORT HEARTBEATS
+-- A run takes a job with its own run_id and sets heartbeat_at after
+-- every page, and only the run holding the job may advance it. A running
+-- job whose heartbeat is old was left by a run that crashed, and another
+-- run may take it over and resume it.
+-- =============================================
+ALTER TABLE contact_export_jobs
+ADD COLUMN IF NOT EXISTS run_id UUID;
+ALTER TABLE contact_export_jobs
+ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP WITH TIME ZONE;
+CREATE INDEX IF NOT EXISTS idx_contact_export_jobs_heartbeat_at ON contact_export_jobs(heartbeat_at)
+WHERE status = 'running';
+COMMENT ON COLUMN contact_export_jobs.run_id IS 'Run holding the job while it is running';
+COMMENT ON COLUMN contact_export_jobs.heartbeat_at IS 'Last progress of the running run; an old heartbeat means the run crashed';
@@ -0,0 +1,95 @@
+-- =============================================
+-- ENQUEUE EMAIL
+-- Inserts one email_queue row from its JSON fields, filling unset ones
+-- with the table defaults. EmailQueueService.addToQueue calls it, and so
+-- does advance_workflow_enrollment for the emails workflow steps send,
+-- so workflow sends are queued exactly like any other.
+-- =============================================
+CREATE OR REPLACE FUNCTION enqueue_email(p_email JSONB) RETURNS email_queue AS $$
+INSERT INTO email_queue (
+    id,
+    campaign_id,
+    contact_id,
+    email_address,
+    template_data,
+    status,
+    priority,
+    scheduled_at,
+    max_attempts,
+    variant_id,
+    test_cohort,
+    subject,
+    from_name,
+    template_id
+  )
+SELECT COALESCE(e.id, uuid_generate_v4()),
+  e.campaign_id,
+  e.contact_id,
+  e.email_address,
+  COALESCE(e.template_data, '{}'),
+  COALESCE(e.status, 'pending'),
+  COALESCE(e.priority, 0),
+  COALESCE(e.scheduled_at, NOW()),
+  COALESCE(e.max_attempts, 3),
+  e.variant_id,
+  COALESCE(e.test_cohort, FALSE),
+  e.subject,
+  e.from_name,
+  e.template_id
+FROM jsonb_to_record(p_email) AS e(
+    id UUID,
+    campaign_id UUID,
+    contact_id UUID,
+    email_address VARCHAR,
+    template_data JSONB,
+    status VARCHAR,
+    priority INTEGER,
+    scheduled_at TIMESTAMPTZ,
+    max_attempts INTEGER,
+    variant_id UUID,
+    test_cohort BOOLEAN,
+    subject VARCHAR,
+    from_name VARCHAR,
+    template_id UUID
+  )
+RETURNING *;
+$$ LANGUAGE sql;
+-- =============================================
+-- ADVANCE ENROLLMENT
+-- As before, but the emails go through enqueue_email
+-- =============================================
+CREATE OR REPLACE FUNCTION advance_workflow_enrollment(
+    p_enrollment_id UUID,
+    p_claim_token UUID,
+    p_update JSONB,
+    p_emails JSONB DEFAULT '[]'
+  ) RETURNS BOOLEAN AS $$ BEGIN
+UPDATE workflow_enrollments
+SET status = COALESCE(p_update->>'status', status),
+  current_step_id = CASE
+    WHEN p_update ? 'current_step_id' THEN p_update->>'current_step_id'
+    ELSE current_step_id
+  END,
+  next_run_at = COALESCE(
+    (p_update->>'next_run_at')::TIMESTAMPTZ,
+    next_run_at
+  ),
+  sent_emails = COALESCE(p_update->'sent_emails', sent_emails),
+  last_error = COALESCE(p_update->>'last_error', last_error),
+  completed_at = COALESCE(
+    (p_update->>'completed_at')::TIMESTAMPTZ,
+    completed_at
+  ),
+  claim_token = NULL,
+  claimed_until = NULL,
+  updated_at = NOW()
+WHERE id = p_enrollment_id
+  AND claim_token = p_claim_token;
+IF NOT FOUND THEN RETURN FALSE;
+END IF;
+PERFORM enqueue_email(e.email)
+FROM jsonb_array_elements(COALESCE(p_emails, '[]')) AS e(email);
+RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON FUNCTION enqueue_email(JSONB) IS 'Inserts an email_queue row, defaulting unset fields; the insert path shared by addToQueue and workflows';
@@ -17,6 +17,8 @@ export const TEST_CONFIG = {
     logLevel: 'error',
     enableRateLimit: false,
     enableRetries: false,
+    // Provider tests run without a database
+    enableSuppressionCheck: false,
     timeout: 5000,
     retries: 1,
     retryDelay: 100,
@@ -39,6 +41,7 @@ process.env.DEFAULT_FROM_NAME = TEST_CONFIG.email.defaultFromName;
 process.env.EMAIL_LOG_LEVEL = TEST_CONFIG.email.logLevel;
 process.env.ENABLE_RATE_LIMIT = String(TEST_CONFIG.email.enableRateLimit);
 process.env.ENABLE_RETRIES = String(TEST_CONFIG.email.enableRetries);
+process.env.ENABLE_SUPPRESSION_CHECK = String(TEST_CONFIG.email.enableSuppressionCheck);
 process.env.EMAIL_TIMEOUT = String(TEST_CONFIG.email.timeout);
 process.env.EMAIL_RETRIES = String(TEST_CONFIG.email.retries);
 process.env.EMAIL_RETRY_DELAY = String(TEST_CONFIG.email.retryDelay);
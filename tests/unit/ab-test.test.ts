@@ -0,0 +1,355 @@
+const { afterEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import Handlebars from "handlebars";
+import { supabase } from "../../src/config/supabase";
+import {
+  ABTestService,
+  compareVariants,
+  twoProportionZTest,
+  validateABTestConfig,
+} from "../../src/services/ab-test.service";
+import { createTestUUID, UUID } from "../../src/types/email-system";
+import { buildQueuedMessage, processQueuedEmail } from "../../supabase/functions/_shared/queued-email";
+import { TestHelpers } from "../utils/test-helpers";
+
+const variantA = createTestUUID("variant-a");
+const variantB = createTestUUID("variant-b");
+const variantC = createTestUUID("variant-c");
+
+const statsRow = (variantId: UUID, name: string, sent: number, opens: number) => ({
+  variant_id: variantId,
+  variant_name: name,
+  recipients: String(sent),
+  sent: String(sent),
+  opens: String(opens),
+  human_clicks: "0",
+  conversions: "0",
+});
+
+describe("A/B test statistics", () => {
+  it("should compute a two-sided two-proportion z-test", () => {
+    const { z, pValue } = twoProportionZTest(200, 1000, 150, 1000);
+
+    expect(z).toBeCloseTo(2.942, 3);
+    expect(pValue).toBeCloseTo(0.00326, 4);
+    expect(twoProportionZTest(0, 0, 5, 10).pValue).toBe(1);
+    expect(twoProportionZTest(0, 10, 0, 10).pValue).toBe(1);
+  });
+
+  it("should report a significant leader against every other variant", () => {
+    const results = compareVariants(
+      [
+        statsRow(variantA, "A", 1000, 150),
+        statsRow(variantB, "B", 1000, 200),
+        statsRow(variantC, "C", 1000, 140),
+      ],
+      "opens"
+    );
+
+    expect(results.leader_variant_id).toBe(variantB);
+    expect(results.significant).toBe(true);
+    expect(results.variants.map((variant) => variant.rate)).toEqual([15, 20, 14]);
+    expect(results.variants[1].p_value).toBeUndefined();
+    expect(results.variants[0].p_value).toBeLessThan(0.05);
+  });
+
+  it("should not call small differences significant", () => {
+    const results = compareVariants(
+      [statsRow(variantA, "A", 50, 10), statsRow(variantB, "B", 50, 12)],
+      "opens"
+    );
+
+    expect(results.leader_variant_id).toBe(variantB);
+    expect(results.significant).toBe(false);
+    expect(results.variants[0].significant).toBe(false);
+  });
+
+  it("should keep the earlier variant on ties and skip unsent variants", () => {
+    const results = compareVariants(
+      [
+        statsRow(variantA, "A", 0, 0),
+        statsRow(variantB, "B", 100, 10),
+        statsRow(variantC, "C", 100, 10),
+      ],
+      "opens"
+    );
+
+    expect(results.leader_variant_id).toBe(variantB);
+    expect(results.variants[0].rate).toBe(0);
+  });
+
+  it("should validate the test configuration", () => {
+    expect(
+      validateABTestConfig({
+        test_percentage: 0,
+        winner_metric: "revenue" as any,
+        wait_hours: 1.5,
+        variants: [{ name: "A" }, { name: "A " }],
+      })
+    ).toEqual([
+      "test_percentage must be an integer between 1 and 100",
+      "winner_metric must be one of opens, human_clicks, conversions",
+      "wait_hours must be a positive integer",
+      "variant names must be unique",
+    ]);
+  });
+});
+
+describe("ABTestService", () => {
+  const campaignId = createTestUUID("campaign-1");
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should create the test with its variants", async () => {
+    const campaign = TestHelpers.createQuery({ data: { id: campaignId, status: "draft" }, error: null });
+    const test = TestHelpers.createQuery({ data: { id: "test-1", campaign_id: campaignId }, error: null });
+    const variants = TestHelpers.createQuery({ data: [{ id: variantA }, { id: variantB }], error: null });
+    vi.spyOn(supabase, "from")
+      .mockReturnValueOnce(campaign)
+      .mockReturnValueOnce(test)
+      .mockReturnValueOnce(variants);
+
+    const created = await new ABTestService().createABTest(campaignId, {
+      test_percentage: 20,
+      winner_metric: "human_clicks",
+      wait_hours: 4,
+      variants: [
+        { name: "A", subject: "Last chance" },
+        { name: "B", subject: "Ends tonight", send_at: "2025-08-10T09:00:00Z" },
+      ],
+    });
+
+    expect(test.insert).toHaveBeenCalledWith({
+      campaign_id: campaignId,
+      test_percentage: 20,
+      winner_metric: "human_clicks",
+      wait_hours: 4,
+    });
+    expect(variants.insert).toHaveBeenCalledWith([
+      { campaign_id: campaignId, name: "A", subject: "Last chance" },
+      {
+        campaign_id: campaignId,
+        name: "B",
+        subject: "Ends tonight",
+        send_at: "2025-08-10T09:00:00Z",
+      },
+    ]);
+    expect(created.variants).toHaveLength(2);
+  });
+
+  it("should refuse tests on campaigns that already started", async () => {
+    vi.spyOn(supabase, "from").mockReturnValueOnce(
+      TestHelpers.createQuery({ data: { id: campaignId, status: "running" }, error: null })
+    );
+
+    await expect(
+      new ABTestService().createABTest(campaignId, {
+        test_percentage: 20,
+        winner_metric: "opens",
+        wait_hours: 4,
+        variants: [{ name: "A" }, { name: "B" }],
+      })
+    ).rejects.toThrow("A/B test cannot be added. Campaign status: running");
+  });
+
+  it("should combine variant stats with the test settings", async () => {
+    vi.spyOn(supabase, "from").mockReturnValueOnce(
+      TestHelpers.createQuery({
+        data: { campaign_id: campaignId, status: "testing", winner_metric: "opens" },
+        error: null,
+      })
+    );
+    const rpc = vi.spyOn(supabase, "rpc").mockResolvedValue({
+      data: [statsRow(variantA, "A", 1000, 150), statsRow(variantB, "B", 1000, 200)],
+      error: null,
+    } as any);
+
+    const results = await new ABTestService().getResults(campaignId, 0.99);
+
+    expect(rpc).toHaveBeenCalledWith("get_ab_test_variant_stats", { p_campaign_id: campaignId });
+    expect(results).toMatchObject({
+      status: "testing",
+      winner_metric: "opens",
+      confidence_level: 0.99,
+      leader_variant_id: variantB,
+      significant: true,
+    });
+  });
+
+  it("should let the database pick the winner when none is given", async () => {
+    const rpc = vi.spyOn(supabase, "rpc").mockResolvedValue({
+      data: [{ success: true, message: "ok", winner_variant_id: variantB, queued_emails: 800 }],
+      error: null,
+    } as any);
+
+    const result = await new ABTestService().selectWinner(campaignId);
+
+    expect(rpc).toHaveBeenCalledWith("dispatch_ab_test_winner", {
+      p_campaign_id: campaignId,
+      p_variant_id: null,
+    });
+    expect(result.queued_emails).toBe(800);
+  });
+});
+
+describe("A/B test sends", () => {
+  const campaign = {
+    subject: "Summer sale",
+    from_name: "Acme",
+    from_email: "news@acme.test",
+    template_id: "template-campaign",
+  };
+  const template = {
+    id: "template-variant",
+    subject: "Template subject",
+    html_content: "<p>Hi {{contact.first_name}}</p>",
+    text_content: "Hi {{first_name}}",
+  };
+  const defaults = { fromEmail: "noreply@example.com", fromName: "Example" };
+  const render = (source: string, data: Record<string, unknown>) => Handlebars.compile(source)(data);
+
+  it("should send a cohort with its variant's subject, sender and template", () => {
+    // As start_ab_test queues a cohort row for variant B
+    const message = buildQueuedMessage(
+      {
+        id: "queue-1",
+        email_address: "ada@example.com",
+        subject: "Ends tonight, {{contact.first_name}}",
+        from_name: "Acme Deals",
+        template_id: "template-variant",
+        template_data: { first_name: "Ada", last_name: "Lovelace", email: "ada@example.com" },
+        campaign_id: "campaign-1",
+        variant_id: variantB,
+        attempts: 0,
+        max_attempts: 3,
+      },
+      campaign,
+      template,
+      defaults,
+      render
+    );
+
+    expect(message).toEqual({
+      from: { email: "news@acme.test", name: "Acme Deals" },
+      to: "ada@example.com",
+      subject: "Ends tonight, Ada",
+      html: "<p>Hi Ada</p>",
+      text: "Hi Ada",
+      customVariables: { queue_id: "queue-1", campaign_id: "campaign-1", variant_id: variantB },
+    });
+  });
+
+  it("should fall back to the campaign, the template and then the defaults", () => {
+    const item = {
+      id: "queue-2",
+      email_address: "bob@example.com",
+      attempts: 0,
+      max_attempts: 3,
+    };
+
+    expect(buildQueuedMessage(item, campaign, template, defaults, render)).toMatchObject({
+      from: { email: "news@acme.test", name: "Acme" },
+      subject: "Summer sale",
+      html: "<p>Hi </p>",
+      customVariables: { queue_id: "queue-2" },
+    });
+    expect(buildQueuedMessage(item, null, template, defaults, render)).toMatchObject({
+      from: { email: "noreply@example.com", name: "Example" },
+      subject: "Template subject",
+    });
+    expect(() =>
+      buildQueuedMessage(item, null, { ...template, source_type: "mjml" }, defaults, render)
+    ).toThrow("Template template-variant is MJML, which the email processor cannot render");
+  });
+
+  it("should render the campaign's template for rows queued without one", async () => {
+    const queries: Record<string, any> = {
+      email_queue: TestHelpers.createQuery({ data: null, error: null }),
+      email_campaigns: TestHelpers.createQuery({ data: campaign, error: null }),
+      email_templates: TestHelpers.createQuery({
+        data: { ...template, id: "template-campaign", html_content: "<p>Sale for {{contact.email}}</p>" },
+        error: null,
+      }),
+      email_logs: TestHelpers.createQuery({ data: null, error: null }),
+    };
+    const client = {
+      rpc: vi.fn(() => Promise.resolve({ data: null, error: null })),
+      from: vi.fn((table: string) => queries[table]),
+    };
+    const send = vi.fn(() => Promise.resolve({ messageId: "message-1", trackingData: { provider: "smtp" } }));
+
+    const result = await processQueuedEmail(
+      {
+        id: "queue-3",
+        email_address: "cy@example.com",
+        template_data: { first_name: "Cy" },
+        campaign_id: "campaign-1",
+        contact_id: "contact-3",
+        variant_id: variantA,
+        attempts: 0,
+        max_attempts: 3,
+      },
+      {
+        supabase: client,
+        defaults,
+        render,
+        headers: () => Promise.resolve(undefined),
+        send,
+        failureTrackingData: () => ({}),
+      }
+    );
+
+    expect(result).toEqual({ success: true });
+    expect(queries.email_templates.eq).toHaveBeenCalledWith("id", "template-campaign");
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({ subject: "Summer sale", html: "<p>Sale for cy@example.com</p>", text: "Hi Cy" })
+    );
+    expect(queries.email_logs.insert).toHaveBeenCalledWith({
+      email: "cy@example.com",
+      contact_id: "contact-3",
+      campaign_id: "campaign-1",
+      queue_id: "queue-3",
+      variant_id: variantA,
+      status: "sent",
+      mailtrap_message_id: "message-1",
+      sent_at: expect.any(String),
+      tracking_data: expect.objectContaining({ subject: "Summer sale", provider: "smtp" }),
+    });
+  });
+
+  it("should not queue a sent email again when its log cannot be written", async () => {
+    const queue = TestHelpers.createQuery({ data: null, error: null });
+    const queries: Record<string, any> = {
+      email_queue: queue,
+      email_templates: TestHelpers.createQuery({ data: template, error: null }),
+      email_logs: TestHelpers.createQuery({ data: null, error: { message: "null value in column \"email\"" } }),
+    };
+    const client = {
+      rpc: vi.fn(() => Promise.resolve({ data: null, error: null })),
+      from: vi.fn((table: string) => queries[table]),
+    };
+
+    await expect(
+      processQueuedEmail(
+        {
+          id: "queue-4",
+          email_address: "dee@example.com",
+          template_id: "template-variant",
+          attempts: 0,
+          max_attempts: 3,
+        },
+        {
+          supabase: client,
+          defaults,
+          render,
+          headers: () => Promise.resolve(undefined),
+          send: () => Promise.resolve({ messageId: "message-2", trackingData: {} }),
+          failureTrackingData: () => ({}),
+        }
+      )
+    ).rejects.toThrow('Failed to log queued email queue-4: null value in column "email"');
+    expect(queue.update).toHaveBeenCalledTimes(1);
+    expect(queue.update).toHaveBeenCalledWith({ status: "processing", attempts: 1 });
+  });
+});
@@ -0,0 +1,313 @@
+const { afterEach, beforeEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { supabase } from "../../src/config/supabase";
+import {
+  ContactExportRow,
+  ContactExportService,
+  formatExportRows,
+  validateContactFilter,
+  validateExportFields,
+} from "../../src/services/contact-export.service";
+import { UUID } from "../../src/types/email-provider";
+import { ContactExportJob, ContactFilter, createTestUUID, CustomField } from "../../src/types/email-system";
+
+const JOB_ID = createTestUUID("export-1");
+const LIST_ID = UUID.from("0b8e6f0e-2c1a-4d8e-9a57-3f1d2c4b5a61");
+const SEGMENT_ID = UUID.from("7c2d9e4a-5b3f-4e1a-8d6c-2a9b0f3e4d52");
+
+const createRow = (name: string, overrides: Partial<ContactExportRow> = {}): ContactExportRow => ({
+  id: createTestUUID(`contact-${name}`),
+  email: `${name}@example.com`,
+  first_name: name,
+  status: "active",
+  metadata: {},
+  created_at: "2025-08-17T00:00:00Z",
+  updated_at: "2025-08-17T00:00:00Z",
+  ...overrides,
+});
+
+describe("Contact export helpers", () => {
+  it("should validate filters and field selections", () => {
+    expect(
+      validateContactFilter({
+        status: ["active", "gone"],
+        in_lists: ["not-a-uuid"],
+        in_segments: [],
+        created_after: "yesterday",
+        email_contains: "",
+        metadata_filters: ["plan"],
+      } as unknown as ContactFilter)
+    ).toEqual([
+      "status has invalid values: gone",
+      "in_lists has invalid values: not-a-uuid",
+      "in_segments must be a non-empty array",
+      "created_after must be a date",
+      "email_contains must be a non-empty string",
+      "metadata_filters must be an object",
+    ]);
+    expect(
+      validateContactFilter({ status: ["active"], in_lists: [LIST_ID], name_contains: "ada" })
+    ).toEqual([]);
+
+    expect(
+      validateExportFields([
+        "email",
+        "metadata.company.size",
+        "engagement.opened",
+        "engagement.replied",
+        "phone",
+        "email",
+        "metadata.",
+      ])
+    ).toEqual([
+      "unknown field engagement.replied",
+      "unknown field phone",
+      "email is selected twice",
+      "unknown field metadata.",
+    ]);
+  });
+
+  it("should format metadata paths and engagement as CSV and JSONL", () => {
+    const rows = [
+      createRow("ada", {
+        metadata: { interests: ["news", "events"], company: { name: "Acme, Inc", size: 12 } },
+        engagement: { sent: 3, opened: 2, last_opened_at: "2025-08-16T10:00:00Z" },
+      }),
+      createRow("bob", { first_name: undefined, engagement: null }),
+    ];
+    const fields = [
+      "email",
+      "first_name",
+      "metadata.interests",
+      "metadata.company",
+      "metadata.company.size",
+      "engagement.opened",
+    ];
+
+    expect(formatExportRows(rows, fields, "csv")).toBe(
+      'ada@example.com,ada,news;events,"{""name"":""Acme, Inc"",""size"":12}",12,2\r\n' +
+        "bob@example.com,,,,,\r\n"
+    );
+    expect(formatExportRows(rows, ["email", "metadata.company.size", "engagement.opened"], "jsonl")).toBe(
+      '{"email":"ada@example.com","metadata.company.size":12,"engagement.opened":2}\n' +
+        '{"email":"bob@example.com","metadata.company.size":null,"engagement.opened":null}\n'
+    );
+    expect(formatExportRows([], fields, "csv")).toBe("");
+  });
+
+  it("should keep spreadsheets from running CSV cells as formulas", () => {
+    const rows = [
+      createRow("ada", {
+        first_name: '=HYPERLINK("https://evil.example","x")',
+        last_name: "@SUM(A1)",
+        metadata: { phone: "+1 555 0100", tags: ["-vip", "beta"], balance: -5, notes: "\t=1+1" },
+      }),
+    ];
+
+    expect(
+      formatExportRows(
+        rows,
+        ["first_name", "last_name", "metadata.phone", "metadata.tags", "metadata.balance", "metadata.notes"],
+        "csv"
+      )
+    ).toBe(`"'=HYPERLINK(""https://evil.example"",""x"")",'@SUM(A1),'+1 555 0100,'-vip;beta,-5,'\t=1+1\r\n`);
+    expect(formatExportRows(rows, ["first_name"], "jsonl")).toBe(
+      '{"first_name":"=HYPERLINK(\\"https://evil.example\\",\\"x\\")"}\n'
+    );
+  });
+});
+
+describe("ContactExportService", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "contact-export-"));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const createJob = (overrides: Partial<ContactExportJob> = {}): ContactExportJob => ({
+    id: JOB_ID,
+    format: "csv",
+    status: "pending",
+    filter: { in_segments: [SEGMENT_ID] },
+    fields: ["email", "metadata.plan"],
+    page_size: 2,
+    rows_exported: 0,
+    bytes_written: 0,
+    created_at: "2025-08-17T00:00:00Z",
+    updated_at: "2025-08-17T00:00:00Z",
+    ...overrides,
+  });
+
+  const contacts = [
+    createRow("ada", { metadata: { plan: "pro" } }),
+    createRow("bob"),
+    createRow("cy", { metadata: { plan: "free" } }),
+  ];
+
+  const mockDatabase = (job: ContactExportJob, fields: CustomField[] = []) => {
+    let current = job;
+    const inserts: Record<string, unknown>[] = [];
+
+    vi.spyOn(supabase, "from").mockImplementation(((table: string) => {
+      const query: any = {};
+      for (const method of ["select", "eq", "in", "order"]) {
+        query[method] = vi.fn(() => query);
+      }
+      query.insert = vi.fn((row: Record<string, unknown>) => {
+        inserts.push(row);
+        current = { ...current, ...row } as ContactExportJob;
+        return query;
+      });
+      query.update = vi.fn((updates: Record<string, unknown>) => {
+        current = { ...current, ...updates } as ContactExportJob;
+        return query;
+      });
+      query.single = vi.fn(async () => ({ data: current, error: null }));
+      query.then = (resolve: (value: unknown) => void) =>
+        resolve(table === "custom_fields" ? { data: fields, error: null } : { data: null, error: null });
+      return query;
+    }) as any);
+
+    const rpc = vi.spyOn(supabase, "rpc").mockImplementation((async (name: string, params: any) => {
+      if (name === "count_filtered_contacts") {
+        return { data: contacts.length, error: null };
+      }
+      const start = params.p_after_id ? contacts.findIndex((contact) => contact.id === params.p_after_id) + 1 : 0;
+      return { data: contacts.slice(start, start + params.p_limit), error: null };
+    }) as any);
+
+    return { rpc, inserts };
+  };
+
+  it("should export every page with the header and record progress", async () => {
+    const { rpc } = mockDatabase(createJob());
+    const filePath = join(directory, "contacts.csv");
+    const progress: number[] = [];
+
+    const job = await new ContactExportService().runJob(JOB_ID, filePath, {
+      onProgress: (update) => progress.push(update.rows_exported),
+    });
+
+    const expected = "email,metadata.plan\r\nada@example.com,pro\r\nbob@example.com,\r\ncy@example.com,free\r\n";
+    expect(readFileSync(filePath, "utf8")).toBe(expected);
+    expect(job).toMatchObject({
+      status: "completed",
+      total_count: 3,
+      rows_exported: 3,
+      last_contact_id: contacts[2].id,
+      bytes_written: Buffer.byteLength(expected),
+    });
+    expect(progress).toEqual([2, 3]);
+    expect(rpc).toHaveBeenCalledWith("export_contacts_page", {
+      p_filter: { in_segments: [SEGMENT_ID] },
+      p_after_id: contacts[1].id,
+      p_limit: 2,
+      p_include_engagement: false,
+    });
+  });
+
+  it("should cut off an unrecorded page and resume after the last contact", async () => {
+    const written = '{"email":"ada@example.com"}\n{"email":"bob@example.com"}\n';
+    const filePath = join(directory, "contacts.jsonl");
+    writeFileSync(filePath, written + '{"email":"cy@exa');
+    const { rpc } = mockDatabase(
+      createJob({
+        format: "jsonl",
+        status: "failed",
+        fields: ["email"],
+        total_count: 3,
+        rows_exported: 2,
+        last_contact_id: contacts[1].id,
+        bytes_written: Buffer.byteLength(written),
+      })
+    );
+
+    const job = await new ContactExportService().runJob(JOB_ID, filePath);
+
+    expect(readFileSync(filePath, "utf8")).toBe(written + '{"email":"cy@example.com"}\n');
+    expect(job.status).toBe("completed");
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+
+  it("should take over a running job whose run stopped sending heartbeats", async () => {
+    const written = "email,metadata.plan\r\nada@example.com,pro\r\nbob@example.com,\r\n";
+    const filePath = join(directory, "contacts.csv");
+    // The crashed run wrote part of a page it never recorded
+    writeFileSync(filePath, written + "cy@exa");
+    const crashed = {
+      status: "running" as const,
+      run_id: UUID.generate(),
+      heartbeat_at: "2025-08-17T00:00:00Z",
+      total_count: 3,
+      rows_exported: 2,
+      last_contact_id: contacts[1].id,
+      bytes_written: Buffer.byteLength(written),
+    };
+    const { rpc } = mockDatabase(createJob(crashed));
+
+    const job = await new ContactExportService().runJob(JOB_ID, filePath);
+
+    expect(readFileSync(filePath, "utf8")).toBe(written + "cy@example.com,free\r\n");
+    expect(job).toMatchObject({ status: "completed", rows_exported: 3 });
+    expect(job.run_id).not.toBe(crashed.run_id);
+    expect(rpc).toHaveBeenCalledTimes(1);
+
+    mockDatabase(createJob({ ...crashed, heartbeat_at: new Date().toISOString() }));
+    await expect(new ContactExportService().runJob(JOB_ID, filePath)).rejects.toThrow(
+      `Export job ${JOB_ID} is running`
+    );
+  });
+
+  it("should pause after maxPages and refuse a file shorter than the progress", async () => {
+    mockDatabase(createJob());
+    const filePath = join(directory, "contacts.csv");
+    const service = new ContactExportService();
+
+    const paused = await service.runJob(JOB_ID, filePath, { maxPages: 1 });
+    expect(paused).toMatchObject({ status: "paused", rows_exported: 2 });
+
+    writeFileSync(filePath, "email\r\n");
+    await expect(service.runJob(JOB_ID, filePath)).rejects.toThrow("resume with the same file");
+    expect((await service.getJob(JOB_ID))?.status).toBe("failed");
+  });
+
+  it("should default to every custom field and reject invalid jobs", async () => {
+    const { inserts } = mockDatabase(createJob(), [
+      {
+        id: createTestUUID("field-plan"),
+        key: "plan",
+        label: "Plan",
+        type: "enum",
+        options: ["free", "pro"],
+        required: false,
+        indexed: false,
+        created_at: "2025-08-17T00:00:00Z",
+        updated_at: "2025-08-17T00:00:00Z",
+      },
+    ]);
+    const service = new ContactExportService();
+
+    await service.createJob({ file_name: "contacts.ndjson", filter: { status: ["active"] } });
+    expect(inserts[0]).toEqual({
+      file_name: "contacts.ndjson",
+      format: "jsonl",
+      filter: { status: ["active"] },
+      fields: ["id", "email", "first_name", "last_name", "status", "timezone", "created_at", "updated_at", "metadata.plan"],
+      page_size: 1000,
+    });
+
+    await expect(
+      service.createJob({ file_name: "contacts.xlsx", fields: ["phone"], page_size: 0 })
+    ).rejects.toThrow(
+      "Export job validation failed: format must be one of csv, jsonl, unknown field phone, page_size must be between 1 and 10000"
+    );
+    expect(inserts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,339 @@
+const { afterEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import { deflateRawSync } from "zlib";
+import { supabase } from "../../src/config/supabase";
+import {
+  ContactImportService,
+  formatImportErrorReport,
+  mapImportRecord,
+  readImportRecords,
+  suggestColumnMapping,
+  validateColumnMapping,
+} from "../../src/services/contact-import.service";
+import { parseCsvStream } from "../../src/services/csv.service";
+import { readXlsxRows } from "../../src/services/xlsx.service";
+import { ContactImportJob, createTestUUID, CustomField } from "../../src/types/email-system";
+
+const JOB_ID = createTestUUID("job-1");
+
+const fields: CustomField[] = [
+  {
+    id: createTestUUID("field-seats"),
+    key: "seats",
+    label: "Seats",
+    type: "number",
+    required: true,
+    indexed: false,
+    created_at: "2025-08-16T00:00:00Z",
+    updated_at: "2025-08-16T00:00:00Z",
+  },
+];
+
+async function* chunked(...chunks: (string | Uint8Array)[]): AsyncGenerator<string | Uint8Array, void, undefined> {
+  yield* chunks;
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) {
+    result.push(item);
+  }
+  return result;
+}
+
+// Minimal zip writer; the reader does not check CRCs
+function createZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = deflateRawSync(Buffer.from(content));
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(content.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    directory.push(entry, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...directory, end]);
+}
+
+describe("Import file readers", () => {
+  it("should parse CSV split at any point across chunks", async () => {
+    const text = Buffer.from('email,notes\r\nzoë@example.com,"line\r\nbreak, ""quoted"""\r\n');
+    // Split inside the quoted field, between \r and \n, and inside "ë"
+    const chunks = [text.subarray(0, 14), text.subarray(14, 17), text.subarray(17, 32), text.subarray(32)];
+
+    expect(await collect(parseCsvStream(chunked(...chunks)))).toEqual([
+      ["email", "notes"],
+      ["zoë@example.com", 'line\r\nbreak, "quoted"'],
+    ]);
+    expect(await collect(parseCsvStream(chunked("a\tb\n1,2\t3\n"), "\t"))).toEqual([
+      ["a", "b"],
+      ["1,2", "3"],
+    ]);
+  });
+
+  it("should read the first worksheet of an xlsx workbook", () => {
+    const workbook = createZip({
+      "xl/workbook.xml": '<workbook><sheets><sheet name="Contacts" sheetId="2" r:id="rId7"/></sheets></workbook>',
+      "xl/_rels/workbook.xml.rels":
+        '<Relationships><Relationship Id="rId7" Target="worksheets/sheet2.xml"/></Relationships>',
+      "xl/sharedStrings.xml":
+        '<sst><si><t>email</t></si><si><t>joined</t></si><si><r><t>ada@</t></r><r><t>example.com</t></r></si></sst>',
+      "xl/styles.xml":
+        '<styleSheet><numFmts><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/></numFmts>' +
+        '<cellXfs><xf numFmtId="0"/><xf numFmtId="164"/></cellXfs></styleSheet>',
+      "xl/worksheets/sheet2.xml":
+        '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c>' +
+        '<c r="D1" t="inlineStr"><is><t>Tom &amp; Jerry</t></is></c></row>' +
+        '<row r="2"/><row r="3"><c r="A3" t="s"><v>2</v></c><c r="B3" s="1"><v>45658</v></c>' +
+        '<c r="C3" t="b"><v>1</v></c><c r="D3"><v>12</v></c></row></sheetData></worksheet>',
+    });
+
+    expect([...readXlsxRows(workbook)]).toEqual([
+      ["email", "joined", "", "Tom & Jerry"],
+      ["ada@example.com", "2025-01-01", "true", "12"],
+    ]);
+  });
+
+  it("should only inflate the parts it reads, up to the size limit", () => {
+    const sheet =
+      '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>email</t></is></c></row>' +
+      "</sheetData></worksheet>";
+    const workbook = createZip({
+      "xl/worksheets/sheet1.xml": sheet,
+      "xl/media/image1.png": "x".repeat(4096),
+    });
+
+    expect([...readXlsxRows(workbook, { maxPartBytes: sheet.length })]).toEqual([["email"]]);
+    expect(() => [...readXlsxRows(workbook, { maxPartBytes: sheet.length - 1 })]).toThrow(
+      `Workbook part xl/worksheets/sheet1.xml is larger than ${sheet.length - 1} bytes`
+    );
+  });
+
+  it("should number records and report unreadable rows", async () => {
+    const csv = "Email,Seats\nada@example.com,3\nbob@example.com,4,extra\n";
+    const jsonl = '{"email":"ada@example.com","seats":3}\n\nnot json\n["array"]';
+
+    expect(await collect(readImportRecords(csv, "csv"))).toEqual([
+      { row_number: 1, values: { Email: "ada@example.com", Seats: "3" } },
+      {
+        row_number: 2,
+        values: { Email: "bob@example.com", Seats: "4" },
+        error: "row has 3 columns; the header has 2",
+      },
+    ]);
+    expect(await collect(readImportRecords(chunked(jsonl.slice(0, 20), jsonl.slice(20)), "jsonl"))).toEqual([
+      { row_number: 1, values: { email: "ada@example.com", seats: 3 } },
+      { row_number: 2, values: { line: "not json" }, error: "line is not valid JSON" },
+      { row_number: 3, values: { line: '["array"]' }, error: "line is not a JSON object" },
+    ]);
+  });
+});
+
+describe("Import column mapping", () => {
+  it("should suggest targets for common names and custom fields", () => {
+    expect(
+      suggestColumnMapping(["E-mail", "First Name", "Seats", "Company", "Notes"], { Notes: "ignore" }, fields)
+    ).toEqual({
+      "E-mail": "email",
+      "First Name": "first_name",
+      Seats: "metadata.seats",
+      Company: "metadata.Company",
+      Notes: "ignore",
+    });
+    expect(validateColumnMapping({ Email: "email", Work: "email", Phone: "phone" })).toEqual([
+      "Work: email is already mapped from Email",
+      "Phone: unknown target phone",
+    ]);
+  });
+
+  it("should convert custom field values and reject invalid rows", () => {
+    const mapping = { Mail: "email", Plan: "metadata.plan" };
+
+    expect(
+      mapImportRecord({ Mail: "ada@example.com", Seats: "12", Plan: "pro", Status: "Subscribed" }, mapping, fields)
+    ).toEqual({
+      contact: { email: "ada@example.com", status: "active", metadata: { seats: 12, plan: "pro" } },
+      errors: [],
+    });
+    expect(mapImportRecord({ Mail: "not-an-email", Seats: "many", Status: "gone" }, mapping, fields)).toEqual({
+      errors: ["invalid email: not-an-email", "seats must be a number", "unknown status gone"],
+    });
+  });
+
+  it("should report rejected rows with their original columns", () => {
+    const report = formatImportErrorReport(
+      [
+        {
+          id: createTestUUID("error-1"),
+          job_id: JOB_ID,
+          row_number: 3,
+          email: "bob@example.com",
+          error: "seats must be a number",
+          record: { Email: "bob@example.com", Seats: "many, really" },
+          created_at: "2025-08-16T00:00:00Z",
+        },
+      ],
+      ["Email", "Seats"]
+    );
+
+    expect(report).toBe('row,error,Email,Seats\r\n3,seats must be a number,bob@example.com,"many, really"\r\n');
+  });
+});
+
+describe("ContactImportService.runJob", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const createJob = (overrides: Partial<ContactImportJob> = {}): ContactImportJob => ({
+    id: JOB_ID,
+    format: "csv",
+    mode: "upsert",
+    status: "paused",
+    column_mapping: {},
+    columns: ["email", "seats"],
+    chunk_size: 2,
+    rows_processed: 1,
+    created_count: 1,
+    updated_count: 0,
+    skipped_count: 0,
+    error_count: 0,
+    created_at: "2025-08-16T00:00:00Z",
+    updated_at: "2025-08-16T00:00:00Z",
+    ...overrides,
+  });
+
+  const mockDatabase = (job: ContactImportJob) => {
+    let current = job;
+    const jobUpdates: Record<string, unknown>[] = [];
+
+    vi.spyOn(supabase, "from").mockImplementation(((table: string) => {
+      const query: any = {};
+      for (const method of ["select", "eq", "in", "order"]) {
+        query[method] = vi.fn(() => query);
+      }
+      query.update = vi.fn((updates: Record<string, unknown>) => {
+        jobUpdates.push(updates);
+        current = { ...current, ...updates } as ContactImportJob;
+        return query;
+      });
+      query.single = vi.fn(async () => ({ data: current, error: null }));
+      query.then = (resolve: (value: unknown) => void) => resolve({ data: fields, error: null });
+      return query;
+    }) as any);
+
+    const rpc = vi.spyOn(supabase, "rpc").mockImplementation((async (name: string, params: any) => {
+      if (name === "find_existing_contact_emails") {
+        return { data: ["bob@example.com"], error: null };
+      }
+      if (name === "import_contact_rows") {
+        current = { ...current, rows_processed: params.p_first_row + params.p_row_count };
+      } else {
+        current = { ...current, status: "completed" };
+      }
+      return { data: current, error: null };
+    }) as any);
+
+    return { rpc, jobUpdates };
+  };
+
+  it("should resume after the imported rows and write the rest in chunks", async () => {
+    const { rpc } = mockDatabase(createJob());
+    const csv = [
+      "email,seats",
+      "ada@example.com,3",
+      "bob@example.com,",
+      "cy@example.com,",
+      "dee@example.com,five",
+    ].join("\n");
+
+    const job = await new ContactImportService().runJob(JOB_ID, chunked(csv));
+
+    expect(job.status).toBe("completed");
+    expect(rpc.mock.calls.map(([name]: [string]) => name)).toEqual([
+      "find_existing_contact_emails",
+      "import_contact_rows",
+      "import_contact_rows",
+      "complete_contact_import",
+    ]);
+    expect(rpc).toHaveBeenNthCalledWith(1, "find_existing_contact_emails", {
+      p_emails: ["bob@example.com", "cy@example.com"],
+    });
+    // Bob exists, so the upsert may leave the required field unset
+    expect(rpc).toHaveBeenNthCalledWith(2, "import_contact_rows", {
+      p_job_id: JOB_ID,
+      p_first_row: 1,
+      p_row_count: 2,
+      p_rows: [
+        {
+          row_number: 2,
+          email: "bob@example.com",
+          metadata: {},
+          record: { email: "bob@example.com", seats: "" },
+        },
+      ],
+      p_errors: [
+        {
+          row_number: 3,
+          email: "cy@example.com",
+          error: "seats is required",
+          record: { email: "cy@example.com", seats: "" },
+        },
+      ],
+    });
+    expect(rpc).toHaveBeenNthCalledWith(3, "import_contact_rows", {
+      p_job_id: JOB_ID,
+      p_first_row: 3,
+      p_row_count: 1,
+      p_rows: [],
+      p_errors: [
+        {
+          row_number: 4,
+          email: "dee@example.com",
+          error: "seats must be a number",
+          record: { email: "dee@example.com", seats: "five" },
+        },
+      ],
+    });
+    expect(rpc).toHaveBeenLastCalledWith("complete_contact_import", { p_job_id: JOB_ID });
+  });
+
+  it("should refuse a different file and leave the job failed", async () => {
+    const { rpc, jobUpdates } = mockDatabase(createJob());
+
+    await expect(
+      new ContactImportService().runJob(JOB_ID, "address,seats\nada@example.com,3\n")
+    ).rejects.toThrow("The file's columns (address, seats) differ from the job's (email, seats)");
+    expect(rpc).not.toHaveBeenCalled();
+    expect(jobUpdates[jobUpdates.length - 1]).toEqual({
+      status: "failed",
+      error: expect.stringContaining("resume with the same file"),
+    });
+  });
+});
@@ -0,0 +1,198 @@
+const { afterEach, beforeEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import { createTemplateContext } from "../../src/config/template-engine.config";
+import {
+  checkCssCompatibility,
+  CssInliningPostprocessor,
+} from "../../src/services/css-inliner.service";
+import { HandlebarsTemplateEngine } from "../../src/services/template-engine.service";
+import { SupabaseTemplateStorage } from "../../src/services/template-storage.service";
+import { TrackingUrlService } from "../../src/services/tracking-url.service";
+import { createTestUUID, EmailTemplate } from "../../src/types/email-system";
+import { RenderResult, TemplateContext } from "../../src/types/template-engine";
+
+const STYLED_HTML = `<html><head><style>
+p { color: #333333; }
+.cta { display: flex; border-radius: 4px; }
+@media (max-width: 600px) { p { font-size: 14px; } }
+</style></head><body><p>Hello</p><a class="cta" href="#">Go</a></body></html>`;
+
+describe("CSS inlining", () => {
+  let context: TemplateContext;
+
+  const createRenderResult = (html: string): RenderResult => ({
+    subject: "Subject",
+    html,
+    text: "",
+    tracking: {
+      pixel_url: "",
+      unsubscribe_url: "",
+      click_tracking_enabled: false,
+    },
+    metadata: {
+      template_id: "template-1",
+      contact_id: "contact-123",
+      rendered_at: new Date(),
+      variables_used: [],
+    },
+  });
+
+  beforeEach(() => {
+    context = createTemplateContext({
+      id: "contact-123",
+      email: "john@example.com",
+      first_name: "John",
+    });
+  });
+
+  describe("CssInliningPostprocessor", () => {
+    it("should inline style rules and keep media queries", async () => {
+      const result = await new CssInliningPostprocessor().process(
+        createRenderResult(STYLED_HTML),
+        context
+      );
+
+      expect(result.html).toContain('<p style="color: #333333;">Hello</p>');
+      expect(result.html).toContain("@media (max-width: 600px)");
+      expect(result.html).not.toMatch(/<style>[^@]*p \{\s*color/);
+    });
+
+    it("should drop media queries when not preserved", async () => {
+      const result = await new CssInliningPostprocessor({
+        preserveMediaQueries: false,
+      }).process(createRenderResult(STYLED_HTML), context);
+
+      expect(result.html).not.toContain("@media");
+    });
+
+    it("should attach compatibility warnings for the configured clients", async () => {
+      const result = await new CssInliningPostprocessor({
+        clientFamilies: ["gmail", "apple_mail"],
+      }).process(createRenderResult(STYLED_HTML), context);
+
+      // display:flex and border-radius only break Outlook
+      expect(result.warnings).toEqual([]);
+    });
+  });
+
+  describe("checkCssCompatibility", () => {
+    it("should report unsupported properties per client family", () => {
+      const warnings = checkCssCompatibility(
+        '<div style="display: grid">\n<div style="background-image: url(a.png); color: red">x</div></div>'
+      );
+
+      expect(warnings).toEqual([
+        {
+          type: "performance",
+          message: 'CSS "display: grid" is not supported in gmail, outlook, yahoo',
+          line: 1,
+          context: "display",
+        },
+        {
+          type: "accessibility",
+          message: 'CSS "background-image: url(a.png)" is not supported in outlook',
+          line: 2,
+          context: "background-image",
+        },
+      ]);
+    });
+
+    it("should ignore selectors and supported declarations", () => {
+      expect(
+        checkCssCompatibility(
+          "<style>a:hover { color: red; } p { display: block; }</style>"
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe("HandlebarsTemplateEngine", () => {
+    let storage: SupabaseTemplateStorage;
+
+    const createEngine = (inlineCss: boolean) =>
+      new HandlebarsTemplateEngine(
+        storage,
+        new TrackingUrlService("https://track.example.com", {
+          pixel_enabled: false,
+          click_tracking_enabled: false,
+          open_tracking_enabled: false,
+        }),
+        {
+          tracking: {
+            enableClickTracking: false,
+            enableOpenTracking: false,
+            trackingDomain: "track.example.com",
+            pixelPath: "/pixel.gif",
+            unsubscribePath: "/unsubscribe",
+            clickPath: "/click",
+          },
+          // DOMPurify has no DOM under jest; keep markup so structure can be asserted
+          security: {
+            maxTemplateSize: 500000,
+            maxVariables: 100,
+            allowScriptTags: false,
+            allowStyleTags: true,
+            sanitizeHtml: false,
+          },
+          postprocessing: {
+            inlineCss,
+            preserveMediaQueries: true,
+            clientFamilies: ["outlook"],
+          },
+        }
+      );
+
+    const template: EmailTemplate = {
+      id: createTestUUID("styled-template"),
+      name: "Styled",
+      subject: "Hello",
+      html_content: STYLED_HTML,
+      variables: {},
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+
+    beforeEach(() => {
+      storage = new SupabaseTemplateStorage();
+      vi.spyOn(storage, "getTemplate").mockResolvedValue(template);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should inline CSS after rendering", async () => {
+      const result = await createEngine(true).renderTemplate(
+        "styled-template",
+        context
+      );
+
+      expect(result.html).toContain('style="color: #333333;"');
+      expect(result.warnings?.map((w) => w.context)).toEqual([
+        "display",
+        "border-radius",
+      ]);
+    });
+
+    it("should skip inlining when disabled", async () => {
+      const result = await createEngine(false).renderTemplate(
+        "styled-template",
+        context
+      );
+
+      expect(result.html).toContain("<style>\np { color: #333333; }");
+      expect(result.html).toContain("<p>Hello</p>");
+      expect(result.warnings).toBeUndefined();
+    });
+
+    it("should report compatibility warnings during validation", async () => {
+      const validation = await createEngine(true).validateTemplate(template);
+
+      expect(validation.valid).toBe(true);
+      expect(validation.warnings).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ type: "performance", context: "display", line: 3 }),
+        ])
+      );
+    });
+  });
+});
@@ -0,0 +1,167 @@
+const { afterEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import { supabase } from "../../src/config/supabase";
+import {
+  applyCustomFieldDefaults,
+  customFieldTemplateVariable,
+  parseCustomFieldValue,
+  validateCustomFieldDefinition,
+  validateCustomFieldValues,
+} from "../../src/services/custom-field.service";
+import { EmailCampaignService } from "../../src/services/email-campaign.service";
+import { validateSegmentRule } from "../../src/services/segment-rules.service";
+import { matchesTemplateVariableType } from "../../src/services/template-engine.service";
+import { createTestUUID, CustomField, SegmentRule } from "../../src/types/email-system";
+
+const field = (overrides: Partial<CustomField> & Pick<CustomField, "key" | "type">): CustomField => ({
+  id: createTestUUID(`field-${overrides.key}`),
+  label: overrides.key,
+  required: false,
+  indexed: false,
+  created_at: "2025-08-15T00:00:00Z",
+  updated_at: "2025-08-15T00:00:00Z",
+  ...overrides,
+});
+
+const fields: CustomField[] = [
+  field({ key: "seats", type: "number", required: true }),
+  field({ key: "plan", type: "enum", options: ["free", "pro"], default_value: "free" }),
+  field({ key: "interests", type: "multi_select", options: ["news", "events"] }),
+  field({ key: "beta", type: "boolean" }),
+  field({ key: "renewal", type: "date" }),
+];
+
+describe("Custom field definitions", () => {
+  it("should report every problem with a definition", () => {
+    expect(
+      validateCustomFieldDefinition({
+        key: "Plan Tier",
+        label: " ",
+        type: "enum",
+        options: ["free", "free"],
+        default_value: "gold",
+      })
+    ).toEqual([
+      "key must start with a lowercase letter and have at most 40 lowercase letters, digits and underscores",
+      "label is required",
+      "options must be unique",
+      "default_value: must be one of free, free",
+    ]);
+    expect(
+      validateCustomFieldDefinition({ key: "seats", label: "Seats", type: "number", options: ["1"] })
+    ).toEqual(["number fields cannot have options"]);
+  });
+
+  it("should parse CSV text by field type", () => {
+    const [seats, plan, interests, beta, renewal] = fields;
+
+    expect(parseCustomFieldValue(seats, " 12 ")).toEqual({ value: 12 });
+    expect(parseCustomFieldValue(seats, "twelve")).toEqual({ error: "seats must be a number" });
+    expect(parseCustomFieldValue(plan, "PRO")).toEqual({ value: "pro" });
+    expect(parseCustomFieldValue(interests, "Events; news")).toEqual({ value: ["events", "news"] });
+    expect(parseCustomFieldValue(beta, "yes")).toEqual({ value: true });
+    expect(parseCustomFieldValue(renewal, "2025-09-01T10:00:00Z")).toEqual({ value: "2025-09-01" });
+    expect(parseCustomFieldValue(renewal, "2025-02-30")).toEqual({
+      error: "renewal must be a date (YYYY-MM-DD)",
+    });
+    expect(parseCustomFieldValue(beta, "")).toEqual({});
+  });
+
+  it("should apply defaults and check required fields and types", () => {
+    const metadata = applyCustomFieldDefaults(fields, { interests: ["news", "news"], source: "api" });
+
+    expect(metadata).toEqual({ plan: "free", interests: ["news", "news"], source: "api" });
+    expect(validateCustomFieldValues(fields, metadata)).toEqual([
+      "seats is required",
+      "interests must be a list of distinct values from news, events",
+    ]);
+  });
+});
+
+describe("Custom fields on contacts", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const mockTables = () => {
+    const fieldsQuery: any = {};
+    fieldsQuery.select = vi.fn(() => fieldsQuery);
+    fieldsQuery.order = vi.fn(async () => ({ data: fields, error: null }));
+
+    const contactsQuery: any = {};
+    for (const method of ["insert", "select"]) {
+      contactsQuery[method] = vi.fn(() => contactsQuery);
+    }
+    contactsQuery.single = vi.fn(async () => ({ data: { id: "contact-1" }, error: null }));
+
+    vi.spyOn(supabase, "from").mockImplementation(((table: string) =>
+      table === "custom_fields" ? fieldsQuery : contactsQuery) as any);
+    return contactsQuery;
+  };
+
+  it("should store defaults with a new contact", async () => {
+    const contacts = mockTables();
+
+    await new EmailCampaignService().createContact({
+      email: "ada@example.com",
+      metadata: { seats: 5 },
+    });
+
+    expect(contacts.insert).toHaveBeenCalledWith({
+      email: "ada@example.com",
+      metadata: { seats: 5, plan: "free" },
+    });
+  });
+
+  it("should reject invalid values without saving the contact", async () => {
+    const contacts = mockTables();
+
+    await expect(
+      new EmailCampaignService().createContact({
+        email: "ada@example.com",
+        metadata: { seats: "5", plan: "enterprise" },
+      })
+    ).rejects.toThrow(
+      "Contact validation failed: seats must be a number, plan must be one of free, pro"
+    );
+    expect(contacts.insert).not.toHaveBeenCalled();
+  });
+});
+
+describe("Custom fields in segments and templates", () => {
+  it("should check custom field conditions against the definitions", () => {
+    const rule: SegmentRule = {
+      type: "and",
+      rules: [
+        { type: "custom_field", field: "seats", operator: "greater_or_equal", value: 10 },
+        { type: "custom_field", field: "interests", operator: "contains", value: "events" },
+        { type: "custom_field", field: "plan", operator: "contains", value: "pro" },
+        { type: "custom_field", field: "renewal", operator: "less_than", value: "next month" },
+        { type: "custom_field", field: "plan", operator: "in", value: ["free", "gold"] },
+        { type: "custom_field", field: "region", operator: "exists" },
+      ],
+    };
+
+    expect(validateSegmentRule(rule, fields)).toEqual([
+      "rule.rules.2: operator contains is not supported for enum fields",
+      "rule.rules.3: value must be a date (YYYY-MM-DD)",
+      "rule.rules.4: value must be one of free, pro",
+      "rule.rules.5: unknown custom field region",
+    ]);
+  });
+
+  it("should type template variables by field definition", () => {
+    const [seats, plan, interests] = fields;
+
+    expect(customFieldTemplateVariable(interests)).toEqual({
+      name: "contact.metadata.interests",
+      type: "array",
+      required: false,
+      description: "interests",
+      validation: { options: ["news", "events"] },
+    });
+    expect(matchesTemplateVariableType(customFieldTemplateVariable(seats), "12")).toBe(false);
+    expect(matchesTemplateVariableType(customFieldTemplateVariable(plan), "pro")).toBe(true);
+    expect(matchesTemplateVariableType(customFieldTemplateVariable(plan), "gold")).toBe(false);
+    expect(matchesTemplateVariableType(customFieldTemplateVariable(interests), ["events"])).toBe(true);
+  });
+});
@@ -0,0 +1,325 @@
+const { afterEach, beforeAll, describe, expect, it } = require('@jest/globals');
+import { createHash, createPrivateKey, generateKeyPairSync, sign } from "crypto";
+import nodemailer from "nodemailer";
+import { SmtpProvider } from "../../src/providers/smtp.provider";
+import {
+  DkimKeyResolver,
+  DkimSigner,
+  verifyDkimSignature,
+} from "../../src/services/dkim.service";
+import { MimeBuilder } from "../../src/services/mime-builder.service";
+import { EmailMessage } from "../../src/types/email-provider";
+import { nodemailerDkimOptions, parseDkimKeys } from "../../supabase/functions/_shared/dkim-keys";
+import { SmtpSink } from "../utils/smtp-sink";
+
+// RFC 8463 appendix A
+const rfc8463KeyRecord = "v=DKIM1; k=ed25519; p=11qYAYKxCrfVS/7TyWQHOg7hcvPapiMlrwIaaPcHURo=";
+const rfc8463Message = [
+  "DKIM-Signature: v=1; a=ed25519-sha256; c=relaxed/relaxed;",
+  " d=football.example.com; i=@football.example.com;",
+  " q=dns/txt; s=brisbane; t=1528637909; h=from : to :",
+  " subject : date : message-id : from : subject : date;",
+  " bh=2jUSOH9NhtVGCQWNr9BrIAPreKQjO6Sn7XIkfJVOzv8=;",
+  " b=/gCrinpcQOoIfuHNQIbq4pgh9kyIK3AQUdt9OdqQehSwhEIug4D11Bus",
+  " Fa3bT3FY5OsU7ZbnKELq+eXdp1Q1Dw==",
+  "From: Joe SixPack <joe@football.example.com>",
+  "To: Suzie Q <suzie@shopping.example.net>",
+  "Subject: Is dinner ready?",
+  "Date: Fri, 11 Jul 2003 21:00:37 -0700 (PDT)",
+  "Message-ID: <20030712040037.46341.5F8J@football.example.com>",
+  "",
+  "Hi.",
+  "",
+  "We lost the game.  Are you hungry yet?",
+  "",
+  "Joe.",
+  "",
+].join("\r\n");
+
+describe("DKIM", () => {
+  let rsaKey: string;
+  let ed25519Key: string;
+
+  const message: EmailMessage = {
+    from: { email: "funding@momentumbusiness.capital", name: "Momentum" },
+    to: [{ email: "john@example.com" }],
+    subject: "Signed message",
+    text: "Hello John,\nThis message is signed.  \n\n\n",
+    html: "<p>Hello John</p>",
+  };
+
+  const buildRaw = (overrides: Partial<EmailMessage> = {}) =>
+    new MimeBuilder({
+      date: new Date("2025-07-01T12:00:00Z"),
+      messageId: "dkim-test@momentumbusiness.capital",
+      generateBoundary: (index) => `boundary-${index}`,
+    }).build({ ...message, ...overrides }).raw;
+
+  const resolverFor = (signer: DkimSigner, domain: string): DkimKeyResolver =>
+    async () => signer.getDnsRecord(domain)?.value || null;
+
+  beforeAll(() => {
+    rsaKey = generateKeyPairSync("rsa", { modulusLength: 2048 })
+      .privateKey.export({ format: "pem", type: "pkcs8" })
+      .toString();
+    ed25519Key = generateKeyPairSync("ed25519")
+      .privateKey.export({ format: "pem", type: "pkcs8" })
+      .toString();
+  });
+
+  describe("signing and verification", () => {
+    it("should sign and verify with rsa-sha256", async () => {
+      const signer = new DkimSigner({
+        keys: [{ domain: "momentumbusiness.capital", selector: "mbc2025", privateKey: rsaKey }],
+      });
+
+      const signed = signer.sign(buildRaw());
+      const result = await verifyDkimSignature(signed, resolverFor(signer, "momentumbusiness.capital"));
+
+      expect(signed).toMatch(/^DKIM-Signature: v=1;\r\n a=rsa-sha256;/);
+      expect(signed).toContain("c=relaxed/relaxed");
+      expect(signed).toContain("s=mbc2025");
+      expect(result).toEqual({
+        status: "pass",
+        domain: "momentumbusiness.capital",
+        selector: "mbc2025",
+        algorithm: "rsa-sha256",
+      });
+    });
+
+    it("should sign and verify with ed25519-sha256", async () => {
+      const signer = new DkimSigner({
+        keys: [{ domain: "momentumbusiness.capital", selector: "ed2025", privateKey: ed25519Key }],
+      });
+
+      const signed = signer.sign(buildRaw());
+      const result = await verifyDkimSignature(signed, resolverFor(signer, "momentumbusiness.capital"));
+
+      expect(signed).toContain("a=ed25519-sha256");
+      expect(signer.getDnsRecord("momentumbusiness.capital")?.value).toMatch(/^v=DKIM1; k=ed25519; p=/);
+      expect(result.status).toBe("pass");
+    });
+
+    it("should fail verification when the body is modified", async () => {
+      const signer = new DkimSigner({
+        keys: [{ domain: "momentumbusiness.capital", selector: "mbc2025", privateKey: ed25519Key }],
+      });
+
+      const signed = signer.sign(buildRaw()).replace("This message is signed.", "This message was altered.");
+      const result = await verifyDkimSignature(signed, resolverFor(signer, "momentumbusiness.capital"));
+
+      expect(result.status).toBe("fail");
+      expect(result.reason).toBe("Body hash mismatch");
+    });
+
+    it("should fail verification when a signed header is modified", async () => {
+      const signer = new DkimSigner({
+        keys: [{ domain: "momentumbusiness.capital", selector: "mbc2025", privateKey: ed25519Key }],
+      });
+
+      const signed = signer.sign(buildRaw()).replace("Subject: Signed message", "Subject: Changed");
+      const result = await verifyDkimSignature(signed, resolverFor(signer, "momentumbusiness.capital"));
+
+      expect(result.status).toBe("fail");
+      expect(result.reason).toBe("Signature mismatch");
+    });
+
+    it("should survive whitespace changes under relaxed canonicalization", async () => {
+      const signer = new DkimSigner({
+        keys: [{ domain: "momentumbusiness.capital", selector: "mbc2025", privateKey: ed25519Key }],
+      });
+
+      const signed = signer
+        .sign(buildRaw())
+        .replace("Subject: Signed message", "Subject:   Signed\r\n\t message  ")
+        .replace("This message is signed.", "This message   is signed.");
+      const result = await verifyDkimSignature(signed, resolverFor(signer, "momentumbusiness.capital"));
+
+      expect(result.status).toBe("pass");
+    });
+
+    it("should report a missing key record", async () => {
+      const signer = new DkimSigner({
+        keys: [{ domain: "momentumbusiness.capital", selector: "mbc2025", privateKey: ed25519Key }],
+      });
+
+      const result = await verifyDkimSignature(signer.sign(buildRaw()), async () => null);
+
+      expect(result.status).toBe("fail");
+      expect(result.reason).toBe("No DKIM key record found");
+    });
+
+    it("should verify the RFC 8463 ed25519 example", async () => {
+      const result = await verifyDkimSignature(rfc8463Message, async () => rfc8463KeyRecord);
+
+      expect(result).toEqual({
+        status: "pass",
+        domain: "football.example.com",
+        selector: "brisbane",
+        algorithm: "ed25519-sha256",
+      });
+    });
+
+    it("should only empty the b= tag when another tag value contains b=", async () => {
+      // Signed by hand with the RFC 8463 key; i= carries "b=3D" before b=
+      const body = "Hi.\r\n";
+      const bodyHash = createHash("sha256").update(body).digest("base64");
+      const header =
+        "DKIM-Signature: v=1; a=ed25519-sha256; c=relaxed/relaxed; d=football.example.com;" +
+        ` s=brisbane; h=from; i=news/b=3D1@football.example.com; bh=${bodyHash}; b=`;
+      const key = createPrivateKey({
+        key: Buffer.concat([
+          Buffer.from("302e020100300506032b657004220420", "hex"),
+          Buffer.from("nWGxne/9WmC6hEr0kuwsxERJxWl7MmkZcDusAxyuf2A=", "base64"),
+        ]),
+        format: "der",
+        type: "pkcs8",
+      });
+      const signingInput =
+        "from:Joe <joe@football.example.com>\r\n" +
+        header.replace("DKIM-Signature: ", "dkim-signature:");
+      const signature = sign(null, createHash("sha256").update(signingInput).digest(), key).toString("base64");
+      const signed = `${header}${signature}\r\nFrom: Joe <joe@football.example.com>\r\n\r\n${body}`;
+
+      const result = await verifyDkimSignature(signed, async () => rfc8463KeyRecord);
+
+      expect(result.status).toBe("pass");
+    });
+
+    it("should report unsigned messages", async () => {
+      const result = await verifyDkimSignature(buildRaw(), async () => null);
+
+      expect(result.status).toBe("none");
+    });
+  });
+
+  describe("domain selection", () => {
+    it("should pick the key matching the From domain", () => {
+      const signer = new DkimSigner({
+        keys: [
+          { domain: "momentumbusiness.capital", selector: "mbc", privateKey: ed25519Key },
+          { domain: "other.example", selector: "other", privateKey: ed25519Key },
+        ],
+      });
+
+      const signed = signer.sign(
+        buildRaw({ from: { email: "news@other.example" } })
+      );
+
+      expect(signed).toContain("d=other.example");
+      expect(signed).toContain("s=other");
+    });
+
+    it("should fall back to the parent domain key for subdomains", () => {
+      const signer = new DkimSigner({
+        keys: [{ domain: "momentumbusiness.capital", selector: "mbc", privateKey: ed25519Key }],
+      });
+
+      expect(signer.canSign("news.momentumbusiness.capital")).toBe(true);
+      expect(signer.canSign("notmomentumbusiness.capital")).toBe(false);
+    });
+
+    it("should leave messages from unknown domains unsigned", () => {
+      const signer = new DkimSigner({
+        keys: [{ domain: "momentumbusiness.capital", selector: "mbc", privateKey: ed25519Key }],
+      });
+      const raw = buildRaw({ from: { email: "someone@unrelated.example" } });
+
+      expect(signer.sign(raw)).toBe(raw);
+    });
+
+    it("should reject keys that do not match the configured algorithm", () => {
+      expect(
+        () =>
+          new DkimSigner({
+            keys: [
+              {
+                domain: "momentumbusiness.capital",
+                selector: "mbc",
+                privateKey: ed25519Key,
+                algorithm: "rsa-sha256",
+              },
+            ],
+          })
+      ).toThrow("cannot be used for rsa-sha256");
+    });
+  });
+
+  describe("SMTP send path", () => {
+    let sink: SmtpSink;
+    let provider: SmtpProvider;
+
+    afterEach(async () => {
+      provider.close();
+      await sink.stop();
+    });
+
+    it("should deliver DKIM-signed messages that verify", async () => {
+      sink = new SmtpSink();
+      const port = await sink.start();
+      const dkim = {
+        keys: [{ domain: "momentumbusiness.capital", selector: "mbc2025", privateKey: rsaKey }],
+      };
+      provider = new SmtpProvider({
+        host: "127.0.0.1",
+        port,
+        secure: false,
+        ignoreTLS: true,
+        pool: false,
+        dkim,
+      });
+
+      await provider.sendEmail(message);
+      const received = sink.messages[0].data;
+      const result = await verifyDkimSignature(
+        received,
+        resolverFor(new DkimSigner(dkim), "momentumbusiness.capital")
+      );
+
+      expect(received).toMatch(/^DKIM-Signature:/);
+      expect(result.status).toBe("pass");
+    });
+  });
+
+  describe("email processor SMTP sends", () => {
+    it("should sign with the key for the From domain from the environment", async () => {
+      const env: Record<string, string> = {
+        DKIM_DOMAINS: "momentumbusiness.capital",
+        DKIM_MOMENTUMBUSINESS_CAPITAL_SELECTOR: "mbc2025",
+        DKIM_MOMENTUMBUSINESS_CAPITAL_PRIVATE_KEY: Buffer.from(rsaKey).toString("base64"),
+      };
+      const keys = parseDkimKeys((name) => env[name]);
+      const sink = new SmtpSink();
+      const port = await sink.start();
+      const transport = nodemailer.createTransport({ host: "127.0.0.1", port, secure: false, ignoreTLS: true });
+
+      try {
+        // As sendViaSmtp in the email-processor edge function sends
+        await transport.sendMail({
+          from: { address: "funding@momentumbusiness.capital", name: "Momentum" },
+          to: "john@example.com",
+          subject: "Signed message",
+          html: "<p>Hello John</p>",
+          text: "Hello John",
+          dkim: nodemailerDkimOptions(keys, "funding@momentumbusiness.capital"),
+        });
+      } finally {
+        transport.close();
+        await sink.stop();
+      }
+
+      const received = sink.messages[0].data;
+      const signer = new DkimSigner({
+        keys: [{ domain: "momentumbusiness.capital", selector: "mbc2025", privateKey: rsaKey }],
+      });
+      const result = await verifyDkimSignature(received, resolverFor(signer, "momentumbusiness.capital"));
+
+      expect(received).toMatch(/^DKIM-Signature:/);
+      expect(result.status).toBe("pass");
+      expect(nodemailerDkimOptions(keys, "news@mail.momentumbusiness.capital")?.domainName).toBe(
+        "momentumbusiness.capital"
+      );
+      expect(nodemailerDkimOptions(keys, "ada@example.com")).toBeUndefined();
+    });
+  });
+});
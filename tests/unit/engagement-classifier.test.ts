@@ -0,0 +1,125 @@
+const { describe, expect, it, jest: vi } = require('@jest/globals');
+import { EngagementClassifier } from "../../src/services/engagement-classifier.service";
+import { TestHelpers } from "../utils/test-helpers";
+
+const HUMAN_UA =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36";
+
+describe("EngagementClassifier", () => {
+  const classifier = new EngagementClassifier({} as any);
+  const deliveredAt = new Date("2025-08-01T10:00:00Z");
+  const at = (seconds: number) => new Date(deliveredAt.getTime() + seconds * 1000);
+
+  describe("opens", () => {
+    it("should tag Apple Mail Privacy Protection prefetches", () => {
+      expect(
+        classifier.classify({ event: "open", userAgent: "Mozilla/5.0", timestamp: at(60) })
+      ).toEqual({ isMachine: true, reason: "apple_mpp", reclassifyIds: [] });
+      expect(
+        classifier.classify({
+          event: "open",
+          userAgent: HUMAN_UA,
+          ipAddress: "17.58.100.12",
+          timestamp: at(60),
+        }).reason
+      ).toBe("apple_mpp");
+    });
+
+    it("should count image proxy opens as human", () => {
+      expect(
+        classifier.classify({
+          event: "open",
+          userAgent: "Mozilla/5.0 (Windows NT 5.1; rv:11.0) Gecko Firefox/11.0 (via ggpht.com GoogleImageProxy)",
+          ipAddress: "66.249.84.1",
+          timestamp: at(60),
+        }).isMachine
+      ).toBe(false);
+    });
+  });
+
+  describe("clicks", () => {
+    it("should tag scanner user agents and requests without one", () => {
+      expect(
+        classifier.classify({
+          event: "click",
+          userAgent: "Mozilla/5.0 (compatible; Barracuda Sentinel)",
+          timestamp: at(600),
+        }).reason
+      ).toBe("bot_user_agent");
+      expect(classifier.classify({ event: "click", timestamp: at(600) }).reason).toBe(
+        "missing_user_agent"
+      );
+    });
+
+    it("should tag clicks within seconds of delivery", () => {
+      const event = { event: "click", userAgent: HUMAN_UA, url: "https://a.example", timestamp: at(3) };
+
+      expect(classifier.classify(event, { deliveredAt }).reason).toBe("instant_click");
+      expect(classifier.classify({ ...event, timestamp: at(120) }, { deliveredAt }).isMachine).toBe(false);
+    });
+
+    it("should tag every click of a burst across many links", () => {
+      const clicks = [
+        { id: "click-1", url: "https://a.example", timestamp: at(600) },
+        { id: "click-2", url: "https://b.example", timestamp: at(601) },
+        { id: "click-old", url: "https://c.example", timestamp: at(300) },
+      ];
+
+      expect(
+        classifier.classify(
+          { event: "click", userAgent: HUMAN_UA, url: "https://c.example", timestamp: at(602) },
+          { deliveredAt, clicks }
+        )
+      ).toEqual({
+        isMachine: true,
+        reason: "link_scanner_burst",
+        reclassifyIds: ["click-1", "click-2"],
+      });
+    });
+
+    it("should treat repeated clicks on one link as human", () => {
+      const clicks = [
+        { id: "click-1", url: "https://a.example", timestamp: at(600) },
+        { id: "click-2", url: "https://a.example", timestamp: at(601) },
+      ];
+
+      expect(
+        classifier.classify(
+          { event: "click", userAgent: HUMAN_UA, url: "https://a.example", timestamp: at(602) },
+          { deliveredAt, clicks }
+        ).isMachine
+      ).toBe(false);
+    });
+  });
+
+  it("should never tag unsubscribes", () => {
+    expect(classifier.classify({ event: "unsubscribe", timestamp: at(1) }).isMachine).toBe(false);
+  });
+
+  it("should load recent clicks and reclassify the burst", async () => {
+    const recent = TestHelpers.createQuery({
+      data: [
+        { id: "click-1", url: "https://a.example", event_timestamp: at(600).toISOString(), is_machine: false },
+        { id: "click-2", url: "https://b.example", event_timestamp: at(601).toISOString(), is_machine: true },
+      ],
+      error: null,
+    });
+    const update = TestHelpers.createQuery({ data: null, error: null });
+    const client = { from: vi.fn().mockReturnValueOnce(recent).mockReturnValueOnce(update) };
+    const withClient = new EngagementClassifier(client as any);
+
+    const classification = await withClient.classifyForEmailLog(
+      { id: "log-1", delivered_at: deliveredAt.toISOString() },
+      { event: "click", userAgent: HUMAN_UA, url: "https://c.example", timestamp: at(602) }
+    );
+    await withClient.markMachineClicks(classification.reclassifyIds);
+
+    expect(recent.gte).toHaveBeenCalledWith("event_timestamp", at(597).toISOString());
+    expect(classification.reclassifyIds).toEqual(["click-1"]);
+    expect(update.update).toHaveBeenCalledWith({
+      is_machine: true,
+      machine_reason: "link_scanner_burst",
+    });
+    expect(update.in).toHaveBeenCalledWith("id", ["click-1"]);
+  });
+});
@@ -0,0 +1,194 @@
+const { afterEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import { supabase } from "../../src/config/supabase";
+import {
+  LinkAnalyticsService,
+  renderClickOverlay,
+} from "../../src/services/link-analytics.service";
+import { HandlebarsTemplateEngine } from "../../src/services/template-engine.service";
+import { SupabaseTemplateStorage } from "../../src/services/template-storage.service";
+import {
+  computeLinkId,
+  rewriteTrackableLinks,
+  TrackingUrlService,
+} from "../../src/services/tracking-url.service";
+import { CampaignLinkStats, createTestUUID, EmailTemplate } from "../../src/types/email-system";
+import { TestHelpers } from "../utils/test-helpers";
+
+const trackingUrls = new TrackingUrlService("https://track.example.com", {
+  pixel_enabled: false,
+  click_tracking_enabled: true,
+  open_tracking_enabled: false,
+  signing_keys: [{ id: "2025-08", secret: "tracking-secret" }],
+});
+
+const html = `<html><body>
+<a href="https://shop.example.com/sale?utm_source=email" data-link-name="Hero CTA">Shop</a>
+<a href="#top">Top</a>
+<a href="https://blog.example.com/post?id={{contact.id}}">Read</a>
+<a href="mailto:help@example.com">Help</a>
+</body></html>`;
+
+const template: EmailTemplate = {
+  id: createTestUUID("sale-template"),
+  name: "Sale",
+  subject: "Sale",
+  html_content: html,
+  variables: {},
+  created_at: "2025-08-01T00:00:00Z",
+  updated_at: "2025-08-01T00:00:00Z",
+};
+
+const stats = (linkId: string, clicks: number): CampaignLinkStats => ({
+  link_id: linkId,
+  url: "https://example.com",
+  total_clicks: clicks,
+  unique_clicks: clicks,
+  human_clicks: clicks,
+  human_unique_clicks: clicks,
+});
+
+const createEngine = (tracking: TrackingUrlService, storage = new SupabaseTemplateStorage()) =>
+  new HandlebarsTemplateEngine(storage, tracking, {
+    // DOMPurify has no DOM under jest; keep markup so it can be asserted
+    security: {
+      maxTemplateSize: 500000,
+      maxVariables: 100,
+      allowScriptTags: false,
+      allowStyleTags: true,
+      sanitizeHtml: false,
+    },
+  });
+
+describe("link ids", () => {
+  it("should prefer data-link-name and ignore query strings otherwise", () => {
+    expect(computeLinkId(1, "https://a.example/x?u=1", "Hero CTA!")).toBe("hero-cta");
+    expect(computeLinkId(2, "https://a.example/x?u=1")).toBe(
+      computeLinkId(2, "https://a.example/x?u=2")
+    );
+    expect(computeLinkId(2, "https://a.example/x")).not.toBe(
+      computeLinkId(3, "https://a.example/x")
+    );
+  });
+
+  it("should number only trackable links", () => {
+    const links: Array<{ id: string; position: number }> = [];
+    rewriteTrackableLinks(html, (link) => {
+      links.push({ id: link.id, position: link.position });
+      return "";
+    });
+
+    expect(links).toEqual([
+      { id: "hero-cta", position: 1 },
+      { id: computeLinkId(2, "https://blog.example.com/post"), position: 2 },
+    ]);
+  });
+
+  it("should add the link id to click tracking URLs", async () => {
+    const engine = createEngine(trackingUrls);
+    const rendered = await engine.renderPreview(template);
+
+    const clickUrls = [...rendered.html.matchAll(/href="(https:\/\/track\.example\.com\/click[^"]+)"/g)]
+      .map((match) => trackingUrls.verifyTrackingUrl(match[1].replace(/&amp;/g, "&")));
+
+    expect(clickUrls.map((verification) => verification.linkId)).toEqual([
+      "hero-cta",
+      computeLinkId(2, "https://blog.example.com/post"),
+    ]);
+    expect(clickUrls.every((verification) => verification.valid)).toBe(true);
+    expect(rendered.html).toContain('href="#top"');
+    expect(rendered.html).toContain('href="mailto:help@example.com"');
+  });
+});
+
+describe("renderClickOverlay", () => {
+  const blogId = computeLinkId(2, "https://blog.example.com/post");
+
+  it("should badge untracked links with clicks and share", () => {
+    const overlay = renderClickOverlay(html, [stats("hero-cta", 3), stats(blogId, 1)]);
+
+    expect(overlay).toContain('data-link-id="hero-cta" data-clicks="3" title="3 clicks (75%)"');
+    expect(overlay).toContain(`data-link-id="${blogId}" data-clicks="1" title="1 click (25%)"`);
+    expect(overlay).toContain("rgba(255,0,0,1)");
+    expect(overlay).not.toContain('data-link-id="#top"');
+    expect(overlay.match(/click-overlay-badge/g)).toHaveLength(2);
+  });
+
+  it("should read link ids from tracked links", async () => {
+    const rendered = await createEngine(trackingUrls).renderPreview(template);
+
+    const overlay = renderClickOverlay(rendered.html, [stats(blogId, 2)]);
+
+    expect(overlay).toContain('data-link-id="hero-cta" data-clicks="0"');
+    expect(overlay).toContain(`data-link-id="${blogId}" data-clicks="2" title="2 clicks (100%)"`);
+  });
+});
+
+describe("LinkAnalyticsService", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should map link stats from the database", async () => {
+    const rpc = vi.spyOn(supabase, "rpc").mockResolvedValue({
+      data: [
+        {
+          link_id: "hero-cta",
+          url: "https://shop.example.com/sale",
+          total_clicks: "5",
+          unique_clicks: "4",
+          human_clicks: "3",
+          human_unique_clicks: "3",
+        },
+      ],
+      error: null,
+    } as any);
+
+    const service = new LinkAnalyticsService(createEngine(trackingUrls));
+
+    expect(await service.getCampaignLinkStats("campaign-1")).toEqual([
+      {
+        link_id: "hero-cta",
+        url: "https://shop.example.com/sale",
+        total_clicks: 5,
+        unique_clicks: 4,
+        human_clicks: 3,
+        human_unique_clicks: 3,
+      },
+    ]);
+    expect(rpc).toHaveBeenCalledWith("get_campaign_link_stats", {
+      p_campaign_id: "campaign-1",
+    });
+  });
+
+  it("should overlay the template version the campaign was sent with", async () => {
+    const storage = new SupabaseTemplateStorage();
+    vi.spyOn(storage, "getTemplate").mockResolvedValue({
+      ...template,
+      html_content: '<p><a href="https://edited.example.com">Edited</a></p>',
+    });
+    vi.spyOn(storage, "getCampaignTemplateVersion").mockResolvedValue({
+      id: createTestUUID("sale-version"),
+      template_id: template.id,
+      version_number: 1,
+      status: "published",
+      subject: template.subject,
+      html_content: html,
+      variables: {},
+      template_hash: "hash",
+      created_at: "2025-08-01T00:00:00Z",
+    });
+    const query = TestHelpers.createQuery({ data: { template_id: template.id }, error: null });
+    vi.spyOn(supabase, "from").mockReturnValue(query);
+    vi.spyOn(supabase, "rpc").mockResolvedValue({
+      data: [stats("hero-cta", 1)],
+      error: null,
+    } as any);
+
+    const service = new LinkAnalyticsService(createEngine(trackingUrls, storage), storage);
+    const overlay = await service.getCampaignClickOverlay("campaign-1");
+
+    expect(overlay.links).toHaveLength(1);
+    expect(overlay.html).toContain('data-link-id="hero-cta" data-clicks="1"');
+    expect(overlay.html).not.toContain("edited.example.com");
+  });
+});
@@ -0,0 +1,206 @@
+const { describe, expect, it } = require('@jest/globals');
+import { EmailService } from "../../src/services/email.service";
+import { TrackingUrlService } from "../../src/services/tracking-url.service";
+import {
+  EmailMessage,
+  EmailProvider,
+  EmailSendResult,
+  RateLimitInfo,
+} from "../../src/types/email-provider";
+import { TrackingConfig } from "../../src/types/template-engine";
+
+class RecordingProvider implements EmailProvider {
+  name = "Recording";
+  sent: EmailMessage[] = [];
+
+  async sendEmail(message: EmailMessage): Promise<EmailSendResult> {
+    this.sent.push(message);
+    return { messageId: `msg-${this.sent.length}`, status: "sent" };
+  }
+
+  async getEmailStatus(messageId: string) {
+    return { messageId, status: "sent" as const, timestamp: new Date(), events: [] };
+  }
+
+  async processWebhook(): Promise<any> {
+    return { messageId: "", event: "delivered", email: "", timestamp: new Date(), data: {} };
+  }
+
+  verifyWebhookSignature(): boolean {
+    return false;
+  }
+
+  async checkRateLimit(): Promise<RateLimitInfo> {
+    return { remaining: 100, limit: 100, resetTime: new Date(Date.now() + 60000) };
+  }
+
+  async validateTemplate(): Promise<boolean> {
+    return true;
+  }
+
+  async renderTemplate() {
+    return { subject: "Monthly update", html: "<p>Hello</p>", text: "Hello" };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
+
+describe("List-Unsubscribe", () => {
+  const baseConfig: TrackingConfig = {
+    pixel_enabled: true,
+    click_tracking_enabled: true,
+    open_tracking_enabled: true,
+    signing_secret: "test-signing-secret",
+  };
+
+  const createService = (overrides: Partial<TrackingConfig> = {}) =>
+    new TrackingUrlService("https://track.momentumbusiness.capital/", {
+      ...baseConfig,
+      ...overrides,
+    });
+
+  const extractUrl = (header: string): URL =>
+    new URL(/<(https:[^>]+)>/.exec(header)![1]);
+
+  describe("header generation", () => {
+    it("should emit RFC 8058 one-click headers", () => {
+      const headers = createService().generateListUnsubscribeHeaders(
+        { contactId: "contact-1" },
+        "campaign-1"
+      );
+      const url = extractUrl(headers["List-Unsubscribe"]);
+
+      expect(headers["List-Unsubscribe-Post"]).toBe("List-Unsubscribe=One-Click");
+      expect(headers["List-Unsubscribe"]).toMatch(/^<https:\/\/[^>]+>$/);
+      expect(url.pathname).toBe("/unsubscribe");
+      expect(url.searchParams.get("c")).toBe("contact-1");
+      expect(url.searchParams.get("campaign")).toBe("campaign-1");
+      expect(url.searchParams.get("email")).toBeNull();
+    });
+
+    it("should add a mailto fallback when configured", () => {
+      const headers = createService({
+        unsubscribe_mailto: "unsubscribe@momentumbusiness.capital",
+      }).generateListUnsubscribeHeaders({ contactId: "contact-1" });
+
+      const [https, mailto] = headers["List-Unsubscribe"].split(", ");
+      expect(https).toMatch(/^<https:/);
+      expect(mailto).toMatch(
+        /^<mailto:unsubscribe@momentumbusiness\.capital\?subject=unsubscribe%20c%3Dcontact-1/
+      );
+    });
+
+    it("should fall back to the email address without a contact id", () => {
+      const headers = createService().generateListUnsubscribeHeaders({
+        email: "john@example.com",
+      });
+      const url = extractUrl(headers["List-Unsubscribe"]);
+
+      expect(url.searchParams.get("c")).toBeNull();
+      expect(url.searchParams.get("email")).toBe("john@example.com");
+    });
+  });
+
+  describe("token verification", () => {
+    it("should accept the URL it generated", () => {
+      const service = createService();
+      const headers = service.generateListUnsubscribeHeaders(
+        { contactId: "contact-1" },
+        "campaign-1"
+      );
+
+      expect(
+        service.verifyUnsubscribeRequest(extractUrl(headers["List-Unsubscribe"]).searchParams)
+      ).toEqual({
+        valid: true,
+        status: "valid",
+        contactId: "contact-1",
+        email: undefined,
+        campaignId: "campaign-1",
+      });
+    });
+
+    it("should reject a URL with a modified recipient or campaign", () => {
+      const service = createService();
+      const params = extractUrl(
+        service.generateListUnsubscribeHeaders({ contactId: "contact-1" }, "campaign-1")[
+          "List-Unsubscribe"
+        ]
+      ).searchParams;
+
+      const otherContact = new URLSearchParams(params);
+      otherContact.set("c", "contact-2");
+      const otherCampaign = new URLSearchParams(params);
+      otherCampaign.delete("campaign");
+
+      expect(service.verifyUnsubscribeRequest(otherContact).valid).toBe(false);
+      expect(service.verifyUnsubscribeRequest(otherCampaign).valid).toBe(false);
+    });
+
+    it("should reject tokens signed with another secret", () => {
+      const params = extractUrl(
+        createService({ signing_secret: "other" }).generateListUnsubscribeHeaders({
+          contactId: "contact-1",
+        })["List-Unsubscribe"]
+      ).searchParams;
+
+      expect(createService().verifyUnsubscribeRequest(params).valid).toBe(false);
+    });
+
+    it("should refuse to verify without a signing secret", () => {
+      const service = createService({ signing_secret: undefined });
+      const params = extractUrl(
+        service.generateListUnsubscribeHeaders({ contactId: "contact-1" })["List-Unsubscribe"]
+      ).searchParams;
+
+      expect(service.verifyUnsubscribeRequest(params).valid).toBe(false);
+    });
+  });
+
+  describe("EmailService", () => {
+    it("should add headers to every templated send", async () => {
+      const provider = new RecordingProvider();
+      const service = new EmailService({
+        provider,
+        enableRateLimit: false,
+        listUnsubscribe: createService(),
+      });
+
+      await service.sendTemplatedEmail(
+        { id: "template-1", variables: {} },
+        [
+          { email: "john@example.com", contactId: "contact-1" },
+          { email: "jane@example.com" },
+        ],
+        { email: "funding@momentumbusiness.capital" },
+        { campaignId: "campaign-1" }
+      );
+
+      expect(provider.sent).toHaveLength(2);
+      expect(provider.sent[0].to).toEqual([{ email: "john@example.com" }]);
+      expect(provider.sent[0].headers!["List-Unsubscribe"]).toContain("c=contact-1");
+      expect(provider.sent[1].headers!["List-Unsubscribe"]).toContain(
+        "email=jane%40example.com"
+      );
+      for (const message of provider.sent) {
+        expect(message.headers!["List-Unsubscribe"]).toContain("campaign=campaign-1");
+        expect(message.headers!["List-Unsubscribe-Post"]).toBe("List-Unsubscribe=One-Click");
+      }
+    });
+
+    it("should leave headers off when no generator is configured", async () => {
+      const provider = new RecordingProvider();
+      const service = new EmailService({ provider, enableRateLimit: false });
+
+      await service.sendTemplatedEmail(
+        { id: "template-1", variables: {} },
+        [{ email: "john@example.com", contactId: "contact-1" }],
+        { email: "funding@momentumbusiness.capital" }
+      );
+
+      expect(provider.sent[0].headers).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,240 @@
+const { describe, expect, it } = require('@jest/globals');
+import { EmailMessageBuilder } from "../../src/services/email.service";
+import { MimeBuilder } from "../../src/services/mime-builder.service";
+import { EmailMessage } from "../../src/types/email-provider";
+
+describe("MIME Builder", () => {
+  const createBuilder = () =>
+    new MimeBuilder({
+      date: new Date("2025-07-01T12:00:00Z"),
+      messageId: "test-message@momentumbusiness.capital",
+      generateBoundary: (index) => `boundary-${index}`,
+    });
+
+  const baseMessage: EmailMessage = {
+    from: { email: "funding@momentumbusiness.capital", name: "Momentum Business Capital" },
+    to: [{ email: "john@example.com", name: "John Doe" }],
+    subject: "Your funding update",
+    text: "Hello John,\nYour application is approved.",
+    html: "<p>Hello John,</p><p>Your application is approved.</p>",
+  };
+
+  describe("wire output", () => {
+    it("should compose a text-only message", () => {
+      const { raw } = createBuilder().build({
+        ...baseMessage,
+        html: undefined,
+      });
+
+      expect(raw).toMatchSnapshot();
+    });
+
+    it("should compose multipart/alternative for text and html", () => {
+      const { raw } = createBuilder().build(baseMessage);
+
+      expect(raw).toMatchSnapshot();
+    });
+
+    it("should compose mixed, alternative and related parts together", () => {
+      const { raw } = createBuilder().build({
+        ...baseMessage,
+        html: '<p>Hello John,</p><img src="cid:logo@momentum">',
+        attachments: [
+          {
+            filename: "logo.png",
+            content: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+            contentType: "image/png",
+            disposition: "inline",
+            contentId: "logo@momentum",
+          },
+          {
+            filename: "terms.pdf",
+            content: Buffer.from("%PDF-1.4 terms").toString("base64"),
+            contentType: "application/pdf",
+          },
+        ],
+      });
+
+      expect(raw).toMatchSnapshot();
+    });
+
+    it("should encode non-ASCII headers, bodies and filenames", () => {
+      const { raw } = createBuilder().build({
+        from: { email: "funding@momentumbusiness.capital", name: "Équipe Momentum" },
+        to: [{ email: "jose@example.com", name: "José Müller" }],
+        subject: "Ihre Finanzierung ist genehmigt – Glückwunsch! 🎉",
+        text: "Grüße aus München. Die Prüfung ist abgeschlossen.",
+        attachments: [
+          {
+            filename: "Übersicht.txt",
+            content: Buffer.from("Übersicht"),
+            contentType: "text/plain",
+          },
+        ],
+      });
+
+      expect(raw).toMatchSnapshot();
+    });
+  });
+
+  describe("structure", () => {
+    it("should use CRLF line endings and keep lines within limits", () => {
+      const { raw } = createBuilder().build({
+        ...baseMessage,
+        text: "é".repeat(200) + "\n" + "a".repeat(1200),
+      });
+
+      const lines = raw.split("\r\n");
+      expect(raw.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+      expect(Math.max(...lines.map((line) => line.length))).toBeLessThanOrEqual(78);
+    });
+
+    it("should omit Bcc from headers but include it in the envelope", () => {
+      const result = createBuilder().build({
+        ...baseMessage,
+        cc: [{ email: "cc@example.com" }],
+        bcc: [{ email: "hidden@example.com" }],
+      });
+
+      expect(result.raw).toContain("Cc: cc@example.com");
+      expect(result.raw).not.toContain("hidden@example.com");
+      expect(result.envelope).toEqual({
+        from: "funding@momentumbusiness.capital",
+        to: ["john@example.com", "cc@example.com", "hidden@example.com"],
+      });
+    });
+
+    it("should keep inline parts without cid references out of multipart/related", () => {
+      const { raw } = createBuilder().build({
+        ...baseMessage,
+        html: undefined,
+        attachments: [
+          {
+            filename: "logo.png",
+            content: Buffer.from("png"),
+            contentType: "image/png",
+            disposition: "inline",
+            contentId: "logo",
+          },
+        ],
+      });
+
+      expect(raw).not.toContain("multipart/related");
+      expect(raw).toContain("multipart/mixed");
+    });
+
+    it("should only relate inline parts the html references by cid", () => {
+      const { raw } = createBuilder().build({
+        ...baseMessage,
+        attachments: [
+          {
+            filename: "logo.png",
+            content: Buffer.from("png"),
+            contentType: "image/png",
+            disposition: "inline",
+            contentId: "logo",
+          },
+        ],
+      });
+
+      expect(raw).not.toContain("multipart/related");
+      expect(raw).toContain("multipart/mixed");
+      expect(raw).toContain("Content-ID: <logo>");
+    });
+
+    it("should not let custom headers override composed headers or inject lines", () => {
+      const { raw } = createBuilder().build({
+        ...baseMessage,
+        headers: {
+          Subject: "Overridden",
+          "X-Campaign-Id": "abc\r\nBcc: attacker@example.com",
+        },
+      });
+
+      expect(raw).toContain("Subject: Your funding update");
+      expect(raw).not.toContain("Overridden");
+      expect(raw).toContain("X-Campaign-Id: abc Bcc: attacker@example.com");
+      expect(raw).not.toMatch(/\r\nBcc:/);
+    });
+
+    it("should strip line breaks from addresses and filenames and drop invalid header names", () => {
+      const { raw } = createBuilder().build({
+        ...baseMessage,
+        to: [{ email: "john@example.com", name: "John\r\nBcc: attacker@example.com" }],
+        headers: { "X-Bad\r\nBcc": "attacker@example.com" },
+        attachments: [
+          {
+            filename: "terms.pdf\r\nBcc: attacker@example.com",
+            content: Buffer.from("pdf"),
+            contentType: "application/pdf",
+          },
+        ],
+      });
+
+      expect(raw).toContain('To: "John Bcc: attacker@example.com" <john@example.com>');
+      expect(raw).not.toContain("X-Bad");
+      expect(raw).not.toMatch(/\r\nBcc:/);
+    });
+
+    it("should quote display names containing specials", () => {
+      expect(
+        createBuilder().formatAddress({ email: "a@example.com", name: "Doe, John" })
+      ).toBe('"Doe, John" <a@example.com>');
+    });
+  });
+
+  describe("quoted-printable", () => {
+    it("should encode trailing whitespace and equals signs", () => {
+      expect(createBuilder().encodeQuotedPrintable("a=b \nc")).toBe("a=3Db=20\r\nc");
+    });
+
+    it("should insert soft line breaks at 76 characters", () => {
+      const encoded = createBuilder().encodeQuotedPrintable("x".repeat(100));
+      const [first, second] = encoded.split("\r\n");
+
+      expect(first).toHaveLength(76);
+      expect(first.endsWith("=")).toBe(true);
+      expect(second).toBe("x".repeat(25));
+    });
+  });
+
+  describe("RFC 2047", () => {
+    it("should leave ASCII values untouched", () => {
+      expect(createBuilder().encodeHeaderValue("Hello world")).toBe("Hello world");
+    });
+
+    it("should split encoded words without breaking multibyte characters", () => {
+      const value = "日本語のテキスト".repeat(4);
+      const encoded = createBuilder().encodeHeaderValue(value);
+      const words = encoded.split(" ");
+
+      expect(words.length).toBeGreaterThan(1);
+      for (const word of words) {
+        expect(word.length).toBeLessThanOrEqual(75);
+      }
+      const decoded = words
+        .map((word) => Buffer.from(word.slice(10, -2), "base64").toString("utf8"))
+        .join("");
+      expect(decoded).toBe(value);
+    });
+  });
+
+  describe("EmailMessageBuilder", () => {
+    it("should compose inline images through the fluent builder", () => {
+      const mime = new EmailMessageBuilder({ email: "funding@momentumbusiness.capital" })
+        .to({ email: "john@example.com" })
+        .subject("Inline image")
+        .html('<img src="cid:banner">')
+        .inline("banner", {
+          filename: "banner.png",
+          content: Buffer.from("png"),
+          contentType: "image/png",
+        })
+        .buildMime({ generateBoundary: (index) => `b${index}` });
+
+      expect(mime.raw).toContain('multipart/related; type="text/html"; boundary="b0"');
+      expect(mime.raw).toContain("Content-ID: <banner>");
+      expect(mime.raw).toContain("Content-Disposition: inline; filename=\"banner.png\"");
+    });
+  });
+});
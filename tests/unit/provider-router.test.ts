@@ -0,0 +1,235 @@
+const { beforeEach, describe, expect, it } = require('@jest/globals');
+import { EmailService } from "../../src/services/email.service";
+import { ProviderRouter } from "../../src/services/provider-router.service";
+import {
+  EmailMessage,
+  EmailProvider,
+  EmailProviderError,
+  EmailSendResult,
+  RateLimitInfo,
+} from "../../src/types/email-provider";
+import { buildRoutingTrackingData } from "../../supabase/functions/_shared/provider-routing";
+
+class FakeProvider implements EmailProvider {
+  sent: EmailMessage[] = [];
+  failWith: Partial<EmailProviderError> | null = null;
+  healthy = true;
+  remaining = 100;
+
+  constructor(public name: string) {}
+
+  async sendEmail(message: EmailMessage): Promise<EmailSendResult> {
+    if (this.failWith) {
+      const error = new Error(this.failWith.message || `${this.name} failed`) as EmailProviderError;
+      Object.assign(error, this.failWith);
+      throw error;
+    }
+    this.sent.push(message);
+    return { messageId: `${this.name}-${this.sent.length}`, status: "sent" };
+  }
+
+  async getEmailStatus(messageId: string) {
+    return { messageId, status: "sent" as const, timestamp: new Date(), events: [] };
+  }
+
+  async processWebhook(): Promise<any> {
+    return { messageId: "", event: "delivered", email: "", timestamp: new Date(), data: {} };
+  }
+
+  verifyWebhookSignature(): boolean {
+    return false;
+  }
+
+  async checkRateLimit(): Promise<RateLimitInfo> {
+    return { remaining: this.remaining, limit: 100, resetTime: new Date(Date.now() + 60000) };
+  }
+
+  async validateTemplate(): Promise<boolean> {
+    return true;
+  }
+
+  async renderTemplate() {
+    return { subject: "", html: "", text: "" };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.healthy;
+  }
+}
+
+describe("Provider Router", () => {
+  let primary: FakeProvider;
+  let secondary: FakeProvider;
+  let router: ProviderRouter;
+
+  const message: EmailMessage = {
+    from: { email: "sender@example.com" },
+    to: [{ email: "recipient@example.com" }],
+    subject: "Routing test",
+    text: "Hello",
+  };
+
+  beforeEach(() => {
+    primary = new FakeProvider("Mailtrap");
+    secondary = new FakeProvider("SMTP");
+    router = new ProviderRouter(
+      [
+        { provider: primary, weight: 1 },
+        { provider: secondary, weight: 0 },
+      ],
+      { circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 } }
+    );
+  });
+
+  it("should send through the primary provider when it is available", async () => {
+    const result = await router.sendEmail(message);
+
+    expect(result.provider).toBe("Mailtrap");
+    expect(result.routing).toMatchObject({
+      provider: "Mailtrap",
+      attempted: ["Mailtrap"],
+      failedOver: false,
+    });
+    expect(secondary.sent).toHaveLength(0);
+  });
+
+  it("should fail over on retryable provider errors", async () => {
+    primary.failWith = { code: "HTTP_503", statusCode: 503, retryable: true };
+
+    const result = await router.sendEmail(message);
+
+    expect(result.provider).toBe("SMTP");
+    expect(result.routing?.failedOver).toBe(true);
+    expect(result.routing?.failoverReason).toBe("provider_error");
+    expect(result.routing?.attempted).toEqual(["Mailtrap", "SMTP"]);
+  });
+
+  it("should fail over when the primary rate limit is exhausted", async () => {
+    primary.remaining = 0;
+
+    const result = await router.sendEmail(message);
+
+    expect(result.provider).toBe("SMTP");
+    expect(result.routing?.failoverReason).toBe("rate_limited");
+    expect(result.routing?.attempted).toEqual(["SMTP"]);
+  });
+
+  it("should skip unhealthy providers", async () => {
+    primary.healthy = false;
+
+    const result = await router.sendEmail(message);
+
+    expect(result.provider).toBe("SMTP");
+    expect(result.routing?.failoverReason).toBe("unhealthy");
+  });
+
+  it("should not fail over on message-level errors", async () => {
+    primary.failWith = { code: "HTTP_422", statusCode: 422, retryable: false };
+
+    await expect(router.sendEmail(message)).rejects.toMatchObject({ code: "HTTP_422" });
+    expect(secondary.sent).toHaveLength(0);
+  });
+
+  it("should open the circuit after repeated failures", async () => {
+    primary.failWith = { code: "ECONNECTION", retryable: true };
+
+    await router.sendEmail(message);
+    await router.sendEmail(message);
+    primary.failWith = null;
+    const result = await router.sendEmail(message);
+
+    expect(result.provider).toBe("SMTP");
+    expect(result.routing?.failoverReason).toBe("circuit_open");
+    expect(router.getRouteStates()[0].circuit).toBe("open");
+  });
+
+  it("should close the circuit after a successful half-open trial", async () => {
+    router = new ProviderRouter(
+      [
+        { provider: primary, weight: 1 },
+        { provider: secondary, weight: 0 },
+      ],
+      { circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 0 } }
+    );
+    primary.failWith = { code: "ECONNECTION", retryable: true };
+    await router.sendEmail(message);
+    expect(router.getRouteStates()[0].circuit).toBe("open");
+
+    primary.failWith = null;
+    const result = await router.sendEmail(message);
+
+    expect(result.provider).toBe("Mailtrap");
+    expect(router.getRouteStates()[0].circuit).toBe("closed");
+  });
+
+  it("should report exhausted rate limits across all providers as rate limited", async () => {
+    primary.remaining = 0;
+    secondary.remaining = 0;
+
+    await expect(router.sendEmail(message)).rejects.toMatchObject({
+      code: "RATE_LIMIT_EXCEEDED",
+      statusCode: 429,
+      retryable: true,
+    });
+  });
+
+  it("should distribute traffic across weighted providers", async () => {
+    router = new ProviderRouter([
+      { provider: primary, weight: 3 },
+      { provider: secondary, weight: 1 },
+    ]);
+
+    for (let i = 0; i < 200; i++) {
+      await router.sendEmail(message);
+    }
+
+    expect(primary.sent.length).toBeGreaterThan(secondary.sent.length);
+    expect(secondary.sent.length).toBeGreaterThan(0);
+  });
+
+  it("should aggregate rate limits across providers", async () => {
+    primary.remaining = 10;
+    secondary.remaining = 5;
+
+    const info = await router.checkRateLimit();
+
+    expect(info.remaining).toBe(15);
+    expect(info.limit).toBe(200);
+  });
+
+  it("should build tracking data for email logs", async () => {
+    primary.failWith = { code: "HTTP_500", statusCode: 500, retryable: true, message: "Upstream down" };
+
+    const result = await router.sendEmail(message);
+
+    expect(
+      buildRoutingTrackingData(result.provider, result.routing.attempted, result.routing.skipped)
+    ).toEqual({
+      provider: "SMTP",
+      failed_over: true,
+      failover_reason: "provider_error",
+      attempted_providers: ["Mailtrap", "SMTP"],
+      skipped_providers: [
+        { provider: "Mailtrap", reason: "provider_error", error: "Upstream down" },
+      ],
+    });
+    // Every provider failed
+    expect(
+      buildRoutingTrackingData(null, ["smtp"], [{ provider: "smtp", reason: "rate_limited", error: "421" }])
+    ).toMatchObject({ provider: null, failed_over: false, failover_reason: null });
+  });
+
+  it("should plug into EmailService as its provider", async () => {
+    const service = new EmailService({
+      provider: router,
+      enableRateLimit: true,
+      enableRetries: false,
+    });
+    primary.failWith = { code: "HTTP_503", statusCode: 503, retryable: true };
+
+    const result = await service.sendEmail(message);
+
+    expect(result.status).toBe("sent");
+    expect(result.provider).toBe("SMTP");
+  });
+});
@@ -0,0 +1,197 @@
+const { afterEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import { supabase } from "../../src/config/supabase";
+import {
+  getNextRunAt,
+  parseCronExpression,
+} from "../../src/services/recurrence.service";
+import {
+  RecurringCampaignService,
+  validateRecurringCampaign,
+} from "../../src/services/recurring-campaign.service";
+import { createTestUUID } from "../../src/types/email-system";
+import { TestHelpers } from "../utils/test-helpers";
+
+// Friday
+const after = new Date("2025-08-01T12:00:00Z");
+
+const nextRun = (
+  scheduleType: "cron" | "rrule",
+  expression: string,
+  timezone = "UTC",
+  startsAt = "2025-07-01T09:00:00Z"
+) =>
+  getNextRunAt(
+    {
+      schedule_type: scheduleType,
+      schedule_expression: expression,
+      timezone,
+      starts_at: startsAt,
+    },
+    after
+  )?.toISOString();
+
+describe("Recurrence schedules", () => {
+  it("should find the next cron occurrence in the schedule's timezone", () => {
+    expect(nextRun("cron", "0 9 * * MON", "America/New_York")).toBe("2025-08-04T13:00:00.000Z");
+    expect(nextRun("cron", "*/15 * * * *")).toBe("2025-08-01T12:15:00.000Z");
+    expect(nextRun("cron", "@monthly")).toBe("2025-09-01T00:00:00.000Z");
+    expect(nextRun("cron", "0 0 29 2 *")).toBe("2028-02-29T00:00:00.000Z");
+  });
+
+  it("should match either day field when both are restricted", () => {
+    const rule = parseCronExpression("0 9 15 * FRI");
+
+    expect(rule.matchesDay({ year: 2025, month: 8, day: 1, weekday: 5 })).toBe(true);
+    expect(rule.matchesDay({ year: 2025, month: 8, day: 15, weekday: 5 })).toBe(true);
+    expect(rule.matchesDay({ year: 2025, month: 8, day: 4, weekday: 1 })).toBe(false);
+    expect(parseCronExpression("0 9 * * 7").matchesDay({ year: 2025, month: 8, day: 3, weekday: 0 })).toBe(true);
+  });
+
+  it("should reject malformed cron expressions", () => {
+    expect(() => parseCronExpression("0 9 * *")).toThrow(
+      'Invalid cron expression "0 9 * *": expected 5 fields'
+    );
+    expect(() => parseCronExpression("61 * * * *")).toThrow('bad field "61"');
+    expect(() => parseCronExpression("5-1 * * * *")).toThrow('bad field "5-1"');
+  });
+
+  it("should follow RRULE frequencies, intervals and ordinals", () => {
+    expect(nextRun("rrule", "FREQ=WEEKLY;BYDAY=TU,TH;BYHOUR=8;BYMINUTE=30", "Europe/Berlin")).toBe(
+      "2025-08-05T06:30:00.000Z"
+    );
+    // Every other week from Monday 28 July, at the anchor's time
+    expect(nextRun("rrule", "FREQ=WEEKLY;INTERVAL=2", "UTC", "2025-07-28T09:00:00Z")).toBe(
+      "2025-08-11T09:00:00.000Z"
+    );
+    expect(nextRun("rrule", "RRULE:FREQ=MONTHLY;BYDAY=-1FR")).toBe("2025-08-29T09:00:00.000Z");
+    expect(nextRun("rrule", "FREQ=MONTHLY;BYMONTHDAY=-1;BYHOUR=17;BYMINUTE=0")).toBe(
+      "2025-08-31T17:00:00.000Z"
+    );
+    expect(nextRun("rrule", "FREQ=DAILY", "UTC", "2025-09-01T09:00:00Z")).toBe(
+      "2025-09-01T09:00:00.000Z"
+    );
+  });
+
+  it("should end at UNTIL, COUNT and ends_at", () => {
+    expect(nextRun("rrule", "FREQ=DAILY;UNTIL=20250731")).toBeUndefined();
+    expect(
+      getNextRunAt(
+        {
+          schedule_type: "rrule",
+          schedule_expression: "FREQ=DAILY;COUNT=3",
+          timezone: "UTC",
+          starts_at: "2025-07-01T09:00:00Z",
+        },
+        after,
+        3
+      )
+    ).toBeNull();
+    expect(
+      getNextRunAt(
+        {
+          schedule_type: "cron",
+          schedule_expression: "0 9 * * MON",
+          timezone: "UTC",
+          starts_at: "2025-07-01T09:00:00Z",
+          ends_at: "2025-08-03T00:00:00Z",
+        },
+        after
+      )
+    ).toBeNull();
+  });
+});
+
+describe("RecurringCampaignService", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should validate the definition", () => {
+    expect(
+      validateRecurringCampaign({
+        name: " ",
+        schedule_type: "cron",
+        schedule_expression: "0 9 * * MON",
+        timezone: "Mars/Olympus",
+        starts_at: "2025-08-01T00:00:00Z",
+        ends_at: "2025-07-01T00:00:00Z",
+      })
+    ).toEqual([
+      "name is required",
+      "unknown timezone Mars/Olympus",
+      "ends_at must be a date after starts_at",
+    ]);
+    expect(
+      validateRecurringCampaign({
+        name: "Weekly digest",
+        schedule_type: "rrule",
+        schedule_expression: "FREQ=HOURLY",
+      })
+    ).toEqual(['Invalid RRULE "FREQ=HOURLY": FREQ must be DAILY, WEEKLY or MONTHLY']);
+  });
+
+  it("should store the first run with the definition", async () => {
+    const insert = TestHelpers.createQuery({ data: { id: "recurring-1" }, error: null });
+    vi.spyOn(supabase, "from").mockReturnValueOnce(insert);
+
+    await new RecurringCampaignService().createRecurringCampaign(
+      {
+        name: "Weekly digest",
+        schedule_type: "cron",
+        schedule_expression: "0 9 * * MON",
+        timezone: "America/New_York",
+      },
+      after
+    );
+
+    expect(insert.insert).toHaveBeenCalledWith({
+      name: "Weekly digest",
+      schedule_type: "cron",
+      schedule_expression: "0 9 * * MON",
+      timezone: "America/New_York",
+      starts_at: "2025-08-01T12:00:00.000Z",
+      next_run_at: "2025-08-04T13:00:00.000Z",
+    });
+  });
+
+  it("should resume from the next occurrence after now", async () => {
+    const id = createTestUUID("recurring-1");
+    const current = TestHelpers.createQuery({
+      data: {
+        id,
+        status: "paused",
+        schedule_type: "rrule",
+        schedule_expression: "FREQ=DAILY;COUNT=5",
+        timezone: "UTC",
+        starts_at: "2025-07-01T09:00:00Z",
+        run_count: 2,
+      },
+      error: null,
+    });
+    const update = TestHelpers.createQuery({ data: { id, status: "active" }, error: null });
+    vi.spyOn(supabase, "from").mockReturnValueOnce(current).mockReturnValueOnce(update);
+
+    await new RecurringCampaignService().resumeRecurringCampaign(id, after);
+
+    expect(update.update).toHaveBeenCalledWith({
+      status: "active",
+      next_run_at: "2025-08-02T09:00:00.000Z",
+      updated_at: "2025-08-01T12:00:00.000Z",
+    });
+  });
+
+  it("should return per-run stats", async () => {
+    const id = createTestUUID("recurring-1");
+    const rpc = vi.spyOn(supabase, "rpc").mockResolvedValue({
+      data: [{ campaign_id: "campaign-2", run_number: 2, total_sent: 100 }],
+      error: null,
+    } as any);
+
+    const runs = await new RecurringCampaignService().getRuns(id);
+
+    expect(rpc).toHaveBeenCalledWith("get_recurring_campaign_runs", {
+      p_recurring_campaign_id: id,
+    });
+    expect(runs[0].run_number).toBe(2);
+  });
+});
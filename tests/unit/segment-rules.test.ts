@@ -0,0 +1,149 @@
+const { afterEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import { supabase } from "../../src/config/supabase";
+import { CampaignManagementService } from "../../src/services/campaign-management.service";
+import {
+  MAX_SEGMENT_RULE_DEPTH,
+  validateSegmentFilterCriteria,
+  validateSegmentRule,
+} from "../../src/services/segment-rules.service";
+import { createTestUUID, SegmentRule } from "../../src/types/email-system";
+import { TestHelpers } from "../utils/test-helpers";
+
+const LIST_ID = createTestUUID("6f1c2a52-3d4e-4f5a-9b6c-7d8e9f0a1b2c");
+
+const engagedCustomers: SegmentRule = {
+  type: "and",
+  rules: [
+    { type: "field", field: "email", operator: "ends_with", value: "@example.com" },
+    { type: "metadata", path: "company.size", operator: "greater_or_equal", value: 50 },
+    {
+      type: "or",
+      rules: [
+        { type: "engagement", event: "opened", within_days: 30 },
+        { type: "in_list", list_id: LIST_ID },
+      ],
+    },
+    { type: "not", rule: { type: "field", field: "created_at", operator: "within_days", value: 7 } },
+  ],
+};
+
+describe("Segment rule validation", () => {
+  it("should accept nested groups of every condition type", () => {
+    expect(validateSegmentRule(engagedCustomers)).toEqual([]);
+  });
+
+  it("should report each invalid condition with its position", () => {
+    const rule = {
+      type: "and",
+      rules: [
+        { type: "field", field: "password", operator: "equals", value: "x" },
+        { type: "field", field: "created_at", operator: "contains", value: "2025" },
+        { type: "field", field: "status", operator: "in", value: [] },
+        { type: "metadata", path: "plan'; DROP TABLE contacts; --", operator: "exists" },
+        { type: "in_segment", segment_id: "vip" },
+        { type: "engagement", event: "bounced", within_days: 1.5 },
+      ],
+    } as unknown as SegmentRule;
+
+    expect(validateSegmentRule(rule)).toEqual([
+      "rule.rules.0: unknown field password",
+      "rule.rules.1: operator contains is not supported for created_at",
+      "rule.rules.2: in needs a non-empty array of strings",
+      "rule.rules.3: invalid metadata path: plan'; DROP TABLE contacts; --",
+      "rule.rules.4.segment_id: must be a UUID",
+      "rule.rules.5: event must be one of sent, opened, clicked",
+      "rule.rules.5.within_days: must be a positive integer",
+    ]);
+  });
+
+  it("should limit nesting depth", () => {
+    let rule: SegmentRule = { type: "field", field: "status", operator: "equals", value: "active" };
+    for (let i = 0; i < MAX_SEGMENT_RULE_DEPTH; i++) {
+      rule = { type: "not", rule };
+    }
+
+    expect(validateSegmentRule(rule)).toEqual([
+      `rule${".rule".repeat(MAX_SEGMENT_RULE_DEPTH)}: rules nest deeper than ${MAX_SEGMENT_RULE_DEPTH} levels`,
+    ]);
+  });
+
+  it("should check legacy filters alongside the rule", () => {
+    expect(validateSegmentFilterCriteria({ created_after: "last week", metadata_filter: { plan: "pro" } })).toEqual([
+      "created_after is not a valid date: last week",
+    ]);
+  });
+});
+
+describe("CampaignManagementService segments", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should reject invalid rules before saving the segment", async () => {
+    const from = vi.spyOn(supabase, "from");
+
+    await expect(
+      new CampaignManagementService().createSegment({
+        name: "Broken",
+        type: "dynamic",
+        filter_criteria: { rule: { type: "metadata", path: "plan", operator: "within_days", value: 3 } },
+      })
+    ).rejects.toThrow("Segment validation failed: rule: operator within_days is not supported for metadata");
+    expect(from).not.toHaveBeenCalled();
+  });
+
+  it("should preview the count and a sample of matching contacts", async () => {
+    const contact = { id: "contact-1", email: "ada@example.com", status: "active", metadata: {} };
+    const rpc = vi
+      .spyOn(supabase, "rpc")
+      .mockResolvedValue({ data: [{ total_count: 42, sample: [contact] }], error: null } as any);
+
+    const preview = await new CampaignManagementService().previewSegment({ rule: engagedCustomers }, 5);
+
+    expect(preview).toEqual({ total_count: 42, sample: [contact] });
+    expect(rpc).toHaveBeenCalledWith("preview_segment", {
+      p_filter_criteria: { rule: engagedCustomers },
+      p_sample_size: 5,
+    });
+  });
+
+  it("should list membership periods that changed since a time", async () => {
+    const query = TestHelpers.createQuery({ data: [], error: null });
+    const from = vi.spyOn(supabase, "from").mockReturnValue(query);
+
+    await new CampaignManagementService().getSegmentMembershipHistory(
+      createTestUUID("segment-1"),
+      { changed_since: "2025-08-01T00:00:00Z" },
+      { limit: 20 }
+    );
+
+    expect(from).toHaveBeenCalledWith("segment_membership_history");
+    expect(query.eq).toHaveBeenCalledWith("segment_id", "segment-1");
+    expect(query.or).toHaveBeenCalledWith(
+      "entered_at.gte.2025-08-01T00:00:00.000Z,exited_at.gte.2025-08-01T00:00:00.000Z"
+    );
+    expect(query.order).toHaveBeenCalledWith("entered_at", { ascending: false });
+    expect(query.range).toHaveBeenCalledWith(0, 19);
+  });
+
+  it("should reject a changed_since that is not a date", async () => {
+    const query = TestHelpers.createQuery({ data: [], error: null });
+    vi.spyOn(supabase, "from").mockReturnValue(query);
+
+    await expect(
+      new CampaignManagementService().getSegmentMembershipHistory(createTestUUID("segment-1"), {
+        changed_since: "2025-08-01,status.eq.active",
+      })
+    ).rejects.toThrow("Invalid changed_since date");
+    expect(query.or).not.toHaveBeenCalled();
+  });
+
+  it("should refresh one contact's segments", async () => {
+    const rpc = vi.spyOn(supabase, "rpc").mockResolvedValue({ data: 2, error: null } as any);
+
+    await expect(
+      new CampaignManagementService().refreshContactSegments(createTestUUID("contact-1"))
+    ).resolves.toBe(2);
+    expect(rpc).toHaveBeenCalledWith("refresh_contact_segments", { p_contact_id: "contact-1" });
+  });
+});
@@ -0,0 +1,129 @@
+const { afterEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import { supabase } from "../../src/config/supabase";
+import {
+  nextLocalTime,
+  parseLocalTime,
+  resolveTimeZone,
+  SendTimeService,
+} from "../../src/services/send-time.service";
+
+describe("Local time helpers", () => {
+  it("should find the next local time in the contact's timezone", () => {
+    const after = new Date("2025-08-01T12:00:00Z");
+
+    expect(nextLocalTime(after, 9, 0, "America/New_York").toISOString()).toBe(
+      "2025-08-01T13:00:00.000Z"
+    );
+    expect(nextLocalTime(after, 9, 0, "Asia/Kolkata").toISOString()).toBe(
+      "2025-08-02T03:30:00.000Z"
+    );
+    expect(nextLocalTime(after, 12, 0, "UTC").toISOString()).toBe(
+      "2025-08-01T12:00:00.000Z"
+    );
+  });
+
+  it("should handle daylight saving changes", () => {
+    // 2025-03-09 02:30 does not exist in New York, 2025-11-02 01:30 happens twice
+    expect(
+      nextLocalTime(new Date("2025-03-09T05:00:00Z"), 2, 30, "America/New_York").toISOString()
+    ).toBe("2025-03-09T06:30:00.000Z");
+    expect(
+      nextLocalTime(new Date("2025-11-02T04:00:00Z"), 1, 30, "America/New_York").toISOString()
+    ).toBe("2025-11-02T05:30:00.000Z");
+    expect(
+      nextLocalTime(new Date("2025-11-02T04:00:00Z"), 9, 0, "America/New_York").toISOString()
+    ).toBe("2025-11-02T14:00:00.000Z");
+  });
+
+  it("should fall back for missing or unknown timezones", () => {
+    expect(resolveTimeZone("Europe/Berlin", "UTC")).toBe("Europe/Berlin");
+    expect(resolveTimeZone("Mars/Olympus", "UTC")).toBe("UTC");
+    expect(resolveTimeZone(null, "Europe/London")).toBe("Europe/London");
+  });
+
+  it("should parse local send times", () => {
+    expect(parseLocalTime("09:00")).toEqual({ hour: 9, minute: 0 });
+    expect(parseLocalTime("17:45:00")).toEqual({ hour: 17, minute: 45 });
+    expect(() => parseLocalTime("25:00")).toThrow("Invalid local send time: 25:00");
+  });
+});
+
+describe("SendTimeService", () => {
+  const now = new Date("2025-08-01T12:00:00Z");
+  const recipients = [
+    { contactId: "contact-ny", timezone: "America/New_York" },
+    { contactId: "contact-none", timezone: null },
+  ];
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should send immediately from the campaign's scheduled time", async () => {
+    const schedule = await new SendTimeService(supabase).scheduleRecipients(
+      { scheduled_at: "2025-08-01T15:00:00Z" },
+      recipients,
+      now
+    );
+
+    expect(schedule.get("contact-ny")!.toISOString()).toBe("2025-08-01T15:00:00.000Z");
+    expect(schedule.get("contact-none")!.toISOString()).toBe("2025-08-01T15:00:00.000Z");
+  });
+
+  it("should deliver at the local send time with the default timezone as fallback", async () => {
+    const schedule = await new SendTimeService(supabase, {
+      defaultTimeZone: "Europe/Berlin",
+    }).scheduleRecipients(
+      { scheduled_at: "2025-08-01T00:00:00Z", delivery_mode: "local_time" },
+      recipients,
+      now
+    );
+
+    expect(schedule.get("contact-ny")!.toISOString()).toBe("2025-08-01T13:00:00.000Z");
+    expect(schedule.get("contact-none")!.toISOString()).toBe("2025-08-02T07:00:00.000Z");
+  });
+
+  it("should use each contact's best hour when optimizing", async () => {
+    const rpc = vi.spyOn(supabase, "rpc").mockResolvedValue({
+      data: [{ contact_id: "contact-ny", best_hour: 20, engagement_count: 7 }],
+      error: null,
+    } as any);
+
+    const schedule = await new SendTimeService(supabase, {
+      defaultTimeZone: "UTC",
+      minEngagements: 5,
+    }).scheduleRecipients(
+      {
+        scheduled_at: "2025-08-01T00:00:00Z",
+        delivery_mode: "optimized",
+        local_send_time: "14:15",
+      },
+      recipients,
+      now
+    );
+
+    expect(rpc).toHaveBeenCalledWith("get_contact_send_hours", {
+      p_contact_ids: ["contact-ny", "contact-none"],
+      p_default_timezone: "UTC",
+      p_min_events: 5,
+    });
+    expect(schedule.get("contact-ny")!.toISOString()).toBe("2025-08-02T00:00:00.000Z");
+    // No history, so the campaign's local send time is used
+    expect(schedule.get("contact-none")!.toISOString()).toBe("2025-08-01T14:15:00.000Z");
+  });
+
+  it("should surface send hour lookup errors", async () => {
+    vi.spyOn(supabase, "rpc").mockResolvedValue({
+      data: null,
+      error: { message: "permission denied" },
+    } as any);
+
+    await expect(
+      new SendTimeService(supabase).scheduleRecipients(
+        { scheduled_at: "2025-08-01T00:00:00Z", delivery_mode: "optimized" },
+        recipients,
+        now
+      )
+    ).rejects.toThrow("Failed to get contact send hours: permission denied");
+  });
+});
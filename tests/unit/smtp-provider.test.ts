@@ -0,0 +1,203 @@
+const { afterEach, beforeEach, describe, expect, it } = require('@jest/globals');
+import { SmtpProvider } from "../../src/providers/smtp.provider";
+import { EmailMessage, EmailProviderError } from "../../src/types/email-provider";
+import { SmtpSink } from "../utils/smtp-sink";
+
+describe("SMTP Provider", () => {
+  let sink: SmtpSink;
+  let port: number;
+  let provider: SmtpProvider;
+
+  const message: EmailMessage = {
+    from: { email: "sender@example.com", name: "Sender" },
+    to: [{ email: "recipient@example.com", name: "Recipient" }],
+    subject: "Hello over SMTP",
+    text: "Plain body",
+    html: "<p>HTML body</p>",
+    headers: { "X-Campaign-Id": "campaign-123" },
+  };
+
+  const createProvider = (overrides = {}) =>
+    new SmtpProvider({
+      host: "127.0.0.1",
+      port,
+      secure: false,
+      ignoreTLS: true,
+      auth: { user: "smtp-user", pass: "smtp-pass" },
+      pool: false,
+      connectionTimeout: 2000,
+      greetingTimeout: 2000,
+      socketTimeout: 2000,
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    sink = new SmtpSink();
+    port = await sink.start();
+    provider = createProvider();
+  });
+
+  afterEach(async () => {
+    provider.close();
+    await sink.stop();
+  });
+
+  describe("sendEmail", () => {
+    it("should deliver a message through the SMTP sink", async () => {
+      const result = await provider.sendEmail(message);
+
+      expect(result.status).toBe("sent");
+      expect(result.messageId).toBeTruthy();
+      expect(result.providerResponse?.status).toBe(250);
+
+      expect(sink.messages).toHaveLength(1);
+      const received = sink.messages[0];
+      expect(received.from).toBe("sender@example.com");
+      expect(received.to).toEqual(["recipient@example.com"]);
+      expect(received.authUser).toBe("smtp-user");
+      expect(received.data).toContain("Subject: Hello over SMTP");
+      expect(received.data).toMatch(/X-Campaign-Id: campaign-123/i);
+      expect(received.data).toContain("multipart/alternative");
+    });
+
+    it("should authenticate with AUTH LOGIN when configured", async () => {
+      provider.close();
+      provider = createProvider({
+        auth: { user: "login-user", pass: "secret", method: "LOGIN" },
+      });
+
+      await provider.sendEmail(message);
+
+      expect(sink.commands).toContain("AUTH LOGIN");
+      expect(sink.messages[0].authUser).toBe("login-user");
+    });
+
+    it("should include cc and bcc recipients in the envelope", async () => {
+      await provider.sendEmail({
+        ...message,
+        cc: [{ email: "cc@example.com" }],
+        bcc: [{ email: "bcc@example.com" }],
+      });
+
+      expect(sink.messages[0].to).toEqual([
+        "recipient@example.com",
+        "cc@example.com",
+        "bcc@example.com",
+      ]);
+      expect(sink.messages[0].data).not.toContain("bcc@example.com");
+    });
+
+    it("should report partially rejected recipients", async () => {
+      sink.options.rcptReplies = {
+        "missing@example.com": "550 5.1.1 No such user",
+      };
+
+      const result = await provider.sendEmail({
+        ...message,
+        to: [{ email: "recipient@example.com" }, { email: "missing@example.com" }],
+      });
+
+      expect(result.status).toBe("sent");
+      expect(result.message).toContain("missing@example.com");
+      expect(sink.messages[0].to).toEqual(["recipient@example.com"]);
+    });
+
+    it("should map permanent 5xx replies to non-retryable errors", async () => {
+      sink.options.dataReply = "554 5.7.1 Message rejected as spam";
+
+      const error = (await provider
+        .sendEmail(message)
+        .catch((err) => err)) as EmailProviderError;
+
+      expect(error.code).toBe("SMTP_554");
+      expect(error.statusCode).toBe(554);
+      expect(error.retryable).toBe(false);
+    });
+
+    it("should map transient 4xx replies to retryable errors", async () => {
+      sink.options.dataReply = "451 4.3.0 Temporary local problem";
+
+      const error = (await provider
+        .sendEmail(message)
+        .catch((err) => err)) as EmailProviderError;
+
+      expect(error.code).toBe("SMTP_451");
+      expect(error.statusCode).toBe(451);
+      expect(error.retryable).toBe(true);
+    });
+
+    it("should treat authentication failures as non-retryable", async () => {
+      sink.options.authReply = "535 5.7.8 Authentication credentials invalid";
+
+      const error = (await provider
+        .sendEmail(message)
+        .catch((err) => err)) as EmailProviderError;
+
+      expect(error.statusCode).toBe(535);
+      expect(error.retryable).toBe(false);
+    });
+
+    it("should treat connection failures as retryable", async () => {
+      await sink.stop();
+      sink = new SmtpSink();
+      const openPort = await sink.start();
+      provider.close();
+      provider = createProvider({ port: port === openPort ? openPort + 1 : port });
+
+      const error = (await provider
+        .sendEmail(message)
+        .catch((err) => err)) as EmailProviderError;
+
+      expect(error.retryable).toBe(true);
+    });
+
+    it("should enforce the local rate limit", async () => {
+      provider.close();
+      provider = createProvider({
+        rateLimit: { maxRequests: 1, windowMs: 60000 },
+      });
+
+      await provider.sendEmail(message);
+      const error = (await provider
+        .sendEmail(message)
+        .catch((err) => err)) as EmailProviderError;
+
+      expect(error.code).toBe("RATE_LIMIT_EXCEEDED");
+      expect(error.statusCode).toBe(429);
+      expect(error.retryable).toBe(true);
+    });
+
+    it("should not consume rate limit for failed sends", async () => {
+      sink.options.dataReply = "451 4.3.0 Try again later";
+      await provider.sendEmail(message).catch(() => undefined);
+
+      const rateLimit = await provider.checkRateLimit();
+      expect(rateLimit.remaining).toBe(rateLimit.limit);
+    });
+  });
+
+  describe("provider capabilities", () => {
+    it("should pass health check against a reachable server", async () => {
+      await expect(provider.healthCheck()).resolves.toBe(true);
+    });
+
+    it("should fail health check when the server is unreachable", async () => {
+      await sink.stop();
+      sink = new SmtpSink();
+      await sink.start();
+
+      await expect(provider.healthCheck()).resolves.toBe(false);
+    });
+
+    it("should reject webhooks and provider-side templates", async () => {
+      expect(provider.verifyWebhookSignature({}, "signature")).toBe(false);
+      await expect(provider.processWebhook({})).rejects.toMatchObject({
+        code: "WEBHOOKS_NOT_SUPPORTED",
+        retryable: false,
+      });
+      await expect(
+        provider.validateTemplate({ id: "template-1", variables: {} })
+      ).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+const { afterEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import { supabase } from "../../src/config/supabase";
+import { formatCsv, parseCsv } from "../../src/services/csv.service";
+import { EmailService } from "../../src/services/email.service";
+import {
+  formatSuppressionCsv,
+  parseSuppressionCsv,
+  SuppressionService,
+  validateSuppression,
+} from "../../src/services/suppression.service";
+import { createTestUUID, SuppressionEntry } from "../../src/types/email-system";
+import { processQueuedEmail } from "../../supabase/functions/_shared/queued-email";
+import { TestHelpers } from "../utils/test-helpers";
+
+describe("CSV", () => {
+  it("should parse quoted fields, escaped quotes and line breaks", () => {
+    expect(parseCsv('﻿email,notes\r\na@example.com,"Said ""stop"", twice"\r\n\r\nb@example.com,"line\nbreak"')).toEqual([
+      ["email", "notes"],
+      ["a@example.com", 'Said "stop", twice'],
+      ["b@example.com", "line\nbreak"],
+    ]);
+  });
+
+  it("should quote fields that need it", () => {
+    expect(formatCsv([["email", "notes"], ["a@example.com", 'Said "stop", twice'], ["b@example.com", null]])).toBe(
+      'email,notes\r\na@example.com,"Said ""stop"", twice"\r\nb@example.com,\r\n'
+    );
+  });
+});
+
+describe("Suppression validation", () => {
+  it("should require exactly one valid target and a known reason", () => {
+    expect(validateSuppression({ email: "a@example.com", domain: "example.com", reason: "manual" })).toEqual([
+      "set either email or domain",
+    ]);
+    expect(validateSuppression({ domain: "not a domain", reason: "spam" as any })).toEqual([
+      "invalid domain: not a domain",
+      "reason must be one of hard_bounce, soft_bounce, complaint, manual, legal",
+    ]);
+  });
+
+  it("should only let soft suppressions expire", () => {
+    expect(
+      validateSuppression({ email: "a@example.com", reason: "soft_bounce", expires_at: "2025-09-01T00:00:00Z" })
+    ).toEqual([]);
+    expect(
+      validateSuppression({ email: "a@example.com", reason: "legal", expires_at: "2025-09-01T00:00:00Z" })
+    ).toEqual(["legal suppressions cannot expire"]);
+  });
+
+  it("should parse CSV imports with defaults and report bad rows", () => {
+    const csv = [
+      "Email,Domain,Reason,Expires_At",
+      "Ada@Example.com,,,",
+      ",@Competitor.io,legal,",
+      "bob@example.com,,hard_bounce,2025-09-01",
+      "ada@example.com,,complaint,",
+    ].join("\n");
+
+    expect(parseSuppressionCsv(csv, { source: "csv_import" })).toEqual({
+      entries: [
+        { email: "ada@example.com", reason: "complaint", source: "csv_import" },
+        { domain: "competitor.io", reason: "legal", source: "csv_import" },
+      ],
+      errors: ["row 3: hard_bounce suppressions cannot expire"],
+    });
+    expect(parseSuppressionCsv("address\nada@example.com").errors).toEqual([
+      "CSV needs an email or domain column",
+    ]);
+  });
+
+  it("should export entries in column order", () => {
+    const entry: SuppressionEntry = {
+      id: createTestUUID("suppression-1"),
+      domain: "competitor.io",
+      reason: "legal",
+      source: "manual",
+      notes: "Cease and desist, 2025",
+      created_at: "2025-08-01T00:00:00Z",
+      updated_at: "2025-08-01T00:00:00Z",
+    };
+
+    expect(formatSuppressionCsv([entry])).toBe(
+      'email,domain,reason,source,notes,expires_at,created_at\r\n,competitor.io,legal,manual,"Cease and desist, 2025",,2025-08-01T00:00:00Z\r\n'
+    );
+  });
+});
+
+describe("SuppressionService", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should upsert imported emails and domains on their own keys", async () => {
+    const upserts: { rows: any[]; options: any }[] = [];
+    vi.spyOn(supabase, "from").mockImplementation(() => ({
+      upsert: (rows: any[], options: any) => {
+        upserts.push({ rows, options });
+        return { select: () => Promise.resolve({ data: rows.map((_, i) => ({ id: i })), error: null }) };
+      },
+    }));
+
+    const result = await new SuppressionService().importCsv(
+      "email,domain\na@example.com,\n,example.org\nb@example.com,",
+      { reason: "manual" }
+    );
+
+    expect(result).toEqual({ imported: 3, errors: [] });
+    expect(upserts.map(({ options }) => options.onConflict)).toEqual(["email", "domain"]);
+    expect(upserts[0].rows[0]).toMatchObject({
+      email: "a@example.com",
+      domain: null,
+      reason: "manual",
+      source: "csv_import",
+      expires_at: null,
+    });
+  });
+
+  it("should check addresses with get_suppression_reason", async () => {
+    const rpc = vi.spyOn(supabase, "rpc").mockResolvedValue({ data: "complaint", error: null } as any);
+
+    await expect(new SuppressionService().isSuppressed("ada@example.com")).resolves.toBe(true);
+    expect(rpc).toHaveBeenCalledWith("get_suppression_reason", { p_email: "ada@example.com" });
+  });
+
+  it("should check many addresses with one get_suppression_reasons call", async () => {
+    const rpc = vi
+      .spyOn(supabase, "rpc")
+      .mockResolvedValue({ data: [{ email: "bob@example.com", reason: "complaint" }], error: null } as any);
+
+    const reasons = await new SuppressionService().getSuppressionReasons(["ada@example.com", "Bob@example.com"]);
+
+    expect(reasons).toEqual(new Map([["bob@example.com", "complaint"]]));
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith("get_suppression_reasons", {
+      p_emails: ["ada@example.com", "Bob@example.com"],
+    });
+  });
+});
+
+describe("EmailService suppression", () => {
+  const createEmailService = (suppressed: Record<string, string>) => {
+    const provider: any = {
+      sendEmail: vi.fn(() => Promise.resolve({ messageId: "message-1", status: "sent" })),
+    };
+    const suppressionList = {
+      getSuppressionReason: vi.fn((email: string) => Promise.resolve(suppressed[email] || null)),
+      getSuppressionReasons: vi.fn((emails: string[]) =>
+        Promise.resolve(
+          new Map(emails.filter((email) => suppressed[email]).map((email) => [email, suppressed[email]]))
+        )
+      ),
+    };
+    const service = new EmailService({
+      provider,
+      defaultFrom: { email: "noreply@example.com" },
+      suppressionList,
+    });
+    return { service, provider, suppressionList };
+  };
+
+  it("should drop suppressed recipients before sending", async () => {
+    const { service, provider, suppressionList } = createEmailService({ "bob@example.com": "hard_bounce" });
+    const message = {
+      from: { email: "noreply@example.com" },
+      to: [{ email: "ada@example.com" }, { email: "Bob@example.com" }],
+      cc: [{ email: "cy@example.com" }],
+      bcc: [{ email: "bob@example.com" }],
+      subject: "Hello",
+      text: "Hello",
+    };
+
+    await service.sendEmail(message);
+
+    expect(provider.sendEmail.mock.calls[0][0]).toMatchObject({
+      to: [{ email: "ada@example.com" }],
+      cc: [{ email: "cy@example.com" }],
+      bcc: [],
+    });
+    expect(suppressionList.getSuppressionReasons).toHaveBeenCalledTimes(1);
+    expect(suppressionList.getSuppressionReasons).toHaveBeenCalledWith([
+      "ada@example.com",
+      "bob@example.com",
+      "cy@example.com",
+    ]);
+    // The caller's message keeps its recipients
+    expect(message.to).toHaveLength(2);
+    expect(message.bcc).toEqual([{ email: "bob@example.com" }]);
+  });
+
+  it("should not reach the provider when every recipient is suppressed", async () => {
+    const { service, provider } = createEmailService({ "bob@example.com": "complaint" });
+
+    const result = await service.sendEmail({
+      from: { email: "noreply@example.com" },
+      to: [{ email: "bob@example.com" }],
+      cc: [{ email: "bob@example.com" }],
+      subject: "Hello",
+      text: "Hello",
+    });
+
+    expect(result).toEqual({
+      messageId: "",
+      status: "suppressed",
+      message: "All recipients are suppressed: bob@example.com (complaint)",
+    });
+    expect(provider.sendEmail).not.toHaveBeenCalled();
+  });
+
+  it("should return a failed result when the suppression check fails", async () => {
+    const { service, provider, suppressionList } = createEmailService({});
+    suppressionList.getSuppressionReasons.mockRejectedValue(new Error("Failed to check suppression: timeout"));
+
+    const result = await service.sendEmail({
+      from: { email: "noreply@example.com" },
+      to: [{ email: "ada@example.com" }],
+      subject: "Hello",
+      text: "Hello",
+    });
+
+    expect(result).toEqual({
+      messageId: "",
+      status: "failed",
+      message: "Failed to check suppression: timeout",
+    });
+    expect(provider.sendEmail).not.toHaveBeenCalled();
+  });
+});
+
+describe("Email processor suppression", () => {
+  it("should cancel a queued email to a suppressed address without sending it", async () => {
+    const queue = TestHelpers.createQuery({ data: null, error: null });
+    const client = {
+      rpc: vi.fn(() => Promise.resolve({ data: "hard_bounce", error: null })),
+      from: vi.fn(() => queue),
+    };
+    const send = vi.fn();
+
+    const result = await processQueuedEmail(
+      {
+        id: "queue-1",
+        email_address: "bob@example.com",
+        subject: "Hello",
+        attempts: 0,
+        max_attempts: 3,
+      },
+      {
+        supabase: client,
+        defaults: { fromEmail: "noreply@example.com", fromName: "Example" },
+        render: vi.fn(),
+        headers: vi.fn(),
+        send,
+        failureTrackingData: () => ({}),
+      }
+    );
+
+    expect(result).toEqual({ success: true, suppressed: true });
+    expect(client.rpc).toHaveBeenCalledWith("get_suppression_reason", { p_email: "bob@example.com" });
+    expect(client.from).toHaveBeenCalledWith("email_queue");
+    expect(queue.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "cancelled", error_message: "Address is suppressed: hard_bounce" })
+    );
+    expect(queue.eq).toHaveBeenCalledWith("id", "queue-1");
+    expect(send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,179 @@
+const { afterEach, beforeEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import { createTemplateContext } from "../../src/config/template-engine.config";
+import { supabase } from "../../src/config/supabase";
+import { CampaignManagementService } from "../../src/services/campaign-management.service";
+import {
+  getLocaleFallbackChain,
+  normalizeLocale,
+  resolveContactLocale,
+  selectTemplateLocale,
+} from "../../src/services/locale.service";
+import { HandlebarsTemplateEngine } from "../../src/services/template-engine.service";
+import { SupabaseTemplateStorage } from "../../src/services/template-storage.service";
+import { TrackingUrlService } from "../../src/services/tracking-url.service";
+import { createTestUUID, EmailTemplate } from "../../src/types/email-system";
+import { TestHelpers } from "../utils/test-helpers";
+
+const template: EmailTemplate = {
+  id: createTestUUID("localized-template"),
+  name: "Localized",
+  subject: "Hello {{contact.first_name}}",
+  html_content: "<p>Hello {{contact.first_name}}</p><p>{{formatCurrency variables.total \"EUR\"}}</p>",
+  text_content: "Hello {{contact.first_name}}",
+  variables: {},
+  default_locale: "en",
+  locales: {
+    pt: {
+      subject: "Olá {{contact.first_name}}",
+      html_content: "<p>Olá {{contact.first_name}}</p><p>{{formatCurrency variables.total \"EUR\"}}</p>",
+    },
+    "pt-BR": { subject: "Oi {{contact.first_name}}" },
+  },
+  created_at: "2025-07-01T00:00:00Z",
+  updated_at: "2025-07-01T00:00:00Z",
+};
+
+describe("Localized templates", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("locale resolution", () => {
+    it("should normalize locale tags", () => {
+      expect(normalizeLocale("pt_br")).toBe("pt-BR");
+      expect(normalizeLocale("ZH-hant-tw")).toBe("zh-Hant-TW");
+      expect(normalizeLocale("not a locale")).toBeUndefined();
+    });
+
+    it("should build fallback chains from most to least specific", () => {
+      expect(getLocaleFallbackChain("pt-BR")).toEqual(["pt-BR", "pt"]);
+    });
+
+    it("should resolve the contact locale from metadata", () => {
+      expect(resolveContactLocale({ metadata: { locale: "de_AT" } })).toBe("de-AT");
+      expect(resolveContactLocale({ metadata: { language: "fr" } })).toBe("fr");
+      expect(resolveContactLocale({ metadata: {} })).toBeUndefined();
+    });
+
+    it("should fall back to the language and then the default content", () => {
+      expect(selectTemplateLocale(template, "pt-BR")).toBe("pt-BR");
+      expect(selectTemplateLocale(template, "pt-PT")).toBe("pt");
+      expect(selectTemplateLocale(template, "en-GB")).toBeUndefined();
+      expect(selectTemplateLocale(template, "de")).toBeUndefined();
+    });
+  });
+
+  describe("HandlebarsTemplateEngine", () => {
+    let engine: HandlebarsTemplateEngine;
+    let storage: SupabaseTemplateStorage;
+
+    const renderFor = (metadata: Record<string, any>) =>
+      engine.renderTemplate(
+        "localized-template",
+        createTemplateContext(
+          { id: "contact-123", email: "joao@example.com", first_name: "João", metadata },
+          { total: 1234.5 }
+        )
+      );
+
+    beforeEach(() => {
+      storage = new SupabaseTemplateStorage();
+      engine = new HandlebarsTemplateEngine(
+        storage,
+        new TrackingUrlService("https://track.example.com", {
+          pixel_enabled: false,
+          click_tracking_enabled: false,
+          open_tracking_enabled: false,
+        }),
+        {
+          tracking: {
+            enableClickTracking: false,
+            enableOpenTracking: false,
+            trackingDomain: "track.example.com",
+            pixelPath: "/pixel.gif",
+            unsubscribePath: "/unsubscribe",
+            clickPath: "/click",
+          },
+          // DOMPurify has no DOM under jest; keep markup so structure can be asserted
+          security: {
+            maxTemplateSize: 500000,
+            maxVariables: 100,
+            allowScriptTags: false,
+            allowStyleTags: true,
+            sanitizeHtml: false,
+          },
+        }
+      );
+      vi.spyOn(storage, "getTemplate").mockResolvedValue(template);
+    });
+
+    it("should take each field from the most specific variant that sets it", async () => {
+      const result = await renderFor({ locale: "pt-BR" });
+
+      expect(result.subject).toBe("Oi João");
+      // pt-BR sets only the subject; the HTML comes from pt
+      expect(result.html).toContain("<p>Olá João</p>");
+      expect(result.html).toContain("1.234,50");
+      expect(result.metadata.locale).toBe("pt-BR");
+    });
+
+    it("should fall back from region to language", async () => {
+      const result = await renderFor({ language: "pt-PT" });
+
+      expect(result.subject).toBe("Olá João");
+      expect(result.html).toContain("<p>Olá João</p>");
+      expect(result.text).toContain("Olá João");
+      expect(result.metadata.locale).toBe("pt");
+    });
+
+    it("should use the default content and locale when no variant matches", async () => {
+      const result = await renderFor({});
+
+      expect(result.subject).toBe("Hello João");
+      expect(result.html).toContain("€1,234.50");
+      expect(result.metadata.locale).toBe("en");
+    });
+
+    it("should report invalid locale codes and broken variants", async () => {
+      const validation = await engine.validateTemplate({
+        ...template,
+        locales: { pt_BR: { subject: "Oi" }, de: { html_content: "{{> footer}}" } },
+      });
+
+      expect(validation.valid).toBe(false);
+      expect(validation.errors.map((error) => error.message)).toEqual([
+        expect.stringContaining('Invalid locale "pt_BR"'),
+        'Locale de: Partial "footer" is not registered',
+      ]);
+    });
+  });
+
+  describe("CampaignManagementService.validateCampaignCreation", () => {
+    it("should warn about segment locales the template lacks", async () => {
+      const service = new CampaignManagementService();
+      vi.spyOn(supabase, "from")
+        .mockReturnValueOnce(TestHelpers.createQuery({ data: template, error: null }))
+        .mockReturnValueOnce(TestHelpers.createQuery({ data: { active_contacts: 40 }, error: null }));
+      vi.spyOn(supabase, "rpc").mockResolvedValueOnce({
+        data: [
+          { locale: "pt_BR", contact_count: 10 },
+          { locale: "en-GB", contact_count: 5 },
+          { locale: "de", contact_count: 3 },
+          { locale: "de-AT", contact_count: 2 },
+          { locale: null, contact_count: 20 },
+        ],
+        error: null,
+      } as any);
+
+      const validation = await service.validateCampaignCreation({
+        template_id: template.id,
+        segment_id: createTestUUID("segment-1"),
+      });
+
+      expect(validation.is_valid).toBe(true);
+      expect(validation.warnings).toEqual([
+        "Template has no variant for segment locales: de (3), de-AT (2). These contacts will receive the en content.",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+const { afterEach, beforeEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import { createTemplateContext } from "../../src/config/template-engine.config";
+import { HandlebarsTemplateEngine } from "../../src/services/template-engine.service";
+import { SupabaseTemplateStorage } from "../../src/services/template-storage.service";
+import { TrackingUrlService } from "../../src/services/tracking-url.service";
+import { createTestUUID, EmailTemplate } from "../../src/types/email-system";
+import { TemplateContext } from "../../src/types/template-engine";
+
+const MJML_SOURCE = `<mjml>
+  <mj-body>
+    <mj-section>
+      <mj-column>
+        <mj-text>Hello {{contact.first_name}}</mj-text>
+        <mj-button href="https://example.com/offer">View offer</mj-button>
+      </mj-column>
+    </mj-section>
+  </mj-body>
+</mjml>`;
+
+describe("MJML templates", () => {
+  let templateEngine: HandlebarsTemplateEngine;
+  let storage: SupabaseTemplateStorage;
+  let context: TemplateContext;
+
+  const createTemplate = (overrides: Partial<EmailTemplate> = {}): EmailTemplate => ({
+    id: createTestUUID("mjml-template"),
+    name: "MJML Template",
+    subject: "Hello {{contact.first_name}}",
+    source_type: "mjml",
+    html_content: MJML_SOURCE,
+    variables: {},
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    storage = new SupabaseTemplateStorage();
+    templateEngine = new HandlebarsTemplateEngine(
+      storage,
+      new TrackingUrlService("https://track.example.com", {
+        pixel_enabled: false,
+        click_tracking_enabled: false,
+        open_tracking_enabled: false,
+      }),
+      {
+        tracking: {
+          enableClickTracking: false,
+          enableOpenTracking: false,
+          trackingDomain: "track.example.com",
+          pixelPath: "/pixel.gif",
+          unsubscribePath: "/unsubscribe",
+          clickPath: "/click",
+        },
+        // DOMPurify has no DOM under jest; keep markup so structure can be asserted
+        security: {
+          maxTemplateSize: 500000,
+          maxVariables: 100,
+          allowScriptTags: false,
+          allowStyleTags: true,
+          sanitizeHtml: false,
+        },
+      }
+    );
+
+    context = createTemplateContext({
+      id: "contact-123",
+      email: "john@example.com",
+      first_name: "John",
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should compile MJML to HTML before Handlebars rendering", async () => {
+    vi.spyOn(storage, "getTemplate").mockResolvedValue(createTemplate());
+
+    const result = await templateEngine.renderTemplate("mjml-template", context);
+
+    expect(result.html).toContain("Hello John");
+    expect(result.html).toContain('href="https://example.com/offer"');
+    expect(result.html).not.toContain("<mj-");
+  });
+
+  it("should cache the compiled MJML output", async () => {
+    const getTemplate = vi
+      .spyOn(storage, "getTemplate")
+      .mockResolvedValue(createTemplate());
+
+    const compiled = await templateEngine.loadTemplate("mjml-template");
+    await templateEngine.renderTemplate("mjml-template", context);
+
+    expect(compiled.source_type).toBe("mjml");
+    expect(compiled.html).toContain("{{contact.first_name}}");
+    expect(compiled.html).not.toContain("<mjml>");
+    expect(getTemplate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report MJML errors with line and column", async () => {
+    const validation = await templateEngine.validateTemplate(
+      createTemplate({
+        html_content: MJML_SOURCE.replace(
+          "<mj-column>",
+          "<mj-colum>"
+        ).replace("</mj-column>", "</mj-colum>"),
+      })
+    );
+
+    expect(validation.valid).toBe(false);
+    expect(validation.errors).toEqual([
+      expect.objectContaining({
+        type: "mjml",
+        line: 4,
+        column: 7,
+        context: "mj-colum",
+      }),
+    ]);
+  });
+
+  it("should reject content that is not MJML", async () => {
+    vi.spyOn(storage, "getTemplate").mockResolvedValue(
+      createTemplate({ html_content: "<p>Hello</p>" })
+    );
+
+    await expect(templateEngine.loadTemplate("mjml-template")).rejects.toThrow(
+      "Malformed MJML"
+    );
+  });
+
+  it("should leave HTML templates untouched", async () => {
+    vi.spyOn(storage, "getTemplate").mockResolvedValue(
+      createTemplate({
+        source_type: "html",
+        html_content: "<p>Hello {{contact.first_name}}</p>",
+      })
+    );
+
+    const compiled = await templateEngine.loadTemplate("mjml-template");
+
+    expect(compiled.html).toBe("<p>Hello {{contact.first_name}}</p>");
+  });
+});
@@ -0,0 +1,249 @@
+const { afterEach, beforeEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import { createTemplateContext } from "../../src/config/template-engine.config";
+import { HandlebarsTemplateEngine } from "../../src/services/template-engine.service";
+import { SupabaseTemplateStorage } from "../../src/services/template-storage.service";
+import { TrackingUrlService } from "../../src/services/tracking-url.service";
+import { createTestUUID, EmailTemplate, TemplatePartial } from "../../src/types/email-system";
+import { TemplateContext } from "../../src/types/template-engine";
+
+// Mock Supabase
+vi.mock("../../src/config/supabase", () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+describe("Template partials and layouts", () => {
+  let templateEngine: HandlebarsTemplateEngine;
+  let storage: SupabaseTemplateStorage;
+  let context: TemplateContext;
+
+  const createTemplate = (overrides: Partial<EmailTemplate> = {}): EmailTemplate => ({
+    id: createTestUUID("partials-template"),
+    name: "Partials Template",
+    subject: "Hello {{contact.first_name}}",
+    html_content: "<p>Hello {{contact.first_name}}</p>{{> footer}}",
+    text_content: "Hello {{contact.first_name}}",
+    variables: {},
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    ...overrides,
+  });
+
+  const createPartial = (
+    name: string,
+    content: string,
+    type: TemplatePartial["type"] = "partial"
+  ): TemplatePartial => ({
+    id: createTestUUID(`partial-${name}`),
+    name,
+    type,
+    content,
+    version: 1,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  });
+
+  beforeEach(() => {
+    storage = new SupabaseTemplateStorage();
+    templateEngine = new HandlebarsTemplateEngine(
+      storage,
+      new TrackingUrlService("https://track.example.com", {
+        pixel_enabled: false,
+        click_tracking_enabled: false,
+        open_tracking_enabled: false,
+      }),
+      {
+        tracking: {
+          enableClickTracking: false,
+          enableOpenTracking: false,
+          trackingDomain: "track.example.com",
+          pixelPath: "/pixel.gif",
+          unsubscribePath: "/unsubscribe",
+          clickPath: "/click",
+        },
+        // DOMPurify has no DOM under jest; keep markup so structure can be asserted
+        security: {
+          maxTemplateSize: 500000,
+          maxVariables: 100,
+          allowScriptTags: false,
+          allowStyleTags: true,
+          sanitizeHtml: false,
+        },
+      }
+    );
+
+    context = createTemplateContext({
+      id: "contact-123",
+      email: "john@example.com",
+      first_name: "John",
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("rendering", () => {
+    it("should render partials registered from storage", async () => {
+      vi.spyOn(storage, "listPartials").mockResolvedValue([
+        createPartial("footer", "<p>{{> legal}}</p>"),
+        createPartial("legal", "© {{system.current_year}} {{system.company_name}}"),
+      ]);
+      vi.spyOn(storage, "getTemplate").mockResolvedValue(createTemplate());
+
+      await templateEngine.loadPartials();
+      const result = await templateEngine.renderTemplate("partials-template", context);
+
+      expect(result.html).toContain("<p>Hello John</p>");
+      expect(result.html).toContain(`© ${new Date().getFullYear()}`);
+    });
+
+    it("should wrap content in a named layout", async () => {
+      templateEngine.registerPartial(
+        createPartial("brand", '<div class="brand">{{{body}}}</div>', "layout")
+      );
+      templateEngine.registerPartial(createPartial("footer", "<p>Footer</p>"));
+      vi.spyOn(storage, "getTemplate").mockResolvedValue(
+        createTemplate({
+          html_content:
+            '{{#layout "brand"}}<p>Hi {{contact.first_name}}</p>{{> footer}}{{/layout}}',
+        })
+      );
+
+      const result = await templateEngine.renderTemplate("partials-template", context);
+
+      expect(result.html).toContain(
+        '<div class="brand"><p>Hi John</p><p>Footer</p></div>'
+      );
+    });
+  });
+
+  describe("validation", () => {
+    it("should report missing partials and layouts", async () => {
+      const validation = await templateEngine.validateTemplate(
+        createTemplate({
+          html_content: '{{#layout "brand"}}<p>Hi</p>{{> footer}}{{/layout}}',
+        })
+      );
+
+      expect(validation.valid).toBe(false);
+      expect(validation.errors).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            type: "missing_partial",
+            message: 'Partial "footer" is not registered',
+          }),
+          expect.objectContaining({
+            type: "missing_partial",
+            message: 'Layout "brand" is not registered',
+          }),
+        ])
+      );
+    });
+
+    it("should report partials missing from nested partials", async () => {
+      templateEngine.registerPartial(createPartial("footer", "{{> legal}}"));
+
+      const validation = await templateEngine.validateTemplate(createTemplate());
+
+      expect(validation.errors.map((e) => e.message)).toEqual([
+        'Partial "legal" is not registered',
+      ]);
+    });
+
+    it("should reject partials with invalid syntax or names", () => {
+      expect(() =>
+        templateEngine.registerPartial(createPartial("footer", "{{#if}}"))
+      ).toThrow("Handlebars syntax error in partial footer");
+      expect(() =>
+        templateEngine.registerPartial(createPartial("../footer", "ok"))
+      ).toThrow("Invalid partial name");
+    });
+  });
+
+  describe("cache invalidation", () => {
+    it("should invalidate templates that depend on an edited partial", async () => {
+      templateEngine.registerPartial(createPartial("footer", "<p>{{> legal}}</p>"));
+      templateEngine.registerPartial(createPartial("legal", "Old legal"));
+      const getTemplate = vi
+        .spyOn(storage, "getTemplate")
+        .mockResolvedValue(createTemplate());
+
+      const compiled = await templateEngine.loadTemplate("partials-template");
+      expect(compiled.dependencies?.sort()).toEqual(["partial:footer", "partial:legal"]);
+
+      expect(templateEngine.registerPartial(createPartial("legal", "Old legal"))).toEqual([]);
+      expect(templateEngine.registerPartial(createPartial("legal", "New legal"))).toEqual([
+        "partials-template",
+      ]);
+
+      const result = await templateEngine.renderTemplate("partials-template", context);
+      expect(result.html).toContain("New legal");
+      expect(getTemplate).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep unrelated templates cached", async () => {
+      templateEngine.registerPartial(createPartial("footer", "<p>Footer</p>"));
+      templateEngine.registerPartial(createPartial("header", "<p>Header</p>"));
+      vi.spyOn(storage, "getTemplate").mockResolvedValue(createTemplate());
+
+      await templateEngine.loadTemplate("partials-template");
+
+      expect(templateEngine.registerPartial(createPartial("header", "<p>New</p>"))).toEqual([]);
+      expect((await templateEngine.getStats()).templates.cached).toBe(1);
+    });
+
+    it("should pick up partials edited by another process after the refresh interval", async () => {
+      const listPartials = vi
+        .spyOn(storage, "listPartials")
+        .mockResolvedValue([
+          createPartial("footer", "<p>{{> legal}}</p>"),
+          createPartial("legal", "Old legal"),
+        ]);
+      vi.spyOn(storage, "getTemplate").mockResolvedValue(createTemplate());
+      const now = vi.spyOn(Date, "now").mockReturnValue(1_000_000);
+
+      await templateEngine.loadPartials();
+      expect((await templateEngine.renderTemplate("partials-template", context)).html).toContain(
+        "Old legal"
+      );
+
+      // Saved elsewhere: footer no longer uses legal, which is then deleted
+      listPartials.mockResolvedValue([createPartial("footer", "<p>New footer</p>")]);
+      now.mockReturnValue(1_000_000 + 59_000);
+      expect((await templateEngine.renderTemplate("partials-template", context)).html).toContain(
+        "Old legal"
+      );
+
+      now.mockReturnValue(1_000_000 + 60_000);
+      const result = await templateEngine.renderTemplate("partials-template", context);
+
+      expect(result.html).toContain("<p>New footer</p>");
+      expect(listPartials).toHaveBeenCalledTimes(2);
+      expect((await templateEngine.validateTemplate(createTemplate({ html_content: "{{> legal}}" }))).valid).toBe(
+        false
+      );
+    });
+
+    it("should save partials through storage and invalidate dependents", async () => {
+      templateEngine.registerPartial(createPartial("footer", "<p>Footer</p>"));
+      vi.spyOn(storage, "getTemplate").mockResolvedValue(createTemplate());
+      const savePartial = vi
+        .spyOn(storage, "savePartial")
+        .mockImplementation(async (partial: TemplatePartial) =>
+          createPartial(partial.name, partial.content, partial.type)
+        );
+
+      await templateEngine.loadTemplate("partials-template");
+      await templateEngine.savePartial({
+        name: "footer",
+        type: "partial",
+        content: "<p>Edited</p>",
+      });
+
+      expect(savePartial).toHaveBeenCalledTimes(1);
+      expect((await templateEngine.getStats()).templates.cached).toBe(0);
+    });
+  });
+});
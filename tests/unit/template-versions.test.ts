@@ -0,0 +1,257 @@
+const { afterEach, beforeEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import { createTemplateContext } from "../../src/config/template-engine.config";
+import { supabase } from "../../src/config/supabase";
+import { diffTemplateVersions } from "../../src/services/template-diff.service";
+import { HandlebarsTemplateEngine } from "../../src/services/template-engine.service";
+import { SupabaseTemplateStorage } from "../../src/services/template-storage.service";
+import { TrackingUrlService } from "../../src/services/tracking-url.service";
+import {
+  createTestUUID,
+  EmailTemplate,
+  EmailTemplateVersion,
+  TemplatePartial,
+} from "../../src/types/email-system";
+import { TestHelpers } from "../utils/test-helpers";
+
+const createPartial = (name: string, content: string, version: number): TemplatePartial => ({
+  id: createTestUUID(`partial-${name}`),
+  name,
+  type: "partial",
+  content,
+  version,
+  created_at: "2025-07-01T00:00:00Z",
+  updated_at: "2025-07-01T00:00:00Z",
+});
+
+const template: EmailTemplate = {
+  id: createTestUUID("template-1"),
+  name: "Welcome",
+  subject: "Welcome {{contact.first_name}}",
+  html_content: "<p>Hello</p>",
+  text_content: "Hello",
+  variables: {},
+  published_version_id: createTestUUID("version-1"),
+  created_at: "2025-07-01T00:00:00Z",
+  updated_at: "2025-07-01T00:00:00Z",
+};
+
+const createVersion = (
+  versionNumber: number,
+  overrides: Partial<EmailTemplateVersion> = {}
+): EmailTemplateVersion => ({
+  id: createTestUUID(`version-${versionNumber}`),
+  template_id: template.id,
+  version_number: versionNumber,
+  status: "archived",
+  subject: template.subject,
+  html_content: template.html_content,
+  text_content: template.text_content,
+  variables: {},
+  template_hash: "hash",
+  created_at: "2025-07-01T00:00:00Z",
+  ...overrides,
+});
+
+describe("Template versions", () => {
+  let mockedSupabase: { from: any; rpc: any };
+
+  beforeEach(() => {
+    mockedSupabase = {
+      from: vi.spyOn(supabase, "from"),
+      rpc: vi.spyOn(supabase, "rpc"),
+    };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("diffTemplateVersions", () => {
+    it("should report line-level changes per field", () => {
+      const diff = diffTemplateVersions(
+        createVersion(1, { html_content: "<h1>Hi</h1>\n<p>Old</p>\n<footer/>" }),
+        createVersion(2, { html_content: "<h1>Hi</h1>\n<p>New</p>\n<footer/>" })
+      );
+
+      const html = diff.fields.find((field) => field.field === "html_content")!;
+      expect(diff.changed).toBe(true);
+      expect(diff.from_version).toBe(1);
+      expect(diff.to_version).toBe(2);
+      expect(html.lines).toEqual([
+        { op: "equal", value: "<h1>Hi</h1>" },
+        { op: "remove", value: "<p>Old</p>" },
+        { op: "add", value: "<p>New</p>" },
+        { op: "equal", value: "<footer/>" },
+      ]);
+      expect(diff.fields.filter((field) => field.changed).map((field) => field.field)).toEqual([
+        "html_content",
+      ]);
+    });
+
+    it("should ignore variable key order", () => {
+      const diff = diffTemplateVersions(
+        createVersion(1, { variables: { a: 1, b: 2 } }),
+        createVersion(2, { variables: { b: 2, a: 1 } })
+      );
+
+      expect(diff.changed).toBe(false);
+    });
+
+    it("should refuse to diff versions of different templates", () => {
+      expect(() =>
+        diffTemplateVersions(
+          createVersion(1),
+          createVersion(2, { template_id: createTestUUID("other") })
+        )
+      ).toThrow("different templates");
+    });
+  });
+
+  describe("SupabaseTemplateStorage", () => {
+    let storage: SupabaseTemplateStorage;
+
+    beforeEach(() => {
+      storage = new SupabaseTemplateStorage();
+    });
+
+    it("should record content updates as a new version published in the same call", async () => {
+      const published = createVersion(2, { status: "published" });
+      const updateQuery = TestHelpers.createQuery({ data: template, error: null });
+      mockedSupabase.from
+        .mockReturnValueOnce(TestHelpers.createQuery({ data: template, error: null }))
+        .mockReturnValueOnce(TestHelpers.createQuery({ data: [], error: null }))
+        .mockReturnValueOnce(updateQuery);
+      mockedSupabase.rpc.mockResolvedValueOnce({ data: published, error: null });
+
+      await storage.updateTemplate(template.id, { subject: "New subject" });
+
+      expect(mockedSupabase.rpc).toHaveBeenCalledTimes(1);
+      expect(mockedSupabase.rpc).toHaveBeenCalledWith(
+        "create_template_version",
+        expect.objectContaining({
+          p_template_id: template.id,
+          p_subject: "New subject",
+          p_html_content: template.html_content,
+          p_template_hash: expect.stringMatching(/^[0-9a-f]{32}$/),
+          p_partial_versions: {},
+          p_publish: true,
+        })
+      );
+      expect(updateQuery.update).toHaveBeenCalledWith({
+        updated_at: expect.any(String),
+      });
+    });
+
+    it("should snapshot the partial versions a draft uses and hash them", async () => {
+      const withFooter = { ...template, html_content: "<p>Hello</p>{{> footer}}" };
+      const draftWith = async (partials: TemplatePartial[]) => {
+        mockedSupabase.from
+          .mockReturnValueOnce(TestHelpers.createQuery({ data: withFooter, error: null }))
+          .mockReturnValueOnce(TestHelpers.createQuery({ data: partials, error: null }));
+        mockedSupabase.rpc.mockResolvedValueOnce({ data: createVersion(2), error: null });
+        await storage.createDraftVersion(template.id, {});
+        return mockedSupabase.rpc.mock.calls[mockedSupabase.rpc.mock.calls.length - 1][1];
+      };
+
+      const first = await draftWith([
+        createPartial("footer", "<p>{{> legal}}</p>", 3),
+        createPartial("legal", "Legal", 1),
+        createPartial("header", "Header", 7),
+      ]);
+      const second = await draftWith([
+        createPartial("footer", "<p>{{> legal}}</p>", 3),
+        createPartial("legal", "New legal", 2),
+        createPartial("header", "Header", 7),
+      ]);
+
+      expect(first.p_partial_versions).toEqual({ "partial:footer": 3, "partial:legal": 1 });
+      expect(first.p_publish).toBe(false);
+      expect(second.p_partial_versions).toEqual({ "partial:footer": 3, "partial:legal": 2 });
+      expect(second.p_template_hash).not.toBe(first.p_template_hash);
+    });
+
+    it("should update metadata in place without a new version", async () => {
+      const updateQuery = TestHelpers.createQuery({ data: { ...template, name: "Renamed" }, error: null });
+      mockedSupabase.from.mockReturnValueOnce(updateQuery);
+
+      const updated = await storage.updateTemplate(template.id, { name: "Renamed" });
+
+      expect(updated.name).toBe("Renamed");
+      expect(mockedSupabase.rpc).not.toHaveBeenCalled();
+      expect(updateQuery.update).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "Renamed" })
+      );
+    });
+
+    it("should roll back by publishing a copy of an earlier version", async () => {
+      const restored = createVersion(4, {
+        status: "published",
+        based_on_version_id: createTestUUID("version-1"),
+      });
+      mockedSupabase.from
+        .mockReturnValueOnce(
+          TestHelpers.createQuery({ data: createVersion(1, { html_content: "{{> footer}}" }), error: null })
+        )
+        .mockReturnValueOnce(TestHelpers.createQuery({ data: [createPartial("footer", "Footer", 5)], error: null }));
+      mockedSupabase.rpc.mockResolvedValueOnce({ data: restored, error: null });
+
+      const result = await storage.rollbackToVersion(template.id, 1);
+
+      expect(result).toEqual(restored);
+      expect(mockedSupabase.rpc).toHaveBeenCalledWith("rollback_template_version", {
+        p_template_id: template.id,
+        p_version_number: 1,
+        p_change_note: null,
+        p_template_hash: expect.stringMatching(/^[0-9a-f]{32}$/),
+        p_partial_versions: { "partial:footer": 5 },
+      });
+    });
+
+    it("should surface publish errors", async () => {
+      mockedSupabase.rpc.mockResolvedValueOnce({
+        data: null,
+        error: { message: "Only draft versions can be published" },
+      });
+
+      await expect(storage.publishVersion("version-1")).rejects.toThrow(
+        "Failed to publish template version: Only draft versions can be published"
+      );
+    });
+  });
+
+  describe("HandlebarsTemplateEngine", () => {
+    it("should render the pinned version rather than the current template", async () => {
+      const storage = new SupabaseTemplateStorage();
+      const engine = new HandlebarsTemplateEngine(
+        storage,
+        new TrackingUrlService("https://track.example.com", {
+          pixel_enabled: false,
+          click_tracking_enabled: false,
+          open_tracking_enabled: false,
+        })
+      );
+      const context = createTemplateContext({
+        id: "contact-1",
+        email: "john@example.com",
+        first_name: "John",
+      });
+
+      vi.spyOn(storage, "getTemplate").mockResolvedValue({
+        ...template,
+        subject: "Current subject",
+      });
+      const getVersion = vi
+        .spyOn(storage, "getVersion")
+        .mockResolvedValue(createVersion(1, { subject: "Sent to {{contact.first_name}}" }));
+
+      const sent = await engine.renderTemplateVersion("version-1", context);
+      const current = await engine.renderTemplate(template.id, context);
+      await engine.renderTemplateVersion("version-1", context);
+
+      expect(sent.subject).toBe("Sent to John");
+      expect(sent.metadata.template_id).toBe(template.id);
+      expect(current.subject).toBe("Current subject");
+      expect(getVersion).toHaveBeenCalledTimes(1);
+    });
+  });
+});
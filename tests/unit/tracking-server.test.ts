@@ -0,0 +1,323 @@
+const { afterAll, afterEach, beforeAll, describe, expect, it, jest: vi } = require('@jest/globals');
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { supabase } from "../../src/config/supabase";
+import { HandlebarsTemplateEngine } from "../../src/services/template-engine.service";
+import { SupabaseTemplateStorage } from "../../src/services/template-storage.service";
+import { TrackingEventService } from "../../src/services/tracking-event.service";
+import { TrackingServer } from "../../src/services/tracking-server.service";
+import { TrackingUrlService } from "../../src/services/tracking-url.service";
+import { createTestUUID, EmailTemplate } from "../../src/types/email-system";
+import { TestHelpers } from "../utils/test-helpers";
+
+const template: EmailTemplate = {
+  id: createTestUUID("tracked-template"),
+  name: "Tracked",
+  subject: "Hello {{contact.first_name}}",
+  html_content: "<p>Hello {{contact.first_name}}</p>",
+  variables: {},
+  created_at: "2025-07-01T00:00:00Z",
+  updated_at: "2025-07-01T00:00:00Z",
+};
+
+describe("TrackingServer", () => {
+  const trackingUrls = new TrackingUrlService("https://track.example.com", {
+    pixel_enabled: true,
+    click_tracking_enabled: true,
+    open_tracking_enabled: true,
+    signing_keys: [{ id: "2025-08", secret: "tracking-secret" }],
+  });
+  const storage = new SupabaseTemplateStorage();
+  const events = new TrackingEventService();
+  const engine = new HandlebarsTemplateEngine(
+    storage,
+    new TrackingUrlService("https://track.example.com", {
+      pixel_enabled: false,
+      click_tracking_enabled: false,
+      open_tracking_enabled: false,
+    }),
+    {
+      // DOMPurify has no DOM under jest; keep markup so it can be asserted
+      security: {
+        maxTemplateSize: 500000,
+        maxVariables: 100,
+        allowScriptTags: false,
+        allowStyleTags: true,
+        sanitizeHtml: false,
+      },
+    }
+  );
+
+  let server: Server;
+  let origin: string;
+
+  // Tracking URLs point at track.example.com; send them to the local server
+  const request = (trackingUrl: string, init: RequestInit = {}) => {
+    const url = new URL(trackingUrl);
+    return fetch(`${origin}${url.pathname}${url.search}`, {
+      redirect: "manual",
+      ...init,
+    });
+  };
+
+  beforeAll(async () => {
+    const trackingServer = new TrackingServer({
+      trackingUrls,
+      templateEngine: engine,
+      templateStorage: storage,
+      events,
+      allowedRedirectDomains: ["example.com"],
+    });
+    await new Promise<void>((resolve) => {
+      server = trackingServer.listen(0, resolve);
+    });
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should serve the pixel and record signed opens", async () => {
+    const record = vi.spyOn(events, "recordEvent").mockResolvedValue("log-1");
+
+    const response = await request(
+      trackingUrls.generatePixelUrl(template.id, "contact-1", "campaign-1")
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("image/gif");
+    expect(response.headers.get("cache-control")).toContain("no-store");
+    expect(Buffer.from(await response.arrayBuffer()).subarray(0, 6).toString()).toBe("GIF89a");
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: "open",
+        contactId: "contact-1",
+        campaignId: "campaign-1",
+      })
+    );
+  });
+
+  it("should serve the pixel without recording tampered opens", async () => {
+    const record = vi.spyOn(events, "recordEvent").mockResolvedValue("log-1");
+    const url = new URL(trackingUrls.generatePixelUrl(template.id, "contact-1"));
+    url.searchParams.set("c", "contact-2");
+
+    const response = await request(url.toString());
+
+    expect(response.status).toBe(200);
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it("should redirect signed clicks and record the target", async () => {
+    const record = vi.spyOn(events, "recordEvent").mockResolvedValue("log-1");
+
+    const response = await request(
+      trackingUrls.generateClickTrackingUrl(
+        "https://www.example.com/offer?ref=email",
+        template.id,
+        "contact-1",
+        "campaign-1",
+        undefined,
+        "queue-1"
+      )
+    );
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toBe("https://www.example.com/offer?ref=email");
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: "click",
+        url: "https://www.example.com/offer?ref=email",
+        queueId: "queue-1",
+      })
+    );
+  });
+
+  it("should refuse redirects outside the allowed domains", async () => {
+    const record = vi.spyOn(events, "recordEvent").mockResolvedValue("log-1");
+
+    const response = await request(
+      trackingUrls.generateClickTrackingUrl("https://evil.test/", template.id, "contact-1")
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get("location")).toBeNull();
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it("should render view-in-browser pages for the recipient", async () => {
+    vi.spyOn(events, "getRecipient").mockResolvedValue({
+      id: "contact-1",
+      email: "john@example.com",
+      first_name: "John",
+    });
+    vi.spyOn(storage, "getTemplate").mockResolvedValue(template);
+
+    const response = await request(
+      trackingUrls.generateViewInBrowserUrl(template.id, "contact-1")
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain("<p>Hello John</p>");
+  });
+
+  it("should reject expired view links", async () => {
+    const now = Date.now();
+    const expiring = new TrackingUrlService("https://track.example.com", {
+      pixel_enabled: true,
+      click_tracking_enabled: true,
+      open_tracking_enabled: true,
+      signing_keys: [{ id: "2025-08", secret: "tracking-secret" }],
+      token_ttl_seconds: 60,
+    });
+    vi.spyOn(Date, "now").mockReturnValue(now - 120 * 1000);
+    const url = expiring.generateViewInBrowserUrl(template.id, "contact-1");
+    vi.spyOn(Date, "now").mockReturnValue(now);
+
+    expect((await request(url)).status).toBe(410);
+  });
+
+  it("should only unsubscribe on a one-click POST", async () => {
+    const record = vi.spyOn(events, "recordEvent").mockResolvedValue("log-1");
+    const url = trackingUrls.generateUnsubscribeUrl("contact-1", "campaign-1");
+
+    const page = await request(url);
+    expect(page.status).toBe(200);
+    expect(await page.text()).toContain('name="List-Unsubscribe" value="One-Click"');
+    expect(record).not.toHaveBeenCalled();
+
+    const response = await request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: "List-Unsubscribe=One-Click",
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: "unsubscribe",
+        contactId: "contact-1",
+        campaignId: "campaign-1",
+      })
+    );
+  });
+});
+
+describe("TrackingEventService", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should keep the first open and not downgrade clicked sends", async () => {
+    const lookup = TestHelpers.createQuery({
+      data: [
+        {
+          id: "log-1",
+          status: "clicked",
+          opened_at: "2025-08-01T10:00:00Z",
+          clicked_at: "2025-08-01T10:05:00Z",
+          tracking_data: { provider: "smtp" },
+        },
+      ],
+      error: null,
+    });
+    const update = TestHelpers.createQuery({ data: null, error: null });
+    const insert = TestHelpers.createQuery({ data: null, error: null });
+    vi.spyOn(supabase, "from")
+      .mockReturnValueOnce(lookup)
+      .mockReturnValueOnce(update)
+      .mockReturnValueOnce(insert);
+
+    const emailLogId = await new TrackingEventService().recordEvent({
+      event: "open",
+      contactId: "contact-1",
+      campaignId: "campaign-1",
+      ipAddress: "203.0.113.5",
+      userAgent: "Mozilla/5.0",
+      timestamp: new Date("2025-08-02T09:00:00Z"),
+    });
+
+    expect(emailLogId).toBe("log-1");
+    expect(lookup.eq).toHaveBeenCalledWith("campaign_id", "campaign-1");
+
+    const updateData = update.update.mock.calls[0][0];
+    expect(updateData.status).toBeUndefined();
+    expect(updateData.opened_at).toBeUndefined();
+    expect(updateData.tracking_data).toMatchObject({
+      provider: "smtp",
+      event: "open",
+      source: "first_party",
+    });
+
+    expect(insert.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email_log_id: "log-1",
+        event_type: "open",
+        ip_address: "203.0.113.5",
+        event_timestamp: "2025-08-02T09:00:00.000Z",
+        // Bare "Mozilla/5.0" is the Apple MPP prefetcher
+        is_machine: true,
+        machine_reason: "apple_mpp",
+      })
+    );
+  });
+
+  it("should record events from a queued send against that send", async () => {
+    const lookup = TestHelpers.createQuery({
+      data: [{ id: "log-3", status: "sent", tracking_data: {} }],
+      error: null,
+    });
+    vi.spyOn(supabase, "from")
+      .mockReturnValueOnce(lookup)
+      .mockReturnValueOnce(TestHelpers.createQuery({ data: null, error: null }))
+      .mockReturnValueOnce(TestHelpers.createQuery({ data: null, error: null }));
+
+    const emailLogId = await new TrackingEventService().recordEvent({
+      event: "open",
+      contactId: "contact-1",
+      campaignId: "campaign-1",
+      queueId: "queue-1",
+      timestamp: new Date("2025-08-02T09:00:00Z"),
+    });
+
+    expect(emailLogId).toBe("log-3");
+    expect(lookup.eq).toHaveBeenCalledWith("queue_id", "queue-1");
+    expect(lookup.eq).not.toHaveBeenCalledWith("contact_id", "contact-1");
+  });
+
+  it("should record application conversions against the campaign send", async () => {
+    const lookup = TestHelpers.createQuery({
+      data: [{ id: "log-2", status: "opened", opened_at: "2025-08-01T10:00:00Z", tracking_data: {} }],
+      error: null,
+    });
+    const update = TestHelpers.createQuery({ data: null, error: null });
+    const insert = TestHelpers.createQuery({ data: null, error: null });
+    vi.spyOn(supabase, "from")
+      .mockReturnValueOnce(lookup)
+      .mockReturnValueOnce(update)
+      .mockReturnValueOnce(insert);
+    const service = new TrackingEventService();
+
+    await expect(service.recordConversion({ campaignId: "campaign-1" })).rejects.toThrow(
+      "Conversion needs a contact id or email"
+    );
+    const emailLogId = await service.recordConversion({
+      email: "ada@example.com",
+      campaignId: "campaign-1",
+      timestamp: new Date("2025-08-02T09:00:00Z"),
+    });
+
+    expect(emailLogId).toBe("log-2");
+    expect(lookup.eq).toHaveBeenCalledWith("email", "ada@example.com");
+    expect(update.update.mock.calls[0][0].status).toBeUndefined();
+    expect(insert.insert).toHaveBeenCalledWith(
+      expect.objectContaining({ email_log_id: "log-2", event_type: "conversion", is_machine: false })
+    );
+  });
+});
@@ -0,0 +1,165 @@
+const { afterEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import {
+  parseTrackingSigningKeys,
+  TrackingUrlService,
+  signTrackingParams,
+} from "../../src/services/tracking-url.service";
+import {
+  signTrackingInput,
+  trackingSigningInput,
+} from "../../supabase/functions/_shared/tracking-signature";
+import { TrackingConfig } from "../../src/types/template-engine";
+
+describe("Tracking URL signatures", () => {
+  const baseConfig: TrackingConfig = {
+    pixel_enabled: true,
+    click_tracking_enabled: true,
+    open_tracking_enabled: true,
+    signing_keys: [{ id: "2025-08", secret: "current-secret" }],
+  };
+
+  const createService = (overrides: Partial<TrackingConfig> = {}) =>
+    new TrackingUrlService("https://track.example.com", {
+      ...baseConfig,
+      ...overrides,
+    });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should sign and verify every tracking URL type", () => {
+    const service = createService();
+    const urls = {
+      open: service.generatePixelUrl("template-1", "contact-1", "campaign-1"),
+      click: service.generateClickTrackingUrl(
+        "https://example.com/offer?ref=email",
+        "template-1",
+        "contact-1",
+        "campaign-1"
+      ),
+      unsubscribe: service.generateUnsubscribeUrl("contact-1", "campaign-1"),
+      view: service.generateViewInBrowserUrl("template-1", "contact-1"),
+      preferences: service.generateManagePreferencesUrl("contact-1"),
+    };
+
+    for (const [event, url] of Object.entries(urls)) {
+      const result = service.verifyTrackingUrl(url);
+      expect(result.status).toBe("valid");
+      expect(result.event).toBe(event);
+      expect(result.keyId).toBe("2025-08");
+      expect(result.contactId).toBe("contact-1");
+    }
+
+    expect(service.verifyTrackingUrl(urls.click)).toMatchObject({
+      templateId: "template-1",
+      campaignId: "campaign-1",
+      url: "https://example.com/offer?ref=email",
+    });
+  });
+
+  it("should reject tampered parameters", () => {
+    const service = createService();
+    const url = new URL(
+      service.generateClickTrackingUrl("https://example.com", "template-1", "contact-1")
+    );
+    url.searchParams.set("url", encodeURIComponent("https://evil.example.com"));
+
+    expect(service.verifyTrackingUrl(url.toString())).toMatchObject({
+      status: "bad_signature",
+      valid: false,
+    });
+  });
+
+  it("should not accept a signature for a different event", () => {
+    const service = createService();
+    const url = new URL(service.generateViewInBrowserUrl("template-1", "contact-1"));
+    url.pathname = "/pixel.gif";
+
+    expect(service.verifyTrackingUrl(url.toString()).status).toBe("bad_signature");
+  });
+
+  it("should keep verifying URLs signed with a rotated-out key", () => {
+    const oldUrl = createService({
+      signing_keys: [{ id: "2025-05", secret: "previous-secret" }],
+    }).generatePixelUrl("template-1", "contact-1");
+
+    const rotated = createService({
+      signing_keys: [
+        { id: "2025-08", secret: "current-secret" },
+        { id: "2025-05", secret: "previous-secret" },
+      ],
+    });
+
+    expect(rotated.verifyTrackingUrl(oldUrl)).toMatchObject({
+      status: "valid",
+      keyId: "2025-05",
+    });
+    expect(
+      new URL(rotated.generatePixelUrl("template-1", "contact-1")).searchParams.get("kid")
+    ).toBe("2025-08");
+  });
+
+  it("should report retired keys and unsigned URLs", () => {
+    const retired = createService({
+      signing_keys: [{ id: "2024-01", secret: "retired-secret" }],
+    }).generatePixelUrl("template-1", "contact-1");
+    const unsigned = new TrackingUrlService("https://track.example.com", {
+      ...baseConfig,
+      signing_keys: undefined,
+    }).generatePixelUrl("template-1", "contact-1");
+
+    expect(new URL(unsigned).searchParams.get("sig")).toBeNull();
+    expect(createService().verifyTrackingUrl(retired).status).toBe("unknown_key");
+    expect(createService().verifyTrackingUrl(unsigned).status).toBe("malformed");
+    expect(createService().verifyTrackingUrl("not a url").status).toBe("malformed");
+  });
+
+  it("should expire URLs after the configured lifetime", () => {
+    const now = Date.parse("2025-08-01T00:00:00Z");
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    const service = createService({ token_ttl_seconds: 3600 });
+    const url = service.generateUnsubscribeUrl("contact-1");
+
+    expect(service.verifyTrackingUrl(url)).toMatchObject({
+      status: "valid",
+      expiresAt: now + 3600 * 1000,
+    });
+
+    vi.spyOn(Date, "now").mockReturnValue(now + 3601 * 1000);
+    expect(service.verifyTrackingUrl(url).status).toBe("expired");
+    expect(service.verifyUnsubscribeRequest(new URL(url).searchParams)).toEqual({
+      valid: false,
+      status: "expired",
+    });
+  });
+
+  it("should sign with the legacy secret as the default key", () => {
+    const service = createService({
+      signing_keys: undefined,
+      signing_secret: "legacy-secret",
+    });
+
+    expect(
+      service.verifyTrackingUrl(service.generatePixelUrl("template-1", "contact-1"))
+    ).toMatchObject({ status: "valid", keyId: "default" });
+  });
+
+  it("should parse signing keys from the environment format", () => {
+    expect(parseTrackingSigningKeys(" 2025-08:abc:def , 2025-05:xyz,")).toEqual([
+      { id: "2025-08", secret: "abc:def" },
+      { id: "2025-05", secret: "xyz" },
+    ]);
+    expect(() =>
+      createService({ signing_keys: [{ id: "bad id", secret: "x" }] })
+    ).toThrow("Invalid tracking signing key: bad id");
+  });
+
+  it("should sign like the edge functions do", async () => {
+    const params = new URLSearchParams("email=ada%40example.com&action=unsubscribe&kid=2025-08&sig=stale");
+
+    expect(await signTrackingInput(trackingSigningInput("unsubscribe", params), "current-secret")).toBe(
+      signTrackingParams("unsubscribe", params, "current-secret")
+    );
+  });
+});
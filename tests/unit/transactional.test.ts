@@ -0,0 +1,250 @@
+const { afterEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import { supabase } from "../../src/config/supabase";
+import { EmailService } from "../../src/services/email.service";
+import {
+  getSuppressionReason,
+  isWithinIdempotencyWindow,
+  TransactionalEmailService,
+} from "../../src/services/transactional.service";
+import { createTestUUID } from "../../src/types/email-system";
+import { MockQueryResult, TestHelpers } from "../utils/test-helpers";
+
+const noRows = { data: null, error: { code: "PGRST116", message: "No rows" } };
+const now = new Date("2025-08-01T12:00:00Z");
+
+const logEntry = (fields: Record<string, unknown> = {}) => ({
+  id: createTestUUID("transactional-1"),
+  template_name: "password-reset",
+  category: "security",
+  to_email: "ada@example.com",
+  variables: {},
+  status: "pending",
+  created_at: now.toISOString(),
+  ...fields,
+});
+
+// Queries are answered in order per table
+const mockTables = (tables: Record<string, MockQueryResult[]>) => {
+  const queries: Record<string, any[]> = {};
+  vi.spyOn(supabase, "from").mockImplementation((table: string) => {
+    const query = TestHelpers.createQuery(tables[table].shift() || { data: null, error: null });
+    queries[table] = [...(queries[table] || []), query];
+    return query;
+  });
+  return queries;
+};
+
+const createService = () => {
+  const emailService = new EmailService({
+    provider: {} as any,
+    defaultFrom: { email: "noreply@example.com", name: "Example" },
+  });
+  const sendEmail = vi.spyOn(emailService, "sendEmail").mockResolvedValue({
+    messageId: "message-1",
+    status: "sent",
+    provider: "mailtrap",
+  } as any);
+  const templateEngine: any = {
+    renderTemplate: vi.fn(() =>
+      Promise.resolve({ subject: "Reset your password", html: "<p>Reset</p>", text: "Reset" })
+    ),
+  };
+  const templateStorage: any = {
+    getTemplateByName: vi.fn(() =>
+      Promise.resolve({ id: createTestUUID("template-1"), name: "password-reset" })
+    ),
+  };
+  const suppressionList = {
+    getSuppressionReason: vi.fn(() => Promise.resolve(null)),
+    getSuppressionReasons: vi.fn(() => Promise.resolve(new Map())),
+  };
+  const service = new TransactionalEmailService({
+    emailService,
+    templateEngine,
+    templateStorage,
+    suppressionList,
+  });
+  return { service, sendEmail, templateEngine, templateStorage, suppressionList };
+};
+
+describe("Transactional suppression", () => {
+  it("should let bypass categories reach unsubscribed contacts", () => {
+    expect(getSuppressionReason({ status: "unsubscribed" }, "security")).toBeNull();
+    expect(getSuppressionReason({ status: "unsubscribed" }, "general")).toBe(
+      "Recipient unsubscribed; category general does not bypass suppression"
+    );
+    expect(getSuppressionReason({ status: "bounced" }, "security")).toBe(
+      "Recipient address has bounced"
+    );
+    expect(getSuppressionReason(null, "general")).toBeNull();
+  });
+
+  it("should expire idempotency keys after the window", () => {
+    expect(isWithinIdempotencyWindow("2025-08-01T00:00:00Z", now, 24)).toBe(true);
+    expect(isWithinIdempotencyWindow("2025-07-31T11:00:00Z", now, 24)).toBe(false);
+  });
+});
+
+describe("TransactionalEmailService.sendTransactional", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should render, send and log the email", async () => {
+    const { service, sendEmail, templateEngine } = createService();
+    const queries = mockTables({
+      transactional_emails: [noRows, { data: logEntry(), error: null }],
+      contacts: [
+        {
+          data: { id: createTestUUID("contact-1"), email: "ada@example.com", first_name: "Ada", status: "unsubscribed", metadata: {} },
+          error: null,
+        },
+      ],
+    });
+
+    const result = await service.sendTransactional(
+      "password-reset",
+      { email: "ada@example.com", name: "Ada" },
+      { reset_url: "https://example.com/reset" },
+      { idempotencyKey: "reset-42", category: "security", now }
+    );
+
+    expect(result).toEqual({
+      id: "transactional-1",
+      status: "sent",
+      message_id: "message-1",
+      error: undefined,
+      replayed: false,
+    });
+    expect(queries.transactional_emails[1].insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        idempotency_key: "reset-42",
+        template_id: "template-1",
+        contact_id: "contact-1",
+        status: "pending",
+      })
+    );
+    expect(templateEngine.renderTemplate.mock.calls[0][1]).toMatchObject({
+      contact: { id: "contact-1", first_name: "Ada" },
+      variables: { reset_url: "https://example.com/reset" },
+    });
+    expect(sendEmail.mock.calls[0][0]).toMatchObject({
+      from: { email: "noreply@example.com" },
+      to: [{ email: "ada@example.com", name: "Ada" }],
+      subject: "Reset your password",
+      tags: ["transactional", "security"],
+      metadata: { transactional_email_id: "transactional-1" },
+    });
+    expect(queries.transactional_emails[2].update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "sent", message_id: "message-1", provider: "mailtrap" })
+    );
+  });
+
+  it("should return the logged result when a key is replayed", async () => {
+    const { service, sendEmail, templateStorage } = createService();
+    mockTables({
+      transactional_emails: [
+        {
+          data: logEntry({ status: "sent", message_id: "message-1", created_at: "2025-08-01T11:00:00Z" }),
+          error: null,
+        },
+      ],
+    });
+
+    const result = await service.sendTransactional("password-reset", "ada@example.com", {}, {
+      idempotencyKey: "reset-42",
+      now,
+    });
+
+    expect(result).toMatchObject({ status: "sent", message_id: "message-1", replayed: true });
+    expect(templateStorage.getTemplateByName).not.toHaveBeenCalled();
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it("should release expired keys and send again", async () => {
+    const { service, sendEmail } = createService();
+    const queries = mockTables({
+      transactional_emails: [
+        { data: logEntry({ id: "transactional-0", status: "sent", created_at: "2025-07-30T12:00:00Z" }), error: null },
+        { data: null, error: null },
+        { data: logEntry(), error: null },
+      ],
+      contacts: [noRows],
+    });
+
+    const result = await service.sendTransactional("password-reset", "ada@example.com", {}, {
+      idempotencyKey: "reset-42",
+      now,
+    });
+
+    expect(queries.transactional_emails[1].update).toHaveBeenCalledWith({ idempotency_key: null });
+    expect(queries.transactional_emails[1].eq).toHaveBeenCalledWith("id", "transactional-0");
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ id: "transactional-1", status: "sent", replayed: false });
+  });
+
+  it("should return the concurrent send that claimed the key first", async () => {
+    const { service, sendEmail } = createService();
+    mockTables({
+      transactional_emails: [
+        noRows,
+        { data: null, error: { code: "23505", message: "duplicate key value" } },
+        { data: logEntry({ id: "transactional-2" }), error: null },
+      ],
+      contacts: [noRows],
+    });
+
+    const result = await service.sendTransactional("password-reset", "ada@example.com", {}, {
+      idempotencyKey: "reset-42",
+      now,
+    });
+
+    expect(result).toMatchObject({ id: "transactional-2", status: "pending", replayed: true });
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it("should log suppressed sends without sending", async () => {
+    const { service, sendEmail } = createService();
+    const queries = mockTables({
+      transactional_emails: [{ data: logEntry({ category: "general" }), error: null }],
+      contacts: [{ data: { id: createTestUUID("contact-1"), status: "unsubscribed" }, error: null }],
+    });
+
+    const result = await service.sendTransactional("weekly-digest", "ada@example.com", {}, { now });
+
+    expect(result).toMatchObject({ status: "suppressed", replayed: false });
+    expect(queries.transactional_emails[1].update).toHaveBeenCalledWith({
+      status: "suppressed",
+      error_message: "Recipient unsubscribed; category general does not bypass suppression",
+    });
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it("should not let bypass categories reach suppressed addresses", async () => {
+    const { service, sendEmail, suppressionList } = createService();
+    suppressionList.getSuppressionReason.mockResolvedValue("complaint");
+    mockTables({
+      transactional_emails: [{ data: logEntry(), error: null }],
+      contacts: [noRows],
+    });
+
+    const result = await service.sendTransactional("password-reset", "ada@example.com", {}, {
+      category: "security",
+      now,
+    });
+
+    expect(result).toMatchObject({ status: "suppressed", error: "Recipient is suppressed: complaint" });
+    expect(suppressionList.getSuppressionReason).toHaveBeenCalledWith("ada@example.com");
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it("should reject unknown templates", async () => {
+    const { service, templateStorage } = createService();
+    templateStorage.getTemplateByName.mockResolvedValue(null);
+    mockTables({ transactional_emails: [] });
+
+    await expect(service.sendTransactional("missing", "ada@example.com")).rejects.toThrow(
+      "Template not found: missing"
+    );
+  });
+});
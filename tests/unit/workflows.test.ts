@@ -0,0 +1,237 @@
+const { afterEach, describe, expect, it, jest: vi } = require('@jest/globals');
+import { supabase } from "../../src/config/supabase";
+import { EmailQueueService } from "../../src/services/email-queue.service";
+import {
+  compareField,
+  getContactField,
+  validateWorkflow,
+  WorkflowService,
+} from "../../src/services/workflow.service";
+import { Contact, createTestUUID, Workflow, WorkflowStep } from "../../src/types/email-system";
+import { TestHelpers } from "../utils/test-helpers";
+
+const contact: Contact = {
+  id: createTestUUID("contact-1"),
+  email: "ada@example.com",
+  first_name: "Ada",
+  status: "active",
+  metadata: { plan: "pro", seats: 12, tags: ["beta"] },
+  timezone: "America/New_York",
+  created_at: "2025-01-01T00:00:00Z",
+  updated_at: "2025-01-01T00:00:00Z",
+};
+
+const workflowWith = (steps: WorkflowStep[]): Workflow => ({
+  id: createTestUUID("workflow-1"),
+  name: "Onboarding",
+  status: "active",
+  trigger_type: "list_added",
+  trigger_config: { list_id: createTestUUID("list-1") },
+  steps,
+  allow_reentry: false,
+  campaign_id: createTestUUID("campaign-1"),
+  created_at: "2025-01-01T00:00:00Z",
+  updated_at: "2025-01-01T00:00:00Z",
+});
+
+const enrollmentFor = (workflow: Workflow, fields: Record<string, unknown> = {}) => ({
+  id: "enrollment-1",
+  claim_token: "claim-1",
+  workflow_id: workflow.id,
+  contact_id: contact.id,
+  status: "active",
+  trigger_data: {},
+  sent_emails: {},
+  entered_at: "2025-08-01T00:00:00Z",
+  updated_at: "2025-08-01T00:00:00Z",
+  workflow,
+  contact: { ...contact, metadata: { ...contact.metadata } },
+  ...fields,
+});
+
+const now = new Date("2025-08-01T12:00:00Z");
+
+describe("Workflow conditions", () => {
+  it("should read contact columns and metadata paths", () => {
+    expect(getContactField(contact, "email")).toBe("ada@example.com");
+    expect(getContactField(contact, "metadata.plan")).toBe("pro");
+    expect(getContactField(contact, "metadata.company.name")).toBeUndefined();
+  });
+
+  it("should compare field values", () => {
+    expect(compareField("pro", "equals", "pro")).toBe(true);
+    expect(compareField(12, "greater_than", 10)).toBe(true);
+    expect(compareField("2025-03-01", "less_than", "2025-04-01")).toBe(true);
+    expect(compareField(["beta"], "contains", "beta")).toBe(true);
+    expect(compareField("Enterprise", "contains", "enter")).toBe(true);
+    expect(compareField("", "exists")).toBe(false);
+    expect(compareField(undefined, "greater_than", 1)).toBe(false);
+  });
+});
+
+describe("validateWorkflow", () => {
+  it("should check triggers, step fields and step references", () => {
+    expect(
+      validateWorkflow({
+        name: "Drip",
+        trigger_type: "custom_event",
+        steps: [
+          { id: "a", type: "wait", hours: 2, until: "09:00" },
+          { id: "b", type: "branch", condition: { type: "opened", step_id: "a" }, if_true: "z" },
+          { id: "b", type: "add_to_list", list_id: "" as any },
+        ],
+      })
+    ).toEqual([
+      "custom_event triggers need trigger_config.event_name",
+      "step ids must be unique",
+      "step a: set either hours or until",
+      "step b: if_true refers to unknown step z",
+      "step b: condition must refer to a send_email step",
+      "step b: list_id is required",
+    ]);
+  });
+
+  it("should require the segment for segment exit triggers", () => {
+    expect(
+      validateWorkflow({
+        name: "Win-back",
+        trigger_type: "segment_exited",
+        steps: [{ id: "a", type: "wait", hours: 24 }],
+      })
+    ).toEqual(["segment_exited triggers need trigger_config.segment_id"]);
+  });
+});
+
+describe("WorkflowService.tick", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const mockTick = (enrollment: { id: string; claim_token: string }, advanced = true) => {
+    const rpc = vi.spyOn(supabase, "rpc").mockImplementation((async (name: string) => {
+      if (name === "claim_due_workflow_enrollments") {
+        return { data: [{ id: enrollment.id, claim_token: enrollment.claim_token }], error: null };
+      }
+      return { data: name === "advance_workflow_enrollment" ? advanced : 0, error: null };
+    }) as any);
+    const from = vi.spyOn(supabase, "from").mockImplementation((table: string) =>
+      TestHelpers.createQuery({ data: table === "workflow_enrollments" ? [enrollment] : null, error: null })
+    );
+    const advance = () =>
+      rpc.mock.calls.find(([name]: [string]) => name === "advance_workflow_enrollment")?.[1];
+    return { from, advance };
+  };
+
+  it("should send, then wait until the contact's local time", async () => {
+    const workflow = workflowWith([
+      {
+        id: "welcome",
+        type: "send_email",
+        template_id: createTestUUID("template-1"),
+        subject: "Welcome aboard",
+      },
+      { id: "pause", type: "wait", until: "09:00" },
+      { id: "tips", type: "send_email", template_id: createTestUUID("template-2") },
+    ]);
+    const { from, advance } = mockTick(enrollmentFor(workflow));
+
+    const result = await new WorkflowService().tick(now);
+
+    const { p_enrollment_id, p_claim_token, p_update, p_emails } = advance();
+    expect([p_enrollment_id, p_claim_token]).toEqual(["enrollment-1", "claim-1"]);
+    expect(p_emails).toHaveLength(1);
+    expect(p_emails[0]).toMatchObject({
+      campaign_id: workflow.campaign_id,
+      contact_id: contact.id,
+      email_address: "ada@example.com",
+      template_id: "template-1",
+      subject: "Welcome aboard",
+      template_data: { first_name: "Ada", workflow_step_id: "welcome" },
+    });
+    expect(p_emails[0].template_data).not.toHaveProperty("template_id");
+    expect(p_update).toEqual({
+      current_step_id: "tips",
+      next_run_at: "2025-08-01T13:00:00.000Z",
+      sent_emails: { welcome: p_emails[0].id },
+    });
+    const log = from.mock.results[from.mock.calls.findIndex(([table]: [string]) => table === "automated_actions")].value;
+    expect(log.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        metadata: expect.objectContaining({ workflow_step_id: "welcome", queue_id: p_emails[0].id }),
+      })
+    );
+    expect(result).toMatchObject({ advanced: 1, completed: 0, emails_queued: 1 });
+    // advance_workflow_enrollment queues them through enqueue_email
+    expect(from).not.toHaveBeenCalledWith("email_queue");
+  });
+
+  it("should queue other sends through the same enqueue_email path", async () => {
+    const row = { campaign_id: createTestUUID("campaign-1"), contact_id: contact.id, email_address: "ada@example.com" };
+    const rpc = vi.spyOn(supabase, "rpc").mockResolvedValue({ data: { id: "queue-1", ...row }, error: null } as any);
+
+    const queued = await new EmailQueueService().addToQueue(row);
+
+    expect(rpc).toHaveBeenCalledWith("enqueue_email", { p_email: row });
+    expect(queued.id).toBe("queue-1");
+  });
+
+  it("should not count or log sends of an enrollment whose claim was lost", async () => {
+    const workflow = workflowWith([
+      { id: "welcome", type: "send_email", template_id: createTestUUID("template-1") },
+    ]);
+    const { from, advance } = mockTick(enrollmentFor(workflow), false);
+
+    const result = await new WorkflowService().tick(now);
+
+    expect(advance().p_emails).toHaveLength(1);
+    expect(from.mock.calls.map(([table]: [string]) => table)).not.toContain("automated_actions");
+    expect(result).toMatchObject({ advanced: 0, completed: 0, emails_queued: 0 });
+  });
+
+  it("should branch on contact fields and complete at the end", async () => {
+    const workflow = workflowWith([
+      {
+        id: "is-pro",
+        type: "branch",
+        condition: { type: "field", field: "metadata.plan", operator: "equals", value: "pro" },
+        if_false: null,
+      },
+      { id: "tag", type: "update_contact", metadata: { onboarded: true } },
+    ]);
+    const { from, advance } = mockTick(enrollmentFor(workflow));
+
+    const result = await new WorkflowService().tick(now);
+
+    const contactUpdate = from.mock.results[from.mock.calls.findIndex(([table]: [string]) => table === "contacts")].value;
+    expect(contactUpdate.update).toHaveBeenCalledWith({
+      metadata: { plan: "pro", seats: 12, tags: ["beta"], onboarded: true },
+      updated_at: now.toISOString(),
+    });
+    expect(advance().p_update).toEqual(
+      expect.objectContaining({ status: "completed", current_step_id: null })
+    );
+    expect(result.completed).toBe(1);
+  });
+
+  it("should fail enrollments stuck in a loop without a wait", async () => {
+    const workflow = workflowWith([
+      {
+        id: "loop",
+        type: "branch",
+        condition: { type: "field", field: "status", operator: "equals", value: "active" },
+        if_true: "loop",
+      },
+    ]);
+    const { advance } = mockTick(enrollmentFor(workflow));
+
+    const result = await new WorkflowService().tick(now);
+
+    expect(advance().p_update).toEqual(
+      expect.objectContaining({
+        status: "failed",
+        last_error: "Step limit of 50 reached without a wait",
+      })
+    );
+    expect(result.failed).toBe(1);
+  });
+});
@@ -0,0 +1,164 @@
+import net from 'net';
+
+/**
+ * Minimal in-process SMTP server for provider tests.
+ * Accepts EHLO/AUTH/MAIL/RCPT/DATA and records every message it receives.
+ * Replies can be overridden per recipient or for DATA to simulate failures.
+ */
+export interface SinkMessage {
+  from: string;
+  to: string[];
+  data: string;
+  authUser?: string;
+}
+
+export interface SmtpSinkOptions {
+  /** Reply to send for RCPT TO:<address>, e.g. "550 5.1.1 No such user" */
+  rcptReplies?: Record<string, string>;
+  /** Reply to send after DATA is received; defaults to 250 */
+  dataReply?: string;
+  /** Reply to send on successful AUTH; defaults to 235 */
+  authReply?: string;
+}
+
+export class SmtpSink {
+  messages: SinkMessage[] = [];
+  commands: string[] = [];
+  private server: net.Server;
+  private sockets = new Set<net.Socket>();
+
+  constructor(public options: SmtpSinkOptions = {}) {
+    this.server = net.createServer((socket) => this.handleConnection(socket));
+  }
+
+  async start(): Promise<number> {
+    return new Promise((resolve) => {
+      this.server.listen(0, '127.0.0.1', () => {
+        resolve((this.server.address() as net.AddressInfo).port);
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+
+    let buffer = '';
+    let inData = false;
+    let authStep: 'user' | 'pass' | null = null;
+    let authUser: string | undefined;
+    let envelope: SinkMessage = { from: '', to: [], data: '' };
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+
+      while (buffer.length > 0) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          envelope.data = buffer.slice(0, end).replace(/^\.\./gm, '.');
+          buffer = buffer.slice(end + 5);
+          inData = false;
+
+          const dataReply = this.options.dataReply || '250 2.0.0 OK queued';
+          if (dataReply.startsWith('2')) {
+            this.messages.push({ ...envelope, authUser });
+          }
+          reply(dataReply);
+          envelope = { from: '', to: [], data: '' };
+          continue;
+        }
+
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd === -1) return;
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+
+        if (authStep === 'user') {
+          authUser = Buffer.from(line, 'base64').toString('utf8');
+          authStep = 'pass';
+          reply('334 UGFzc3dvcmQ6');
+          continue;
+        }
+        if (authStep === 'pass') {
+          authStep = null;
+          reply(this.options.authReply || '235 2.7.0 Authentication successful');
+          continue;
+        }
+
+        this.commands.push(line);
+        const [verb, ...rest] = line.split(' ');
+        const arg = rest.join(' ');
+
+        switch (verb.toUpperCase()) {
+          case 'EHLO':
+            socket.write(
+              '250-sink.local\r\n250-PIPELINING\r\n250-8BITMIME\r\n250 AUTH PLAIN LOGIN\r\n'
+            );
+            break;
+          case 'HELO':
+            reply('250 sink.local');
+            break;
+          case 'AUTH': {
+            const [mechanism, initial] = arg.split(' ');
+            if (mechanism.toUpperCase() === 'PLAIN') {
+              authUser = Buffer.from(initial || '', 'base64').toString('utf8').split('\u0000')[1];
+              reply(this.options.authReply || '235 2.7.0 Authentication successful');
+            } else {
+              authStep = 'user';
+              reply('334 VXNlcm5hbWU6');
+            }
+            break;
+          }
+          case 'MAIL':
+            envelope.from = this.extractAddress(arg);
+            reply('250 2.1.0 OK');
+            break;
+          case 'RCPT': {
+            const address = this.extractAddress(arg);
+            const rcptReply = this.options.rcptReplies?.[address] || '250 2.1.5 OK';
+            if (rcptReply.startsWith('2')) {
+              envelope.to.push(address);
+            }
+            reply(rcptReply);
+            break;
+          }
+          case 'DATA':
+            inData = true;
+            reply('354 End data with <CR><LF>.<CR><LF>');
+            break;
+          case 'RSET':
+            envelope = { from: '', to: [], data: '' };
+            reply('250 2.0.0 OK');
+            break;
+          case 'NOOP':
+            reply('250 2.0.0 OK');
+            break;
+          case 'QUIT':
+            reply('221 2.0.0 Bye');
+            socket.end();
+            return;
+          default:
+            reply('502 5.5.2 Command not recognized');
+        }
+      }
+    });
+
+    reply('220 sink.local ESMTP ready');
+  }
+
+  private extractAddress(arg: string): string {
+    const match = arg.match(/<([^>]*)>/);
+    return match ? match[1] : arg;
+  }
+}
@@ -1,5 +1,36 @@
+import { jest } from '@jest/globals';
 import { DatabaseSetup } from '../setup/database.setup';
 
+export interface MockQueryResult {
+  data: unknown;
+  error: unknown;
+}
+
+const CHAINED_QUERY_METHODS = [
+  'select',
+  'eq',
+  'in',
+  'is',
+  'or',
+  'gte',
+  'lte',
+  'order',
+  'limit',
+  'range',
+  'insert',
+  'update',
+  'upsert',
+  'delete'
+] as const;
+
+export type MockQuery = {
+  [method in (typeof CHAINED_QUERY_METHODS)[number]]: jest.Mock<(...args: any[]) => MockQuery>;
+} & {
+  single: jest.Mock<() => Promise<MockQueryResult>>;
+  maybeSingle: jest.Mock<() => Promise<MockQueryResult>>;
+  then: (resolve: (value: MockQueryResult) => unknown) => unknown;
+};
+
 export class TestHelpers {
   /**
    * Wait for a condition to become true
@@ -274,6 +305,21 @@ export class TestHelpers {
     return response;
   }
 
+  /**
+   * Create a chainable, awaitable supabase query builder mock that
+   * resolves to the given result
+   */
+  static createQuery(result: MockQueryResult): MockQuery {
+    const query = {} as MockQuery;
+    for (const method of CHAINED_QUERY_METHODS) {
+      query[method] = jest.fn((..._args: any[]) => query);
+    }
+    query.single = jest.fn(() => Promise.resolve(result));
+    query.maybeSingle = jest.fn(() => Promise.resolve(result));
+    query.then = (resolve) => resolve(result);
+    return query;
+  }
+
   /**
    * Validate email address format
    */
@@ -460,7 +506,8 @@ export class TestHelpers {
         p_batch_size: batchSize
       });
 
-      const processed = result[0]?.processed_count || 0;
+      const [batch] = result as { processed_count?: number }[];
+      const processed = batch?.processed_count || 0;
       totalProcessed += processed;
       batchCount++;
 
@@ -0,0 +1,29 @@
+import 'dotenv/config';
+import {
+  createTemplateTrackingService,
+  templateEngine
+} from './src/config/template-engine.config';
+import { TrackingServer } from './src/services/tracking-server.service';
+
+const port = parseInt(process.env.TRACKING_PORT || process.env.PORT || '3001');
+
+// Comma-separated domains click redirects may go to (empty allows any)
+const allowedRedirectDomains = (process.env.TRACKING_REDIRECT_ALLOWED_DOMAINS || '')
+  .split(',')
+  .map((domain) => domain.trim())
+  .filter(Boolean);
+
+const trackingServer = new TrackingServer({
+  trackingUrls: createTemplateTrackingService(),
+  templateEngine,
+  allowedRedirectDomains
+});
+
+// Start the server
+trackingServer.listen(port, () => {
+  console.log(`🚀 Momentum Email Tracking Server running on port ${port}`);
+  console.log(`📍 Health check: http://localhost:${port}/health`);
+  console.log(`📈 Tracking base URL: ${process.env.TEMPLATE_TRACKING_BASE_URL || 'not set'}`);
+  console.log(`🔒 Signing keys configured: ${process.env.TRACKING_SIGNING_KEYS || process.env.TRACKING_SIGNING_SECRET ? 'Yes' : 'No'}`);
+  console.log(`↪️ Redirect domains: ${allowedRedirectDomains.length ? allowedRedirectDomains.join(', ') : 'any'}`);
+});
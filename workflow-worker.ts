@@ -0,0 +1,40 @@
+import 'dotenv/config';
+import { WorkflowService } from './src/services/workflow.service';
+
+const intervalMs = parseInt(process.env.WORKFLOW_TICK_INTERVAL_MS || '60000');
+const batchSize = parseInt(process.env.WORKFLOW_BATCH_SIZE || '100');
+
+const workflowService = new WorkflowService();
+let running = false;
+
+async function tick(): Promise<void> {
+  // A slow tick is not overlapped by the next one
+  if (running) {
+    return;
+  }
+  running = true;
+
+  try {
+    const result = await workflowService.tick(new Date(), batchSize);
+    if (result.enrolled > 0 || result.advanced > 0) {
+      console.log('🔄 Workflow tick:', result);
+    }
+  } catch (error) {
+    console.error('❌ Workflow tick failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+const timer = setInterval(tick, intervalMs);
+tick();
+
+console.log(`🚀 Workflow worker running every ${intervalMs / 1000}s (batch size ${batchSize})`);
+
+const shutdown = (): void => {
+  console.log('🛑 Stopping workflow worker...');
+  clearInterval(timer);
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);